@@ -0,0 +1,408 @@
+import React, { useEffect, useState } from 'react';
+import { Edit3, Loader, X } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { formatCurrency } from '../utils/pricing';
+import { uploadDesignFile, toDesignReference } from '../utils/designFiles';
+import { GST_STATE_OPTIONS, pincodeNeedsDeliveryState } from '../utils/gst';
+
+export interface AmendableLine {
+    lineId: string | null;
+    label: string;
+    productId: string;
+    quantity: number;
+    selectedDynamicAttributes?: Array<{
+        attributeTypeId?: string;
+        attributeValue?: any;
+        subattribute?: { value: string } | null;
+    }>;
+}
+
+interface ProductAttribute {
+    attributeType: {
+        _id: string;
+        attributeName: string;
+        inputStyle?: string;
+        attributeValues?: Array<{ value: string; label?: string }>;
+    } | null;
+    customValues?: Array<{ value: string; label?: string }>;
+    isEnabled?: boolean;
+}
+
+interface AmendmentPricing {
+    previousTotal: number;
+    newTotal: number;
+    difference: number;
+}
+
+interface AmendmentModalProps {
+    orderId: string;
+    orderNumber: string;
+    lines: AmendableLine[];
+    address: string;
+    pincode: string;
+    // State chosen for a pincode shared between states (GST state code)
+    deliveryState?: string | null;
+    mobileNumber: string;
+    onClose: () => void;
+    onSubmitted: () => void;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+// Attributes picked from a list can be changed here; other inputs stay as ordered
+const SELECTABLE_INPUT_STYLES = ['DROPDOWN', 'RADIO', 'POPUP'];
+
+// Current selections keyed by attributeTypeId (multi-select attributes as arrays, subattributes under "<id>_sub")
+const toSelectionMap = (line: AmendableLine | undefined) => {
+    const selections: Record<string, any> = {};
+    (line?.selectedDynamicAttributes || []).forEach((attr) => {
+        if (!attr.attributeTypeId) return;
+        const existing = selections[attr.attributeTypeId];
+        if (existing !== undefined) {
+            selections[attr.attributeTypeId] = Array.isArray(existing) ? [...existing, attr.attributeValue] : [existing, attr.attributeValue];
+        } else {
+            selections[attr.attributeTypeId] = attr.attributeValue;
+        }
+        if (attr.subattribute?.value) {
+            selections[`${attr.attributeTypeId}_sub`] = attr.subattribute.value;
+        }
+    });
+    return selections;
+};
+
+// Ask for changes to an order that hasn't gone into production; an admin reviews the request
+const AmendmentModal: React.FC<AmendmentModalProps> = ({
+    orderId,
+    orderNumber,
+    lines,
+    address,
+    pincode,
+    deliveryState = null,
+    mobileNumber,
+    onClose,
+    onSubmitted,
+}) => {
+    const [lineIndex, setLineIndex] = useState(0);
+    const [quantity, setQuantity] = useState(String(lines[0]?.quantity || ''));
+    const [attributes, setAttributes] = useState<ProductAttribute[]>([]);
+    const [selections, setSelections] = useState<Record<string, any>>(toSelectionMap(lines[0]));
+    const [changedAttributes, setChangedAttributes] = useState(false);
+    const [newAddress, setNewAddress] = useState(address);
+    const [newPincode, setNewPincode] = useState(pincode);
+    const [newDeliveryState, setNewDeliveryState] = useState(deliveryState || '');
+    const [newMobileNumber, setNewMobileNumber] = useState(mobileNumber);
+    const [frontDesign, setFrontDesign] = useState<File | null>(null);
+    const [backDesign, setBackDesign] = useState<File | null>(null);
+    const [notes, setNotes] = useState('');
+    const [pricing, setPricing] = useState<AmendmentPricing | null>(null);
+    const [checking, setChecking] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const line = lines[lineIndex];
+    const needsDeliveryState = pincodeNeedsDeliveryState(newPincode);
+
+    useEffect(() => {
+        setQuantity(String(line?.quantity || ''));
+        setSelections(toSelectionMap(line));
+        setChangedAttributes(false);
+        setPricing(null);
+        if (!line?.productId) return;
+
+        fetch(`${API_BASE_URL}/products/${line.productId}`, { headers: getAuthHeaders() })
+            .then((response) => (response.ok ? response.json() : null))
+            .then((product) => {
+                const productAttributes: ProductAttribute[] = product?.dynamicAttributes || [];
+                setAttributes(productAttributes.filter((attr) =>
+                    attr.isEnabled !== false &&
+                    attr.attributeType &&
+                    SELECTABLE_INPUT_STYLES.includes(attr.attributeType.inputStyle || 'DROPDOWN') &&
+                    !Array.isArray(toSelectionMap(line)[attr.attributeType._id])
+                ));
+            })
+            .catch(() => setAttributes([]));
+    }, [lineIndex]);
+
+    const buildRequestBody = async (includeDesign: boolean) => {
+        const body: Record<string, any> = { lineId: line?.lineId || undefined };
+        if (quantity && parseInt(quantity) !== line?.quantity) body.quantity = parseInt(quantity);
+        if (changedAttributes) body.selectedDynamicAttributes = selections;
+        if (newAddress.trim() !== address) body.address = newAddress.trim();
+        if (newPincode.trim() !== pincode) body.pincode = newPincode.trim();
+        if (needsDeliveryState && newDeliveryState && (body.pincode || newDeliveryState !== deliveryState)) {
+            body.deliveryState = newDeliveryState;
+        }
+        if (newMobileNumber.trim() !== mobileNumber) body.mobileNumber = newMobileNumber.trim();
+        if (frontDesign) {
+            body.uploadedDesign = includeDesign
+                ? {
+                    frontImage: toDesignReference(await uploadDesignFile(frontDesign)),
+                    backImage: backDesign ? toDesignReference(await uploadDesignFile(backDesign)) : undefined,
+                }
+                // The price doesn't depend on the design, so the preview only needs to know there is one
+                : { frontImage: { data: 'pending', filename: frontDesign.name } };
+        }
+        if (notes.trim()) body.notes = notes.trim();
+        return body;
+    };
+
+    const handlePreview = async () => {
+        setChecking(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/amendments/preview`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(await buildRequestBody(false)),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to price the changes');
+            }
+            setPricing(data.data);
+        } catch (err) {
+            setPricing(null);
+            setError(err instanceof Error ? err.message : 'Failed to price the changes');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/amendments`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(await buildRequestBody(true)),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to send the change request');
+            }
+            onSubmitted();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to send the change request');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Any edit invalidates the price shown
+    const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value);
+        setPricing(null);
+    };
+
+    const getAttributeValues = (attr: ProductAttribute) =>
+        attr.customValues && attr.customValues.length > 0 ? attr.customValues : attr.attributeType?.attributeValues || [];
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-6 border-b border-slate-200">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900">Request Changes</h2>
+                        <p className="text-sm text-slate-500">Changes to {orderNumber} are reviewed before production</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5 text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 text-sm">
+                    {lines.length > 1 && (
+                        <div>
+                            <label className="block font-medium text-slate-700 mb-1">Item</label>
+                            <select
+                                value={lineIndex}
+                                onChange={(e) => setLineIndex(parseInt(e.target.value))}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            >
+                                {lines.map((orderLine, idx) => (
+                                    <option key={orderLine.lineId || idx} value={idx}>{orderLine.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Quantity</label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={quantity}
+                            onChange={(e) => edit(setQuantity)(e.target.value)}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                        />
+                    </div>
+
+                    {attributes.map((attr) => {
+                        const attributeTypeId = attr.attributeType!._id;
+                        return (
+                            <div key={attributeTypeId}>
+                                <label className="block font-medium text-slate-700 mb-1">{attr.attributeType!.attributeName}</label>
+                                <select
+                                    value={selections[attributeTypeId] ?? ''}
+                                    onChange={(e) => {
+                                        // A different value has its own subattributes, so the old pick is dropped
+                                        const { [`${attributeTypeId}_sub`]: _dropped, ...rest } = selections;
+                                        edit(setSelections)({ ...rest, [attributeTypeId]: e.target.value });
+                                        setChangedAttributes(true);
+                                    }}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                                >
+                                    <option value="">Not selected</option>
+                                    {getAttributeValues(attr).map((value) => (
+                                        <option key={value.value} value={value.value}>{value.label || value.value}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        );
+                    })}
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Delivery Address</label>
+                        <textarea
+                            value={newAddress}
+                            onChange={(e) => edit(setNewAddress)(e.target.value)}
+                            rows={2}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block font-medium text-slate-700 mb-1">Pincode</label>
+                            <input
+                                value={newPincode}
+                                maxLength={6}
+                                onChange={(e) => edit(setNewPincode)(e.target.value.replace(/\D/g, ''))}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block font-medium text-slate-700 mb-1">Mobile Number</label>
+                            <input
+                                value={newMobileNumber}
+                                onChange={(e) => edit(setNewMobileNumber)(e.target.value)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            />
+                        </div>
+                    </div>
+                    {needsDeliveryState && (
+                        <div>
+                            <label className="block font-medium text-slate-700 mb-1">State</label>
+                            <select
+                                value={newDeliveryState}
+                                onChange={(e) => edit(setNewDeliveryState)(e.target.value)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            >
+                                <option value="">Select the state of your address</option>
+                                {GST_STATE_OPTIONS.map((state) => (
+                                    <option key={state.code} value={state.code}>{state.name}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-slate-500 mt-1">This pincode is shared between states, so GST is worked out from the state you choose.</p>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Replacement Design (optional)</label>
+                        <input
+                            type="file"
+                            accept="image/*"
+                            onChange={(e) => edit(setFrontDesign)(e.target.files?.[0] || null)}
+                            className="w-full text-slate-600"
+                        />
+                        {frontDesign && (
+                            <div className="mt-2">
+                                <label className="block text-xs text-slate-500 mb-1">Back side (optional)</label>
+                                <input
+                                    type="file"
+                                    accept="image/*"
+                                    onChange={(e) => setBackDesign(e.target.files?.[0] || null)}
+                                    className="w-full text-slate-600"
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Notes for our team</label>
+                        <textarea
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            rows={2}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            placeholder="Anything we should know about these changes"
+                        />
+                    </div>
+
+                    {pricing && (
+                        <div className="pt-3 border-t border-slate-200 space-y-1">
+                            <div className="flex justify-between text-slate-500">
+                                <span>Current total</span>
+                                <span>{formatCurrency(pricing.previousTotal)}</span>
+                            </div>
+                            <div className="flex justify-between font-bold text-slate-900 text-base">
+                                <span>New total</span>
+                                <span>{formatCurrency(pricing.newTotal)}</span>
+                            </div>
+                            {Math.abs(pricing.difference) >= 0.01 ? (
+                                <p className={`text-xs ${pricing.difference > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                                    {pricing.difference > 0
+                                        ? `${formatCurrency(pricing.difference)} more to pay if approved`
+                                        : `${formatCurrency(Math.abs(pricing.difference))} to be refunded if approved`}
+                                </p>
+                            ) : (
+                                <p className="text-xs text-slate-500">No change in price</p>
+                            )}
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-3 p-6 border-t border-slate-200">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    {pricing ? (
+                        <button
+                            onClick={handleSubmit}
+                            disabled={submitting}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                            {submitting ? <Loader className="w-4 h-4 animate-spin" /> : <Edit3 className="w-4 h-4" />}
+                            {submitting ? 'Sending...' : 'Send Request'}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handlePreview}
+                            disabled={checking}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                            {checking && <Loader className="w-4 h-4 animate-spin" />}
+                            {checking ? 'Checking Price...' : 'Check Price'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AmendmentModal;
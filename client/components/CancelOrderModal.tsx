@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, X, XCircle } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { CancellationPreview, OrderCancellation } from '../utils/cancellation';
+import { formatCurrency } from '../utils/pricing';
+
+interface CancelOrderModalProps {
+    orderId: string;
+    orderNumber: string;
+    onClose: () => void;
+    onCancelled: (cancellation: OrderCancellation) => void;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+// Customer: what cancelling refunds at this stage, then the cancellation itself
+const CancelOrderModal: React.FC<CancelOrderModalProps> = ({ orderId, orderNumber, onClose, onCancelled }) => {
+    const [preview, setPreview] = useState<CancellationPreview | null>(null);
+    const [reason, setReason] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchPreview = async () => {
+            try {
+                const response = await fetch(`${API_BASE_URL}/orders/${orderId}/cancellation`, { headers: getAuthHeaders() });
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load the cancellation terms');
+                setPreview(data.data);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to load the cancellation terms');
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchPreview();
+    }, [orderId]);
+
+    const handleCancel = async () => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/cancel`, {
+                method: 'PUT',
+                headers: getAuthHeaders(),
+                body: JSON.stringify({ reason: reason.trim() || undefined }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to cancel the order');
+            onCancelled(data.cancellation);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to cancel the order');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-6 border-b border-slate-200">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900">Cancel Order</h2>
+                        <p className="text-sm text-slate-500">{orderNumber}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5 text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 text-sm">
+                    {loading && (
+                        <div className="flex items-center gap-2 text-slate-500">
+                            <Loader className="w-4 h-4 animate-spin" /> Checking the cancellation terms...
+                        </div>
+                    )}
+
+                    {preview && !preview.cancellable && (
+                        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-slate-700">{preview.message}</div>
+                    )}
+
+                    {preview?.cancellable && preview.rule && (
+                        <>
+                            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                                <p className="font-semibold text-amber-900">{preview.rule.label}</p>
+                                <p className="text-amber-800 mt-1">
+                                    At this stage {preview.rule.refundPercent}% of what you have paid is refunded.
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex justify-between text-slate-600">
+                                    <span>Paid so far</span>
+                                    <span>{formatCurrency(preview.paidAmount)}</span>
+                                </div>
+                                <div className="flex justify-between font-semibold text-green-700">
+                                    <span>Refund</span>
+                                    <span>{formatCurrency(preview.refundAmount)}</span>
+                                </div>
+                                {preview.forfeitedAmount > 0 && (
+                                    <div className="flex justify-between text-red-700">
+                                        <span>Not refunded (work already done)</span>
+                                        <span>{formatCurrency(preview.forfeitedAmount)}</span>
+                                    </div>
+                                )}
+                            </div>
+                            <div>
+                                <label className="block font-medium text-slate-700 mb-1">Reason (optional)</label>
+                                <textarea
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value)}
+                                    rows={2}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                                    placeholder="Why are you cancelling?"
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-3 p-6 border-t border-slate-200">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                    >
+                        Keep Order
+                    </button>
+                    <button
+                        onClick={handleCancel}
+                        disabled={submitting || !preview?.cancellable}
+                        className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                        {submitting ? <Loader className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                        {submitting ? 'Cancelling...' : 'Cancel Order'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CancelOrderModal;
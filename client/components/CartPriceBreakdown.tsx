@@ -0,0 +1,98 @@
+import React from 'react';
+import { CartBreakdown, formatCurrency, getGstLines } from '../utils/pricing';
+
+interface CartPriceBreakdownProps {
+    breakdown: CartBreakdown;
+    // One entry per cart line, in the same order as breakdown.lines
+    lines: Array<{ key: string; name: string; quantity: number }>;
+    totalPrice: number;
+    advancePaid?: number;
+    placeOfSupply?: string | null;
+}
+
+// Price summary of a multi-line order or cart: per-line subtotals, then the shared coupon, shipping and GST
+const CartPriceBreakdown: React.FC<CartPriceBreakdownProps> = ({
+    breakdown,
+    lines,
+    totalPrice,
+    advancePaid,
+    placeOfSupply,
+}) => {
+    const gstLines = getGstLines(breakdown);
+
+    return (
+        <div className="space-y-3 text-sm">
+            {lines.map((line, idx) => (
+                <div key={line.key} className="flex justify-between items-center text-slate-600">
+                    <span>
+                        {line.name} ({line.quantity.toLocaleString()} units)
+                    </span>
+                    <span>{formatCurrency(breakdown.lines[idx]?.breakdown.subtotalAfterDiscount || 0)}</span>
+                </div>
+            ))}
+
+            {breakdown.discountAmount > 0 && (
+                <div className="flex justify-between items-center text-green-600 text-xs">
+                    <span>Includes bulk discounts</span>
+                    <span>-{formatCurrency(breakdown.discountAmount)}</span>
+                </div>
+            )}
+
+            <div className="flex justify-between items-center pt-2 font-medium text-slate-900 border-t border-slate-100">
+                <span>Subtotal</span>
+                <span>{formatCurrency(breakdown.subtotalAfterDiscount)}</span>
+            </div>
+
+            {breakdown.couponDiscount > 0 && (
+                <div className="flex justify-between items-center text-green-600 bg-green-50 p-2 rounded-md">
+                    <span className="font-semibold">Coupon ({breakdown.couponCode})</span>
+                    <span className="font-bold">-{formatCurrency(breakdown.couponDiscount)}</span>
+                </div>
+            )}
+
+            {breakdown.designCharge > 0 && (
+                <div className="flex justify-between items-center text-slate-600">
+                    <span>Additional Design Charge</span>
+                    <span>+{formatCurrency(breakdown.designCharge)}</span>
+                </div>
+            )}
+
+            {breakdown.deliveryZoneName && (
+                <div className="flex justify-between items-center text-slate-600">
+                    <span>Shipping ({breakdown.deliveryZoneName})</span>
+                    <span>{breakdown.freeShippingApplied ? 'Free' : `+${formatCurrency(breakdown.shippingCharge)}`}</span>
+                </div>
+            )}
+
+            {gstLines.map((line) => (
+                <div key={line.label} className="flex justify-between items-center text-slate-500 text-xs">
+                    <span>{line.label}</span>
+                    <span>+{formatCurrency(line.amount)}</span>
+                </div>
+            ))}
+            {placeOfSupply && <div className="text-slate-400 text-xs">Place of supply: {placeOfSupply}</div>}
+
+            {advancePaid !== undefined && advancePaid > 0 && (
+                <div className="mt-2 pt-2 border-t border-slate-100">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="text-slate-500">Advance Paid</span>
+                        <span className="font-medium text-green-600">{formatCurrency(advancePaid)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <span className="text-slate-500">Balance Due</span>
+                        <span className={`font-bold ${totalPrice - advancePaid > 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                            {formatCurrency(totalPrice - advancePaid)}
+                        </span>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-between items-center pt-3 mt-2 border-t-2 border-slate-300">
+                <span className="text-lg font-bold text-slate-900">Total Amount</span>
+                <span className="text-xl font-bold text-brand-600">{formatCurrency(totalPrice)}</span>
+            </div>
+        </div>
+    );
+};
+
+export default CartPriceBreakdown;
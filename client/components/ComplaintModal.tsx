@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Loader, X } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { COMPLAINT_REASON_LABELS, ComplaintReason, MAX_COMPLAINT_PHOTOS, COMPLAINT_PHOTO_TYPES } from '../utils/complaints';
+
+export interface ComplaintLine {
+    lineId: string | null;
+    label: string;
+    quantity: number;
+}
+
+interface ComplaintModalProps {
+    orderId: string;
+    orderNumber: string;
+    // A single-product order has one line with lineId null
+    lines: ComplaintLine[];
+    onClose: () => void;
+    onSubmitted: () => void;
+}
+
+// Photos are sent as multipart form data, so no JSON Content-Type here
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'ngrok-skip-browser-warning': 'true',
+});
+
+// Customer: report a problem with a delivered order
+const ComplaintModal: React.FC<ComplaintModalProps> = ({ orderId, orderNumber, lines, onClose, onSubmitted }) => {
+    // '' is the whole order (cart orders only)
+    const [lineId, setLineId] = useState<string>(lines.length === 1 ? lines[0].lineId || '' : '');
+    const [reason, setReason] = useState<ComplaintReason | ''>('');
+    const [affectedQuantity, setAffectedQuantity] = useState('');
+    const [description, setDescription] = useState('');
+    const [photos, setPhotos] = useState<File[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const selectedLine = lines.find((line) => (line.lineId || '') === lineId);
+    const maxQuantity = selectedLine ? selectedLine.quantity : lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    const handlePhotos = (files: FileList | null) => {
+        const picked = Array.from(files || []);
+        if (picked.length > MAX_COMPLAINT_PHOTOS) {
+            setError(`You can attach up to ${MAX_COMPLAINT_PHOTOS} photos`);
+        } else {
+            setError(null);
+        }
+        setPhotos(picked.slice(0, MAX_COMPLAINT_PHOTOS));
+    };
+
+    const handleSubmit = async () => {
+        if (!reason) {
+            setError('Please choose what went wrong');
+            return;
+        }
+        if (!description.trim()) {
+            setError('Please describe the problem');
+            return;
+        }
+
+        setSubmitting(true);
+        setError(null);
+        try {
+            const formData = new FormData();
+            if (lineId) formData.append('lineId', lineId);
+            formData.append('reason', reason);
+            formData.append('description', description.trim());
+            if (affectedQuantity) formData.append('affectedQuantity', affectedQuantity);
+            photos.forEach((photo) => formData.append('photos', photo));
+
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/complaints`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: formData,
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to submit complaint');
+            onSubmitted();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit complaint');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-6 border-b border-slate-200">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900">Report a Problem</h2>
+                        <p className="text-sm text-slate-500">Tell us what went wrong with {orderNumber}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5 text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 text-sm">
+                    {lines.length > 1 && (
+                        <div>
+                            <label className="block font-medium text-slate-700 mb-1">Item</label>
+                            <select
+                                value={lineId}
+                                onChange={(e) => setLineId(e.target.value)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            >
+                                <option value="">Whole order</option>
+                                {lines.map((line) => (
+                                    <option key={line.lineId!} value={line.lineId!}>{line.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">What went wrong?</label>
+                        <select
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value as ComplaintReason)}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                        >
+                            <option value="">Choose a reason</option>
+                            {Object.entries(COMPLAINT_REASON_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Units affected (optional)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={maxQuantity}
+                            value={affectedQuantity}
+                            onChange={(e) => setAffectedQuantity(e.target.value)}
+                            placeholder={`Up to ${maxQuantity.toLocaleString()}`}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">Describe the problem</label>
+                        <textarea
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                            placeholder="What's wrong and where on the print"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block font-medium text-slate-700 mb-1">
+                            Photos (up to {MAX_COMPLAINT_PHOTOS})
+                        </label>
+                        <input
+                            type="file"
+                            accept={COMPLAINT_PHOTO_TYPES.join(',')}
+                            multiple
+                            onChange={(e) => handlePhotos(e.target.files)}
+                            className="w-full text-slate-600"
+                        />
+                        {photos.length > 0 && (
+                            <p className="mt-1 text-xs text-slate-500">{photos.map((photo) => photo.name).join(', ')}</p>
+                        )}
+                    </div>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-3 p-6 border-t border-slate-200">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={submitting}
+                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                        {submitting ? <Loader className="w-4 h-4 animate-spin" /> : <AlertTriangle className="w-4 h-4" />}
+                        {submitting ? 'Sending...' : 'Submit Complaint'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ComplaintModal;
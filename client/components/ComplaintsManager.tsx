@@ -0,0 +1,456 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, Loader, X } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { formatCurrency } from '../utils/pricing';
+import {
+    Complaint,
+    ComplaintReason,
+    ComplaintResolution,
+    COMPLAINT_REASON_LABELS,
+    COMPLAINT_RESOLUTION_LABELS,
+    describeComplaintOutcome,
+} from '../utils/complaints';
+
+interface ComplaintOrderLine {
+    _id: string;
+    product?: { name: string } | null;
+    quantity: number;
+}
+
+// Single complaint as loaded for review (with photos and the order's lines)
+interface ComplaintDetail extends Omit<Complaint, 'order'> {
+    order: {
+        _id: string;
+        orderNumber: string;
+        status: string;
+        totalPrice: number;
+        product?: { name: string } | null;
+        quantity?: number;
+        items?: ComplaintOrderLine[];
+    } | null;
+    refundableAmount: number;
+}
+
+interface ReasonReportRow {
+    reason: ComplaintReason;
+    label: string;
+    count: number;
+    open: number;
+    reprints: number;
+    refunds: number;
+    rejected: number;
+    refundTotal: number;
+    reprintUnits: number;
+}
+
+interface ComplaintReport {
+    total: number;
+    byReason: ReasonReportRow[];
+    byProduct: Array<{ productName: string; count: number; reasons: Partial<Record<ComplaintReason, number>> }>;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+// Product and quantity the complaint is about
+const describeComplaintLine = (complaint: ComplaintDetail) => {
+    const order = complaint.order;
+    if (!order) return null;
+    if (!order.items || order.items.length === 0) {
+        return { name: order.product?.name || 'Product', quantity: order.quantity || 0 };
+    }
+    const line = complaint.lineId ? order.items.find((item) => item._id === complaint.lineId) : null;
+    return line ? { name: line.product?.name || 'Product', quantity: line.quantity } : null;
+};
+
+// Admin: triage customer complaints and see which reasons keep coming back
+const ComplaintsManager: React.FC = () => {
+    const [complaints, setComplaints] = useState<Complaint[]>([]);
+    const [statusFilter, setStatusFilter] = useState('open');
+    const [reasonFilter, setReasonFilter] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const [selected, setSelected] = useState<ComplaintDetail | null>(null);
+    const [resolution, setResolution] = useState<ComplaintResolution>('reprint');
+    const [reprintQuantity, setReprintQuantity] = useState('');
+    const [refundAmount, setRefundAmount] = useState('');
+    const [notes, setNotes] = useState('');
+    const [resolving, setResolving] = useState(false);
+
+    const [report, setReport] = useState<ComplaintReport | null>(null);
+    const [reportFrom, setReportFrom] = useState('');
+    const [reportTo, setReportTo] = useState('');
+
+    const fetchComplaints = async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (statusFilter) params.set('status', statusFilter);
+            if (reasonFilter) params.set('reason', reasonFilter);
+            const response = await fetch(`${API_BASE_URL}/admin/complaints?${params}`, { headers: getAuthHeaders() });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to load complaints');
+            setComplaints(data.data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load complaints');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchReport = async () => {
+        try {
+            const params = new URLSearchParams();
+            if (reportFrom) params.set('from', reportFrom);
+            if (reportTo) params.set('to', reportTo);
+            const response = await fetch(`${API_BASE_URL}/admin/complaints/report?${params}`, { headers: getAuthHeaders() });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to load the complaint report');
+            setReport(data.data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load the complaint report');
+        }
+    };
+
+    useEffect(() => {
+        fetchComplaints();
+    }, [statusFilter, reasonFilter]);
+
+    useEffect(() => {
+        fetchReport();
+    }, []);
+
+    const openComplaint = async (complaintId: string) => {
+        setError(null);
+        setSuccess(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/admin/complaints/${complaintId}`, { headers: getAuthHeaders() });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to load complaint');
+            const detail: ComplaintDetail = data.data;
+            setSelected(detail);
+            setResolution('reprint');
+            setReprintQuantity(detail.affectedQuantity ? String(detail.affectedQuantity) : '');
+            setRefundAmount('');
+            setNotes('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load complaint');
+        }
+    };
+
+    const handleResolve = async () => {
+        if (!selected) return;
+        if (resolution === 'rejected' && !notes.trim()) {
+            setError('Please give the customer a reason for rejecting the complaint');
+            return;
+        }
+        setResolving(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/admin/complaints/${selected._id}/resolve`, {
+                method: 'PUT',
+                headers: getAuthHeaders(),
+                body: JSON.stringify({
+                    resolution,
+                    notes,
+                    quantity: resolution === 'reprint' ? reprintQuantity || undefined : undefined,
+                    amount: resolution === 'partial_refund' ? refundAmount : undefined,
+                }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to resolve complaint');
+            if (data.warning) {
+                setError(data.warning);
+            } else {
+                setSuccess(describeComplaintOutcome(data.data));
+            }
+            setSelected(null);
+            fetchComplaints();
+            fetchReport();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to resolve complaint');
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    const selectedLine = selected ? describeComplaintLine(selected) : null;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-lg border border-cream-200 p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h2 className="text-xl font-bold text-cream-900">Complaints</h2>
+                    <div className="flex gap-2">
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value)}
+                            className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                        >
+                            <option value="open">Open</option>
+                            <option value="resolved">Resolved</option>
+                            <option value="">All</option>
+                        </select>
+                        <select
+                            value={reasonFilter}
+                            onChange={(e) => setReasonFilter(e.target.value)}
+                            className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                        >
+                            <option value="">All reasons</option>
+                            {Object.entries(COMPLAINT_REASON_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+                )}
+                {success && (
+                    <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">{success}</div>
+                )}
+
+                {loading ? (
+                    <div className="flex items-center gap-2 text-sm text-cream-600">
+                        <Loader className="animate-spin" size={16} /> Loading complaints...
+                    </div>
+                ) : complaints.length === 0 ? (
+                    <p className="text-sm text-cream-600">No complaints.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-cream-600 border-b border-cream-200">
+                                    <th className="py-2 pr-3">Raised</th>
+                                    <th className="py-2 pr-3">Order</th>
+                                    <th className="py-2 pr-3">Customer</th>
+                                    <th className="py-2 pr-3">Reason</th>
+                                    <th className="py-2 pr-3">Units</th>
+                                    <th className="py-2 pr-3">Outcome</th>
+                                    <th className="py-2" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {complaints.map((complaint) => (
+                                    <tr key={complaint._id} className="border-b border-cream-100">
+                                        <td className="py-2 pr-3">{new Date(complaint.createdAt).toLocaleDateString()}</td>
+                                        <td className="py-2 pr-3">
+                                            {typeof complaint.order === 'object' ? complaint.order.orderNumber : '-'}
+                                        </td>
+                                        <td className="py-2 pr-3">
+                                            {typeof complaint.user === 'object' ? complaint.user.name : '-'}
+                                        </td>
+                                        <td className="py-2 pr-3">{COMPLAINT_REASON_LABELS[complaint.reason]}</td>
+                                        <td className="py-2 pr-3">{complaint.affectedQuantity?.toLocaleString() || '-'}</td>
+                                        <td className="py-2 pr-3">{describeComplaintOutcome(complaint)}</td>
+                                        <td className="py-2 text-right">
+                                            <button
+                                                onClick={() => openComplaint(complaint._id)}
+                                                className="px-3 py-1 border border-cream-300 rounded-lg hover:bg-cream-50 transition-colors"
+                                            >
+                                                {complaint.status === 'open' ? 'Review' : 'View'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {selected && (
+                <div className="bg-white rounded-lg border border-cream-200 p-6 space-y-4 text-sm">
+                    <div className="flex items-start justify-between">
+                        <div>
+                            <h3 className="font-bold text-cream-900">
+                                {COMPLAINT_REASON_LABELS[selected.reason]} · {selected.order?.orderNumber}
+                            </h3>
+                            <p className="text-cream-600">
+                                {selectedLine
+                                    ? `${selectedLine.name} (${selectedLine.quantity.toLocaleString()} ordered)`
+                                    : 'Whole order'}
+                                {selected.affectedQuantity ? ` · ${selected.affectedQuantity.toLocaleString()} units affected` : ''}
+                            </p>
+                        </div>
+                        <button onClick={() => setSelected(null)} className="p-1 hover:bg-cream-100 rounded-lg">
+                            <X size={18} />
+                        </button>
+                    </div>
+                    <p className="text-cream-800 whitespace-pre-line">{selected.description}</p>
+                    {selected.photos.length > 0 && (
+                        <div className="flex gap-2 flex-wrap">
+                            {selected.photos.map((photo) => photo.data && (
+                                <a key={photo._id} href={photo.data} target="_blank" rel="noopener noreferrer">
+                                    <img src={photo.data} alt={photo.filename || 'Complaint photo'} className="w-24 h-24 object-cover rounded-lg border border-cream-200" />
+                                </a>
+                            ))}
+                        </div>
+                    )}
+
+                    {selected.status === 'open' ? (
+                        <div className="border-t border-cream-200 pt-4 space-y-3">
+                            <div className="flex flex-wrap gap-4">
+                                {(Object.keys(COMPLAINT_RESOLUTION_LABELS) as ComplaintResolution[]).map((value) => (
+                                    <label key={value} className="flex items-center gap-2">
+                                        <input
+                                            type="radio"
+                                            checked={resolution === value}
+                                            onChange={() => setResolution(value)}
+                                        />
+                                        {COMPLAINT_RESOLUTION_LABELS[value]}
+                                    </label>
+                                ))}
+                            </div>
+                            {resolution === 'reprint' && (
+                                selectedLine ? (
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={selectedLine.quantity}
+                                        value={reprintQuantity}
+                                        onChange={(e) => setReprintQuantity(e.target.value)}
+                                        placeholder={`Units to reprint (up to ${selectedLine.quantity.toLocaleString()})`}
+                                        className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                                    />
+                                ) : (
+                                    <p className="text-cream-600">Every item of the order will be reprinted in full.</p>
+                                )
+                            )}
+                            {resolution === 'partial_refund' && (
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    max={selected.refundableAmount}
+                                    value={refundAmount}
+                                    onChange={(e) => setRefundAmount(e.target.value)}
+                                    placeholder={`Refund amount (up to ${formatCurrency(selected.refundableAmount)})`}
+                                    className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                                />
+                            )}
+                            <textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                rows={2}
+                                placeholder={resolution === 'rejected' ? 'Reason shown to the customer' : 'Note for the customer (optional)'}
+                                className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                            />
+                            <button
+                                onClick={handleResolve}
+                                disabled={resolving || (resolution === 'partial_refund' && !refundAmount)}
+                                className="px-4 py-2 bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center gap-2"
+                            >
+                                {resolving && <Loader className="animate-spin" size={16} />}
+                                {resolution === 'reprint' ? 'Create Reprint Order' : resolution === 'partial_refund' ? 'Record Refund' : 'Reject Complaint'}
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="border-t border-cream-200 pt-4 text-cream-700">
+                            <p className="font-medium">{describeComplaintOutcome(selected)}</p>
+                            {selected.resolutionNotes && <p className="mt-1">{selected.resolutionNotes}</p>}
+                            {selected.resolvedBy && selected.resolvedAt && (
+                                <p className="mt-1 text-xs text-cream-500">
+                                    {selected.resolvedBy.name} · {new Date(selected.resolvedAt).toLocaleString()}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg border border-cream-200 p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="font-bold text-cream-900 flex items-center gap-2">
+                        <BarChart3 size={18} />
+                        Complaint Reasons{report ? ` (${report.total})` : ''}
+                    </h3>
+                    <div className="flex items-center gap-2 text-sm">
+                        <input
+                            type="date"
+                            value={reportFrom}
+                            onChange={(e) => setReportFrom(e.target.value)}
+                            className="px-2 py-1 border border-cream-300 rounded-lg"
+                        />
+                        <span className="text-cream-600">to</span>
+                        <input
+                            type="date"
+                            value={reportTo}
+                            onChange={(e) => setReportTo(e.target.value)}
+                            className="px-2 py-1 border border-cream-300 rounded-lg"
+                        />
+                        <button
+                            onClick={fetchReport}
+                            className="px-3 py-1 border border-cream-300 rounded-lg hover:bg-cream-50 transition-colors"
+                        >
+                            Apply
+                        </button>
+                    </div>
+                </div>
+
+                {report && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+                        <table className="w-full">
+                            <thead>
+                                <tr className="text-left text-cream-600 border-b border-cream-200">
+                                    <th className="py-2 pr-3">Reason</th>
+                                    <th className="py-2 pr-3 text-right">Total</th>
+                                    <th className="py-2 pr-3 text-right">Open</th>
+                                    <th className="py-2 pr-3 text-right">Reprints</th>
+                                    <th className="py-2 pr-3 text-right">Refunded</th>
+                                    <th className="py-2 text-right">Rejected</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.byReason.filter((row) => row.count > 0).map((row) => (
+                                    <tr key={row.reason} className="border-b border-cream-100">
+                                        <td className="py-2 pr-3">{row.label}</td>
+                                        <td className="py-2 pr-3 text-right font-medium">{row.count}</td>
+                                        <td className="py-2 pr-3 text-right">{row.open}</td>
+                                        <td className="py-2 pr-3 text-right">
+                                            {row.reprints}{row.reprintUnits ? ` (${row.reprintUnits.toLocaleString()} units)` : ''}
+                                        </td>
+                                        <td className="py-2 pr-3 text-right">
+                                            {row.refunds ? `${row.refunds} · ${formatCurrency(row.refundTotal)}` : '0'}
+                                        </td>
+                                        <td className="py-2 text-right">{row.rejected}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div>
+                            <p className="font-medium text-cream-900 mb-2">Products with the most complaints</p>
+                            {report.byProduct.length === 0 ? (
+                                <p className="text-cream-600">No complaints in this period.</p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {report.byProduct.slice(0, 10).map((row) => (
+                                        <li key={row.productName} className="flex justify-between gap-3">
+                                            <span>{row.productName}</span>
+                                            <span className="text-cream-600 text-right">
+                                                {row.count} ·{' '}
+                                                {Object.entries(row.reasons)
+                                                    .sort((a, b) => (b[1] || 0) - (a[1] || 0))
+                                                    .map(([reason, count]) => `${COMPLAINT_REASON_LABELS[reason as ComplaintReason]} ${count}`)
+                                                    .join(', ')}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ComplaintsManager;
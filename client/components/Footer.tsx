@@ -29,6 +29,7 @@ const Footer: React.FC = () => {
               <li><Link to="/" className="hover:text-white transition-colors">Home</Link></li>
               <li><Link to="/digital-print" className="hover:text-white transition-colors">Digital Print</Link></li>
               <li><Link to="/upload" className="hover:text-white transition-colors">Upload Files</Link></li>
+              <li><Link to="/track-order" className="hover:text-white transition-colors">Track Order</Link></li>
               <li><Link to="/about" className="hover:text-white transition-colors">About Us</Link></li>
             </ul>
           </div>
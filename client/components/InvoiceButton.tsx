@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Download, FileText, Loader } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL, getAuthHeaders } from '../lib/apiConfig';
+
+// Order.invoiceNumber / invoiceGeneratedAt / invoiceUrl, set once the invoice is issued
+export interface OrderInvoice {
+    invoiceNumber: string;
+    invoiceGeneratedAt: string;
+    invoiceUrl: string;
+}
+
+interface InvoiceButtonProps {
+    orderId: string;
+    invoiceNumber?: string | null;
+    // Admin: offer to issue the invoice while the order has none
+    canIssue?: boolean;
+    onIssued?: (invoice: OrderInvoice) => void;
+    className?: string;
+}
+
+const DEFAULT_CLASS_NAME =
+    'flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors disabled:opacity-50';
+
+// Downloads an order's tax invoice PDF (renders nothing until one is issued, unless the admin can issue it)
+const InvoiceButton: React.FC<InvoiceButtonProps> = ({ orderId, invoiceNumber, canIssue = false, onIssued, className }) => {
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!invoiceNumber && !canIssue) return null;
+
+    const download = async () => {
+        const response = await fetch(`${API_BASE_URL}/orders/${orderId}/invoice`, { headers: getAuthHeaders() });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || 'Failed to download the invoice');
+        }
+
+        const blob = await response.blob();
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `invoice-${(invoiceNumber || orderId).replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const issue = async () => {
+        const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}/invoice`, {
+            method: 'POST',
+            headers: getAuthHeaders(true),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || 'Failed to issue the invoice');
+        onIssued?.(data.data);
+    };
+
+    const handleClick = async (e: React.MouseEvent) => {
+        // The button can sit inside a clickable order card
+        e.stopPropagation();
+        setBusy(true);
+        setError(null);
+        try {
+            await (invoiceNumber ? download() : issue());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div>
+            <button
+                type="button"
+                onClick={handleClick}
+                disabled={busy}
+                className={className || DEFAULT_CLASS_NAME}
+                title={invoiceNumber ? `Download invoice ${invoiceNumber}` : 'Issue the tax invoice now'}
+            >
+                {busy ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                ) : invoiceNumber ? (
+                    <Download className="w-4 h-4" />
+                ) : (
+                    <FileText className="w-4 h-4" />
+                )}
+                {invoiceNumber ? 'Invoice' : 'Issue Invoice'}
+            </button>
+            {error && <p className="mt-1 text-xs text-red-600 max-w-xs">{error}</p>}
+        </div>
+    );
+};
+
+export default InvoiceButton;
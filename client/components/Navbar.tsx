@@ -9,6 +9,7 @@ import {
   Settings,
   User as UserIcon,
   Package,
+  ShoppingCart,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -267,6 +268,16 @@ const Navbar: React.FC = () => {
                           <UserIcon size={16} />
                           My Profile
                         </button>
+                        <button
+                          onClick={() => {
+                            navigate("/cart");
+                            setIsProfileDropdownOpen(false);
+                          }}
+                          className="w-full flex items-center gap-3 px-4 py-2 text-sm text-cream-700 hover:bg-cream-50 transition-colors"
+                        >
+                          <ShoppingCart size={16} />
+                          My Cart
+                        </button>
                         {userData.role === "admin" && (
                           <button
                             onClick={() => {
@@ -412,6 +423,17 @@ const Navbar: React.FC = () => {
                     My Profile
                   </button>
 
+                  <button
+                    onClick={() => {
+                      navigate("/cart");
+                      setIsMobileMenuOpen(false);
+                    }}
+                    className="w-full text-center text-cream-900 font-medium py-2 flex items-center justify-center gap-2"
+                  >
+                    <ShoppingCart size={16} />
+                    My Cart
+                  </button>
+
                   {userData.role === "admin" && (
                     <button
                       onClick={() => {
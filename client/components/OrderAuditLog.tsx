@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, History, Loader } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+
+interface AuditChange {
+    path: string;
+    before: unknown;
+    after: unknown;
+}
+
+interface AuditEntry {
+    _id: string;
+    action: 'create' | 'update';
+    changes: AuditChange[];
+    actor?: { _id: string; name: string; email: string; role: string } | null;
+    actorRole?: string | null;
+    ip?: string | null;
+    method?: string | null;
+    endpoint?: string | null;
+    createdAt: string;
+}
+
+interface OrderAuditLogProps {
+    orderId: string;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+const MAX_VALUE_LENGTH = 120;
+
+const formatAuditValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+// Admin: every write to an order with its before/after values (loaded when opened)
+const OrderAuditLog: React.FC<OrderAuditLogProps> = ({ orderId }) => {
+    const [open, setOpen] = useState(false);
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggle = async () => {
+        setOpen(!open);
+        if (open || entries) return;
+
+        setLoading(true);
+        try {
+            const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}/audit`, { headers: getAuthHeaders() });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to load the audit log');
+            setEntries(data.data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div>
+            <button
+                onClick={toggle}
+                className="font-bold text-cream-900 flex items-center gap-2"
+            >
+                <History size={18} />
+                Audit Log
+                {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            </button>
+
+            {open && (
+                <div className="mt-4 space-y-3 text-sm">
+                    {loading && (
+                        <div className="flex items-center gap-2 text-cream-600">
+                            <Loader className="animate-spin" size={16} /> Loading audit log...
+                        </div>
+                    )}
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+                    )}
+                    {entries && entries.length === 0 && <p className="text-cream-600">No changes recorded yet.</p>}
+                    {entries?.map((entry) => (
+                        <div key={entry._id} className="p-3 bg-cream-50 rounded-lg border border-cream-200">
+                            <div className="flex flex-wrap justify-between gap-2 text-xs text-cream-600 mb-2">
+                                <span>
+                                    <span className="font-semibold text-cream-900">
+                                        {entry.action === 'create' ? 'Created' : 'Updated'}
+                                    </span>
+                                    {' by '}
+                                    {entry.actor ? `${entry.actor.name} (${entry.actorRole || entry.actor.role})` : 'System'}
+                                </span>
+                                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                            </div>
+                            {(entry.endpoint || entry.ip) && (
+                                <p className="text-xs text-cream-500 mb-2 font-mono">
+                                    {entry.method} {entry.endpoint}{entry.ip ? ` · ${entry.ip}` : ''}
+                                </p>
+                            )}
+                            <table className="w-full text-xs">
+                                <tbody>
+                                    {entry.changes.map((change) => (
+                                        <tr key={change.path} className="border-t border-cream-200 align-top">
+                                            <td className="py-1 pr-2 font-mono text-cream-700">{change.path}</td>
+                                            <td className="py-1 pr-2 text-red-700 break-all">{formatAuditValue(change.before)}</td>
+                                            <td className="py-1 text-green-700 break-all">{formatAuditValue(change.after)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OrderAuditLog;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import {
+    SimulatorProduct,
+    buildPricingMatrix,
+    formatCurrency,
+    getPricedAttributeCombinations,
+    getSimulatorQuantities,
+} from '../utils/pricing';
+
+interface PricingSimulatorProps {
+    product: SimulatorProduct;
+}
+
+const parseQuantities = (text: string): number[] =>
+    Array.from(
+        new Set(
+            text
+                .split(',')
+                .map((q) => parseInt(q.trim(), 10))
+                .filter((q) => !isNaN(q) && q > 0)
+        )
+    ).sort((a, b) => a - b);
+
+// Customer prices for quantities x attribute combinations, calculated by the shared pricing engine
+const PricingSimulator: React.FC<PricingSimulatorProps> = ({ product }) => {
+    const [quantitiesText, setQuantitiesText] = useState(() => getSimulatorQuantities(product).join(', '));
+
+    const quantities = useMemo(() => parseQuantities(quantitiesText), [quantitiesText]);
+    const { combinations, truncated } = useMemo(() => getPricedAttributeCombinations(product), [product]);
+    const columns = useMemo(
+        () => buildPricingMatrix(product, quantities, combinations),
+        [product, quantities, combinations]
+    );
+    const priceDrops = columns.reduce((count, column) => count + column.cells.filter((c) => c.priceDrop).length, 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="flex-1">
+                    <label className="block text-sm font-medium text-cream-900 mb-1">Quantities (comma separated)</label>
+                    <input
+                        type="text"
+                        value={quantitiesText}
+                        onChange={(e) => setQuantitiesText(e.target.value)}
+                        className="w-full px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                        placeholder="e.g., 1000, 2000, 5000"
+                    />
+                </div>
+                <button
+                    type="button"
+                    onClick={() => setQuantitiesText(getSimulatorQuantities(product).join(', '))}
+                    className="px-3 py-2 text-sm border border-cream-300 rounded-lg text-cream-900 hover:bg-cream-100 flex items-center gap-2"
+                >
+                    <RotateCcw size={14} />
+                    Reset quantities
+                </button>
+            </div>
+
+            <p className="text-xs text-cream-600">
+                Prices include GST and the design charge. Coupons, shipping, options and delivery/texture charges are not included.
+                {truncated && ` Showing the first ${combinations.length} attribute combinations.`}
+            </p>
+
+            {priceDrops > 0 ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800 flex items-center gap-2">
+                    <AlertTriangle size={16} />
+                    {priceDrops} price{priceDrops === 1 ? '' : 's'} cost less than a smaller quantity of the same combination.
+                </div>
+            ) : (
+                quantities.length > 1 && (
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                        Prices never drop as the quantity goes up.
+                    </div>
+                )
+            )}
+
+            {quantities.length === 0 ? (
+                <p className="text-sm text-cream-600">Enter at least one quantity.</p>
+            ) : (
+                <div className="overflow-x-auto border border-cream-200 rounded-lg">
+                    <table className="w-full text-sm">
+                        <thead className="bg-cream-100">
+                            <tr>
+                                <th className="px-3 py-2 text-left font-semibold text-cream-900 whitespace-nowrap">Quantity</th>
+                                {columns.map((column) => (
+                                    <th key={column.combination.label} className="px-3 py-2 text-right font-semibold text-cream-900 min-w-[140px]">
+                                        {column.combination.label}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {quantities.map((quantity, row) => (
+                                <tr key={quantity} className="border-t border-cream-200">
+                                    <td className="px-3 py-2 font-medium text-cream-900 whitespace-nowrap">{quantity.toLocaleString()}</td>
+                                    {columns.map((column) => {
+                                        const cell = column.cells[row];
+                                        return (
+                                            <td
+                                                key={column.combination.label}
+                                                className={`px-3 py-2 text-right ${cell.priceDrop ? 'bg-red-50 text-red-800' : 'text-cream-900'}`}
+                                                title={cell.priceDrop ? `Cheaper than ${quantities[row - 1].toLocaleString()} units` : undefined}
+                                            >
+                                                <div className="font-semibold flex items-center justify-end gap-1">
+                                                    {cell.priceDrop && <AlertTriangle size={14} />}
+                                                    {formatCurrency(cell.total)}
+                                                </div>
+                                                <div className="text-xs text-cream-600">{formatCurrency(cell.perUnit)} / unit</div>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PricingSimulator;
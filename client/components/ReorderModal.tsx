@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Loader, RefreshCw, X } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { formatCurrency } from '../utils/pricing';
+
+interface ReorderConflict {
+    line: number | null;
+    productName: string | null;
+    message: string;
+}
+
+interface ReorderPreview {
+    conflicts: ReorderConflict[];
+    lines: Array<{ productName: string; quantity: number; lineTotal: number | null }>;
+    totalPrice: number | null;
+    originalTotal: number;
+    pincode: string;
+}
+
+interface ReorderModalProps {
+    orderId: string;
+    orderNumber: string;
+    onClose: () => void;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+// Repeat a past order with the same selections and designs, re-priced at today's rates
+const ReorderModal: React.FC<ReorderModalProps> = ({ orderId, orderNumber, onClose }) => {
+    const navigate = useNavigate();
+    const [preview, setPreview] = useState<ReorderPreview | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [placing, setPlacing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchPreview = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/reorder`, { headers: getAuthHeaders() });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to load reorder details');
+            }
+            setPreview(data.data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load reorder details');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchPreview();
+    }, [orderId]);
+
+    const handleConfirm = async () => {
+        if (!preview || preview.totalPrice === null) return;
+        setPlacing(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/orders/${orderId}/reorder`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                // Server re-prices the order and rejects a stale total
+                body: JSON.stringify({ totalPrice: preview.totalPrice }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                // Prices or products changed since the preview was loaded - show the current state
+                if (data.expectedTotal !== undefined || data.conflicts) {
+                    await fetchPreview();
+                }
+                throw new Error(data.error || 'Failed to place the order');
+            }
+            navigate(`/orders/${data.order._id}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to place the order');
+        } finally {
+            setPlacing(false);
+        }
+    };
+
+    const priceDifference = preview?.totalPrice !== null && preview?.totalPrice !== undefined
+        ? preview.totalPrice - preview.originalTotal
+        : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-6 border-b border-slate-200">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900">Reorder</h2>
+                        <p className="text-sm text-slate-500">Repeat {orderNumber} at today's prices</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+                        <X className="w-5 h-5 text-slate-600" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {loading ? (
+                        <div className="text-center py-8">
+                            <Loader className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-2" />
+                            <p className="text-sm text-slate-600">Checking today's prices...</p>
+                        </div>
+                    ) : preview && preview.conflicts.length > 0 ? (
+                        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                            <p className="font-semibold text-red-800 flex items-center gap-2 mb-2">
+                                <AlertTriangle className="w-4 h-4" />
+                                This order can't be repeated as it was
+                            </p>
+                            <ul className="space-y-1 text-sm text-red-700 list-disc pl-5">
+                                {preview.conflicts.map((conflict, idx) => (
+                                    <li key={idx}>
+                                        {conflict.productName && preview.lines.length > 1 && `${conflict.productName}: `}
+                                        {conflict.message}
+                                    </li>
+                                ))}
+                            </ul>
+                            <p className="text-xs text-red-600 mt-3">
+                                Please order the product again with the current options.
+                            </p>
+                        </div>
+                    ) : preview && preview.totalPrice !== null ? (
+                        <>
+                            <div className="space-y-2 text-sm">
+                                {preview.lines.map((line, idx) => (
+                                    <div key={idx} className="flex justify-between text-slate-700">
+                                        <span>
+                                            {line.productName} ({line.quantity.toLocaleString()} units)
+                                        </span>
+                                        {preview.lines.length > 1 && line.lineTotal !== null && (
+                                            <span>{formatCurrency(line.lineTotal)}</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="pt-3 border-t border-slate-200 space-y-1 text-sm">
+                                <div className="flex justify-between text-slate-500">
+                                    <span>Originally paid</span>
+                                    <span>{formatCurrency(preview.originalTotal)}</span>
+                                </div>
+                                <div className="flex justify-between font-bold text-slate-900 text-base">
+                                    <span>Today's total</span>
+                                    <span>{formatCurrency(preview.totalPrice)}</span>
+                                </div>
+                                {Math.abs(priceDifference) >= 0.01 && (
+                                    <p className={`text-xs ${priceDifference > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                                        {priceDifference > 0 ? 'Up' : 'Down'} {formatCurrency(Math.abs(priceDifference))} from your last order
+                                    </p>
+                                )}
+                                <p className="text-xs text-slate-500">
+                                    Delivered to pincode {preview.pincode}. Coupons from the original order are not applied.
+                                </p>
+                            </div>
+                        </>
+                    ) : null}
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex gap-3 p-6 border-t border-slate-200">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={loading || placing || !preview || preview.conflicts.length > 0 || preview.totalPrice === null}
+                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                        {placing ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                        {placing ? 'Placing Order...' : 'Place Order'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReorderModal;
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, Plus, Truck } from 'lucide-react';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+import { Shipment, ShipmentQuantity, SHIPMENT_STATUS_LABELS, ShipmentStatus } from '../utils/shipments';
+
+interface ShipmentsManagerProps {
+    orderId: string;
+    orderStatus: string;
+    // Line labels of a cart order, keyed by line id (empty for single-product orders)
+    lineLabels?: Record<string, string>;
+}
+
+const getAuthHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+    'ngrok-skip-browser-warning': 'true',
+});
+
+const emptyForm = {
+    lineId: '',
+    quantity: '',
+    numberOfBoxes: '1',
+    weightKg: '',
+    courierPartner: '',
+    trackingId: '',
+    trackingUrl: '',
+};
+
+// Admin: record the consignments an order goes out in and their delivery status
+const ShipmentsManager: React.FC<ShipmentsManagerProps> = ({ orderId, orderStatus, lineLabels = {} }) => {
+    const [shipments, setShipments] = useState<Shipment[]>([]);
+    const [quantities, setQuantities] = useState<ShipmentQuantity[]>([]);
+    const [form, setForm] = useState(emptyForm);
+    const [showForm, setShowForm] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const applyData = (data: { shipments: Shipment[]; quantities: ShipmentQuantity[] }) => {
+        setShipments(data.shipments);
+        setQuantities(data.quantities);
+    };
+
+    useEffect(() => {
+        setLoading(true);
+        fetch(`${API_BASE_URL}/orders/${orderId}/shipments`, { headers: getAuthHeaders() })
+            .then(async (response) => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load shipments');
+                applyData(data.data);
+            })
+            .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load shipments'))
+            .finally(() => setLoading(false));
+    }, [orderId]);
+
+    const isMultiLine = quantities.length > 1;
+    const canShip = ['processing', 'completed'].includes(orderStatus) &&
+        quantities.some((line) => line.shipped < line.quantity);
+    const getLineLabel = (lineId: string | null) => (lineId ? lineLabels[lineId] || 'Item' : null);
+
+    const handleCreate = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}/shipments`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify({ ...form, lineId: form.lineId || undefined }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to record shipment');
+            applyData(data.data);
+            setForm(emptyForm);
+            setShowForm(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to record shipment');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleStatusChange = async (shipmentId: string, status: ShipmentStatus) => {
+        setError(null);
+        try {
+            const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}/shipments/${shipmentId}`, {
+                method: 'PUT',
+                headers: getAuthHeaders(),
+                body: JSON.stringify({ status }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to update shipment');
+            applyData(data.data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update shipment');
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-cream-600">
+                <Loader className="animate-spin" size={16} /> Loading shipments...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="space-y-1">
+                {quantities.map((line) => (
+                    <div key={line.lineId || 'order'} className="flex justify-between text-cream-700">
+                        <span>{getLineLabel(line.lineId) || line.productName || 'Order'}</span>
+                        <span>
+                            {line.delivered.toLocaleString()} delivered · {line.shipped.toLocaleString()} shipped of {line.quantity.toLocaleString()}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            {shipments.map((shipment, index) => (
+                <div key={shipment._id} className="p-3 bg-cream-50 rounded-lg border border-cream-200">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <span className="font-medium text-cream-900">
+                            Shipment {index + 1}: {shipment.quantity.toLocaleString()} units
+                            {isMultiLine && getLineLabel(shipment.lineId) && ` of ${getLineLabel(shipment.lineId)}`}
+                        </span>
+                        <select
+                            value={shipment.status}
+                            onChange={(e) => handleStatusChange(shipment._id, e.target.value as ShipmentStatus)}
+                            className="px-2 py-1 border border-cream-300 rounded-lg text-xs"
+                        >
+                            {Object.entries(SHIPMENT_STATUS_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <p className="text-xs text-cream-600 mt-1">
+                        {shipment.numberOfBoxes} box(es){shipment.weightKg ? ` · ${shipment.weightKg} kg` : ''}
+                        {' · '}{shipment.courierPartner || 'Courier not set'}
+                        {shipment.trackingId ? ` · ${shipment.trackingId}` : ''}
+                        {' · Dispatched '}{new Date(shipment.dispatchedAt).toLocaleDateString()}
+                        {shipment.deliveredAt ? ` · Delivered ${new Date(shipment.deliveredAt).toLocaleDateString()}` : ''}
+                    </p>
+                </div>
+            ))}
+
+            {showForm ? (
+                <div className="p-3 border border-cream-300 rounded-lg space-y-2">
+                    {isMultiLine && (
+                        <select
+                            value={form.lineId}
+                            onChange={(e) => setForm({ ...form, lineId: e.target.value })}
+                            className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                        >
+                            <option value="">Select item</option>
+                            {quantities.filter((line) => line.shipped < line.quantity).map((line) => (
+                                <option key={line.lineId!} value={line.lineId!}>
+                                    {getLineLabel(line.lineId) || line.productName} ({line.quantity - line.shipped} left)
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                        <input
+                            type="number"
+                            min={1}
+                            placeholder="Quantity"
+                            value={form.quantity}
+                            onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                            className="px-3 py-2 border border-cream-300 rounded-lg"
+                        />
+                        <input
+                            type="number"
+                            min={1}
+                            placeholder="Boxes"
+                            value={form.numberOfBoxes}
+                            onChange={(e) => setForm({ ...form, numberOfBoxes: e.target.value })}
+                            className="px-3 py-2 border border-cream-300 rounded-lg"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            step="0.1"
+                            placeholder="Weight (kg)"
+                            value={form.weightKg}
+                            onChange={(e) => setForm({ ...form, weightKg: e.target.value })}
+                            className="px-3 py-2 border border-cream-300 rounded-lg"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <input
+                            placeholder="Courier partner"
+                            value={form.courierPartner}
+                            onChange={(e) => setForm({ ...form, courierPartner: e.target.value })}
+                            className="px-3 py-2 border border-cream-300 rounded-lg"
+                        />
+                        <input
+                            placeholder="Tracking ID"
+                            value={form.trackingId}
+                            onChange={(e) => setForm({ ...form, trackingId: e.target.value })}
+                            className="px-3 py-2 border border-cream-300 rounded-lg"
+                        />
+                    </div>
+                    <input
+                        placeholder="Tracking URL (optional)"
+                        value={form.trackingUrl}
+                        onChange={(e) => setForm({ ...form, trackingUrl: e.target.value })}
+                        className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleCreate}
+                            disabled={saving || !form.quantity || (isMultiLine && !form.lineId)}
+                            className="px-4 py-2 bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {saving ? <Loader className="animate-spin" size={16} /> : <Truck size={16} />}
+                            Record Shipment
+                        </button>
+                        <button
+                            onClick={() => setShowForm(false)}
+                            className="px-4 py-2 border border-cream-300 rounded-lg hover:bg-cream-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : canShip && (
+                <button
+                    onClick={() => setShowForm(true)}
+                    className="px-4 py-2 border border-cream-300 rounded-lg hover:bg-cream-50 transition-colors flex items-center gap-2"
+                >
+                    <Plus size={16} /> Add Shipment
+                </button>
+            )}
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+            )}
+        </div>
+    );
+};
+
+export default ShipmentsManager;
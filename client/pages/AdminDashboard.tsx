@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useClientOnly } from "../hooks/useClientOnly";
 import { useNavigate } from "react-router-dom";
 import BackButton from "../components/BackButton";
@@ -38,11 +38,23 @@ import {
   CheckCircle2,
   Clock,
   FileText,
+  Tag,
+  Briefcase,
+  Calculator,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ReviewFilterDropdown } from "../components/ReviewFilterDropdown";
 import RichTextEditor from "../components/RichTextEditor";
-import { formatCurrency, calculateOrderBreakdown, OrderForCalculation } from "../utils/pricing";
+import PricingSimulator from "../components/PricingSimulator";
+import CartPriceBreakdown from "../components/CartPriceBreakdown";
+import ShipmentsManager from "../components/ShipmentsManager";
+import ComplaintsManager from "../components/ComplaintsManager";
+import OrderAuditLog from "../components/OrderAuditLog";
+import InvoiceButton from "../components/InvoiceButton";
+import { formatCurrency, describeCharge, orderCouponForCalculation, getGstLines, OrderForCalculation, OrderCoupon, OrderPriceList, OrderDeliveryZone, GstSplit, PricingSnapshot, getOrderBreakdown, getOrderBasePrice, PricingMode, PRICING_MODE_LABELS, OrderSubattribute, OrderCustomSize, formatChargeHint, formatCustomSize, SimulatorProduct, CartPricingSnapshot } from "../utils/pricing";
+import { OrderLine, isMultiLineOrder, getOrderProductLabel, describeOrderLine } from "../utils/orderLines";
+import { Amendment, describeAmendmentChanges } from "../utils/amendments";
+import { OrderStatus, OrderStatusHistoryEntry, ORDER_STATUS_LABELS, getNextOrderStatuses, isReasonRequired, getStatusActorName } from "../utils/orderStatus";
 import { API_BASE_URL_WITH_API as API_BASE_URL } from "../lib/apiConfig";
 import { scrollToInvalidField } from "../lib/validationUtils";
 
@@ -61,6 +73,14 @@ interface Category {
   slug?: string;
 }
 
+// One product entry in the price list form (empty strings fall back to catalog prices)
+interface PriceListProductForm {
+  product: string;
+  basePrice: string;
+  rangeWiseQuantities: Array<{ min: string; max: string; priceMultiplier: string }>;
+  attributeValuePrices: Array<{ attributeType: string; attributeValue: string; priceAdd: string; pricingMode: PricingMode }>;
+}
+
 interface Product {
   _id: string;
   name: string;
@@ -123,7 +143,7 @@ interface Order {
     basePrice?: number;
     category?: string | { _id: string; name: string };
     subcategory?: { name: string; category?: string | { _id: string; name: string } } | string;
-    options?: Array<{ name: string; priceAdd: number; description?: string; image?: string }>;
+    options?: Array<{ name: string; priceAdd: number; pricingMode?: PricingMode; description?: string; image?: string }>;
     discount?: number;
     description?: string;
     instructions?: string;
@@ -135,6 +155,7 @@ interface Order {
       textureType?: any[];
     };
     gstPercentage?: number;
+    hsnCode?: string;
     minFileWidth?: number;
     maxFileWidth?: number;
     minFileHeight?: number;
@@ -143,6 +164,8 @@ interface Order {
   quantity: number;
   finish: string;
   shape: string;
+  // Line items of a cart order (empty for single-product orders)
+  items?: OrderLine[];
   selectedOptions: Array<{
     optionId: string;
     optionName: string;
@@ -158,15 +181,28 @@ interface Order {
     description?: string;
     priceAdd?: number;
     priceMultiplier?: number;
+    subattribute?: OrderSubattribute | null;
   }>;
   totalPrice: number;
-  status: "request" | "production_ready" | "approved" | "processing" | "completed" | "cancelled" | "rejected";
+  coupon?: OrderCoupon | null;
+  priceList?: OrderPriceList | null;
+  deliveryZone?: OrderDeliveryZone | null;
+  shippingCharge?: number;
+  customSize?: OrderCustomSize | null;
+  pricingSnapshot?: PricingSnapshot | CartPricingSnapshot | null;
+  gstSplit?: GstSplit | null;
+  status: OrderStatus;
+  statusHistory?: OrderStatusHistoryEntry[];
+  invoiceNumber?: string | null;
+  invoiceGeneratedAt?: string | null;
+  nonInvoiceable?: boolean;
   deliveryDate: string | null;
   pincode: string;
   address: string;
   mobileNumber: string;
   createdAt: string;
   advancePaid?: number;
+  paymentStatus?: string;
   departmentStatuses?: Array<{
     department: string | { _id: string; name: string; sequence?: number };
     status: string;
@@ -207,6 +243,52 @@ interface Order {
   adminNotes?: string;
 }
 
+type BulkOrderOperation = "approve" | "status" | "reassign_department" | "delivery_date" | "cancel";
+
+// Outcome of a bulk action for one order
+interface BulkOrderResult {
+  orderId: string;
+  orderNumber: string | null;
+  success: boolean;
+  previousStatus?: OrderStatus;
+  status?: OrderStatus;
+  error?: string;
+}
+
+// Query parameters of GET /admin/orders and /admin/orders/export (empty = not filtered)
+interface OrderFilters {
+  search: string;
+  from: string;
+  to: string;
+  status: string;
+  paymentStatus: string;
+  product: string;
+  department: string;
+}
+
+const EMPTY_ORDER_FILTERS: OrderFilters = { search: "", from: "", to: "", status: "", paymentStatus: "", product: "", department: "" };
+
+// Order counts per filter value, for the filter chips (keyed by status, payment status, department id)
+interface OrderFacets {
+  status: Record<string, number>;
+  paymentStatus: Record<string, number>;
+  department: Record<string, number>;
+}
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  partial: "Partially paid",
+  completed: "Paid",
+};
+
+const BULK_ORDER_OPERATION_LABELS: Record<BulkOrderOperation, string> = {
+  approve: "Approve for production",
+  status: "Change status",
+  reassign_department: "Reassign department",
+  delivery_date: "Set delivery date",
+  cancel: "Cancel orders",
+};
+
 // Hierarchical Category Selector Component
 const HierarchicalCategorySelector: React.FC<{
   categories: Array<{ _id: string; name: string; type: string; parent?: string | { _id: string } | null }>;
@@ -434,6 +516,18 @@ const AdminDashboard: React.FC = () => {
     image?: string;
   }>({});
 
+  // Custom size (area pricing) settings of the product form
+  const emptyCustomSizeForm = {
+    enabled: false,
+    unit: "INCH",
+    minWidth: "",
+    maxWidth: "",
+    minHeight: "",
+    maxHeight: "",
+    areaRates: [] as Array<{ minQuantity: string; maxQuantity: string; ratePerUnitArea: string }>,
+    wastageRules: [] as Array<{ minArea: string; maxArea: string; wastagePercentage: string }>,
+  };
+
   // Product form state
   const [productForm, setProductForm] = useState({
     name: "",
@@ -469,6 +563,9 @@ const AdminDashboard: React.FC = () => {
     // Additional charges and taxes
     additionalDesignCharge: "",
     gstPercentage: "",
+    hsnCode: "",
+    shippingWeightPer1000: "",
+    customSize: emptyCustomSizeForm,
     // Price display setting
     showPriceIncludingGst: false, // Default to excluding GST (industry standard)
     // Custom instructions for customers
@@ -479,7 +576,7 @@ const AdminDashboard: React.FC = () => {
 
   // Options table state
   const [optionsTable, setOptionsTable] = useState<
-    Array<{ name: string; priceAdd: string | number; description: string; image?: string }>
+    Array<{ name: string; priceAdd: string | number; pricingMode: PricingMode; description: string; image?: string }>
   >([]);
   const [optionImages, setOptionImages] = useState<{ [key: number]: File | null }>({});
   const [showOptionsTable, setShowOptionsTable] = useState(true);
@@ -498,6 +595,9 @@ const AdminDashboard: React.FC = () => {
     displayOrder: number;
   }>>([]);
 
+  // Pricing simulator panel of the product form
+  const [showPricingSimulator, setShowPricingSimulator] = useState(false);
+
   // Category form state
   const [categoryForm, setCategoryForm] = useState({
     name: "",
@@ -610,11 +710,31 @@ const AdminDashboard: React.FC = () => {
   const [loadingOrders, setLoadingOrders] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
+  const [orderAmendments, setOrderAmendments] = useState<Amendment[]>([]);
+  const [reviewingAmendmentId, setReviewingAmendmentId] = useState<string | null>(null);
   const [orderStatusUpdate, setOrderStatusUpdate] = useState({
     status: "",
     deliveryDate: "",
     adminNotes: "",
+    paymentStatus: "",
+    advancePaid: "",
+  });
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState({
+    operation: "approve" as BulkOrderOperation,
+    status: "",
+    departmentId: "",
+    deliveryDate: "",
   });
+  const [bulkResults, setBulkResults] = useState<BulkOrderResult[] | null>(null);
+  const [runningBulkAction, setRunningBulkAction] = useState(false);
+  const [orderFilters, setOrderFilters] = useState<OrderFilters>(EMPTY_ORDER_FILTERS);
+  const [orderSearch, setOrderSearch] = useState("");
+  const [ordersTotal, setOrdersTotal] = useState(0);
+  const [orderFacets, setOrderFacets] = useState<OrderFacets | null>(null);
+  const [ordersNextCursor, setOrdersNextCursor] = useState<string | null>(null);
+  const [loadingMoreOrders, setLoadingMoreOrders] = useState(false);
+  const [exportingOrders, setExportingOrders] = useState<"csv" | "xlsx" | null>(null);
 
   // Attribute Types state
   const [attributeTypes, setAttributeTypes] = useState<any[]>([]);
@@ -649,6 +769,67 @@ const AdminDashboard: React.FC = () => {
     selectedDepartments: [] as string[],
     selectedAttributes: [] as string[],
   });
+
+  // Coupons state
+  const emptyCouponForm = {
+    code: "",
+    description: "",
+    discountType: "PERCENT" as "PERCENT" | "FLAT",
+    discountValue: "",
+    maxDiscountAmount: "",
+    minOrderValue: "",
+    validFrom: "",
+    validUntil: "",
+    usageLimit: "",
+    perUserLimit: "",
+    applicableCategories: [] as string[],
+    applicableProducts: [] as string[],
+    isActive: true,
+  };
+  const [coupons, setCoupons] = useState<any[]>([]);
+  const [loadingCoupons, setLoadingCoupons] = useState(false);
+  const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
+  const [couponForm, setCouponForm] = useState(emptyCouponForm);
+
+  // Contract price lists state
+  const emptyPriceListForm = {
+    name: "",
+    description: "",
+    priority: "",
+    validFrom: "",
+    validUntil: "",
+    users: [] as string[],
+    products: [] as PriceListProductForm[],
+    isActive: true,
+  };
+  const [priceLists, setPriceLists] = useState<any[]>([]);
+  const [loadingPriceLists, setLoadingPriceLists] = useState(false);
+  const [editingPriceListId, setEditingPriceListId] = useState<string | null>(null);
+  const [priceListForm, setPriceListForm] = useState(emptyPriceListForm);
+  const [priceListUserSearch, setPriceListUserSearch] = useState("");
+
+  // Delivery zones state
+  const emptyDeliveryZoneForm = {
+    name: "",
+    description: "",
+    pincodePrefixes: "",
+    pincodeRanges: [] as Array<{ from: string; to: string }>,
+    flatRate: "",
+    ratePerKg: "",
+    freeShippingThreshold: "",
+    minOrderValue: "",
+    priority: "",
+    isActive: true,
+  };
+  const [deliveryZones, setDeliveryZones] = useState<any[]>([]);
+  const [loadingDeliveryZones, setLoadingDeliveryZones] = useState(false);
+  const [editingDeliveryZoneId, setEditingDeliveryZoneId] = useState<string | null>(null);
+  const [deliveryZoneForm, setDeliveryZoneForm] = useState(emptyDeliveryZoneForm);
+
+  // Product price history modal
+  const [priceHistoryProduct, setPriceHistoryProduct] = useState<{ _id: string; name: string } | null>(null);
+  const [priceVersions, setPriceVersions] = useState<any[]>([]);
+  const [loadingPriceVersions, setLoadingPriceVersions] = useState(false);
   const [attributeTypeForm, setAttributeTypeForm] = useState({
     attributeName: "",
     inputStyle: "DROPDOWN", // How customer selects
@@ -676,6 +857,7 @@ const AdminDashboard: React.FC = () => {
     attributeOptionsTable: [] as Array<{ 
       name: string; 
       priceImpactPer1000: string; 
+      pricingMode?: PricingMode;
       image?: string;
       subattributes?: Array<{ name: string; priceImpactPer1000: string; image?: string }>;
     }>, // Table: name and price impact per 1000, with optional subattributes
@@ -729,6 +911,10 @@ const AdminDashboard: React.FC = () => {
       fetchDepartments();
       fetchEmployees();
     }
+    if (activeTab === "orders") {
+      // Departments for bulk reassignment
+      fetchDepartments();
+    }
     if (activeTab === "sequences") {
       fetchSequences();
       fetchDepartments();
@@ -744,6 +930,19 @@ const AdminDashboard: React.FC = () => {
       fetchSubCategories();
       fetchCategories();
     }
+    if (activeTab === "coupons") {
+      fetchCoupons();
+      fetchCategories();
+      fetchProducts();
+    }
+    if (activeTab === "price-lists") {
+      fetchPriceLists();
+      fetchProducts();
+      fetchUsers();
+    }
+    if (activeTab === "delivery-zones") {
+      fetchDeliveryZones();
+    }
   }, [activeTab]);
 
   // Ensure parent category matches selected type when type changes
@@ -2561,10 +2760,14 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const fetchOrders = async () => {
+  const getOrderFilterQuery = (filters: OrderFilters) =>
+    new URLSearchParams(Object.entries(filters).filter(([, value]) => value !== "")).toString();
+
+  const fetchOrders = async (filters: OrderFilters = orderFilters) => {
     setLoadingOrders(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/admin/orders`, {
+      const query = getOrderFilterQuery(filters);
+      const response = await fetch(`${API_BASE_URL}/admin/orders${query ? `?${query}` : ""}`, {
         headers: getAuthHeaders(),
       });
       
@@ -2573,7 +2776,10 @@ const AdminDashboard: React.FC = () => {
       }
       
       const data = await handleNgrokResponse(response);
-      setOrders(data || []);
+      setOrders(data.orders || []);
+      setOrdersNextCursor(data.nextCursor);
+      setOrdersTotal(data.total ?? 0);
+      setOrderFacets(data.facets);
     } catch (err) {
       console.error("Error fetching orders:", err);
       setError(err instanceof Error ? err.message : "Failed to fetch orders");
@@ -2582,6 +2788,27 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Next page of the current filters
+  const loadMoreOrders = async () => {
+    if (!ordersNextCursor) return;
+    setLoadingMoreOrders(true);
+    try {
+      const query = getOrderFilterQuery(orderFilters);
+      const response = await fetch(
+        `${API_BASE_URL}/admin/orders?cursor=${encodeURIComponent(ordersNextCursor)}${query ? `&${query}` : ""}`,
+        { headers: getAuthHeaders() }
+      );
+      const data = await handleNgrokResponse(response);
+      setOrders((current) => [...current, ...data.orders]);
+      setOrdersNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error("Error fetching more orders:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch orders");
+    } finally {
+      setLoadingMoreOrders(false);
+    }
+  };
+
   // Attribute Type Management Functions
   const fetchAttributeTypes = async (categoryId?: string, subCategoryId?: string) => {
     setLoadingAttributeTypes(true);
@@ -2669,32 +2896,30 @@ const AdminDashboard: React.FC = () => {
   // Convert simplified form to full attribute type structure
   const convertFormToAttributeType = () => {
     // Convert attributeOptionsTable to attributeValues
-    let attributeValues: Array<{ value: string; label: string; priceMultiplier: number; description: string; image: string; subattributes?: Array<{ value: string; label: string; priceMultiplier: number; description: string; image: string }> }> = [];
+    let attributeValues: Array<{ value: string; label: string; priceMultiplier: number; priceAdd?: number; pricingMode?: PricingMode; description: string; image: string; subattributes?: Array<{ value: string; label: string; priceMultiplier: number; priceAdd: number; pricingMode: PricingMode; description: string; image: string }> }> = [];
     
     // Use attributeOptionsTable if it has entries
     if (attributeTypeForm.attributeOptionsTable && attributeTypeForm.attributeOptionsTable.length > 0) {
       attributeValues = attributeTypeForm.attributeOptionsTable
         .filter(opt => opt.name.trim() !== "") // Only include options with names
         .map((option) => {
+          // The price impact is charged on its declared basis (per 1000 units unless changed)
           const priceImpact = parseFloat(option.priceImpactPer1000) || 0;
-          // Convert price impact per 1000 units to a multiplier
-          // If admin enters "20 per 1000", that means +₹20 for every 1000 units
-          // Per unit: 20/1000 = ₹0.02 per unit
-          // We'll use a percentage approach: 20 per 1000 = 2% = 1.02 multiplier
-          const multiplier = priceImpact > 0 ? 1 + (priceImpact / 1000) : 1.0;
           
           // Convert subattributes if they exist
-          let subattributes: Array<{ value: string; label: string; priceMultiplier: number; description: string; image: string }> | undefined = undefined;
+          let subattributes: Array<{ value: string; label: string; priceMultiplier: number; priceAdd: number; pricingMode: PricingMode; description: string; image: string }> | undefined = undefined;
           if (option.subattributes && option.subattributes.length > 0) {
             subattributes = option.subattributes
               .filter(subattr => subattr.name.trim() !== "")
               .map((subattr) => {
+                // Subattribute price impact is charged per 1000 units on top of the parent value
                 const subPriceImpact = parseFloat(subattr.priceImpactPer1000) || 0;
-                const subMultiplier = subPriceImpact > 0 ? 1 + (subPriceImpact / 1000) : 1.0;
                 return {
                   value: subattr.name.toLowerCase().replace(/\s+/g, '-'),
                   label: subattr.name,
-                  priceMultiplier: subMultiplier,
+                  priceMultiplier: 1.0,
+                  priceAdd: subPriceImpact,
+                  pricingMode: "PER_1000" as PricingMode,
                   description: "",
                   image: subattr.image || "",
                 };
@@ -2708,7 +2933,9 @@ const AdminDashboard: React.FC = () => {
           return {
             value: option.name.toLowerCase().replace(/\s+/g, '-'),
             label: option.name,
-            priceMultiplier: multiplier,
+            priceMultiplier: 1.0,
+            priceAdd: priceImpact,
+            pricingMode: option.pricingMode || "PER_1000",
             description: "",
             image: option.image || "",
             ...(subattributes && { subattributes }),
@@ -2999,9 +3226,12 @@ const AdminDashboard: React.FC = () => {
       const attributeOptionsTable = ((attributeType.attributeValues || [])
         .filter((av: any) => (av.label || av.value) && av.value !== "fixed-quantity")
         .map((av: any) => {
-          // Convert multiplier back to price impact per 1000
-          // multiplier = 1 + (impact/1000), so impact = (multiplier - 1) * 1000
-          const priceImpact = av.priceMultiplier ? ((av.priceMultiplier - 1) * 1000).toFixed(2) : "0";
+          // Values saved before charge bases existed only have a multiplier on the base price,
+          // which is the same as a percentage of the base price
+          const pricingMode: PricingMode = av.pricingMode || (av.priceMultiplier && av.priceMultiplier !== 1 ? "PERCENTAGE" : "PER_1000");
+          const priceImpact = av.pricingMode
+            ? String(av.priceAdd || 0)
+            : av.priceMultiplier ? ((av.priceMultiplier - 1) * 100).toFixed(2) : "0";
           
           // Convert subattributes if they exist
           let subattributes: Array<{ name: string; priceImpactPer1000: string; image?: string }> | undefined = undefined;
@@ -3009,7 +3239,9 @@ const AdminDashboard: React.FC = () => {
             subattributes = av.subattributes
               .filter((subav: any) => subav.label || subav.value)
               .map((subav: any) => {
-                const subPriceImpact = subav.priceMultiplier ? ((subav.priceMultiplier - 1) * 1000).toFixed(2) : "0";
+                const subPriceImpact = subav.pricingMode
+                  ? String(subav.priceAdd || 0)
+                  : subav.priceMultiplier ? ((subav.priceMultiplier - 1) * 1000).toFixed(2) : "0";
                 return {
                   name: subav.label || subav.value || "",
                   priceImpactPer1000: subPriceImpact,
@@ -3024,6 +3256,7 @@ const AdminDashboard: React.FC = () => {
           return {
             name: av.label || av.value || "",
             priceImpactPer1000: priceImpact,
+            pricingMode,
             image: av.image || undefined,
             ...(subattributes && { subattributes }),
           };
@@ -3346,74 +3579,47 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  // Sequence Management Functions
-  const fetchSequences = async () => {
-    setLoadingSequences(true);
+  // Coupon Management Functions
+  const fetchCoupons = async () => {
+    setLoadingCoupons(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/sequences`, {
+      const response = await fetch(`${API_BASE_URL}/coupons`, {
+        method: "GET",
         headers: getAuthHeaders(),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch sequences");
+        throw new Error(`Failed to fetch coupons: ${response.status} ${response.statusText}`);
       }
 
       const data = await handleNgrokResponse(response);
-      setSequences(data.data || data || []);
+      setCoupons(data.data || []);
     } catch (err) {
-      console.error("Error fetching sequences:", err);
-      setError(err instanceof Error ? err.message : "Failed to fetch sequences");
+      console.error("Error fetching coupons:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch coupons");
+      setCoupons([]);
     } finally {
-      setLoadingSequences(false);
+      setLoadingCoupons(false);
     }
   };
 
-  const handleSequenceSubmit = async (e: React.FormEvent) => {
+  const handleCouponSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      setSequenceFormErrors({});
-      let hasErrors = false;
-      const errors: typeof sequenceFormErrors = {};
-
-      if (!sequenceForm.name.trim()) {
-        errors.name = "Sequence name is required";
-        hasErrors = true;
-      }
-      if (!sequenceForm.printType) {
-        errors.printType = "Print type is required";
-        hasErrors = true;
-      }
-      // Require category for both digital and bulk print
-      if (!sequenceForm.category) {
-        errors.category = "Category is required";
-        hasErrors = true;
-      }
-      // Subcategory is optional for both digital and bulk print
-      if (!sequenceForm.selectedDepartments || sequenceForm.selectedDepartments.length === 0) {
-        errors.selectedDepartments = "At least one department must be selected";
-        hasErrors = true;
-      }
-
-      if (hasErrors) {
-        setSequenceFormErrors(errors);
-        setError("Please fix the errors below");
+      if (!couponForm.code.trim() || !couponForm.discountValue) {
+        setError("Coupon code and discount value are required");
         setLoading(false);
-        const firstErrorField = Object.keys(errors)[0];
-        if (firstErrorField === 'name') scrollToInvalidField("name", "sequence-name");
-        else if (firstErrorField === 'printType') scrollToInvalidField("printType", "sequence-printType");
-        else if (firstErrorField === 'category') scrollToInvalidField("category", "sequence-category");
-        else if (firstErrorField === 'selectedDepartments') scrollToInvalidField("selectedDepartments", "sequence-departments");
         return;
       }
 
-      const url = editingSequenceId
-        ? `${API_BASE_URL}/sequences/${editingSequenceId}`
-        : `${API_BASE_URL}/sequences`;
-      const method = editingSequenceId ? "PUT" : "POST";
+      const url = editingCouponId
+        ? `${API_BASE_URL}/coupons/${editingCouponId}`
+        : `${API_BASE_URL}/coupons`;
+      const method = editingCouponId ? "PUT" : "POST";
 
       const response = await fetch(url, {
         method,
@@ -3422,997 +3628,1288 @@ const AdminDashboard: React.FC = () => {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          name: sequenceForm.name,
-          printType: sequenceForm.printType,
-          category: sequenceForm.category || null,
-          subcategory: sequenceForm.subcategory || null,
-          departments: sequenceForm.selectedDepartments,
-          attributes: sequenceForm.selectedAttributes || [],
+          ...couponForm,
+          // Empty fields mean "no limit" / "no date"
+          maxDiscountAmount: couponForm.discountType === "PERCENT" ? couponForm.maxDiscountAmount || null : null,
+          minOrderValue: couponForm.minOrderValue || 0,
+          usageLimit: couponForm.usageLimit || null,
+          perUserLimit: couponForm.perUserLimit || null,
+          validFrom: couponForm.validFrom || null,
+          validUntil: couponForm.validUntil ? `${couponForm.validUntil}T23:59:59` : null,
         }),
       });
 
       const data = await handleNgrokResponse(response);
 
       if (!response.ok) {
-        throw new Error(data.error || `Failed to ${editingSequenceId ? "update" : "create"} sequence`);
+        throw new Error(data.error || `Failed to ${editingCouponId ? "update" : "create"} coupon`);
       }
 
-      setSuccess(editingSequenceId ? "Sequence updated successfully" : "Sequence created successfully");
-      setSequenceForm({
-        name: "",
-        printType: "",
-        category: "",
-        subcategory: "",
-        selectedDepartments: [],
-        selectedAttributes: [],
-      });
-      setEditingSequenceId(null);
-      fetchSequences();
+      setSuccess(editingCouponId ? "Coupon updated successfully" : "Coupon created successfully");
+      setCouponForm(emptyCouponForm);
+      setEditingCouponId(null);
+      fetchCoupons();
     } catch (err) {
-      console.error("Error saving sequence:", err);
-      setError(err instanceof Error ? err.message : "Failed to save sequence");
+      console.error("Error saving coupon:", err);
+      setError(err instanceof Error ? err.message : "Failed to save coupon");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleEditSequence = (sequenceId: string) => {
-    const sequence = (sequences || []).find((s) => s._id === sequenceId);
-    if (sequence) {
-      // Determine print type from category type, or default to digital if category exists
-      let printType = "";
-      if (sequence.category) {
-        const categoryObj = typeof sequence.category === 'object' ? sequence.category : categories.find(c => c._id === sequence.category);
-        if (categoryObj && (categoryObj.type === "Digital" || categoryObj.type === "digital")) {
-          printType = "digital";
-        } else {
-          printType = "bulk";
-        }
-      } else {
-        // If no category, it might be bulk print
-        printType = "bulk";
-      }
-      
-      setSequenceForm({
-        name: sequence.name || "",
-        printType: printType,
-        category: sequence.category && typeof sequence.category === 'object' && sequence.category !== null ? sequence.category._id : sequence.category || "",
-        subcategory: sequence.subcategory && typeof sequence.subcategory === 'object' && sequence.subcategory !== null ? sequence.subcategory._id : sequence.subcategory || "",
-        selectedDepartments: (sequence.departments || []).map((d: any) => {
-          if (!d || !d.department) return null;
-          return typeof d.department === 'object' && d.department !== null 
-            ? d.department._id 
-            : d.department;
-        }).filter((id: any) => id !== null) || [],
-        selectedAttributes: (sequence.attributes || []).map((attr: any) => {
-          if (!attr) return null;
-          return typeof attr === 'object' && attr !== null ? attr._id : attr;
-        }).filter((id: any) => id !== null) || [],
+  const handleEditCoupon = (couponId: string) => {
+    const coupon = coupons.find((c) => c._id === couponId);
+    if (coupon) {
+      const toDateInput = (value: string | null) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+      setCouponForm({
+        code: coupon.code || "",
+        description: coupon.description || "",
+        discountType: coupon.discountType || "PERCENT",
+        discountValue: coupon.discountValue?.toString() || "",
+        maxDiscountAmount: coupon.maxDiscountAmount?.toString() || "",
+        minOrderValue: coupon.minOrderValue ? coupon.minOrderValue.toString() : "",
+        validFrom: toDateInput(coupon.validFrom),
+        validUntil: toDateInput(coupon.validUntil),
+        usageLimit: coupon.usageLimit?.toString() || "",
+        perUserLimit: coupon.perUserLimit?.toString() || "",
+        applicableCategories: (coupon.applicableCategories || []).map((c: any) => (typeof c === "object" ? c._id : c)),
+        applicableProducts: (coupon.applicableProducts || []).map((p: any) => (typeof p === "object" ? p._id : p)),
+        isActive: coupon.isActive !== undefined ? coupon.isActive : true,
       });
-      setEditingSequenceId(sequenceId);
+      setEditingCouponId(couponId);
     }
   };
 
-  const handleDeleteSequence = async (sequenceId: string) => {
-    if (!window.confirm("Are you sure you want to delete this sequence? This action cannot be undone.")) {
+  const handleDeleteCoupon = async (couponId: string) => {
+    if (!window.confirm("Are you sure you want to delete this coupon? Orders that used it keep their discount.")) {
       return;
     }
 
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/sequences/${sequenceId}`, {
+      const response = await fetch(`${API_BASE_URL}/coupons/${couponId}`, {
         method: "DELETE",
         headers: getAuthHeaders(),
       });
 
+      const data = await handleNgrokResponse(response);
+
       if (!response.ok) {
-        throw new Error("Failed to delete sequence");
+        throw new Error(data.error || "Failed to delete coupon");
       }
 
-      setSuccess("Sequence deleted successfully");
-      fetchSequences();
+      setSuccess("Coupon deleted successfully");
+      fetchCoupons();
     } catch (err) {
-      console.error("Error deleting sequence:", err);
-      setError(err instanceof Error ? err.message : "Failed to delete sequence");
+      console.error("Error deleting coupon:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete coupon");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDepartmentToggle = (departmentId: string) => {
-    const currentIndex = sequenceForm.selectedDepartments.indexOf(departmentId);
-    if (currentIndex === -1) {
-      // Add department (order is based on when it's added)
-      setSequenceForm({
-        ...sequenceForm,
-        selectedDepartments: [...sequenceForm.selectedDepartments, departmentId],
-      });
-    } else {
-      // Remove department
-      setSequenceForm({
-        ...sequenceForm,
-        selectedDepartments: sequenceForm.selectedDepartments.filter(id => id !== departmentId),
+  // Delivery Zone Management Functions
+  const fetchDeliveryZones = async () => {
+    setLoadingDeliveryZones(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/delivery-zones`, {
+        method: "GET",
+        headers: getAuthHeaders(),
       });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch delivery zones: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await handleNgrokResponse(response);
+      setDeliveryZones(data.data || []);
+    } catch (err) {
+      console.error("Error fetching delivery zones:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch delivery zones");
+      setDeliveryZones([]);
+    } finally {
+      setLoadingDeliveryZones(false);
     }
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, status?: string, action?: string, deliveryDate?: string) => {
+  const handleDeliveryZoneSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
     try {
-      const updateData: any = {};
-      if (action) {
-        updateData.action = action;
-      }
-      if (status) {
-        updateData.status = status;
-      } else {
-        if (orderStatusUpdate.status) updateData.status = orderStatusUpdate.status;
-        if (orderStatusUpdate.deliveryDate) updateData.deliveryDate = orderStatusUpdate.deliveryDate;
-        if (orderStatusUpdate.adminNotes !== undefined) updateData.adminNotes = orderStatusUpdate.adminNotes;
+      const pincodePrefixes = deliveryZoneForm.pincodePrefixes
+        .split(",")
+        .map((prefix) => prefix.trim())
+        .filter(Boolean);
+      const pincodeRanges = deliveryZoneForm.pincodeRanges.filter((range) => range.from || range.to);
+
+      if (!deliveryZoneForm.name.trim()) {
+        setError("Zone name is required");
+        setLoading(false);
+        return;
       }
-      if (deliveryDate) {
-        updateData.deliveryDate = deliveryDate;
+      if (pincodePrefixes.length === 0 && pincodeRanges.length === 0) {
+        setError("Add at least one pincode prefix or range");
+        setLoading(false);
+        return;
       }
 
-      const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}`, {
-        method: "PUT",
+      const url = editingDeliveryZoneId
+        ? `${API_BASE_URL}/delivery-zones/${editingDeliveryZoneId}`
+        : `${API_BASE_URL}/delivery-zones`;
+      const method = editingDeliveryZoneId ? "PUT" : "POST";
+
+      const response = await fetch(url, {
+        method,
         headers: {
           ...getAuthHeaders(),
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(updateData),
+        body: JSON.stringify({
+          ...deliveryZoneForm,
+          pincodePrefixes,
+          pincodeRanges,
+          // Empty amounts mean "no charge" / "no minimum"
+          flatRate: deliveryZoneForm.flatRate || 0,
+          ratePerKg: deliveryZoneForm.ratePerKg || 0,
+          freeShippingThreshold: deliveryZoneForm.freeShippingThreshold || 0,
+          minOrderValue: deliveryZoneForm.minOrderValue || 0,
+          priority: deliveryZoneForm.priority || 0,
+        }),
       });
 
+      const data = await handleNgrokResponse(response);
+
       if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.error || `Failed to update order: ${response.status} ${response.statusText}`);
+        throw new Error(data.error || `Failed to ${editingDeliveryZoneId ? "update" : "create"} delivery zone`);
       }
 
-      await handleNgrokResponse(response);
-
-      setSuccess("Order updated successfully");
-      setShowOrderModal(false);
-      setSelectedOrder(null);
-      setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "" });
-      fetchOrders();
+      setSuccess(editingDeliveryZoneId ? "Delivery zone updated successfully" : "Delivery zone created successfully");
+      setDeliveryZoneForm(emptyDeliveryZoneForm);
+      setEditingDeliveryZoneId(null);
+      fetchDeliveryZones();
     } catch (err) {
-      console.error("Error updating order:", err);
-      setError(err instanceof Error ? err.message : "Failed to update order");
+      console.error("Error saving delivery zone:", err);
+      setError(err instanceof Error ? err.message : "Failed to save delivery zone");
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleRejectOrder = async (orderId: string) => {
-    if (!window.confirm("Are you sure you want to reject this order?")) {
+  const handleEditDeliveryZone = (zoneId: string) => {
+    const zone = deliveryZones.find((z) => z._id === zoneId);
+    if (zone) {
+      setDeliveryZoneForm({
+        name: zone.name || "",
+        description: zone.description || "",
+        pincodePrefixes: (zone.pincodePrefixes || []).join(", "),
+        pincodeRanges: (zone.pincodeRanges || []).map((range: any) => ({
+          from: range.from?.toString() || "",
+          to: range.to?.toString() || "",
+        })),
+        flatRate: zone.flatRate ? zone.flatRate.toString() : "",
+        ratePerKg: zone.ratePerKg ? zone.ratePerKg.toString() : "",
+        freeShippingThreshold: zone.freeShippingThreshold ? zone.freeShippingThreshold.toString() : "",
+        minOrderValue: zone.minOrderValue ? zone.minOrderValue.toString() : "",
+        priority: zone.priority ? zone.priority.toString() : "",
+        isActive: zone.isActive !== undefined ? zone.isActive : true,
+      });
+      setEditingDeliveryZoneId(zoneId);
+    }
+  };
+
+  const handleDeleteDeliveryZone = async (zoneId: string) => {
+    if (!window.confirm("Are you sure you want to delete this delivery zone? Orders keep the shipping they were charged.")) {
       return;
     }
 
+    setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}`, {
-        method: "PUT",
-        headers: {
-          ...getAuthHeaders(),
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ status: "rejected" }),
+      const response = await fetch(`${API_BASE_URL}/delivery-zones/${zoneId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
       });
 
+      const data = await handleNgrokResponse(response);
+
       if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.error || `Failed to reject order: ${response.status} ${response.statusText}`);
+        throw new Error(data.error || "Failed to delete delivery zone");
       }
 
-      await handleNgrokResponse(response);
-
-      setSuccess("Order rejected successfully");
-      fetchOrders();
+      setSuccess("Delivery zone deleted successfully");
+      fetchDeliveryZones();
     } catch (err) {
-      console.error("Error rejecting order:", err);
-      setError(err instanceof Error ? err.message : "Failed to reject order");
+      console.error("Error deleting delivery zone:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete delivery zone");
+    } finally {
+      setLoading(false);
     }
   };
 
-  // Helper function to format image data URL
-  const getImageUrl = (imageData: string, contentType: string = "image/png"): string | null => {
-    if (!imageData || imageData.trim() === "") return null;
-    // If already a data URL, return as is
-    if (imageData.startsWith("data:")) return imageData;
-    // If base64 string, add data URL prefix
-    if (imageData.startsWith("/9j/") || imageData.startsWith("iVBORw0KGgo")) {
-      return `data:${contentType};base64,${imageData}`;
+  // Product price history
+  const openPriceHistory = async (product: { _id: string; name: string }) => {
+    setPriceHistoryProduct(product);
+    setPriceVersions([]);
+    setLoadingPriceVersions(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/products/${product._id}/price-versions`, {
+        method: "GET",
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch price history: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await handleNgrokResponse(response);
+      setPriceVersions(data.data || []);
+    } catch (err) {
+      console.error("Error fetching price history:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch price history");
+    } finally {
+      setLoadingPriceVersions(false);
     }
-    // Otherwise, assume it's already a valid URL or base64
-    return imageData;
   };
 
-  const handleProductSubmit = async (e: React.FormEvent) => {
+  // Price List Management Functions
+  const fetchPriceLists = async () => {
+    setLoadingPriceLists(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/price-lists`, {
+        method: "GET",
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch price lists: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await handleNgrokResponse(response);
+      setPriceLists(data.data || []);
+    } catch (err) {
+      console.error("Error fetching price lists:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch price lists");
+      setPriceLists([]);
+    } finally {
+      setLoadingPriceLists(false);
+    }
+  };
+
+  const updatePriceListProduct = (index: number, changes: Partial<PriceListProductForm>) => {
+    setPriceListForm((form) => ({
+      ...form,
+      products: form.products.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    }));
+  };
+
+  // Attribute values a product offers (product-specific custom values replace the attribute's defaults)
+  const getProductAttributeValues = (product: any, attributeTypeId: string): Array<{ value: string; label: string }> => {
+    const productAttr = (product?.dynamicAttributes || []).find(
+      (attr: any) => attr.attributeType && (attr.attributeType._id || attr.attributeType) === attributeTypeId
+    );
+    if (!productAttr) return [];
+    const values = productAttr.customValues?.length > 0
+      ? productAttr.customValues
+      : productAttr.attributeType?.attributeValues || [];
+    return values.map((v: any) => ({ value: v.value, label: v.label || v.value }));
+  };
+
+  const handlePriceListSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    e.stopPropagation();
     setLoading(true);
     setError(null);
     setSuccess(null);
-    // Clear previous errors
-    setProductFormErrors({});
 
     try {
-      // Validate required fields with auto-scroll and field-level errors
-      let firstErrorField: string | null = null;
-      let firstErrorId: string | null = null;
-      const errors: typeof productFormErrors = {};
-
-      if (!productForm.name || !productForm.name.trim()) {
-        errors.name = "Product name is required";
-        if (!firstErrorField) {
-          firstErrorField = "name";
-          firstErrorId = "product-name";
-        }
+      if (!priceListForm.name.trim()) {
+        setError("Price list name is required");
+        setLoading(false);
+        return;
       }
 
-      if (!productForm.basePrice || !productForm.basePrice.toString().trim()) {
-        errors.basePrice = "Base price is required";
-        if (!firstErrorField) {
-          firstErrorField = "basePrice";
-          firstErrorId = "product-basePrice";
-        }
-      }
+      const url = editingPriceListId
+        ? `${API_BASE_URL}/price-lists/${editingPriceListId}`
+        : `${API_BASE_URL}/price-lists`;
+      const method = editingPriceListId ? "PUT" : "POST";
 
-      // Validate category (required)
-      if (!productForm.category) {
-        errors.category = "Please select a category";
-        if (!firstErrorField) {
-          firstErrorField = "category";
-          firstErrorId = "product-category";
-        }
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...priceListForm,
+          priority: priceListForm.priority || 0,
+          validFrom: priceListForm.validFrom || null,
+          validUntil: priceListForm.validUntil ? `${priceListForm.validUntil}T23:59:59` : null,
+          // Empty fields fall back to the catalog price
+          products: priceListForm.products.map((entry) => ({
+            product: entry.product,
+            basePrice: entry.basePrice === "" ? null : entry.basePrice,
+            rangeWiseQuantities: entry.rangeWiseQuantities.map((range) => ({
+              min: range.min,
+              max: range.max === "" ? null : range.max,
+              priceMultiplier: range.priceMultiplier,
+            })),
+            attributeValuePrices: entry.attributeValuePrices,
+          })),
+        }),
+      });
+
+      const data = await handleNgrokResponse(response);
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${editingPriceListId ? "update" : "create"} price list`);
       }
 
-      // Get type from selected category
-      const selectedCategory = categories.find(cat => cat._id === productForm.category);
-      if (!selectedCategory && productForm.category) {
-        errors.category = "Selected category not found. Please select a valid category.";
-        if (!firstErrorField) {
-          firstErrorField = "category";
-          firstErrorId = "product-category";
-        }
+      setSuccess(editingPriceListId ? "Price list updated successfully" : "Price list created successfully");
+      setPriceListForm(emptyPriceListForm);
+      setEditingPriceListId(null);
+      fetchPriceLists();
+    } catch (err) {
+      console.error("Error saving price list:", err);
+      setError(err instanceof Error ? err.message : "Failed to save price list");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditPriceList = (priceListId: string) => {
+    const priceList = priceLists.find((p) => p._id === priceListId);
+    if (priceList) {
+      const toDateInput = (value: string | null) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+      setPriceListForm({
+        name: priceList.name || "",
+        description: priceList.description || "",
+        priority: priceList.priority ? priceList.priority.toString() : "",
+        validFrom: toDateInput(priceList.validFrom),
+        validUntil: toDateInput(priceList.validUntil),
+        users: (priceList.users || []).map((u: any) => (typeof u === "object" ? u._id : u)),
+        products: (priceList.products || []).map((entry: any) => ({
+          product: typeof entry.product === "object" && entry.product ? entry.product._id : entry.product,
+          basePrice: entry.basePrice !== null && entry.basePrice !== undefined ? entry.basePrice.toString() : "",
+          rangeWiseQuantities: (entry.rangeWiseQuantities || []).map((range: any) => ({
+            min: range.min?.toString() || "0",
+            max: range.max !== null && range.max !== undefined ? range.max.toString() : "",
+            priceMultiplier: range.priceMultiplier?.toString() || "1",
+          })),
+          attributeValuePrices: (entry.attributeValuePrices || []).map((override: any) => ({
+            attributeType: typeof override.attributeType === "object" ? override.attributeType._id : override.attributeType,
+            attributeValue: override.attributeValue || "",
+            priceAdd: override.priceAdd?.toString() || "0",
+            pricingMode: override.pricingMode || "PER_UNIT",
+          })),
+        })),
+        isActive: priceList.isActive !== undefined ? priceList.isActive : true,
+      });
+      setEditingPriceListId(priceListId);
+    }
+  };
+
+  const handleDeletePriceList = async (priceListId: string) => {
+    if (!window.confirm("Are you sure you want to delete this price list? Existing orders keep their prices.")) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/price-lists/${priceListId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      const data = await handleNgrokResponse(response);
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete price list");
       }
-      const categoryType = selectedCategory?.type;
 
-      // Category ID - always use the selected category (parent category)
-      const categoryId = productForm.category;
+      setSuccess("Price list deleted successfully");
+      fetchPriceLists();
+    } catch (err) {
+      console.error("Error deleting price list:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete price list");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Validate GST Percentage (required field marked with *)
-      if (!productForm.gstPercentage || !productForm.gstPercentage.toString().trim()) {
-        errors.gstPercentage = "GST % is required for invoice calculation";
-        if (!firstErrorField) {
-          firstErrorField = "gstPercentage";
-          firstErrorId = "product-gstPercentage";
-        }
+  // Sequence Management Functions
+  const fetchSequences = async () => {
+    setLoadingSequences(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/sequences`, {
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch sequences");
       }
 
-      // Validate Instructions (required field marked with *)
-      if (!productForm.instructions || !productForm.instructions.trim()) {
-        errors.instructions = "Instructions are required";
-        if (!firstErrorField) {
-          firstErrorField = "instructions";
-          firstErrorId = "product-instructions";
-        }
+      const data = await handleNgrokResponse(response);
+      setSequences(data.data || data || []);
+    } catch (err) {
+      console.error("Error fetching sequences:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch sequences");
+    } finally {
+      setLoadingSequences(false);
+    }
+  };
+
+  const handleSequenceSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setSequenceFormErrors({});
+      let hasErrors = false;
+      const errors: typeof sequenceFormErrors = {};
+
+      if (!sequenceForm.name.trim()) {
+        errors.name = "Sequence name is required";
+        hasErrors = true;
+      }
+      if (!sequenceForm.printType) {
+        errors.printType = "Print type is required";
+        hasErrors = true;
+      }
+      // Require category for both digital and bulk print
+      if (!sequenceForm.category) {
+        errors.category = "Category is required";
+        hasErrors = true;
+      }
+      // Subcategory is optional for both digital and bulk print
+      if (!sequenceForm.selectedDepartments || sequenceForm.selectedDepartments.length === 0) {
+        errors.selectedDepartments = "At least one department must be selected";
+        hasErrors = true;
       }
 
-      // If there are validation errors, show them and scroll to first error
-      if (Object.keys(errors).length > 0) {
-        setProductFormErrors(errors);
+      if (hasErrors) {
+        setSequenceFormErrors(errors);
         setError("Please fix the errors below");
         setLoading(false);
-        
-        // Show toast with error summary
-        const errorMessages = Object.values(errors).filter((msg): msg is string => !!msg);
-        toast.error(
-          <div>
-            <div className="font-semibold">Please fix the following errors:</div>
-            <ul className="list-disc list-inside mt-1 text-sm">
-              {errorMessages.map((msg, idx) => (
-                <li key={idx}>{msg}</li>
-              ))}
-            </ul>
-          </div>,
-          { duration: 5000, position: "bottom-right" }
-        );
-        
-        // Scroll to first error field
-        if (firstErrorField && firstErrorId) {
-          scrollToInvalidField(firstErrorField, firstErrorId);
-        }
+        const firstErrorField = Object.keys(errors)[0];
+        if (firstErrorField === 'name') scrollToInvalidField("name", "sequence-name");
+        else if (firstErrorField === 'printType') scrollToInvalidField("printType", "sequence-printType");
+        else if (firstErrorField === 'category') scrollToInvalidField("category", "sequence-category");
+        else if (firstErrorField === 'selectedDepartments') scrollToInvalidField("selectedDepartments", "sequence-departments");
         return;
       }
 
-      // If using subcategory, validate it exists in SubCategory collection and belongs to selected category
-      let subcategoryId: string | undefined = undefined;
-      if (productForm.subcategory && productForm.subcategory.trim() !== "") {
-        // Find the subcategory in the subCategories list (from SubCategory collection)
-        const selectedSubCategory = subCategories.find(
-          (sc) => sc._id === productForm.subcategory
-        );
+      const url = editingSequenceId
+        ? `${API_BASE_URL}/sequences/${editingSequenceId}`
+        : `${API_BASE_URL}/sequences`;
+      const method = editingSequenceId ? "PUT" : "POST";
 
-        if (!selectedSubCategory) {
-          // Also check in categoryChildrenMap in case it's loaded there
-          const allSubcategories: any[] = [];
-          Object.values(categoryChildrenMap).forEach((children: any[]) => {
-            if (Array.isArray(children)) {
-              allSubcategories.push(...children);
-            }
-          });
-          const foundInMap = allSubcategories.find(sc => sc._id === productForm.subcategory);
-          
-          if (!foundInMap) {
-            setError("Selected subcategory not found. Please select a valid subcategory.");
-            setLoading(false);
-            return;
-          }
-          
-          // Verify subcategory belongs to the selected category
-          const subcategoryCategoryId = foundInMap.category 
-            ? (typeof foundInMap.category === 'object' ? foundInMap.category._id : foundInMap.category)
-            : null;
-          
-          if (subcategoryCategoryId !== categoryId) {
-            setError("Selected subcategory does not belong to the selected category. Please select a valid subcategory.");
-            setLoading(false);
-            return;
-          }
-          
-          subcategoryId = foundInMap._id;
-        } else {
-          // Verify subcategory belongs to the selected category
-          const subcategoryCategoryId = selectedSubCategory.category 
-            ? (typeof selectedSubCategory.category === 'object' ? selectedSubCategory.category._id : selectedSubCategory.category)
-            : null;
-          
-          if (subcategoryCategoryId !== categoryId) {
-            setError("Selected subcategory does not belong to the selected category. Please select a valid subcategory.");
-            setLoading(false);
-            return;
-          }
-          
-          subcategoryId = selectedSubCategory._id;
-        }
-      }
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: sequenceForm.name,
+          printType: sequenceForm.printType,
+          category: sequenceForm.category || null,
+          subcategory: sequenceForm.subcategory || null,
+          departments: sequenceForm.selectedDepartments,
+          attributes: sequenceForm.selectedAttributes || [],
+        }),
+      });
 
-      const formData = new FormData();
-      formData.append("name", productForm.name);
-      formData.append("description", productForm.description || "");
-      formData.append("basePrice", productForm.basePrice);
-      
-      // Append product image if provided
-      if (productForm.image) {
-        formData.append("image", productForm.image);
+      const data = await handleNgrokResponse(response);
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${editingSequenceId ? "update" : "create"} sequence`);
       }
-      
-      // Always append category (required field) - this is the parent category
-      formData.append("category", categoryId);
-      
-      // For updates, always send subcategory (even if empty) to allow clearing it
-      // For creates, only send if it's selected and not empty
-      if (editingProductId) {
-        // Update: explicitly send subcategory (empty string to clear, or value to set)
-        formData.append("subcategory", subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== "null" ? subcategoryId : "");
-      } else {
-        // Create: only append if it's selected and not empty
-        if (subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== "null") {
-          formData.append("subcategory", subcategoryId);
+
+      setSuccess(editingSequenceId ? "Sequence updated successfully" : "Sequence created successfully");
+      setSequenceForm({
+        name: "",
+        printType: "",
+        category: "",
+        subcategory: "",
+        selectedDepartments: [],
+        selectedAttributes: [],
+      });
+      setEditingSequenceId(null);
+      fetchSequences();
+    } catch (err) {
+      console.error("Error saving sequence:", err);
+      setError(err instanceof Error ? err.message : "Failed to save sequence");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditSequence = (sequenceId: string) => {
+    const sequence = (sequences || []).find((s) => s._id === sequenceId);
+    if (sequence) {
+      // Determine print type from category type, or default to digital if category exists
+      let printType = "";
+      if (sequence.category) {
+        const categoryObj = typeof sequence.category === 'object' ? sequence.category : categories.find(c => c._id === sequence.category);
+        if (categoryObj && (categoryObj.type === "Digital" || categoryObj.type === "digital")) {
+          printType = "digital";
+        } else {
+          printType = "bulk";
         }
-        // If subcategory is empty, don't append it - product will be created directly under category
-      }
-      // Product type is no longer used - removed from form
-      
-      // Parse description into array format for storage
-      // Split by newlines and filter empty lines
-      const descriptionLines = productForm.description
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
-      
-      if (descriptionLines.length > 0) {
-        formData.append("descriptionArray", JSON.stringify(descriptionLines));
-      }
-      
-      // Append filters from tables - Printing options removed (should be attributes)
-      const filtersToSend: any = {
-        printingOption: [], // Empty - printing options should be attributes
-        orderQuantity: productForm.filters.orderQuantity,
-        deliverySpeed: deliverySpeedTable.map(item => typeof item === 'string' ? item : item.name).filter(name => name.trim()),
-        textureType: textureTypeTable.map(item => typeof item === 'string' ? item : item.name).filter(name => name.trim()),
-        filterPricesEnabled: filterPricesEnabled,
-      };
-      
-      // Add filter prices if enabled (no printing option prices)
-      if (filterPricesEnabled) {
-        filtersToSend.printingOptionPrices = [];
-        filtersToSend.deliverySpeedPrices = deliverySpeedTable
-          .filter(item => typeof item === 'object' && item.name && item.name.trim())
-          .map(item => ({ 
-            name: item.name.trim(), 
-            priceAdd: typeof item.priceAdd === 'number' ? item.priceAdd : (item.priceAdd ? parseFloat(item.priceAdd) || 0 : 0)
-          }));
-        filtersToSend.textureTypePrices = textureTypeTable
-          .filter(item => typeof item === 'object' && item.name && item.name.trim())
-          .map(item => ({ 
-            name: item.name.trim(), 
-            priceAdd: typeof item.priceAdd === 'number' ? item.priceAdd : (item.priceAdd ? parseFloat(item.priceAdd) || 0 : 0)
-          }));
       } else {
-        // Clear filter prices when disabled
-        filtersToSend.printingOptionPrices = [];
-        filtersToSend.deliverySpeedPrices = [];
-        filtersToSend.textureTypePrices = [];
+        // If no category, it might be bulk print
+        printType = "bulk";
       }
       
-      // Debug: Log filters being sent
-      console.log("Filters being sent:", JSON.stringify(filtersToSend, null, 2));
-      formData.append("filters", JSON.stringify(filtersToSend));
-      
-      // Always use optionsTable if it has data, otherwise use JSON string
-      const optionsToSend =
-        optionsTable.length > 0
-          ? JSON.stringify(optionsTable)
-          : productForm.options;
-      if (optionsToSend) {
-        formData.append("options", optionsToSend);
-      }
+      setSequenceForm({
+        name: sequence.name || "",
+        printType: printType,
+        category: sequence.category && typeof sequence.category === 'object' && sequence.category !== null ? sequence.category._id : sequence.category || "",
+        subcategory: sequence.subcategory && typeof sequence.subcategory === 'object' && sequence.subcategory !== null ? sequence.subcategory._id : sequence.subcategory || "",
+        selectedDepartments: (sequence.departments || []).map((d: any) => {
+          if (!d || !d.department) return null;
+          return typeof d.department === 'object' && d.department !== null 
+            ? d.department._id 
+            : d.department;
+        }).filter((id: any) => id !== null) || [],
+        selectedAttributes: (sequence.attributes || []).map((attr: any) => {
+          if (!attr) return null;
+          return typeof attr === 'object' && attr !== null ? attr._id : attr;
+        }).filter((id: any) => id !== null) || [],
+      });
+      setEditingSequenceId(sequenceId);
+    }
+  };
 
-      // Append dynamic attributes (attribute types assigned to this product)
-      // Always send dynamicAttributes, even if empty array, to ensure proper handling
-      const dynamicAttributesToSend = (selectedAttributeTypes && selectedAttributeTypes.length > 0)
-        ? selectedAttributeTypes
-            .filter((sa) => sa && sa.attributeTypeId) // Filter out invalid entries
-            .map((sa) => ({
-              attributeType: sa.attributeTypeId,
-              isEnabled: sa.isEnabled !== undefined ? sa.isEnabled : true,
-              isRequired: sa.isRequired !== undefined ? sa.isRequired : false,
-              displayOrder: sa.displayOrder !== undefined ? sa.displayOrder : 0,
-              customValues: [], // Can be customized per product if needed
-            }))
-        : [];
-      formData.append("dynamicAttributes", JSON.stringify(dynamicAttributesToSend));
+  const handleDeleteSequence = async (sequenceId: string) => {
+    if (!window.confirm("Are you sure you want to delete this sequence? This action cannot be undone.")) {
+      return;
+    }
 
-      // Append quantity discounts
-      if (productForm.quantityDiscounts && productForm.quantityDiscounts.length > 0) {
-        const discountsToSend = productForm.quantityDiscounts
-          .filter(d => d.minQuantity > 0 && d.discountPercentage > 0) // Only send valid discounts
-          .map(d => ({
-            minQuantity: d.minQuantity,
-            maxQuantity: d.maxQuantity,
-            discountPercentage: d.discountPercentage,
-            priceMultiplier: (100 - d.discountPercentage) / 100, // Calculate multiplier from percentage
-          }));
-        if (discountsToSend.length > 0) {
-          formData.append("quantityDiscounts", JSON.stringify(discountsToSend));
-        }
-      }
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/sequences/${sequenceId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
 
-      // Append file upload constraints
-      if (productForm.maxFileSizeMB) {
-        formData.append("maxFileSizeMB", productForm.maxFileSizeMB);
-      }
-      if (productForm.minFileWidth) {
-        formData.append("minFileWidth", productForm.minFileWidth);
+      if (!response.ok) {
+        throw new Error("Failed to delete sequence");
       }
-      if (productForm.maxFileWidth) {
-        formData.append("maxFileWidth", productForm.maxFileWidth);
+
+      setSuccess("Sequence deleted successfully");
+      fetchSequences();
+    } catch (err) {
+      console.error("Error deleting sequence:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete sequence");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDepartmentToggle = (departmentId: string) => {
+    const currentIndex = sequenceForm.selectedDepartments.indexOf(departmentId);
+    if (currentIndex === -1) {
+      // Add department (order is based on when it's added)
+      setSequenceForm({
+        ...sequenceForm,
+        selectedDepartments: [...sequenceForm.selectedDepartments, departmentId],
+      });
+    } else {
+      // Remove department
+      setSequenceForm({
+        ...sequenceForm,
+        selectedDepartments: sequenceForm.selectedDepartments.filter(id => id !== departmentId),
+      });
+    }
+  };
+
+  const handleUpdateOrderStatus = async (orderId: string, status?: string, action?: string, deliveryDate?: string, reason?: string) => {
+    try {
+      const updateData: any = {};
+      if (action) {
+        updateData.action = action;
       }
-      if (productForm.minFileHeight) {
-        formData.append("minFileHeight", productForm.minFileHeight);
+      if (status) {
+        updateData.status = status;
+      } else {
+        if (orderStatusUpdate.status) updateData.status = orderStatusUpdate.status;
+        if (orderStatusUpdate.deliveryDate) updateData.deliveryDate = orderStatusUpdate.deliveryDate;
+        if (orderStatusUpdate.adminNotes !== undefined) updateData.adminNotes = orderStatusUpdate.adminNotes;
+        // Payments are only ever recorded here (an order recorded as fully paid may be invoiced)
+        if (orderStatusUpdate.paymentStatus) updateData.paymentStatus = orderStatusUpdate.paymentStatus;
+        if (orderStatusUpdate.advancePaid !== "") updateData.advancePaid = Number(orderStatusUpdate.advancePaid);
       }
-      if (productForm.maxFileHeight) {
-        formData.append("maxFileHeight", productForm.maxFileHeight);
+      if (deliveryDate) {
+        updateData.deliveryDate = deliveryDate;
       }
-      formData.append("blockCDRandJPG", productForm.blockCDRandJPG ? "true" : "false");
 
-      // Append additional charges and taxes
-      if (productForm.additionalDesignCharge) {
-        formData.append("additionalDesignCharge", productForm.additionalDesignCharge);
-      }
-      if (productForm.gstPercentage) {
-        formData.append("gstPercentage", productForm.gstPercentage);
+      // Some status changes must tell the customer why
+      const currentStatus = orders.find((o) => o._id === orderId)?.status;
+      if (updateData.status && updateData.status !== currentStatus && isReasonRequired(updateData.status)) {
+        const givenReason = reason ?? window.prompt(`Reason for changing this order to "${ORDER_STATUS_LABELS[updateData.status as OrderStatus]}" (shown to the customer):`);
+        if (!givenReason?.trim()) {
+          setError("A reason is required for this status change");
+          return;
+        }
+        updateData.reason = givenReason.trim();
+      } else if (reason) {
+        updateData.reason = reason;
       }
-      // Append price display setting
-      formData.append("showPriceIncludingGst", productForm.showPriceIncludingGst ? "true" : "false");
 
-      // Append custom instructions
-      if (productForm.instructions) {
-        formData.append("instructions", productForm.instructions);
-      }
+      const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}`, {
+        method: "PUT",
+        headers: {
+          ...getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(updateData),
+      });
 
-      // Append production sequence (custom department order)
-      if (productForm.productionSequence && productForm.productionSequence.length > 0) {
-        formData.append("productionSequence", JSON.stringify(productForm.productionSequence));
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        throw new Error(errorData.error || `Failed to update order: ${response.status} ${response.statusText}`);
       }
 
-      const url = editingProductId
-        ? `${API_BASE_URL}/products/${editingProductId}`
-        : `${API_BASE_URL}/products`;
-      const method = editingProductId ? "PUT" : "POST";
+      await handleNgrokResponse(response);
 
-      const response = await fetch(url, {
-        method,
+      setSuccess("Order updated successfully");
+      setShowOrderModal(false);
+      setSelectedOrder(null);
+      setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "", paymentStatus: "", advancePaid: "" });
+      fetchOrders();
+    } catch (err) {
+      console.error("Error updating order:", err);
+      setError(err instanceof Error ? err.message : "Failed to update order");
+    }
+  };
+
+  const toggleOrderSelection = (orderId: string) => {
+    setSelectedOrderIds((ids) =>
+      ids.includes(orderId) ? ids.filter((id) => id !== orderId) : [...ids, orderId]
+    );
+  };
+
+  // Statuses at least one of the selected orders can move to (the server checks each order)
+  const bulkStatusOptions = useMemo(() => {
+    const statuses = new Set<OrderStatus>();
+    orders
+      .filter((order) => selectedOrderIds.includes(order._id))
+      .forEach((order) => getNextOrderStatuses(order.status, "admin").forEach((status) => statuses.add(status)));
+    return Array.from(statuses);
+  }, [orders, selectedOrderIds]);
+
+  const handleBulkOrderAction = async () => {
+    const { operation, status, departmentId, deliveryDate } = bulkAction;
+    if (selectedOrderIds.length === 0) return;
+    if (operation === "status" && !status) {
+      setError("Select the status to change the orders to");
+      return;
+    }
+    if (operation === "reassign_department" && !departmentId) {
+      setError("Select the department to reassign the orders to");
+      return;
+    }
+    if (operation === "delivery_date" && !deliveryDate) {
+      setError("Select a delivery date");
+      return;
+    }
+
+    const body: Record<string, unknown> = { orderIds: selectedOrderIds, operation };
+    if (operation === "status") body.status = status;
+    if (operation === "reassign_department") body.departmentId = departmentId;
+    if (operation === "delivery_date") body.deliveryDate = deliveryDate;
+
+    // Same rule as a single update: some status changes must tell the customer why
+    const targetStatus = operation === "cancel" ? "cancelled" : operation === "status" ? status : "";
+    if (targetStatus && isReasonRequired(targetStatus as OrderStatus)) {
+      const reason = window.prompt(`Reason for changing ${selectedOrderIds.length} order(s) to "${ORDER_STATUS_LABELS[targetStatus as OrderStatus]}" (shown to the customers):`);
+      if (!reason?.trim()) {
+        setError("A reason is required for this status change");
+        return;
+      }
+      body.reason = reason.trim();
+    } else if (operation === "cancel" && !window.confirm(`Cancel ${selectedOrderIds.length} order(s)?`)) {
+      return;
+    }
+
+    setRunningBulkAction(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/orders/bulk`, {
+        method: "POST",
         headers: {
           ...getAuthHeaders(),
-          // Don't set Content-Type for FormData, browser will set it with boundary
+          "Content-Type": "application/json",
         },
-        body: formData,
+        body: JSON.stringify(body),
       });
+      const data = await handleNgrokResponse(response);
+      setBulkResults(data.results);
+      if (data.failed === 0) {
+        setSuccess(data.message);
+      } else {
+        setError(`${data.message} - ${data.failed} failed, see the results below`);
+      }
+      // Keep the failed orders selected so they can be fixed and retried
+      setSelectedOrderIds(
+        data.results.filter((result: BulkOrderResult) => !result.success).map((result: BulkOrderResult) => result.orderId)
+      );
+      fetchOrders();
+    } catch (err) {
+      console.error("Error running bulk order action:", err);
+      setError(err instanceof Error ? err.message : "Failed to update orders");
+    } finally {
+      setRunningBulkAction(false);
+    }
+  };
 
-      // Handle response errors
+  const applyOrderFilters = (filters: OrderFilters) => {
+    setOrderFilters(filters);
+    setSelectedOrderIds([]);
+    fetchOrders(filters);
+  };
+
+  // Downloads the orders matching the current filters (the server streams the file)
+  const handleExportOrders = async (format: "csv" | "xlsx") => {
+    setExportingOrders(format);
+    try {
+      const query = getOrderFilterQuery(orderFilters);
+      const response = await fetch(`${API_BASE_URL}/admin/orders/export?format=${format}${query ? `&${query}` : ""}`, {
+        headers: getAuthHeaders(),
+      });
       if (!response.ok) {
-        const responseClone = response.clone();
-        let errorMessage = "Failed to save product";
-        const backendErrors: Record<string, string> = {};
-        
-        try {
-          const errorData = await responseClone.json();
-          errorMessage = errorData.error || errorData.message || errorMessage;
-          
-          // Try to map backend errors to fields
-          // Common field mappings
-          if (errorMessage.toLowerCase().includes("name")) {
-            backendErrors.name = errorMessage;
-          } else if (errorMessage.toLowerCase().includes("price") || errorMessage.toLowerCase().includes("baseprice")) {
-            backendErrors.basePrice = errorMessage;
-          } else if (errorMessage.toLowerCase().includes("category")) {
-            backendErrors.category = errorMessage;
-          } else if (errorMessage.toLowerCase().includes("gst")) {
-            backendErrors.gstPercentage = errorMessage;
-          } else if (errorMessage.toLowerCase().includes("instruction")) {
-            backendErrors.instructions = errorMessage;
-          }
-        } catch {
-          // If JSON parsing fails, use status text
-          errorMessage = response.statusText || errorMessage;
-        }
-        
-        // Set field errors if any were mapped
-        if (Object.keys(backendErrors).length > 0) {
-          setFieldErrors(backendErrors);
-          // Scroll to first error field
-          const firstErrorField = Object.keys(backendErrors)[0];
-          scrollToInvalidField(firstErrorField, `product-${firstErrorField}`);
-        }
-        
-        // Show toast error
-        toast.error(errorMessage, {
-          duration: 5000,
-          position: "bottom-right",
-        });
-        
-        setError(errorMessage);
-        setLoading(false);
-        return;
+        await handleNgrokResponse(response);
       }
 
-      // Use handleNgrokResponse for successful response
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting orders:", err);
+      setError(err instanceof Error ? err.message : "Failed to export orders");
+    } finally {
+      setExportingOrders(null);
+    }
+  };
+
+  const fetchOrderAmendments = async (orderId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/orders/${orderId}/amendments`, {
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) {
+        setOrderAmendments([]);
+        return;
+      }
       const data = await handleNgrokResponse(response);
+      setOrderAmendments(data.data.amendments);
+    } catch (err) {
+      console.error("Error fetching change requests:", err);
+      setOrderAmendments([]);
+    }
+  };
 
-      // Store categoryId before clearing form to use for fetching products
-      const createdCategoryId = categoryId;
+  // Change requests of the order being viewed
+  useEffect(() => {
+    if (showOrderModal && selectedOrder?._id) {
+      fetchOrderAmendments(selectedOrder._id);
+    } else {
+      setOrderAmendments([]);
+    }
+  }, [showOrderModal, selectedOrder?._id]);
+
+  const handleReviewAmendment = async (amendment: Amendment, decision: "approve" | "reject") => {
+    let reason: string | null = null;
+    if (decision === "reject") {
+      reason = window.prompt("Reason for rejecting this change request (shown to the customer):");
+      if (reason === null) return;
+      if (!reason.trim()) {
+        setError("A reason is required to reject a change request");
+        return;
+      }
+    } else {
+      const { difference } = amendment.pricing;
+      const paymentNote = Math.abs(difference) < 0.01
+        ? "The order total doesn't change."
+        : difference > 0
+          ? `The customer will owe ${formatCurrency(difference)} more.`
+          : `The customer will be due a refund of ${formatCurrency(Math.abs(difference))}.`;
+      if (!window.confirm(`Apply these changes to the order? ${paymentNote}`)) return;
+    }
 
-      // Show success toast
-      toast.success(`Product ${editingProductId ? "updated" : "created"} successfully!`, {
-        duration: 3000,
-        position: "bottom-right",
-      });
-      
-      setSuccess(`Product ${editingProductId ? "updated" : "created"} successfully!`);
-      setSelectedType("");
-      setFilteredCategoriesByType([]);
-      setSelectedCategoryPath([]);
-      setCategoryChildrenMap({});
-      setProductForm({
-        name: "",
-        description: "",
-        descriptionArray: [],
-        basePrice: "",
-        category: "",
-        subcategory: "",
-        image: null,
-        options: "",
-        filters: {
-          printingOption: [],
-          orderQuantity: { 
-          min: 1000, 
-          max: 72000, 
-          multiples: 1000,
-          quantityType: "SIMPLE" as "SIMPLE" | "STEP_WISE" | "RANGE_WISE",
-          stepWiseQuantities: [],
-          rangeWiseQuantities: []
-        },
-          deliverySpeed: [],
-          textureType: [],
+    setReviewingAmendmentId(amendment._id);
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/amendments/${amendment._id}/${decision}`, {
+        method: "PUT",
+        headers: {
+          ...getAuthHeaders(),
+          "Content-Type": "application/json",
         },
-        quantityDiscounts: [],
-        maxFileSizeMB: "",
-        minFileWidth: "",
-        maxFileWidth: "",
-        minFileHeight: "",
-        maxFileHeight: "",
-        blockCDRandJPG: false,
-        additionalDesignCharge: "",
-        gstPercentage: "",
-        showPriceIncludingGst: false,
-        instructions: "",
-        productionSequence: [] as string[],
+        body: JSON.stringify(reason ? { reason: reason.trim() } : {}),
       });
-      setOptionsTable([]);
-      setFilterPricesEnabled(false);
-      setPrintingOptionsTable([]);
-      setDeliverySpeedTable([]);
-      setTextureTypeTable([]);
-      setSelectedAttributeTypes([]);
-      setSubcategoryProducts([]);
-      setEditingProductId(null);
-      setFieldErrors({}); // Clear field errors on success
-      
-      // Refresh products list using the category route based on the category ID used to create the product
-      if (createdCategoryId) {
-        fetchProducts(createdCategoryId);
-      } else {
-        fetchProducts();
-      }
-      
-      // If viewing a category, refresh its products
-      if (selectedCategory) {
-        handleCategoryClick(typeof selectedCategory === 'string' ? selectedCategory : selectedCategory._id);
+      const data = await handleNgrokResponse(response);
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${decision} change request`);
       }
-      
-      // If viewing a subcategory, refresh its products
-      if (selectedSubCategoryForView) {
-        handleSubCategoryClick(selectedSubCategoryForView);
+
+      setSuccess(decision === "approve" ? "Change request approved and order updated" : "Change request rejected");
+      if (decision === "approve") {
+        setShowOrderModal(false);
+        setSelectedOrder(null);
+        fetchOrders();
+      } else if (selectedOrder) {
+        fetchOrderAmendments(selectedOrder._id);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : `Failed to ${editingProductId ? "update" : "create"} product`);
+      console.error("Error reviewing change request:", err);
+      setError(err instanceof Error ? err.message : `Failed to ${decision} change request`);
     } finally {
-      setLoading(false);
+      setReviewingAmendmentId(null);
     }
   };
 
-  const handleEditProduct = async (productId: string) => {
+  const handleRejectOrder = async (orderId: string) => {
+    const reason = window.prompt("Reason for rejecting this order (shown to the customer):");
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      setError("A reason is required to reject an order");
+      return;
+    }
+
     try {
-      setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/products/${productId}`, {
-        method: "GET",
-        headers: getAuthHeaders(),
+      const response = await fetch(`${API_BASE_URL}/admin/orders/${orderId}`, {
+        method: "PUT",
+        headers: {
+          ...getAuthHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status: "rejected", reason: reason.trim() }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch product: ${response.status} ${response.statusText}`);
+        const errorData = await handleNgrokResponse(response);
+        throw new Error(errorData.error || `Failed to reject order: ${response.status} ${response.statusText}`);
       }
 
-      const product = await handleNgrokResponse(response);
+      await handleNgrokResponse(response);
 
-      // Convert descriptionArray back to text format for editing
-      const descriptionText = product.descriptionArray && Array.isArray(product.descriptionArray) 
-        ? product.descriptionArray.join('\n')
-        : product.description || "";
+      setSuccess("Order rejected successfully");
+      fetchOrders();
+    } catch (err) {
+      console.error("Error rejecting order:", err);
+      setError(err instanceof Error ? err.message : "Failed to reject order");
+    }
+  };
 
-      // Determine category and type from product
-      // If subcategory exists, get category from subcategory, otherwise use product.category
-      let categoryId = "";
-      let productType = "";
-      
-      if (product.subcategory) {
-        const subcategoryObj = typeof product.subcategory === "object" && product.subcategory !== null 
-          ? product.subcategory 
-          : null;
-        if (subcategoryObj && subcategoryObj.category) {
-          const categoryObj = typeof subcategoryObj.category === "object" && subcategoryObj.category !== null
-            ? subcategoryObj.category 
-            : null;
-          categoryId = categoryObj ? categoryObj._id : (subcategoryObj.category || "");
-          productType = categoryObj ? categoryObj.type : "";
+  // Helper function to format image data URL
+  const getImageUrl = (imageData: string, contentType: string = "image/png"): string | null => {
+    if (!imageData || imageData.trim() === "") return null;
+    // If already a data URL, return as is
+    if (imageData.startsWith("data:")) return imageData;
+    // If base64 string, add data URL prefix
+    if (imageData.startsWith("/9j/") || imageData.startsWith("iVBORw0KGgo")) {
+      return `data:${contentType};base64,${imageData}`;
+    }
+    // Otherwise, assume it's already a valid URL or base64
+    return imageData;
+  };
+
+  const handleProductSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    // Clear previous errors
+    setProductFormErrors({});
+
+    try {
+      // Validate required fields with auto-scroll and field-level errors
+      let firstErrorField: string | null = null;
+      let firstErrorId: string | null = null;
+      const errors: typeof productFormErrors = {};
+
+      if (!productForm.name || !productForm.name.trim()) {
+        errors.name = "Product name is required";
+        if (!firstErrorField) {
+          firstErrorField = "name";
+          firstErrorId = "product-name";
         }
       }
-      
-      // If no category from subcategory, use product.category
-      if (!categoryId) {
-        const categoryObj = typeof product.category === "object" && product.category !== null
-          ? product.category 
-          : null;
-        categoryId = categoryObj ? categoryObj._id : (product.category || "");
-        productType = categoryObj ? categoryObj.type : "";
+
+      if (!productForm.basePrice || !productForm.basePrice.toString().trim()) {
+        errors.basePrice = "Base price is required";
+        if (!firstErrorField) {
+          firstErrorField = "basePrice";
+          firstErrorId = "product-basePrice";
+        }
       }
-      
-      // Set type first, then category (this will trigger filtering)
-      setSelectedType(productType);
-      
-      // Filter categories by type for the dropdown
-      if (productType) {
-        const filtered = categories.filter(cat => cat.type === productType && !cat.parent);
-        setFilteredCategoriesByType(filtered);
-      } else {
-        setFilteredCategoriesByType([]);
+
+      // Validate category (required)
+      if (!productForm.category) {
+        errors.category = "Please select a category";
+        if (!firstErrorField) {
+          firstErrorField = "category";
+          firstErrorId = "product-category";
+        }
       }
-      
-      // Set category
-      setProductForm({
-        name: product.name || "",
-        description: descriptionText,
-        descriptionArray: product.descriptionArray || [],
-        basePrice: product.basePrice?.toString() || "",
-        category: categoryId || "",
-        subcategory: product.subcategory && typeof product.subcategory === "object" && product.subcategory._id 
-          ? product.subcategory._id 
-          : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" && product.subcategory !== "" ? String(product.subcategory) : ""),
-        image: null,
-        options: "",
-        filters: {
-          ...(product.filters || {}),
-          printingOption: product.filters?.printingOption || [],
-          orderQuantity: {
-            min: product.filters?.orderQuantity?.min || 1000,
-            max: product.filters?.orderQuantity?.max || 72000,
-            multiples: product.filters?.orderQuantity?.multiples || 1000,
-            quantityType: product.filters?.orderQuantity?.quantityType || "SIMPLE",
-            stepWiseQuantities: product.filters?.orderQuantity?.stepWiseQuantities || [],
-            rangeWiseQuantities: product.filters?.orderQuantity?.rangeWiseQuantities || [],
-          },
-          deliverySpeed: product.filters?.deliverySpeed || [],
-          textureType: product.filters?.textureType || [],
-        },
-        quantityDiscounts: product.quantityDiscounts && Array.isArray(product.quantityDiscounts) 
-          ? product.quantityDiscounts.map((qd: any) => ({
-              minQuantity: qd.minQuantity || 0,
-              maxQuantity: qd.maxQuantity || null,
-              discountPercentage: qd.discountPercentage || 0,
-            }))
-          : [],
-        maxFileSizeMB: product.maxFileSizeMB?.toString() || "",
-        minFileWidth: product.minFileWidth?.toString() || "",
-        maxFileWidth: product.maxFileWidth?.toString() || "",
-        minFileHeight: product.minFileHeight?.toString() || "",
-        maxFileHeight: product.maxFileHeight?.toString() || "",
-        blockCDRandJPG: product.blockCDRandJPG || false,
-        additionalDesignCharge: product.additionalDesignCharge?.toString() || "",
-        gstPercentage: product.gstPercentage?.toString() || "",
-        showPriceIncludingGst: product.showPriceIncludingGst || false,
-        instructions: product.instructions || "",
-        productionSequence: product.productionSequence && Array.isArray(product.productionSequence)
-          ? product.productionSequence
-              .filter((dept: any) => dept !== null && dept !== undefined) // Filter out null/undefined departments
-              .map((dept: any) => typeof dept === 'object' && dept !== null ? (dept._id || "") : (dept || ""))
-              .filter((id: string) => id) // Filter out empty IDs
-          : [],
-      });
 
-      if (product.options && Array.isArray(product.options) && product.options.length > 0) {
-        setOptionsTable(product.options);
-      } else {
-        setOptionsTable([]);
+      // Get type from selected category
+      const selectedCategory = categories.find(cat => cat._id === productForm.category);
+      if (!selectedCategory && productForm.category) {
+        errors.category = "Selected category not found. Please select a valid category.";
+        if (!firstErrorField) {
+          firstErrorField = "category";
+          firstErrorId = "product-category";
+        }
       }
+      const categoryType = selectedCategory?.type;
 
-      // Set filter prices enabled state
-      setFilterPricesEnabled(product.filters?.filterPricesEnabled || false);
-      
-      // Set filter tables from product data - Printing options are now handled via attributes
-      setPrintingOptionsTable([]); // Printing options should be configured as attributes
-      
-      const deliverySpeeds = product.filters?.deliverySpeed || [];
-      const deliveryPrices = product.filters?.deliverySpeedPrices || [];
-      setDeliverySpeedTable(deliverySpeeds.map((opt: string | any, idx: number) => {
-        if (typeof opt === 'string') {
-          const priceData = deliveryPrices.find((p: any) => p.name === opt);
-          return { name: opt, priceAdd: priceData?.priceAdd };
+      // Category ID - always use the selected category (parent category)
+      const categoryId = productForm.category;
+
+      // Validate GST Percentage (required field marked with *)
+      if (!productForm.gstPercentage || !productForm.gstPercentage.toString().trim()) {
+        errors.gstPercentage = "GST % is required for invoice calculation";
+        if (!firstErrorField) {
+          firstErrorField = "gstPercentage";
+          firstErrorId = "product-gstPercentage";
         }
-        return opt;
-      }));
-      
-      const textureTypes = product.filters?.textureType || [];
-      const texturePrices = product.filters?.textureTypePrices || [];
-      setTextureTypeTable(textureTypes.map((opt: string | any, idx: number) => {
-        if (typeof opt === 'string') {
-          const priceData = texturePrices.find((p: any) => p.name === opt);
-          return { name: opt, priceAdd: priceData?.priceAdd };
+      }
+
+      // Validate Instructions (required field marked with *)
+      if (!productForm.instructions || !productForm.instructions.trim()) {
+        errors.instructions = "Instructions are required";
+        if (!firstErrorField) {
+          firstErrorField = "instructions";
+          firstErrorId = "product-instructions";
         }
-        return opt;
-      }));
+      }
 
-      // Load dynamic attributes if they exist
-      if (product.dynamicAttributes && Array.isArray(product.dynamicAttributes) && product.dynamicAttributes.length > 0) {
-        const loadedAttributes = product.dynamicAttributes
-          .filter((da: any) => da && da.attributeType) // Filter out null/undefined attributes
-          .map((da: any) => {
-            // Handle both populated (object) and unpopulated (string ID) attributeType
-            let attributeTypeId = "";
-            if (typeof da.attributeType === 'object' && da.attributeType !== null) {
-              // Populated attributeType object
-              attributeTypeId = da.attributeType._id || da.attributeType.id || "";
-            } else if (typeof da.attributeType === 'string') {
-              // Unpopulated attributeType ID string
-              attributeTypeId = da.attributeType;
-            }
-            
-            return {
-              attributeTypeId: attributeTypeId,
-              isEnabled: da.isEnabled !== undefined ? da.isEnabled : true,
-              isRequired: da.isRequired !== undefined ? da.isRequired : false,
-              displayOrder: da.displayOrder !== undefined ? da.displayOrder : 0,
-            };
-          })
-          .filter((attr: any) => attr.attributeTypeId && attr.attributeTypeId.trim() !== ""); // Filter out attributes without valid IDs
+      // If there are validation errors, show them and scroll to first error
+      if (Object.keys(errors).length > 0) {
+        setProductFormErrors(errors);
+        setError("Please fix the errors below");
+        setLoading(false);
         
-        console.log("Loaded attributes for editing:", loadedAttributes);
-        setSelectedAttributeTypes(loadedAttributes);
-      } else {
-        console.log("No dynamic attributes found in product");
-        setSelectedAttributeTypes([]);
+        // Show toast with error summary
+        const errorMessages = Object.values(errors).filter((msg): msg is string => !!msg);
+        toast.error(
+          <div>
+            <div className="font-semibold">Please fix the following errors:</div>
+            <ul className="list-disc list-inside mt-1 text-sm">
+              {errorMessages.map((msg, idx) => (
+                <li key={idx}>{msg}</li>
+              ))}
+            </ul>
+          </div>,
+          { duration: 5000, position: "bottom-right" }
+        );
+        
+        // Scroll to first error field
+        if (firstErrorField && firstErrorId) {
+          scrollToInvalidField(firstErrorField, firstErrorId);
+        }
+        return;
       }
 
-      // Fetch attribute types filtered by product's category/subcategory
-      const productCategoryId = categoryId || null;
-      const productSubCategoryId = product.subcategory && typeof product.subcategory === "object" && product.subcategory._id 
-        ? product.subcategory._id 
-        : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" && product.subcategory !== "" ? String(product.subcategory) : null);
-      await fetchAttributeTypes(productCategoryId, productSubCategoryId);
+      // If using subcategory, validate it exists in SubCategory collection and belongs to selected category
+      let subcategoryId: string | undefined = undefined;
+      if (productForm.subcategory && productForm.subcategory.trim() !== "") {
+        // Find the subcategory in the subCategories list (from SubCategory collection)
+        const selectedSubCategory = subCategories.find(
+          (sc) => sc._id === productForm.subcategory
+        );
 
-      // Build category path for hierarchical selection
-      // If subcategory exists, build the path from root category to subcategory
-      const subcategoryId = product.subcategory && typeof product.subcategory === "object" && product.subcategory !== null
-        ? (product.subcategory._id || "")
-        : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" ? String(product.subcategory) : "");
-      
-      // Wait for categories to be loaded, then build path
-      if (categoryId) {
-        // First, fetch children for the root category
-        await fetchCategoryChildren(categoryId);
-        
-        // If subcategory exists and is valid, build path to it
-        if (subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== categoryId && subcategoryId !== "null") {
-          // Wait a bit for children to load, then build path
-          setTimeout(() => {
-            const path = buildCategoryPath(categoryId, subcategoryId);
-            setSelectedCategoryPath(path);
-            
-            // Fetch children for all categories in the path
-            path.forEach(catId => {
-              if (catId !== categoryId) { // Already fetched root
-                fetchCategoryChildren(catId);
-              }
-            });
-          }, 100);
-        } else {
-          // Only root category selected
-          setSelectedCategoryPath([categoryId]);
-        }
-      } else {
-        setSelectedCategoryPath([]);
-      }
-      
-      // Fetch products for the selected category/subcategory
-      const finalCategoryId = subcategoryId || categoryId;
-      if (finalCategoryId) {
-        try {
-          setLoadingCategoryProducts(true);
-          const productsResponse = await fetch(`${API_BASE_URL}/products/category/${finalCategoryId}`, {
-            headers: getAuthHeaders(),
+        if (!selectedSubCategory) {
+          // Also check in categoryChildrenMap in case it's loaded there
+          const allSubcategories: any[] = [];
+          Object.values(categoryChildrenMap).forEach((children: any[]) => {
+            if (Array.isArray(children)) {
+              allSubcategories.push(...children);
+            }
           });
+          const foundInMap = allSubcategories.find(sc => sc._id === productForm.subcategory);
           
-          if (productsResponse.ok) {
-            const productsData = await handleNgrokResponse(productsResponse);
-            setCategoryProducts(productsData || []);
+          if (!foundInMap) {
+            setError("Selected subcategory not found. Please select a valid subcategory.");
+            setLoading(false);
+            return;
           }
-        } catch (err) {
-          console.error("Error fetching category products:", err);
-          setCategoryProducts([]);
-        } finally {
-          setLoadingCategoryProducts(false);
+          
+          // Verify subcategory belongs to the selected category
+          const subcategoryCategoryId = foundInMap.category 
+            ? (typeof foundInMap.category === 'object' ? foundInMap.category._id : foundInMap.category)
+            : null;
+          
+          if (subcategoryCategoryId !== categoryId) {
+            setError("Selected subcategory does not belong to the selected category. Please select a valid subcategory.");
+            setLoading(false);
+            return;
+          }
+          
+          subcategoryId = foundInMap._id;
+        } else {
+          // Verify subcategory belongs to the selected category
+          const subcategoryCategoryId = selectedSubCategory.category 
+            ? (typeof selectedSubCategory.category === 'object' ? selectedSubCategory.category._id : selectedSubCategory.category)
+            : null;
+          
+          if (subcategoryCategoryId !== categoryId) {
+            setError("Selected subcategory does not belong to the selected category. Please select a valid subcategory.");
+            setLoading(false);
+            return;
+          }
+          
+          subcategoryId = selectedSubCategory._id;
         }
       }
 
-      setEditingProductId(productId);
-      // Reset sequence selection states
-      setSelectedSequenceId(null);
-      setIsCustomizingSequence(false);
-      setActiveTab("products");
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load product");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleEditCategory = async (categoryId: string) => {
-    try {
-      setLoading(true);
+      const formData = new FormData();
+      formData.append("name", productForm.name);
+      formData.append("description", productForm.description || "");
+      formData.append("basePrice", productForm.basePrice);
       
-      // First, try to fetch from categories
-      let category = null;
-      let isSubcategory = false;
+      // Append product image if provided
+      if (productForm.image) {
+        formData.append("image", productForm.image);
+      }
       
-      try {
-        const response = await fetch(`${API_BASE_URL}/categories/${categoryId}`, {
-          method: "GET",
-          headers: getAuthHeaders(),
-        });
-
-        if (response.ok) {
-          category = await handleNgrokResponse(response);
-          // Check if it has a parent - if so, it might be in SubCategory collection
-          if (category && category.parent) {
-            // Try to fetch from subcategories as well
-            try {
-              const subcatResponse = await fetch(`${API_BASE_URL}/subcategories/${categoryId}`, {
-                method: "GET",
-                headers: getAuthHeaders(),
-              });
-              if (subcatResponse.ok) {
-                const subcategory = await handleNgrokResponse(subcatResponse);
-                // If found in subcategories, use that instead
-                category = subcategory;
-                isSubcategory = true;
-              }
-            } catch (subcatErr) {
-              // Not found in subcategories, use category data
-            }
-          }
-        }
-      } catch (catErr) {
-        // Category not found, try subcategory
-        try {
-          const subcatResponse = await fetch(`${API_BASE_URL}/subcategories/${categoryId}`, {
-            method: "GET",
-            headers: getAuthHeaders(),
-          });
-          if (subcatResponse.ok) {
-            category = await handleNgrokResponse(subcatResponse);
-            isSubcategory = true;
-          } else {
-            throw new Error(`Failed to fetch category: ${subcatResponse.status} ${subcatResponse.statusText}`);
-          }
-        } catch (subcatErr) {
-          throw new Error(`Failed to fetch category or subcategory`);
+      // Always append category (required field) - this is the parent category
+      formData.append("category", categoryId);
+      
+      // For updates, always send subcategory (even if empty) to allow clearing it
+      // For creates, only send if it's selected and not empty
+      if (editingProductId) {
+        // Update: explicitly send subcategory (empty string to clear, or value to set)
+        formData.append("subcategory", subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== "null" ? subcategoryId : "");
+      } else {
+        // Create: only append if it's selected and not empty
+        if (subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== "null") {
+          formData.append("subcategory", subcategoryId);
         }
+        // If subcategory is empty, don't append it - product will be created directly under category
       }
-
-      if (!category) {
-        throw new Error("Category not found");
+      // Product type is no longer used - removed from form
+      
+      // Parse description into array format for storage
+      // Split by newlines and filter empty lines
+      const descriptionLines = productForm.description
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+      
+      if (descriptionLines.length > 0) {
+        formData.append("descriptionArray", JSON.stringify(descriptionLines));
+      }
+      
+      // Append filters from tables - Printing options removed (should be attributes)
+      const filtersToSend: any = {
+        printingOption: [], // Empty - printing options should be attributes
+        orderQuantity: productForm.filters.orderQuantity,
+        deliverySpeed: deliverySpeedTable.map(item => typeof item === 'string' ? item : item.name).filter(name => name.trim()),
+        textureType: textureTypeTable.map(item => typeof item === 'string' ? item : item.name).filter(name => name.trim()),
+        filterPricesEnabled: filterPricesEnabled,
+      };
+      
+      // Add filter prices if enabled (no printing option prices)
+      if (filterPricesEnabled) {
+        filtersToSend.printingOptionPrices = [];
+        filtersToSend.deliverySpeedPrices = deliverySpeedTable
+          .filter(item => typeof item === 'object' && item.name && item.name.trim())
+          .map(item => ({ 
+            name: item.name.trim(), 
+            priceAdd: typeof item.priceAdd === 'number' ? item.priceAdd : (item.priceAdd ? parseFloat(item.priceAdd) || 0 : 0)
+          }));
+        filtersToSend.textureTypePrices = textureTypeTable
+          .filter(item => typeof item === 'object' && item.name && item.name.trim())
+          .map(item => ({ 
+            name: item.name.trim(), 
+            priceAdd: typeof item.priceAdd === 'number' ? item.priceAdd : (item.priceAdd ? parseFloat(item.priceAdd) || 0 : 0)
+          }));
+      } else {
+        // Clear filter prices when disabled
+        filtersToSend.printingOptionPrices = [];
+        filtersToSend.deliverySpeedPrices = [];
+        filtersToSend.textureTypePrices = [];
+      }
+      
+      // Debug: Log filters being sent
+      console.log("Filters being sent:", JSON.stringify(filtersToSend, null, 2));
+      formData.append("filters", JSON.stringify(filtersToSend));
+      
+      // Always use optionsTable if it has data, otherwise use JSON string
+      const optionsToSend =
+        optionsTable.length > 0
+          ? JSON.stringify(optionsTable)
+          : productForm.options;
+      if (optionsToSend) {
+        formData.append("options", optionsToSend);
       }
 
-      // Auto-generate slug if not present - always ensure slug is set
-      const categorySlug = category.slug || (category.name ? category.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : "");
+      // Append dynamic attributes (attribute types assigned to this product)
+      // Always send dynamicAttributes, even if empty array, to ensure proper handling
+      const dynamicAttributesToSend = (selectedAttributeTypes && selectedAttributeTypes.length > 0)
+        ? selectedAttributeTypes
+            .filter((sa) => sa && sa.attributeTypeId) // Filter out invalid entries
+            .map((sa) => ({
+              attributeType: sa.attributeTypeId,
+              isEnabled: sa.isEnabled !== undefined ? sa.isEnabled : true,
+              isRequired: sa.isRequired !== undefined ? sa.isRequired : false,
+              displayOrder: sa.displayOrder !== undefined ? sa.displayOrder : 0,
+              customValues: [], // Can be customized per product if needed
+            }))
+        : [];
+      formData.append("dynamicAttributes", JSON.stringify(dynamicAttributesToSend));
 
-      // If it's a subcategory, map category field to parent
-      const parentId = isSubcategory 
-        ? (category.category ? (typeof category.category === 'object' ? category.category._id : category.category) : "")
-        : (category.parent ? (typeof category.parent === 'object' ? category.parent._id : category.parent) : "");
+      // Append quantity discounts
+      if (productForm.quantityDiscounts && productForm.quantityDiscounts.length > 0) {
+        const discountsToSend = productForm.quantityDiscounts
+          .filter(d => d.minQuantity > 0 && d.discountPercentage > 0) // Only send valid discounts
+          .map(d => ({
+            minQuantity: d.minQuantity,
+            maxQuantity: d.maxQuantity,
+            discountPercentage: d.discountPercentage,
+            priceMultiplier: (100 - d.discountPercentage) / 100, // Calculate multiplier from percentage
+          }));
+        if (discountsToSend.length > 0) {
+          formData.append("quantityDiscounts", JSON.stringify(discountsToSend));
+        }
+      }
 
-      setCategoryForm({
-        name: category.name || "",
-        description: category.description || "",
-        type: isSubcategory ? (category.category && typeof category.category === 'object' ? category.category.type : "Digital") : (category.type || "Digital"),
-        parent: parentId,
-        sortOrder: category.sortOrder || 0,
-        slug: categorySlug, // Always set slug, even if auto-generated
-        image: null,
+      // Append file upload constraints
+      if (productForm.maxFileSizeMB) {
+        formData.append("maxFileSizeMB", productForm.maxFileSizeMB);
+      }
+      if (productForm.minFileWidth) {
+        formData.append("minFileWidth", productForm.minFileWidth);
+      }
+      if (productForm.maxFileWidth) {
+        formData.append("maxFileWidth", productForm.maxFileWidth);
+      }
+      if (productForm.minFileHeight) {
+        formData.append("minFileHeight", productForm.minFileHeight);
+      }
+      if (productForm.maxFileHeight) {
+        formData.append("maxFileHeight", productForm.maxFileHeight);
+      }
+      formData.append("blockCDRandJPG", productForm.blockCDRandJPG ? "true" : "false");
+
+      // Append additional charges and taxes
+      if (productForm.additionalDesignCharge) {
+        formData.append("additionalDesignCharge", productForm.additionalDesignCharge);
+      }
+      if (productForm.gstPercentage) {
+        formData.append("gstPercentage", productForm.gstPercentage);
+      }
+      // HSN/SAC code for invoices (empty = the default code)
+      formData.append("hsnCode", productForm.hsnCode.trim());
+      // Shipment weight for delivery zone rates (empty = weight not charged)
+      formData.append("shippingWeightPer1000", productForm.shippingWeightPer1000 || "0");
+      // Custom size area pricing (validated by the server)
+      formData.append("customSize", JSON.stringify(productForm.customSize));
+      // Append price display setting
+      formData.append("showPriceIncludingGst", productForm.showPriceIncludingGst ? "true" : "false");
+
+      // Append custom instructions
+      if (productForm.instructions) {
+        formData.append("instructions", productForm.instructions);
+      }
+
+      // Append production sequence (custom department order)
+      if (productForm.productionSequence && productForm.productionSequence.length > 0) {
+        formData.append("productionSequence", JSON.stringify(productForm.productionSequence));
+      }
+
+      const url = editingProductId
+        ? `${API_BASE_URL}/products/${editingProductId}`
+        : `${API_BASE_URL}/products`;
+      const method = editingProductId ? "PUT" : "POST";
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...getAuthHeaders(),
+          // Don't set Content-Type for FormData, browser will set it with boundary
+        },
+        body: formData,
       });
-      setIsSlugManuallyEdited(!!category.slug); // If category has a slug, consider it manually set
 
-      setEditingCategoryId(categoryId);
-      setEditingCategoryImage(category.image || null);
-      setActiveTab("categories");
-      setError(null);
-      
-      // Fetch available parent categories (excluding current category and its descendants)
-      fetchAvailableParentCategories(categoryId);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load category");
-    } finally {
-      setLoading(false);
-    }
-  };
+      // Handle response errors
+      if (!response.ok) {
+        const responseClone = response.clone();
+        let errorMessage = "Failed to save product";
+        const backendErrors: Record<string, string> = {};
+        
+        try {
+          const errorData = await responseClone.json();
+          errorMessage = errorData.error || errorData.message || errorMessage;
+          
+          // Try to map backend errors to fields
+          // Common field mappings
+          if (errorMessage.toLowerCase().includes("name")) {
+            backendErrors.name = errorMessage;
+          } else if (errorMessage.toLowerCase().includes("price") || errorMessage.toLowerCase().includes("baseprice")) {
+            backendErrors.basePrice = errorMessage;
+          } else if (errorMessage.toLowerCase().includes("category")) {
+            backendErrors.category = errorMessage;
+          } else if (errorMessage.toLowerCase().includes("gst")) {
+            backendErrors.gstPercentage = errorMessage;
+          } else if (errorMessage.toLowerCase().includes("instruction")) {
+            backendErrors.instructions = errorMessage;
+          }
+        } catch {
+          // If JSON parsing fails, use status text
+          errorMessage = response.statusText || errorMessage;
+        }
+        
+        // Set field errors if any were mapped
+        if (Object.keys(backendErrors).length > 0) {
+          setFieldErrors(backendErrors);
+          // Scroll to first error field
+          const firstErrorField = Object.keys(backendErrors)[0];
+          scrollToInvalidField(firstErrorField, `product-${firstErrorField}`);
+        }
+        
+        // Show toast error
+        toast.error(errorMessage, {
+          duration: 5000,
+          position: "bottom-right",
+        });
+        
+        setError(errorMessage);
+        setLoading(false);
+        return;
+      }
 
-  const handleCancelEdit = () => {
-    setEditingProductId(null);
-    setEditingCategoryId(null);
-    setEditingCategoryImage(null);
-    setEditingSubCategoryId(null);
-    setSelectedType("");
-    setFilteredCategoriesByType([]);
-    setFilteredSubCategories([]);
+      // Use handleNgrokResponse for successful response
+      const data = await handleNgrokResponse(response);
+
+      // Store categoryId before clearing form to use for fetching products
+      const createdCategoryId = categoryId;
+
+      // Show success toast
+      toast.success(`Product ${editingProductId ? "updated" : "created"} successfully!`, {
+        duration: 3000,
+        position: "bottom-right",
+      });
+      
+      setSuccess(`Product ${editingProductId ? "updated" : "created"} successfully!`);
+      setSelectedType("");
+      setFilteredCategoriesByType([]);
+      setSelectedCategoryPath([]);
+      setCategoryChildrenMap({});
       setProductForm({
         name: "",
         description: "",
@@ -4421,10 +4918,10 @@ const AdminDashboard: React.FC = () => {
         category: "",
         subcategory: "",
         image: null,
-      options: "",
-      filters: {
-        printingOption: [],
-        orderQuantity: { 
+        options: "",
+        filters: {
+          printingOption: [],
+          orderQuantity: { 
           min: 1000, 
           max: 72000, 
           multiples: 1000,
@@ -4432,1734 +4929,2202 @@ const AdminDashboard: React.FC = () => {
           stepWiseQuantities: [],
           rangeWiseQuantities: []
         },
-        deliverySpeed: [] as string[],
-        textureType: [] as string[],
-      },
-      maxFileSizeMB: "",
-      blockCDRandJPG: false,
-      additionalDesignCharge: "",
-      gstPercentage: "",
-      instructions: "",
-      quantityDiscounts: [],
-      minFileWidth: "",
-      maxFileWidth: "",
-      minFileHeight: "",
-      maxFileHeight: "",
-      productionSequence: [] as string[],
-      showPriceIncludingGst: false,
-    });
-    setOptionsTable([]);
-    setPrintingOptionsTable([]);
-    setDeliverySpeedTable([]);
-    setTextureTypeTable([]);
-    setSubcategoryProducts([]);
-    setCategoryForm({
-      name: "",
-      description: "",
-      type: "Digital",
-      parent: "",
-      sortOrder: 0,
-      slug: "",
-      image: null,
-    });
-    setIsSlugManuallyEdited(false);
-    setSubCategoryForm({
-      name: "",
-      description: "",
-      category: "",
-      type: "",
-      slug: "",
-      sortOrder: 0,
-      image: null,
-    });
-    setIsSubCategorySlugManuallyEdited(false);
-    setEditingSubCategoryImage(null);
-  };
-
-  const handleDeleteProduct = async (productId: string) => {
-    if (!window.confirm("Are you sure you want to delete this product?")) {
-      return;
+          deliverySpeed: [],
+          textureType: [],
+        },
+        quantityDiscounts: [],
+        maxFileSizeMB: "",
+        minFileWidth: "",
+        maxFileWidth: "",
+        minFileHeight: "",
+        maxFileHeight: "",
+        blockCDRandJPG: false,
+        additionalDesignCharge: "",
+        gstPercentage: "",
+        hsnCode: "",
+        shippingWeightPer1000: "",
+        customSize: emptyCustomSizeForm,
+        showPriceIncludingGst: false,
+        instructions: "",
+        productionSequence: [] as string[],
+      });
+      setOptionsTable([]);
+      setFilterPricesEnabled(false);
+      setPrintingOptionsTable([]);
+      setDeliverySpeedTable([]);
+      setTextureTypeTable([]);
+      setSelectedAttributeTypes([]);
+      setSubcategoryProducts([]);
+      setEditingProductId(null);
+      setFieldErrors({}); // Clear field errors on success
+      
+      // Refresh products list using the category route based on the category ID used to create the product
+      if (createdCategoryId) {
+        fetchProducts(createdCategoryId);
+      } else {
+        fetchProducts();
+      }
+      
+      // If viewing a category, refresh its products
+      if (selectedCategory) {
+        handleCategoryClick(typeof selectedCategory === 'string' ? selectedCategory : selectedCategory._id);
+      }
+      
+      // If viewing a subcategory, refresh its products
+      if (selectedSubCategoryForView) {
+        handleSubCategoryClick(selectedSubCategoryForView);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${editingProductId ? "update" : "create"} product`);
+    } finally {
+      setLoading(false);
     }
+  };
 
-    setLoading(true);
-    setError(null);
-    setSuccess(null);
-
+  const handleEditProduct = async (productId: string) => {
     try {
+      setLoading(true);
       const response = await fetch(`${API_BASE_URL}/products/${productId}`, {
-        method: "DELETE",
+        method: "GET",
         headers: getAuthHeaders(),
       });
 
       if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.error || `Failed to delete product: ${response.status} ${response.statusText}`);
+        throw new Error(`Failed to fetch product: ${response.status} ${response.statusText}`);
       }
 
-      await handleNgrokResponse(response);
+      const product = await handleNgrokResponse(response);
 
-      setSuccess("Product deleted successfully!");
-      fetchProducts();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete product");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleCategorySubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-    setSuccess(null);
-
-    try {
-      setCategoryFormErrors({});
-      let hasErrors = false;
-      const errors: typeof categoryFormErrors = {};
+      // Convert descriptionArray back to text format for editing
+      const descriptionText = product.descriptionArray && Array.isArray(product.descriptionArray) 
+        ? product.descriptionArray.join('\n')
+        : product.description || "";
 
-      if (!categoryForm.name || categoryForm.name.trim() === "") {
-        errors.name = "Category name is required";
-        hasErrors = true;
+      // Determine category and type from product
+      // If subcategory exists, get category from subcategory, otherwise use product.category
+      let categoryId = "";
+      let productType = "";
+      
+      if (product.subcategory) {
+        const subcategoryObj = typeof product.subcategory === "object" && product.subcategory !== null 
+          ? product.subcategory 
+          : null;
+        if (subcategoryObj && subcategoryObj.category) {
+          const categoryObj = typeof subcategoryObj.category === "object" && subcategoryObj.category !== null
+            ? subcategoryObj.category 
+            : null;
+          categoryId = categoryObj ? categoryObj._id : (subcategoryObj.category || "");
+          productType = categoryObj ? categoryObj.type : "";
+        }
       }
-
-      if (hasErrors) {
-        setCategoryFormErrors(errors);
-        setError("Please fix the errors below");
-        setLoading(false);
-        const firstErrorField = Object.keys(errors)[0];
-        if (firstErrorField === 'name') scrollToInvalidField("name", "category-name");
-        return;
+      
+      // If no category from subcategory, use product.category
+      if (!categoryId) {
+        const categoryObj = typeof product.category === "object" && product.category !== null
+          ? product.category 
+          : null;
+        categoryId = categoryObj ? categoryObj._id : (product.category || "");
+        productType = categoryObj ? categoryObj.type : "";
       }
-
-      // If parent is selected, this should be saved as a subcategory
-      if (categoryForm.parent) {
-        // Validate parent category is selected
-        if (!categoryForm.parent) {
-          setError("Parent category is required for subcategory.");
-          setLoading(false);
-          return;
-        }
-
-        // Image is required when creating subcategory (not when updating)
-        if (!editingCategoryId && !categoryForm.image) {
-          errors.image = "Subcategory image is required. Please upload an image";
-          hasErrors = true;
-        }
-
-        if (hasErrors) {
-          setCategoryFormErrors(errors);
-          setError("Please fix the errors below");
-          setLoading(false);
-          const firstErrorField = Object.keys(errors)[0];
-          if (firstErrorField === 'image') scrollToInvalidField("image", "category-image");
-          return;
-        }
-
-        // Validate image file type and size if image is provided
-        if (categoryForm.image) {
-          const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-          if (!allowedTypes.includes(categoryForm.image.type)) {
-            setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
-            setLoading(false);
-            return;
-          }
-          // Validate file size (max 5MB)
-          const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-          if (categoryForm.image.size > maxSize) {
-            setError("Image size must be less than 5MB. Please compress the image and try again.");
-            setLoading(false);
-            return;
-          }
-        }
-
-        // Create/update subcategory
-        const formData = new FormData();
-        formData.append("name", categoryForm.name.trim());
-        formData.append("description", categoryForm.description || "");
-        formData.append("category", categoryForm.parent); // parent becomes category in subcategory model
-        // Add sort order
-        formData.append("sortOrder", categoryForm.sortOrder.toString());
-        // Add slug - use provided slug or auto-generate unique slug from name
-        const baseSlug = categoryForm.slug || (categoryForm.name ? categoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
-        const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, editingCategoryId, null) : '';
-        if (slugToSend) {
-          formData.append("slug", slugToSend.trim());
-        }
-        if (categoryForm.image) {
-          formData.append("image", categoryForm.image);
-        }
-
-        const url = editingCategoryId
-          ? `${API_BASE_URL}/subcategories/${editingCategoryId}`
-          : `${API_BASE_URL}/subcategories`;
-        const method = editingCategoryId ? "PUT" : "POST";
-
-        const response = await fetch(url, {
-          method,
-          headers: {
-            ...getAuthHeaders(),
+      
+      // Set type first, then category (this will trigger filtering)
+      setSelectedType(productType);
+      
+      // Filter categories by type for the dropdown
+      if (productType) {
+        const filtered = categories.filter(cat => cat.type === productType && !cat.parent);
+        setFilteredCategoriesByType(filtered);
+      } else {
+        setFilteredCategoriesByType([]);
+      }
+      
+      // Set category
+      setProductForm({
+        name: product.name || "",
+        description: descriptionText,
+        descriptionArray: product.descriptionArray || [],
+        basePrice: product.basePrice?.toString() || "",
+        category: categoryId || "",
+        subcategory: product.subcategory && typeof product.subcategory === "object" && product.subcategory._id 
+          ? product.subcategory._id 
+          : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" && product.subcategory !== "" ? String(product.subcategory) : ""),
+        image: null,
+        options: "",
+        filters: {
+          ...(product.filters || {}),
+          printingOption: product.filters?.printingOption || [],
+          orderQuantity: {
+            min: product.filters?.orderQuantity?.min || 1000,
+            max: product.filters?.orderQuantity?.max || 72000,
+            multiples: product.filters?.orderQuantity?.multiples || 1000,
+            quantityType: product.filters?.orderQuantity?.quantityType || "SIMPLE",
+            stepWiseQuantities: product.filters?.orderQuantity?.stepWiseQuantities || [],
+            rangeWiseQuantities: product.filters?.orderQuantity?.rangeWiseQuantities || [],
           },
-          body: formData,
-        });
-
-        // Use handleNgrokResponse which handles both success and error cases
-        // This prevents reading the response body multiple times
-        const data = await handleNgrokResponse(response);
+          deliverySpeed: product.filters?.deliverySpeed || [],
+          textureType: product.filters?.textureType || [],
+        },
+        quantityDiscounts: product.quantityDiscounts && Array.isArray(product.quantityDiscounts) 
+          ? product.quantityDiscounts.map((qd: any) => ({
+              minQuantity: qd.minQuantity || 0,
+              maxQuantity: qd.maxQuantity || null,
+              discountPercentage: qd.discountPercentage || 0,
+            }))
+          : [],
+        maxFileSizeMB: product.maxFileSizeMB?.toString() || "",
+        minFileWidth: product.minFileWidth?.toString() || "",
+        maxFileWidth: product.maxFileWidth?.toString() || "",
+        minFileHeight: product.minFileHeight?.toString() || "",
+        maxFileHeight: product.maxFileHeight?.toString() || "",
+        blockCDRandJPG: product.blockCDRandJPG || false,
+        additionalDesignCharge: product.additionalDesignCharge?.toString() || "",
+        gstPercentage: product.gstPercentage?.toString() || "",
+        hsnCode: product.hsnCode || "",
+        shippingWeightPer1000: product.shippingWeightPer1000 ? product.shippingWeightPer1000.toString() : "",
+        customSize: product.customSize?.enabled
+          ? {
+              enabled: true,
+              unit: product.customSize.unit || "INCH",
+              minWidth: product.customSize.minWidth?.toString() || "",
+              maxWidth: product.customSize.maxWidth?.toString() || "",
+              minHeight: product.customSize.minHeight?.toString() || "",
+              maxHeight: product.customSize.maxHeight?.toString() || "",
+              areaRates: (product.customSize.areaRates || []).map((tier: any) => ({
+                minQuantity: tier.minQuantity?.toString() || "",
+                maxQuantity: tier.maxQuantity?.toString() || "",
+                ratePerUnitArea: tier.ratePerUnitArea?.toString() || "",
+              })),
+              wastageRules: (product.customSize.wastageRules || []).map((rule: any) => ({
+                minArea: rule.minArea?.toString() || "",
+                maxArea: rule.maxArea?.toString() || "",
+                wastagePercentage: rule.wastagePercentage?.toString() || "",
+              })),
+            }
+          : emptyCustomSizeForm,
+        showPriceIncludingGst: product.showPriceIncludingGst || false,
+        instructions: product.instructions || "",
+        productionSequence: product.productionSequence && Array.isArray(product.productionSequence)
+          ? product.productionSequence
+              .filter((dept: any) => dept !== null && dept !== undefined) // Filter out null/undefined departments
+              .map((dept: any) => typeof dept === 'object' && dept !== null ? (dept._id || "") : (dept || ""))
+              .filter((id: string) => id) // Filter out empty IDs
+          : [],
+      });
 
-        setSuccess(`Subcategory ${editingCategoryId ? "updated" : "created"} successfully!`);
-        setCategoryForm({
-          name: "",
-          description: "",
-          type: "Digital",
-          parent: "",
-          sortOrder: 0,
-          slug: "",
-          image: null,
-        });
-        setIsSlugManuallyEdited(false);
-        setEditingCategoryId(null);
-        setEditingCategoryImage(null);
-        fetchCategories();
-        fetchSubCategories(); // Refresh subcategories
-        fetchAvailableParentCategories(); // Refresh available parents
+      if (product.options && Array.isArray(product.options) && product.options.length > 0) {
+        // Older options have no declared charge basis - show the basis they were being priced with
+        setOptionsTable(product.options.map((opt: any) => ({
+          ...opt,
+          pricingMode: opt.pricingMode || (parseFloat(opt.priceAdd) < 10 ? "PER_UNIT" : "FLAT"),
+        })));
       } else {
-        // No parent selected - create/update as regular category
-        if (!categoryForm.type) {
-          errors.type = "Category type is required";
-          hasErrors = true;
-        }
+        setOptionsTable([]);
+      }
 
-        // Image is required when creating (not when updating)
-        if (!editingCategoryId && !categoryForm.image) {
-          errors.image = "Category image is required. Please upload an image";
-          hasErrors = true;
+      // Set filter prices enabled state
+      setFilterPricesEnabled(product.filters?.filterPricesEnabled || false);
+      
+      // Set filter tables from product data - Printing options are now handled via attributes
+      setPrintingOptionsTable([]); // Printing options should be configured as attributes
+      
+      const deliverySpeeds = product.filters?.deliverySpeed || [];
+      const deliveryPrices = product.filters?.deliverySpeedPrices || [];
+      setDeliverySpeedTable(deliverySpeeds.map((opt: string | any, idx: number) => {
+        if (typeof opt === 'string') {
+          const priceData = deliveryPrices.find((p: any) => p.name === opt);
+          return { name: opt, priceAdd: priceData?.priceAdd };
         }
-
-        if (hasErrors) {
-          setCategoryFormErrors(errors);
-          setError("Please fix the errors below");
-          setLoading(false);
-          const firstErrorField = Object.keys(errors)[0];
-          if (firstErrorField === 'type') scrollToInvalidField("type", "category-type");
-          else if (firstErrorField === 'image') scrollToInvalidField("image", "category-image");
-          return;
+        return opt;
+      }));
+      
+      const textureTypes = product.filters?.textureType || [];
+      const texturePrices = product.filters?.textureTypePrices || [];
+      setTextureTypeTable(textureTypes.map((opt: string | any, idx: number) => {
+        if (typeof opt === 'string') {
+          const priceData = texturePrices.find((p: any) => p.name === opt);
+          return { name: opt, priceAdd: priceData?.priceAdd };
         }
+        return opt;
+      }));
 
-        // Validate image file type and size if image is provided
-        if (categoryForm.image) {
-          const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-          if (!allowedTypes.includes(categoryForm.image.type)) {
-            setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
-            setLoading(false);
-            return;
-          }
-          // Validate file size (max 5MB)
-          const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-          if (categoryForm.image.size > maxSize) {
-            setError("Image size must be less than 5MB. Please compress the image and try again.");
-            setLoading(false);
-            return;
-          }
-        }
+      // Load dynamic attributes if they exist
+      if (product.dynamicAttributes && Array.isArray(product.dynamicAttributes) && product.dynamicAttributes.length > 0) {
+        const loadedAttributes = product.dynamicAttributes
+          .filter((da: any) => da && da.attributeType) // Filter out null/undefined attributes
+          .map((da: any) => {
+            // Handle both populated (object) and unpopulated (string ID) attributeType
+            let attributeTypeId = "";
+            if (typeof da.attributeType === 'object' && da.attributeType !== null) {
+              // Populated attributeType object
+              attributeTypeId = da.attributeType._id || da.attributeType.id || "";
+            } else if (typeof da.attributeType === 'string') {
+              // Unpopulated attributeType ID string
+              attributeTypeId = da.attributeType;
+            }
+            
+            return {
+              attributeTypeId: attributeTypeId,
+              isEnabled: da.isEnabled !== undefined ? da.isEnabled : true,
+              isRequired: da.isRequired !== undefined ? da.isRequired : false,
+              displayOrder: da.displayOrder !== undefined ? da.displayOrder : 0,
+            };
+          })
+          .filter((attr: any) => attr.attributeTypeId && attr.attributeTypeId.trim() !== ""); // Filter out attributes without valid IDs
+        
+        console.log("Loaded attributes for editing:", loadedAttributes);
+        setSelectedAttributeTypes(loadedAttributes);
+      } else {
+        console.log("No dynamic attributes found in product");
+        setSelectedAttributeTypes([]);
+      }
 
-        const formData = new FormData();
-        formData.append("name", categoryForm.name.trim());
-        formData.append("description", categoryForm.description || "");
-        formData.append("type", categoryForm.type);
-        formData.append("parent", ""); // Explicitly set to empty for top-level
-        // Add sort order
-        formData.append("sortOrder", categoryForm.sortOrder.toString());
-        // Add slug - use provided slug or auto-generate unique slug from name
-        const baseSlug = categoryForm.slug || (categoryForm.name ? categoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
-        const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, editingCategoryId, null) : '';
-        if (slugToSend) {
-          formData.append("slug", slugToSend.trim());
+      // Fetch attribute types filtered by product's category/subcategory
+      const productCategoryId = categoryId || null;
+      const productSubCategoryId = product.subcategory && typeof product.subcategory === "object" && product.subcategory._id 
+        ? product.subcategory._id 
+        : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" && product.subcategory !== "" ? String(product.subcategory) : null);
+      await fetchAttributeTypes(productCategoryId, productSubCategoryId);
+
+      // Build category path for hierarchical selection
+      // If subcategory exists, build the path from root category to subcategory
+      const subcategoryId = product.subcategory && typeof product.subcategory === "object" && product.subcategory !== null
+        ? (product.subcategory._id || "")
+        : (product.subcategory && product.subcategory !== null && product.subcategory !== "null" ? String(product.subcategory) : "");
+      
+      // Wait for categories to be loaded, then build path
+      if (categoryId) {
+        // First, fetch children for the root category
+        await fetchCategoryChildren(categoryId);
+        
+        // If subcategory exists and is valid, build path to it
+        if (subcategoryId && subcategoryId.trim() !== "" && subcategoryId !== categoryId && subcategoryId !== "null") {
+          // Wait a bit for children to load, then build path
+          setTimeout(() => {
+            const path = buildCategoryPath(categoryId, subcategoryId);
+            setSelectedCategoryPath(path);
+            
+            // Fetch children for all categories in the path
+            path.forEach(catId => {
+              if (catId !== categoryId) { // Already fetched root
+                fetchCategoryChildren(catId);
+              }
+            });
+          }, 100);
+        } else {
+          // Only root category selected
+          setSelectedCategoryPath([categoryId]);
         }
-        if (categoryForm.image) {
-          formData.append("image", categoryForm.image);
+      } else {
+        setSelectedCategoryPath([]);
+      }
+      
+      // Fetch products for the selected category/subcategory
+      const finalCategoryId = subcategoryId || categoryId;
+      if (finalCategoryId) {
+        try {
+          setLoadingCategoryProducts(true);
+          const productsResponse = await fetch(`${API_BASE_URL}/products/category/${finalCategoryId}`, {
+            headers: getAuthHeaders(),
+          });
+          
+          if (productsResponse.ok) {
+            const productsData = await handleNgrokResponse(productsResponse);
+            setCategoryProducts(productsData || []);
+          }
+        } catch (err) {
+          console.error("Error fetching category products:", err);
+          setCategoryProducts([]);
+        } finally {
+          setLoadingCategoryProducts(false);
         }
-
-        const url = editingCategoryId
-          ? `${API_BASE_URL}/categories/${editingCategoryId}`
-          : `${API_BASE_URL}/categories`;
-        const method = editingCategoryId ? "PUT" : "POST";
-
-        const response = await fetch(url, {
-          method,
-          headers: {
-            ...getAuthHeaders(),
-          },
-          body: formData,
-        });
-
-        // Use handleNgrokResponse which handles both success and error cases
-        // This prevents reading the response body multiple times
-        const data = await handleNgrokResponse(response);
-
-        setSuccess(`Category ${editingCategoryId ? "updated" : "created"} successfully!`);
-        setCategoryForm({
-          name: "",
-          description: "",
-          type: "Digital",
-          parent: "",
-          sortOrder: 0,
-          slug: "",
-          image: null,
-        });
-        setIsSlugManuallyEdited(false);
-        setEditingCategoryId(null);
-        setEditingCategoryImage(null);
-        fetchCategories();
-        fetchAvailableParentCategories(); // Refresh available parents
       }
+
+      setEditingProductId(productId);
+      // Reset sequence selection states
+      setSelectedSequenceId(null);
+      setIsCustomizingSequence(false);
+      setActiveTab("products");
+      setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : `Failed to ${editingCategoryId ? "update" : "create"} ${categoryForm.parent ? "subcategory" : "category"}`);
+      setError(err instanceof Error ? err.message : "Failed to load product");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSubCategorySubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-    setSuccess(null);
-
+  const handleEditCategory = async (categoryId: string) => {
     try {
-      setSubCategoryFormErrors({});
-      let hasErrors = false;
-      const errors: typeof subCategoryFormErrors = {};
+      setLoading(true);
+      
+      // First, try to fetch from categories
+      let category = null;
+      let isSubcategory = false;
+      
+      try {
+        const response = await fetch(`${API_BASE_URL}/categories/${categoryId}`, {
+          method: "GET",
+          headers: getAuthHeaders(),
+        });
 
-      if (!subCategoryForm.name || subCategoryForm.name.trim() === "") {
-        errors.name = "Subcategory name is required";
-        hasErrors = true;
+        if (response.ok) {
+          category = await handleNgrokResponse(response);
+          // Check if it has a parent - if so, it might be in SubCategory collection
+          if (category && category.parent) {
+            // Try to fetch from subcategories as well
+            try {
+              const subcatResponse = await fetch(`${API_BASE_URL}/subcategories/${categoryId}`, {
+                method: "GET",
+                headers: getAuthHeaders(),
+              });
+              if (subcatResponse.ok) {
+                const subcategory = await handleNgrokResponse(subcatResponse);
+                // If found in subcategories, use that instead
+                category = subcategory;
+                isSubcategory = true;
+              }
+            } catch (subcatErr) {
+              // Not found in subcategories, use category data
+            }
+          }
+        }
+      } catch (catErr) {
+        // Category not found, try subcategory
+        try {
+          const subcatResponse = await fetch(`${API_BASE_URL}/subcategories/${categoryId}`, {
+            method: "GET",
+            headers: getAuthHeaders(),
+          });
+          if (subcatResponse.ok) {
+            category = await handleNgrokResponse(subcatResponse);
+            isSubcategory = true;
+          } else {
+            throw new Error(`Failed to fetch category: ${subcatResponse.status} ${subcatResponse.statusText}`);
+          }
+        } catch (subcatErr) {
+          throw new Error(`Failed to fetch category or subcategory`);
+        }
       }
 
-      if (!subCategoryForm.category || subCategoryForm.category === "pending") {
-        errors.category = "Parent category is required";
-        hasErrors = true;
+      if (!category) {
+        throw new Error("Category not found");
       }
 
-      // Image is required when creating (not when updating)
-      if (!editingSubCategoryId && !subCategoryForm.image) {
-        errors.image = "Subcategory image is required. Please upload an image";
-        hasErrors = true;
-      }
+      // Auto-generate slug if not present - always ensure slug is set
+      const categorySlug = category.slug || (category.name ? category.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : "");
 
-      if (hasErrors) {
-        setSubCategoryFormErrors(errors);
-        setError("Please fix the errors below");
-        setLoading(false);
-        const firstErrorField = Object.keys(errors)[0];
-        if (firstErrorField === 'name') scrollToInvalidField("name", "subcategory-name");
-        else if (firstErrorField === 'category') scrollToInvalidField("category", "subcategory-category");
-        else if (firstErrorField === 'image') scrollToInvalidField("image", "subcategory-image");
-        return;
-      }
+      // If it's a subcategory, map category field to parent
+      const parentId = isSubcategory 
+        ? (category.category ? (typeof category.category === 'object' ? category.category._id : category.category) : "")
+        : (category.parent ? (typeof category.parent === 'object' ? category.parent._id : category.parent) : "");
 
-      // Validate image file type and size if image is provided
-      if (subCategoryForm.image) {
-        const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-        if (!allowedTypes.includes(subCategoryForm.image.type)) {
-          setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
-          setLoading(false);
-          return;
-        }
-        // Validate file size (max 5MB)
-        const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-        if (subCategoryForm.image.size > maxSize) {
-          setError("Image size must be less than 5MB. Please compress the image and try again.");
-          setLoading(false);
-          return;
-        }
-      }
-
-      const formData = new FormData();
-      formData.append("name", subCategoryForm.name.trim());
-      formData.append("description", subCategoryForm.description || "");
-      formData.append("category", subCategoryForm.category);
-      formData.append("sortOrder", subCategoryForm.sortOrder.toString());
-      // Add slug - use provided slug or auto-generate unique slug from name
-      const baseSlug = subCategoryForm.slug || (subCategoryForm.name ? subCategoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
-      const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, null, editingSubCategoryId) : '';
-      if (slugToSend) {
-        formData.append("slug", slugToSend.trim());
-      }
-      if (subCategoryForm.image) {
-        formData.append("image", subCategoryForm.image);
-      }
-
-      const url = editingSubCategoryId
-        ? `${API_BASE_URL}/subcategories/${editingSubCategoryId}`
-        : `${API_BASE_URL}/subcategories`;
-      const method = editingSubCategoryId ? "PUT" : "POST";
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          ...getAuthHeaders(),
-        },
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.error || `Failed to ${editingSubCategoryId ? "update" : "create"} subcategory: ${response.status} ${response.statusText}`);
-      }
-
-      await handleNgrokResponse(response);
-
-      setSuccess(`Subcategory ${editingSubCategoryId ? "updated" : "created"} successfully!`);
-      
-      // If we were viewing a category, refresh its subcategories
-      if (selectedCategory) {
-        await handleCategoryClick(selectedCategory);
-      }
-      
-      setSubCategoryForm({
-        name: "",
-        description: "",
-        category: "",
-        type: "",
-        slug: "",
-        sortOrder: 0,
-        image: null,
-      });
-      setIsSubCategorySlugManuallyEdited(false);
-      setEditingSubCategoryId(null);
-      setEditingSubCategoryImage(null);
-      fetchSubCategories();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : `Failed to ${editingSubCategoryId ? "update" : "create"} subcategory`);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleEditSubCategory = async (subCategoryId: string) => {
-    try {
-      setLoading(true);
-      const response = await fetch(`${API_BASE_URL}/subcategories/${subCategoryId}`, {
-        method: "GET",
-        headers: getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch subcategory: ${response.status} ${response.statusText}`);
-      }
-
-      const subCategory = await handleNgrokResponse(response);
-
-      // Get type from parent category
-      const parentCategory = typeof subCategory.category === "object" 
-        ? subCategory.category 
-        : categories.find(c => c._id === subCategory.category);
-      const categoryType = parentCategory?.type || "";
-
-      // Auto-generate slug if not present - always ensure slug is set
-      const subCategorySlug = subCategory.slug || (subCategory.name ? subCategory.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : "");
-
-      setSubCategoryForm({
-        name: subCategory.name || "",
-        description: subCategory.description || "",
-        category: typeof subCategory.category === "object" ? subCategory.category._id : subCategory.category || "",
-        type: categoryType,
-        slug: subCategorySlug, // Always set slug, even if auto-generated
-        sortOrder: subCategory.sortOrder || 0,
+      setCategoryForm({
+        name: category.name || "",
+        description: category.description || "",
+        type: isSubcategory ? (category.category && typeof category.category === 'object' ? category.category.type : "Digital") : (category.type || "Digital"),
+        parent: parentId,
+        sortOrder: category.sortOrder || 0,
+        slug: categorySlug, // Always set slug, even if auto-generated
         image: null,
       });
-      setIsSubCategorySlugManuallyEdited(!!subCategory.slug); // If subcategory has a slug, consider it manually set
+      setIsSlugManuallyEdited(!!category.slug); // If category has a slug, consider it manually set
 
-      setEditingSubCategoryId(subCategoryId);
-      setEditingSubCategoryImage(subCategory.image || null);
-      // Switch to categories tab to show the edit form
+      setEditingCategoryId(categoryId);
+      setEditingCategoryImage(category.image || null);
       setActiveTab("categories");
       setError(null);
+      
+      // Fetch available parent categories (excluding current category and its descendants)
+      fetchAvailableParentCategories(categoryId);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load subcategory");
+      setError(err instanceof Error ? err.message : "Failed to load category");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDeleteSubCategory = async (subCategoryId: string) => {
-    const subCategory = subCategories.find(sc => sc._id === subCategoryId);
-    if (!subCategory) return;
-
-    // Check for products under this subcategory
-    try {
-      const productsResponse = await fetch(`${API_BASE_URL}/products/subcategory/${subCategoryId}`, {
-        headers: getAuthHeaders(),
-      });
-      
-      let productCount = 0;
-      if (productsResponse.ok) {
-        const productsData = await handleNgrokResponse(productsResponse);
-        productCount = Array.isArray(productsData) ? productsData.length : 0;
-      }
-
-      // Open confirmation modal
-      setDeleteConfirmModal({
-        isOpen: true,
-        type: 'subcategory',
-        id: subCategoryId,
-        name: subCategory.name,
-        productCount,
-        subcategoryCount: 0,
-        deleteText: '',
-      });
-    } catch (err) {
-      console.error("Error checking products:", err);
-      // Still open modal, but with 0 product count
-      setDeleteConfirmModal({
-        isOpen: true,
-        type: 'subcategory',
-        id: subCategoryId,
-        name: subCategory.name,
-        productCount: 0,
-        subcategoryCount: 0,
-        deleteText: '',
-      });
-    }
+  const handleCancelEdit = () => {
+    setEditingProductId(null);
+    setEditingCategoryId(null);
+    setEditingCategoryImage(null);
+    setEditingSubCategoryId(null);
+    setSelectedType("");
+    setFilteredCategoriesByType([]);
+    setFilteredSubCategories([]);
+      setProductForm({
+        name: "",
+        description: "",
+        descriptionArray: [],
+        basePrice: "",
+        category: "",
+        subcategory: "",
+        image: null,
+      options: "",
+      filters: {
+        printingOption: [],
+        orderQuantity: { 
+          min: 1000, 
+          max: 72000, 
+          multiples: 1000,
+          quantityType: "SIMPLE" as "SIMPLE" | "STEP_WISE" | "RANGE_WISE",
+          stepWiseQuantities: [],
+          rangeWiseQuantities: []
+        },
+        deliverySpeed: [] as string[],
+        textureType: [] as string[],
+      },
+      maxFileSizeMB: "",
+      blockCDRandJPG: false,
+      additionalDesignCharge: "",
+      gstPercentage: "",
+      hsnCode: "",
+      shippingWeightPer1000: "",
+      customSize: emptyCustomSizeForm,
+      instructions: "",
+      quantityDiscounts: [],
+      minFileWidth: "",
+      maxFileWidth: "",
+      minFileHeight: "",
+      maxFileHeight: "",
+      productionSequence: [] as string[],
+      showPriceIncludingGst: false,
+    });
+    setOptionsTable([]);
+    setPrintingOptionsTable([]);
+    setDeliverySpeedTable([]);
+    setTextureTypeTable([]);
+    setSubcategoryProducts([]);
+    setCategoryForm({
+      name: "",
+      description: "",
+      type: "Digital",
+      parent: "",
+      sortOrder: 0,
+      slug: "",
+      image: null,
+    });
+    setIsSlugManuallyEdited(false);
+    setSubCategoryForm({
+      name: "",
+      description: "",
+      category: "",
+      type: "",
+      slug: "",
+      sortOrder: 0,
+      image: null,
+    });
+    setIsSubCategorySlugManuallyEdited(false);
+    setEditingSubCategoryImage(null);
   };
 
-  const confirmDeleteSubCategory = async () => {
-    if (deleteConfirmModal.deleteText.toLowerCase() !== 'delete') {
-      setError('Please type "delete" to confirm');
+  const handleDeleteProduct = async (productId: string) => {
+    if (!window.confirm("Are you sure you want to delete this product?")) {
       return;
     }
 
     setLoading(true);
     setError(null);
     setSuccess(null);
-    setDeleteConfirmModal({ ...deleteConfirmModal, isOpen: false });
 
     try {
-      const response = await fetch(`${API_BASE_URL}/subcategories/${deleteConfirmModal.id}`, {
+      const response = await fetch(`${API_BASE_URL}/products/${productId}`, {
         method: "DELETE",
         headers: getAuthHeaders(),
       });
 
       if (!response.ok) {
         const errorData = await handleNgrokResponse(response);
-        const errorMessage = errorData.error || `Failed to delete subcategory: ${response.status} ${response.statusText}`;
-        setError(errorMessage);
-        setLoading(false);
-        return;
+        throw new Error(errorData.error || `Failed to delete product: ${response.status} ${response.statusText}`);
       }
 
       await handleNgrokResponse(response);
 
-      setSuccess("Subcategory deleted successfully!");
-      fetchSubCategories();
-      // Refresh category subcategories if viewing them
-      if (selectedCategory) {
-        handleCategoryClick(selectedCategory);
-      }
-      // Clear selection if deleted subcategory was selected
-      if (selectedSubCategoryForView === deleteConfirmModal.id) {
-        setSelectedSubCategoryForView(null);
-        setCategoryProducts([]);
-      }
+      setSuccess("Product deleted successfully!");
+      fetchProducts();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete subcategory");
+      setError(err instanceof Error ? err.message : "Failed to delete product");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDeleteCategory = async (categoryId: string) => {
-    const category = categories.find(c => c._id === categoryId);
-    if (!category) return;
-
-    try {
-      // First check for child categories (subcategories) - if category has subcategories, prevent deletion
-      const childCategoriesResponse = await fetch(`${API_BASE_URL}/subcategories/category/${categoryId}`, {
-        headers: getAuthHeaders(),
-      });
-      
-      let childCategoryCount = 0;
-      let childCategories: any[] = [];
-      
-      if (childCategoriesResponse.ok) {
-        const childCategoriesData = await handleNgrokResponse(childCategoriesResponse);
-        childCategories = Array.isArray(childCategoriesData) ? childCategoriesData : (childCategoriesData?.data || []);
-        childCategoryCount = childCategories.length;
-      } else {
-        // Try fallback to old endpoint for backward compatibility
-        try {
-          const fallbackResponse = await fetch(`${API_BASE_URL}/categories/parent/${categoryId}`, {
-            headers: getAuthHeaders(),
-          });
-          
-          if (fallbackResponse.ok) {
-            const fallbackData = await handleNgrokResponse(fallbackResponse);
-            childCategories = Array.isArray(fallbackData) ? fallbackData : (fallbackData?.data || []);
-            childCategoryCount = childCategories.length;
-          }
-        } catch (fallbackErr) {
-          // Ignore fallback errors
-        }
-      }
-
-      // If category has child categories, block deletion
-      if (childCategoryCount > 0) {
-        setError(`Cannot delete category "${category.name}". It has ${childCategoryCount} child categor${childCategoryCount === 1 ? 'y' : 'ies'}. Please delete or reassign all child categories first.`);
-        return;
-      }
-
-      // Check for products under this category
-      const productsResponse = await fetch(`${API_BASE_URL}/products/category/${categoryId}`, {
-        headers: getAuthHeaders(),
-      });
-      
-      let productCount = 0;
-      if (productsResponse.ok) {
-        const productsData = await handleNgrokResponse(productsResponse);
-        productCount = Array.isArray(productsData) ? productsData.length : 0;
-      }
-
-      // Open confirmation modal
-      setDeleteConfirmModal({
-        isOpen: true,
-        type: 'category',
-        id: categoryId,
-        name: category.name,
-        productCount,
-        subcategoryCount: childCategoryCount,
-        deleteText: '',
-      });
-    } catch (err) {
-      console.error("Error checking category dependencies:", err);
-      setError("Failed to check category dependencies. Please try again.");
-    }
-  };
-
-  const confirmDeleteCategory = async () => {
-    if (deleteConfirmModal.deleteText.toLowerCase() !== 'delete') {
-      setError('Please type "delete" to confirm');
-      return;
-    }
-
+  const handleCategorySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
     setLoading(true);
     setError(null);
     setSuccess(null);
-    setDeleteConfirmModal({ ...deleteConfirmModal, isOpen: false });
 
     try {
-      const response = await fetch(`${API_BASE_URL}/categories/${deleteConfirmModal.id}`, {
-        method: "DELETE",
-        headers: getAuthHeaders(),
-      });
+      setCategoryFormErrors({});
+      let hasErrors = false;
+      const errors: typeof categoryFormErrors = {};
 
-      if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        const errorMessage = errorData.error || `Failed to delete category: ${response.status} ${response.statusText}`;
-        setError(errorMessage);
-        setLoading(false);
-        return;
+      if (!categoryForm.name || categoryForm.name.trim() === "") {
+        errors.name = "Category name is required";
+        hasErrors = true;
       }
 
-      await handleNgrokResponse(response);
-
-      setSuccess("Category deleted successfully!");
-      fetchCategories();
-      // Clear selection if deleted category was selected
-      if (selectedCategory === deleteConfirmModal.id) {
-        setSelectedCategory(null);
-        setCategorySubcategories([]);
+      if (hasErrors) {
+        setCategoryFormErrors(errors);
+        setError("Please fix the errors below");
+        setLoading(false);
+        const firstErrorField = Object.keys(errors)[0];
+        if (firstErrorField === 'name') scrollToInvalidField("name", "category-name");
+        return;
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete category");
-    } finally {
-      setLoading(false);
-    }
-  };
 
-  const handleUpdateUserRole = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-    setSuccess(null);
+      // If parent is selected, this should be saved as a subcategory
+      if (categoryForm.parent) {
+        // Validate parent category is selected
+        if (!categoryForm.parent) {
+          setError("Parent category is required for subcategory.");
+          setLoading(false);
+          return;
+        }
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/admin/update-user-role`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify({
-          username: userRoleForm.username,
-          role: userRoleForm.role,
-        }),
-      });
+        // Image is required when creating subcategory (not when updating)
+        if (!editingCategoryId && !categoryForm.image) {
+          errors.image = "Subcategory image is required. Please upload an image";
+          hasErrors = true;
+        }
 
-      if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.message || errorData.error || `Failed to update user role: ${response.status} ${response.statusText}`);
-      }
+        if (hasErrors) {
+          setCategoryFormErrors(errors);
+          setError("Please fix the errors below");
+          setLoading(false);
+          const firstErrorField = Object.keys(errors)[0];
+          if (firstErrorField === 'image') scrollToInvalidField("image", "category-image");
+          return;
+        }
 
-      await handleNgrokResponse(response);
+        // Validate image file type and size if image is provided
+        if (categoryForm.image) {
+          const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+          if (!allowedTypes.includes(categoryForm.image.type)) {
+            setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
+            setLoading(false);
+            return;
+          }
+          // Validate file size (max 5MB)
+          const maxSize = 5 * 1024 * 1024; // 5MB in bytes
+          if (categoryForm.image.size > maxSize) {
+            setError("Image size must be less than 5MB. Please compress the image and try again.");
+            setLoading(false);
+            return;
+          }
+        }
 
-      setSuccess(`User role updated to ${userRoleForm.role} successfully!`);
-      setUserRoleForm({
-        username: "",
-        role: "user",
-      });
-      fetchUsers();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to update user role");
-    } finally {
-      setLoading(false);
-    }
-  };
+        // Create/update subcategory
+        const formData = new FormData();
+        formData.append("name", categoryForm.name.trim());
+        formData.append("description", categoryForm.description || "");
+        formData.append("category", categoryForm.parent); // parent becomes category in subcategory model
+        // Add sort order
+        formData.append("sortOrder", categoryForm.sortOrder.toString());
+        // Add slug - use provided slug or auto-generate unique slug from name
+        const baseSlug = categoryForm.slug || (categoryForm.name ? categoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
+        const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, editingCategoryId, null) : '';
+        if (slugToSend) {
+          formData.append("slug", slugToSend.trim());
+        }
+        if (categoryForm.image) {
+          formData.append("image", categoryForm.image);
+        }
 
-  const handleDeleteUpload = async (uploadId: string) => {
-    if (!window.confirm("Are you sure you want to delete this uploaded image?")) {
-      return;
-    }
+        const url = editingCategoryId
+          ? `${API_BASE_URL}/subcategories/${editingCategoryId}`
+          : `${API_BASE_URL}/subcategories`;
+        const method = editingCategoryId ? "PUT" : "POST";
 
-    setLoading(true);
-    setError(null);
-    setSuccess(null);
+        const response = await fetch(url, {
+          method,
+          headers: {
+            ...getAuthHeaders(),
+          },
+          body: formData,
+        });
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/admin/uploads/${uploadId}`, {
-        method: "DELETE",
-        headers: getAuthHeaders(),
-      });
+        // Use handleNgrokResponse which handles both success and error cases
+        // This prevents reading the response body multiple times
+        const data = await handleNgrokResponse(response);
 
-      if (!response.ok) {
-        const errorData = await handleNgrokResponse(response);
-        throw new Error(errorData.error || `Failed to delete upload: ${response.status} ${response.statusText}`);
-      }
+        setSuccess(`Subcategory ${editingCategoryId ? "updated" : "created"} successfully!`);
+        setCategoryForm({
+          name: "",
+          description: "",
+          type: "Digital",
+          parent: "",
+          sortOrder: 0,
+          slug: "",
+          image: null,
+        });
+        setIsSlugManuallyEdited(false);
+        setEditingCategoryId(null);
+        setEditingCategoryImage(null);
+        fetchCategories();
+        fetchSubCategories(); // Refresh subcategories
+        fetchAvailableParentCategories(); // Refresh available parents
+      } else {
+        // No parent selected - create/update as regular category
+        if (!categoryForm.type) {
+          errors.type = "Category type is required";
+          hasErrors = true;
+        }
 
-      await handleNgrokResponse(response);
+        // Image is required when creating (not when updating)
+        if (!editingCategoryId && !categoryForm.image) {
+          errors.image = "Category image is required. Please upload an image";
+          hasErrors = true;
+        }
 
-      setSuccess("Uploaded image deleted successfully!");
-      fetchUploads();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete upload");
+        if (hasErrors) {
+          setCategoryFormErrors(errors);
+          setError("Please fix the errors below");
+          setLoading(false);
+          const firstErrorField = Object.keys(errors)[0];
+          if (firstErrorField === 'type') scrollToInvalidField("type", "category-type");
+          else if (firstErrorField === 'image') scrollToInvalidField("image", "category-image");
+          return;
+        }
+
+        // Validate image file type and size if image is provided
+        if (categoryForm.image) {
+          const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+          if (!allowedTypes.includes(categoryForm.image.type)) {
+            setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
+            setLoading(false);
+            return;
+          }
+          // Validate file size (max 5MB)
+          const maxSize = 5 * 1024 * 1024; // 5MB in bytes
+          if (categoryForm.image.size > maxSize) {
+            setError("Image size must be less than 5MB. Please compress the image and try again.");
+            setLoading(false);
+            return;
+          }
+        }
+
+        const formData = new FormData();
+        formData.append("name", categoryForm.name.trim());
+        formData.append("description", categoryForm.description || "");
+        formData.append("type", categoryForm.type);
+        formData.append("parent", ""); // Explicitly set to empty for top-level
+        // Add sort order
+        formData.append("sortOrder", categoryForm.sortOrder.toString());
+        // Add slug - use provided slug or auto-generate unique slug from name
+        const baseSlug = categoryForm.slug || (categoryForm.name ? categoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
+        const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, editingCategoryId, null) : '';
+        if (slugToSend) {
+          formData.append("slug", slugToSend.trim());
+        }
+        if (categoryForm.image) {
+          formData.append("image", categoryForm.image);
+        }
+
+        const url = editingCategoryId
+          ? `${API_BASE_URL}/categories/${editingCategoryId}`
+          : `${API_BASE_URL}/categories`;
+        const method = editingCategoryId ? "PUT" : "POST";
+
+        const response = await fetch(url, {
+          method,
+          headers: {
+            ...getAuthHeaders(),
+          },
+          body: formData,
+        });
+
+        // Use handleNgrokResponse which handles both success and error cases
+        // This prevents reading the response body multiple times
+        const data = await handleNgrokResponse(response);
+
+        setSuccess(`Category ${editingCategoryId ? "updated" : "created"} successfully!`);
+        setCategoryForm({
+          name: "",
+          description: "",
+          type: "Digital",
+          parent: "",
+          sortOrder: 0,
+          slug: "",
+          image: null,
+        });
+        setIsSlugManuallyEdited(false);
+        setEditingCategoryId(null);
+        setEditingCategoryImage(null);
+        fetchCategories();
+        fetchAvailableParentCategories(); // Refresh available parents
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${editingCategoryId ? "update" : "create"} ${categoryForm.parent ? "subcategory" : "category"}`);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDownloadImage = (imageData: string, filename: string) => {
+  const handleSubCategorySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
     try {
-      // Convert base64 to blob
-      const byteCharacters = atob(imageData.split(",")[1]);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: "image/jpeg" });
+      setSubCategoryFormErrors({});
+      let hasErrors = false;
+      const errors: typeof subCategoryFormErrors = {};
 
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = filename || "image.jpg";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-    } catch (err) {
-      setError("Failed to download image");
-    }
-  };
+      if (!subCategoryForm.name || subCategoryForm.name.trim() === "") {
+        errors.name = "Subcategory name is required";
+        hasErrors = true;
+      }
 
-  const handleAddOptionRow = () => {
-    const newIndex = optionsTable.length;
-    setOptionsTable([
-      ...optionsTable,
-      { name: "", priceAdd: "", description: "", image: "" },
-    ]);
-  };
+      if (!subCategoryForm.category || subCategoryForm.category === "pending") {
+        errors.category = "Parent category is required";
+        hasErrors = true;
+      }
 
-  const handleUpdateOptionRow = (
-    index: number,
-    field: string,
-    value: string | number
-  ) => {
-    const updated = [...optionsTable];
-    updated[index] = { ...updated[index], [field]: value };
-    setOptionsTable(updated);
-  };
+      // Image is required when creating (not when updating)
+      if (!editingSubCategoryId && !subCategoryForm.image) {
+        errors.image = "Subcategory image is required. Please upload an image";
+        hasErrors = true;
+      }
 
-  const handleRemoveOptionRow = (index: number) => {
-    setOptionsTable(optionsTable.filter((_, i) => i !== index));
-  };
+      if (hasErrors) {
+        setSubCategoryFormErrors(errors);
+        setError("Please fix the errors below");
+        setLoading(false);
+        const firstErrorField = Object.keys(errors)[0];
+        if (firstErrorField === 'name') scrollToInvalidField("name", "subcategory-name");
+        else if (firstErrorField === 'category') scrollToInvalidField("category", "subcategory-category");
+        else if (firstErrorField === 'image') scrollToInvalidField("image", "subcategory-image");
+        return;
+      }
 
-  // Helper functions for filter tables
-  const handleAddFilterRow = (type: 'printingOption' | 'deliverySpeed' | 'textureType') => {
-    const newItem = { name: '', priceAdd: filterPricesEnabled ? 0 : undefined };
-    if (type === 'printingOption') {
-      setPrintingOptionsTable([...printingOptionsTable, newItem]);
-    } else if (type === 'deliverySpeed') {
-      setDeliverySpeedTable([...deliverySpeedTable, newItem]);
-    } else if (type === 'textureType') {
-      setTextureTypeTable([...textureTypeTable, newItem]);
-    }
-  };
+      // Validate image file type and size if image is provided
+      if (subCategoryForm.image) {
+        const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+        if (!allowedTypes.includes(subCategoryForm.image.type)) {
+          setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
+          setLoading(false);
+          return;
+        }
+        // Validate file size (max 5MB)
+        const maxSize = 5 * 1024 * 1024; // 5MB in bytes
+        if (subCategoryForm.image.size > maxSize) {
+          setError("Image size must be less than 5MB. Please compress the image and try again.");
+          setLoading(false);
+          return;
+        }
+      }
 
-  const handleUpdateFilterRow = (
-    type: 'printingOption' | 'deliverySpeed' | 'textureType',
-    index: number,
-    field: 'name' | 'priceAdd',
-    value: string | number
-  ) => {
-    if (type === 'printingOption') {
-      const updated = [...printingOptionsTable];
-      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
-      setPrintingOptionsTable(updated);
-    } else if (type === 'deliverySpeed') {
-      const updated = [...deliverySpeedTable];
-      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
-      setDeliverySpeedTable(updated);
-    } else if (type === 'textureType') {
-      const updated = [...textureTypeTable];
-      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
-      setTextureTypeTable(updated);
-    }
-  };
+      const formData = new FormData();
+      formData.append("name", subCategoryForm.name.trim());
+      formData.append("description", subCategoryForm.description || "");
+      formData.append("category", subCategoryForm.category);
+      formData.append("sortOrder", subCategoryForm.sortOrder.toString());
+      // Add slug - use provided slug or auto-generate unique slug from name
+      const baseSlug = subCategoryForm.slug || (subCategoryForm.name ? subCategoryForm.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : '');
+      const slugToSend = baseSlug ? generateUniqueSlug(baseSlug, null, editingSubCategoryId) : '';
+      if (slugToSend) {
+        formData.append("slug", slugToSend.trim());
+      }
+      if (subCategoryForm.image) {
+        formData.append("image", subCategoryForm.image);
+      }
 
-  const handleRemoveFilterRow = (
-    type: 'printingOption' | 'deliverySpeed' | 'textureType',
-    index: number
-  ) => {
-    if (type === 'printingOption') {
-      setPrintingOptionsTable(printingOptionsTable.filter((_, i) => i !== index));
-    } else if (type === 'deliverySpeed') {
-      setDeliverySpeedTable(deliverySpeedTable.filter((_, i) => i !== index));
-    } else if (type === 'textureType') {
-      setTextureTypeTable(textureTypeTable.filter((_, i) => i !== index));
-    }
-  };
+      const url = editingSubCategoryId
+        ? `${API_BASE_URL}/subcategories/${editingSubCategoryId}`
+        : `${API_BASE_URL}/subcategories`;
+      const method = editingSubCategoryId ? "PUT" : "POST";
 
-  const handleConvertOptionsToJSON = () => {
-    const jsonString = JSON.stringify(optionsTable, null, 2);
-    alert(`JSON Format:\n\n${jsonString}`);
-  };
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...getAuthHeaders(),
+        },
+        body: formData,
+      });
 
-  const handleLoadOptionsFromJSON = () => {
-    try {
-      if (productForm.options) {
-        const parsed = JSON.parse(productForm.options);
-        if (Array.isArray(parsed)) {
-          setOptionsTable(parsed);
-          setShowOptionsTable(true);
-        } else {
-          setError("Options must be an array");
-        }
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        throw new Error(errorData.error || `Failed to ${editingSubCategoryId ? "update" : "create"} subcategory: ${response.status} ${response.statusText}`);
       }
-    } catch (err) {
-      setError("Invalid JSON format");
-    }
-  };
 
-  const tabs = [
-    { id: "products", label: "Add Product", icon: Package },
-    { id: "manage-products", label: "Manage Products", icon: Package },
-    { id: "attribute-types", label: "Attribute Types", icon: Settings },
-    { id: "departments", label: "Departments", icon: Building2 },
-    { id: "sequences", label: "Sequences", icon: Settings },
-    { id: "categories", label: "Add Category", icon: FolderPlus },
-    { id: "manage-categories", label: "Manage Categories", icon: FolderPlus },
-    { id: "orders", label: "Orders", icon: ShoppingBag },
-    { id: "uploads", label: "Uploaded Images", icon: ImageIcon },
-    { id: "users", label: "Manage Users", icon: Users },
-  ];
+      await handleNgrokResponse(response);
 
-  return (
-    <div className="min-h-screen bg-cream-50 py-8">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="mb-6">
-          <BackButton fallbackPath="/" label="Back to Home" className="text-cream-600 hover:text-cream-900 mb-4" />
-        </div>
-        <div className="mb-6 sm:mb-8">
-          <h1 className="font-serif text-2xl sm:text-3xl md:text-4xl font-bold text-cream-900 mb-2">
-            Admin Dashboard
-          </h1>
-          <p className="text-sm sm:text-base text-cream-600">
-            Manage products, categories, uploads, and admin users
-          </p>
-        </div>
+      setSuccess(`Subcategory ${editingSubCategoryId ? "updated" : "created"} successfully!`);
+      
+      // If we were viewing a category, refresh its subcategories
+      if (selectedCategory) {
+        await handleCategoryClick(selectedCategory);
+      }
+      
+      setSubCategoryForm({
+        name: "",
+        description: "",
+        category: "",
+        type: "",
+        slug: "",
+        sortOrder: 0,
+        image: null,
+      });
+      setIsSubCategorySlugManuallyEdited(false);
+      setEditingSubCategoryId(null);
+      setEditingSubCategoryImage(null);
+      fetchSubCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${editingSubCategoryId ? "update" : "create"} subcategory`);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        {/* Tabs - Production Ready Design */}
-        <div className="bg-white rounded-xl shadow-md border border-cream-200 p-3 mb-6">
-          <div className="flex flex-wrap gap-2 overflow-x-auto scrollbar-hide">
-            {tabs.map((tab) => {
-              const Icon = tab.icon;
-              return (
-                <button
-                  key={tab.id}
-                  onClick={() => {
-                    setActiveTab(tab.id);
-                    setError(null);
-                    setSuccess(null);
-                    // Clear edit state when switching tabs
-                    if (tab.id !== "products" && tab.id !== "categories") {
-                      handleCancelEdit();
-                    }
-                    // Fetch data when switching to management tabs
-                    if (tab.id === "manage-products") {
-                      setSelectedSubCategoryFilter("");
-                      fetchProducts();
-                    } else if (tab.id === "manage-categories") {
-                      fetchCategories();
-                      fetchSubCategories(); // Also fetch subcategories for the manage page
-                    } else if (tab.id === "users") {
-                      fetchUsers();
-                    } else if (tab.id === "orders") {
-                      fetchOrders();
-                    } else if (tab.id === "attribute-types") {
-                      fetchAttributeTypes();
-                    } else if (tab.id === "products") {
-                      // Fetch attribute types when products tab is active so they're available for assignment
-                      fetchAttributeTypes();
-                      fetchProducts(); // Also refresh products list
-                    }
-                  }}
-                  className={`flex items-center gap-2.5 px-5 py-3 text-sm sm:text-base font-semibold transition-all duration-200 whitespace-nowrap rounded-lg border-2 ${
-                    activeTab === tab.id
-                      ? "bg-cream-900 text-white border-cream-900 shadow-lg transform scale-105"
-                      : "text-cream-700 bg-white border-cream-200 hover:bg-cream-50 hover:border-cream-300 hover:text-cream-900 hover:shadow-sm"
-                  }`}
-                >
-                  <Icon size={18} className={`sm:w-5 sm:h-5 ${activeTab === tab.id ? "text-white" : "text-cream-600"}`} />
-                  <span className="hidden sm:inline">{tab.label}</span>
-                  <span className="sm:hidden">{tab.label.split(" ")[0]}</span>
-                </button>
-              );
-            })}
-          </div>
-        </div>
+  const handleEditSubCategory = async (subCategoryId: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`${API_BASE_URL}/subcategories/${subCategoryId}`, {
+        method: "GET",
+        headers: getAuthHeaders(),
+      });
 
-        {/* Messages */}
-        <AnimatePresence>
-          {error && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0 }}
-              className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
-            >
-              <AlertCircle size={20} />
-              {error}
-            </motion.div>
-          )}
-          {success && (
-            <motion.div
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0 }}
-              className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-green-700"
-            >
-              <CheckCircle size={20} />
-              {success}
-            </motion.div>
-          )}
-        </AnimatePresence>
+      if (!response.ok) {
+        throw new Error(`Failed to fetch subcategory: ${response.status} ${response.statusText}`);
+      }
 
-        {/* Tab Content */}
-        <div className="bg-white rounded-2xl shadow-lg p-6">
-          {/* Add/Edit Product */}
-          {activeTab === "products" && (
-            <form 
-              onSubmit={(e) => {
-                e.preventDefault();
-                handleProductSubmit(e);
-              }}
-              onClick={(e) => {
-                // Prevent form submission when clicking on buttons inside CKEditor
-                const target = e.target as HTMLElement;
-                if (target.closest('.ckeditor-container') || target.closest('[data-ckeditor-button]')) {
-                  e.preventDefault();
-                  e.stopPropagation();
-                }
-              }}
-              className="space-y-6"
-            >
-              {editingProductId && (
-                <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
-                  <p className="text-sm text-blue-800 font-medium">
-                    Editing Product: {productForm.name || "Loading..."}
-                  </p>
-                  <button
-                    type="button"
-                    onClick={handleCancelEdit}
-                    className="px-3 py-1 text-sm bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200 transition-colors"
-                  >
-                    Cancel Edit
-                  </button>
-                </div>
-              )}
-              {/* Form Progress Indicator - Show all required fields */}
-              <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-blue-900">Required Fields</span>
-                  <span className="text-sm text-blue-700">
-                    {(() => {
-                      // Check all fields that are marked with (*) in the form
-                      const requiredFields = [
-                        { value: productForm.name?.trim(), label: 'Product Name' },
-                        { value: productForm.basePrice, label: 'Base Price' },
-                        { value: productForm.category || productForm.subcategory, label: 'Category/Subcategory' },
-                        { value: productForm.gstPercentage, label: 'GST %' },
-                        { value: productForm.instructions?.trim(), label: 'Instructions' },
-                      ];
-                      const completed = requiredFields.filter(f => f.value).length;
-                      return `${completed}/${requiredFields.length} completed`;
-                    })()}
-                  </span>
-                </div>
-                <div className="w-full bg-blue-200 rounded-full h-2">
-                  <div
-                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                    style={{
-                      width: `${(() => {
-                        const requiredFields = [
-                          productForm.name?.trim(),
-                          productForm.basePrice,
-                          productForm.category || productForm.subcategory,
-                          productForm.gstPercentage,
-                          productForm.instructions?.trim(),
-                        ];
-                        return (requiredFields.filter(Boolean).length / requiredFields.length) * 100;
-                      })()}%`,
-                    }}
-                  />
-                </div>
-              </div>
+      const subCategory = await handleNgrokResponse(response);
 
-              {/* Basic Information Section */}
-              <div className="border border-cream-300 rounded-lg p-6 bg-white">
-                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
-                  <Package size={20} />
-                  Basic Information
-                </h3>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
-                      Product Name *
-                      <div className="group relative">
-                        <Info size={14} className="text-cream-500 cursor-help" />
-                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
-                          Enter a clear, descriptive name that customers will see. This should be unique and searchable.
-                        </div>
-                      </div>
-                    </label>
-                    <input
-                      id="product-name"
-                      name="name"
-                      type="text"
-                      required
-                      value={productForm.name}
-                      onChange={(e) => {
-                        setProductForm({ ...productForm, name: e.target.value });
-                        // Clear error when user starts typing
-                        if (productFormErrors.name) {
-                          setProductFormErrors({ ...productFormErrors, name: undefined });
-                        }
-                      }}
-                      className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
-                        productFormErrors.name ? 'border-red-300 bg-red-50' : 'border-cream-300'
-                      }`}
-                      placeholder="e.g., Glossy Business Cards - Premium"
-                      maxLength={100}
-                    />
-                    {productFormErrors.name && (
-                      <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                        <AlertCircle size={12} />
-                        {productFormErrors.name}
-                      </p>
-                    )}
-                    {productForm.name && productForm.name.length > 80 && (
-                      <p className="text-xs text-yellow-600 mt-1">
-                        {100 - productForm.name.length} characters remaining
-                      </p>
-                    )}
-                  </div>
+      // Get type from parent category
+      const parentCategory = typeof subCategory.category === "object" 
+        ? subCategory.category 
+        : categories.find(c => c._id === subCategory.category);
+      const categoryType = parentCategory?.type || "";
 
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
-                      Description
-                      <div className="group relative">
-                        <Info size={14} className="text-cream-500 cursor-help" />
-                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
-                          Detailed product description that customers will see. Use formatting to make it readable and professional. You can insert images using the toolbar buttons.
-                        </div>
-                      </div>
-                    </label>
-                    <RichTextEditor
-                      value={productForm.description}
-                      onChange={(html) =>
-                        setProductForm({
-                          ...productForm,
-                          description: html,
-                        })
-                      }
-                      placeholder="Enter product description. Use the toolbar to format text, insert images, and more."
-                    />
-                    <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-                      <p className="text-xs font-medium text-blue-900 mb-1">💡 Rich Text Editor Features:</p>
-                      <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
-                        <li>Format text with <strong>bold</strong>, <em>italic</em>, underline, strikethrough</li>
-                        <li>Change font family, font size, and text colors</li>
-                        <li>Insert images using the toolbar button</li>
-                        <li>Create ordered and bullet lists with indentation</li>
-                        <li>Align text (left, center, right, justify)</li>
-                        <li>All formatting is preserved when saved</li>
-                      </ul>
-                    </div>
-                  </div>
+      // Auto-generate slug if not present - always ensure slug is set
+      const subCategorySlug = subCategory.slug || (subCategory.name ? subCategory.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') : "");
 
-                  {/* Product Image Upload */}
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
-                      Product Image
-                      <div className="group relative">
-                        <Info size={14} className="text-cream-500 cursor-help" />
-                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
-                          Upload a product image that will be displayed to customers. Supported formats: JPG, PNG, WebP. Max size: 5MB.
-                        </div>
-                      </div>
-                    </label>
-                    <div className="space-y-2">
-                      <input
-                        type="file"
-                        accept="image/jpeg,image/jpg,image/png,image/webp"
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) {
-                            // Validate file type
-                            const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-                            if (!validTypes.includes(file.type)) {
-                              setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
-                              return;
-                            }
-                            // Validate file size (5MB)
-                            if (file.size > 5 * 1024 * 1024) {
-                              setError("Image size must be less than 5MB.");
-                              return;
-                            }
-                            setProductForm({ ...productForm, image: file });
-                            setError(null);
-                          }
-                        }}
-                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-cream-900 file:text-white hover:file:bg-cream-800"
-                      />
-                      {productForm.image && (
-                        <div className="mt-2">
-                          <p className="text-xs text-cream-600 mb-1">Selected: {productForm.image.name}</p>
-                          <div className="relative w-32 h-32 border border-cream-300 rounded-lg overflow-hidden">
-                            <img
-                              src={URL.createObjectURL(productForm.image)}
-                              alt="Product preview"
-                              className="w-full h-full object-cover"
-                            />
-                          </div>
-                        </div>
-                      )}
-                      {editingProductId && !productForm.image && (
-                        <p className="text-xs text-cream-600">Leave empty to keep existing image</p>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </div>
+      setSubCategoryForm({
+        name: subCategory.name || "",
+        description: subCategory.description || "",
+        category: typeof subCategory.category === "object" ? subCategory.category._id : subCategory.category || "",
+        type: categoryType,
+        slug: subCategorySlug, // Always set slug, even if auto-generated
+        sortOrder: subCategory.sortOrder || 0,
+        image: null,
+      });
+      setIsSubCategorySlugManuallyEdited(!!subCategory.slug); // If subcategory has a slug, consider it manually set
 
-              {/* Filters Section - Order Quantity and Other Options */}
-              <div className="border border-cream-300 rounded-lg p-4 bg-cream-50">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-cream-900">Product Filters</h3>
-                  <div className="text-sm text-cream-600">
-                    <Info size={14} className="inline mr-1" />
-                    Printing options should be configured as attributes in the Product Attributes section below
-                  </div>
-                </div>
-                
-                {/* Order Quantity Configuration */}
-                <div className="mb-6 p-4 bg-white rounded-lg border border-cream-200">
-                  <div className="flex items-center justify-between mb-4">
-                    <label className="block text-sm font-medium text-cream-900">
-                      Quantity Configuration *
-                    </label>
-                    <div className="text-xs text-cream-600">
-                      <Info size={14} className="inline mr-1" />
-                      Configure quantity options based on production capabilities and raw material batching
-                    </div>
-                  </div>
-                  
-                  {/* Simple Quantity Configuration */}
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-cream-900 mb-2">
-                        Min Quantity
-                      </label>
-                      <input
-                        type="number"
-                        value={productForm.filters.orderQuantity.min}
-                        onChange={(e) =>
-                          setProductForm({
-                            ...productForm,
-                            filters: {
-                              ...productForm.filters,
-                              orderQuantity: {
-                                ...productForm.filters.orderQuantity,
-                                min: parseInt(e.target.value) || 0,
-                              },
-                            },
-                          })
-                        }
-                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-cream-900 mb-2">
-                        Max Quantity
-                      </label>
-                      <input
-                        type="number"
-                        value={productForm.filters.orderQuantity.max}
-                        onChange={(e) =>
-                          setProductForm({
-                            ...productForm,
-                            filters: {
-                              ...productForm.filters,
-                              orderQuantity: {
-                                ...productForm.filters.orderQuantity,
-                                max: parseInt(e.target.value) || 0,
-                              },
-                            },
-                          })
-                        }
-                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-cream-900 mb-2">
-                        Multiples Of
-                      </label>
-                      <input
-                        type="number"
-                        value={productForm.filters.orderQuantity.multiples}
-                        onChange={(e) =>
-                          setProductForm({
-                            ...productForm,
-                            filters: {
-                              ...productForm.filters,
-                              orderQuantity: {
-                                ...productForm.filters.orderQuantity,
-                                multiples: parseInt(e.target.value) || 0,
-                              },
-                            },
-                          })
-                        }
-                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
-                      />
-                    </div>
-                  </div>
+      setEditingSubCategoryId(subCategoryId);
+      setEditingSubCategoryImage(subCategory.image || null);
+      // Switch to categories tab to show the edit form
+      setActiveTab("categories");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load subcategory");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-                </div>
+  const handleDeleteSubCategory = async (subCategoryId: string) => {
+    const subCategory = subCategories.find(sc => sc._id === subCategoryId);
+    if (!subCategory) return;
 
-                {/* Delivery Speed Table */}
-                <div className="mb-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <label className="block text-sm font-medium text-cream-900">
-                      Delivery Speed Options
-                    </label>
-                    <button
-                      type="button"
-                      onClick={() => handleAddFilterRow('deliverySpeed')}
-                      className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
-                    >
-                      <Plus size={16} />
-                      Add Option
-                    </button>
-                  </div>
-                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
-                    {deliverySpeedTable.length === 0 ? (
-                      <p className="text-sm text-cream-600 text-center py-4">
-                        No delivery speed options added. Click "Add Option" to start.
-                      </p>
-                    ) : (
-                      <div className="overflow-x-auto">
-                        <table className="w-full border-collapse">
-                          <thead>
-                            <tr className="bg-cream-100">
-                              <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                Delivery Speed
-                              </th>
-                              {filterPricesEnabled && (
-                                <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                  Price Add (per 1000 units)
-                                </th>
-                              )}
-                              <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
-                                Action
-                              </th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {deliverySpeedTable.map((item, index) => {
-                              const itemName = typeof item === 'string' ? item : item.name;
-                              const itemPrice = typeof item === 'object' ? (item.priceAdd ?? 0) : 0;
-                              return (
-                                <tr key={index}>
-                                  <td className="border border-cream-300 px-3 py-2">
-                                    <input
-                                      type="text"
-                                      value={itemName}
-                                      onChange={(e) => handleUpdateFilterRow('deliverySpeed', index, 'name', e.target.value)}
-                                      className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                      placeholder="e.g., Standard"
-                                    />
-                                  </td>
-                                  {filterPricesEnabled && (
-                                    <td className="border border-cream-300 px-3 py-2">
-                                      <input
-                                        type="number"
-                                        step="0.00001"
-                                        value={itemPrice}
-                                        onChange={(e) => handleUpdateFilterRow('deliverySpeed', index, 'priceAdd', e.target.value)}
-                                        className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                        placeholder="0.00"
-                                      />
-                                    </td>
-                                  )}
-                                  <td className="border border-cream-300 px-3 py-2 text-center">
-                                    <button
-                                      type="button"
-                                      onClick={() => handleRemoveFilterRow('deliverySpeed', index)}
-                                      className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
-                                  </td>
-                                </tr>
-                              );
-                            })}
-                          </tbody>
-                        </table>
-                      </div>
-                    )}
-                  </div>
-                </div>
+    // Check for products under this subcategory
+    try {
+      const productsResponse = await fetch(`${API_BASE_URL}/products/subcategory/${subCategoryId}`, {
+        headers: getAuthHeaders(),
+      });
+      
+      let productCount = 0;
+      if (productsResponse.ok) {
+        const productsData = await handleNgrokResponse(productsResponse);
+        productCount = Array.isArray(productsData) ? productsData.length : 0;
+      }
 
-                {/* Texture Type Table (Optional) */}
-                <div>
-                  <div className="flex items-center justify-between mb-2">
-                    <label className="block text-sm font-medium text-cream-900">
-                      Texture Type Options (optional)
-                    </label>
-                    <button
-                      type="button"
-                      onClick={() => handleAddFilterRow('textureType')}
-                      className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
-                    >
-                      <Plus size={16} />
-                      Add Texture
-                    </button>
-                  </div>
-                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
-                    {textureTypeTable.length === 0 ? (
-                      <p className="text-sm text-cream-600 text-center py-4">
-                        No texture types added. Click "Add Texture" to start.
-                      </p>
-                    ) : (
-                      <div className="overflow-x-auto">
-                        <table className="w-full border-collapse">
-                          <thead>
-                            <tr className="bg-cream-100">
-                              <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                Texture Type
-                              </th>
-                              {filterPricesEnabled && (
-                                <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                  Price Add (per 1000 units)
-                                </th>
-                              )}
-                              <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
-                                Action
-                              </th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {textureTypeTable.map((item, index) => {
-                              const itemName = typeof item === 'string' ? item : item.name;
-                              const itemPrice = typeof item === 'object' ? (item.priceAdd ?? 0) : 0;
-                              return (
-                                <tr key={index}>
-                                  <td className="border border-cream-300 px-3 py-2">
-                                    <input
-                                      type="text"
-                                      value={itemName}
-                                      onChange={(e) => handleUpdateFilterRow('textureType', index, 'name', e.target.value)}
-                                      className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                      placeholder="e.g., Texture No.1"
-                                    />
-                                  </td>
-                                  {filterPricesEnabled && (
-                                    <td className="border border-cream-300 px-3 py-2">
-                                      <input
-                                        type="number"
-                                        step="0.00001"
-                                        value={itemPrice}
-                                        onChange={(e) => handleUpdateFilterRow('textureType', index, 'priceAdd', e.target.value)}
-                                        className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                        placeholder="0.00"
-                                      />
-                                    </td>
-                                  )}
-                                  <td className="border border-cream-300 px-3 py-2 text-center">
-                                    <button
-                                      type="button"
-                                      onClick={() => handleRemoveFilterRow('textureType', index)}
-                                      className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
-                                  </td>
-                                </tr>
-                              );
-                            })}
-                          </tbody>
-                        </table>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </div>
+      // Open confirmation modal
+      setDeleteConfirmModal({
+        isOpen: true,
+        type: 'subcategory',
+        id: subCategoryId,
+        name: subCategory.name,
+        productCount,
+        subcategoryCount: 0,
+        deleteText: '',
+      });
+    } catch (err) {
+      console.error("Error checking products:", err);
+      // Still open modal, but with 0 product count
+      setDeleteConfirmModal({
+        isOpen: true,
+        type: 'subcategory',
+        id: subCategoryId,
+        name: subCategory.name,
+        productCount: 0,
+        subcategoryCount: 0,
+        deleteText: '',
+      });
+    }
+  };
 
-              {/* Quantity Discounts Section */}
-              <div className="border border-cream-300 rounded-lg p-4 bg-blue-50">
-                <div className="flex items-center justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-cream-900">Quantity-Based Discounts</h3>
-                    <p className="text-sm text-cream-600 mt-1">
-                      Set discounts based on order quantity. Customers get better prices when ordering in bulk.
-                    </p>
-                  </div>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setProductForm({
-                        ...productForm,
-                        quantityDiscounts: [
-                          ...(productForm.quantityDiscounts || []),
-                          { minQuantity: 0, maxQuantity: null, discountPercentage: 0 },
-                        ],
-                      });
-                    }}
-                    className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
-                  >
-                    <Plus size={16} />
-                    Add Discount Tier
-                  </button>
-                </div>
+  const confirmDeleteSubCategory = async () => {
+    if (deleteConfirmModal.deleteText.toLowerCase() !== 'delete') {
+      setError('Please type "delete" to confirm');
+      return;
+    }
 
-                {(!productForm.quantityDiscounts || productForm.quantityDiscounts.length === 0) ? (
-                  <div className="bg-cream-50 border border-cream-200 rounded-lg p-4">
-                    <p className="text-sm text-cream-600 text-center">
-                      No discount tiers added. Click "Add Discount Tier" to set quantity-based discounts.
-                    </p>
-                  </div>
-                ) : (
-                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
-                    <div className="overflow-x-auto">
-                      <table className="w-full border-collapse">
-                        <thead>
-                          <tr className="bg-cream-100">
-                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                              Min Quantity
-                            </th>
-                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                              Max Quantity
-                            </th>
-                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                              Discount (%)
-                            </th>
-                            <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
-                              Action
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {(productForm.quantityDiscounts || []).map((discount, index) => (
-                            <tr key={index}>
-                              <td className="border border-cream-300 px-3 py-2">
-                                <input
-                                  type="number"
-                                  value={discount.minQuantity}
-                                  onChange={(e) => {
-                                    const updated = [...(productForm.quantityDiscounts || [])];
-                                    updated[index].minQuantity = parseInt(e.target.value) || 0;
-                                    setProductForm({ ...productForm, quantityDiscounts: updated });
-                                  }}
-                                  className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                  placeholder="e.g., 1000"
-                                  min="0"
-                                />
-                              </td>
-                              <td className="border border-cream-300 px-3 py-2">
-                                <input
-                                  type="number"
-                                  value={discount.maxQuantity || ""}
-                                  onChange={(e) => {
-                                    const updated = [...(productForm.quantityDiscounts || [])];
-                                    updated[index].maxQuantity = e.target.value ? parseInt(e.target.value) : null;
-                                    setProductForm({ ...productForm, quantityDiscounts: updated });
-                                  }}
-                                  className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                  placeholder="Leave empty for no limit"
-                                  min="0"
-                                />
-                                <p className="text-xs text-cream-500 mt-1">Leave empty for unlimited</p>
-                              </td>
-                              <td className="border border-cream-300 px-3 py-2">
-                                <div className="flex items-center gap-2">
-                                  <input
-                                    type="number"
-                                    value={discount.discountPercentage}
-                                    onChange={(e) => {
-                                      const updated = [...(productForm.quantityDiscounts || [])];
-                                      updated[index].discountPercentage = parseFloat(e.target.value) || 0;
-                                      setProductForm({ ...productForm, quantityDiscounts: updated });
-                                    }}
-                                    className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
-                                    placeholder="e.g., 5"
-                                    min="0"
-                                    max="100"
-                                    step="0.1"
-                                  />
-                                  <span className="text-sm text-cream-600">%</span>
-                                </div>
-                                {discount.discountPercentage > 0 && (
-                                  <p className="text-xs text-cream-600 mt-1">
-                                    Price: {((100 - discount.discountPercentage) / 100).toFixed(2)}x base price
-                                  </p>
-                                )}
-                              </td>
-                              <td className="border border-cream-300 px-3 py-2 text-center">
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    const updated = (productForm.quantityDiscounts || []).filter((_, i) => i !== index);
-                                    setProductForm({ ...productForm, quantityDiscounts: updated });
-                                  }}
-                                  className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                >
-                                  <Trash2 size={16} />
-                                </button>
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                    <div className="p-3 bg-blue-50 border-t border-cream-300">
-                      <p className="text-xs text-blue-800">
-                        <strong>Example:</strong> Min: 1000, Max: 5000, Discount: 5% → Customers ordering 1000-5000 units get 5% off.
-                        Min: 5000, Max: (empty), Discount: 10% → Customers ordering 5000+ units get 10% off.
-                      </p>
-                    </div>
-                  </div>
-                )}
-              </div>
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    setDeleteConfirmModal({ ...deleteConfirmModal, isOpen: false });
 
-              {/* Pricing & Category Section */}
-              <div className="border border-cream-300 rounded-lg p-6 bg-white">
-                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
-                  <CreditCard size={20} />
-                  Pricing & Category
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
-                      Base Price (INR per unit) *
-                      <div className="group relative">
-                        <Info size={14} className="text-cream-500 cursor-help" />
-                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
-                          The base price per unit before any options, discounts, or taxes are applied.
-                        </div>
-                      </div>
-                    </label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-cream-600">₹</span>
-                      <input
-                        id="product-basePrice"
-                        name="basePrice"
-                        type="number"
-                        required
-                        step="0.00001"
-                        min="0"
-                        value={productForm.basePrice}
-                        onChange={(e) => {
-                          setProductForm({
-                            ...productForm,
-                            basePrice: e.target.value,
-                          });
-                          // Clear error when user starts typing
-                          if (productFormErrors.basePrice) {
-                            setProductFormErrors({ ...productFormErrors, basePrice: undefined });
-                          }
-                        }}
-                        className={`w-full pl-8 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
-                          productFormErrors.basePrice ? 'border-red-300 bg-red-50' : 'border-cream-300'
-                        }`}
-                        placeholder="0.00000"
-                      />
-                      {productFormErrors.basePrice && (
-                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                          <AlertCircle size={12} />
-                          {productFormErrors.basePrice}
-                        </p>
-                      )}
-                    </div>
-                    {productForm.basePrice && parseFloat(productForm.basePrice) < 0 && !productFormErrors.basePrice && (
-                      <p className="text-xs text-red-600 mt-1">Price cannot be negative</p>
-                    )}
-                  </div>
+    try {
+      const response = await fetch(`${API_BASE_URL}/subcategories/${deleteConfirmModal.id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
 
-                </div>
-              </div>
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        const errorMessage = errorData.error || `Failed to delete subcategory: ${response.status} ${response.statusText}`;
+        setError(errorMessage);
+        setLoading(false);
+        return;
+      }
 
-              {/* Category & Subcategory Section */}
-              <div className="border border-cream-300 rounded-lg p-6 bg-white">
-                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
-                  <CreditCard size={20} />
-                  Category & Subcategory
-                </h3>
-                <div className="space-y-4">
-                  {/* Step 1: Type Selection */}
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2">
-                      Main Type * <span className="text-xs text-cream-500 font-normal">(Select first to filter categories)</span>
-                    </label>
-                    <ReviewFilterDropdown
-                      label="Select Type"
-                      value={selectedType || ""}
-                      onChange={async (value) => {
-                        const newType = value as string;
-                        setSelectedType(newType);
-                        
-                        // Clear category and subcategory when type changes
-                        setSelectedCategoryPath([]);
-                        setCategoryChildrenMap({});
-                        setProductForm({
-                          ...productForm,
-                          category: "",
-                          subcategory: "",
-                        });
-                        setCategoryProducts([]);
-                        
-                        // Filter categories by type
-                        if (newType) {
-                          const filtered = categories.filter(cat => cat.type === newType && !cat.parent);
-                          setFilteredCategoriesByType(filtered);
-                        } else {
-                          setFilteredCategoriesByType([]);
-                        }
-                      }}
-                      options={[
-                        { value: "", label: "Select Type" },
-                        { value: "Digital", label: "Digital" },
-                        { value: "Bulk", label: "Bulk" },
-                      ]}
-                      className="w-full"
-                    />
-                    {!selectedType && (
-                      <p className="mt-1 text-xs text-amber-600 flex items-center gap-1">
-                        <AlertCircle size={12} />
-                        Please select a type first to see available categories
-                      </p>
-                    )}
-                  </div>
+      await handleNgrokResponse(response);
 
-                  {/* Step 2: Category Selection (only shown after type is selected) */}
-                  {selectedType && (
-                    <div>
-                      <label className="block text-sm font-medium text-cream-900 mb-2">
-                        Category * <span className="text-xs text-cream-500 font-normal">(Select based on type)</span>
-                      </label>
-                      <ReviewFilterDropdown
-                        id="product-category"
-                        label="Select Category"
-                        value={String(productForm.category || selectedCategoryPath[0] || "")}
-                        onChange={async (value) => {
-                          if (value) {
-                            // Set the first level of the path
-                            setSelectedCategoryPath([String(value)]);
-                            // Update product form with the selected category
-                            setProductForm({
-                              ...productForm,
-                              category: String(value),
-                              subcategory: "", // Reset subcategory when category changes
-                            });
-                            
-                            // Clear error when user selects a category
-                            if (productFormErrors.category) {
-                              setProductFormErrors({ ...productFormErrors, category: undefined });
-                            }
-                            
-                            // Immediately fetch children for this category
-                            await fetchCategoryChildren(String(value));
-                            
-                            // Clear products - will show subcategories instead
-                            setCategoryProducts([]);
-                          } else {
-                            // Clear everything
-                            setSelectedCategoryPath([]);
-                            setCategoryChildrenMap({});
-                            setProductForm({
-                              ...productForm,
-                              category: "",
-                              subcategory: "",
-                            });
-                            setCategoryProducts([]);
-                          }
-                        }}
-                        options={[
-                          { value: "", label: "Select Category" },
-                          ...filteredCategoriesByType
-                            .filter(cat => !cat.parent) // Only show top-level categories
-                            .map((cat) => ({
-                              value: cat._id,
-                              label: cat.name,
-                            })),
-                        ]}
-                        className={`w-full ${productFormErrors.category ? 'border-red-300' : ''}`}
-                      />
-                      {productFormErrors.category && (
-                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                          <AlertCircle size={12} />
-                          {productFormErrors.category}
-                        </p>
-                      )}
-                      {!productForm.category && selectedType && !productFormErrors.category && (
-                        <p className="mt-1 text-xs text-amber-600 flex items-center gap-1">
-                          <AlertCircle size={12} />
-                          Please select a category to continue
-                        </p>
-                      )}
-                    </div>
-                  )}
-                </div>
-                
-                {/* Subcategory Selection - Only Level 1 */}
-                {productForm.category && selectedCategoryPath.length > 0 && (() => {
-                  const children = categoryChildrenMap[String(selectedCategoryPath[0] || "")] || [];
-                  const isLoading = loadingCategoryChildren[String(selectedCategoryPath[0] || "")] || false;
-                  const selectedChildId = String(selectedCategoryPath[1] || "");
+      setSuccess("Subcategory deleted successfully!");
+      fetchSubCategories();
+      // Refresh category subcategories if viewing them
+      if (selectedCategory) {
+        handleCategoryClick(selectedCategory);
+      }
+      // Clear selection if deleted subcategory was selected
+      if (selectedSubCategoryForView === deleteConfirmModal.id) {
+        setSelectedSubCategoryForView(null);
+        setCategoryProducts([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete subcategory");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-                  return (
-                    <div className="mt-4">
-                      <label className="block text-sm font-medium text-cream-900 mb-2">
+  const handleDeleteCategory = async (categoryId: string) => {
+    const category = categories.find(c => c._id === categoryId);
+    if (!category) return;
+
+    try {
+      // First check for child categories (subcategories) - if category has subcategories, prevent deletion
+      const childCategoriesResponse = await fetch(`${API_BASE_URL}/subcategories/category/${categoryId}`, {
+        headers: getAuthHeaders(),
+      });
+      
+      let childCategoryCount = 0;
+      let childCategories: any[] = [];
+      
+      if (childCategoriesResponse.ok) {
+        const childCategoriesData = await handleNgrokResponse(childCategoriesResponse);
+        childCategories = Array.isArray(childCategoriesData) ? childCategoriesData : (childCategoriesData?.data || []);
+        childCategoryCount = childCategories.length;
+      } else {
+        // Try fallback to old endpoint for backward compatibility
+        try {
+          const fallbackResponse = await fetch(`${API_BASE_URL}/categories/parent/${categoryId}`, {
+            headers: getAuthHeaders(),
+          });
+          
+          if (fallbackResponse.ok) {
+            const fallbackData = await handleNgrokResponse(fallbackResponse);
+            childCategories = Array.isArray(fallbackData) ? fallbackData : (fallbackData?.data || []);
+            childCategoryCount = childCategories.length;
+          }
+        } catch (fallbackErr) {
+          // Ignore fallback errors
+        }
+      }
+
+      // If category has child categories, block deletion
+      if (childCategoryCount > 0) {
+        setError(`Cannot delete category "${category.name}". It has ${childCategoryCount} child categor${childCategoryCount === 1 ? 'y' : 'ies'}. Please delete or reassign all child categories first.`);
+        return;
+      }
+
+      // Check for products under this category
+      const productsResponse = await fetch(`${API_BASE_URL}/products/category/${categoryId}`, {
+        headers: getAuthHeaders(),
+      });
+      
+      let productCount = 0;
+      if (productsResponse.ok) {
+        const productsData = await handleNgrokResponse(productsResponse);
+        productCount = Array.isArray(productsData) ? productsData.length : 0;
+      }
+
+      // Open confirmation modal
+      setDeleteConfirmModal({
+        isOpen: true,
+        type: 'category',
+        id: categoryId,
+        name: category.name,
+        productCount,
+        subcategoryCount: childCategoryCount,
+        deleteText: '',
+      });
+    } catch (err) {
+      console.error("Error checking category dependencies:", err);
+      setError("Failed to check category dependencies. Please try again.");
+    }
+  };
+
+  const confirmDeleteCategory = async () => {
+    if (deleteConfirmModal.deleteText.toLowerCase() !== 'delete') {
+      setError('Please type "delete" to confirm');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    setDeleteConfirmModal({ ...deleteConfirmModal, isOpen: false });
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/categories/${deleteConfirmModal.id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        const errorMessage = errorData.error || `Failed to delete category: ${response.status} ${response.statusText}`;
+        setError(errorMessage);
+        setLoading(false);
+        return;
+      }
+
+      await handleNgrokResponse(response);
+
+      setSuccess("Category deleted successfully!");
+      fetchCategories();
+      // Clear selection if deleted category was selected
+      if (selectedCategory === deleteConfirmModal.id) {
+        setSelectedCategory(null);
+        setCategorySubcategories([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete category");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateUserRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/update-user-role`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          username: userRoleForm.username,
+          role: userRoleForm.role,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        throw new Error(errorData.message || errorData.error || `Failed to update user role: ${response.status} ${response.statusText}`);
+      }
+
+      await handleNgrokResponse(response);
+
+      setSuccess(`User role updated to ${userRoleForm.role} successfully!`);
+      setUserRoleForm({
+        username: "",
+        role: "user",
+      });
+      fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update user role");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteUpload = async (uploadId: string) => {
+    if (!window.confirm("Are you sure you want to delete this uploaded image?")) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/admin/uploads/${uploadId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorData = await handleNgrokResponse(response);
+        throw new Error(errorData.error || `Failed to delete upload: ${response.status} ${response.statusText}`);
+      }
+
+      await handleNgrokResponse(response);
+
+      setSuccess("Uploaded image deleted successfully!");
+      fetchUploads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete upload");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadImage = (imageData: string, filename: string) => {
+    try {
+      // Convert base64 to blob
+      const byteCharacters = atob(imageData.split(",")[1]);
+      const byteNumbers = new Array(byteCharacters.length);
+      for (let i = 0; i < byteCharacters.length; i++) {
+        byteNumbers[i] = byteCharacters.charCodeAt(i);
+      }
+      const byteArray = new Uint8Array(byteNumbers);
+      const blob = new Blob([byteArray], { type: "image/jpeg" });
+
+      // Create download link
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename || "image.jpg";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError("Failed to download image");
+    }
+  };
+
+  const handleAddOptionRow = () => {
+    const newIndex = optionsTable.length;
+    setOptionsTable([
+      ...optionsTable,
+      { name: "", priceAdd: "", pricingMode: "PER_UNIT", description: "", image: "" },
+    ]);
+  };
+
+  const handleUpdateOptionRow = (
+    index: number,
+    field: string,
+    value: string | number
+  ) => {
+    const updated = [...optionsTable];
+    updated[index] = { ...updated[index], [field]: value };
+    setOptionsTable(updated);
+  };
+
+  const handleRemoveOptionRow = (index: number) => {
+    setOptionsTable(optionsTable.filter((_, i) => i !== index));
+  };
+
+  // Helper functions for filter tables
+  // Product in the pricing engine's shape, built from the unsaved product form
+  const simulatorProduct = useMemo((): SimulatorProduct => ({
+    basePrice: parseFloat(productForm.basePrice) || 0,
+    gstPercentage: productForm.gstPercentage ? parseFloat(productForm.gstPercentage) : 18,
+    additionalDesignCharge: parseFloat(productForm.additionalDesignCharge) || 0,
+    filters: { orderQuantity: productForm.filters.orderQuantity },
+    quantityDiscounts: productForm.quantityDiscounts
+      .filter((d) => d.minQuantity > 0 && d.discountPercentage > 0)
+      .map((d) => ({ ...d, priceMultiplier: (100 - d.discountPercentage) / 100 })),
+    dynamicAttributes: selectedAttributeTypes
+      .filter((sa) => sa && sa.attributeTypeId)
+      .map((sa) => ({
+        attributeType: attributeTypes.find((at) => at._id === sa.attributeTypeId) || null,
+        isEnabled: sa.isEnabled !== false,
+      })),
+  }), [productForm.basePrice, productForm.gstPercentage, productForm.additionalDesignCharge, productForm.filters.orderQuantity, productForm.quantityDiscounts, selectedAttributeTypes, attributeTypes]);
+
+  const updateCustomSizeForm = (changes: Partial<typeof emptyCustomSizeForm>) => {
+    setProductForm((prev) => ({ ...prev, customSize: { ...prev.customSize, ...changes } }));
+  };
+
+  const handleAddFilterRow = (type: 'printingOption' | 'deliverySpeed' | 'textureType') => {
+    const newItem = { name: '', priceAdd: filterPricesEnabled ? 0 : undefined };
+    if (type === 'printingOption') {
+      setPrintingOptionsTable([...printingOptionsTable, newItem]);
+    } else if (type === 'deliverySpeed') {
+      setDeliverySpeedTable([...deliverySpeedTable, newItem]);
+    } else if (type === 'textureType') {
+      setTextureTypeTable([...textureTypeTable, newItem]);
+    }
+  };
+
+  const handleUpdateFilterRow = (
+    type: 'printingOption' | 'deliverySpeed' | 'textureType',
+    index: number,
+    field: 'name' | 'priceAdd',
+    value: string | number
+  ) => {
+    if (type === 'printingOption') {
+      const updated = [...printingOptionsTable];
+      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
+      setPrintingOptionsTable(updated);
+    } else if (type === 'deliverySpeed') {
+      const updated = [...deliverySpeedTable];
+      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
+      setDeliverySpeedTable(updated);
+    } else if (type === 'textureType') {
+      const updated = [...textureTypeTable];
+      updated[index] = { ...updated[index], [field]: field === 'priceAdd' ? (value === '' ? undefined : parseFloat(value as string) || 0) : value };
+      setTextureTypeTable(updated);
+    }
+  };
+
+  const handleRemoveFilterRow = (
+    type: 'printingOption' | 'deliverySpeed' | 'textureType',
+    index: number
+  ) => {
+    if (type === 'printingOption') {
+      setPrintingOptionsTable(printingOptionsTable.filter((_, i) => i !== index));
+    } else if (type === 'deliverySpeed') {
+      setDeliverySpeedTable(deliverySpeedTable.filter((_, i) => i !== index));
+    } else if (type === 'textureType') {
+      setTextureTypeTable(textureTypeTable.filter((_, i) => i !== index));
+    }
+  };
+
+  const handleConvertOptionsToJSON = () => {
+    const jsonString = JSON.stringify(optionsTable, null, 2);
+    alert(`JSON Format:\n\n${jsonString}`);
+  };
+
+  const handleLoadOptionsFromJSON = () => {
+    try {
+      if (productForm.options) {
+        const parsed = JSON.parse(productForm.options);
+        if (Array.isArray(parsed)) {
+          setOptionsTable(parsed);
+          setShowOptionsTable(true);
+        } else {
+          setError("Options must be an array");
+        }
+      }
+    } catch (err) {
+      setError("Invalid JSON format");
+    }
+  };
+
+  const tabs = [
+    { id: "products", label: "Add Product", icon: Package },
+    { id: "manage-products", label: "Manage Products", icon: Package },
+    { id: "attribute-types", label: "Attribute Types", icon: Settings },
+    { id: "departments", label: "Departments", icon: Building2 },
+    { id: "sequences", label: "Sequences", icon: Settings },
+    { id: "categories", label: "Add Category", icon: FolderPlus },
+    { id: "manage-categories", label: "Manage Categories", icon: FolderPlus },
+    { id: "orders", label: "Orders", icon: ShoppingBag },
+    { id: "complaints", label: "Complaints", icon: AlertCircle },
+    { id: "coupons", label: "Coupons", icon: Tag },
+    { id: "price-lists", label: "Price Lists", icon: Briefcase },
+    { id: "delivery-zones", label: "Delivery Zones", icon: Truck },
+    { id: "uploads", label: "Uploaded Images", icon: ImageIcon },
+    { id: "users", label: "Manage Users", icon: Users },
+  ];
+
+  return (
+    <div className="min-h-screen bg-cream-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <BackButton fallbackPath="/" label="Back to Home" className="text-cream-600 hover:text-cream-900 mb-4" />
+        </div>
+        <div className="mb-6 sm:mb-8">
+          <h1 className="font-serif text-2xl sm:text-3xl md:text-4xl font-bold text-cream-900 mb-2">
+            Admin Dashboard
+          </h1>
+          <p className="text-sm sm:text-base text-cream-600">
+            Manage products, categories, uploads, and admin users
+          </p>
+        </div>
+
+        {/* Tabs - Production Ready Design */}
+        <div className="bg-white rounded-xl shadow-md border border-cream-200 p-3 mb-6">
+          <div className="flex flex-wrap gap-2 overflow-x-auto scrollbar-hide">
+            {tabs.map((tab) => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => {
+                    setActiveTab(tab.id);
+                    setError(null);
+                    setSuccess(null);
+                    // Clear edit state when switching tabs
+                    if (tab.id !== "products" && tab.id !== "categories") {
+                      handleCancelEdit();
+                    }
+                    // Fetch data when switching to management tabs
+                    if (tab.id === "manage-products") {
+                      setSelectedSubCategoryFilter("");
+                      fetchProducts();
+                    } else if (tab.id === "manage-categories") {
+                      fetchCategories();
+                      fetchSubCategories(); // Also fetch subcategories for the manage page
+                    } else if (tab.id === "users") {
+                      fetchUsers();
+                    } else if (tab.id === "orders") {
+                      fetchOrders();
+                    } else if (tab.id === "attribute-types") {
+                      fetchAttributeTypes();
+                    } else if (tab.id === "products") {
+                      // Fetch attribute types when products tab is active so they're available for assignment
+                      fetchAttributeTypes();
+                      fetchProducts(); // Also refresh products list
+                    }
+                  }}
+                  className={`flex items-center gap-2.5 px-5 py-3 text-sm sm:text-base font-semibold transition-all duration-200 whitespace-nowrap rounded-lg border-2 ${
+                    activeTab === tab.id
+                      ? "bg-cream-900 text-white border-cream-900 shadow-lg transform scale-105"
+                      : "text-cream-700 bg-white border-cream-200 hover:bg-cream-50 hover:border-cream-300 hover:text-cream-900 hover:shadow-sm"
+                  }`}
+                >
+                  <Icon size={18} className={`sm:w-5 sm:h-5 ${activeTab === tab.id ? "text-white" : "text-cream-600"}`} />
+                  <span className="hidden sm:inline">{tab.label}</span>
+                  <span className="sm:hidden">{tab.label.split(" ")[0]}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Messages */}
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+              className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700"
+            >
+              <AlertCircle size={20} />
+              {error}
+            </motion.div>
+          )}
+          {success && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+              className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-green-700"
+            >
+              <CheckCircle size={20} />
+              {success}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Tab Content */}
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          {/* Add/Edit Product */}
+          {activeTab === "products" && (
+            <form 
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleProductSubmit(e);
+              }}
+              onClick={(e) => {
+                // Prevent form submission when clicking on buttons inside CKEditor
+                const target = e.target as HTMLElement;
+                if (target.closest('.ckeditor-container') || target.closest('[data-ckeditor-button]')) {
+                  e.preventDefault();
+                  e.stopPropagation();
+                }
+              }}
+              className="space-y-6"
+            >
+              {editingProductId && (
+                <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
+                  <p className="text-sm text-blue-800 font-medium">
+                    Editing Product: {productForm.name || "Loading..."}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleCancelEdit}
+                    className="px-3 py-1 text-sm bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200 transition-colors"
+                  >
+                    Cancel Edit
+                  </button>
+                </div>
+              )}
+              {/* Form Progress Indicator - Show all required fields */}
+              <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-blue-900">Required Fields</span>
+                  <span className="text-sm text-blue-700">
+                    {(() => {
+                      // Check all fields that are marked with (*) in the form
+                      const requiredFields = [
+                        { value: productForm.name?.trim(), label: 'Product Name' },
+                        { value: productForm.basePrice, label: 'Base Price' },
+                        { value: productForm.category || productForm.subcategory, label: 'Category/Subcategory' },
+                        { value: productForm.gstPercentage, label: 'GST %' },
+                        { value: productForm.instructions?.trim(), label: 'Instructions' },
+                      ];
+                      const completed = requiredFields.filter(f => f.value).length;
+                      return `${completed}/${requiredFields.length} completed`;
+                    })()}
+                  </span>
+                </div>
+                <div className="w-full bg-blue-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{
+                      width: `${(() => {
+                        const requiredFields = [
+                          productForm.name?.trim(),
+                          productForm.basePrice,
+                          productForm.category || productForm.subcategory,
+                          productForm.gstPercentage,
+                          productForm.instructions?.trim(),
+                        ];
+                        return (requiredFields.filter(Boolean).length / requiredFields.length) * 100;
+                      })()}%`,
+                    }}
+                  />
+                </div>
+              </div>
+
+              {/* Basic Information Section */}
+              <div className="border border-cream-300 rounded-lg p-6 bg-white">
+                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
+                  <Package size={20} />
+                  Basic Information
+                </h3>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
+                      Product Name *
+                      <div className="group relative">
+                        <Info size={14} className="text-cream-500 cursor-help" />
+                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
+                          Enter a clear, descriptive name that customers will see. This should be unique and searchable.
+                        </div>
+                      </div>
+                    </label>
+                    <input
+                      id="product-name"
+                      name="name"
+                      type="text"
+                      required
+                      value={productForm.name}
+                      onChange={(e) => {
+                        setProductForm({ ...productForm, name: e.target.value });
+                        // Clear error when user starts typing
+                        if (productFormErrors.name) {
+                          setProductFormErrors({ ...productFormErrors, name: undefined });
+                        }
+                      }}
+                      className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
+                        productFormErrors.name ? 'border-red-300 bg-red-50' : 'border-cream-300'
+                      }`}
+                      placeholder="e.g., Glossy Business Cards - Premium"
+                      maxLength={100}
+                    />
+                    {productFormErrors.name && (
+                      <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                        <AlertCircle size={12} />
+                        {productFormErrors.name}
+                      </p>
+                    )}
+                    {productForm.name && productForm.name.length > 80 && (
+                      <p className="text-xs text-yellow-600 mt-1">
+                        {100 - productForm.name.length} characters remaining
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
+                      Description
+                      <div className="group relative">
+                        <Info size={14} className="text-cream-500 cursor-help" />
+                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
+                          Detailed product description that customers will see. Use formatting to make it readable and professional. You can insert images using the toolbar buttons.
+                        </div>
+                      </div>
+                    </label>
+                    <RichTextEditor
+                      value={productForm.description}
+                      onChange={(html) =>
+                        setProductForm({
+                          ...productForm,
+                          description: html,
+                        })
+                      }
+                      placeholder="Enter product description. Use the toolbar to format text, insert images, and more."
+                    />
+                    <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                      <p className="text-xs font-medium text-blue-900 mb-1">💡 Rich Text Editor Features:</p>
+                      <ul className="text-xs text-blue-800 space-y-1 list-disc list-inside">
+                        <li>Format text with <strong>bold</strong>, <em>italic</em>, underline, strikethrough</li>
+                        <li>Change font family, font size, and text colors</li>
+                        <li>Insert images using the toolbar button</li>
+                        <li>Create ordered and bullet lists with indentation</li>
+                        <li>Align text (left, center, right, justify)</li>
+                        <li>All formatting is preserved when saved</li>
+                      </ul>
+                    </div>
+                  </div>
+
+                  {/* Product Image Upload */}
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
+                      Product Image
+                      <div className="group relative">
+                        <Info size={14} className="text-cream-500 cursor-help" />
+                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
+                          Upload a product image that will be displayed to customers. Supported formats: JPG, PNG, WebP. Max size: 5MB.
+                        </div>
+                      </div>
+                    </label>
+                    <div className="space-y-2">
+                      <input
+                        type="file"
+                        accept="image/jpeg,image/jpg,image/png,image/webp"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) {
+                            // Validate file type
+                            const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+                            if (!validTypes.includes(file.type)) {
+                              setError("Invalid image format. Please upload JPG, PNG, or WebP image.");
+                              return;
+                            }
+                            // Validate file size (5MB)
+                            if (file.size > 5 * 1024 * 1024) {
+                              setError("Image size must be less than 5MB.");
+                              return;
+                            }
+                            setProductForm({ ...productForm, image: file });
+                            setError(null);
+                          }
+                        }}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-cream-900 file:text-white hover:file:bg-cream-800"
+                      />
+                      {productForm.image && (
+                        <div className="mt-2">
+                          <p className="text-xs text-cream-600 mb-1">Selected: {productForm.image.name}</p>
+                          <div className="relative w-32 h-32 border border-cream-300 rounded-lg overflow-hidden">
+                            <img
+                              src={URL.createObjectURL(productForm.image)}
+                              alt="Product preview"
+                              className="w-full h-full object-cover"
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {editingProductId && !productForm.image && (
+                        <p className="text-xs text-cream-600">Leave empty to keep existing image</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Filters Section - Order Quantity and Other Options */}
+              <div className="border border-cream-300 rounded-lg p-4 bg-cream-50">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-cream-900">Product Filters</h3>
+                  <div className="text-sm text-cream-600">
+                    <Info size={14} className="inline mr-1" />
+                    Printing options should be configured as attributes in the Product Attributes section below
+                  </div>
+                </div>
+                
+                {/* Order Quantity Configuration */}
+                <div className="mb-6 p-4 bg-white rounded-lg border border-cream-200">
+                  <div className="flex items-center justify-between mb-4">
+                    <label className="block text-sm font-medium text-cream-900">
+                      Quantity Configuration *
+                    </label>
+                    <div className="text-xs text-cream-600">
+                      <Info size={14} className="inline mr-1" />
+                      Configure quantity options based on production capabilities and raw material batching
+                    </div>
+                  </div>
+                  
+                  {/* Simple Quantity Configuration */}
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Min Quantity
+                      </label>
+                      <input
+                        type="number"
+                        value={productForm.filters.orderQuantity.min}
+                        onChange={(e) =>
+                          setProductForm({
+                            ...productForm,
+                            filters: {
+                              ...productForm.filters,
+                              orderQuantity: {
+                                ...productForm.filters.orderQuantity,
+                                min: parseInt(e.target.value) || 0,
+                              },
+                            },
+                          })
+                        }
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Max Quantity
+                      </label>
+                      <input
+                        type="number"
+                        value={productForm.filters.orderQuantity.max}
+                        onChange={(e) =>
+                          setProductForm({
+                            ...productForm,
+                            filters: {
+                              ...productForm.filters,
+                              orderQuantity: {
+                                ...productForm.filters.orderQuantity,
+                                max: parseInt(e.target.value) || 0,
+                              },
+                            },
+                          })
+                        }
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Multiples Of
+                      </label>
+                      <input
+                        type="number"
+                        value={productForm.filters.orderQuantity.multiples}
+                        onChange={(e) =>
+                          setProductForm({
+                            ...productForm,
+                            filters: {
+                              ...productForm.filters,
+                              orderQuantity: {
+                                ...productForm.filters.orderQuantity,
+                                multiples: parseInt(e.target.value) || 0,
+                              },
+                            },
+                          })
+                        }
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                  </div>
+
+                </div>
+
+                {/* Delivery Speed Table */}
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-cream-900">
+                      Delivery Speed Options
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => handleAddFilterRow('deliverySpeed')}
+                      className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
+                    >
+                      <Plus size={16} />
+                      Add Option
+                    </button>
+                  </div>
+                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
+                    {deliverySpeedTable.length === 0 ? (
+                      <p className="text-sm text-cream-600 text-center py-4">
+                        No delivery speed options added. Click "Add Option" to start.
+                      </p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                          <thead>
+                            <tr className="bg-cream-100">
+                              <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                                Delivery Speed
+                              </th>
+                              {filterPricesEnabled && (
+                                <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                                  Price Add (per 1000 units)
+                                </th>
+                              )}
+                              <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
+                                Action
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {deliverySpeedTable.map((item, index) => {
+                              const itemName = typeof item === 'string' ? item : item.name;
+                              const itemPrice = typeof item === 'object' ? (item.priceAdd ?? 0) : 0;
+                              return (
+                                <tr key={index}>
+                                  <td className="border border-cream-300 px-3 py-2">
+                                    <input
+                                      type="text"
+                                      value={itemName}
+                                      onChange={(e) => handleUpdateFilterRow('deliverySpeed', index, 'name', e.target.value)}
+                                      className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                      placeholder="e.g., Standard"
+                                    />
+                                  </td>
+                                  {filterPricesEnabled && (
+                                    <td className="border border-cream-300 px-3 py-2">
+                                      <input
+                                        type="number"
+                                        step="0.00001"
+                                        value={itemPrice}
+                                        onChange={(e) => handleUpdateFilterRow('deliverySpeed', index, 'priceAdd', e.target.value)}
+                                        className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                        placeholder="0.00"
+                                      />
+                                    </td>
+                                  )}
+                                  <td className="border border-cream-300 px-3 py-2 text-center">
+                                    <button
+                                      type="button"
+                                      onClick={() => handleRemoveFilterRow('deliverySpeed', index)}
+                                      className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                    >
+                                      <Trash2 size={16} />
+                                    </button>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Texture Type Table (Optional) */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-cream-900">
+                      Texture Type Options (optional)
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => handleAddFilterRow('textureType')}
+                      className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
+                    >
+                      <Plus size={16} />
+                      Add Texture
+                    </button>
+                  </div>
+                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
+                    {textureTypeTable.length === 0 ? (
+                      <p className="text-sm text-cream-600 text-center py-4">
+                        No texture types added. Click "Add Texture" to start.
+                      </p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                          <thead>
+                            <tr className="bg-cream-100">
+                              <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                                Texture Type
+                              </th>
+                              {filterPricesEnabled && (
+                                <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                                  Price Add (per 1000 units)
+                                </th>
+                              )}
+                              <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
+                                Action
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {textureTypeTable.map((item, index) => {
+                              const itemName = typeof item === 'string' ? item : item.name;
+                              const itemPrice = typeof item === 'object' ? (item.priceAdd ?? 0) : 0;
+                              return (
+                                <tr key={index}>
+                                  <td className="border border-cream-300 px-3 py-2">
+                                    <input
+                                      type="text"
+                                      value={itemName}
+                                      onChange={(e) => handleUpdateFilterRow('textureType', index, 'name', e.target.value)}
+                                      className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                      placeholder="e.g., Texture No.1"
+                                    />
+                                  </td>
+                                  {filterPricesEnabled && (
+                                    <td className="border border-cream-300 px-3 py-2">
+                                      <input
+                                        type="number"
+                                        step="0.00001"
+                                        value={itemPrice}
+                                        onChange={(e) => handleUpdateFilterRow('textureType', index, 'priceAdd', e.target.value)}
+                                        className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                        placeholder="0.00"
+                                      />
+                                    </td>
+                                  )}
+                                  <td className="border border-cream-300 px-3 py-2 text-center">
+                                    <button
+                                      type="button"
+                                      onClick={() => handleRemoveFilterRow('textureType', index)}
+                                      className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                    >
+                                      <Trash2 size={16} />
+                                    </button>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Quantity Discounts Section */}
+              <div className="border border-cream-300 rounded-lg p-4 bg-blue-50">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-cream-900">Quantity-Based Discounts</h3>
+                    <p className="text-sm text-cream-600 mt-1">
+                      Set discounts based on order quantity. Customers get better prices when ordering in bulk.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setProductForm({
+                        ...productForm,
+                        quantityDiscounts: [
+                          ...(productForm.quantityDiscounts || []),
+                          { minQuantity: 0, maxQuantity: null, discountPercentage: 0 },
+                        ],
+                      });
+                    }}
+                    className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
+                  >
+                    <Plus size={16} />
+                    Add Discount Tier
+                  </button>
+                </div>
+
+                {(!productForm.quantityDiscounts || productForm.quantityDiscounts.length === 0) ? (
+                  <div className="bg-cream-50 border border-cream-200 rounded-lg p-4">
+                    <p className="text-sm text-cream-600 text-center">
+                      No discount tiers added. Click "Add Discount Tier" to set quantity-based discounts.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="border border-cream-300 rounded-lg overflow-hidden bg-white">
+                    <div className="overflow-x-auto">
+                      <table className="w-full border-collapse">
+                        <thead>
+                          <tr className="bg-cream-100">
+                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                              Min Quantity
+                            </th>
+                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                              Max Quantity
+                            </th>
+                            <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
+                              Discount (%)
+                            </th>
+                            <th className="border border-cream-300 px-3 py-2 text-center text-sm font-medium text-cream-900 w-20">
+                              Action
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {(productForm.quantityDiscounts || []).map((discount, index) => (
+                            <tr key={index}>
+                              <td className="border border-cream-300 px-3 py-2">
+                                <input
+                                  type="number"
+                                  value={discount.minQuantity}
+                                  onChange={(e) => {
+                                    const updated = [...(productForm.quantityDiscounts || [])];
+                                    updated[index].minQuantity = parseInt(e.target.value) || 0;
+                                    setProductForm({ ...productForm, quantityDiscounts: updated });
+                                  }}
+                                  className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                  placeholder="e.g., 1000"
+                                  min="0"
+                                />
+                              </td>
+                              <td className="border border-cream-300 px-3 py-2">
+                                <input
+                                  type="number"
+                                  value={discount.maxQuantity || ""}
+                                  onChange={(e) => {
+                                    const updated = [...(productForm.quantityDiscounts || [])];
+                                    updated[index].maxQuantity = e.target.value ? parseInt(e.target.value) : null;
+                                    setProductForm({ ...productForm, quantityDiscounts: updated });
+                                  }}
+                                  className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                  placeholder="Leave empty for no limit"
+                                  min="0"
+                                />
+                                <p className="text-xs text-cream-500 mt-1">Leave empty for unlimited</p>
+                              </td>
+                              <td className="border border-cream-300 px-3 py-2">
+                                <div className="flex items-center gap-2">
+                                  <input
+                                    type="number"
+                                    value={discount.discountPercentage}
+                                    onChange={(e) => {
+                                      const updated = [...(productForm.quantityDiscounts || [])];
+                                      updated[index].discountPercentage = parseFloat(e.target.value) || 0;
+                                      setProductForm({ ...productForm, quantityDiscounts: updated });
+                                    }}
+                                    className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                    placeholder="e.g., 5"
+                                    min="0"
+                                    max="100"
+                                    step="0.1"
+                                  />
+                                  <span className="text-sm text-cream-600">%</span>
+                                </div>
+                                {discount.discountPercentage > 0 && (
+                                  <p className="text-xs text-cream-600 mt-1">
+                                    Price: {((100 - discount.discountPercentage) / 100).toFixed(2)}x base price
+                                  </p>
+                                )}
+                              </td>
+                              <td className="border border-cream-300 px-3 py-2 text-center">
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    const updated = (productForm.quantityDiscounts || []).filter((_, i) => i !== index);
+                                    setProductForm({ ...productForm, quantityDiscounts: updated });
+                                  }}
+                                  className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="p-3 bg-blue-50 border-t border-cream-300">
+                      <p className="text-xs text-blue-800">
+                        <strong>Example:</strong> Min: 1000, Max: 5000, Discount: 5% → Customers ordering 1000-5000 units get 5% off.
+                        Min: 5000, Max: (empty), Discount: 10% → Customers ordering 5000+ units get 10% off.
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Pricing & Category Section */}
+              <div className="border border-cream-300 rounded-lg p-6 bg-white">
+                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
+                  <CreditCard size={20} />
+                  Pricing & Category
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2 flex items-center gap-2">
+                      Base Price (INR per unit) *
+                      <div className="group relative">
+                        <Info size={14} className="text-cream-500 cursor-help" />
+                        <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block z-10 w-64 p-2 bg-cream-900 text-white text-xs rounded-lg shadow-lg">
+                          The base price per unit before any options, discounts, or taxes are applied.
+                        </div>
+                      </div>
+                    </label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-cream-600">₹</span>
+                      <input
+                        id="product-basePrice"
+                        name="basePrice"
+                        type="number"
+                        required
+                        step="0.00001"
+                        min="0"
+                        value={productForm.basePrice}
+                        onChange={(e) => {
+                          setProductForm({
+                            ...productForm,
+                            basePrice: e.target.value,
+                          });
+                          // Clear error when user starts typing
+                          if (productFormErrors.basePrice) {
+                            setProductFormErrors({ ...productFormErrors, basePrice: undefined });
+                          }
+                        }}
+                        className={`w-full pl-8 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
+                          productFormErrors.basePrice ? 'border-red-300 bg-red-50' : 'border-cream-300'
+                        }`}
+                        placeholder="0.00000"
+                      />
+                      {productFormErrors.basePrice && (
+                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                          <AlertCircle size={12} />
+                          {productFormErrors.basePrice}
+                        </p>
+                      )}
+                    </div>
+                    {productForm.basePrice && parseFloat(productForm.basePrice) < 0 && !productFormErrors.basePrice && (
+                      <p className="text-xs text-red-600 mt-1">Price cannot be negative</p>
+                    )}
+                  </div>
+
+                </div>
+              </div>
+
+              {/* Category & Subcategory Section */}
+              <div className="border border-cream-300 rounded-lg p-6 bg-white">
+                <h3 className="text-lg font-semibold text-cream-900 mb-4 flex items-center gap-2">
+                  <CreditCard size={20} />
+                  Category & Subcategory
+                </h3>
+                <div className="space-y-4">
+                  {/* Step 1: Type Selection */}
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Main Type * <span className="text-xs text-cream-500 font-normal">(Select first to filter categories)</span>
+                    </label>
+                    <ReviewFilterDropdown
+                      label="Select Type"
+                      value={selectedType || ""}
+                      onChange={async (value) => {
+                        const newType = value as string;
+                        setSelectedType(newType);
+                        
+                        // Clear category and subcategory when type changes
+                        setSelectedCategoryPath([]);
+                        setCategoryChildrenMap({});
+                        setProductForm({
+                          ...productForm,
+                          category: "",
+                          subcategory: "",
+                        });
+                        setCategoryProducts([]);
+                        
+                        // Filter categories by type
+                        if (newType) {
+                          const filtered = categories.filter(cat => cat.type === newType && !cat.parent);
+                          setFilteredCategoriesByType(filtered);
+                        } else {
+                          setFilteredCategoriesByType([]);
+                        }
+                      }}
+                      options={[
+                        { value: "", label: "Select Type" },
+                        { value: "Digital", label: "Digital" },
+                        { value: "Bulk", label: "Bulk" },
+                      ]}
+                      className="w-full"
+                    />
+                    {!selectedType && (
+                      <p className="mt-1 text-xs text-amber-600 flex items-center gap-1">
+                        <AlertCircle size={12} />
+                        Please select a type first to see available categories
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Step 2: Category Selection (only shown after type is selected) */}
+                  {selectedType && (
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Category * <span className="text-xs text-cream-500 font-normal">(Select based on type)</span>
+                      </label>
+                      <ReviewFilterDropdown
+                        id="product-category"
+                        label="Select Category"
+                        value={String(productForm.category || selectedCategoryPath[0] || "")}
+                        onChange={async (value) => {
+                          if (value) {
+                            // Set the first level of the path
+                            setSelectedCategoryPath([String(value)]);
+                            // Update product form with the selected category
+                            setProductForm({
+                              ...productForm,
+                              category: String(value),
+                              subcategory: "", // Reset subcategory when category changes
+                            });
+                            
+                            // Clear error when user selects a category
+                            if (productFormErrors.category) {
+                              setProductFormErrors({ ...productFormErrors, category: undefined });
+                            }
+                            
+                            // Immediately fetch children for this category
+                            await fetchCategoryChildren(String(value));
+                            
+                            // Clear products - will show subcategories instead
+                            setCategoryProducts([]);
+                          } else {
+                            // Clear everything
+                            setSelectedCategoryPath([]);
+                            setCategoryChildrenMap({});
+                            setProductForm({
+                              ...productForm,
+                              category: "",
+                              subcategory: "",
+                            });
+                            setCategoryProducts([]);
+                          }
+                        }}
+                        options={[
+                          { value: "", label: "Select Category" },
+                          ...filteredCategoriesByType
+                            .filter(cat => !cat.parent) // Only show top-level categories
+                            .map((cat) => ({
+                              value: cat._id,
+                              label: cat.name,
+                            })),
+                        ]}
+                        className={`w-full ${productFormErrors.category ? 'border-red-300' : ''}`}
+                      />
+                      {productFormErrors.category && (
+                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                          <AlertCircle size={12} />
+                          {productFormErrors.category}
+                        </p>
+                      )}
+                      {!productForm.category && selectedType && !productFormErrors.category && (
+                        <p className="mt-1 text-xs text-amber-600 flex items-center gap-1">
+                          <AlertCircle size={12} />
+                          Please select a category to continue
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+                
+                {/* Subcategory Selection - Only Level 1 */}
+                {productForm.category && selectedCategoryPath.length > 0 && (() => {
+                  const children = categoryChildrenMap[String(selectedCategoryPath[0] || "")] || [];
+                  const isLoading = loadingCategoryChildren[String(selectedCategoryPath[0] || "")] || false;
+                  const selectedChildId = String(selectedCategoryPath[1] || "");
+
+                  return (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
                         Subcategory <span className="text-xs text-cream-500 font-normal">(Optional - Leave empty to create product directly in category)</span>
                       </label>
                       {isLoading && children.length === 0 ? (
@@ -6467,7 +7432,10 @@ const AdminDashboard: React.FC = () => {
                                   Name
                                 </th>
                                 <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900 min-w-[150px]">
-                                  Price (INR per unit)
+                                  Price (INR)
+                                </th>
+                                <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900 min-w-[150px]">
+                                  Charge Basis
                                 </th>
                                 <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900 min-w-[200px]">
                                   Description
@@ -6509,9 +7477,26 @@ const AdminDashboard: React.FC = () => {
                                         )
                                       }
                                       className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm font-medium"
-                                      placeholder="0.00 (INR per unit)"
+                                      placeholder={option.pricingMode === "PERCENTAGE" ? "0 (%)" : "0.00 (INR)"}
                                     />
                                   </td>
+                                  <td className="border border-cream-300 px-3 py-2">
+                                    <select
+                                      value={option.pricingMode}
+                                      onChange={(e) =>
+                                        handleUpdateOptionRow(
+                                          index,
+                                          "pricingMode",
+                                          e.target.value
+                                        )
+                                      }
+                                      className="w-full px-2 py-2.5 border border-cream-200 rounded text-sm"
+                                    >
+                                      {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                                        <option key={mode} value={mode}>{label}</option>
+                                      ))}
+                                    </select>
+                                  </td>
                                   <td className="border border-cream-300 px-3 py-2">
                                     <textarea
                                       value={option.description}
@@ -6580,7 +7565,7 @@ const AdminDashboard: React.FC = () => {
                             </div>
                             <div>
                               <label className="block text-xs font-medium text-cream-700 mb-1">
-                                Price (INR per unit)
+                                Price (INR)
                               </label>
                               <input
                                 type="text"
@@ -6593,9 +7578,29 @@ const AdminDashboard: React.FC = () => {
                                   )
                                 }
                                 className="w-full px-3 py-2 border border-cream-200 rounded text-sm font-medium"
-                                placeholder="0.00 (INR per unit)"
+                                placeholder={option.pricingMode === "PERCENTAGE" ? "0 (%)" : "0.00 (INR)"}
                               />
                             </div>
+                            <div>
+                              <label className="block text-xs font-medium text-cream-700 mb-1">
+                                Charge Basis
+                              </label>
+                              <select
+                                value={option.pricingMode}
+                                onChange={(e) =>
+                                  handleUpdateOptionRow(
+                                    index,
+                                    "pricingMode",
+                                    e.target.value
+                                  )
+                                }
+                                className="w-full px-3 py-2 border border-cream-200 rounded text-sm"
+                              >
+                                {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                                  <option key={mode} value={mode}>{label}</option>
+                                ))}
+                              </select>
+                            </div>
                             <div>
                               <label className="block text-xs font-medium text-cream-700 mb-1">
                                 Description
@@ -6817,6 +7822,218 @@ const AdminDashboard: React.FC = () => {
                       <p className="text-xs text-red-600 mt-1 font-medium">CRITICAL: Required for invoice calculation</p>
                     )}
                   </div>
+
+                  {/* HSN/SAC Code */}
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      HSN/SAC Code
+                    </label>
+                    <input
+                      type="text"
+                      value={productForm.hsnCode}
+                      onChange={(e) =>
+                        setProductForm({
+                          ...productForm,
+                          hsnCode: e.target.value.replace(/[^0-9]/g, "").slice(0, 8),
+                        })
+                      }
+                      className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      placeholder="e.g., 4911"
+                    />
+                    <p className="text-xs text-cream-600 mt-1">Printed on invoices; leave empty to use the default code</p>
+                  </div>
+
+                  {/* Shipping Weight */}
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Shipping Weight per 1000 Units (kg)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={productForm.shippingWeightPer1000}
+                      onChange={(e) =>
+                        setProductForm({
+                          ...productForm,
+                          shippingWeightPer1000: e.target.value,
+                        })
+                      }
+                      className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      placeholder="e.g., 2.5"
+                    />
+                    <p className="text-xs text-cream-600 mt-1">Used for the per-kg rate of delivery zones</p>
+                  </div>
+                </div>
+
+                {/* Custom Size Pricing */}
+                <div className="mt-4 p-4 border border-cream-300 rounded-lg">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={productForm.customSize.enabled}
+                      onChange={(e) => updateCustomSizeForm({ enabled: e.target.checked })}
+                      className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-cream-900 block">Allow Custom Size</span>
+                      <p className="text-xs text-cream-600 mt-1">
+                        Customers enter width and height; the price per piece is area × rate for the quantity, plus wastage.
+                      </p>
+                    </div>
+                  </label>
+
+                  {productForm.customSize.enabled && (
+                    <div className="mt-4 space-y-4">
+                      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-cream-900 mb-1">Unit</label>
+                          <select
+                            value={productForm.customSize.unit}
+                            onChange={(e) => updateCustomSizeForm({ unit: e.target.value })}
+                            className="w-full px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                          >
+                            <option value="INCH">Inches</option>
+                            <option value="MM">Millimetres</option>
+                          </select>
+                        </div>
+                        {([
+                          ["minWidth", "Min Width *"],
+                          ["maxWidth", "Max Width"],
+                          ["minHeight", "Min Height *"],
+                          ["maxHeight", "Max Height"],
+                        ] as const).map(([field, label]) => (
+                          <div key={field}>
+                            <label className="block text-xs font-medium text-cream-900 mb-1">{label}</label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={productForm.customSize[field]}
+                              onChange={(e) => updateCustomSizeForm({ [field]: e.target.value })}
+                              className="w-full px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium text-cream-900">Rate per Square Unit by Quantity *</span>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateCustomSizeForm({
+                                areaRates: [...productForm.customSize.areaRates, { minQuantity: "", maxQuantity: "", ratePerUnitArea: "" }],
+                              })
+                            }
+                            className="text-xs px-3 py-1 bg-cream-900 text-cream-50 rounded hover:bg-cream-800"
+                          >
+                            + Add Rate
+                          </button>
+                        </div>
+                        {productForm.customSize.areaRates.length === 0 ? (
+                          <p className="text-xs text-cream-600">No rates yet. Add at least one quantity range.</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {productForm.customSize.areaRates.map((tier, index) => (
+                              <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                                {([
+                                  ["minQuantity", "Min qty"],
+                                  ["maxQuantity", "Max qty (empty = no limit)"],
+                                  ["ratePerUnitArea", "₹ per sq unit"],
+                                ] as const).map(([field, placeholder]) => (
+                                  <input
+                                    key={field}
+                                    type="number"
+                                    step={field === "ratePerUnitArea" ? "0.0001" : "1"}
+                                    min="0"
+                                    placeholder={placeholder}
+                                    value={tier[field]}
+                                    onChange={(e) => {
+                                      const areaRates = [...productForm.customSize.areaRates];
+                                      areaRates[index] = { ...tier, [field]: e.target.value };
+                                      updateCustomSizeForm({ areaRates });
+                                    }}
+                                    className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                  />
+                                ))}
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    updateCustomSizeForm({
+                                      areaRates: productForm.customSize.areaRates.filter((_, i) => i !== index),
+                                    })
+                                  }
+                                  className="text-red-600 hover:text-red-800 justify-self-start"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium text-cream-900">Wastage by Piece Area</span>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateCustomSizeForm({
+                                wastageRules: [...productForm.customSize.wastageRules, { minArea: "", maxArea: "", wastagePercentage: "" }],
+                              })
+                            }
+                            className="text-xs px-3 py-1 bg-cream-900 text-cream-50 rounded hover:bg-cream-800"
+                          >
+                            + Add Rule
+                          </button>
+                        </div>
+                        {productForm.customSize.wastageRules.length === 0 ? (
+                          <p className="text-xs text-cream-600">No wastage is added.</p>
+                        ) : (
+                          <div className="space-y-2">
+                            {productForm.customSize.wastageRules.map((rule, index) => (
+                              <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                                {([
+                                  ["minArea", "Min area"],
+                                  ["maxArea", "Max area (empty = no limit)"],
+                                  ["wastagePercentage", "Wastage %"],
+                                ] as const).map(([field, placeholder]) => (
+                                  <input
+                                    key={field}
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    placeholder={placeholder}
+                                    value={rule[field]}
+                                    onChange={(e) => {
+                                      const wastageRules = [...productForm.customSize.wastageRules];
+                                      wastageRules[index] = { ...rule, [field]: e.target.value };
+                                      updateCustomSizeForm({ wastageRules });
+                                    }}
+                                    className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                  />
+                                ))}
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    updateCustomSizeForm({
+                                      wastageRules: productForm.customSize.wastageRules.filter((_, i) => i !== index),
+                                    })
+                                  }
+                                  className="text-red-600 hover:text-red-800 justify-self-start"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Price Display Setting */}
@@ -7448,6 +8665,34 @@ const AdminDashboard: React.FC = () => {
                 )}
               </div>
 
+              {/* Pricing Simulator Section */}
+              <div className="border border-cream-300 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-cream-900 flex items-center gap-2">
+                      <Calculator size={20} />
+                      Pricing Simulator
+                    </h3>
+                    <p className="text-sm text-cream-600 mt-1">
+                      What customers pay for each quantity and attribute combination, using the prices entered above.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowPricingSimulator(!showPricingSimulator)}
+                    className="px-4 py-2 text-sm bg-cream-900 text-cream-50 rounded-lg hover:bg-cream-800 flex items-center gap-2"
+                  >
+                    {showPricingSimulator ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    {showPricingSimulator ? "Hide" : "Show"}
+                  </button>
+                </div>
+                {showPricingSimulator && (
+                  <div className="mt-4">
+                    <PricingSimulator product={simulatorProduct} />
+                  </div>
+                )}
+              </div>
+
               <button
                 type="submit"
                 disabled={loading}
@@ -7669,7 +8914,7 @@ const AdminDashboard: React.FC = () => {
                               onClick={() => {
                                 setAttributeTypeForm({
                                   ...attributeTypeForm,
-                                  attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", image: undefined, subattributes: [] }],
+                                  attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", pricingMode: "PER_1000", image: undefined, subattributes: [] }],
                                 });
                               }}
                               className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
@@ -7692,7 +8937,7 @@ const AdminDashboard: React.FC = () => {
                                         Option Name *
                                       </th>
                                       <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                        Price Impact (₹ per 1000 units)
+                                        Price Impact
                                       </th>
                                       <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
                                         Image (Optional)
@@ -7742,7 +8987,19 @@ const AdminDashboard: React.FC = () => {
                                                   step="0.00001"
                                                   min="0"
                                                 />
-                                                <span className="text-xs text-cream-600 whitespace-nowrap">per 1000</span>
+                                                <select
+                                                  value={option.pricingMode || "PER_1000"}
+                                                  onChange={(e) => {
+                                                    const updated = [...attributeTypeForm.attributeOptionsTable];
+                                                    updated[index].pricingMode = e.target.value as PricingMode;
+                                                    setAttributeTypeForm({ ...attributeTypeForm, attributeOptionsTable: updated });
+                                                  }}
+                                                  className="px-2 py-2.5 border border-cream-200 rounded text-xs text-cream-700"
+                                                >
+                                                  {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                                                    <option key={mode} value={mode}>{label}</option>
+                                                  ))}
+                                                </select>
                                               </div>
                                             </td>
                                             <td className="border border-cream-300 px-3 py-2">
@@ -8688,7 +9945,7 @@ const AdminDashboard: React.FC = () => {
                           onClick={() => {
                             setAttributeTypeForm({
                               ...attributeTypeForm,
-                              attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", image: undefined, subattributes: [] }],
+                              attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", pricingMode: "PER_1000", image: undefined, subattributes: [] }],
                             });
                           }}
                           className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
@@ -8711,7 +9968,7 @@ const AdminDashboard: React.FC = () => {
                                     Option Name *
                                   </th>
                                   <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                    Price Impact (₹ per 1000 units)
+                                    Price Impact
                                   </th>
                                   <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
                                     Image (Optional)
@@ -8761,7 +10018,19 @@ const AdminDashboard: React.FC = () => {
                                               step="0.00001"
                                               min="0"
                                             />
-                                            <span className="text-xs text-cream-600 whitespace-nowrap">per 1000</span>
+                                            <select
+                                              value={option.pricingMode || "PER_1000"}
+                                              onChange={(e) => {
+                                                const updated = [...attributeTypeForm.attributeOptionsTable];
+                                                updated[index].pricingMode = e.target.value as PricingMode;
+                                                setAttributeTypeForm({ ...attributeTypeForm, attributeOptionsTable: updated });
+                                              }}
+                                              className="px-2 py-2.5 border border-cream-200 rounded text-xs text-cream-700"
+                                            >
+                                              {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                                                <option key={mode} value={mode}>{label}</option>
+                                              ))}
+                                            </select>
                                           </div>
                                         </td>
                                         <td className="border border-cream-300 px-3 py-2">
@@ -10142,11 +11411,22 @@ const AdminDashboard: React.FC = () => {
           {activeTab === "orders" && (
             <div>
               <div className="mb-4 flex justify-between items-center">
-                <h2 className="text-xl font-bold text-cream-900">
-                  Orders ({orders.length})
-                </h2>
+                <div className="flex items-center gap-3">
+                  {orders.length > 0 && (
+                    <input
+                      type="checkbox"
+                      checked={selectedOrderIds.length === orders.length}
+                      onChange={(e) => setSelectedOrderIds(e.target.checked ? orders.map((order) => order._id) : [])}
+                      className="w-4 h-4 accent-cream-900"
+                      title="Select all orders"
+                    />
+                  )}
+                  <h2 className="text-xl font-bold text-cream-900">
+                    Orders ({orders.length < ordersTotal ? `${orders.length} of ${ordersTotal}` : ordersTotal})
+                  </h2>
+                </div>
                 <button
-                  onClick={fetchOrders}
+                  onClick={() => fetchOrders()}
                   disabled={loadingOrders}
                   className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors disabled:opacity-50 flex items-center gap-2"
                 >
@@ -10161,6 +11441,234 @@ const AdminDashboard: React.FC = () => {
                 </button>
               </div>
 
+              {/* Filters - the export uses the same ones */}
+              <div className="mb-4 p-4 bg-white rounded-lg border border-cream-200 flex flex-wrap items-end gap-3">
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    applyOrderFilters({ ...orderFilters, search: orderSearch.trim() });
+                  }}
+                  className="flex-1 min-w-[240px]"
+                >
+                  <label className="block text-xs font-medium text-cream-700 mb-1">Search</label>
+                  <div className="relative">
+                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-cream-500" />
+                    <input
+                      type="text"
+                      value={orderSearch}
+                      onChange={(e) => setOrderSearch(e.target.value)}
+                      placeholder="Order number, customer name, email or mobile"
+                      className="w-full pl-9 pr-3 py-2 border border-cream-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cream-500"
+                    />
+                  </div>
+                </form>
+                <div>
+                  <label className="block text-xs font-medium text-cream-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={orderFilters.from}
+                    onChange={(e) => applyOrderFilters({ ...orderFilters, from: e.target.value })}
+                    className="px-3 py-2 border border-cream-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cream-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-cream-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={orderFilters.to}
+                    onChange={(e) => applyOrderFilters({ ...orderFilters, to: e.target.value })}
+                    className="px-3 py-2 border border-cream-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cream-500"
+                  />
+                </div>
+                <div className="min-w-[180px]">
+                  <ReviewFilterDropdown
+                    label="Product"
+                    value={orderFilters.product}
+                    onChange={(value) => applyOrderFilters({ ...orderFilters, product: (value as string) || "" })}
+                    options={[
+                      { value: "", label: "All products" },
+                      ...products.map((product) => ({ value: product._id, label: product.name })),
+                    ]}
+                    className="w-full"
+                  />
+                </div>
+                <div className="min-w-[180px]">
+                  <ReviewFilterDropdown
+                    label="Department"
+                    value={orderFilters.department}
+                    onChange={(value) => applyOrderFilters({ ...orderFilters, department: (value as string) || "" })}
+                    options={[
+                      { value: "", label: "All departments" },
+                      ...departments.map((dept) => ({
+                        value: dept._id,
+                        label: `${dept.name} (${orderFacets?.department[dept._id] ?? 0})`,
+                      })),
+                    ]}
+                    className="w-full"
+                  />
+                </div>
+                <button
+                  onClick={() => {
+                    setOrderSearch("");
+                    applyOrderFilters(EMPTY_ORDER_FILTERS);
+                  }}
+                  className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                >
+                  Clear filters
+                </button>
+                <div className="flex gap-2 ml-auto">
+                  {(["csv", "xlsx"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportOrders(format)}
+                      disabled={exportingOrders !== null}
+                      className="px-4 py-2 bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {exportingOrders === format ? <Loader className="animate-spin" size={16} /> : <Download size={16} />}
+                      Export {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Status and payment chips with the number of orders each would show */}
+              <div className="mb-4 space-y-2">
+                {[
+                  {
+                    key: "status" as const,
+                    allLabel: "All statuses",
+                    labels: ORDER_STATUS_LABELS as Record<string, string>,
+                  },
+                  {
+                    key: "paymentStatus" as const,
+                    allLabel: "All payments",
+                    labels: PAYMENT_STATUS_LABELS,
+                  },
+                ].map(({ key, allLabel, labels }) => {
+                  const counts = orderFacets?.[key] || {};
+                  const allCount = Object.values(counts).reduce((sum, count) => sum + count, 0);
+                  return (
+                    <div key={key} className="flex flex-wrap gap-2">
+                      {[["", allLabel, allCount] as const, ...Object.entries(labels).map(([value, label]) => [value, label, counts[value] || 0] as const)].map(
+                        ([value, label, count]) => (
+                          <button
+                            key={value || "all"}
+                            onClick={() => applyOrderFilters({ ...orderFilters, [key]: value })}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                              orderFilters[key] === value
+                                ? "bg-cream-900 text-white border-cream-900"
+                                : "bg-white text-cream-800 border-cream-300 hover:bg-cream-100"
+                            }`}
+                          >
+                            {label} ({count})
+                          </button>
+                        )
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Bulk actions - each selected order is validated and updated on its own */}
+              {selectedOrderIds.length > 0 && (
+                <div className="mb-4 p-4 bg-cream-50 rounded-lg border border-cream-200 flex flex-wrap items-end gap-3">
+                  <p className="text-sm font-semibold text-cream-900 self-center">
+                    {selectedOrderIds.length} selected
+                  </p>
+                  <div className="min-w-[200px]">
+                    <ReviewFilterDropdown
+                      label="Action"
+                      value={bulkAction.operation}
+                      onChange={(value) => setBulkAction({ ...bulkAction, operation: value as BulkOrderOperation })}
+                      options={(Object.keys(BULK_ORDER_OPERATION_LABELS) as BulkOrderOperation[]).map((operation) => ({
+                        value: operation,
+                        label: BULK_ORDER_OPERATION_LABELS[operation],
+                      }))}
+                      className="w-full"
+                    />
+                  </div>
+                  {bulkAction.operation === "status" && (
+                    <div className="min-w-[180px]">
+                      <ReviewFilterDropdown
+                        label="Select Status"
+                        value={bulkAction.status}
+                        onChange={(value) => setBulkAction({ ...bulkAction, status: value as string })}
+                        options={bulkStatusOptions.map((status) => ({ value: status, label: ORDER_STATUS_LABELS[status] }))}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                  {bulkAction.operation === "reassign_department" && (
+                    <div className="min-w-[180px]">
+                      <ReviewFilterDropdown
+                        label="Select Department"
+                        value={bulkAction.departmentId}
+                        onChange={(value) => setBulkAction({ ...bulkAction, departmentId: value as string })}
+                        options={departments
+                          .filter((dept) => dept.isEnabled !== false)
+                          .map((dept) => ({ value: dept._id, label: dept.name }))}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                  {bulkAction.operation === "delivery_date" && (
+                    <input
+                      type="date"
+                      value={bulkAction.deliveryDate}
+                      onChange={(e) => setBulkAction({ ...bulkAction, deliveryDate: e.target.value })}
+                      className="px-4 py-2 border border-cream-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cream-500"
+                    />
+                  )}
+                  <button
+                    onClick={handleBulkOrderAction}
+                    disabled={runningBulkAction}
+                    className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2 ${
+                      bulkAction.operation === "cancel" ? "bg-red-600 hover:bg-red-700" : "bg-cream-900 hover:bg-cream-800"
+                    }`}
+                  >
+                    {runningBulkAction && <Loader className="animate-spin" size={16} />}
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => setSelectedOrderIds([])}
+                    className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                  >
+                    Clear selection
+                  </button>
+                </div>
+              )}
+
+              {bulkResults && (
+                <div className="mb-4 p-4 bg-white rounded-lg border border-cream-200">
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="text-sm font-semibold text-cream-900">
+                      Last bulk action: {bulkResults.filter((result) => result.success).length} of {bulkResults.length} updated
+                    </p>
+                    <button onClick={() => setBulkResults(null)} className="text-cream-600 hover:text-cream-900">
+                      <X size={16} />
+                    </button>
+                  </div>
+                  <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                    {bulkResults.map((result) => (
+                      <li
+                        key={result.orderId}
+                        className={`flex items-center gap-2 ${result.success ? "text-green-700" : "text-red-700"}`}
+                      >
+                        {result.success ? <CheckCircle size={14} /> : <AlertCircle size={14} />}
+                        <span className="font-semibold">#{result.orderNumber || result.orderId}</span>
+                        <span>
+                          {result.success
+                            ? result.previousStatus && result.status && result.previousStatus !== result.status
+                              ? `${ORDER_STATUS_LABELS[result.previousStatus]} → ${ORDER_STATUS_LABELS[result.status]}`
+                              : "Updated"
+                            : result.error}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {loadingOrders ? (
                 <div className="text-center py-12">
                   <Loader className="animate-spin text-cream-600 mx-auto mb-4" size={48} />
@@ -10175,13 +11683,19 @@ const AdminDashboard: React.FC = () => {
                 <div className="space-y-4">
                   {orders.map((order) => {
                     // Skip orders with null product
-                    if (!order.product) {
+                    if (!order.product && !isMultiLineOrder(order)) {
                       return (
                         <div
                           key={order._id}
                           className="bg-white rounded-lg border border-cream-200 p-4 sm:p-6 hover:shadow-md transition-shadow"
                         >
                           <div className="flex items-center gap-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedOrderIds.includes(order._id)}
+                              onChange={() => toggleOrderSelection(order._id)}
+                              className="w-4 h-4 accent-cream-900"
+                            />
                             <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gray-200 rounded-lg border border-cream-200 flex items-center justify-center">
                               <Package size={24} className="text-gray-400" />
                             </div>
@@ -10204,9 +11718,15 @@ const AdminDashboard: React.FC = () => {
                       >
                         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4 pb-4 border-b border-cream-100">
                           <div className="flex items-center gap-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedOrderIds.includes(order._id)}
+                              onChange={() => toggleOrderSelection(order._id)}
+                              className="w-4 h-4 accent-cream-900"
+                            />
                             <img
-                              src={order.product?.image || PLACEHOLDER_IMAGE}
-                              alt={order.product?.name || "Product"}
+                              src={(isMultiLineOrder(order) ? order.items![0].product?.image : order.product?.image) || PLACEHOLDER_IMAGE}
+                              alt={getOrderProductLabel(order)}
                               className="w-16 h-16 sm:w-20 sm:h-20 object-cover rounded-lg border border-cream-200"
                               onError={(e) => {
                                 const target = e.target as HTMLImageElement;
@@ -10214,7 +11734,7 @@ const AdminDashboard: React.FC = () => {
                               }}
                             />
                             <div>
-                              <h3 className="font-bold text-cream-900 text-lg">{order.product?.name || "Unknown Product"}</h3>
+                              <h3 className="font-bold text-cream-900 text-lg">{isMultiLineOrder(order) ? getOrderProductLabel(order) : (order.product?.name || "Unknown Product")}</h3>
                               <p className="text-sm text-cream-600 font-semibold">Order #{order.orderNumber}</p>
                               <p className="text-xs text-cream-500 mt-1">
                                 {order.user?.name || "Unknown"} ({order.user?.email || "Unknown"})
@@ -10250,7 +11770,9 @@ const AdminDashboard: React.FC = () => {
                       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 mb-4">
                         <div className="bg-cream-50 rounded-lg p-3">
                           <p className="text-xs text-cream-600 mb-1">Quantity</p>
-                          <p className="font-bold text-cream-900">{order.quantity} units</p>
+                          <p className="font-bold text-cream-900">
+                            {isMultiLineOrder(order) ? `${order.items!.length} items` : `${order.quantity} units`}
+                          </p>
                         </div>
                         <div className="bg-cream-50 rounded-lg p-3">
                           <p className="text-xs text-cream-600 mb-1">Finish</p>
@@ -10325,6 +11847,8 @@ const AdminDashboard: React.FC = () => {
                               status: order.status,
                               deliveryDate: order.deliveryDate ? new Date(order.deliveryDate).toISOString().split('T')[0] : "",
                               adminNotes: order.adminNotes || "",
+                              paymentStatus: order.paymentStatus || "pending",
+                              advancePaid: String(order.advancePaid || 0),
                             });
                             setShowOrderModal(true);
                           }}
@@ -10408,12 +11932,26 @@ const AdminDashboard: React.FC = () => {
                     </div>
                     );
                   })}
+                  {ordersNextCursor && (
+                    <div className="text-center">
+                      <button
+                        onClick={loadMoreOrders}
+                        disabled={loadingMoreOrders}
+                        className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors disabled:opacity-50 inline-flex items-center gap-2"
+                      >
+                        {loadingMoreOrders && <Loader className="animate-spin" size={16} />}
+                        Load more orders
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           )}
 
           {/* Uploaded Images */}
+          {activeTab === "complaints" && <ComplaintsManager />}
+
           {activeTab === "uploads" && (
             <div>
               <div className="mb-4 flex justify-between items-center">
@@ -10745,6 +12283,13 @@ const AdminDashboard: React.FC = () => {
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openPriceHistory(product)}
+                            className="px-4 py-2 bg-cream-100 text-cream-900 rounded-lg hover:bg-cream-200 transition-colors flex items-center gap-2"
+                          >
+                            <Clock size={18} />
+                            Price History
+                          </button>
                           <button
                             onClick={() => handleEditProduct(product._id)}
                             disabled={loading}
@@ -11624,7 +13169,7 @@ const AdminDashboard: React.FC = () => {
                           onClick={() => {
                             setAttributeTypeForm({
                               ...attributeTypeForm,
-                              attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", image: undefined, subattributes: [] }],
+                              attributeOptionsTable: [...attributeTypeForm.attributeOptionsTable, { name: "", priceImpactPer1000: "", pricingMode: "PER_1000", image: undefined, subattributes: [] }],
                             });
                           }}
                           className="px-3 py-1 text-sm bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-2"
@@ -11652,7 +13197,7 @@ const AdminDashboard: React.FC = () => {
                                     Option Name *
                                   </th>
                                   <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
-                                    Price Impact (₹ per 1000 units)
+                                    Price Impact
                                   </th>
                                   <th className="border border-cream-300 px-3 py-2 text-left text-sm font-medium text-cream-900">
                                     Image (Optional)
@@ -11702,7 +13247,19 @@ const AdminDashboard: React.FC = () => {
                                           step="0.00001"
                                           min="0"
                                         />
-                                        <span className="text-xs text-cream-600 whitespace-nowrap">per 1000</span>
+                                        <select
+                                          value={option.pricingMode || "PER_1000"}
+                                          onChange={(e) => {
+                                            const updated = [...attributeTypeForm.attributeOptionsTable];
+                                            updated[index].pricingMode = e.target.value as PricingMode;
+                                            setAttributeTypeForm({ ...attributeTypeForm, attributeOptionsTable: updated });
+                                          }}
+                                          className="px-2 py-2.5 border border-cream-200 rounded text-xs text-cream-700"
+                                        >
+                                          {Object.entries(PRICING_MODE_LABELS).map(([mode, label]) => (
+                                            <option key={mode} value={mode}>{label}</option>
+                                          ))}
+                                        </select>
                                       </div>
                                     </td>
                                     <td className="border border-cream-300 px-3 py-2">
@@ -12055,389 +13612,1551 @@ const AdminDashboard: React.FC = () => {
                                                 </tbody>
                                               </table>
                                             </div>
-                                          </div>
-                                        )}
+                                          </div>
+                                        )}
+                                      </div>
+                                    </td>
+                                  </tr>
+                                )}
+                              </React.Fragment>
+                            );
+                          })}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                      </div>
+                      <p className="mt-2 text-xs text-cream-600">
+                        Add all options customers can choose from. If "Is Price Effect" is checked, enter the price impact per 1000 units for each option.
+                      </p>
+                    </div>
+                  ) : null}
+
+                  {/* Step 2: Checkboxes */}
+                  <div className="border-b border-cream-200 pb-4">
+                    <h3 className="text-lg font-semibold text-cream-900 mb-4">Additional Settings</h3>
+                    <div className="space-y-4">
+                      {/* Is Price Effect Checkbox */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isPriceEffect}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isPriceEffect: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Is Price Effect?
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if selecting this attribute changes the product price
+                          </p>
+                          {attributeTypeForm.isPriceEffect && (
+                            <div className="mt-3">
+                              <label className="block text-sm font-medium text-cream-900 mb-2">
+                                Price Effect Amount (₹ per 1000 units) *
+                              </label>
+                              <div className="flex items-center gap-2">
+                                <span className="text-lg text-cream-700">₹</span>
+                                <input
+                                  type="number"
+                                  value={attributeTypeForm.priceEffectAmount}
+                                  onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, priceEffectAmount: e.target.value })}
+                                  className="flex-1 px-3 py-2 border border-cream-300 rounded-lg"
+                                  placeholder="e.g., 20 (means +₹20 per 1000 units)"
+                                  step="0.00001"
+                                  min="0"
+                                  required={attributeTypeForm.isPriceEffect}
+                                />
+                                <span className="text-sm text-cream-600">per 1000 units</span>
+                              </div>
+                              <p className="mt-2 text-xs text-cream-600">
+                                Enter how much the price changes per 1000 units. Example: "20" means +₹20 for every 1000 units.
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {/* Is Step Quantity Checkbox */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isStepQuantity}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isStepQuantity: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Is Step Quantity?
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if this attribute restricts quantity to specific steps (e.g., 1000, 2000, 3000 only)
+                          </p>
+                          {attributeTypeForm.isStepQuantity && (
+                            <div className="mt-3 space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="text-sm font-medium text-cream-900">Steps:</h4>
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setAttributeTypeForm({
+                                      ...attributeTypeForm,
+                                      stepQuantities: [...attributeTypeForm.stepQuantities, { quantity: "", price: "" }],
+                                    });
+                                  }}
+                                  className="px-3 py-1 text-xs bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-1"
+                                >
+                                  <Plus size={14} />
+                                  Add Step
+                                </button>
+                              </div>
+                              {attributeTypeForm.stepQuantities.length === 0 ? (
+                                <p className="text-xs text-cream-600">No steps added. Click "Add Step" to start.</p>
+                              ) : (
+                                <div className="space-y-2">
+                                  {attributeTypeForm.stepQuantities.map((step, index) => (
+                                    <div key={index} className="flex items-center gap-2 p-2 bg-white border border-cream-200 rounded-lg">
+                                      <span className="text-sm text-cream-700 whitespace-nowrap">Step - {index + 1}:</span>
+                                      <input
+                                        type="number"
+                                        value={step.quantity}
+                                        onChange={(e) => {
+                                          const updated = [...attributeTypeForm.stepQuantities];
+                                          updated[index].quantity = e.target.value;
+                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
+                                        placeholder="quantity of step"
+                                        min="0"
+                                        step="100"
+                                      />
+                                      <span className="text-sm text-cream-700 whitespace-nowrap">Price:</span>
+                                      <input
+                                        type="number"
+                                        value={step.price}
+                                        onChange={(e) => {
+                                          const updated = [...attributeTypeForm.stepQuantities];
+                                          updated[index].price = e.target.value;
+                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
+                                        placeholder="price of step"
+                                        min="0"
+                                        step="0.01"
+                                      />
+                                      <button
+                                        type="button"
+                                        onClick={() => {
+                                          const updated = attributeTypeForm.stepQuantities.filter((_, i) => i !== index);
+                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
+                                        }}
+                                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                      >
+                                        <Trash2 size={16} />
+                                      </button>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {/* Is Range Quantity Checkbox */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isRangeQuantity}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isRangeQuantity: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Is Range Quantity?
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if this attribute restricts quantity to specific Range (e.g., 1000-2000, 2000-5000)
+                          </p>
+                          {attributeTypeForm.isRangeQuantity && (
+                            <div className="mt-3 space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="text-sm font-medium text-cream-900">Ranges:</h4>
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setAttributeTypeForm({
+                                      ...attributeTypeForm,
+                                      rangeQuantities: [...attributeTypeForm.rangeQuantities, { min: "", max: "", price: "" }],
+                                    });
+                                  }}
+                                  className="px-3 py-1 text-xs bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-1"
+                                >
+                                  <Plus size={14} />
+                                  Add Range
+                                </button>
+                              </div>
+                              {attributeTypeForm.rangeQuantities.length === 0 ? (
+                                <p className="text-xs text-cream-600">No ranges added. Click "Add Range" to start.</p>
+                              ) : (
+                                <div className="space-y-2">
+                                  {attributeTypeForm.rangeQuantities.map((range, index) => (
+                                    <div key={index} className="flex items-center gap-2 p-2 bg-white border border-cream-200 rounded-lg">
+                                      <span className="text-sm text-cream-700 whitespace-nowrap">Range - {index + 1}:</span>
+                                      <input
+                                        type="number"
+                                        value={range.min}
+                                        onChange={(e) => {
+                                          const updated = [...attributeTypeForm.rangeQuantities];
+                                          updated[index].min = e.target.value;
+                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
+                                        placeholder="min quantity"
+                                        min="0"
+                                        step="100"
+                                      />
+                                      <span className="text-sm text-cream-700">-</span>
+                                      <input
+                                        type="number"
+                                        value={range.max}
+                                        onChange={(e) => {
+                                          const updated = [...attributeTypeForm.rangeQuantities];
+                                          updated[index].max = e.target.value;
+                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
+                                        placeholder="max quantity"
+                                        min="0"
+                                        step="100"
+                                      />
+                                      <span className="text-sm text-cream-700 whitespace-nowrap">Price:</span>
+                                      <input
+                                        type="number"
+                                        value={range.price}
+                                        onChange={(e) => {
+                                          const updated = [...attributeTypeForm.rangeQuantities];
+                                          updated[index].price = e.target.value;
+                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
+                                        }}
+                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
+                                        placeholder="price of range"
+                                        min="0"
+                                        step="0.01"
+                                      />
+                                      <button
+                                        type="button"
+                                        onClick={() => {
+                                          const updated = attributeTypeForm.rangeQuantities.filter((_, i) => i !== index);
+                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
+                                        }}
+                                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                      >
+                                        <Trash2 size={16} />
+                                      </button>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
+
+                  {attributeTypeForm.primaryEffectType === "FILE" && (
+                    <div className="border-b border-cream-200 pb-4">
+                      <h3 className="text-lg font-semibold text-cream-900 mb-4">File Requirements</h3>
+                      <div>
+                        <label className="block text-sm font-medium text-cream-900 mb-2">
+                          File Requirements Description
+                        </label>
+                        <textarea
+                          value={attributeTypeForm.fileRequirements}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, fileRequirements: e.target.value })}
+                          className="w-full px-3 py-2 border border-cream-300 rounded-lg"
+                          rows={3}
+                          placeholder="e.g., Upload your design file (JPG, PNG, PDF). Minimum 300 DPI recommended."
+                        />
+                        <p className="mt-2 text-xs text-cream-600">
+                          Describe what type of file customers need to upload and any requirements (format, size, resolution, etc.)
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Step 3: Settings */}
+                  <div className="border-b border-cream-200 pb-4">
+                    <h3 className="text-lg font-semibold text-cream-900 mb-4">Settings</h3>
+                    <div className="space-y-4">
+                      {/* Allow Filtering */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isFilterable}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isFilterable: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Allow Filtering
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if customers can filter products by this attribute (e.g., filter by color, size, etc.)
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Required Selection */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isRequired}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isRequired: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Required Selection
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if customers must select an option before they can place an order
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Available for All Products */}
+                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                        <input
+                          type="checkbox"
+                          checked={attributeTypeForm.isCommonAttribute}
+                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isCommonAttribute: e.target.checked })}
+                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                        />
+                        <div className="flex-1">
+                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
+                            Available for All Products
+                          </label>
+                          <p className="text-xs text-cream-600 mt-1">
+                            Check this if this attribute can be used with any product. Uncheck to restrict to specific categories/subcategories.
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-4">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="px-6 py-2 bg-cream-900 text-white rounded-lg hover:bg-cream-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {loading ? "Saving..." : editingAttributeTypeId ? "Update Attribute Type" : "Create Attribute Type"}
+                    </button>
+                    {editingAttributeTypeId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingAttributeTypeId(null);
+      setAttributeTypeForm({
+        attributeName: "",
+        inputStyle: "DROPDOWN",
+        attributeImage: null,
+        effectDescription: "",
+        simpleOptions: "",
+        isPriceEffect: false,
+        isStepQuantity: false,
+        isRangeQuantity: false,
+        isFixedQuantity: false,
+        priceEffectAmount: "",
+        stepQuantities: [],
+        rangeQuantities: [],
+        fixedQuantityMin: "",
+        fixedQuantityMax: "",
+        primaryEffectType: "INFORMATIONAL",
+        priceImpactPer1000: "",
+        fileRequirements: "",
+        attributeOptionsTable: [],
+        // Reset auto-set fields
+        functionType: "GENERAL",
+        isPricingAttribute: false,
+        isFixedQuantityNeeded: false,
+        isFilterable: false,
+        attributeValues: [],
+        defaultValue: "",
+        isRequired: false,
+        displayOrder: 0,
+        isCommonAttribute: true,
+        applicableCategories: [],
+        applicableSubCategories: [],
+      });
+                        }}
+                        className="px-6 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </div>
+
+              <div className="bg-white rounded-lg border border-cream-200 p-6">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-xl font-bold text-cream-900">All Attribute Types</h2>
+                  <div className="flex items-center gap-3">
+                    <div className="relative">
+                      <input
+                        type="text"
+                        value={attributeTypeSearch}
+                        onChange={(e) => setAttributeTypeSearch(e.target.value)}
+                        placeholder="Search attribute types..."
+                        className="pl-10 pr-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 w-64"
+                      />
+                      <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-cream-500" />
+                    </div>
+                    <div className="text-sm text-cream-600">
+                      {(() => {
+                        const filtered = attributeTypes.filter((at) =>
+                          !attributeTypeSearch ||
+                          at.attributeName?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
+                          at.inputStyle?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
+                          at.primaryEffectType?.toLowerCase().includes(attributeTypeSearch.toLowerCase())
+                        );
+                        return `${filtered.length} of ${attributeTypes.length}`;
+                      })()}
+                    </div>
+                  </div>
+                </div>
+                {loadingAttributeTypes ? (
+                  <div className="text-center py-8">
+                    <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
+                  </div>
+                ) : attributeTypes.length === 0 ? (
+                  <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
+                    <p className="text-cream-600">No attribute types found. Create one above.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-cream-100">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Name</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Input Style</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Options</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Subattributes</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Effect Type</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Pricing</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Common</th>
+                            <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-cream-200">
+                          {attributeTypes
+                            .filter((at) =>
+                              !attributeTypeSearch ||
+                              at.attributeName?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
+                              at.inputStyle?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
+                              at.primaryEffectType?.toLowerCase().includes(attributeTypeSearch.toLowerCase())
+                            )
+                            .map((at) => {
+                              const options = at.attributeValues || [];
+                              const totalSubattributes = options.reduce((sum: number, opt: any) => {
+                                return sum + (opt.subattributes && Array.isArray(opt.subattributes) ? opt.subattributes.length : 0);
+                              }, 0);
+                              
+                              return (
+                              <tr key={at._id} className="hover:bg-cream-50">
+                                <td className="px-4 py-3 text-sm font-medium text-cream-900">{at.attributeName}</td>
+                                <td className="px-4 py-3 text-sm text-cream-600">
+                                  <span className="px-2 py-1 bg-cream-100 text-cream-700 rounded-md text-xs font-medium">
+                                    {at.inputStyle || 'N/A'}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-cream-600">
+                                  <div className="flex flex-col gap-1">
+                                    <span className="font-medium">{options.length} option{options.length !== 1 ? 's' : ''}</span>
+                                    {options.length > 0 && (
+                                      <div className="text-xs text-cream-500">
+                                        {options.slice(0, 3).map((opt: any, idx: number) => (
+                                          <span key={idx}>
+                                            {opt.label || opt.value}
+                                            {idx < Math.min(2, options.length - 1) && ', '}
+                                          </span>
+                                        ))}
+                                        {options.length > 3 && <span>...</span>}
+                                      </div>
+                                    )}
+                                  </div>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-cream-600">
+                                  {totalSubattributes > 0 ? (
+                                    <div className="flex items-center gap-2">
+                                      <span className="px-2 py-1 bg-green-100 text-green-700 rounded-md text-xs font-medium">
+                                        {totalSubattributes} subattribute{totalSubattributes !== 1 ? 's' : ''}
+                                      </span>
+                                      <div className="text-xs text-cream-500">
+                                        {options.map((opt: any, optIdx: number) => {
+                                          const subCount = opt.subattributes && Array.isArray(opt.subattributes) ? opt.subattributes.length : 0;
+                                          if (subCount === 0) return null;
+                                          return (
+                                            <div key={optIdx} className="text-xs">
+                                              <span className="font-medium">{opt.label || opt.value}:</span> {subCount}
+                                            </div>
+                                          );
+                                        }).filter(Boolean).slice(0, 2)}
+                                        {options.filter((opt: any) => opt.subattributes && opt.subattributes.length > 0).length > 2 && '...'}
                                       </div>
-                                    </td>
-                                  </tr>
-                                )}
-                              </React.Fragment>
+                                    </div>
+                                  ) : (
+                                    <span className="text-xs text-cream-400">None</span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-cream-600">{at.primaryEffectType}</td>
+                                <td className="px-4 py-3 text-sm text-cream-600">
+                                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                                    at.isPricingAttribute 
+                                      ? 'bg-green-100 text-green-700' 
+                                      : 'bg-gray-100 text-gray-600'
+                                  }`}>
+                                    {at.isPricingAttribute ? "Yes" : "No"}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-cream-600">
+                                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${
+                                    at.isCommonAttribute 
+                                      ? 'bg-blue-100 text-blue-700' 
+                                      : 'bg-gray-100 text-gray-600'
+                                  }`}>
+                                    {at.isCommonAttribute ? "Yes" : "No"}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-center">
+                                  <div className="flex items-center justify-center gap-2">
+                                    <button
+                                      onClick={() => handleEditAttributeType(at._id)}
+                                      className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                      title="Edit attribute type"
+                                    >
+                                      <Edit size={16} />
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteAttributeType(at._id)}
+                                      className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                      title="Delete attribute type"
+                                    >
+                                      <Trash2 size={16} />
+                                    </button>
+                                  </div>
+                                </td>
+                              </tr>
                             );
                           })}
-                              </tbody>
-                            </table>
-                          </div>
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Department Management */}
+          {activeTab === "departments" && (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-xl font-bold text-cream-900 mb-4">
+                  {editingDepartmentId ? "Edit Department" : "Create Department"}
+                </h2>
+                <form onSubmit={handleDepartmentSubmit} className="space-y-6 bg-white p-6 rounded-lg border border-cream-200">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Department Name *
+                      </label>
+                      <input
+                        id="department-name"
+                        name="name"
+                        type="text"
+                        required
+                        value={departmentForm.name}
+                        onChange={(e) => {
+                          setDepartmentForm({ ...departmentForm, name: e.target.value });
+                          if (departmentFormErrors.name) {
+                            setDepartmentFormErrors({ ...departmentFormErrors, name: undefined });
+                          }
+                        }}
+                        className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
+                          departmentFormErrors.name ? 'border-red-300 bg-red-50' : 'border-cream-300'
+                        }`}
+                        placeholder="e.g., Prepress, Digital Printing"
+                      />
+                      {departmentFormErrors.name && (
+                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                          <AlertCircle size={12} />
+                          {departmentFormErrors.name}
+                        </p>
+                      )}
+                    </div>
+
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Description
+                    </label>
+                    <textarea
+                      value={departmentForm.description}
+                      onChange={(e) =>
+                        setDepartmentForm({ ...departmentForm, description: e.target.value })
+                      }
+                      rows={3}
+                      className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      placeholder="Brief description of department responsibilities"
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={departmentForm.isEnabled}
+                        onChange={(e) =>
+                          setDepartmentForm({ ...departmentForm, isEnabled: e.target.checked })
+                        }
+                        className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                      />
+                      <span className="text-sm font-medium text-cream-900">Enabled</span>
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Assign Operators (Optional)
+                    </label>
+                    <p className="text-xs text-cream-600 mb-2">
+                      Select employees who can perform actions for this department. Only employees can be assigned. Leave empty to allow all authenticated users.
+                    </p>
+                    <div className="space-y-2 max-h-40 overflow-y-auto border border-cream-200 rounded-lg p-3">
+                      {employees.length === 0 ? (
+                        <p className="text-sm text-cream-600">No employees available. Create users and mark them as employees first.</p>
+                      ) : (
+                        employees.map((employee) => {
+                          // Ensure proper ID comparison (handle both string and ObjectId formats)
+                          const isAssigned = departmentForm.operators.some((opId: any) => 
+                            String(opId) === String(employee._id)
+                          );
+                          
+                          // Find all departments where this employee is assigned as operator
+                          const assignedDepartments = departments
+                            .filter((dept: any) => {
+                              if (!dept.operators || dept.operators.length === 0) return false;
+                              return dept.operators.some((op: any) => {
+                                const opId = typeof op === 'object' ? (op._id || op.id || String(op)) : String(op);
+                                return String(opId) === String(employee._id);
+                              });
+                            })
+                            .map((dept: any) => dept.name);
+                          
+                          return (
+                            <label key={employee._id} className="flex items-center gap-3 p-3 bg-cream-50 border border-cream-200 rounded-lg hover:bg-cream-100 transition-colors cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={isAssigned}
+                                onChange={(e) => {
+                                  if (e.target.checked) {
+                                    setDepartmentForm({
+                                      ...departmentForm,
+                                      operators: [...departmentForm.operators, employee._id],
+                                    });
+                                  } else {
+                                    setDepartmentForm({
+                                      ...departmentForm,
+                                      operators: departmentForm.operators.filter((id: any) => String(id) !== String(employee._id)),
+                                    });
+                                  }
+                                }}
+                                className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500 focus:ring-2"
+                              />
+                              <div className="flex-1">
+                                <p className="font-medium text-cream-900">{employee.name}</p>
+                                <p className="text-xs text-cream-600">
+                                  {employee.email}
+                                  {assignedDepartments.length > 0 && (
+                                    <span className="ml-1 text-cream-500">
+                                      ({assignedDepartments.join(", ")})
+                                    </span>
+                                  )}
+                                </p>
+                              </div>
+                              {isAssigned && (
+                                <Check className="text-cream-900" size={20} />
+                              )}
+                            </label>
+                          );
+                        })
+                      )}
+                    </div>
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-cream-900 text-white px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {loading ? (
+                      <>
+                        <Loader className="animate-spin" size={20} />
+                        {editingDepartmentId ? "Updating..." : "Creating..."}
+                      </>
+                    ) : (
+                      <>
+                        <Plus size={20} />
+                        {editingDepartmentId ? "Update Department" : "Create Department"}
+                      </>
+                    )}
+                  </button>
+                </form>
+              </div>
+
+              <div className="border-t border-cream-300 pt-6">
+                <div className="mb-4 flex justify-between items-center">
+                  <h2 className="text-xl font-bold text-cream-900">
+                    All Departments ({departments.length})
+                  </h2>
+                  <button
+                    onClick={fetchDepartments}
+                    className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                  >
+                    Refresh
+                  </button>
+                </div>
+
+                {loadingDepartments ? (
+                  <div className="text-center py-8">
+                    <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
+                  </div>
+                ) : departments.length === 0 ? (
+                  <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
+                    <Building2 size={48} className="mx-auto mb-4 opacity-50" />
+                    <p className="text-cream-600">No departments found. Create one above.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-cream-100">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Name</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Description</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Status</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Operators</th>
+                            <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-cream-200">
+                          {departments
+                            .sort((a, b) => (a.name || "").localeCompare(b.name || ""))
+                            .map((dept) => (
+                            <tr key={dept._id} className="hover:bg-cream-50">
+                              <td className="px-4 py-3 text-sm text-cream-900 font-semibold">{dept.name}</td>
+                              <td className="px-4 py-3 text-sm text-cream-600">{dept.description || "-"}</td>
+                              <td className="px-4 py-3">
+                                <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                                  dept.isEnabled
+                                    ? "bg-green-100 text-green-800"
+                                    : "bg-red-100 text-red-800"
+                                }`}>
+                                  {dept.isEnabled ? "Enabled" : "Disabled"}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {dept.operators && dept.operators.length > 0
+                                  ? `${dept.operators.length} operator(s)`
+                                  : "All users"}
+                              </td>
+                              <td className="px-4 py-3 text-center">
+                                <div className="flex items-center justify-center gap-2">
+                                  <button
+                                    onClick={() => handleEditDepartment(dept._id)}
+                                    className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                  >
+                                    <Edit size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteDepartment(dept._id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Coupons Management */}
+          {activeTab === "coupons" && (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-xl font-bold text-cream-900 mb-4">
+                  {editingCouponId ? "Edit Coupon" : "Create Coupon"}
+                </h2>
+                <form onSubmit={handleCouponSubmit} className="space-y-6 bg-white p-6 rounded-lg border border-cream-200">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Coupon Code *
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        value={couponForm.code}
+                        onChange={(e) => setCouponForm({ ...couponForm, code: e.target.value.toUpperCase() })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg uppercase focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="e.g., DIWALI25"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        value={couponForm.description}
+                        onChange={(e) => setCouponForm({ ...couponForm, description: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="Shown to the customer when applied"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Discount Type *
+                      </label>
+                      <select
+                        value={couponForm.discountType}
+                        onChange={(e) => setCouponForm({ ...couponForm, discountType: e.target.value as "PERCENT" | "FLAT" })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      >
+                        <option value="PERCENT">Percentage (%)</option>
+                        <option value="FLAT">Flat amount (₹)</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        {couponForm.discountType === "PERCENT" ? "Discount (%) *" : "Discount (₹) *"}
+                      </label>
+                      <input
+                        type="number"
+                        required
+                        min="0"
+                        step="0.01"
+                        value={couponForm.discountValue}
+                        onChange={(e) => setCouponForm({ ...couponForm, discountValue: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    {couponForm.discountType === "PERCENT" && (
+                      <div>
+                        <label className="block text-sm font-medium text-cream-900 mb-2">
+                          Maximum Discount (₹)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={couponForm.maxDiscountAmount}
+                          onChange={(e) => setCouponForm({ ...couponForm, maxDiscountAmount: e.target.value })}
+                          className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                          placeholder="No cap"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Minimum Order Value (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={couponForm.minOrderValue}
+                        onChange={(e) => setCouponForm({ ...couponForm, minOrderValue: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="0 (excluding GST)"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Valid From
+                      </label>
+                      <input
+                        type="date"
+                        value={couponForm.validFrom}
+                        onChange={(e) => setCouponForm({ ...couponForm, validFrom: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Valid Until
+                      </label>
+                      <input
+                        type="date"
+                        value={couponForm.validUntil}
+                        onChange={(e) => setCouponForm({ ...couponForm, validUntil: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Total Usage Limit
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={couponForm.usageLimit}
+                        onChange={(e) => setCouponForm({ ...couponForm, usageLimit: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Usage Limit Per Customer
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={couponForm.perUserLimit}
+                        onChange={(e) => setCouponForm({ ...couponForm, perUserLimit: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Restrict to Categories (Optional)
+                      </label>
+                      <div className="space-y-1 max-h-40 overflow-y-auto border border-cream-200 rounded-lg p-3">
+                        {categories.length === 0 ? (
+                          <p className="text-sm text-cream-600">No categories available.</p>
+                        ) : (
+                          categories.map((category) => (
+                            <label key={category._id} className="flex items-center gap-2 text-sm text-cream-900 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={couponForm.applicableCategories.includes(category._id)}
+                                onChange={(e) =>
+                                  setCouponForm({
+                                    ...couponForm,
+                                    applicableCategories: e.target.checked
+                                      ? [...couponForm.applicableCategories, category._id]
+                                      : couponForm.applicableCategories.filter((id) => id !== category._id),
+                                  })
+                                }
+                                className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                              />
+                              {category.name}
+                            </label>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Restrict to Products (Optional)
+                      </label>
+                      <div className="space-y-1 max-h-40 overflow-y-auto border border-cream-200 rounded-lg p-3">
+                        {products.length === 0 ? (
+                          <p className="text-sm text-cream-600">No products available.</p>
+                        ) : (
+                          products.map((product) => (
+                            <label key={product._id} className="flex items-center gap-2 text-sm text-cream-900 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={couponForm.applicableProducts.includes(product._id)}
+                                onChange={(e) =>
+                                  setCouponForm({
+                                    ...couponForm,
+                                    applicableProducts: e.target.checked
+                                      ? [...couponForm.applicableProducts, product._id]
+                                      : couponForm.applicableProducts.filter((id) => id !== product._id),
+                                  })
+                                }
+                                className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                              />
+                              {product.name}
+                            </label>
+                          ))
                         )}
                       </div>
-                      <p className="mt-2 text-xs text-cream-600">
-                        Add all options customers can choose from. If "Is Price Effect" is checked, enter the price impact per 1000 units for each option.
-                      </p>
                     </div>
-                  ) : null}
-
-                  {/* Step 2: Checkboxes */}
-                  <div className="border-b border-cream-200 pb-4">
-                    <h3 className="text-lg font-semibold text-cream-900 mb-4">Additional Settings</h3>
-                    <div className="space-y-4">
-                      {/* Is Price Effect Checkbox */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
-                        <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isPriceEffect}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isPriceEffect: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
-                        />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Is Price Effect?
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if selecting this attribute changes the product price
-                          </p>
-                          {attributeTypeForm.isPriceEffect && (
-                            <div className="mt-3">
-                              <label className="block text-sm font-medium text-cream-900 mb-2">
-                                Price Effect Amount (₹ per 1000 units) *
-                              </label>
-                              <div className="flex items-center gap-2">
-                                <span className="text-lg text-cream-700">₹</span>
-                                <input
-                                  type="number"
-                                  value={attributeTypeForm.priceEffectAmount}
-                                  onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, priceEffectAmount: e.target.value })}
-                                  className="flex-1 px-3 py-2 border border-cream-300 rounded-lg"
-                                  placeholder="e.g., 20 (means +₹20 per 1000 units)"
-                                  step="0.00001"
-                                  min="0"
-                                  required={attributeTypeForm.isPriceEffect}
-                                />
-                                <span className="text-sm text-cream-600">per 1000 units</span>
-                              </div>
-                              <p className="mt-2 text-xs text-cream-600">
-                                Enter how much the price changes per 1000 units. Example: "20" means +₹20 for every 1000 units.
-                              </p>
-                            </div>
-                          )}
-                        </div>
-                      </div>
+                  </div>
+                  <p className="text-xs text-cream-600 -mt-3">
+                    Leave both empty to allow the coupon on every product. A category also covers its sub-categories.
+                  </p>
 
-                      {/* Is Step Quantity Checkbox */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
-                        <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isStepQuantity}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isStepQuantity: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
-                        />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Is Step Quantity?
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if this attribute restricts quantity to specific steps (e.g., 1000, 2000, 3000 only)
-                          </p>
-                          {attributeTypeForm.isStepQuantity && (
-                            <div className="mt-3 space-y-3">
-                              <div className="flex items-center justify-between">
-                                <h4 className="text-sm font-medium text-cream-900">Steps:</h4>
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    setAttributeTypeForm({
-                                      ...attributeTypeForm,
-                                      stepQuantities: [...attributeTypeForm.stepQuantities, { quantity: "", price: "" }],
-                                    });
-                                  }}
-                                  className="px-3 py-1 text-xs bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-1"
-                                >
-                                  <Plus size={14} />
-                                  Add Step
-                                </button>
-                              </div>
-                              {attributeTypeForm.stepQuantities.length === 0 ? (
-                                <p className="text-xs text-cream-600">No steps added. Click "Add Step" to start.</p>
-                              ) : (
-                                <div className="space-y-2">
-                                  {attributeTypeForm.stepQuantities.map((step, index) => (
-                                    <div key={index} className="flex items-center gap-2 p-2 bg-white border border-cream-200 rounded-lg">
-                                      <span className="text-sm text-cream-700 whitespace-nowrap">Step - {index + 1}:</span>
-                                      <input
-                                        type="number"
-                                        value={step.quantity}
-                                        onChange={(e) => {
-                                          const updated = [...attributeTypeForm.stepQuantities];
-                                          updated[index].quantity = e.target.value;
-                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
-                                        }}
-                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
-                                        placeholder="quantity of step"
-                                        min="0"
-                                        step="100"
-                                      />
-                                      <span className="text-sm text-cream-700 whitespace-nowrap">Price:</span>
-                                      <input
-                                        type="number"
-                                        value={step.price}
-                                        onChange={(e) => {
-                                          const updated = [...attributeTypeForm.stepQuantities];
-                                          updated[index].price = e.target.value;
-                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
-                                        }}
-                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
-                                        placeholder="price of step"
-                                        min="0"
-                                        step="0.01"
-                                      />
-                                      <button
-                                        type="button"
-                                        onClick={() => {
-                                          const updated = attributeTypeForm.stepQuantities.filter((_, i) => i !== index);
-                                          setAttributeTypeForm({ ...attributeTypeForm, stepQuantities: updated });
-                                        }}
-                                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                      >
-                                        <Trash2 size={16} />
-                                      </button>
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          )}
-                        </div>
-                      </div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={couponForm.isActive}
+                        onChange={(e) => setCouponForm({ ...couponForm, isActive: e.target.checked })}
+                        className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                      />
+                      <span className="text-sm font-medium text-cream-900">Active</span>
+                    </label>
+                  </div>
 
-                      {/* Is Range Quantity Checkbox */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
-                        <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isRangeQuantity}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isRangeQuantity: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
-                        />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Is Range Quantity?
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if this attribute restricts quantity to specific Range (e.g., 1000-2000, 2000-5000)
-                          </p>
-                          {attributeTypeForm.isRangeQuantity && (
-                            <div className="mt-3 space-y-3">
-                              <div className="flex items-center justify-between">
-                                <h4 className="text-sm font-medium text-cream-900">Ranges:</h4>
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    setAttributeTypeForm({
-                                      ...attributeTypeForm,
-                                      rangeQuantities: [...attributeTypeForm.rangeQuantities, { min: "", max: "", price: "" }],
-                                    });
-                                  }}
-                                  className="px-3 py-1 text-xs bg-cream-900 text-white rounded-lg hover:bg-cream-800 transition-colors flex items-center gap-1"
-                                >
-                                  <Plus size={14} />
-                                  Add Range
-                                </button>
-                              </div>
-                              {attributeTypeForm.rangeQuantities.length === 0 ? (
-                                <p className="text-xs text-cream-600">No ranges added. Click "Add Range" to start.</p>
-                              ) : (
-                                <div className="space-y-2">
-                                  {attributeTypeForm.rangeQuantities.map((range, index) => (
-                                    <div key={index} className="flex items-center gap-2 p-2 bg-white border border-cream-200 rounded-lg">
-                                      <span className="text-sm text-cream-700 whitespace-nowrap">Range - {index + 1}:</span>
-                                      <input
-                                        type="number"
-                                        value={range.min}
-                                        onChange={(e) => {
-                                          const updated = [...attributeTypeForm.rangeQuantities];
-                                          updated[index].min = e.target.value;
-                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
-                                        }}
-                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
-                                        placeholder="min quantity"
-                                        min="0"
-                                        step="100"
-                                      />
-                                      <span className="text-sm text-cream-700">-</span>
-                                      <input
-                                        type="number"
-                                        value={range.max}
-                                        onChange={(e) => {
-                                          const updated = [...attributeTypeForm.rangeQuantities];
-                                          updated[index].max = e.target.value;
-                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
-                                        }}
-                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
-                                        placeholder="max quantity"
-                                        min="0"
-                                        step="100"
-                                      />
-                                      <span className="text-sm text-cream-700 whitespace-nowrap">Price:</span>
-                                      <input
-                                        type="number"
-                                        value={range.price}
-                                        onChange={(e) => {
-                                          const updated = [...attributeTypeForm.rangeQuantities];
-                                          updated[index].price = e.target.value;
-                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
-                                        }}
-                                        className="flex-1 px-2 py-1 border border-cream-300 rounded text-sm"
-                                        placeholder="price of range"
-                                        min="0"
-                                        step="0.01"
-                                      />
-                                      <button
-                                        type="button"
-                                        onClick={() => {
-                                          const updated = attributeTypeForm.rangeQuantities.filter((_, i) => i !== index);
-                                          setAttributeTypeForm({ ...attributeTypeForm, rangeQuantities: updated });
-                                        }}
-                                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                      >
-                                        <Trash2 size={16} />
-                                      </button>
-                                    </div>
-                                  ))}
+                  <div className="flex gap-3">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="flex-1 bg-cream-900 text-white px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      {loading ? (
+                        <>
+                          <Loader className="animate-spin" size={20} />
+                          {editingCouponId ? "Updating..." : "Creating..."}
+                        </>
+                      ) : (
+                        <>
+                          <Plus size={20} />
+                          {editingCouponId ? "Update Coupon" : "Create Coupon"}
+                        </>
+                      )}
+                    </button>
+                    {editingCouponId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCouponForm(emptyCouponForm);
+                          setEditingCouponId(null);
+                        }}
+                        className="px-6 py-3 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              </div>
+
+              <div className="border-t border-cream-300 pt-6">
+                <div className="mb-4 flex justify-between items-center">
+                  <h2 className="text-xl font-bold text-cream-900">
+                    All Coupons ({coupons.length})
+                  </h2>
+                  <button
+                    onClick={fetchCoupons}
+                    className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                  >
+                    Refresh
+                  </button>
+                </div>
+
+                {loadingCoupons ? (
+                  <div className="text-center py-8">
+                    <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
+                  </div>
+                ) : coupons.length === 0 ? (
+                  <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
+                    <Tag size={48} className="mx-auto mb-4 opacity-50" />
+                    <p className="text-cream-600">No coupons found. Create one above.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-cream-100">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Code</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Discount</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Validity</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Usage</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Applies To</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Status</th>
+                            <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-cream-200">
+                          {coupons.map((coupon) => (
+                            <tr key={coupon._id} className="hover:bg-cream-50">
+                              <td className="px-4 py-3 text-sm text-cream-900 font-semibold">
+                                {coupon.code}
+                                {coupon.description && (
+                                  <p className="text-xs text-cream-600 font-normal">{coupon.description}</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {coupon.discountType === "PERCENT"
+                                  ? `${coupon.discountValue}%${coupon.maxDiscountAmount ? ` (max ${formatCurrency(coupon.maxDiscountAmount)})` : ""}`
+                                  : formatCurrency(coupon.discountValue)}
+                                {coupon.minOrderValue > 0 && (
+                                  <p className="text-xs">Min order {formatCurrency(coupon.minOrderValue)}</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {coupon.validFrom ? new Date(coupon.validFrom).toLocaleDateString() : "Any time"}
+                                {" – "}
+                                {coupon.validUntil ? new Date(coupon.validUntil).toLocaleDateString() : "No expiry"}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {coupon.usedCount || 0} / {coupon.usageLimit ?? "∞"}
+                                {coupon.perUserLimit !== null && coupon.perUserLimit !== undefined && (
+                                  <p className="text-xs">{coupon.perUserLimit} per customer</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {(coupon.applicableCategories?.length || 0) === 0 && (coupon.applicableProducts?.length || 0) === 0
+                                  ? "All products"
+                                  : [
+                                      ...(coupon.applicableCategories || []).map((c: any) => c.name || c),
+                                      ...(coupon.applicableProducts || []).map((p: any) => p.name || p),
+                                    ].join(", ")}
+                              </td>
+                              <td className="px-4 py-3">
+                                <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                                  coupon.isActive
+                                    ? "bg-green-100 text-green-800"
+                                    : "bg-red-100 text-red-800"
+                                }`}>
+                                  {coupon.isActive ? "Active" : "Inactive"}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-center">
+                                <div className="flex items-center justify-center gap-2">
+                                  <button
+                                    onClick={() => handleEditCoupon(coupon._id)}
+                                    className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                  >
+                                    <Edit size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteCoupon(coupon._id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
                                 </div>
-                              )}
-                            </div>
-                          )}
-                        </div>
-                      </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
                     </div>
                   </div>
+                )}
+              </div>
+            </div>
+          )}
 
-
-                  {attributeTypeForm.primaryEffectType === "FILE" && (
-                    <div className="border-b border-cream-200 pb-4">
-                      <h3 className="text-lg font-semibold text-cream-900 mb-4">File Requirements</h3>
+          {/* Contract Price Lists Management */}
+          {activeTab === "price-lists" && (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-xl font-bold text-cream-900 mb-4">
+                  {editingPriceListId ? "Edit Price List" : "Create Price List"}
+                </h2>
+                <form onSubmit={handlePriceListSubmit} className="space-y-6 bg-white p-6 rounded-lg border border-cream-200">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Name *
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        value={priceListForm.name}
+                        onChange={(e) => setPriceListForm({ ...priceListForm, name: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="e.g., Agency rates 2026"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        value={priceListForm.description}
+                        onChange={(e) => setPriceListForm({ ...priceListForm, description: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Priority
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={priceListForm.priority}
+                        onChange={(e) => setPriceListForm({ ...priceListForm, priority: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="0"
+                      />
+                      <p className="text-xs text-cream-600 mt-1">
+                        When a customer is on several lists for the same product, the highest priority wins.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-cream-900 mb-2">
-                          File Requirements Description
+                          Valid From
                         </label>
-                        <textarea
-                          value={attributeTypeForm.fileRequirements}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, fileRequirements: e.target.value })}
-                          className="w-full px-3 py-2 border border-cream-300 rounded-lg"
-                          rows={3}
-                          placeholder="e.g., Upload your design file (JPG, PNG, PDF). Minimum 300 DPI recommended."
-                        />
-                        <p className="mt-2 text-xs text-cream-600">
-                          Describe what type of file customers need to upload and any requirements (format, size, resolution, etc.)
-                        </p>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Step 3: Settings */}
-                  <div className="border-b border-cream-200 pb-4">
-                    <h3 className="text-lg font-semibold text-cream-900 mb-4">Settings</h3>
-                    <div className="space-y-4">
-                      {/* Allow Filtering */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
                         <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isFilterable}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isFilterable: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                          type="date"
+                          value={priceListForm.validFrom}
+                          onChange={(e) => setPriceListForm({ ...priceListForm, validFrom: e.target.value })}
+                          className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
                         />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Allow Filtering
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if customers can filter products by this attribute (e.g., filter by color, size, etc.)
-                          </p>
-                        </div>
                       </div>
-
-                      {/* Required Selection */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
+                      <div>
+                        <label className="block text-sm font-medium text-cream-900 mb-2">
+                          Valid Until
+                        </label>
                         <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isRequired}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isRequired: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
+                          type="date"
+                          value={priceListForm.validUntil}
+                          onChange={(e) => setPriceListForm({ ...priceListForm, validUntil: e.target.value })}
+                          className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
                         />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Required Selection
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if customers must select an option before they can place an order
-                          </p>
-                        </div>
                       </div>
+                    </div>
+                  </div>
 
-                      {/* Available for All Products */}
-                      <div className="flex items-start gap-3 p-4 bg-cream-50 rounded-lg border border-cream-200">
-                        <input
-                          type="checkbox"
-                          checked={attributeTypeForm.isCommonAttribute}
-                          onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, isCommonAttribute: e.target.checked })}
-                          className="w-5 h-5 text-cream-900 border-cream-300 rounded focus:ring-cream-900 mt-1"
-                        />
-                        <div className="flex-1">
-                          <label className="text-sm font-medium text-cream-900 cursor-pointer">
-                            Available for All Products
-                          </label>
-                          <p className="text-xs text-cream-600 mt-1">
-                            Check this if this attribute can be used with any product. Uncheck to restrict to specific categories/subcategories.
-                          </p>
-                        </div>
-                      </div>
+                  {/* Customers */}
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Customers ({priceListForm.users.length} selected)
+                    </label>
+                    <input
+                      type="text"
+                      value={priceListUserSearch}
+                      onChange={(e) => setPriceListUserSearch(e.target.value)}
+                      className="w-full px-4 py-2 mb-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      placeholder="Search customers by name or email"
+                    />
+                    <div className="space-y-1 max-h-48 overflow-y-auto border border-cream-200 rounded-lg p-3">
+                      {users.filter((u) => u.role === "user").length === 0 ? (
+                        <p className="text-sm text-cream-600">No customers available.</p>
+                      ) : (
+                        users
+                          .filter((u) => u.role === "user")
+                          .filter((u) => {
+                            const query = priceListUserSearch.trim().toLowerCase();
+                            return !query || u.name.toLowerCase().includes(query) || u.email.toLowerCase().includes(query);
+                          })
+                          .map((u) => (
+                            <label key={u._id} className="flex items-center gap-2 text-sm text-cream-900 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={priceListForm.users.includes(u._id)}
+                                onChange={(e) =>
+                                  setPriceListForm({
+                                    ...priceListForm,
+                                    users: e.target.checked
+                                      ? [...priceListForm.users, u._id]
+                                      : priceListForm.users.filter((id) => id !== u._id),
+                                  })
+                                }
+                                className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                              />
+                              {u.name} <span className="text-cream-600">({u.email})</span>
+                            </label>
+                          ))
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Product prices */}
+                  <div>
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+                      <label className="block text-sm font-medium text-cream-900">
+                        Contract Prices
+                      </label>
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          if (!e.target.value) return;
+                          setPriceListForm({
+                            ...priceListForm,
+                            products: [
+                              ...priceListForm.products,
+                              { product: e.target.value, basePrice: "", rangeWiseQuantities: [], attributeValuePrices: [] },
+                            ],
+                          });
+                        }}
+                        className="px-4 py-2 border border-cream-300 rounded-lg text-sm focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      >
+                        <option value="">+ Add product...</option>
+                        {products
+                          .filter((product) => !priceListForm.products.some((entry) => entry.product === product._id))
+                          .map((product) => (
+                            <option key={product._id} value={product._id}>{product.name}</option>
+                          ))}
+                      </select>
+                    </div>
+                    {priceListForm.products.length === 0 && (
+                      <p className="text-sm text-cream-600">No products yet. Add a product to set its contract prices.</p>
+                    )}
+                    <div className="space-y-4">
+                      {priceListForm.products.map((entry, index) => {
+                        const product: any = products.find((p) => p._id === entry.product);
+                        return (
+                          <div key={entry.product} className="border border-cream-200 rounded-lg p-4 space-y-4">
+                            <div className="flex justify-between items-center">
+                              <h3 className="font-semibold text-cream-900">{product?.name || "Unknown product"}</h3>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setPriceListForm({
+                                    ...priceListForm,
+                                    products: priceListForm.products.filter((_, i) => i !== index),
+                                  })
+                                }
+                                className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+
+                            <div className="max-w-xs">
+                              <label className="block text-xs font-medium text-cream-700 mb-1">
+                                Base Price (INR per unit)
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.0001"
+                                value={entry.basePrice}
+                                onChange={(e) => updatePriceListProduct(index, { basePrice: e.target.value })}
+                                className="w-full px-3 py-2 border border-cream-300 rounded-lg text-sm focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                                placeholder={product ? `Catalog: ${formatCurrency(product.basePrice || 0)}` : "Catalog price"}
+                              />
+                            </div>
+
+                            {/* Quantity range multipliers */}
+                            <div>
+                              <div className="flex justify-between items-center mb-1">
+                                <label className="block text-xs font-medium text-cream-700">
+                                  Quantity Range Multipliers {entry.rangeWiseQuantities.length === 0 && "(catalog ranges)"}
+                                </label>
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    updatePriceListProduct(index, {
+                                      rangeWiseQuantities: [...entry.rangeWiseQuantities, { min: "", max: "", priceMultiplier: "1" }],
+                                    })
+                                  }
+                                  className="text-xs text-cream-900 hover:underline flex items-center gap-1"
+                                >
+                                  <Plus size={12} /> Add range
+                                </button>
+                              </div>
+                              {entry.rangeWiseQuantities.map((range, rangeIndex) => (
+                                <div key={rangeIndex} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 mb-2">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={range.min}
+                                    onChange={(e) =>
+                                      updatePriceListProduct(index, {
+                                        rangeWiseQuantities: entry.rangeWiseQuantities.map((r, i) => (i === rangeIndex ? { ...r, min: e.target.value } : r)),
+                                      })
+                                    }
+                                    className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    placeholder="Min qty"
+                                  />
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={range.max}
+                                    onChange={(e) =>
+                                      updatePriceListProduct(index, {
+                                        rangeWiseQuantities: entry.rangeWiseQuantities.map((r, i) => (i === rangeIndex ? { ...r, max: e.target.value } : r)),
+                                      })
+                                    }
+                                    className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    placeholder="Max qty (empty = no limit)"
+                                  />
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={range.priceMultiplier}
+                                    onChange={(e) =>
+                                      updatePriceListProduct(index, {
+                                        rangeWiseQuantities: entry.rangeWiseQuantities.map((r, i) => (i === rangeIndex ? { ...r, priceMultiplier: e.target.value } : r)),
+                                      })
+                                    }
+                                    className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    placeholder="Multiplier"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      updatePriceListProduct(index, {
+                                        rangeWiseQuantities: entry.rangeWiseQuantities.filter((_, i) => i !== rangeIndex),
+                                      })
+                                    }
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                  >
+                                    <X size={14} />
+                                  </button>
+                                </div>
+                              ))}
+                            </div>
+
+                            {/* Attribute value prices */}
+                            <div>
+                              <div className="flex justify-between items-center mb-1">
+                                <label className="block text-xs font-medium text-cream-700">
+                                  Attribute Value Prices
+                                </label>
+                                <button
+                                  type="button"
+                                  disabled={!product?.dynamicAttributes?.length}
+                                  onClick={() =>
+                                    updatePriceListProduct(index, {
+                                      attributeValuePrices: [
+                                        ...entry.attributeValuePrices,
+                                        { attributeType: "", attributeValue: "", priceAdd: "0", pricingMode: "PER_UNIT" },
+                                      ],
+                                    })
+                                  }
+                                  className="text-xs text-cream-900 hover:underline flex items-center gap-1 disabled:opacity-50 disabled:no-underline"
+                                >
+                                  <Plus size={12} /> Add attribute price
+                                </button>
+                              </div>
+                              {entry.attributeValuePrices.map((override, overrideIndex) => {
+                                const updateOverride = (changes: Partial<PriceListProductForm["attributeValuePrices"][number]>) =>
+                                  updatePriceListProduct(index, {
+                                    attributeValuePrices: entry.attributeValuePrices.map((o, i) => (i === overrideIndex ? { ...o, ...changes } : o)),
+                                  });
+                                return (
+                                  <div key={overrideIndex} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 mb-2">
+                                    <select
+                                      value={override.attributeType}
+                                      onChange={(e) => updateOverride({ attributeType: e.target.value, attributeValue: "" })}
+                                      className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    >
+                                      <option value="">Attribute...</option>
+                                      {(product?.dynamicAttributes || [])
+                                        .filter((attr: any) => attr.attributeType && typeof attr.attributeType === "object")
+                                        .map((attr: any) => (
+                                          <option key={attr.attributeType._id} value={attr.attributeType._id}>
+                                            {attr.attributeType.attributeName}
+                                          </option>
+                                        ))}
+                                    </select>
+                                    <select
+                                      value={override.attributeValue}
+                                      onChange={(e) => updateOverride({ attributeValue: e.target.value })}
+                                      className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    >
+                                      <option value="">Value...</option>
+                                      {getProductAttributeValues(product, override.attributeType).map((v) => (
+                                        <option key={v.value} value={v.value}>{v.label}</option>
+                                      ))}
+                                    </select>
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      value={override.priceAdd}
+                                      onChange={(e) => updateOverride({ priceAdd: e.target.value })}
+                                      className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                      placeholder="Price"
+                                    />
+                                    <select
+                                      value={override.pricingMode}
+                                      onChange={(e) => updateOverride({ pricingMode: e.target.value as PricingMode })}
+                                      className="px-3 py-2 border border-cream-300 rounded-lg text-sm"
+                                    >
+                                      {(Object.keys(PRICING_MODE_LABELS) as PricingMode[]).map((mode) => (
+                                        <option key={mode} value={mode}>{PRICING_MODE_LABELS[mode]}</option>
+                                      ))}
+                                    </select>
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        updatePriceListProduct(index, {
+                                          attributeValuePrices: entry.attributeValuePrices.filter((_, i) => i !== overrideIndex),
+                                        })
+                                      }
+                                      className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                    >
+                                      <X size={14} />
+                                    </button>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
+                    <p className="text-xs text-cream-600 mt-2">
+                      Leave a field empty to keep the catalog price. Quantity discounts and coupons still apply on top of contract prices.
+                    </p>
                   </div>
 
-                  <div className="flex gap-4">
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={priceListForm.isActive}
+                        onChange={(e) => setPriceListForm({ ...priceListForm, isActive: e.target.checked })}
+                        className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                      />
+                      <span className="text-sm font-medium text-cream-900">Active</span>
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
                     <button
                       type="submit"
                       disabled={loading}
-                      className="px-6 py-2 bg-cream-900 text-white rounded-lg hover:bg-cream-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      className="flex-1 bg-cream-900 text-white px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
                     >
-                      {loading ? "Saving..." : editingAttributeTypeId ? "Update Attribute Type" : "Create Attribute Type"}
+                      {loading ? (
+                        <>
+                          <Loader className="animate-spin" size={20} />
+                          {editingPriceListId ? "Updating..." : "Creating..."}
+                        </>
+                      ) : (
+                        <>
+                          <Plus size={20} />
+                          {editingPriceListId ? "Update Price List" : "Create Price List"}
+                        </>
+                      )}
                     </button>
-                    {editingAttributeTypeId && (
+                    {editingPriceListId && (
                       <button
                         type="button"
                         onClick={() => {
-                          setEditingAttributeTypeId(null);
-      setAttributeTypeForm({
-        attributeName: "",
-        inputStyle: "DROPDOWN",
-        attributeImage: null,
-        effectDescription: "",
-        simpleOptions: "",
-        isPriceEffect: false,
-        isStepQuantity: false,
-        isRangeQuantity: false,
-        isFixedQuantity: false,
-        priceEffectAmount: "",
-        stepQuantities: [],
-        rangeQuantities: [],
-        fixedQuantityMin: "",
-        fixedQuantityMax: "",
-        primaryEffectType: "INFORMATIONAL",
-        priceImpactPer1000: "",
-        fileRequirements: "",
-        attributeOptionsTable: [],
-        // Reset auto-set fields
-        functionType: "GENERAL",
-        isPricingAttribute: false,
-        isFixedQuantityNeeded: false,
-        isFilterable: false,
-        attributeValues: [],
-        defaultValue: "",
-        isRequired: false,
-        displayOrder: 0,
-        isCommonAttribute: true,
-        applicableCategories: [],
-        applicableSubCategories: [],
-      });
+                          setPriceListForm(emptyPriceListForm);
+                          setEditingPriceListId(null);
                         }}
-                        className="px-6 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600"
+                        className="px-6 py-3 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
                       >
                         Cancel
                       </button>
@@ -12446,158 +15165,100 @@ const AdminDashboard: React.FC = () => {
                 </form>
               </div>
 
-              <div className="bg-white rounded-lg border border-cream-200 p-6">
-                <div className="flex items-center justify-between mb-6">
-                  <h2 className="text-xl font-bold text-cream-900">All Attribute Types</h2>
-                  <div className="flex items-center gap-3">
-                    <div className="relative">
-                      <input
-                        type="text"
-                        value={attributeTypeSearch}
-                        onChange={(e) => setAttributeTypeSearch(e.target.value)}
-                        placeholder="Search attribute types..."
-                        className="pl-10 pr-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 w-64"
-                      />
-                      <Search size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-cream-500" />
-                    </div>
-                    <div className="text-sm text-cream-600">
-                      {(() => {
-                        const filtered = attributeTypes.filter((at) =>
-                          !attributeTypeSearch ||
-                          at.attributeName?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
-                          at.inputStyle?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
-                          at.primaryEffectType?.toLowerCase().includes(attributeTypeSearch.toLowerCase())
-                        );
-                        return `${filtered.length} of ${attributeTypes.length}`;
-                      })()}
-                    </div>
-                  </div>
+              <div className="border-t border-cream-300 pt-6">
+                <div className="mb-4 flex justify-between items-center">
+                  <h2 className="text-xl font-bold text-cream-900">
+                    All Price Lists ({priceLists.length})
+                  </h2>
+                  <button
+                    onClick={fetchPriceLists}
+                    className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                  >
+                    Refresh
+                  </button>
                 </div>
-                {loadingAttributeTypes ? (
-                  <div className="text-center py-8">
-                    <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
-                  </div>
-                ) : attributeTypes.length === 0 ? (
-                  <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
-                    <p className="text-cream-600">No attribute types found. Create one above.</p>
-                  </div>
-                ) : (
-                  <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
-                    <div className="overflow-x-auto">
-                      <table className="w-full">
-                        <thead className="bg-cream-100">
-                          <tr>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Name</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Input Style</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Options</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Subattributes</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Effect Type</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Pricing</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Common</th>
-                            <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
-                          </tr>
-                        </thead>
-                        <tbody className="divide-y divide-cream-200">
-                          {attributeTypes
-                            .filter((at) =>
-                              !attributeTypeSearch ||
-                              at.attributeName?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
-                              at.inputStyle?.toLowerCase().includes(attributeTypeSearch.toLowerCase()) ||
-                              at.primaryEffectType?.toLowerCase().includes(attributeTypeSearch.toLowerCase())
-                            )
-                            .map((at) => {
-                              const options = at.attributeValues || [];
-                              const totalSubattributes = options.reduce((sum: number, opt: any) => {
-                                return sum + (opt.subattributes && Array.isArray(opt.subattributes) ? opt.subattributes.length : 0);
-                              }, 0);
-                              
-                              return (
-                              <tr key={at._id} className="hover:bg-cream-50">
-                                <td className="px-4 py-3 text-sm font-medium text-cream-900">{at.attributeName}</td>
-                                <td className="px-4 py-3 text-sm text-cream-600">
-                                  <span className="px-2 py-1 bg-cream-100 text-cream-700 rounded-md text-xs font-medium">
-                                    {at.inputStyle || 'N/A'}
-                                  </span>
-                                </td>
-                                <td className="px-4 py-3 text-sm text-cream-600">
-                                  <div className="flex flex-col gap-1">
-                                    <span className="font-medium">{options.length} option{options.length !== 1 ? 's' : ''}</span>
-                                    {options.length > 0 && (
-                                      <div className="text-xs text-cream-500">
-                                        {options.slice(0, 3).map((opt: any, idx: number) => (
-                                          <span key={idx}>
-                                            {opt.label || opt.value}
-                                            {idx < Math.min(2, options.length - 1) && ', '}
-                                          </span>
-                                        ))}
-                                        {options.length > 3 && <span>...</span>}
-                                      </div>
-                                    )}
-                                  </div>
-                                </td>
-                                <td className="px-4 py-3 text-sm text-cream-600">
-                                  {totalSubattributes > 0 ? (
-                                    <div className="flex items-center gap-2">
-                                      <span className="px-2 py-1 bg-green-100 text-green-700 rounded-md text-xs font-medium">
-                                        {totalSubattributes} subattribute{totalSubattributes !== 1 ? 's' : ''}
-                                      </span>
-                                      <div className="text-xs text-cream-500">
-                                        {options.map((opt: any, optIdx: number) => {
-                                          const subCount = opt.subattributes && Array.isArray(opt.subattributes) ? opt.subattributes.length : 0;
-                                          if (subCount === 0) return null;
-                                          return (
-                                            <div key={optIdx} className="text-xs">
-                                              <span className="font-medium">{opt.label || opt.value}:</span> {subCount}
-                                            </div>
-                                          );
-                                        }).filter(Boolean).slice(0, 2)}
-                                        {options.filter((opt: any) => opt.subattributes && opt.subattributes.length > 0).length > 2 && '...'}
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    <span className="text-xs text-cream-400">None</span>
-                                  )}
-                                </td>
-                                <td className="px-4 py-3 text-sm text-cream-600">{at.primaryEffectType}</td>
-                                <td className="px-4 py-3 text-sm text-cream-600">
-                                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${
-                                    at.isPricingAttribute 
-                                      ? 'bg-green-100 text-green-700' 
-                                      : 'bg-gray-100 text-gray-600'
-                                  }`}>
-                                    {at.isPricingAttribute ? "Yes" : "No"}
-                                  </span>
-                                </td>
-                                <td className="px-4 py-3 text-sm text-cream-600">
-                                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${
-                                    at.isCommonAttribute 
-                                      ? 'bg-blue-100 text-blue-700' 
-                                      : 'bg-gray-100 text-gray-600'
-                                  }`}>
-                                    {at.isCommonAttribute ? "Yes" : "No"}
-                                  </span>
-                                </td>
-                                <td className="px-4 py-3 text-center">
-                                  <div className="flex items-center justify-center gap-2">
-                                    <button
-                                      onClick={() => handleEditAttributeType(at._id)}
-                                      className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
-                                      title="Edit attribute type"
-                                    >
-                                      <Edit size={16} />
-                                    </button>
-                                    <button
-                                      onClick={() => handleDeleteAttributeType(at._id)}
-                                      className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                      title="Delete attribute type"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
-                                  </div>
-                                </td>
-                              </tr>
-                            );
-                          })}
+
+                {loadingPriceLists ? (
+                  <div className="text-center py-8">
+                    <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
+                  </div>
+                ) : priceLists.length === 0 ? (
+                  <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
+                    <Briefcase size={48} className="mx-auto mb-4 opacity-50" />
+                    <p className="text-cream-600">No price lists found. Create one above.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-cream-100">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Name</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Customers</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Products</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Validity</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Priority</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Status</th>
+                            <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-cream-200">
+                          {priceLists.map((priceList) => (
+                            <tr key={priceList._id} className="hover:bg-cream-50">
+                              <td className="px-4 py-3 text-sm text-cream-900 font-semibold">
+                                {priceList.name}
+                                {priceList.description && (
+                                  <p className="text-xs text-cream-600 font-normal">{priceList.description}</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {(priceList.users || []).length === 0
+                                  ? "No customers"
+                                  : (priceList.users || []).map((u: any) => u.name || u.email || u).join(", ")}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {(priceList.products || []).map((entry: any) => (
+                                  <p key={entry._id}>
+                                    {entry.product?.name || "Deleted product"}
+                                    {entry.basePrice !== null && entry.basePrice !== undefined && (
+                                      <span className="text-xs"> — {formatCurrency(entry.basePrice)}/unit</span>
+                                    )}
+                                  </p>
+                                ))}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {priceList.validFrom ? new Date(priceList.validFrom).toLocaleDateString() : "Any time"}
+                                {" – "}
+                                {priceList.validUntil ? new Date(priceList.validUntil).toLocaleDateString() : "No expiry"}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">{priceList.priority || 0}</td>
+                              <td className="px-4 py-3">
+                                <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                                  priceList.isActive
+                                    ? "bg-green-100 text-green-800"
+                                    : "bg-red-100 text-red-800"
+                                }`}>
+                                  {priceList.isActive ? "Active" : "Inactive"}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-center">
+                                <div className="flex items-center justify-center gap-2">
+                                  <button
+                                    onClick={() => handleEditPriceList(priceList._id)}
+                                    className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                  >
+                                    <Edit size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeletePriceList(priceList._id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
                         </tbody>
                       </table>
                     </div>
@@ -12607,185 +15268,262 @@ const AdminDashboard: React.FC = () => {
             </div>
           )}
 
-          {/* Department Management */}
-          {activeTab === "departments" && (
+          {/* Delivery Zones Management */}
+          {activeTab === "delivery-zones" && (
             <div className="space-y-6">
               <div>
                 <h2 className="text-xl font-bold text-cream-900 mb-4">
-                  {editingDepartmentId ? "Edit Department" : "Create Department"}
+                  {editingDeliveryZoneId ? "Edit Delivery Zone" : "Create Delivery Zone"}
                 </h2>
-                <form onSubmit={handleDepartmentSubmit} className="space-y-6 bg-white p-6 rounded-lg border border-cream-200">
+                <form onSubmit={handleDeliveryZoneSubmit} className="space-y-6 bg-white p-6 rounded-lg border border-cream-200">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-cream-900 mb-2">
-                        Department Name *
+                        Zone Name *
                       </label>
                       <input
-                        id="department-name"
-                        name="name"
                         type="text"
                         required
-                        value={departmentForm.name}
-                        onChange={(e) => {
-                          setDepartmentForm({ ...departmentForm, name: e.target.value });
-                          if (departmentFormErrors.name) {
-                            setDepartmentFormErrors({ ...departmentFormErrors, name: undefined });
-                          }
-                        }}
-                        className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500 ${
-                          departmentFormErrors.name ? 'border-red-300 bg-red-50' : 'border-cream-300'
-                        }`}
-                        placeholder="e.g., Prepress, Digital Printing"
+                        value={deliveryZoneForm.name}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, name: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="e.g., Delhi NCR"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        value={deliveryZoneForm.description}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, description: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Pincode Prefixes
+                      </label>
+                      <input
+                        type="text"
+                        value={deliveryZoneForm.pincodePrefixes}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, pincodePrefixes: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="Comma separated, e.g., 110, 1220, 201"
                       />
-                      {departmentFormErrors.name && (
-                        <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                          <AlertCircle size={12} />
-                          {departmentFormErrors.name}
-                        </p>
-                      )}
                     </div>
-
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2">
-                      Description
-                    </label>
-                    <textarea
-                      value={departmentForm.description}
-                      onChange={(e) =>
-                        setDepartmentForm({ ...departmentForm, description: e.target.value })
-                      }
-                      rows={3}
-                      className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
-                      placeholder="Brief description of department responsibilities"
-                    />
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="block text-sm font-medium text-cream-900">
+                        Pincode Ranges
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDeliveryZoneForm({
+                            ...deliveryZoneForm,
+                            pincodeRanges: [...deliveryZoneForm.pincodeRanges, { from: "", to: "" }],
+                          })
+                        }
+                        className="px-3 py-1 text-sm bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors flex items-center gap-1"
+                      >
+                        <Plus size={14} />
+                        Add Range
+                      </button>
+                    </div>
+                    {deliveryZoneForm.pincodeRanges.length === 0 ? (
+                      <p className="text-sm text-cream-600">No ranges. Prefixes alone are enough for most zones.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {deliveryZoneForm.pincodeRanges.map((range, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              maxLength={6}
+                              value={range.from}
+                              onChange={(e) => {
+                                const pincodeRanges = [...deliveryZoneForm.pincodeRanges];
+                                pincodeRanges[index] = { ...range, from: e.target.value.replace(/\D/g, "") };
+                                setDeliveryZoneForm({ ...deliveryZoneForm, pincodeRanges });
+                              }}
+                              className="w-32 px-3 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                              placeholder="From"
+                            />
+                            <span className="text-cream-600">–</span>
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              maxLength={6}
+                              value={range.to}
+                              onChange={(e) => {
+                                const pincodeRanges = [...deliveryZoneForm.pincodeRanges];
+                                pincodeRanges[index] = { ...range, to: e.target.value.replace(/\D/g, "") };
+                                setDeliveryZoneForm({ ...deliveryZoneForm, pincodeRanges });
+                              }}
+                              className="w-32 px-3 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                              placeholder="To"
+                            />
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setDeliveryZoneForm({
+                                  ...deliveryZoneForm,
+                                  pincodeRanges: deliveryZoneForm.pincodeRanges.filter((_, i) => i !== index),
+                                })
+                              }
+                              className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
-                  <div className="flex items-center gap-4">
-                    <label className="flex items-center gap-2 cursor-pointer">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Flat Rate per Order (₹)
+                      </label>
                       <input
-                        type="checkbox"
-                        checked={departmentForm.isEnabled}
-                        onChange={(e) =>
-                          setDepartmentForm({ ...departmentForm, isEnabled: e.target.checked })
-                        }
-                        className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={deliveryZoneForm.flatRate}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, flatRate: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Rate per kg (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={deliveryZoneForm.ratePerKg}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, ratePerKg: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="0 (uses the product's weight per 1000 units)"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Free Shipping Above (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={deliveryZoneForm.freeShippingThreshold}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, freeShippingThreshold: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="Never free (excluding GST)"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Minimum Order Value (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={deliveryZoneForm.minOrderValue}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, minOrderValue: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="No minimum (excluding GST)"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cream-900 mb-2">
+                        Priority
+                      </label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={deliveryZoneForm.priority}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, priority: e.target.value })}
+                        className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                        placeholder="0 (higher wins when zones overlap)"
                       />
-                      <span className="text-sm font-medium text-cream-900">Enabled</span>
-                    </label>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-cream-900 mb-2">
-                      Assign Operators (Optional)
-                    </label>
-                    <p className="text-xs text-cream-600 mb-2">
-                      Select employees who can perform actions for this department. Only employees can be assigned. Leave empty to allow all authenticated users.
-                    </p>
-                    <div className="space-y-2 max-h-40 overflow-y-auto border border-cream-200 rounded-lg p-3">
-                      {employees.length === 0 ? (
-                        <p className="text-sm text-cream-600">No employees available. Create users and mark them as employees first.</p>
-                      ) : (
-                        employees.map((employee) => {
-                          // Ensure proper ID comparison (handle both string and ObjectId formats)
-                          const isAssigned = departmentForm.operators.some((opId: any) => 
-                            String(opId) === String(employee._id)
-                          );
-                          
-                          // Find all departments where this employee is assigned as operator
-                          const assignedDepartments = departments
-                            .filter((dept: any) => {
-                              if (!dept.operators || dept.operators.length === 0) return false;
-                              return dept.operators.some((op: any) => {
-                                const opId = typeof op === 'object' ? (op._id || op.id || String(op)) : String(op);
-                                return String(opId) === String(employee._id);
-                              });
-                            })
-                            .map((dept: any) => dept.name);
-                          
-                          return (
-                            <label key={employee._id} className="flex items-center gap-3 p-3 bg-cream-50 border border-cream-200 rounded-lg hover:bg-cream-100 transition-colors cursor-pointer">
-                              <input
-                                type="checkbox"
-                                checked={isAssigned}
-                                onChange={(e) => {
-                                  if (e.target.checked) {
-                                    setDepartmentForm({
-                                      ...departmentForm,
-                                      operators: [...departmentForm.operators, employee._id],
-                                    });
-                                  } else {
-                                    setDepartmentForm({
-                                      ...departmentForm,
-                                      operators: departmentForm.operators.filter((id: any) => String(id) !== String(employee._id)),
-                                    });
-                                  }
-                                }}
-                                className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500 focus:ring-2"
-                              />
-                              <div className="flex-1">
-                                <p className="font-medium text-cream-900">{employee.name}</p>
-                                <p className="text-xs text-cream-600">
-                                  {employee.email}
-                                  {assignedDepartments.length > 0 && (
-                                    <span className="ml-1 text-cream-500">
-                                      ({assignedDepartments.join(", ")})
-                                    </span>
-                                  )}
-                                </p>
-                              </div>
-                              {isAssigned && (
-                                <Check className="text-cream-900" size={20} />
-                              )}
-                            </label>
-                          );
-                        })
-                      )}
                     </div>
                   </div>
 
-                  <button
-                    type="submit"
-                    disabled={loading}
-                    className="w-full bg-cream-900 text-white px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-                  >
-                    {loading ? (
-                      <>
-                        <Loader className="animate-spin" size={20} />
-                        {editingDepartmentId ? "Updating..." : "Creating..."}
-                      </>
-                    ) : (
-                      <>
-                        <Plus size={20} />
-                        {editingDepartmentId ? "Update Department" : "Create Department"}
-                      </>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={deliveryZoneForm.isActive}
+                        onChange={(e) => setDeliveryZoneForm({ ...deliveryZoneForm, isActive: e.target.checked })}
+                        className="w-4 h-4 text-cream-900 border-cream-300 rounded focus:ring-cream-500"
+                      />
+                      <span className="text-sm font-medium text-cream-900">Active</span>
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="flex-1 bg-cream-900 text-white px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      {loading ? (
+                        <>
+                          <Loader className="animate-spin" size={20} />
+                          {editingDeliveryZoneId ? "Updating..." : "Creating..."}
+                        </>
+                      ) : (
+                        <>
+                          <Plus size={20} />
+                          {editingDeliveryZoneId ? "Update Zone" : "Create Zone"}
+                        </>
+                      )}
+                    </button>
+                    {editingDeliveryZoneId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setDeliveryZoneForm(emptyDeliveryZoneForm);
+                          setEditingDeliveryZoneId(null);
+                        }}
+                        className="px-6 py-3 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
                     )}
-                  </button>
+                  </div>
                 </form>
               </div>
 
               <div className="border-t border-cream-300 pt-6">
                 <div className="mb-4 flex justify-between items-center">
                   <h2 className="text-xl font-bold text-cream-900">
-                    All Departments ({departments.length})
+                    All Delivery Zones ({deliveryZones.length})
                   </h2>
                   <button
-                    onClick={fetchDepartments}
+                    onClick={fetchDeliveryZones}
                     className="px-4 py-2 bg-cream-200 text-cream-900 rounded-lg hover:bg-cream-300 transition-colors"
                   >
                     Refresh
                   </button>
                 </div>
 
-                {loadingDepartments ? (
+                {loadingDeliveryZones ? (
                   <div className="text-center py-8">
                     <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
                   </div>
-                ) : departments.length === 0 ? (
+                ) : deliveryZones.length === 0 ? (
                   <div className="text-center py-8 bg-cream-50 rounded-lg border border-cream-200">
-                    <Building2 size={48} className="mx-auto mb-4 opacity-50" />
-                    <p className="text-cream-600">No departments found. Create one above.</p>
+                    <Truck size={48} className="mx-auto mb-4 opacity-50" />
+                    <p className="text-cream-600">No delivery zones found. Orders ship without a shipping charge until one is created.</p>
                   </div>
                 ) : (
                   <div className="bg-white rounded-lg border border-cream-200 overflow-hidden">
@@ -12793,44 +15531,65 @@ const AdminDashboard: React.FC = () => {
                       <table className="w-full">
                         <thead className="bg-cream-100">
                           <tr>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Name</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Description</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Zone</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Pincodes</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Shipping</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Minimum Order</th>
                             <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Status</th>
-                            <th className="px-4 py-3 text-left text-sm font-medium text-cream-900">Operators</th>
                             <th className="px-4 py-3 text-center text-sm font-medium text-cream-900">Actions</th>
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-cream-200">
-                          {departments
-                            .sort((a, b) => (a.name || "").localeCompare(b.name || ""))
-                            .map((dept) => (
-                            <tr key={dept._id} className="hover:bg-cream-50">
-                              <td className="px-4 py-3 text-sm text-cream-900 font-semibold">{dept.name}</td>
-                              <td className="px-4 py-3 text-sm text-cream-600">{dept.description || "-"}</td>
+                          {deliveryZones.map((zone) => (
+                            <tr key={zone._id} className="hover:bg-cream-50">
+                              <td className="px-4 py-3 text-sm text-cream-900 font-semibold">
+                                {zone.name}
+                                {zone.description && (
+                                  <p className="text-xs text-cream-600 font-normal">{zone.description}</p>
+                                )}
+                                {zone.priority ? (
+                                  <p className="text-xs text-cream-600 font-normal">Priority {zone.priority}</p>
+                                ) : null}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {(zone.pincodePrefixes || []).length > 0 && (
+                                  <p>Starts with {zone.pincodePrefixes.join(", ")}</p>
+                                )}
+                                {(zone.pincodeRanges || []).map((range: any, idx: number) => (
+                                  <p key={idx} className="text-xs">{range.from} – {range.to}</p>
+                                ))}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {formatCurrency(zone.flatRate || 0)} per order
+                                {zone.ratePerKg > 0 && (
+                                  <> + {formatCurrency(zone.ratePerKg)}/kg</>
+                                )}
+                                {zone.freeShippingThreshold > 0 && (
+                                  <p className="text-xs">Free above {formatCurrency(zone.freeShippingThreshold)}</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-cream-600">
+                                {zone.minOrderValue > 0 ? formatCurrency(zone.minOrderValue) : "None"}
+                              </td>
                               <td className="px-4 py-3">
                                 <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                                  dept.isEnabled
+                                  zone.isActive
                                     ? "bg-green-100 text-green-800"
                                     : "bg-red-100 text-red-800"
                                 }`}>
-                                  {dept.isEnabled ? "Enabled" : "Disabled"}
+                                  {zone.isActive ? "Active" : "Inactive"}
                                 </span>
                               </td>
-                              <td className="px-4 py-3 text-sm text-cream-600">
-                                {dept.operators && dept.operators.length > 0
-                                  ? `${dept.operators.length} operator(s)`
-                                  : "All users"}
-                              </td>
                               <td className="px-4 py-3 text-center">
                                 <div className="flex items-center justify-center gap-2">
                                   <button
-                                    onClick={() => handleEditDepartment(dept._id)}
+                                    onClick={() => handleEditDeliveryZone(zone._id)}
                                     className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
                                   >
                                     <Edit size={16} />
                                   </button>
                                   <button
-                                    onClick={() => handleDeleteDepartment(dept._id)}
+                                    onClick={() => handleDeleteDeliveryZone(zone._id)}
                                     className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
                                   >
                                     <Trash2 size={16} />
@@ -13477,7 +16236,7 @@ const AdminDashboard: React.FC = () => {
                   onClick={() => {
                     setShowOrderModal(false);
                     setSelectedOrder(null);
-                    setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "" });
+                    setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "", paymentStatus: "", advancePaid: "" });
                   }}
                   className="p-2 hover:bg-cream-100 rounded-lg transition-colors"
                 >
@@ -13500,6 +16259,23 @@ const AdminDashboard: React.FC = () => {
                   }`}>
                     <span className="text-sm font-semibold capitalize">{selectedOrder.status}</span>
                   </div>
+                  <div className="ml-auto flex items-center gap-3">
+                    {selectedOrder.invoiceNumber && (
+                      <span className="text-sm text-cream-700">
+                        Invoice <span className="font-semibold text-cream-900">{selectedOrder.invoiceNumber}</span>
+                        {selectedOrder.invoiceGeneratedAt && ` · ${new Date(selectedOrder.invoiceGeneratedAt).toLocaleDateString()}`}
+                      </span>
+                    )}
+                    <InvoiceButton
+                      orderId={selectedOrder._id}
+                      invoiceNumber={selectedOrder.invoiceNumber}
+                      canIssue={!selectedOrder.nonInvoiceable && !["cancelled", "rejected"].includes(selectedOrder.status)}
+                      onIssued={(invoice) => {
+                        setSelectedOrder((current) => (current && current._id === selectedOrder._id ? { ...current, ...invoice } : current));
+                        setOrders((current) => current.map((order) => (order._id === selectedOrder._id ? { ...order, ...invoice } : order)));
+                      }}
+                    />
+                  </div>
                 </div>
 
                 {/* User Information */}
@@ -13520,6 +16296,97 @@ const AdminDashboard: React.FC = () => {
                   </div>
                 </div>
 
+                {isMultiLineOrder(selectedOrder) ? (
+                  <>
+                    {/* Order Items */}
+                    <div className="bg-cream-50 rounded-lg p-4 border border-cream-200">
+                      <h3 className="font-bold text-cream-900 mb-3 flex items-center gap-2">
+                        <Package size={18} />
+                        Order Items ({selectedOrder.items!.length})
+                      </h3>
+                      <div className="space-y-3">
+                        {selectedOrder.items!.map((line, idx) => (
+                          <div key={line._id} className="bg-white rounded-lg p-3 border border-cream-200">
+                            <div className="flex gap-3">
+                              <img
+                                src={line.product?.image || PLACEHOLDER_IMAGE}
+                                alt={line.product?.name || "Product"}
+                                className="w-16 h-16 object-cover rounded-lg border border-cream-200"
+                                onError={(e) => {
+                                  const target = e.target as HTMLImageElement;
+                                  target.src = PLACEHOLDER_IMAGE;
+                                }}
+                              />
+                              <div className="flex-1 min-w-0">
+                                <div className="flex justify-between gap-3">
+                                  <p className="font-bold text-cream-900">
+                                    {idx + 1}. {line.product?.name || "Product"}
+                                  </p>
+                                  <p className="font-bold text-cream-900">{formatCurrency(line.lineTotal)}</p>
+                                </div>
+                                <p className="text-sm text-cream-600">{line.quantity.toLocaleString()} units</p>
+                                <p className="text-xs text-cream-600 mt-1">{describeOrderLine(line)}</p>
+                                {line.customSize && (
+                                  <p className="text-xs text-cream-600 mt-1">Custom size: {formatCustomSize(line.customSize)}</p>
+                                )}
+                                {line.notes && <p className="text-xs text-cream-500 mt-1 italic">{line.notes}</p>}
+                              </div>
+                            </div>
+                            {(line.departmentStatuses || []).length > 0 && (
+                              <div className="flex flex-wrap gap-2 mt-3">
+                                {line.departmentStatuses!.map((ds, dsIdx) => (
+                                  <span key={dsIdx} className="px-2 py-1 bg-cream-100 text-cream-800 rounded-full text-xs">
+                                    {typeof ds.department === "object" ? ds.department.name : "Department"}: {ds.status.replace("_", " ")}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {(line.uploadedDesign?.frontImage?.data || line.uploadedDesign?.backImage?.data) && (
+                              <div className="flex gap-2 mt-3">
+                                {(["frontImage", "backImage"] as const).map((side) => {
+                                  const image = line.uploadedDesign?.[side];
+                                  if (!image?.data) return null;
+                                  return (
+                                    <a
+                                      key={side}
+                                      href={image.data}
+                                      download={image.filename || `${side === "frontImage" ? "front" : "back"}-design.jpg`}
+                                      className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 text-xs"
+                                    >
+                                      <Download size={12} />
+                                      {side === "frontImage" ? "Front Design" : "Back Design"}
+                                    </a>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Price Breakdown */}
+                    <div className="bg-cream-50 rounded-lg p-4 border border-cream-200">
+                      <h3 className="font-bold text-cream-900 mb-3">Price Breakdown</h3>
+                      {(selectedOrder.pricingSnapshot as CartPricingSnapshot | null | undefined)?.breakdown ? (
+                        <CartPriceBreakdown
+                          breakdown={(selectedOrder.pricingSnapshot as CartPricingSnapshot).breakdown}
+                          lines={selectedOrder.items!.map((line) => ({
+                            key: line._id,
+                            name: line.product?.name || "Product",
+                            quantity: line.quantity,
+                          }))}
+                          totalPrice={selectedOrder.totalPrice}
+                          advancePaid={selectedOrder.advancePaid}
+                          placeOfSupply={selectedOrder.gstSplit?.placeOfSupply}
+                        />
+                      ) : (
+                        <p className="text-cream-700">Total: {formatCurrency(selectedOrder.totalPrice)}</p>
+                      )}
+                    </div>
+                  </>
+                ) : (
+                <>
                 {/* Product Information */}
                 <div className="bg-cream-50 rounded-lg p-4 border border-cream-200">
                   <h3 className="font-bold text-cream-900 mb-3 flex items-center gap-2">
@@ -13544,7 +16411,7 @@ const AdminDashboard: React.FC = () => {
                           : (typeof selectedOrder.product.category === 'string' ? selectedOrder.product.category : "N/A")}
                       </p>
                       <p className="text-sm text-cream-600">
-                        Base Price: ₹{selectedOrder.product.basePrice?.toFixed(2) || "0.00"} per unit
+                        Base Price: ₹{getOrderBasePrice(selectedOrder).toFixed(2)} per unit
                       </p>
                     </div>
                   </div>
@@ -13569,6 +16436,12 @@ const AdminDashboard: React.FC = () => {
                       <p className="text-xs text-cream-600 mb-1">Shape</p>
                       <p className="font-bold text-cream-900">{selectedOrder.shape}</p>
                     </div>
+                    {selectedOrder.customSize && (
+                      <div>
+                        <p className="text-xs text-cream-600 mb-1">Custom Size</p>
+                        <p className="font-bold text-cream-900">{formatCustomSize(selectedOrder.customSize)}</p>
+                      </div>
+                    )}
                     <div>
                       <p className="text-xs text-cream-600 mb-1">Total Price</p>
                       <p className="font-bold text-cream-900">₹{selectedOrder.totalPrice.toFixed(2)}</p>
@@ -13610,6 +16483,14 @@ const AdminDashboard: React.FC = () => {
                                 <p className="text-xs font-medium text-cream-900">{attr.attributeName}</p>
                                 <p className="text-xs text-cream-600">{attr.label}</p>
                                 {attr.description && <p className="text-xs text-cream-500 mt-0.5">{attr.description}</p>}
+                                {attr.subattribute && (
+                                  <p className="text-xs text-cream-700 mt-0.5">
+                                    Sub-option: <span className="font-medium">{attr.subattribute.label}</span>
+                                    {formatChargeHint(attr.subattribute.priceAdd || 0, attr.subattribute.pricingMode, getOrderBasePrice(selectedOrder)) && (
+                                      <span className="text-cream-500"> ({formatChargeHint(attr.subattribute.priceAdd || 0, attr.subattribute.pricingMode, getOrderBasePrice(selectedOrder))})</span>
+                                    )}
+                                  </p>
+                                )}
                               </div>
                             </div>
                             {(attr.priceAdd > 0 || attr.priceMultiplier) && (
@@ -13640,6 +16521,7 @@ const AdminDashboard: React.FC = () => {
                     product: {
                       basePrice: selectedOrder.product.basePrice || 0,
                       gstPercentage: selectedOrder.product.gstPercentage || 18,
+                      additionalDesignCharge: (selectedOrder.product as any)?.additionalDesignCharge || 0,
                       options: selectedOrder.product.options,
                       filters: selectedOrder.product.filters,
                       quantityDiscounts: (selectedOrder.product as any)?.quantityDiscounts || [],
@@ -13650,16 +16532,28 @@ const AdminDashboard: React.FC = () => {
                       name: typeof opt === 'string' ? opt : (opt.optionName || opt.name || 'Option'),
                       optionName: typeof opt === 'string' ? opt : (opt.optionName || opt.name || 'Option'),
                       priceAdd: typeof opt === 'object' ? (opt.priceAdd || 0) : 0,
+                      pricingMode: typeof opt === 'object' ? (opt as any).pricingMode : undefined,
                     })) || [],
                     selectedDynamicAttributes: selectedOrder.selectedDynamicAttributes?.map((attr) => ({
+                      attributeTypeId: (attr as any).attributeTypeId,
+                      attributeValue: (attr as any).attributeValue,
                       attributeName: attr.attributeName,
                       label: attr.label,
                       priceMultiplier: attr.priceMultiplier,
                       priceAdd: attr.priceAdd,
+                      pricingMode: (attr as any).pricingMode,
+                      subattribute: attr.subattribute,
                     })),
+                    coupon: orderCouponForCalculation(selectedOrder.coupon),
+                    priceList: selectedOrder.priceList,
+                    deliveryZone: selectedOrder.deliveryZone,
+                    customSize: selectedOrder.customSize,
+                    pincode: selectedOrder.pincode,
+                    sellerStateCode: selectedOrder.gstSplit?.sellerStateCode,
                   };
 
-                  const calculations = calculateOrderBreakdown(orderForCalc);
+                  // Render what the customer was charged; orders placed before snapshots existed are re-calculated
+                  const calculations = getOrderBreakdown(selectedOrder.pricingSnapshot as PricingSnapshot | null | undefined, orderForCalc);
 
                   return (
                     <div className="bg-cream-50 rounded-lg p-4 border border-cream-200">
@@ -13672,8 +16566,11 @@ const AdminDashboard: React.FC = () => {
                           <div className="text-cream-600">
                             <span>
                               Base Price ({selectedOrder.quantity.toLocaleString()} ×{' '}
-                              {formatCurrency(selectedOrder.product.basePrice || 0)})
+                              {formatCurrency(calculations.basePrice)})
                             </span>
+                            {calculations.priceListName && (
+                              <p className="text-xs text-cream-500">Contract price: {calculations.priceListName}</p>
+                            )}
                           </div>
                           <span className="font-medium text-cream-900">{formatCurrency(calculations.rawBaseTotal)}</span>
                         </div>
@@ -13695,53 +16592,42 @@ const AdminDashboard: React.FC = () => {
                         {calculations.optionBreakdowns.map((opt, idx) => (
                           <div key={idx} className="flex justify-between items-center text-cream-600">
                             <span>
-                              {opt.name} {opt.isPerUnit ? `(${selectedOrder.quantity} × ${formatCurrency(opt.priceAdd)})` : ''}
+                              {opt.name} {describeCharge(opt, selectedOrder.quantity)}
                             </span>
                             <span>+{formatCurrency(opt.cost)}</span>
                           </div>
                         ))}
 
-                        {/* Show dynamic attributes if they have price impact */}
-                        {selectedOrder.selectedDynamicAttributes && selectedOrder.selectedDynamicAttributes.length > 0 && (
-                          <>
-                            {selectedOrder.selectedDynamicAttributes
-                              .filter(attr => attr.priceAdd > 0 || (attr.priceMultiplier && attr.priceMultiplier !== 1))
-                              .map((attr, idx) => {
-                                // Calculate price impact for this attribute
-                                const basePrice = selectedOrder.product.basePrice || 0;
-                                let attributeCost = 0;
-                                let pricePerUnit = 0;
-                                if (attr.priceAdd > 0) {
-                                  pricePerUnit = attr.priceAdd;
-                                  attributeCost = attr.priceAdd * selectedOrder.quantity;
-                                } else if (attr.priceMultiplier && attr.priceMultiplier !== 1) {
-                                  pricePerUnit = basePrice * (attr.priceMultiplier - 1);
-                                  attributeCost = pricePerUnit * selectedOrder.quantity;
-                                }
-                                
-                                if (attributeCost === 0) return null;
-                                
-                                return (
-                                  <div key={`attr-${idx}`} className="flex justify-between items-center text-cream-600">
-                                    <span>
-                                      {attr.attributeName} ({attr.label})
-                                    </span>
-                                    <span>+{formatCurrency(pricePerUnit)}/unit × {selectedOrder.quantity.toLocaleString()} = {formatCurrency(attributeCost)}</span>
-                                  </div>
-                                );
-                              })}
-                          </>
-                        )}
-
                         <div className="flex justify-between items-center pt-2 font-medium text-cream-900 border-t border-cream-200">
                           <span>Subtotal</span>
                           <span>{formatCurrency(calculations.subtotal)}</span>
                         </div>
 
-                        <div className="flex justify-between items-center text-cream-600 text-xs">
-                          <span>GST ({selectedOrder.product.gstPercentage || 18}%)</span>
-                          <span>+{formatCurrency(calculations.gstAmount)}</span>
-                        </div>
+                        {calculations.couponDiscount > 0 && (
+                          <div className="flex justify-between items-center text-green-700 bg-green-50 p-2 rounded-md">
+                            <span className="font-semibold">Coupon ({calculations.couponCode})</span>
+                            <span className="font-bold">-{formatCurrency(calculations.couponDiscount)}</span>
+                          </div>
+                        )}
+
+                        {calculations.deliveryZoneName && (
+                          <div className="flex justify-between items-center text-cream-600">
+                            <span>Shipping ({calculations.deliveryZoneName})</span>
+                            <span>{calculations.freeShippingApplied ? 'Free' : `+${formatCurrency(calculations.shippingCharge)}`}</span>
+                          </div>
+                        )}
+
+                        {getGstLines(calculations).map((line) => (
+                          <div key={line.label} className="flex justify-between items-center text-cream-600 text-xs">
+                            <span>{line.label}</span>
+                            <span>+{formatCurrency(line.amount)}</span>
+                          </div>
+                        ))}
+                        {selectedOrder.gstSplit && (
+                          <div className="text-cream-500 text-xs">
+                            Place of supply: {selectedOrder.gstSplit.placeOfSupply} ({selectedOrder.gstSplit.placeOfSupplyCode})
+                          </div>
+                        )}
 
                         <div className="flex justify-between items-center pt-3 mt-2 border-t-2 border-cream-300">
                           <span className="text-base font-bold text-cream-900">Total Amount</span>
@@ -13772,6 +16658,8 @@ const AdminDashboard: React.FC = () => {
                     </div>
                   );
                 })()}
+                </>
+                )}
 
                 {/* Delivery Information */}
                 <div className="bg-cream-50 rounded-lg p-4 border border-cream-200">
@@ -14203,6 +17091,131 @@ const AdminDashboard: React.FC = () => {
                 )}
               </div>
 
+              {/* Change Requests */}
+              {orderAmendments.length > 0 && (
+                <div className="border-t border-cream-200 pt-6 mb-6">
+                  <h3 className="font-bold text-cream-900 mb-4 flex items-center gap-2">
+                    <Edit size={18} />
+                    Change Requests
+                  </h3>
+                  <div className="space-y-3">
+                    {orderAmendments.map((amendment) => (
+                      <div key={amendment._id} className="p-4 bg-cream-50 rounded-lg border border-cream-200 text-sm">
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                          <span className="text-xs text-cream-600">
+                            {isClient ? new Date(amendment.createdAt).toLocaleString() : "Loading..."}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                            amendment.status === "approved" ? "bg-green-100 text-green-800" :
+                            amendment.status === "rejected" ? "bg-red-100 text-red-800" :
+                            "bg-yellow-100 text-yellow-800"
+                          }`}>
+                            {amendment.status.toUpperCase()}
+                          </span>
+                        </div>
+                        <ul className="text-cream-900 space-y-0.5">
+                          {describeAmendmentChanges(amendment.changes).map((description, idx) => (
+                            <li key={idx}>{description}</li>
+                          ))}
+                        </ul>
+                        {amendment.changes.uploadedDesign?.frontImage?.data && (
+                          <img
+                            src={amendment.changes.uploadedDesign.frontImage.data}
+                            alt="Replacement design"
+                            className="mt-2 h-24 rounded border border-cream-200 object-contain bg-white"
+                          />
+                        )}
+                        {amendment.customerNotes && (
+                          <p className="mt-2 text-xs text-cream-700">Customer notes: {amendment.customerNotes}</p>
+                        )}
+                        <p className="mt-2 text-xs text-cream-700">
+                          {formatCurrency(amendment.pricing.previousTotal)} → {formatCurrency(amendment.pricing.newTotal)}
+                          {Math.abs(amendment.pricing.difference) >= 0.01 && (
+                            <span className={amendment.pricing.difference > 0 ? "text-orange-700" : "text-green-700"}>
+                              {" "}({amendment.pricing.difference > 0 ? "collect" : "refund"} {formatCurrency(Math.abs(amendment.pricing.difference))})
+                            </span>
+                          )}
+                        </p>
+                        {amendment.status === "rejected" && amendment.rejectionReason && (
+                          <p className="mt-1 text-xs text-red-700">Reason: {amendment.rejectionReason}</p>
+                        )}
+                        {amendment.reviewedBy && (
+                          <p className="mt-1 text-xs text-cream-600">Reviewed by {amendment.reviewedBy.name}</p>
+                        )}
+                        {amendment.status === "pending" && (
+                          <div className="flex gap-2 mt-3">
+                            <button
+                              onClick={() => handleReviewAmendment(amendment, "approve")}
+                              disabled={reviewingAmendmentId === amendment._id}
+                              className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 flex items-center gap-1 text-xs"
+                            >
+                              <Check size={14} />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() => handleReviewAmendment(amendment, "reject")}
+                              disabled={reviewingAmendmentId === amendment._id}
+                              className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-1 text-xs"
+                            >
+                              <XCircle size={14} />
+                              Reject
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Shipments */}
+              {["processing", "completed"].includes(selectedOrder.status) && (
+                <div className="border-t border-cream-200 pt-6 mb-6">
+                  <h3 className="font-bold text-cream-900 mb-4 flex items-center gap-2">
+                    <Truck size={18} />
+                    Shipments
+                  </h3>
+                  <ShipmentsManager
+                    orderId={selectedOrder._id}
+                    orderStatus={selectedOrder.status}
+                    lineLabels={Object.fromEntries(
+                      (selectedOrder.items || []).map((line, idx) => [line._id, `${idx + 1}. ${line.product?.name || "Product"}`])
+                    )}
+                  />
+                </div>
+              )}
+
+              {/* Status History */}
+              {selectedOrder.statusHistory && selectedOrder.statusHistory.length > 0 && (
+                <div className="border-t border-cream-200 pt-6 mb-6">
+                  <h3 className="font-bold text-cream-900 mb-4 flex items-center gap-2">
+                    <Clock size={18} />
+                    Status History
+                  </h3>
+                  <div className="space-y-2">
+                    {selectedOrder.statusHistory.map((entry, index) => (
+                      <div key={entry._id || index} className="p-3 bg-cream-50 rounded-lg border border-cream-200 text-sm">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="font-medium text-cream-900">
+                            {entry.fromStatus ? `${ORDER_STATUS_LABELS[entry.fromStatus]} → ` : ""}
+                            {ORDER_STATUS_LABELS[entry.toStatus]}
+                          </span>
+                          <span className="text-xs text-cream-600">
+                            {getStatusActorName(entry)} · {isClient ? new Date(entry.changedAt).toLocaleString() : "Loading..."}
+                          </span>
+                        </div>
+                        {entry.reason && <p className="text-xs text-cream-700 mt-1">{entry.reason}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Audit Log */}
+              <div className="border-t border-cream-200 pt-6 mb-6">
+                <OrderAuditLog key={selectedOrder._id} orderId={selectedOrder._id} />
+              </div>
+
               {/* Order Management Section */}
               {selectedOrder.status !== "cancelled" && (
                 <div className="border-t border-cream-200 pt-6">
@@ -14222,10 +17235,11 @@ const AdminDashboard: React.FC = () => {
                       setOrderStatusUpdate({ ...orderStatusUpdate, status: value as string })
                     }
                     options={[
-                      { value: "request", label: "Request" },
-                      { value: "processing", label: "Processing" },
-                      { value: "completed", label: "Completed" },
-                      { value: "rejected", label: "Rejected" },
+                      { value: selectedOrder.status, label: `${ORDER_STATUS_LABELS[selectedOrder.status]} (current)` },
+                      ...getNextOrderStatuses(selectedOrder.status, "admin").map((status) => ({
+                        value: status,
+                        label: ORDER_STATUS_LABELS[status],
+                      })),
                     ]}
                     className="w-full"
                   />
@@ -14245,6 +17259,38 @@ const AdminDashboard: React.FC = () => {
                   />
                 </div>
 
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Payment Status
+                    </label>
+                    <ReviewFilterDropdown
+                      label="Select Payment Status"
+                      value={orderStatusUpdate.paymentStatus}
+                      onChange={(value) =>
+                        setOrderStatusUpdate({ ...orderStatusUpdate, paymentStatus: value as string })
+                      }
+                      options={Object.entries(PAYMENT_STATUS_LABELS).map(([value, label]) => ({ value, label }))}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-cream-900 mb-2">
+                      Amount Paid
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={orderStatusUpdate.advancePaid}
+                      onChange={(e) =>
+                        setOrderStatusUpdate({ ...orderStatusUpdate, advancePaid: e.target.value })
+                      }
+                      className="w-full px-4 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-cream-900 mb-2">
                     Admin Notes
@@ -14282,7 +17328,7 @@ const AdminDashboard: React.FC = () => {
                     onClick={() => {
                       setShowOrderModal(false);
                       setSelectedOrder(null);
-                      setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "" });
+                      setOrderStatusUpdate({ status: "", deliveryDate: "", adminNotes: "", paymentStatus: "", advancePaid: "" });
                     }}
                     className="px-6 py-3 border border-cream-300 rounded-lg hover:bg-cream-50 transition-colors"
                   >
@@ -14458,6 +17504,77 @@ const AdminDashboard: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Product Price History Modal */}
+      {priceHistoryProduct && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setPriceHistoryProduct(null);
+          }}
+        >
+          <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-cream-900">
+                Price History — {priceHistoryProduct.name}
+              </h3>
+              <button
+                onClick={() => setPriceHistoryProduct(null)}
+                className="p-2 text-cream-600 hover:bg-cream-100 rounded-lg transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {loadingPriceVersions ? (
+              <div className="text-center py-8">
+                <Loader className="animate-spin text-cream-900 mx-auto" size={32} />
+              </div>
+            ) : priceVersions.length === 0 ? (
+              <p className="text-cream-600 text-center py-8">
+                No price changes recorded yet. A version is saved every time this product's prices are edited.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {priceVersions.map((version) => (
+                  <div key={version._id} className="border border-cream-200 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-semibold text-cream-900">
+                        Version {version.version}
+                        {!version.effectiveTo && (
+                          <span className="ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Current
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-sm text-cream-600">
+                        {new Date(version.effectiveFrom).toLocaleString()}
+                        {" – "}
+                        {version.effectiveTo ? new Date(version.effectiveTo).toLocaleString() : "now"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-cream-700 mt-2">
+                      Base price: {formatCurrency(version.pricing?.basePrice || 0)} per unit
+                      {version.pricing?.gstPercentage !== null && version.pricing?.gstPercentage !== undefined && (
+                        <> · GST {version.pricing.gstPercentage}%</>
+                      )}
+                      {version.pricing?.additionalDesignCharge ? (
+                        <> · Design charge {formatCurrency(version.pricing.additionalDesignCharge)}</>
+                      ) : null}
+                    </p>
+                    {version.changedFields?.length > 0 && (
+                      <p className="text-xs text-cream-600 mt-1">Changed: {version.changedFields.join(", ")}</p>
+                    )}
+                    {version.changedBy && (
+                      <p className="text-xs text-cream-500 mt-1">By {version.changedBy.name || version.changedBy.email}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmModal.isOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
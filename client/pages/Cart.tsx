@@ -0,0 +1,435 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ShoppingCart, Trash2, Loader, AlertCircle, Package, Tag, MapPin } from 'lucide-react';
+import CartPriceBreakdown from '../components/CartPriceBreakdown';
+import { CartBreakdown } from '../utils/pricing';
+import { OrderLine, describeOrderLine } from '../utils/orderLines';
+import { GST_STATE_OPTIONS, pincodeNeedsDeliveryState } from '../utils/gst';
+import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
+
+type CartItem = Omit<OrderLine, 'lineTotal' | 'priceList' | 'departmentStatuses' | 'customSize'> & {
+    customSize?: { width: number; height: number } | null;
+};
+
+interface CartQuote {
+    breakdown: CartBreakdown;
+    totalPrice: number;
+}
+
+const Cart: React.FC = () => {
+    const navigate = useNavigate();
+    const [items, setItems] = useState<CartItem[]>([]);
+    const [quote, setQuote] = useState<CartQuote | null>(null);
+    const [quoteError, setQuoteError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [updatingItemId, setUpdatingItemId] = useState<string | null>(null);
+
+    const [pincode, setPincode] = useState('');
+    // State of the shipping address, asked for when the pincode is shared between states
+    const [deliveryState, setDeliveryState] = useState('');
+    const [couponInput, setCouponInput] = useState('');
+    const [appliedCouponCode, setAppliedCouponCode] = useState('');
+    const [address, setAddress] = useState('');
+    const [mobileNumber, setMobileNumber] = useState('');
+    const [isCheckingOut, setIsCheckingOut] = useState(false);
+    const [checkoutError, setCheckoutError] = useState<string | null>(null);
+
+    const validPincode = pincode.length === 6 && /^\d+$/.test(pincode);
+    const quotePincode = validPincode ? pincode : '';
+    const needsDeliveryState = validPincode && pincodeNeedsDeliveryState(pincode);
+    const quoteDeliveryState = needsDeliveryState ? deliveryState : '';
+
+    const getToken = () => {
+        const token = localStorage.getItem('token');
+        if (!token) {
+            navigate('/login');
+            return null;
+        }
+        return token;
+    };
+
+    // The quote needs a delivery pincode, so it is only requested once a valid one is entered
+    const fetchCart = async () => {
+        const token = getToken();
+        if (!token) return;
+
+        try {
+            setError(null);
+            const params = new URLSearchParams();
+            if (quotePincode) params.set('pincode', quotePincode);
+            if (quotePincode && appliedCouponCode) params.set('couponCode', appliedCouponCode);
+            if (quoteDeliveryState) params.set('deliveryState', quoteDeliveryState);
+
+            const response = await fetch(`${API_BASE_URL}/cart?${params.toString()}`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                    'ngrok-skip-browser-warning': 'true'
+                }
+            });
+
+            if (!response.ok) {
+                if (response.status === 401) {
+                    localStorage.removeItem('token');
+                    navigate('/login');
+                    return;
+                }
+                throw new Error('Failed to fetch cart');
+            }
+
+            const data = await response.json();
+            setItems(data.data?.items || []);
+            setQuote(data.quote || null);
+            setQuoteError(data.quoteError || null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load cart');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchCart();
+    }, [quotePincode, quoteDeliveryState, appliedCouponCode]);
+
+    const updateItem = async (itemId: string, method: 'PUT' | 'DELETE', body?: object) => {
+        const token = getToken();
+        if (!token) return;
+
+        try {
+            setUpdatingItemId(itemId);
+            setError(null);
+            const response = await fetch(`${API_BASE_URL}/cart/items/${itemId}`, {
+                method,
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                    'ngrok-skip-browser-warning': 'true'
+                },
+                body: body ? JSON.stringify(body) : undefined
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to update cart');
+            }
+            // Re-fetch so the quote reflects the change
+            await fetchCart();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update cart');
+        } finally {
+            setUpdatingItemId(null);
+        }
+    };
+
+    const handleCheckout = async () => {
+        if (!validPincode) {
+            setCheckoutError('Please enter a valid 6-digit pincode.');
+            return;
+        }
+        if (needsDeliveryState && !deliveryState) {
+            setCheckoutError('Please choose the state of your delivery address.');
+            return;
+        }
+        if (!address.trim()) {
+            setCheckoutError('Please enter your complete address.');
+            return;
+        }
+        if (mobileNumber.length < 10 || !/^\d+$/.test(mobileNumber)) {
+            setCheckoutError('Please enter a valid 10-digit mobile number.');
+            return;
+        }
+        if (!quote) {
+            setCheckoutError(quoteError || 'Unable to price your cart. Please try again.');
+            return;
+        }
+
+        const token = getToken();
+        if (!token) return;
+
+        try {
+            setIsCheckingOut(true);
+            setCheckoutError(null);
+            const response = await fetch(`${API_BASE_URL}/cart/checkout`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                    'ngrok-skip-browser-warning': 'true'
+                },
+                body: JSON.stringify({
+                    pincode,
+                    deliveryState: quoteDeliveryState || null,
+                    address: address.trim(),
+                    mobileNumber: mobileNumber.trim(),
+                    couponCode: appliedCouponCode || null,
+                    // Server re-prices the cart and rejects a stale total
+                    totalPrice: quote.totalPrice,
+                })
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                // Prices changed since the quote was shown - refresh it
+                if (data.expectedTotal !== undefined) {
+                    await fetchCart();
+                }
+                throw new Error(data.error || 'Failed to place order');
+            }
+
+            navigate(`/orders/${data.order._id}`);
+        } catch (err) {
+            setCheckoutError(err instanceof Error ? err.message : 'Failed to place order');
+        } finally {
+            setIsCheckingOut(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+                <div className="text-center">
+                    <Loader className="w-12 h-12 animate-spin text-blue-600 mx-auto mb-4" />
+                    <p className="text-slate-600">Loading your cart...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-slate-50">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {/* Header */}
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold text-slate-900">My Cart</h1>
+                    <p className="text-slate-600 mt-2">Order several products together with one delivery and payment</p>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+                        <AlertCircle className="w-4 h-4" />
+                        {error}
+                    </div>
+                )}
+
+                {items.length === 0 ? (
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-12 text-center">
+                        <ShoppingCart className="w-16 h-16 text-slate-300 mx-auto mb-4" />
+                        <h3 className="text-xl font-semibold text-slate-900 mb-2">Your Cart is Empty</h3>
+                        <p className="text-slate-600 mb-6">Add products to order them together</p>
+                        <button
+                            onClick={() => navigate('/digital-print')}
+                            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            Browse Products
+                        </button>
+                    </div>
+                ) : (
+                    <div className="grid lg:grid-cols-3 gap-6">
+                        {/* Cart Items */}
+                        <div className="lg:col-span-2 space-y-4">
+                            {items.map((item, index) => (
+                                <motion.div
+                                    key={item._id}
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: index * 0.05 }}
+                                    className="bg-white rounded-xl shadow-sm border border-slate-200 p-6"
+                                >
+                                    <div className="flex items-start gap-6">
+                                        {item.product?.image ? (
+                                            <img
+                                                src={item.product.image}
+                                                alt={item.product.name}
+                                                className="w-20 h-20 object-cover rounded-lg border border-slate-200"
+                                            />
+                                        ) : (
+                                            <div className="w-20 h-20 bg-slate-100 rounded-lg flex items-center justify-center">
+                                                <Package className="w-8 h-8 text-slate-400" />
+                                            </div>
+                                        )}
+
+                                        <div className="flex-1 min-w-0">
+                                            <h3 className="text-lg font-bold text-slate-900">{item.product?.name || 'Product'}</h3>
+                                            <p className="text-sm text-slate-600 mt-1">{describeOrderLine(item)}</p>
+                                            {item.customSize && (
+                                                <p className="text-sm text-slate-500 mt-1">
+                                                    Custom size: {item.customSize.width} × {item.customSize.height}
+                                                </p>
+                                            )}
+                                            {item.notes && <p className="text-sm text-slate-500 mt-1">Notes: {item.notes}</p>}
+
+                                            <div className="flex items-center gap-4 mt-4">
+                                                <label className="text-sm text-slate-600">Quantity</label>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    defaultValue={item.quantity}
+                                                    disabled={updatingItemId === item._id}
+                                                    onBlur={(e) => {
+                                                        const newQuantity = parseInt(e.target.value, 10);
+                                                        if (newQuantity > 0 && newQuantity !== item.quantity) {
+                                                            updateItem(item._id, 'PUT', { quantity: newQuantity });
+                                                        }
+                                                    }}
+                                                    className="w-32 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                                />
+                                                <button
+                                                    onClick={() => updateItem(item._id, 'DELETE')}
+                                                    disabled={updatingItemId === item._id}
+                                                    className="ml-auto flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                                                >
+                                                    {updatingItemId === item._id ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        </div>
+
+                                        {quote && (
+                                            <div className="text-right">
+                                                <p className="text-xl font-bold text-slate-900">
+                                                    ₹{(quote.breakdown.lines[index]?.lineTotal || 0).toFixed(2)}
+                                                </p>
+                                                <p className="text-xs text-slate-500">incl. GST</p>
+                                            </div>
+                                        )}
+                                    </div>
+                                </motion.div>
+                            ))}
+                        </div>
+
+                        {/* Checkout */}
+                        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 h-fit space-y-4">
+                            <h2 className="text-lg font-bold text-slate-900">Checkout</h2>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-1">
+                                    <MapPin className="w-4 h-4" /> Pincode
+                                </label>
+                                <input
+                                    type="text"
+                                    value={pincode}
+                                    maxLength={6}
+                                    onChange={(e) => setPincode(e.target.value.replace(/\D/g, ''))}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                    placeholder="6-digit pincode"
+                                />
+                            </div>
+
+                            {needsDeliveryState && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">State</label>
+                                    <select
+                                        value={deliveryState}
+                                        onChange={(e) => setDeliveryState(e.target.value)}
+                                        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                    >
+                                        <option value="">Select the state of your address</option>
+                                        {GST_STATE_OPTIONS.map((state) => (
+                                            <option key={state.code} value={state.code}>{state.name}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-slate-500 mt-1">This pincode is shared between states, so GST is worked out from the state you choose.</p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-1">
+                                    <Tag className="w-4 h-4" /> Coupon
+                                </label>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={couponInput}
+                                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                                        className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                        placeholder="Coupon code"
+                                    />
+                                    {appliedCouponCode ? (
+                                        <button
+                                            onClick={() => {
+                                                setAppliedCouponCode('');
+                                                setCouponInput('');
+                                            }}
+                                            className="px-3 py-2 text-sm border border-slate-300 rounded-lg hover:bg-slate-50"
+                                        >
+                                            Remove
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => setAppliedCouponCode(couponInput.trim())}
+                                            disabled={!couponInput.trim()}
+                                            className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50"
+                                        >
+                                            Apply
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Address</label>
+                                <textarea
+                                    value={address}
+                                    onChange={(e) => setAddress(e.target.value)}
+                                    rows={3}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                    placeholder="Complete delivery address"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">Mobile Number</label>
+                                <input
+                                    type="tel"
+                                    value={mobileNumber}
+                                    maxLength={10}
+                                    onChange={(e) => setMobileNumber(e.target.value.replace(/\D/g, ''))}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                                    placeholder="10-digit mobile number"
+                                />
+                            </div>
+
+                            {!validPincode && (
+                                <p className="text-sm text-slate-500">Enter your pincode to see shipping and the order total.</p>
+                            )}
+                            {quoteError && (
+                                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{quoteError}</div>
+                            )}
+                            {quote && (
+                                <div className="pt-4 border-t border-slate-200">
+                                    <CartPriceBreakdown
+                                        breakdown={quote.breakdown}
+                                        lines={items.map((item) => ({
+                                            key: item._id,
+                                            name: item.product?.name || 'Product',
+                                            quantity: item.quantity,
+                                        }))}
+                                        totalPrice={quote.totalPrice}
+                                    />
+                                </div>
+                            )}
+
+                            {checkoutError && (
+                                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{checkoutError}</div>
+                            )}
+
+                            <button
+                                onClick={handleCheckout}
+                                disabled={isCheckingOut || !quote}
+                                className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                            >
+                                {isCheckingOut && <Loader className="w-5 h-5 animate-spin" />}
+                                {isCheckingOut ? 'Placing Order...' : 'Place Order'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Cart;
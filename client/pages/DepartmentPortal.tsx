@@ -48,6 +48,10 @@ interface Order {
     notes: string;
   }>;
   createdAt: string;
+  // Set for a line of a multi-line (cart) order - department work is tracked per line
+  lineId?: string;
+  lineNumber?: number;
+  lineCount?: number;
 }
 
 const DepartmentPortal: React.FC = () => {
@@ -137,7 +141,7 @@ const DepartmentPortal: React.FC = () => {
     }
   };
 
-  const handleDepartmentAction = async (orderId: string, action: string, notes?: string) => {
+  const handleDepartmentAction = async (order: Order, action: string, notes?: string) => {
     if (!selectedDepartment) return;
 
     setLoading(true);
@@ -146,11 +150,11 @@ const DepartmentPortal: React.FC = () => {
 
     try {
       const response = await fetch(
-        `${API_BASE_URL}/orders/${orderId}/departments/${selectedDepartment._id}/action`,
+        `${API_BASE_URL}/orders/${order._id}/departments/${selectedDepartment._id}/action`,
         {
           method: "POST",
           headers: getAuthHeaders(),
-          body: JSON.stringify({ action, notes: notes || "" }),
+          body: JSON.stringify({ action, notes: notes || "", lineId: order.lineId }),
         }
       );
 
@@ -205,7 +209,7 @@ const DepartmentPortal: React.FC = () => {
       buttons.push(
         <button
           key="start"
-          onClick={() => handleDepartmentAction(order._id, "start")}
+          onClick={() => handleDepartmentAction(order, "start")}
           className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
         >
           <Play size={16} />
@@ -218,7 +222,7 @@ const DepartmentPortal: React.FC = () => {
       buttons.push(
         <button
           key="pause"
-          onClick={() => handleDepartmentAction(order._id, "pause")}
+          onClick={() => handleDepartmentAction(order, "pause")}
           className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors flex items-center gap-2"
         >
           <Pause size={16} />
@@ -228,7 +232,7 @@ const DepartmentPortal: React.FC = () => {
           key="stop"
           onClick={() => {
             if (window.confirm("Are you sure you want to stop this job? This may require reprint.")) {
-              handleDepartmentAction(order._id, "stop");
+              handleDepartmentAction(order, "stop");
             }
           }}
           className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
@@ -238,7 +242,7 @@ const DepartmentPortal: React.FC = () => {
         </button>,
         <button
           key="complete"
-          onClick={() => handleDepartmentAction(order._id, "complete")}
+          onClick={() => handleDepartmentAction(order, "complete")}
           className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
         >
           <CheckCircle2 size={16} />
@@ -251,7 +255,7 @@ const DepartmentPortal: React.FC = () => {
       buttons.push(
         <button
           key="resume"
-          onClick={() => handleDepartmentAction(order._id, "resume")}
+          onClick={() => handleDepartmentAction(order, "resume")}
           className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
         >
           <Play size={16} />
@@ -261,7 +265,7 @@ const DepartmentPortal: React.FC = () => {
           key="stop"
           onClick={() => {
             if (window.confirm("Are you sure you want to stop this job?")) {
-              handleDepartmentAction(order._id, "stop");
+              handleDepartmentAction(order, "stop");
             }
           }}
           className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
@@ -396,7 +400,7 @@ const DepartmentPortal: React.FC = () => {
                   const deptStatus = getDepartmentStatus(order);
                   return (
                     <motion.div
-                      key={order._id}
+                      key={order.lineId ? `${order._id}-${order.lineId}` : order._id}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="border border-cream-200 rounded-lg p-4 hover:shadow-md transition-shadow"
@@ -410,7 +414,10 @@ const DepartmentPortal: React.FC = () => {
                             </span>
                           </div>
                           <div className="text-sm text-cream-600 space-y-1">
-                            <p><strong>Product:</strong> {order.product.name}</p>
+                            <p>
+                              <strong>Product:</strong> {order.product.name}
+                              {order.lineCount && order.lineCount > 1 && ` (item ${order.lineNumber} of ${order.lineCount})`}
+                            </p>
                             <p><strong>Quantity:</strong> {order.quantity.toLocaleString()} units</p>
                             {deptStatus?.operator && (
                               <p><strong>Operator:</strong> {deptStatus.operator.name}</p>
@@ -32,6 +32,7 @@ import {
   Info,
 } from "lucide-react";
 import { API_BASE_URL_WITH_API as API_BASE_URL } from "../lib/apiConfig";
+import { getOrderBasePrice, PricingSnapshot, OrderSubattribute, OrderCustomSize, formatCustomSize } from "../utils/pricing";
 
 interface Department {
   _id: string;
@@ -78,6 +79,7 @@ interface Order {
   quantity: number;
   status: string;
   totalPrice: number;
+  pricingSnapshot?: PricingSnapshot | null;
   finish?: string;
   shape?: string;
   selectedOptions?: Array<{
@@ -97,7 +99,9 @@ interface Order {
     priceAdd: number;
     description?: string;
     image?: string;
+    subattribute?: OrderSubattribute | null;
   }>;
+  customSize?: OrderCustomSize | null;
   uploadedDesign?: {
     frontImage?: {
       data: string;
@@ -132,6 +136,10 @@ interface Order {
     email: string;
   };
   createdAt: string;
+  // Set for a line of a multi-line (cart) order - department work is tracked per line
+  lineId?: string;
+  lineNumber?: number;
+  lineCount?: number;
   deliveryDate?: string;
   address?: string;
   pincode?: string;
@@ -288,7 +296,7 @@ const EmployeeDashboard: React.FC = () => {
   };
 
   // Fetch full order details including product information (in background)
-  const fetchFullOrderDetails = async (orderId: string) => {
+  const fetchFullOrderDetails = async (orderId: string, lineId?: string) => {
     try {
       const response = await fetch(`${API_BASE_URL}/orders/${orderId}`, {
         headers: getAuthHeaders(),
@@ -299,7 +307,9 @@ const EmployeeDashboard: React.FC = () => {
       }
 
       const data = await response.json();
-      setFullOrderDetails(data);
+      // For a cart order, show the line this department entry belongs to
+      const line = lineId ? (data.items || []).find((item: { _id: string }) => item._id === lineId) : null;
+      setFullOrderDetails(line ? { ...data, ...line, _id: data._id, lineId } : data);
     } catch (err) {
       console.error("Error fetching full order details:", err);
       // Silently fail - use the basic order data we already have
@@ -312,10 +322,10 @@ const EmployeeDashboard: React.FC = () => {
     setFullOrderDetails(null); // Reset full details
     setShowOrderModal(true);
     // Fetch full order details in background (non-blocking)
-    fetchFullOrderDetails(order._id);
+    fetchFullOrderDetails(order._id, order.lineId);
   };
 
-  const handleDepartmentAction = async (orderId: string, action: string, notes?: string) => {
+  const handleDepartmentAction = async (order: Order, action: string, notes?: string) => {
     if (!selectedDepartment) return;
 
     setLoading(true);
@@ -324,11 +334,11 @@ const EmployeeDashboard: React.FC = () => {
 
     try {
       const response = await fetch(
-        `${API_BASE_URL}/orders/${orderId}/departments/${selectedDepartment._id}/action`,
+        `${API_BASE_URL}/orders/${order._id}/departments/${selectedDepartment._id}/action`,
         {
           method: "POST",
           headers: getAuthHeaders(),
-          body: JSON.stringify({ action, notes: notes || "" }),
+          body: JSON.stringify({ action, notes: notes || "", lineId: order.lineId }),
         }
       );
 
@@ -711,7 +721,7 @@ const EmployeeDashboard: React.FC = () => {
 
                     return (
                       <motion.div
-                        key={order._id}
+                        key={order.lineId ? `${order._id}-${order.lineId}` : order._id}
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
                         className="bg-white rounded-xl border border-slate-200 p-6 hover:shadow-lg transition-all cursor-pointer group"
@@ -725,6 +735,7 @@ const EmployeeDashboard: React.FC = () => {
                             </h3>
                             <p className="text-xs text-slate-500">
                               {order.product.name}
+                              {order.lineCount && order.lineCount > 1 && ` · Item ${order.lineNumber} of ${order.lineCount}`}
                             </p>
                           </div>
                           <div className={`w-3 h-3 rounded-full ${statusColor}`} />
@@ -759,7 +770,7 @@ const EmployeeDashboard: React.FC = () => {
                         <div className="flex gap-2 pt-4 border-t border-slate-100" onClick={(e) => e.stopPropagation()}>
                           {status === "pending" && (
                             <button
-                              onClick={() => handleDepartmentAction(order._id, "start")}
+                              onClick={() => handleDepartmentAction(order, "start")}
                               className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
                             >
                               <Play className="w-4 h-4" />
@@ -769,14 +780,14 @@ const EmployeeDashboard: React.FC = () => {
                           {status === "in_progress" && (
                             <>
                               <button
-                                onClick={() => handleDepartmentAction(order._id, "pause")}
+                                onClick={() => handleDepartmentAction(order, "pause")}
                                 className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
                               >
                                 <Pause className="w-4 h-4" />
                                 Pause
                               </button>
                               <button
-                                onClick={() => handleDepartmentAction(order._id, "complete")}
+                                onClick={() => handleDepartmentAction(order, "complete")}
                                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
                               >
                                 <CheckCircle2 className="w-4 h-4" />
@@ -787,7 +798,7 @@ const EmployeeDashboard: React.FC = () => {
                           {status === "paused" && (
                             <>
                               <button
-                                onClick={() => handleDepartmentAction(order._id, "resume")}
+                                onClick={() => handleDepartmentAction(order, "resume")}
                                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
                               >
                                 <Play className="w-4 h-4" />
@@ -796,7 +807,7 @@ const EmployeeDashboard: React.FC = () => {
                               <button
                                 onClick={() => {
                                   if (window.confirm("Are you sure you want to stop this job?")) {
-                                    handleDepartmentAction(order._id, "stop");
+                                    handleDepartmentAction(order, "stop");
                                   }
                                 }}
                                 className="flex-1 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
@@ -903,7 +914,7 @@ const EmployeeDashboard: React.FC = () => {
                         {status === "pending" && (
                           <button
                             onClick={() => {
-                              handleDepartmentAction(order._id, "start");
+                              handleDepartmentAction(order, "start");
                               setShowOrderModal(false);
                             }}
                             className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 font-medium"
@@ -916,7 +927,7 @@ const EmployeeDashboard: React.FC = () => {
                           <>
                             <button
                               onClick={() => {
-                                handleDepartmentAction(order._id, "pause");
+                                handleDepartmentAction(order, "pause");
                                 setShowOrderModal(false);
                               }}
                               className="flex-1 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center justify-center gap-2 font-medium"
@@ -927,7 +938,7 @@ const EmployeeDashboard: React.FC = () => {
                             <button
                               onClick={() => {
                                 if (window.confirm("Are you sure you want to stop this job?")) {
-                                  handleDepartmentAction(order._id, "stop");
+                                  handleDepartmentAction(order, "stop");
                                   setShowOrderModal(false);
                                 }
                               }}
@@ -942,7 +953,7 @@ const EmployeeDashboard: React.FC = () => {
                           <>
                             <button
                               onClick={() => {
-                                handleDepartmentAction(order._id, "resume");
+                                handleDepartmentAction(order, "resume");
                                 setShowOrderModal(false);
                               }}
                               className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 font-medium"
@@ -953,7 +964,7 @@ const EmployeeDashboard: React.FC = () => {
                             <button
                               onClick={() => {
                                 if (window.confirm("Are you sure you want to stop this job?")) {
-                                  handleDepartmentAction(order._id, "stop");
+                                  handleDepartmentAction(order, "stop");
                                   setShowOrderModal(false);
                                 }
                               }}
@@ -1035,8 +1046,13 @@ const EmployeeDashboard: React.FC = () => {
                               <p>Quantity: {order.quantity.toLocaleString()} units</p>
                               {order.finish && <p>Finish: {order.finish}</p>}
                               {order.shape && <p>Shape: {order.shape}</p>}
-                              {order.product?.basePrice && (
-                                <p>Base Price: ₹{order.product.basePrice.toFixed(2)}</p>
+                              {order.customSize && (
+                                <p className="font-semibold text-slate-900">
+                                  Custom Size: {formatCustomSize(order.customSize)}
+                                </p>
+                              )}
+                              {getOrderBasePrice(order) > 0 && (
+                                <p>Base Price: ₹{getOrderBasePrice(order).toFixed(2)}</p>
                               )}
                               <p className="font-semibold text-slate-900 mt-2">
                                 Total: ₹{order.totalPrice.toFixed(2)}
@@ -1140,6 +1156,11 @@ const EmployeeDashboard: React.FC = () => {
                                     {attr.description && (
                                       <p className="text-xs text-slate-500 mt-1">{attr.description}</p>
                                     )}
+                                    {attr.subattribute && (
+                                      <p className="text-sm text-slate-600 mt-1">
+                                        Sub-option: <span className="font-semibold">{attr.subattribute.label || attr.subattribute.value}</span>
+                                      </p>
+                                    )}
                                   </div>
                                   {attr.image && (
                                     <img
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowRight, Check, Truck, Upload as UploadIcon, FileImage, CreditCard, X, Loader, Info, Lock, AlertCircle, MapPin } from 'lucide-react';
+import { ArrowRight, Check, Truck, Upload as UploadIcon, FileImage, CreditCard, X, Loader, Info, Lock, AlertCircle, MapPin, Tag, ShoppingCart } from 'lucide-react';
 import { Select, SelectOption } from '../components/ui/select';
 import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
 import BackButton from '../components/BackButton';
+import { uploadDesignFile, toDesignReference } from '../utils/designFiles';
+import { GST_STATE_OPTIONS, pincodeNeedsDeliveryState } from '../utils/gst';
+import { calculateOrderBreakdown, resolveSelectedOptions, resolveDynamicAttributes, formatChargeHint, describeCharge, getGstLines, OrderBreakdown, CouponForCalculation, OrderPriceList, OrderDeliveryZone, PricingMode, CustomSizeSettings, CustomSizeUnit, CUSTOM_SIZE_UNIT_LABELS, validateCustomSize, formatCustomSize } from '../utils/pricing';
 
 interface SubCategory {
   _id: string;
@@ -53,6 +56,7 @@ interface GlossProduct {
   options?: Array<{
     name: string;
     priceAdd: number;
+    pricingMode?: string;
     description?: string;
     image?: string;
   }>;
@@ -71,6 +75,8 @@ interface GlossProduct {
           value: string;
           label: string;
           priceMultiplier: number;
+          priceAdd?: number;
+          pricingMode?: PricingMode | null;
           image?: string;
           description?: string;
         }>;
@@ -90,6 +96,8 @@ interface GlossProduct {
         value: string;
         label: string;
         priceMultiplier: number;
+        priceAdd?: number;
+        pricingMode?: PricingMode | null;
         image?: string;
         description?: string;
       }>;
@@ -113,6 +121,8 @@ interface GlossProduct {
   gstPercentage?: number;
   // Price display setting
   showPriceIncludingGst?: boolean; // If true, show prices including GST; if false, show excluding GST
+  // Custom width x height ("Custom" card shape), priced by area
+  customSize?: CustomSizeSettings;
   // Custom instructions for customers
   instructions?: string;
 }
@@ -138,6 +148,26 @@ const GlossProductSelection: React.FC = () => {
   // Selected product options (from options table)
   const [selectedProductOptions, setSelectedProductOptions] = useState<string[]>([]);
 
+  // Coupon states - the coupon is validated by the server before it is applied to the price
+  const [couponCodeInput, setCouponCodeInput] = useState<string>("");
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponForCalculation | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
+  // Contract price list of the logged-in customer for the selected product (null = catalog prices)
+  const [contractPriceList, setContractPriceList] = useState<OrderPriceList | null>(null);
+
+  // Seller's GST state - decides whether GST is shown as CGST + SGST or IGST for the entered pincode
+  const [sellerStateCode, setSellerStateCode] = useState<string | null>(null);
+
+  // Custom size (width x height in the product's unit) - only for products that allow it
+  const [useCustomSize, setUseCustomSize] = useState(false);
+  const [customWidth, setCustomWidth] = useState<string>("");
+  const [customHeight, setCustomHeight] = useState<string>("");
+
+  // Delivery zone covering the entered pincode - shipping charge and minimum order value (null = no zone)
+  const [deliveryZone, setDeliveryZone] = useState<OrderDeliveryZone | null>(null);
+
   // Order form states
   const [estimatedDeliveryDate, setEstimatedDeliveryDate] = useState<string | null>(null);
   const [deliveryLocationSource, setDeliveryLocationSource] = useState<string>("");
@@ -146,6 +176,9 @@ const GlossProductSelection: React.FC = () => {
   const [customerName, setCustomerName] = useState<string>("");
   const [customerEmail, setCustomerEmail] = useState<string>("");
   const [pincode, setPincode] = useState<string>("");
+  // State of the delivery address, asked for when the pincode is shared between states
+  const [deliveryState, setDeliveryState] = useState<string>("");
+  const needsDeliveryState = pincodeNeedsDeliveryState(pincode);
   const [address, setAddress] = useState<string>("");
   const [mobileNumber, setMobileNumber] = useState<string>("");
   const [frontDesignFile, setFrontDesignFile] = useState<File | null>(null);
@@ -153,28 +186,33 @@ const GlossProductSelection: React.FC = () => {
   const [frontDesignPreview, setFrontDesignPreview] = useState<string>("");
   const [backDesignPreview, setBackDesignPreview] = useState<string>("");
   const [orderNotes, setOrderNotes] = useState<string>("");
-  const [price, setPrice] = useState(0);
-  const [subtotal, setSubtotal] = useState(0);
-  const [gstAmount, setGstAmount] = useState(0);
-  const [additionalDesignCharge, setAdditionalDesignCharge] = useState(0);
-  const [appliedDiscount, setAppliedDiscount] = useState<number | null>(null);
-  // Track individual charges for order summary
-  const [printingOptionCharge, setPrintingOptionCharge] = useState(0);
-  const [deliverySpeedCharge, setDeliverySpeedCharge] = useState(0);
-  const [textureTypeCharge, setTextureTypeCharge] = useState(0);
-  const [productOptionsCharge, setProductOptionsCharge] = useState(0);
-  const [dynamicAttributesCharges, setDynamicAttributesCharges] = useState<Array<{ name: string; label: string; charge: number }>>([]);
-  const [baseSubtotalBeforeDiscount, setBaseSubtotalBeforeDiscount] = useState(0);
-  const [perUnitPriceExcludingGst, setPerUnitPriceExcludingGst] = useState(0); // Store per unit price excluding GST
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
   const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
 
   const navigate = useNavigate();
 
+  // Load the seller's GST state once
+  useEffect(() => {
+    const fetchTaxSettings = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/quotes/tax-settings`, {
+          headers: { Accept: "application/json" },
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        setSellerStateCode(data.sellerState?.code || null);
+      } catch (err) {
+        console.error("Error fetching tax settings:", err);
+      }
+    };
+    fetchTaxSettings();
+  }, []);
+
   // Close modal on ESC key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -542,7 +580,6 @@ const GlossProductSelection: React.FC = () => {
     }
 
     setQuantity(smallestQuantity);
-    setAppliedDiscount(null);
 
     // Initialize dynamic attributes with default values
     const initialAttributes: { [key: string]: string | number | boolean | File | null | any[] } = {};
@@ -647,277 +684,108 @@ const GlossProductSelection: React.FC = () => {
   };
 
 
-  // Calculate price with all factors
-  React.useEffect(() => {
-    if (selectedProduct) {
-      let basePrice = selectedProduct.basePrice;
-
-      // Apply range-wise price multiplier if applicable (applied first, before other multipliers)
-      if (selectedProduct.filters?.orderQuantity?.quantityType === "RANGE_WISE" &&
-        selectedProduct.filters.orderQuantity.rangeWiseQuantities &&
-        selectedProduct.filters.orderQuantity.rangeWiseQuantities.length > 0) {
-        const applicableRange = selectedProduct.filters.orderQuantity.rangeWiseQuantities.find((range: any) => {
-          return quantity >= range.min && (range.max === null || range.max === undefined || quantity <= range.max);
-        });
-        if (applicableRange && applicableRange.priceMultiplier !== undefined && applicableRange.priceMultiplier !== 1.0) {
-          basePrice = basePrice * applicableRange.priceMultiplier;
-        }
-      }
-
-      // Track price impacts for breakdown display
-      let printingOptionImpact = 0;
-      let deliverySpeedImpact = 0;
-      let textureTypeImpact = 0;
-      const dynamicAttributesChargesList: Array<{ name: string; label: string; charge: number }> = [];
-
-      // Check if filter prices are enabled
-      const filterPricesEnabled = selectedProduct.filters?.filterPricesEnabled || false;
-
-      if (filterPricesEnabled) {
-        // Use filter prices from filters object
-        if (selectedPrintingOption && selectedProduct.filters?.printingOptionPrices) {
-          const priceData = selectedProduct.filters.printingOptionPrices.find((p: any) => p.name === selectedPrintingOption);
-          if (priceData && priceData.priceAdd !== undefined) {
-            const priceAdd = typeof priceData.priceAdd === 'number' ? priceData.priceAdd : parseFloat(priceData.priceAdd) || 0;
-            const impactPerUnit = priceAdd / 1000;
-            basePrice += impactPerUnit;
-            printingOptionImpact = impactPerUnit * quantity;
-          }
-        }
+  // Custom size to price the order with (null = the product's standard size) and why it can't be used
+  const customSizeInput = useCustomSize && selectedProduct?.customSize?.enabled
+    ? { width: parseFloat(customWidth) || 0, height: parseFloat(customHeight) || 0 }
+    : null;
+  const customSizeError = customSizeInput && selectedProduct
+    ? validateCustomSize(selectedProduct.customSize, customSizeInput, quantity)
+    : null;
+
+  // Calculate price with the shared pricing engine (same calculation the server uses for quotes and orders)
+  const breakdown: OrderBreakdown | null = React.useMemo(() => {
+    if (!selectedProduct) return null;
+    const { options } = resolveSelectedOptions(selectedProduct, selectedProductOptions);
+    return calculateOrderBreakdown({
+      quantity,
+      product: selectedProduct,
+      finish: selectedPrintingOption,
+      shape: selectedDeliverySpeed,
+      textureType: selectedTextureType,
+      selectedOptions: options,
+      selectedDynamicAttributes: resolveDynamicAttributes(selectedProduct, selectedDynamicAttributes),
+      coupon: appliedCoupon,
+      priceList: contractPriceList,
+      deliveryZone,
+      customSize: customSizeInput && !customSizeError ? customSizeInput : null,
+      pincode: pincode.trim(),
+      deliveryState: needsDeliveryState ? deliveryState : null,
+      sellerStateCode,
+    });
+  }, [selectedProduct, selectedPrintingOption, selectedDeliverySpeed, selectedTextureType, quantity, selectedDynamicAttributes, selectedProductOptions, appliedCoupon, contractPriceList, deliveryZone, useCustomSize, customWidth, customHeight, pincode, deliveryState, needsDeliveryState, sellerStateCode]);
+
+  // A coupon is validated for one product - drop it when the product changes
+  useEffect(() => {
+    setAppliedCoupon(null);
+    setCouponError(null);
+  }, [selectedProduct?._id]);
 
-        if (selectedDeliverySpeed && selectedProduct.filters?.deliverySpeedPrices) {
-          const priceData = selectedProduct.filters.deliverySpeedPrices.find((p: any) => p.name === selectedDeliverySpeed);
-          if (priceData && priceData.priceAdd !== undefined) {
-            const priceAdd = typeof priceData.priceAdd === 'number' ? priceData.priceAdd : parseFloat(priceData.priceAdd) || 0;
-            const impactPerUnit = priceAdd / 1000;
-            basePrice += impactPerUnit;
-            deliverySpeedImpact = impactPerUnit * quantity;
-          }
-        }
+  // Custom size limits are per product
+  useEffect(() => {
+    setUseCustomSize(false);
+    setCustomWidth("");
+    setCustomHeight("");
+  }, [selectedProduct?._id]);
 
-        if (selectedTextureType && selectedProduct.filters?.textureTypePrices) {
-          const priceData = selectedProduct.filters.textureTypePrices.find((p: any) => p.name === selectedTextureType);
-          if (priceData && priceData.priceAdd !== undefined) {
-            const priceAdd = typeof priceData.priceAdd === 'number' ? priceData.priceAdd : parseFloat(priceData.priceAdd) || 0;
-            const impactPerUnit = priceAdd / 1000;
-            basePrice += impactPerUnit;
-            textureTypeImpact = impactPerUnit * quantity;
-          }
-        }
-      } else {
-        // Apply options-based multipliers (legacy system) - only for filters if they match option names
-        if (selectedProduct.options && Array.isArray(selectedProduct.options)) {
-          selectedProduct.options.forEach((option: any) => {
-            if (option.name === selectedPrintingOption) {
-              const priceAdd = typeof option.priceAdd === 'number' ? option.priceAdd : parseFloat(option.priceAdd) || 0;
-              // priceAdd is per 1000 units, so calculate impact per unit
-              if (priceAdd > 0) {
-                const impactPerUnit = priceAdd / 1000;
-                basePrice += impactPerUnit;
-                printingOptionImpact = impactPerUnit * quantity;
-              } else if (priceAdd < 0) {
-                // Handle negative priceAdd as multiplier
-                const multiplier = (1 + Math.abs(priceAdd) / 100);
-                const oldPrice = basePrice;
-                basePrice *= multiplier;
-                printingOptionImpact = (basePrice - oldPrice) * quantity;
-              }
-            } else if (option.name === selectedDeliverySpeed) {
-              const priceAdd = typeof option.priceAdd === 'number' ? option.priceAdd : parseFloat(option.priceAdd) || 0;
-              if (priceAdd > 0) {
-                const impactPerUnit = priceAdd / 1000;
-                basePrice += impactPerUnit;
-                deliverySpeedImpact = impactPerUnit * quantity;
-              } else if (priceAdd < 0) {
-                const multiplier = (1 + Math.abs(priceAdd) / 100);
-                const oldPrice = basePrice;
-                basePrice *= multiplier;
-                deliverySpeedImpact = (basePrice - oldPrice) * quantity;
-              }
-            } else if (option.name === selectedTextureType) {
-              const priceAdd = typeof option.priceAdd === 'number' ? option.priceAdd : parseFloat(option.priceAdd) || 0;
-              if (priceAdd > 0) {
-                const impactPerUnit = priceAdd / 1000;
-                basePrice += impactPerUnit;
-                textureTypeImpact = impactPerUnit * quantity;
-              } else if (priceAdd < 0) {
-                const multiplier = (1 + Math.abs(priceAdd) / 100);
-                const oldPrice = basePrice;
-                basePrice *= multiplier;
-                textureTypeImpact = (basePrice - oldPrice) * quantity;
-              }
-            }
-          });
-        }
-      }
-      // Apply legacy hardcoded multipliers if options don't have priceAdd and filter prices are not enabled
-      if (!filterPricesEnabled && (!selectedProduct.options || selectedProduct.options.length === 0)) {
-        if (selectedPrintingOption === 'Both Sides') {
-          const oldPrice = basePrice;
-          basePrice *= 1.2;
-          printingOptionImpact = (basePrice - oldPrice) * quantity;
-        }
-        if (selectedDeliverySpeed === 'Express') {
-          const oldPrice = basePrice;
-          basePrice *= 1.3;
-          deliverySpeedImpact = (basePrice - oldPrice) * quantity;
-        }
-        if (selectedTextureType) {
-          const oldPrice = basePrice;
-          basePrice *= 1.15;
-          textureTypeImpact = (basePrice - oldPrice) * quantity;
-        }
-      }
+  // Load contract prices for logged-in customers (the server applies the same list to quotes and orders)
+  useEffect(() => {
+    setContractPriceList(null);
+    if (!selectedProduct?._id || !localStorage.getItem("token")) return;
 
-      // Apply selected product options (checkboxes) - these are separate from filters and apply regardless of filterPricesEnabled
-      let productOptionsImpact = 0;
-      if (selectedProduct.options && Array.isArray(selectedProduct.options) && selectedProductOptions.length > 0) {
-        selectedProductOptions.forEach((optionName: string) => {
-          const option = selectedProduct.options.find((opt: any) => opt.name === optionName);
-          if (option && option.priceAdd !== undefined) {
-            const priceAdd = typeof option.priceAdd === 'number' ? option.priceAdd : parseFloat(option.priceAdd) || 0;
-            if (priceAdd !== 0) {
-              const impactPerUnit = priceAdd / 1000;
-              basePrice += impactPerUnit;
-              productOptionsImpact += impactPerUnit * quantity;
-            }
-          }
+    let cancelled = false;
+    const fetchContractPriceList = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/price-lists/mine/${selectedProduct._id}`, {
+          headers: getAuthHeaders(),
         });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setContractPriceList(data.priceList || null);
+      } catch (err) {
+        console.error("Error fetching contract prices:", err);
       }
-      setProductOptionsCharge(productOptionsImpact);
+    };
+    fetchContractPriceList();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProduct?._id]);
 
-      // Apply dynamic attribute multipliers and track impact
-      if (selectedProduct.dynamicAttributes && Array.isArray(selectedProduct.dynamicAttributes)) {
-        selectedProduct.dynamicAttributes.forEach((attr) => {
-          if (attr.isEnabled) {
-            const attrType = typeof attr.attributeType === 'object' ? attr.attributeType : null;
-            if (attrType) {
-              const selectedValue = selectedDynamicAttributes[attrType._id];
-              if (selectedValue !== undefined && selectedValue !== null && selectedValue !== "") {
-                const attributeValues = attr.customValues && attr.customValues.length > 0
-                  ? attr.customValues
-                  : attrType.attributeValues || [];
-
-                // Handle checkbox (multiple values) - apply all multipliers
-                if (Array.isArray(selectedValue)) {
-                  const selectedLabels: string[] = [];
-                  let totalCharge = 0;
-                  selectedValue.forEach((val) => {
-                    const attrValue = attributeValues.find((av: any) => av.value === val);
-                    if (attrValue && attrValue.priceMultiplier && attrValue.priceMultiplier !== 1) {
-                      const oldPrice = basePrice;
-                      basePrice = basePrice * attrValue.priceMultiplier;
-                      const charge = (basePrice - oldPrice) * quantity;
-                      totalCharge += charge;
-                      if (attrValue.label) selectedLabels.push(attrValue.label);
-                    }
-                  });
-                  if (totalCharge !== 0) {
-                    dynamicAttributesChargesList.push({
-                      name: attrType.attributeName,
-                      label: selectedLabels.join(", ") || "Selected",
-                      charge: totalCharge
-                    });
-                  }
-                } else {
-                  // Handle single value attributes
-                  const attrValue = attributeValues.find((av: any) => av.value === selectedValue);
-                  if (attrValue) {
-                    // Check for subattribute
-                    const subAttributeKey = `${attrType._id}_sub`;
-                    const subAttributeValue = selectedDynamicAttributes[subAttributeKey];
-                    let subAttributeDetails: any = null;
-                    
-                    if (subAttributeValue && attrValue.subattributes) {
-                      subAttributeDetails = attrValue.subattributes.find((subav: any) => subav.value === subAttributeValue);
-                    }
-                    
-                    // Calculate combined multiplier (main * subattribute)
-                    const mainMultiplier = attrValue.priceMultiplier || 1;
-                    const subMultiplier = subAttributeDetails?.priceMultiplier || 1;
-                    const combinedMultiplier = mainMultiplier * subMultiplier;
-                    
-                    if (combinedMultiplier !== 1) {
-                      const oldPrice = basePrice;
-                      basePrice = basePrice * combinedMultiplier;
-                      const charge = (basePrice - oldPrice) * quantity;
-                      if (charge !== 0) {
-                        const label = subAttributeDetails 
-                          ? `${attrValue.label || String(selectedValue)} - ${subAttributeDetails.label}`
-                          : attrValue.label || String(selectedValue);
-                        dynamicAttributesChargesList.push({
-                          name: attrType.attributeName,
-                          label: label,
-                          charge: charge
-                        });
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        });
+  // Load shipping rates once a full pincode is entered (the server charges the same zone on the order)
+  useEffect(() => {
+    setDeliveryZone(null);
+    if (!/^\d{6}$/.test(pincode.trim())) return;
+
+    let cancelled = false;
+    const fetchDeliveryZone = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/delivery-zones/pincode/${pincode.trim()}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setDeliveryZone(data.deliveryZone || null);
+      } catch (err) {
+        console.error("Error fetching delivery zone:", err);
       }
+    };
+    fetchDeliveryZone();
+    return () => {
+      cancelled = true;
+    };
+  }, [pincode]);
 
-      // Calculate base subtotal before discount
-      const baseSubtotal = basePrice * quantity;
-
-      // Apply quantity-based discounts
-      let discountMultiplier = 1.0;
-      let currentDiscount = null;
-      if (selectedProduct.quantityDiscounts && Array.isArray(selectedProduct.quantityDiscounts)) {
-        // Find the applicable discount tier for the selected quantity
-        const applicableDiscount = selectedProduct.quantityDiscounts.find((discount: any) => {
-          const minQty = discount.minQuantity || 0;
-          const maxQty = discount.maxQuantity;
-          return quantity >= minQty && (maxQty === null || maxQty === undefined || quantity <= maxQty);
-        });
+  // Coupon applied but the order is currently below its minimum value
+  const couponBelowMinimum = !!(appliedCoupon && breakdown && breakdown.couponDiscount === 0 &&
+    breakdown.subtotalAfterDiscount < (appliedCoupon.minOrderValue || 0));
 
-        if (applicableDiscount) {
-          // Use priceMultiplier if available, otherwise calculate from discountPercentage
-          if (applicableDiscount.priceMultiplier) {
-            discountMultiplier = applicableDiscount.priceMultiplier;
-          } else if (applicableDiscount.discountPercentage) {
-            discountMultiplier = (100 - applicableDiscount.discountPercentage) / 100;
-          }
-          currentDiscount = applicableDiscount.discountPercentage || 0;
-        }
-      }
+  // Price excluding GST (GST is only added at checkout)
+  const price = breakdown ? breakdown.subtotalWithDesignCharge : 0;
+  const shippingCharge = breakdown ? breakdown.shippingCharge : 0;
+  const gstAmount = breakdown ? breakdown.gstAmount : 0;
 
-      // Store base subtotal before discount for display
-      setBaseSubtotalBeforeDiscount(baseSubtotal);
-
-      // Apply discount multiplier to subtotal
-      const calculatedSubtotal = baseSubtotal * discountMultiplier;
-      setSubtotal(calculatedSubtotal);
-      setAppliedDiscount(currentDiscount);
-
-      // Store individual charges for order summary
-      setPrintingOptionCharge(printingOptionImpact);
-      setDeliverySpeedCharge(deliverySpeedImpact);
-      setTextureTypeCharge(textureTypeImpact);
-      setDynamicAttributesCharges(dynamicAttributesChargesList);
-
-      // Add additional design charge if applicable
-      const designCharge = selectedProduct.additionalDesignCharge || 0;
-      setAdditionalDesignCharge(designCharge);
-
-      // Calculate GST on (subtotal + design charge)
-      const gstPercent = selectedProduct.gstPercentage || 0;
-      const calculatedGst = (calculatedSubtotal + designCharge) * (gstPercent / 100);
-      setGstAmount(calculatedGst);
-
-      // Store price excluding GST (for product page display)
-      // GST will only be added at checkout
-      const priceExcludingGst = calculatedSubtotal + designCharge;
-      setPrice(priceExcludingGst);
-
-      // Calculate and store per unit price excluding GST (base price + all per-unit charges, after discount)
-      const perUnitExcludingGst = quantity > 0 ? priceExcludingGst / quantity : basePrice;
-      setPerUnitPriceExcludingGst(perUnitExcludingGst);
-    }
-  }, [selectedProduct, selectedPrintingOption, selectedDeliverySpeed, selectedTextureType, quantity, selectedDynamicAttributes, selectedProductOptions]);
+  // Order value is below the delivery zone's minimum - the server won't accept the order
+  const belowZoneMinimum = !!(breakdown && breakdown.minOrderValue > 0 &&
+    breakdown.subtotalWithDesignCharge < breakdown.minOrderValue);
+  const perUnitPriceExcludingGst = breakdown ? breakdown.perUnitPrice : 0;
 
 
   // Get preview classes based on selected product
@@ -1151,6 +1019,55 @@ const GlossProductSelection: React.FC = () => {
     };
   };
 
+  // Validate a coupon code against the current configuration (server checks validity, limits and restrictions)
+  const handleApplyCoupon = async () => {
+    if (!selectedProduct || !couponCodeInput.trim()) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      // File inputs can't be sent as JSON - send the file name instead (they don't affect the price)
+      const attributesForQuote: { [key: string]: any } = {};
+      Object.keys(selectedDynamicAttributes).forEach((key) => {
+        const value = selectedDynamicAttributes[key];
+        attributesForQuote[key] = value instanceof File ? value.name : value;
+      });
+
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          productId: selectedProduct._id,
+          quantity,
+          finish: selectedPrintingOption,
+          shape: selectedDeliverySpeed,
+          textureType: selectedTextureType || null,
+          selectedOptions: selectedProductOptions,
+          selectedDynamicAttributes: attributesForQuote,
+          couponCode: couponCodeInput.trim(),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to apply coupon");
+      }
+
+      setAppliedCoupon(data.coupon);
+      setCouponCodeInput("");
+    } catch (err) {
+      setAppliedCoupon(null);
+      setCouponError(err instanceof Error ? err.message : "Failed to apply coupon");
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponError(null);
+  };
+
   // Helper function to calculate distance between two coordinates (Haversine formula)
   const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
     const R = 6371; // Radius of the Earth in km
@@ -1444,17 +1361,8 @@ const GlossProductSelection: React.FC = () => {
   // Handle place order with payment
   const firstErrorField = useRef<HTMLElement | null>(null);
 
-  const handlePlaceOrder = async () => {
-    // Check if user is logged in
-    const token = localStorage.getItem("token");
-    if (!token) {
-      setValidationError("Please login to place an order. Redirecting to login page...");
-      setTimeout(() => {
-        navigate("/login");
-      }, 2000);
-      return;
-    }
-
+  // Validate the product and design selections, scrolling to the first invalid field
+  const validateProductSelection = (): boolean => {
     // Reset error field reference
     firstErrorField.current = null;
 
@@ -1589,11 +1497,28 @@ const GlossProductSelection: React.FC = () => {
         }
       }, 100);
 
-      return;
+      return false;
     }
 
     // Clear any previous validation errors
     setValidationError(null);
+    return true;
+  };
+
+  const handlePlaceOrder = async () => {
+    // Check if user is logged in
+    const token = localStorage.getItem("token");
+    if (!token) {
+      setValidationError("Please login to place an order. Redirecting to login page...");
+      setTimeout(() => {
+        navigate("/login");
+      }, 2000);
+      return;
+    }
+
+    if (!validateProductSelection()) {
+      return;
+    }
 
     // All product/design validations passed - show payment modal with customer information form
     setShowPaymentModal(true);
@@ -1601,6 +1526,271 @@ const GlossProductSelection: React.FC = () => {
   };
 
 
+  // Add the configured product to the cart; pincode, coupon and payment are handled once at cart checkout
+  const handleAddToCart = async () => {
+    const token = localStorage.getItem("token");
+    if (!token) {
+      setValidationError("Please login to add items to your cart. Redirecting to login page...");
+      setTimeout(() => {
+        navigate("/login");
+      }, 2000);
+      return;
+    }
+
+    if (!validateProductSelection() || !selectedProduct) {
+      return;
+    }
+    if (customSizeError) {
+      setValidationError(customSizeError);
+      return;
+    }
+
+    setIsAddingToCart(true);
+    try {
+      const { uploadedDesign, selectedOptions, selectedDynamicAttributesArray } = await buildOrderLinePayload();
+
+      const response = await fetch(`${API_BASE_URL}/cart/items`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+          "ngrok-skip-browser-warning": "true",
+        },
+        body: JSON.stringify({
+          productId: selectedProduct._id,
+          quantity: quantity,
+          finish: selectedPrintingOption,
+          shape: selectedDeliverySpeed,
+          textureType: selectedTextureType || null,
+          customSize: customSizeInput,
+          selectedOptions: selectedOptions,
+          selectedDynamicAttributes: selectedDynamicAttributesArray,
+          uploadedDesign: uploadedDesign,
+          notes: orderNotes || "",
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add to cart. Please try again.");
+      }
+
+      navigate("/cart");
+    } catch (err) {
+      console.error("Add to cart error:", err);
+      setValidationError(err instanceof Error ? err.message : "Failed to add to cart. Please try again.");
+    } finally {
+      setIsAddingToCart(false);
+    }
+  };
+
+  // Design, options and attribute selections of the configured product, as sent for an order or cart line.
+  // Logged-in customers stream the design files to the file store first and send their references.
+  const buildOrderLinePayload = async () => {
+    if (!selectedProduct) {
+      throw new Error("Please select a product.");
+    }
+    const uploadedDesign: any = {};
+
+    // Validate and prepare front image (required)
+    if (!frontDesignPreview || !frontDesignFile) {
+      throw new Error("Front design image is required.");
+    }
+
+    if (localStorage.getItem("token")) {
+      uploadedDesign.frontImage = toDesignReference(await uploadDesignFile(frontDesignFile));
+      if (backDesignFile && backDesignPreview) {
+        uploadedDesign.backImage = toDesignReference(await uploadDesignFile(backDesignFile));
+      }
+    } else {
+      try {
+        // Handle base64 data - remove data:image/... prefix if present
+        let frontImageData = frontDesignPreview;
+        if (frontImageData.includes(',')) {
+          frontImageData = frontImageData.split(',')[1];
+        }
+
+        if (!frontImageData || frontImageData.trim().length === 0) {
+          throw new Error("Invalid front image data. Please upload the image again.");
+        }
+
+        uploadedDesign.frontImage = {
+          data: frontImageData,
+          contentType: frontDesignFile.type || "image/png",
+          filename: frontDesignFile.name || "front-design.png",
+        };
+      } catch (err) {
+        console.error("Error preparing front image:", err);
+        throw new Error(err instanceof Error ? err.message : "Failed to prepare front design image. Please try uploading again.");
+      }
+
+      // Prepare back image (optional)
+      if (backDesignFile && backDesignPreview) {
+        try {
+          // Handle base64 data - remove data:image/... prefix if present
+          let backImageData = backDesignPreview;
+          if (backImageData.includes(',')) {
+            backImageData = backImageData.split(',')[1];
+          }
+
+          if (backImageData && backImageData.trim().length > 0) {
+            uploadedDesign.backImage = {
+              data: backImageData,
+              contentType: backDesignFile.type || "image/png",
+              filename: backDesignFile.name || "back-design.png",
+            };
+          }
+        } catch (err) {
+          console.error("Error preparing back image:", err);
+          // Back image is optional, so we'll just log the error
+        }
+      }
+    }
+
+    // Prepare selected options with complete information
+    // Note: selectedProductOptions contains option names, not IDs
+    const selectedOptions = selectedProductOptions.map(optionName => {
+      const option = selectedProduct.options.find((opt: any) => opt.name === optionName);
+      return {
+        optionId: optionName, // Store name as optionId for backward compatibility
+        optionName: option?.name || optionName,
+        name: option?.name || optionName, // Also include name field
+        priceAdd: option?.priceAdd || 0,
+        description: option?.description || null,
+        image: option?.image || null,
+      };
+    });
+
+    // Prepare dynamic attributes for order with complete information
+    const orderDynamicAttributes: any = {};
+    const selectedDynamicAttributesArray: Array<{
+      attributeTypeId: string;
+      attributeName: string;
+      attributeValue: any;
+      label: string;
+      priceMultiplier?: number;
+      priceAdd: number;
+      description?: string;
+      image?: string;
+      subattribute?: {
+        value: string;
+        label: string;
+        priceMultiplier: number;
+        priceAdd?: number;
+        pricingMode?: PricingMode | null;
+      };
+    }> = [];
+
+    Object.keys(selectedDynamicAttributes).forEach(key => {
+      // Skip subattribute keys (they'll be handled with their parent attribute)
+      if (key.endsWith('_sub')) {
+        return;
+      }
+      
+      const value = selectedDynamicAttributes[key];
+      if (value !== null && value !== undefined && value !== "") {
+        // Find the attribute type in product
+        const productAttr = selectedProduct.dynamicAttributes?.find(
+          (attr: any) => {
+            const attrType = typeof attr.attributeType === 'object' ? attr.attributeType : null;
+            return attrType?._id === key;
+          }
+        );
+
+        if (productAttr) {
+          const attrType = typeof productAttr.attributeType === 'object' ? productAttr.attributeType : null;
+          if (attrType) {
+            const customValues = productAttr.customValues || [];
+            const defaultValues = attrType.attributeValues || [];
+            const allValues = customValues.length > 0 ? customValues : defaultValues;
+
+            // Find selected value details
+            let selectedValueDetails: any = null;
+            if (Array.isArray(value)) {
+              selectedValueDetails = allValues.filter((av: any) => value.includes(av.value));
+            } else {
+              selectedValueDetails = allValues.find((av: any) => av.value === value || av.value === value.toString());
+            }
+
+            // Check for subattribute
+            const subAttributeKey = `${key}_sub`;
+            const subAttributeValue = selectedDynamicAttributes[subAttributeKey];
+            let subAttributeDetails: any = null;
+            
+            if (selectedValueDetails && subAttributeValue && !Array.isArray(selectedValueDetails)) {
+              const subattributes = (selectedValueDetails as any).subattributes || [];
+              subAttributeDetails = subattributes.find((subav: any) => subav.value === subAttributeValue || subav.value === subAttributeValue.toString());
+            }
+
+            if (selectedValueDetails) {
+              if (Array.isArray(selectedValueDetails)) {
+                // Multiple values
+                const labels = selectedValueDetails.map((sv: any) => sv.label || sv.value).join(", ");
+                const totalPriceMultiplier = selectedValueDetails.reduce((sum: number, sv: any) => sum + (sv.priceMultiplier || 0), 0);
+                selectedDynamicAttributesArray.push({
+                  attributeTypeId: key,
+                  attributeName: attrType.attributeName || "Attribute",
+                  attributeValue: value,
+                  label: labels,
+                  priceMultiplier: totalPriceMultiplier || undefined,
+                  priceAdd: 0,
+                  description: selectedValueDetails.map((sv: any) => sv.description).filter(Boolean).join("; ") || undefined,
+                  image: selectedValueDetails[0]?.image || undefined,
+                  subattribute: subAttributeDetails ? {
+                    value: subAttributeDetails.value,
+                    label: subAttributeDetails.label,
+                    priceMultiplier: subAttributeDetails.priceMultiplier,
+                    priceAdd: subAttributeDetails.priceAdd,
+                    pricingMode: subAttributeDetails.pricingMode,
+                  } : undefined,
+                });
+              } else {
+                // Single value - the subattribute is sent alongside and priced as its own line
+                const mainMultiplier = selectedValueDetails.priceMultiplier || 1;
+
+                selectedDynamicAttributesArray.push({
+                  attributeTypeId: key,
+                  attributeName: attrType.attributeName || "Attribute",
+                  attributeValue: value,
+                  label: selectedValueDetails.label || value?.toString() || "",
+                  priceMultiplier: mainMultiplier !== 1 ? mainMultiplier : undefined,
+                  priceAdd: 0,
+                  description: selectedValueDetails.description || undefined,
+                  image: selectedValueDetails.image || undefined,
+                  subattribute: subAttributeDetails ? {
+                    value: subAttributeDetails.value,
+                    label: subAttributeDetails.label,
+                    priceMultiplier: subAttributeDetails.priceMultiplier,
+                    priceAdd: subAttributeDetails.priceAdd,
+                    pricingMode: subAttributeDetails.pricingMode,
+                  } : undefined,
+                });
+              }
+            } else {
+              // Value not in predefined list (text/number input)
+              selectedDynamicAttributesArray.push({
+                attributeTypeId: key,
+                attributeName: attrType.attributeName || "Attribute",
+                attributeValue: value,
+                label: value?.toString() || "",
+                priceAdd: 0,
+              });
+            }
+          }
+        }
+
+        // Also keep the simple format for backward compatibility
+        if (value instanceof File) {
+          orderDynamicAttributes[key] = value.name;
+        } else {
+          orderDynamicAttributes[key] = value;
+        }
+      }
+    });
+
+    return { uploadedDesign, selectedOptions, selectedDynamicAttributesArray, orderDynamicAttributes };
+  };
+
   // Process payment and create order
   const handlePaymentAndOrder = async () => {
     // Validate product and design first
@@ -1624,7 +1814,11 @@ const GlossProductSelection: React.FC = () => {
       setPaymentError("Please enter a valid quantity (must be greater than 0).");
       return;
     }
-    const finalTotalPrice = price + gstAmount;
+    if (customSizeError) {
+      setPaymentError(customSizeError);
+      return;
+    }
+    const finalTotalPrice = breakdown ? breakdown.finalTotal : 0;
     if (!finalTotalPrice || finalTotalPrice <= 0) {
       setPaymentError("Invalid order total. Please refresh and try again.");
       return;
@@ -1667,6 +1861,14 @@ const GlossProductSelection: React.FC = () => {
       setPaymentError("Please enter a valid 6-digit pincode.");
       return;
     }
+    if (needsDeliveryState && !deliveryState) {
+      setPaymentError("Please choose the state of your delivery address.");
+      return;
+    }
+    if (belowZoneMinimum && breakdown) {
+      setPaymentError(`A minimum order value of ₹${breakdown.minOrderValue.toFixed(2)} is required for delivery to ${breakdown.deliveryZoneName}.`);
+      return;
+    }
     if (!address || address.trim().length === 0) {
       setPaymentError("Please enter your complete address.");
       return;
@@ -1689,197 +1891,7 @@ const GlossProductSelection: React.FC = () => {
       await new Promise((resolve) => setTimeout(resolve, 300));
 
       // Step 2: Prepare order data
-      const uploadedDesign: any = {};
-
-      // Validate and prepare front image (required)
-      if (!frontDesignPreview || !frontDesignFile) {
-        throw new Error("Front design image is required.");
-      }
-
-      try {
-        // Handle base64 data - remove data:image/... prefix if present
-        let frontImageData = frontDesignPreview;
-        if (frontImageData.includes(',')) {
-          frontImageData = frontImageData.split(',')[1];
-        }
-
-        if (!frontImageData || frontImageData.trim().length === 0) {
-          throw new Error("Invalid front image data. Please upload the image again.");
-        }
-
-        uploadedDesign.frontImage = {
-          data: frontImageData,
-          contentType: frontDesignFile.type || "image/png",
-          filename: frontDesignFile.name || "front-design.png",
-        };
-      } catch (err) {
-        console.error("Error preparing front image:", err);
-        throw new Error(err instanceof Error ? err.message : "Failed to prepare front design image. Please try uploading again.");
-      }
-
-      // Prepare back image (optional)
-      if (backDesignFile && backDesignPreview) {
-        try {
-          // Handle base64 data - remove data:image/... prefix if present
-          let backImageData = backDesignPreview;
-          if (backImageData.includes(',')) {
-            backImageData = backImageData.split(',')[1];
-          }
-
-          if (backImageData && backImageData.trim().length > 0) {
-            uploadedDesign.backImage = {
-              data: backImageData,
-              contentType: backDesignFile.type || "image/png",
-              filename: backDesignFile.name || "back-design.png",
-            };
-          }
-        } catch (err) {
-          console.error("Error preparing back image:", err);
-          // Back image is optional, so we'll just log the error
-        }
-      }
-
-      // Prepare selected options with complete information
-      // Note: selectedProductOptions contains option names, not IDs
-      const selectedOptions = selectedProductOptions.map(optionName => {
-        const option = selectedProduct.options.find((opt: any) => opt.name === optionName);
-        return {
-          optionId: optionName, // Store name as optionId for backward compatibility
-          optionName: option?.name || optionName,
-          name: option?.name || optionName, // Also include name field
-          priceAdd: option?.priceAdd || 0,
-          description: option?.description || null,
-          image: option?.image || null,
-        };
-      });
-
-      // Prepare dynamic attributes for order with complete information
-      const orderDynamicAttributes: any = {};
-      const selectedDynamicAttributesArray: Array<{
-        attributeTypeId: string;
-        attributeName: string;
-        attributeValue: any;
-        label: string;
-        priceMultiplier?: number;
-        priceAdd: number;
-        description?: string;
-        image?: string;
-        subattribute?: {
-          value: string;
-          label: string;
-          priceMultiplier: number;
-        };
-      }> = [];
-
-      Object.keys(selectedDynamicAttributes).forEach(key => {
-        // Skip subattribute keys (they'll be handled with their parent attribute)
-        if (key.endsWith('_sub')) {
-          return;
-        }
-        
-        const value = selectedDynamicAttributes[key];
-        if (value !== null && value !== undefined && value !== "") {
-          // Find the attribute type in product
-          const productAttr = selectedProduct.dynamicAttributes?.find(
-            (attr: any) => {
-              const attrType = typeof attr.attributeType === 'object' ? attr.attributeType : null;
-              return attrType?._id === key;
-            }
-          );
-
-          if (productAttr) {
-            const attrType = typeof productAttr.attributeType === 'object' ? productAttr.attributeType : null;
-            if (attrType) {
-              const customValues = productAttr.customValues || [];
-              const defaultValues = attrType.attributeValues || [];
-              const allValues = customValues.length > 0 ? customValues : defaultValues;
-
-              // Find selected value details
-              let selectedValueDetails: any = null;
-              if (Array.isArray(value)) {
-                selectedValueDetails = allValues.filter((av: any) => value.includes(av.value));
-              } else {
-                selectedValueDetails = allValues.find((av: any) => av.value === value || av.value === value.toString());
-              }
-
-              // Check for subattribute
-              const subAttributeKey = `${key}_sub`;
-              const subAttributeValue = selectedDynamicAttributes[subAttributeKey];
-              let subAttributeDetails: any = null;
-              
-              if (selectedValueDetails && subAttributeValue && !Array.isArray(selectedValueDetails)) {
-                const subattributes = (selectedValueDetails as any).subattributes || [];
-                subAttributeDetails = subattributes.find((subav: any) => subav.value === subAttributeValue || subav.value === subAttributeValue.toString());
-              }
-
-              if (selectedValueDetails) {
-                if (Array.isArray(selectedValueDetails)) {
-                  // Multiple values
-                  const labels = selectedValueDetails.map((sv: any) => sv.label || sv.value).join(", ");
-                  const totalPriceMultiplier = selectedValueDetails.reduce((sum: number, sv: any) => sum + (sv.priceMultiplier || 0), 0);
-                  selectedDynamicAttributesArray.push({
-                    attributeTypeId: key,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: labels,
-                    priceMultiplier: totalPriceMultiplier || undefined,
-                    priceAdd: 0,
-                    description: selectedValueDetails.map((sv: any) => sv.description).filter(Boolean).join("; ") || undefined,
-                    image: selectedValueDetails[0]?.image || undefined,
-                    subattribute: subAttributeDetails ? {
-                      value: subAttributeDetails.value,
-                      label: subAttributeDetails.label,
-                      priceMultiplier: subAttributeDetails.priceMultiplier,
-                    } : undefined,
-                  });
-                } else {
-                  // Single value - include subattribute if present
-                  const finalLabel = subAttributeDetails 
-                    ? `${selectedValueDetails.label || value?.toString() || ""} - ${subAttributeDetails.label}`
-                    : selectedValueDetails.label || value?.toString() || "";
-                  
-                  // Combine price multipliers (main + subattribute)
-                  const mainMultiplier = selectedValueDetails.priceMultiplier || 1;
-                  const subMultiplier = subAttributeDetails?.priceMultiplier || 1;
-                  const combinedMultiplier = mainMultiplier * subMultiplier;
-                  
-                  selectedDynamicAttributesArray.push({
-                    attributeTypeId: key,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: finalLabel,
-                    priceMultiplier: combinedMultiplier !== 1 ? combinedMultiplier : undefined,
-                    priceAdd: 0,
-                    description: selectedValueDetails.description || undefined,
-                    image: selectedValueDetails.image || undefined,
-                    subattribute: subAttributeDetails ? {
-                      value: subAttributeDetails.value,
-                      label: subAttributeDetails.label,
-                      priceMultiplier: subAttributeDetails.priceMultiplier,
-                    } : undefined,
-                  });
-                }
-              } else {
-                // Value not in predefined list (text/number input)
-                selectedDynamicAttributesArray.push({
-                  attributeTypeId: key,
-                  attributeName: attrType.attributeName || "Attribute",
-                  attributeValue: value,
-                  label: value?.toString() || "",
-                  priceAdd: 0,
-                });
-              }
-            }
-          }
-
-          // Also keep the simple format for backward compatibility
-          if (value instanceof File) {
-            orderDynamicAttributes[key] = value.name;
-          } else {
-            orderDynamicAttributes[key] = value;
-          }
-        }
-      });
+      const { uploadedDesign, selectedOptions, selectedDynamicAttributesArray, orderDynamicAttributes } = await buildOrderLinePayload();
 
       // Step 3: Create order with payment status
       const orderData = {
@@ -1887,18 +1899,20 @@ const GlossProductSelection: React.FC = () => {
         quantity: quantity,
         finish: selectedPrintingOption,
         shape: selectedDeliverySpeed,
+        textureType: selectedTextureType || null,
+        customSize: customSizeInput,
         selectedOptions: selectedOptions,
         selectedDynamicAttributes: selectedDynamicAttributesArray, // Send complete attribute information
-        totalPrice: price + gstAmount, // Store total including GST for order
+        totalPrice: finalTotalPrice, // Server re-prices the order and rejects a stale total
+        couponCode: appliedCoupon && !couponBelowMinimum ? appliedCoupon.code : null,
         // Delivery information collected at checkout
         pincode: pincode.trim(),
+        deliveryState: needsDeliveryState ? deliveryState : null,
         address: address.trim(),
         mobileNumber: mobileNumber.trim(),
         uploadedDesign: uploadedDesign,
         notes: orderNotes || "",
-        // Payment information - payment not required
-        advancePaid: 0, // No advance payment
-        paymentStatus: "pending", // Payment pending
+        // Payment information - payment not required (payments are recorded by an admin)
         paymentGatewayInvoiceId: null, // No payment gateway invoice
         // Legacy product specifications (kept for backward compatibility)
         paperGSM: orderDynamicAttributes.paperGSM || null,
@@ -1914,7 +1928,6 @@ const GlossProductSelection: React.FC = () => {
         shape: orderData.shape,
         totalPrice: orderData.totalPrice,
         hasUploadedDesign: !!orderData.uploadedDesign,
-        paymentStatus: orderData.paymentStatus,
       });
 
       // Check if user is authenticated
@@ -2948,7 +2961,7 @@ const GlossProductSelection: React.FC = () => {
                                             )}
                                             {option.priceAdd !== undefined && option.priceAdd !== 0 && (
                                               <p className="text-xs text-cream-700 mt-1 font-medium">
-                                                {option.priceAdd > 0 ? '+' : ''}₹{typeof option.priceAdd === 'number' ? option.priceAdd.toFixed(2) : parseFloat(option.priceAdd).toFixed(2)} per 1000 units
+                                                {formatChargeHint(option.priceAdd, option.pricingMode || (option.priceAdd < 10 ? 'PER_UNIT' : 'FLAT'), selectedProduct?.basePrice || 0)}
                                               </p>
                                             )}
                                             {option.image && (
@@ -3156,6 +3169,82 @@ const GlossProductSelection: React.FC = () => {
                                   })()}
                                 </div>
 
+                                {/* Custom Size (priced by area) */}
+                                {selectedProduct.customSize?.enabled && (() => {
+                                  const settings = selectedProduct.customSize;
+                                  const units = CUSTOM_SIZE_UNIT_LABELS[(settings.unit || 'INCH') as CustomSizeUnit];
+                                  const limit = (min?: number | null, max?: number | null) =>
+                                    `${min ?? 0}${max ? ` – ${max}` : '+'} ${units.length}`;
+                                  return (
+                                    <div className="mb-6 sm:mb-8">
+                                      <label className="block text-xs sm:text-sm font-bold text-cream-900 mb-2 sm:mb-3 uppercase tracking-wider">
+                                        {sectionNum++}. Size
+                                      </label>
+                                      <div className="grid grid-cols-2 gap-2 mb-3">
+                                        {[false, true].map((custom) => (
+                                          <button
+                                            key={custom ? 'custom' : 'standard'}
+                                            type="button"
+                                            onClick={() => setUseCustomSize(custom)}
+                                            className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                              useCustomSize === custom
+                                                ? 'border-cream-900 bg-cream-900 text-white'
+                                                : 'border-cream-300 bg-white text-cream-900 hover:border-cream-500'
+                                            }`}
+                                          >
+                                            {custom ? 'Custom size' : 'Standard size'}
+                                          </button>
+                                        ))}
+                                      </div>
+                                      {useCustomSize && (
+                                        <div className="space-y-2">
+                                          <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                              <label className="block text-xs text-cream-600 mb-1">
+                                                Width ({limit(settings.minWidth, settings.maxWidth)})
+                                              </label>
+                                              <input
+                                                type="number"
+                                                min={settings.minWidth ?? 0}
+                                                max={settings.maxWidth ?? undefined}
+                                                step="0.01"
+                                                value={customWidth}
+                                                onChange={(e) => setCustomWidth(e.target.value)}
+                                                className="w-full px-3 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-900 focus:border-transparent outline-none text-sm"
+                                              />
+                                            </div>
+                                            <div>
+                                              <label className="block text-xs text-cream-600 mb-1">
+                                                Height ({limit(settings.minHeight, settings.maxHeight)})
+                                              </label>
+                                              <input
+                                                type="number"
+                                                min={settings.minHeight ?? 0}
+                                                max={settings.maxHeight ?? undefined}
+                                                step="0.01"
+                                                value={customHeight}
+                                                onChange={(e) => setCustomHeight(e.target.value)}
+                                                className="w-full px-3 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-900 focus:border-transparent outline-none text-sm"
+                                              />
+                                            </div>
+                                          </div>
+                                          {customSizeError ? (
+                                            (customWidth || customHeight) && (
+                                              <p className="text-xs text-red-600">{customSizeError}</p>
+                                            )
+                                          ) : breakdown?.customSize && (
+                                            <p className="text-xs text-cream-600">
+                                              {breakdown.customSize.area.toLocaleString()} {units.area} × ₹{breakdown.customSize.ratePerUnitArea} per {units.area}
+                                              {' '}= ₹{breakdown.customSize.pricePerPiece.toFixed(2)} per piece
+                                              {breakdown.customSize.wastagePercentage > 0 && ` (+${breakdown.customSize.wastagePercentage}% wastage)`}
+                                            </p>
+                                          )}
+                                        </div>
+                                      )}
+                                    </div>
+                                  );
+                                })()}
+
                                 {/* Dynamic Attributes */}
                                 {selectedProduct.dynamicAttributes && selectedProduct.dynamicAttributes.length > 0 && (
                                   <>
@@ -3230,7 +3319,9 @@ const GlossProductSelection: React.FC = () => {
                                                   .filter((av: any) => av && av.value && av.label) // Filter out invalid options
                                                   .map((av: any) => ({
                                                     value: av.value,
-                                                    label: `${av.label}${av.priceMultiplier && av.priceMultiplier !== 1 && selectedProduct ? ` (+₹${((selectedProduct.basePrice || 0) * (av.priceMultiplier - 1)).toFixed(2)}/unit)` : ''}`
+                                                    label: `${av.label}${av.pricingMode && av.priceAdd && selectedProduct
+                                                      ? ` (${formatChargeHint(av.priceAdd, av.pricingMode, selectedProduct.basePrice || 0)})`
+                                                      : av.priceMultiplier && av.priceMultiplier !== 1 && selectedProduct ? ` (+₹${((selectedProduct.basePrice || 0) * (av.priceMultiplier - 1)).toFixed(2)}/unit)` : ''}`
                                                   }))}
                                                 value={selectedDynamicAttributes[attrType._id] as string || ""}
                                                 onValueChange={(value) => {
@@ -3263,8 +3354,10 @@ const GlossProductSelection: React.FC = () => {
                                                           .filter((subav: any) => subav && subav.value && subav.label)
                                                           .map((subav: any) => {
                                                             const getSubPriceDisplay = () => {
-                                                              if (!subav.priceMultiplier || subav.priceMultiplier === 1 || !selectedProduct) return null;
+                                                              if (!selectedProduct) return null;
                                                               const basePrice = selectedProduct.basePrice || 0;
+                                                              if (subav.pricingMode && subav.priceAdd) return formatChargeHint(subav.priceAdd, subav.pricingMode, basePrice);
+                                                              if (!subav.priceMultiplier || subav.priceMultiplier === 1) return null;
                                                               const pricePerUnit = basePrice * (subav.priceMultiplier - 1);
                                                               if (Math.abs(pricePerUnit) < 0.01) return null;
                                                               return `+₹${pricePerUnit.toFixed(2)}/unit`;
@@ -3336,6 +3429,9 @@ const GlossProductSelection: React.FC = () => {
                                                 .map((av: any) => {
                                               // Format price display as per unit price
                                               const getPriceDisplay = () => {
+                                                if (av.pricingMode && av.priceAdd && selectedProduct) {
+                                                  return formatChargeHint(av.priceAdd, av.pricingMode, selectedProduct.basePrice || 0);
+                                                }
                                                 if (!av.priceMultiplier || av.priceMultiplier === 1 || !selectedProduct) return null;
                                                 const basePrice = selectedProduct.basePrice || 0;
                                                 const pricePerUnit = basePrice * (av.priceMultiplier - 1);
@@ -3406,8 +3502,10 @@ const GlossProductSelection: React.FC = () => {
                                                       .filter((subav: any) => subav && subav.value && subav.label)
                                                       .map((subav: any) => {
                                                         const getSubPriceDisplay = () => {
-                                                          if (!subav.priceMultiplier || subav.priceMultiplier === 1 || !selectedProduct) return null;
+                                                          if (!selectedProduct) return null;
                                                           const basePrice = selectedProduct.basePrice || 0;
+                                                          if (subav.pricingMode && subav.priceAdd) return formatChargeHint(subav.priceAdd, subav.pricingMode, basePrice);
+                                                          if (!subav.priceMultiplier || subav.priceMultiplier === 1) return null;
                                                           const pricePerUnit = basePrice * (subav.priceMultiplier - 1);
                                                           if (Math.abs(pricePerUnit) < 0.01) return null;
                                                           return `+₹${pricePerUnit.toFixed(2)}/unit`;
@@ -3605,10 +3703,10 @@ const GlossProductSelection: React.FC = () => {
                     })()}
 
                                 {/* Discount Information */}
-                                {appliedDiscount !== null && appliedDiscount > 0 && (
+                                {breakdown && breakdown.discountPercentage > 0 && (
                                   <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded-lg">
                                     <p className="text-xs sm:text-sm text-green-800 font-medium">
-                                      🎉 You're saving {appliedDiscount}% on this order! (Bulk discount applied)
+                                      🎉 You're saving {breakdown.discountPercentage}% on this order! (Bulk discount applied)
                                     </p>
                                   </div>
                                 )}
@@ -3740,89 +3838,136 @@ const GlossProductSelection: React.FC = () => {
                             {/* Base Price */}
                             <div className="flex justify-between text-sm">
                               <span className="text-cream-600">Base Price ({quantity.toLocaleString()} units):</span>
-                              <span className="text-cream-900 font-medium">₹{(selectedProduct.basePrice * quantity).toFixed(2)}</span>
+                              <span className="text-cream-900 font-medium">₹{(breakdown?.rawBaseTotal || 0).toFixed(2)}</span>
                             </div>
-
-                            {/* Product Options Charges */}
-                            {productOptionsCharge !== 0 && selectedProductOptions.length > 0 && (
-                              <div className="flex justify-between text-sm">
-                                <span className="text-cream-600">Product Options ({selectedProductOptions.join(", ")}):</span>
-                                <span className="text-cream-900 font-medium">
-                                  {productOptionsCharge > 0 ? `+₹${productOptionsCharge.toFixed(2)}` : `₹${productOptionsCharge.toFixed(2)}`}
-                                </span>
-                              </div>
-                            )}
-
-                            {/* Printing Option Charge */}
-                            {printingOptionCharge !== 0 && (
-                              <div className="flex justify-between text-sm">
-                                <span className="text-cream-600">Printing Option ({selectedPrintingOption}):</span>
-                                <span className="text-cream-900 font-medium">
-                                  {printingOptionCharge > 0 ? `+₹${printingOptionCharge.toFixed(2)}` : printingOptionCharge < 0 ? `₹${printingOptionCharge.toFixed(2)}` : "Included"}
-                                </span>
-                              </div>
-                            )}
-
-                            {/* Delivery Speed Charge */}
-                            {deliverySpeedCharge !== 0 && (
-                              <div className="flex justify-between text-sm">
-                                <span className="text-cream-600">Delivery Speed ({selectedDeliverySpeed}):</span>
-                                <span className="text-cream-900 font-medium">
-                                  {deliverySpeedCharge > 0 ? `+₹${deliverySpeedCharge.toFixed(2)}` : deliverySpeedCharge < 0 ? `₹${deliverySpeedCharge.toFixed(2)}` : "Included"}
-                                </span>
-                              </div>
+                            {breakdown?.priceListName && (
+                              <p className="text-xs text-green-700">Your contract prices apply ({breakdown.priceListName})</p>
                             )}
-
-                            {/* Texture Type Charge */}
-                            {textureTypeCharge !== 0 && selectedTextureType && (
-                              <div className="flex justify-between text-sm">
-                                <span className="text-cream-600">Texture Type ({selectedTextureType}):</span>
-                                <span className="text-cream-900 font-medium">
-                                  {textureTypeCharge > 0 ? `+₹${textureTypeCharge.toFixed(2)}` : textureTypeCharge < 0 ? `₹${textureTypeCharge.toFixed(2)}` : "Included"}
-                                </span>
-                              </div>
+                            {breakdown?.customSize && (
+                              <p className="text-xs text-cream-600">Custom size {formatCustomSize(breakdown.customSize)}</p>
                             )}
 
-                            {/* Dynamic Attributes Charges */}
-                            {dynamicAttributesCharges.map((attrCharge, idx) => (
+                            {/* Options, Filter and Attribute Charges */}
+                            {breakdown?.optionBreakdowns.map((opt, idx) => (
                               <div key={idx} className="flex justify-between text-sm">
-                                <span className="text-cream-600">{attrCharge.name} ({attrCharge.label}):</span>
+                                <span className="text-cream-600">
+                                  {opt.name} <span className="text-xs text-cream-500">{describeCharge(opt, quantity)}</span>:
+                                </span>
                                 <span className="text-cream-900 font-medium">
-                                  {attrCharge.charge > 0 ? `+₹${attrCharge.charge.toFixed(2)}` : `₹${attrCharge.charge.toFixed(2)}`}
+                                  {opt.cost > 0 ? `+₹${opt.cost.toFixed(2)}` : `₹${opt.cost.toFixed(2)}`}
                                 </span>
                               </div>
                             ))}
 
                             {/* Subtotal Before Discount */}
-                            {baseSubtotalBeforeDiscount !== subtotal && (
+                            {breakdown && breakdown.discountAmount !== 0 && (
                               <div className="flex justify-between text-sm text-cream-600 pt-2 border-t border-cream-200">
                                 <span>Subtotal (before discount):</span>
-                                <span>₹{baseSubtotalBeforeDiscount.toFixed(2)}</span>
+                                <span>₹{breakdown.subtotalBeforeGst.toFixed(2)}</span>
                               </div>
                             )}
 
                             {/* Quantity Discount */}
-                            {appliedDiscount !== null && appliedDiscount > 0 && (
+                            {breakdown && breakdown.discountPercentage > 0 && (
+                              <div className="flex justify-between text-sm text-green-700">
+                                <span>Quantity Discount ({breakdown.discountPercentage}%):</span>
+                                <span className="font-medium">-₹{Math.abs(breakdown.discountAmount).toFixed(2)}</span>
+                              </div>
+                            )}
+
+                            {/* Coupon Discount */}
+                            {breakdown && breakdown.couponDiscount > 0 && (
                               <div className="flex justify-between text-sm text-green-700">
-                                <span>Quantity Discount ({appliedDiscount}%):</span>
-                                <span className="font-medium">-₹{Math.abs(baseSubtotalBeforeDiscount - subtotal).toFixed(2)}</span>
+                                <span>Coupon ({breakdown.couponCode}):</span>
+                                <span className="font-medium">-₹{breakdown.couponDiscount.toFixed(2)}</span>
                               </div>
                             )}
 
                             {/* Subtotal */}
                             <div className="flex justify-between pt-2 border-t border-cream-300">
                               <span className="text-cream-700 font-medium">Subtotal:</span>
-                              <span className="text-cream-900 font-bold">₹{subtotal.toFixed(2)}</span>
+                              <span className="text-cream-900 font-bold">₹{(breakdown?.subtotalAfterCoupon || 0).toFixed(2)}</span>
                             </div>
 
                             {/* Additional Design Charge */}
-                            {additionalDesignCharge !== 0 && (
+                            {breakdown && breakdown.designCharge !== 0 && (
                               <div className="flex justify-between text-sm">
                                 <span className="text-cream-600">Additional Design Charge:</span>
-                                <span className="text-cream-900 font-medium">₹{additionalDesignCharge.toFixed(2)}</span>
+                                <span className="text-cream-900 font-medium">₹{breakdown.designCharge.toFixed(2)}</span>
                               </div>
                             )}
 
+                            {/* Shipping (once a delivery pincode in a zone is entered) */}
+                            {breakdown?.deliveryZoneName && (
+                              <div className="flex justify-between text-sm">
+                                <span className="text-cream-600">Shipping ({breakdown.deliveryZoneName}):</span>
+                                <span className="text-cream-900 font-medium">
+                                  {breakdown.freeShippingApplied ? 'Free' : `₹${breakdown.shippingCharge.toFixed(2)}`}
+                                </span>
+                              </div>
+                            )}
+
+                            {/* Coupon Code */}
+                            <div className="pt-2 border-t border-cream-200">
+                              {appliedCoupon ? (
+                                <div className="flex items-center justify-between gap-2 p-2 bg-green-50 border border-green-200 rounded-lg">
+                                  <div className="flex items-center gap-2 text-sm text-green-800">
+                                    <Tag size={14} />
+                                    <span className="font-semibold">{appliedCoupon.code}</span>
+                                    {appliedCoupon.description && (
+                                      <span className="text-xs text-green-700">{appliedCoupon.description}</span>
+                                    )}
+                                  </div>
+                                  <button
+                                    type="button"
+                                    onClick={handleRemoveCoupon}
+                                    className="p-1 text-green-800 hover:bg-green-100 rounded transition-colors"
+                                    aria-label="Remove coupon"
+                                  >
+                                    <X size={14} />
+                                  </button>
+                                </div>
+                              ) : (
+                                <div className="flex gap-2">
+                                  <input
+                                    type="text"
+                                    value={couponCodeInput}
+                                    onChange={(e) => {
+                                      setCouponCodeInput(e.target.value.toUpperCase());
+                                      setCouponError(null);
+                                    }}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        handleApplyCoupon();
+                                      }
+                                    }}
+                                    placeholder="Coupon code"
+                                    className="flex-1 min-w-0 px-3 py-2 border border-cream-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-cream-500 focus:border-cream-500"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={handleApplyCoupon}
+                                    disabled={isApplyingCoupon || !couponCodeInput.trim()}
+                                    className="px-4 py-2 bg-cream-900 text-white rounded-lg text-sm font-medium hover:bg-cream-800 transition-colors disabled:opacity-50 flex items-center gap-1"
+                                  >
+                                    {isApplyingCoupon ? <Loader className="animate-spin" size={14} /> : 'Apply'}
+                                  </button>
+                                </div>
+                              )}
+                              {couponError && (
+                                <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                                  <AlertCircle size={12} />
+                                  {couponError}
+                                </p>
+                              )}
+                              {couponBelowMinimum && appliedCoupon && (
+                                <p className="text-xs text-amber-700 mt-1">
+                                  Add items worth ₹{((appliedCoupon.minOrderValue || 0) - (breakdown?.subtotalAfterDiscount || 0)).toFixed(2)} more to use {appliedCoupon.code}.
+                                </p>
+                              )}
+                            </div>
+
                             {/* Total */}
                             <div className="flex justify-between pt-3 border-t-2 border-cream-400 mt-2">
                               <span className="text-lg font-bold text-cream-900">
@@ -3832,9 +3977,9 @@ const GlossProductSelection: React.FC = () => {
                                 {(() => {
                                   const showIncludingGst = selectedProduct?.showPriceIncludingGst || false;
                                   if (showIncludingGst) {
-                                    return `₹${(price + gstAmount).toFixed(2)}`;
+                                    return `₹${(price + shippingCharge + gstAmount).toFixed(2)}`;
                                   }
-                                  return `₹${price.toFixed(2)}`;
+                                  return `₹${(price + shippingCharge).toFixed(2)}`;
                                 })()}
                               </span>
                             </div>
@@ -3869,6 +4014,18 @@ const GlossProductSelection: React.FC = () => {
                             )}
                           </button>
 
+                          <button
+                            onClick={handleAddToCart}
+                            disabled={isProcessingPayment || isAddingToCart}
+                            className={`mt-3 w-full py-3 rounded-xl font-semibold text-base border-2 border-cream-900 transition-all flex items-center justify-center gap-2 ${isProcessingPayment || isAddingToCart
+                                ? 'text-cream-500 border-cream-300 cursor-not-allowed'
+                                : 'text-cream-900 hover:bg-cream-100 cursor-pointer'
+                              }`}
+                          >
+                            {isAddingToCart ? <Loader className="animate-spin" size={20} /> : <ShoppingCart size={20} />}
+                            <span>{isAddingToCart ? 'Adding...' : 'Add to Cart'}</span>
+                          </button>
+
                           <div className="mt-4 text-center text-xs text-cream-500 flex items-center justify-center gap-2">
                             <CreditCard size={14} /> Secure Payment & Data Protection
                           </div>
@@ -3920,19 +4077,51 @@ const GlossProductSelection: React.FC = () => {
               <div className="mb-6">
                 <div className="bg-cream-50 rounded-lg p-4 mb-4">
                   <div className="space-y-2">
+                    {breakdown && breakdown.couponDiscount > 0 && (
+                      <div className="flex justify-between items-center text-sm text-green-700">
+                        <span>Coupon ({breakdown.couponCode}):</span>
+                        <span className="font-medium">-₹{breakdown.couponDiscount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center">
                       <span className="text-cream-700 font-medium">Subtotal (Excluding GST):</span>
                       <span className="text-lg font-bold text-cream-900">₹{price.toFixed(2)}</span>
                     </div>
+                    {breakdown?.deliveryZoneName && (
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-cream-600">Shipping ({breakdown.deliveryZoneName}):</span>
+                        <span className="text-cream-700">
+                          {breakdown.freeShippingApplied ? 'Free' : `+₹${breakdown.shippingCharge.toFixed(2)}`}
+                        </span>
+                      </div>
+                    )}
+                    {breakdown && breakdown.deliveryZoneName && !breakdown.freeShippingApplied && breakdown.shippingCharge > 0 &&
+                      deliveryZone && deliveryZone.freeShippingThreshold > 0 && (
+                      <p className="text-xs text-cream-500">
+                        Free shipping on orders of ₹{deliveryZone.freeShippingThreshold.toFixed(2)} or more (before GST).
+                      </p>
+                    )}
+                    {belowZoneMinimum && breakdown && (
+                      <p className="text-xs text-red-600">
+                        Minimum order value for delivery to {breakdown.deliveryZoneName} is ₹{breakdown.minOrderValue.toFixed(2)} (before GST).
+                      </p>
+                    )}
                     {gstAmount > 0 && (
                       <>
-                        <div className="flex justify-between items-center text-sm">
-                          <span className="text-cream-600">GST ({selectedProduct?.gstPercentage || 18}%):</span>
-                          <span className="text-cream-700">+₹{gstAmount.toFixed(2)}</span>
-                        </div>
+                        {breakdown && getGstLines(breakdown).map((line) => (
+                          <div key={line.label} className="flex justify-between items-center text-sm">
+                            <span className="text-cream-600">{line.label}:</span>
+                            <span className="text-cream-700">+₹{line.amount.toFixed(2)}</span>
+                          </div>
+                        ))}
+                        {breakdown?.gstSplit ? (
+                          <p className="text-xs text-cream-500">Place of supply: {breakdown.gstSplit.placeOfSupply}</p>
+                        ) : sellerStateCode && (
+                          <p className="text-xs text-cream-500">CGST/SGST or IGST is worked out from your delivery pincode.</p>
+                        )}
                         <div className="flex justify-between items-center pt-2 border-t border-cream-300">
                           <span className="text-cream-700 font-medium">Total Amount (Including GST):</span>
-                          <span className="text-2xl font-bold text-cream-900">₹{(price + gstAmount).toFixed(2)}</span>
+                          <span className="text-2xl font-bold text-cream-900">₹{(price + shippingCharge + gstAmount).toFixed(2)}</span>
                         </div>
                       </>
                     )}
@@ -4014,6 +4203,30 @@ const GlossProductSelection: React.FC = () => {
                     />
                   </div>
 
+                  {needsDeliveryState && (
+                    <div>
+                      <label className="block text-sm font-medium text-cream-700 mb-1">
+                        State <span className="text-red-500">*</span>
+                      </label>
+                      <select
+                        name="deliveryState"
+                        id="deliveryState"
+                        value={deliveryState}
+                        onChange={(e) => {
+                          setDeliveryState(e.target.value);
+                          if (paymentError) setPaymentError(null);
+                        }}
+                        className="w-full px-3 py-2 border border-cream-300 rounded-lg focus:ring-2 focus:ring-cream-900 focus:border-transparent outline-none text-sm"
+                      >
+                        <option value="">Select the state of your address</option>
+                        {GST_STATE_OPTIONS.map((state) => (
+                          <option key={state.code} value={state.code}>{state.name}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-cream-500 mt-1">This pincode is shared between states, so GST is worked out from the state you choose.</p>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-cream-700 mb-1">
                       Complete Address <span className="text-red-500">*</span>
@@ -4122,7 +4335,7 @@ const GlossProductSelection: React.FC = () => {
                   ) : (
                     <>
                       <Check size={18} />
-                      Confirm Order ₹{(price + gstAmount).toFixed(2)}
+                      Confirm Order ₹{(price + shippingCharge + gstAmount).toFixed(2)}
                     </>
                   )}
                 </button>
@@ -8,22 +8,29 @@ import {
     AlertCircle,
     Loader,
     ChevronRight,
-    Calendar
+    Calendar,
+    RefreshCw
 } from 'lucide-react';
+import { OrderLine, getOrderProductLabel, isMultiLineOrder } from '../utils/orderLines';
+import ReorderModal from '../components/ReorderModal';
+import InvoiceButton from '../components/InvoiceButton';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
 interface Order {
     _id: string;
     orderNumber: string;
-    product: {
+    product?: {
         _id: string;
         name: string;
         image?: string;
-    };
-    quantity: number;
+    } | null;
+    quantity?: number;
+    // Line items of a cart order (empty for single-product orders)
+    items?: OrderLine[];
     totalPrice: number;
     status: string;
+    invoiceNumber?: string | null;
     createdAt: string;
     updatedAt: string;
 }
@@ -43,6 +50,7 @@ const MyOrders: React.FC = () => {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [currentPage, setCurrentPage] = useState(1);
+    const [reorderTarget, setReorderTarget] = useState<Order | null>(null);
 
     useEffect(() => {
         fetchOrders(currentPage);
@@ -187,7 +195,7 @@ const MyOrders: React.FC = () => {
                                 <div className="flex items-center gap-4 text-sm">
                                     <span className="flex items-center gap-1">
                                         <Package className="w-4 h-4" />
-                                        {latestOrder.product?.name || 'Product'}
+                                        {getOrderProductLabel(latestOrder)}
                                     </span>
                                     <span className="flex items-center gap-1">
                                         <Calendar className="w-4 h-4" />
@@ -222,7 +230,9 @@ const MyOrders: React.FC = () => {
                 ) : (
                     <>
                         <div className="grid gap-4">
-                            {orders.map((order, index) => (
+                            {orders.map((order, index) => {
+                                const image = isMultiLineOrder(order) ? order.items![0].product?.image : order.product?.image;
+                                return (
                                 <motion.div
                                     key={order._id}
                                     initial={{ opacity: 0, y: 20 }}
@@ -233,10 +243,10 @@ const MyOrders: React.FC = () => {
                                 >
                                     <div className="flex items-center gap-6">
                                         {/* Product Image */}
-                                        {order.product?.image ? (
+                                        {image ? (
                                             <img
-                                                src={order.product.image}
-                                                alt={order.product.name}
+                                                src={image}
+                                                alt={getOrderProductLabel(order)}
                                                 className="w-20 h-20 object-cover rounded-lg border border-slate-200"
                                             />
                                         ) : (
@@ -261,10 +271,14 @@ const MyOrders: React.FC = () => {
                                                 </span>
                                             </div>
                                             <p className="text-slate-700 font-medium mb-1">
-                                                {order.product?.name || 'Product'}
+                                                {getOrderProductLabel(order)}
                                             </p>
                                             <div className="flex items-center gap-4 text-sm text-slate-500">
-                                                <span>Quantity: {order.quantity.toLocaleString()}</span>
+                                                {isMultiLineOrder(order) ? (
+                                                    <span>{order.items!.length} items</span>
+                                                ) : (
+                                                    <span>Quantity: {(order.quantity || 0).toLocaleString()}</span>
+                                                )}
                                                 <span>•</span>
                                                 <span>{formatDate(order.createdAt)}</span>
                                             </div>
@@ -279,10 +293,26 @@ const MyOrders: React.FC = () => {
                                                 <span>View Details</span>
                                                 <ChevronRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
                                             </div>
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setReorderTarget(order);
+                                                }}
+                                                className="mt-2 ml-auto flex items-center gap-1 text-sm text-slate-600 hover:text-blue-600"
+                                            >
+                                                <RefreshCw className="w-4 h-4" />
+                                                Reorder
+                                            </button>
+                                            <InvoiceButton
+                                                orderId={order._id}
+                                                invoiceNumber={order.invoiceNumber}
+                                                className="mt-2 ml-auto flex items-center gap-1 text-sm text-slate-600 hover:text-blue-600 disabled:opacity-50"
+                                            />
                                         </div>
                                     </div>
                                 </motion.div>
-                            ))}
+                                );
+                            })}
                         </div>
 
                         {/* Pagination */}
@@ -332,6 +362,14 @@ const MyOrders: React.FC = () => {
                     </>
                 )}
             </div>
+
+            {reorderTarget && (
+                <ReorderModal
+                    orderId={reorderTarget._id}
+                    orderNumber={reorderTarget.orderNumber}
+                    onClose={() => setReorderTarget(null)}
+                />
+            )}
         </div>
     );
 };
@@ -17,10 +17,25 @@ import {
   Box as BoxIcon,
   MapPin,
   Info,
+  RefreshCw,
+  Edit3,
+  XCircle,
 } from 'lucide-react';
-import { formatCurrency, calculateOrderBreakdown, OrderForCalculation } from '../utils/pricing';
+import { formatCurrency, describeCharge, orderCouponForCalculation, getGstLines, OrderForCalculation, OrderCoupon, OrderPriceList, OrderDeliveryZone, GstSplit, PricingSnapshot, getOrderBreakdown, getOrderBasePrice, OrderSubattribute, OrderCustomSize, formatChargeHint, formatCustomSize, CUSTOM_SIZE_UNIT_LABELS, CustomSizeUnit, CartPricingSnapshot } from '../utils/pricing';
+import { OrderLine, isMultiLineOrder, getOrderProductLabel, describeOrderLine } from '../utils/orderLines';
 import { API_BASE_URL_WITH_API as API_BASE_URL } from '../lib/apiConfig';
 import BackButton from '../components/BackButton';
+import CartPriceBreakdown from '../components/CartPriceBreakdown';
+import ReorderModal from '../components/ReorderModal';
+import AmendmentModal, { AmendableLine } from '../components/AmendmentModal';
+import { Amendment, describeAmendmentChanges } from '../utils/amendments';
+import { Shipment, SHIPMENT_STATUS_LABELS } from '../utils/shipments';
+import ComplaintModal, { ComplaintLine } from '../components/ComplaintModal';
+import { Complaint, COMPLAINT_REASON_LABELS, describeComplaintOutcome } from '../utils/complaints';
+import CancelOrderModal from '../components/CancelOrderModal';
+import InvoiceButton from '../components/InvoiceButton';
+import { OrderCancellation } from '../utils/cancellation';
+import { getNextOrderStatuses } from '../utils/orderStatus';
 
 // Types
 interface TimelineEvent {
@@ -70,6 +85,7 @@ interface Order {
     name?: string;
     optionName?: string;
     priceAdd: number;
+    pricingMode?: string;
     description?: string;
     image?: string;
   }>;
@@ -80,11 +96,25 @@ interface Order {
     label: string;
     priceMultiplier?: number;
     priceAdd: number;
+    pricingMode?: string | null;
     description?: string;
     image?: string;
+    subattribute?: OrderSubattribute | null;
   }>;
   totalPrice: number;
-  status: 'request' | 'processing' | 'completed' | 'cancelled' | 'rejected';
+  coupon?: OrderCoupon | null;
+  priceList?: OrderPriceList | null;
+  deliveryZone?: OrderDeliveryZone | null;
+  shippingCharge?: number;
+  customSize?: OrderCustomSize | null;
+  // Line items of a cart order (empty for single-product orders, whose product fields are on the order)
+  items?: OrderLine[];
+  pricingSnapshot?: PricingSnapshot | CartPricingSnapshot | null;
+  gstSplit?: GstSplit | null;
+  pincode?: string;
+  address?: string;
+  mobileNumber?: string;
+  status: 'request' | 'production_ready' | 'approved' | 'processing' | 'completed' | 'cancelled' | 'rejected';
   deliveryDate: string | null;
   deliveredAt?: string | null;
   createdAt: string;
@@ -95,6 +125,8 @@ interface Order {
   handedOverToCourierAt?: string | null;
   courierPartner?: string | null;
   trackingId?: string | null;
+  // Consignments the order went out in; the fields above summarise them
+  shipments?: Shipment[];
   uploadedDesign?: {
     frontImage?: {
       data: string;
@@ -108,6 +140,10 @@ interface Order {
   advancePaid?: number;
   paymentStatus?: 'pending' | 'partial' | 'completed';
   paymentGatewayInvoiceId?: string | null;
+  invoiceNumber?: string | null;
+  invoiceGeneratedAt?: string | null;
+  paymentAdjustments?: Array<{ _id: string; amount: number; reason: string; createdAt: string }>;
+  cancellation?: OrderCancellation | null;
   shippingAddress?: {
     street: string;
     city: string;
@@ -332,6 +368,16 @@ const ProductSpecsPanel: React.FC<{ order: Order }> = ({ order }) => {
           <p className="text-xs text-slate-500 uppercase tracking-wide font-bold mb-1">Finish</p>
           <p className="text-slate-900 font-semibold">{order.finish}</p>
         </div>
+        {order.customSize && (
+          <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 sm:col-span-2">
+            <p className="text-xs text-slate-500 uppercase tracking-wide font-bold mb-1">Custom Size</p>
+            <p className="text-slate-900 font-semibold">{formatCustomSize(order.customSize)}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {order.customSize.area} {(CUSTOM_SIZE_UNIT_LABELS[order.customSize.unit as CustomSizeUnit] || CUSTOM_SIZE_UNIT_LABELS.INCH).area} per piece
+              {order.customSize.wastagePercentage > 0 && ` • ${order.customSize.wastagePercentage}% wastage`}
+            </p>
+          </div>
+        )}
       </div>
 
       <div>
@@ -412,6 +458,14 @@ const ProductSpecsPanel: React.FC<{ order: Order }> = ({ order }) => {
                       <p className="text-sm font-medium text-slate-900">{attr.attributeName}</p>
                       <p className="text-xs text-slate-600 font-medium">{attr.label}</p>
                       {attr.description && <p className="text-xs text-slate-500 mt-0.5">{attr.description}</p>}
+                      {attr.subattribute && (
+                        <p className="text-xs text-slate-600 mt-0.5">
+                          Sub-option: <span className="font-medium">{attr.subattribute.label}</span>
+                          {formatChargeHint(attr.subattribute.priceAdd || 0, attr.subattribute.pricingMode, getOrderBasePrice(order)) && (
+                            <span className="text-slate-500"> ({formatChargeHint(attr.subattribute.priceAdd || 0, attr.subattribute.pricingMode, getOrderBasePrice(order))})</span>
+                          )}
+                        </p>
+                      )}
                     </div>
                   </div>
                   {(attr.priceAdd > 0 || attr.priceMultiplier) && (
@@ -422,7 +476,7 @@ const ProductSpecsPanel: React.FC<{ order: Order }> = ({ order }) => {
                         </span>
                       ) : attr.priceMultiplier && attr.priceMultiplier !== 1 ? (
                         <span className="block text-sm font-bold text-slate-900">
-                          +{formatCurrency((order.product?.basePrice || 0) * (attr.priceMultiplier - 1))}/unit
+                          +{formatCurrency(getOrderBasePrice(order) * (attr.priceMultiplier - 1))}/unit
                         </span>
                       ) : null}
                     </div>
@@ -453,47 +507,48 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
     product: {
       basePrice: order.product?.basePrice || 0,
       gstPercentage: order.product?.gstPercentage || 18,
+      additionalDesignCharge: (order.product as any)?.additionalDesignCharge || 0,
       options: order.product?.options || [],
       filters: order.product?.filters || {},
       quantityDiscounts: (order.product as any)?.quantityDiscounts || [],
     },
     finish: order.finish,
     shape: order.shape,
+    textureType: (order as any).textureType || undefined,
     selectedOptions: (order.selectedOptions || []).map((opt) => ({
       name: opt.optionName || opt.name,
       optionName: opt.optionName || opt.name,
       priceAdd: opt.priceAdd || 0,
+      pricingMode: opt.pricingMode,
     })),
     selectedDynamicAttributes: order.selectedDynamicAttributes?.map((attr) => ({
+      attributeTypeId: attr.attributeTypeId,
+      attributeValue: attr.attributeValue,
       attributeName: attr.attributeName,
       label: attr.label,
       priceMultiplier: attr.priceMultiplier,
       priceAdd: attr.priceAdd,
+      pricingMode: attr.pricingMode,
+      subattribute: attr.subattribute,
     })),
+    coupon: orderCouponForCalculation(order.coupon),
+    priceList: order.priceList,
+    deliveryZone: order.deliveryZone,
+    customSize: order.customSize,
+    pincode: order.pincode,
+    sellerStateCode: order.gstSplit?.sellerStateCode,
   };
 
-  const calculations = calculateOrderBreakdown(orderForCalc) as any;
-
-  // Get additional design charge from product
-  const additionalDesignCharge = (order.product as any)?.additionalDesignCharge || 0;
-
-  // New calculation order:
-  // 1. Base Price = quantity * price
-  // 2. Add options/attributes/charges
-  // 3. Subtotal before discount
-  // 4. Apply discount to subtotal
-  // 5. Add design charge
-  // 6. Subtotal including design charge (after discount)
-  // 7. Add GST (on discounted subtotal + design charge)
-  // 8. Final total
-
-  const subtotalBeforeDiscount = calculations.subtotalBeforeGst || calculations.rawBaseTotal + calculations.optionBreakdowns.reduce((sum: number, opt: any) => sum + opt.cost, 0);
-  const subtotalAfterDiscount = calculations.subtotalAfterDiscount || calculations.subtotal || subtotalBeforeDiscount;
-  const discountAmount = calculations.discountAmount || (subtotalBeforeDiscount - subtotalAfterDiscount);
-  const subtotalWithDesignCharge = subtotalAfterDiscount + additionalDesignCharge;
-  // GST is calculated on discounted subtotal + design charge
-  const gstAmount = (subtotalWithDesignCharge * (order.product?.gstPercentage || 18)) / 100;
-  const finalTotal = subtotalWithDesignCharge + gstAmount;
+  // Render what the customer was charged; orders placed before snapshots existed are re-calculated
+  const calculations = getOrderBreakdown(order.pricingSnapshot as PricingSnapshot | null | undefined, orderForCalc);
+
+  // All amounts come from the shared pricing engine (design charge and GST included)
+  const additionalDesignCharge = calculations.designCharge;
+  const subtotalBeforeDiscount = calculations.subtotalBeforeGst;
+  const subtotalAfterDiscount = calculations.subtotalAfterDiscount;
+  const discountAmount = calculations.discountAmount;
+  const subtotalWithDesignCharge = calculations.subtotalWithDesignCharge;
+  const gstLines = getGstLines(calculations);
 
   // Use stored totalPrice as source of truth
   const storedTotal = order.totalPrice;
@@ -511,8 +566,11 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
           <div className="text-slate-600">
             <span>
               Base Price ({order.quantity.toLocaleString()} ×{' '}
-              {formatCurrency(order.product?.basePrice || 0)})
+              {formatCurrency(calculations.basePrice)})
             </span>
+            {calculations.priceListName && (
+              <p className="text-xs text-slate-400">Contract price: {calculations.priceListName}</p>
+            )}
           </div>
           <span className="font-medium text-slate-900">{formatCurrency(calculations.rawBaseTotal)}</span>
         </div>
@@ -521,7 +579,7 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
         {calculations.optionBreakdowns.map((opt: any, idx: number) => (
           <div key={idx} className="flex justify-between items-center text-slate-600">
             <span>
-              {opt.name} {opt.isPerUnit ? `(${order.quantity} × ${formatCurrency(opt.priceAdd)})` : ''}
+              {opt.name} {describeCharge(opt, order.quantity)}
             </span>
             <span>+{formatCurrency(opt.cost)}</span>
           </div>
@@ -552,6 +610,14 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
           <span>{formatCurrency(subtotalAfterDiscount)}</span>
         </div>
 
+        {/* Coupon discount */}
+        {calculations.couponDiscount > 0 && (
+          <div className="flex justify-between items-center text-green-600 bg-green-50 p-2 rounded-md">
+            <span className="font-semibold">Coupon ({calculations.couponCode})</span>
+            <span className="font-bold">-{formatCurrency(calculations.couponDiscount)}</span>
+          </div>
+        )}
+
         {/* Step 6: Additional Design Charge */}
         {additionalDesignCharge > 0 && (
           <div className="flex justify-between items-center text-slate-600">
@@ -568,11 +634,24 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
           </div>
         )}
 
-        {/* Step 8: GST (calculated on discounted subtotal + design charge) */}
-        <div className="flex justify-between items-center text-slate-500 text-xs">
-          <span>GST ({order.product?.gstPercentage || 18}%)</span>
-          <span>+{formatCurrency(gstAmount)}</span>
-        </div>
+        {/* Shipping for the delivery zone */}
+        {calculations.deliveryZoneName && (
+          <div className="flex justify-between items-center text-slate-600">
+            <span>Shipping ({calculations.deliveryZoneName})</span>
+            <span>{calculations.freeShippingApplied ? 'Free' : `+${formatCurrency(calculations.shippingCharge)}`}</span>
+          </div>
+        )}
+
+        {/* Step 8: GST (calculated on discounted subtotal + design charge + shipping, split by place of supply) */}
+        {gstLines.map((line) => (
+          <div key={line.label} className="flex justify-between items-center text-slate-500 text-xs">
+            <span>{line.label}</span>
+            <span>+{formatCurrency(line.amount)}</span>
+          </div>
+        ))}
+        {order.gstSplit && (
+          <div className="text-slate-400 text-xs">Place of supply: {order.gstSplit.placeOfSupply}</div>
+        )}
 
         {/* Advance Paid / Balance Due (before Total Amount) */}
         {(order.advancePaid !== undefined && order.advancePaid > 0) && (
@@ -607,6 +686,115 @@ const PriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
   );
 };
 
+// Products of a cart order, each with its own configuration, design files and production progress
+const OrderLinesPanel: React.FC<{ order: Order }> = ({ order }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+    <div className="flex items-center gap-2 mb-6 border-b border-slate-100 pb-4">
+      <Package className="w-5 h-5 text-brand-600" />
+      <h3 className="text-lg font-bold text-slate-900">Items ({order.items?.length || 0})</h3>
+    </div>
+    <div className="space-y-4">
+      {(order.items || []).map((line, idx) => {
+        const designs = [
+          { type: 'front', image: line.uploadedDesign?.frontImage },
+          { type: 'back', image: line.uploadedDesign?.backImage },
+        ].filter((d) => d.image?.data);
+        return (
+          <div key={line._id} className="border border-slate-200 rounded-lg p-4">
+            <div className="flex items-start gap-4">
+              {line.product?.image ? (
+                <img
+                  src={line.product.image}
+                  alt={line.product.name}
+                  className="w-16 h-16 object-cover rounded-lg border border-slate-100"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-slate-100 rounded-lg flex items-center justify-center">
+                  <Package className="w-6 h-6 text-slate-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-4">
+                  <p className="font-semibold text-slate-900">
+                    {idx + 1}. {line.product?.name || 'Product'}
+                  </p>
+                  <p className="font-semibold text-slate-900">{formatCurrency(line.lineTotal)}</p>
+                </div>
+                <p className="text-sm text-slate-600">{line.quantity.toLocaleString()} units</p>
+                <p className="text-xs text-slate-500 mt-1">{describeOrderLine(line)}</p>
+                {line.customSize && (
+                  <p className="text-xs text-slate-500 mt-1">Custom size: {formatCustomSize(line.customSize)}</p>
+                )}
+                {line.notes && <p className="text-xs text-slate-500 mt-1 italic">{line.notes}</p>}
+              </div>
+            </div>
+            {(line.departmentStatuses || []).length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {line.departmentStatuses!.map((ds, dsIdx) => (
+                  <span
+                    key={dsIdx}
+                    className={`text-xs px-2 py-1 rounded-full ${ds.status === 'completed'
+                      ? 'bg-green-100 text-green-700'
+                      : ds.status === 'in_progress'
+                        ? 'bg-orange-100 text-orange-700'
+                        : 'bg-slate-100 text-slate-600'
+                      }`}
+                  >
+                    {typeof ds.department === 'object' ? ds.department.name : 'Department'}: {ds.status.replace('_', ' ')}
+                  </span>
+                ))}
+              </div>
+            )}
+            {designs.length > 0 && (
+              <div className="flex gap-3 mt-3">
+                {designs.map((design) => (
+                  <a
+                    key={design.type}
+                    href={design.image!.data!}
+                    download={design.image!.filename || `${design.type}-design.jpg`}
+                    className="flex items-center gap-2 text-xs text-slate-600 hover:text-brand-600 border border-slate-200 rounded-lg px-2 py-1"
+                    title="Download image"
+                  >
+                    <Download className="w-3 h-3" />
+                    <span className="uppercase">{design.type}</span>
+                    <span className="truncate max-w-[140px]">{design.image!.filename}</span>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+// Order-level summary of a cart order: per-line totals, then the shared coupon, shipping and GST
+const CartPriceBreakdownPanel: React.FC<{ order: Order }> = ({ order }) => {
+  const breakdown = (order.pricingSnapshot as CartPricingSnapshot | null | undefined)?.breakdown;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <h3 className="text-lg font-bold text-slate-900 mb-4">Price Breakdown</h3>
+      {breakdown ? (
+        <CartPriceBreakdown
+          breakdown={breakdown}
+          lines={(order.items || []).map((line) => ({
+            key: line._id,
+            name: line.product?.name || 'Product',
+            quantity: line.quantity,
+          }))}
+          totalPrice={order.totalPrice}
+          advancePaid={order.advancePaid}
+          placeOfSupply={order.gstSplit?.placeOfSupply}
+        />
+      ) : (
+        <p className="text-slate-600">Total: {formatCurrency(order.totalPrice)}</p>
+      )}
+    </div>
+  );
+};
+
 const FileUploadPanel: React.FC<{ order: Order }> = ({ order }) => {
   const files: Array<{ type: string; fileName: string; uploadedAt: string; sizeMb: number; data?: string }> = [];
 
@@ -697,13 +885,196 @@ const FileUploadPanel: React.FC<{ order: Order }> = ({ order }) => {
   );
 };
 
+// Product name of the cart line a shipment belongs to
+const getShipmentLineName = (order: Order, lineId: string) =>
+  order.items?.find((line) => line._id === lineId)?.product?.name || 'Product';
+
 // Main OrderDetails Component
+// Lines the customer can change (a single-product order is its own line)
+const getAmendableLines = (order: Order): AmendableLine[] =>
+  isMultiLineOrder(order)
+    ? order.items!.map((line, idx) => ({
+      lineId: line._id,
+      label: `Item ${idx + 1}: ${line.product?.name || 'Product'}`,
+      productId: line.product?._id || '',
+      quantity: line.quantity,
+      selectedDynamicAttributes: line.selectedDynamicAttributes,
+    }))
+    : [{
+      lineId: null,
+      label: order.product?.name || 'Product',
+      productId: order.product?._id || '',
+      quantity: order.quantity,
+      selectedDynamicAttributes: order.selectedDynamicAttributes,
+    }];
+
+const AMENDMENT_STATUS_STYLES: Record<Amendment['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+const AmendmentsPanel: React.FC<{ amendments: Amendment[] }> = ({ amendments }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+    <div className="flex items-center gap-3 mb-4">
+      <Edit3 className="w-5 h-5 text-brand-600" />
+      <h3 className="text-lg font-bold text-slate-900">Change Requests</h3>
+    </div>
+    <div className="space-y-3">
+      {amendments.map((amendment) => (
+        <div key={amendment._id} className="p-4 bg-slate-50 rounded-lg text-sm">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-slate-500">{new Date(amendment.createdAt).toLocaleString()}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-bold uppercase ${AMENDMENT_STATUS_STYLES[amendment.status]}`}>
+              {amendment.status}
+            </span>
+          </div>
+          <ul className="text-slate-700 space-y-0.5">
+            {describeAmendmentChanges(amendment.changes).map((description, idx) => (
+              <li key={idx}>{description}</li>
+            ))}
+          </ul>
+          {Math.abs(amendment.pricing.difference) >= 0.01 && (
+            <p className={`mt-2 text-xs ${amendment.pricing.difference > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+              {amendment.pricing.difference > 0
+                ? `${formatCurrency(amendment.pricing.difference)} more to pay`
+                : `${formatCurrency(Math.abs(amendment.pricing.difference))} to be refunded`}
+              {' '}(new total {formatCurrency(amendment.pricing.newTotal)})
+            </p>
+          )}
+          {amendment.status === 'rejected' && amendment.rejectionReason && (
+            <p className="mt-2 text-xs text-red-600">Reason: {amendment.rejectionReason}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const ComplaintsPanel: React.FC<{ complaints: Complaint[] }> = ({ complaints }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+    <div className="flex items-center gap-3 mb-4">
+      <AlertTriangle className="w-5 h-5 text-brand-600" />
+      <h3 className="text-lg font-bold text-slate-900">Complaints</h3>
+    </div>
+    <div className="space-y-3">
+      {complaints.map((complaint) => (
+        <div key={complaint._id} className="p-4 bg-slate-50 rounded-lg text-sm">
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-medium text-slate-900">{COMPLAINT_REASON_LABELS[complaint.reason]}</span>
+            <span className="text-slate-500">{new Date(complaint.createdAt).toLocaleString()}</span>
+          </div>
+          <p className="text-slate-700">{complaint.description}</p>
+          {complaint.photos.length > 0 && (
+            <div className="flex gap-2 mt-2 flex-wrap">
+              {complaint.photos.map((photo) => photo.data && (
+                <img key={photo._id} src={photo.data} alt={photo.filename || 'Complaint photo'} className="w-16 h-16 object-cover rounded border border-slate-200" />
+              ))}
+            </div>
+          )}
+          <p className={`mt-2 text-xs font-medium ${complaint.status === 'open' ? 'text-amber-700' : complaint.resolution === 'rejected' ? 'text-red-600' : 'text-green-700'}`}>
+            {describeComplaintOutcome(complaint)}
+          </p>
+          {complaint.resolutionNotes && (
+            <p className="mt-1 text-xs text-slate-600">{complaint.resolutionNotes}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const CancellationPanel: React.FC<{ cancellation: OrderCancellation }> = ({ cancellation }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+    <div className="flex items-center gap-3 mb-4">
+      <XCircle className="w-5 h-5 text-brand-600" />
+      <h3 className="text-lg font-bold text-slate-900">Cancellation</h3>
+    </div>
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between text-slate-600">
+        <span>{cancellation.rule} ({cancellation.refundPercent}% refund)</span>
+        <span>{new Date(cancellation.cancelledAt).toLocaleString()}</span>
+      </div>
+      <div className="flex justify-between text-slate-600">
+        <span>Paid</span>
+        <span>{formatCurrency(cancellation.paidAmount)}</span>
+      </div>
+      <div className="flex justify-between font-semibold text-green-700">
+        <span>Refund</span>
+        <span>{formatCurrency(cancellation.refundAmount)}</span>
+      </div>
+      {cancellation.creditNoteNumber && (
+        <p className="text-xs text-slate-500">Credit note {cancellation.creditNoteNumber}</p>
+      )}
+    </div>
+  </div>
+);
+
+// Lines a complaint can be about (a single-product order is its own line)
+const getComplaintLines = (order: Order): ComplaintLine[] =>
+  isMultiLineOrder(order)
+    ? order.items!.map((line, idx) => ({
+      lineId: line._id,
+      label: `Item ${idx + 1}: ${line.product?.name || 'Product'}`,
+      quantity: line.quantity,
+    }))
+    : [{ lineId: null, label: order.product?.name || 'Product', quantity: order.quantity }];
+
 const OrderDetails: React.FC = () => {
   const { orderId } = useParams<{ orderId: string }>();
   const navigate = useNavigate();
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showReorder, setShowReorder] = useState(false);
+  const [amendments, setAmendments] = useState<Amendment[]>([]);
+  const [canRequestChanges, setCanRequestChanges] = useState(false);
+  const [showAmendment, setShowAmendment] = useState(false);
+  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [canRaiseComplaint, setCanRaiseComplaint] = useState(false);
+  const [showComplaint, setShowComplaint] = useState(false);
+  const [showCancel, setShowCancel] = useState(false);
+
+  const fetchAmendments = async () => {
+    if (!orderId) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/orders/${orderId}/amendments`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setAmendments(data.data.amendments);
+      setCanRequestChanges(data.data.canRequestChanges);
+    } catch (err) {
+      console.error('Error fetching change requests:', err);
+    }
+  };
+
+  const fetchComplaints = async () => {
+    if (!orderId) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/orders/${orderId}/complaints`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setComplaints(data.data.complaints);
+      setCanRaiseComplaint(data.data.canRaiseComplaint);
+    } catch (err) {
+      console.error('Error fetching complaints:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchAmendments();
+    fetchComplaints();
+  }, [orderId]);
 
   useEffect(() => {
     const fetchOrderDetails = async () => {
@@ -748,9 +1119,14 @@ const OrderDetails: React.FC = () => {
   const getProductionTimeline = (): TimelineEvent[] => {
     if (!order) return [];
 
+    // Cart orders: production covers the department statuses of every line
+    const productionStatuses = isMultiLineOrder(order)
+      ? order.items!.flatMap((line) => line.departmentStatuses || [])
+      : order.departmentStatuses || [];
+
     // Helper to get first department start time
     const getFirstDepartmentStart = () => {
-      const firstDept = order.departmentStatuses?.find((ds) => {
+      const firstDept = productionStatuses.find((ds) => {
         const status = typeof ds === 'object' ? ds.status : null;
         return status === 'in_progress' || status === 'completed';
       });
@@ -759,7 +1135,7 @@ const OrderDetails: React.FC = () => {
 
     // Helper to get last department completion time
     const getLastDepartmentComplete = () => {
-      const completedDepts = order.departmentStatuses?.filter((ds) => {
+      const completedDepts = productionStatuses.filter((ds) => {
         const status = typeof ds === 'object' ? ds.status : null;
         return status === 'completed';
       });
@@ -787,7 +1163,7 @@ const OrderDetails: React.FC = () => {
     ];
 
     // Design & File Prep
-    const fileUploadedAt = order.uploadedDesign?.frontImage || order.uploadedDesign?.backImage
+    const fileUploadedAt = order.uploadedDesign?.frontImage || order.uploadedDesign?.backImage || isMultiLineOrder(order)
       ? order.createdAt
       : undefined;
 
@@ -807,7 +1183,7 @@ const OrderDetails: React.FC = () => {
     }
 
     // Production
-    const hasProductionStarted = order.departmentStatuses?.some(
+    const hasProductionStarted = productionStatuses.some(
       (ds) => {
         const status = typeof ds === 'object' ? ds.status : null;
         return status === 'in_progress' || status === 'completed';
@@ -815,7 +1191,7 @@ const OrderDetails: React.FC = () => {
     );
 
     if (hasProductionStarted) {
-      const allCompleted = order.departmentStatuses?.every((ds) => {
+      const allCompleted = productionStatuses.every((ds) => {
         const status = typeof ds === 'object' ? ds.status : null;
         return status === 'completed';
       });
@@ -856,7 +1232,8 @@ const OrderDetails: React.FC = () => {
     if (order.courierPartner || order.trackingId || dispatchedAt) {
       stages.push({
         stage: 'Courier',
-        status: 'completed',
+        // A partly shipped order stays in progress until every shipment is delivered
+        status: order.deliveredAt || !order.shipments?.length ? 'completed' : 'in_progress',
         timestamp: dispatchedAt || order.updatedAt,
         startedAt: dispatchedAt || order.handedOverToCourierAt || order.updatedAt,
         completedAt: order.deliveredAt || undefined,
@@ -935,7 +1312,7 @@ const OrderDetails: React.FC = () => {
   }
 
   // Safety check for product
-  if (!order.product) {
+  if (!order.product && !isMultiLineOrder(order)) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
         <div className="text-center">
@@ -956,10 +1333,11 @@ const OrderDetails: React.FC = () => {
   const isPaymentPending = order.paymentStatus !== 'completed';
   const productionTimeline = getProductionTimeline();
   const departmentStatuses = getDepartmentStatuses();
+  const isMultiLine = isMultiLineOrder(order);
   const categoryName =
-    typeof order.product.subcategory === 'object' && order.product.subcategory !== null
+    typeof order.product?.subcategory === 'object' && order.product.subcategory !== null
       ? order.product.subcategory.name
-      : order.product.subcategory || 'N/A';
+      : order.product?.subcategory || (isMultiLine ? 'Multiple products' : 'N/A');
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -982,10 +1360,10 @@ const OrderDetails: React.FC = () => {
                     alt="Subcategory"
                     className="hidden md:block w-24 h-24 object-cover rounded-lg shadow-sm border border-slate-100"
                   />
-                ) : order.product?.image ? (
+                ) : (order.product?.image || order.items?.[0]?.product?.image) ? (
                   <img
-                    src={order.product.image}
-                    alt={order.product.name}
+                    src={order.product?.image || order.items?.[0]?.product?.image}
+                    alt={getOrderProductLabel(order)}
                     className="hidden md:block w-24 h-24 object-cover rounded-lg shadow-sm border border-slate-100"
                   />
                 ) : null;
@@ -1017,7 +1395,7 @@ const OrderDetails: React.FC = () => {
                     return categoryName;
                   })()}
                 </div>
-                <p className="text-slate-600 font-medium">{order.product?.name || 'Product'}</p>
+                <p className="text-slate-600 font-medium">{getOrderProductLabel(order)}</p>
 
                 <div className="flex items-center gap-4 mt-2 text-sm text-slate-500">
                   <span className="flex items-center gap-1">
@@ -1027,18 +1405,45 @@ const OrderDetails: React.FC = () => {
                       : 'Not set'}
                   </span>
                   <span className="flex items-center gap-1">
-                    <Package className="w-4 h-4" /> {order.quantity.toLocaleString()} units
+                    <Package className="w-4 h-4" />{' '}
+                    {isMultiLine ? `${order.items!.length} items` : `${order.quantity.toLocaleString()} units`}
                   </span>
                 </div>
               </div>
             </div>
 
             <div className="flex gap-3 md:self-start">
-              {order.paymentGatewayInvoiceId && (
-                <button className="flex items-center gap-2 px-4 py-2 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors">
-                  <Download className="w-4 h-4" /> Invoice
+              <InvoiceButton orderId={order._id} invoiceNumber={order.invoiceNumber} />
+              {canRequestChanges && (
+                <button
+                  onClick={() => setShowAmendment(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors"
+                >
+                  <Edit3 className="w-4 h-4" /> Request Changes
+                </button>
+              )}
+              {canRaiseComplaint && (
+                <button
+                  onClick={() => setShowComplaint(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors"
+                >
+                  <AlertTriangle className="w-4 h-4" /> Report a Problem
+                </button>
+              )}
+              {getNextOrderStatuses(order.status, 'user').includes('cancelled') && (
+                <button
+                  onClick={() => setShowCancel(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-red-50 border border-red-200 rounded-lg text-sm font-medium text-red-700 transition-colors"
+                >
+                  <XCircle className="w-4 h-4" /> Cancel Order
                 </button>
               )}
+              <button
+                onClick={() => setShowReorder(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" /> Reorder
+              </button>
               <button className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-slate-50 border border-slate-200 rounded-lg text-sm font-medium text-slate-700 transition-colors">
                 <HelpCircle className="w-4 h-4" /> Support
               </button>
@@ -1100,8 +1505,18 @@ const OrderDetails: React.FC = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-6">
-            <ProductSpecsPanel order={order} />
-            <FileUploadPanel order={order} />
+            {isMultiLine ? (
+              <OrderLinesPanel order={order} />
+            ) : (
+              <>
+                <ProductSpecsPanel order={order} />
+                <FileUploadPanel order={order} />
+              </>
+            )}
+
+            {amendments.length > 0 && <AmendmentsPanel amendments={amendments} />}
+            {complaints.length > 0 && <ComplaintsPanel complaints={complaints} />}
+            {order.cancellation && <CancellationPanel cancellation={order.cancellation} />}
 
             {order.shippingAddress && (
               <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -1120,7 +1535,52 @@ const OrderDetails: React.FC = () => {
               </div>
             )}
 
-            {order.status === 'completed' && (order.courierPartner || order.trackingId) && (
+            {order.shipments && order.shipments.length > 0 ? (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <Truck className="w-5 h-5 text-brand-600" />
+                  <h3 className="text-lg font-bold text-slate-900">
+                    Shipments ({order.shipments.length})
+                  </h3>
+                </div>
+                <div className="space-y-3">
+                  {order.shipments.map((shipment, index) => (
+                    <div key={shipment._id} className="bg-slate-50 p-4 rounded-lg text-sm">
+                      <div className="flex justify-between gap-3">
+                        <p className="font-medium text-slate-900">
+                          Shipment {index + 1}: {shipment.quantity.toLocaleString()} units
+                          {isMultiLine && shipment.lineId && ` of ${getShipmentLineName(order, shipment.lineId)}`}
+                        </p>
+                        <span className={`text-xs font-semibold ${shipment.status === 'delivered' ? 'text-green-700' : 'text-brand-600'}`}>
+                          {SHIPMENT_STATUS_LABELS[shipment.status]}
+                        </span>
+                      </div>
+                      {shipment.courierPartner && (
+                        <p className="text-slate-600 mt-1">
+                          Courier: <span className="font-medium">{shipment.courierPartner}</span>
+                        </p>
+                      )}
+                      {shipment.trackingId && (
+                        <p className="text-slate-600 mt-1">
+                          Tracking Number:{' '}
+                          {shipment.trackingUrl ? (
+                            <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-brand-600 underline">
+                              {shipment.trackingId}
+                            </a>
+                          ) : (
+                            <span className="font-mono text-slate-900">{shipment.trackingId}</span>
+                          )}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-500 mt-1">
+                        Dispatched {new Date(shipment.dispatchedAt).toLocaleDateString()}
+                        {shipment.deliveredAt && ` · Delivered ${new Date(shipment.deliveredAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : order.status === 'completed' && (order.courierPartner || order.trackingId) && (
               <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
                 <div className="flex items-center gap-3 mb-4">
                   <Truck className="w-5 h-5 text-brand-600" />
@@ -1144,10 +1604,53 @@ const OrderDetails: React.FC = () => {
           </div>
 
           <div className="space-y-6">
-            <PriceBreakdownPanel order={order} />
+            {isMultiLine ? <CartPriceBreakdownPanel order={order} /> : <PriceBreakdownPanel order={order} />}
           </div>
         </div>
       </div>
+
+      {showReorder && (
+        <ReorderModal orderId={order._id} orderNumber={order.orderNumber} onClose={() => setShowReorder(false)} />
+      )}
+      {showAmendment && (
+        <AmendmentModal
+          orderId={order._id}
+          orderNumber={order.orderNumber}
+          lines={getAmendableLines(order)}
+          address={order.address || ''}
+          pincode={order.pincode || ''}
+          deliveryState={order.pricingSnapshot?.inputs?.deliveryState}
+          mobileNumber={order.mobileNumber || ''}
+          onClose={() => setShowAmendment(false)}
+          onSubmitted={() => {
+            setShowAmendment(false);
+            fetchAmendments();
+          }}
+        />
+      )}
+      {showCancel && (
+        <CancelOrderModal
+          orderId={order._id}
+          orderNumber={order.orderNumber}
+          onClose={() => setShowCancel(false)}
+          onCancelled={(cancellation) => {
+            setShowCancel(false);
+            setOrder({ ...order, status: 'cancelled', cancellation });
+          }}
+        />
+      )}
+      {showComplaint && (
+        <ComplaintModal
+          orderId={order._id}
+          orderNumber={order.orderNumber}
+          lines={getComplaintLines(order)}
+          onClose={() => setShowComplaint(false)}
+          onSubmitted={() => {
+            setShowComplaint(false);
+            fetchComplaints();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -24,8 +24,10 @@ import {
   Settings as SettingsIcon,
 } from "lucide-react";
 import { API_BASE_URL_WITH_API as API_BASE_URL } from "../lib/apiConfig";
-import { calculateOrderBreakdown, OrderForCalculation } from "../utils/pricing";
+import { describeCharge, orderCouponForCalculation, getGstLines, OrderForCalculation, OrderCoupon, OrderPriceList, OrderDeliveryZone, GstSplit, PricingSnapshot, getOrderBreakdown, OrderSubattribute, OrderCustomSize, CartPricingSnapshot } from "../utils/pricing";
+import { OrderLine, isMultiLineOrder, getOrderProductLabel } from "../utils/orderLines";
 import BackButton from "../components/BackButton";
+import CartPriceBreakdown from "../components/CartPriceBreakdown";
 
 interface UserData {
   id: string;
@@ -62,6 +64,7 @@ interface Order {
     optionName: string;
     name?: string;
     priceAdd: number;
+    pricingMode?: string;
     description?: string;
     image?: string;
   }> | string[];
@@ -72,10 +75,21 @@ interface Order {
     label: string;
     priceMultiplier?: number;
     priceAdd: number;
+    pricingMode?: string | null;
     description?: string;
     image?: string;
+    subattribute?: OrderSubattribute | null;
   }>;
   totalPrice: number;
+  coupon?: OrderCoupon | null;
+  priceList?: OrderPriceList | null;
+  deliveryZone?: OrderDeliveryZone | null;
+  shippingCharge?: number;
+  customSize?: OrderCustomSize | null;
+  // Line items of a cart order (empty for single-product orders)
+  items?: OrderLine[];
+  pricingSnapshot?: PricingSnapshot | CartPricingSnapshot | null;
+  gstSplit?: GstSplit | null;
   advancePaid?: number;
   status: "request" | "production_ready" | "approved" | "processing" | "completed" | "cancelled" | "rejected";
   currentDepartment?: {
@@ -179,8 +193,11 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
         const isProcessing = order.status === "processing" || order.status === "approved" || order.status === "production_ready";
         const isPendingPayment = order.status === "request";
 
-        // Calculate progress percentage based on department completion
-        const departmentStatuses = order.departmentStatuses || [];
+        // Calculate progress percentage based on department completion (across every line of a cart order)
+        const isMultiLine = isMultiLineOrder(order);
+        const departmentStatuses = isMultiLine
+          ? order.items!.flatMap((line) => line.departmentStatuses || [])
+          : order.departmentStatuses || [];
         const totalDepts = departmentStatuses.length;
         
         // Count completed departments - handle both object and lean() formats
@@ -217,47 +234,49 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
           product: {
             basePrice: order.product?.basePrice || 0,
             gstPercentage: order.product?.gstPercentage || 18,
+            additionalDesignCharge: (order.product as any)?.additionalDesignCharge || 0,
             options: order.product?.options || [],
             filters: order.product?.filters || {},
             quantityDiscounts: (order.product as any)?.quantityDiscounts || [],
           },
           finish: order.finish,
           shape: order.shape,
+          textureType: (order as any).textureType || undefined,
           selectedOptions: (order.selectedOptions || []).map((opt) => ({
             name: typeof opt === 'string' ? opt : (opt.optionName || opt.name || ''),
             optionName: typeof opt === 'string' ? opt : (opt.optionName || opt.name || ''),
             priceAdd: typeof opt === 'string' ? 0 : (opt.priceAdd || 0),
+            pricingMode: typeof opt === 'string' ? undefined : opt.pricingMode,
           })),
           selectedDynamicAttributes: order.selectedDynamicAttributes?.map((attr) => ({
+            attributeTypeId: attr.attributeTypeId,
+            attributeValue: attr.attributeValue,
             attributeName: attr.attributeName,
             label: attr.label,
             priceMultiplier: attr.priceMultiplier,
             priceAdd: attr.priceAdd,
+            pricingMode: attr.pricingMode,
+            subattribute: attr.subattribute,
           })),
+          coupon: orderCouponForCalculation(order.coupon),
+          priceList: order.priceList,
+          deliveryZone: order.deliveryZone,
+          customSize: order.customSize,
+          pincode: order.pincode,
+          sellerStateCode: order.gstSplit?.sellerStateCode,
         };
 
-        const calculations = calculateOrderBreakdown(orderForCalc) as any;
-        
-        // Get additional design charge from product
-        const additionalDesignCharge = (order.product as any)?.additionalDesignCharge || 0;
-        
-        // New calculation order:
-        // 1. Base Price = quantity * price
-        // 2. Add options/attributes/charges
-        // 3. Subtotal before discount
-        // 4. Apply discount to subtotal
-        // 5. Add design charge
-        // 6. Subtotal including design charge (after discount)
-        // 7. Add GST (on discounted subtotal + design charge)
-        // 8. Final total
-        
-        const subtotalBeforeDiscount = calculations.subtotalBeforeGst || calculations.rawBaseTotal + calculations.optionBreakdowns.reduce((sum: number, opt: any) => sum + opt.cost, 0);
-        const subtotalAfterDiscount = calculations.subtotalAfterDiscount || calculations.subtotal || subtotalBeforeDiscount;
-        const discountAmount = calculations.discountAmount || (subtotalBeforeDiscount - subtotalAfterDiscount);
-        const subtotalWithDesignCharge = subtotalAfterDiscount + additionalDesignCharge;
-        // GST is calculated on discounted subtotal + design charge
-        const gstAmount = (subtotalWithDesignCharge * (order.product?.gstPercentage || 18)) / 100;
-        const finalTotal = subtotalWithDesignCharge + gstAmount;
+        // Render what the customer was charged; orders placed before snapshots existed are re-calculated
+        const calculations = getOrderBreakdown(order.pricingSnapshot as PricingSnapshot | null | undefined, orderForCalc);
+        const cartBreakdown = isMultiLine ? (order.pricingSnapshot as CartPricingSnapshot | null | undefined)?.breakdown : null;
+
+        // All amounts come from the shared pricing engine (design charge and GST included)
+        const additionalDesignCharge = calculations.designCharge;
+        const subtotalBeforeDiscount = calculations.subtotalBeforeGst;
+        const subtotalAfterDiscount = calculations.subtotalAfterDiscount;
+        const discountAmount = calculations.discountAmount;
+        const subtotalWithDesignCharge = calculations.subtotalWithDesignCharge;
+        const gstLines = getGstLines(calculations);
         
         // Use stored totalPrice as source of truth
         const storedTotal = order.totalPrice;
@@ -270,7 +289,13 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
             <div className="p-6 flex flex-col md:flex-row md:items-center gap-6">
               {/* Subcategory Image */}
               <div className="shrink-0">
-                <SubcategoryImage subcategory={order.product?.subcategory} />
+                <SubcategoryImage
+                  subcategory={
+                    isMultiLine
+                      ? { name: order.items![0].product?.name || "Product", image: order.items![0].product?.image }
+                      : order.product?.subcategory
+                  }
+                />
               </div>
 
               {/* Main Info */}
@@ -297,10 +322,12 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                   </div>
                 )}
                 <h3 className="text-lg font-bold text-slate-900 truncate pr-4">
-                  {order.product?.name || "Product"}
+                  {getOrderProductLabel(order)}
                 </h3>
                 <p className="text-sm text-slate-500 mt-1">
-                  {order.quantity.toLocaleString()} units • {order.finish}
+                  {isMultiLine
+                    ? order.items!.map((line) => `${line.quantity.toLocaleString()} × ${line.product?.name || "Product"}`).join(", ")
+                    : `${order.quantity.toLocaleString()} units • ${order.finish}`}
                 </p>
               </div>
 
@@ -381,14 +408,34 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                     <CreditCard size={18} />
                     Price Breakdown
                   </h3>
+                  {isMultiLine ? (
+                    cartBreakdown ? (
+                      <CartPriceBreakdown
+                        breakdown={cartBreakdown}
+                        lines={order.items!.map((line) => ({
+                          key: line._id,
+                          name: line.product?.name || "Product",
+                          quantity: line.quantity,
+                        }))}
+                        totalPrice={order.totalPrice}
+                        advancePaid={order.advancePaid}
+                        placeOfSupply={order.gstSplit?.placeOfSupply}
+                      />
+                    ) : (
+                      <p className="text-sm text-slate-600">Total: {formatCurrency(order.totalPrice)}</p>
+                    )
+                  ) : (
                   <div className="space-y-3 text-sm">
                     {/* Step 1: Base Price = quantity * price */}
                     <div className="flex justify-between items-center pb-2 border-b border-slate-100">
                       <div className="text-slate-600">
                         <span>
                           Base Price ({order.quantity.toLocaleString()} ×{' '}
-                          {formatCurrency(order.product?.basePrice || 0)})
+                          {formatCurrency(calculations.basePrice)})
                         </span>
+                        {calculations.priceListName && (
+                          <p className="text-xs text-slate-400">Contract price: {calculations.priceListName}</p>
+                        )}
                       </div>
                       <span className="font-medium text-slate-900">{formatCurrency(calculations.rawBaseTotal)}</span>
                     </div>
@@ -397,7 +444,7 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                     {calculations.optionBreakdowns.map((opt: any, idx: number) => (
                       <div key={idx} className="flex justify-between items-center text-slate-600">
                         <span>
-                          {opt.name} {opt.isPerUnit ? `(${order.quantity} × ${formatCurrency(opt.priceAdd)})` : ''}
+                          {opt.name} {describeCharge(opt, order.quantity)}
                         </span>
                         <span>+{formatCurrency(opt.cost)}</span>
                       </div>
@@ -428,6 +475,14 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                       <span>{formatCurrency(subtotalAfterDiscount)}</span>
                     </div>
 
+                    {/* Coupon discount */}
+                    {calculations.couponDiscount > 0 && (
+                      <div className="flex justify-between items-center text-green-600 bg-green-50 p-2 rounded-md">
+                        <span className="font-semibold">Coupon ({calculations.couponCode})</span>
+                        <span className="font-bold">-{formatCurrency(calculations.couponDiscount)}</span>
+                      </div>
+                    )}
+
                     {/* Step 6: Additional Design Charge */}
                     {additionalDesignCharge > 0 && (
                       <div className="flex justify-between items-center text-slate-600">
@@ -444,11 +499,24 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                       </div>
                     )}
 
-                    {/* Step 8: GST (calculated on discounted subtotal + design charge) */}
-                    <div className="flex justify-between items-center text-slate-500 text-xs">
-                      <span>GST ({order.product?.gstPercentage || 18}%)</span>
-                      <span>+{formatCurrency(gstAmount)}</span>
-                    </div>
+                    {/* Shipping for the delivery zone */}
+                    {calculations.deliveryZoneName && (
+                      <div className="flex justify-between items-center text-slate-600">
+                        <span>Shipping ({calculations.deliveryZoneName})</span>
+                        <span>{calculations.freeShippingApplied ? 'Free' : `+${formatCurrency(calculations.shippingCharge)}`}</span>
+                      </div>
+                    )}
+
+                    {/* Step 8: GST (calculated on discounted subtotal + design charge + shipping, split by place of supply) */}
+                    {gstLines.map((line) => (
+                      <div key={line.label} className="flex justify-between items-center text-slate-500 text-xs">
+                        <span>{line.label}</span>
+                        <span>+{formatCurrency(line.amount)}</span>
+                      </div>
+                    ))}
+                    {order.gstSplit && (
+                      <div className="text-slate-400 text-xs">Place of supply: {order.gstSplit.placeOfSupply}</div>
+                    )}
 
                     {/* Advance Paid / Balance Due (before Total Amount) */}
                     {(order.advancePaid !== undefined && order.advancePaid > 0) && (
@@ -480,6 +548,7 @@ const OrdersList: React.FC<OrdersListProps> = ({ orders, onSelectOrder }) => {
                       <span className="text-xl font-bold text-brand-600">{formatCurrency(storedTotal)}</span>
                     </div>
                   </div>
+                  )}
                 </div>
               </div>
             )}
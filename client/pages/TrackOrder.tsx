@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { AlertCircle, ExternalLink, Loader, Search, Truck } from 'lucide-react';
+import BackButton from '../components/BackButton';
+import OrderTimeline from '../components/OrderTimeline';
+import { API_BASE_URL_WITH_API as API_BASE_URL, getBaseHeaders } from '../lib/apiConfig';
+import { ORDER_STATUS_LABELS, OrderStatus } from '../utils/orderStatus';
+import { SHIPMENT_STATUS_LABELS, ShipmentStatus } from '../utils/shipments';
+
+interface TrackedShipment {
+    shipmentNumber: number;
+    product?: string;
+    quantity: number;
+    numberOfBoxes: number;
+    courierPartner: string;
+    trackingId: string;
+    trackingUrl?: string | null;
+    status: ShipmentStatus;
+    dispatchedAt: string;
+    deliveredAt?: string | null;
+}
+
+interface TrackedOrder {
+    orderNumber: string;
+    status: OrderStatus;
+    courierStatus: string | null;
+    timeline: {
+        stage: string;
+        stageNumber: number;
+        status: 'completed' | 'in_progress' | 'pending';
+        timestamp: string | null;
+        details: any;
+    }[];
+}
+
+const formatDate = (value?: string | null) =>
+    value
+        ? new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+        : '-';
+
+const TrackOrder: React.FC = () => {
+    const [orderNumber, setOrderNumber] = useState('');
+    const [mobileNumber, setMobileNumber] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [trackedOrder, setTrackedOrder] = useState<TrackedOrder | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!orderNumber.trim() || mobileNumber.replace(/\D/g, '').length < 10) {
+            setError('Enter your order number and the 10-digit mobile number used on the order');
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        setTrackedOrder(null);
+
+        try {
+            const response = await fetch(`${API_BASE_URL}/timeline/track`, {
+                method: 'POST',
+                headers: { ...getBaseHeaders(), 'Content-Type': 'application/json' },
+                body: JSON.stringify({ orderNumber: orderNumber.trim(), mobileNumber }),
+            });
+            const data = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to track order');
+            }
+            setTrackedOrder(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to track order');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const courierDetails = trackedOrder?.timeline.find((stage) => stage.stageNumber === 5)?.details || {};
+    const shipments: TrackedShipment[] = courierDetails.shipments || [];
+
+    return (
+        <div className="min-h-screen bg-cream-50 py-16">
+            <div className="container mx-auto px-4 max-w-4xl">
+                <div className="mb-6">
+                    <BackButton fallbackPath="/" label="Back to Home" className="text-cream-600 hover:text-cream-900" />
+                </div>
+
+                <div className="bg-white p-8 rounded-2xl shadow-lg border border-cream-100 mb-8">
+                    <h1 className="font-serif text-3xl font-bold text-cream-900 mb-2 text-center">Track Your Order</h1>
+                    <p className="text-sm text-cream-600 text-center mb-6">
+                        Enter the order number from your confirmation and the mobile number you ordered with.
+                    </p>
+
+                    <form className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end" onSubmit={handleSubmit}>
+                        <div>
+                            <label htmlFor="orderNumber" className="block text-sm font-medium text-cream-700 mb-1">
+                                Order Number
+                            </label>
+                            <input
+                                id="orderNumber"
+                                type="text"
+                                value={orderNumber}
+                                onChange={(e) => setOrderNumber(e.target.value)}
+                                className="w-full p-3 border border-cream-200 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-transparent outline-none"
+                                placeholder="As shown on your order confirmation"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="mobileNumber" className="block text-sm font-medium text-cream-700 mb-1">
+                                Mobile Number
+                            </label>
+                            <input
+                                id="mobileNumber"
+                                type="tel"
+                                value={mobileNumber}
+                                onChange={(e) => setMobileNumber(e.target.value)}
+                                className="w-full p-3 border border-cream-200 rounded-lg focus:ring-2 focus:ring-cream-500 focus:border-transparent outline-none"
+                                placeholder="10-digit mobile number"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="flex items-center justify-center gap-2 bg-cream-900 text-cream-50 px-6 py-3 rounded-lg font-medium hover:bg-cream-800 transition-colors disabled:opacity-50"
+                        >
+                            {loading ? <Loader size={18} className="animate-spin" /> : <Search size={18} />}
+                            Track
+                        </button>
+                    </form>
+
+                    {error && (
+                        <div className="mt-6 p-4 rounded-lg flex items-start gap-3 bg-red-50 border border-red-200 text-red-800">
+                            <AlertCircle size={20} className="flex-shrink-0 mt-0.5" />
+                            <p className="text-sm">{error}</p>
+                        </div>
+                    )}
+                </div>
+
+                {trackedOrder && (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <h2 className="text-xl font-bold text-cream-900">Order {trackedOrder.orderNumber}</h2>
+                            <span className="px-3 py-1 rounded-full text-sm font-medium bg-cream-100 text-cream-800">
+                                {ORDER_STATUS_LABELS[trackedOrder.status] || trackedOrder.status}
+                            </span>
+                        </div>
+
+                        <OrderTimeline timeline={trackedOrder.timeline} orderNumber={trackedOrder.orderNumber} />
+
+                        {(courierDetails.courierPartner || shipments.length > 0) && (
+                            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                                <h3 className="flex items-center gap-2 text-lg font-bold text-slate-900 mb-4">
+                                    <Truck size={20} />
+                                    Courier
+                                </h3>
+
+                                {shipments.length === 0 ? (
+                                    <div className="grid gap-2 sm:grid-cols-2 text-sm">
+                                        <p><span className="text-slate-500">Courier:</span> {courierDetails.courierPartner}</p>
+                                        <p>
+                                            <span className="text-slate-500">Tracking ID:</span> {courierDetails.trackingId}
+                                            {courierDetails.trackingUrl && (
+                                                <a
+                                                    href={courierDetails.trackingUrl}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="inline-flex items-center gap-1 ml-2 text-blue-600 hover:underline"
+                                                >
+                                                    Track <ExternalLink size={12} />
+                                                </a>
+                                            )}
+                                        </p>
+                                        {trackedOrder.courierStatus && (
+                                            <p><span className="text-slate-500">Status:</span> {trackedOrder.courierStatus.replace(/_/g, ' ')}</p>
+                                        )}
+                                        <p><span className="text-slate-500">Dispatched:</span> {formatDate(courierDetails.dispatchedAt)}</p>
+                                        {courierDetails.deliveredAt && (
+                                            <p><span className="text-slate-500">Delivered:</span> {formatDate(courierDetails.deliveredAt)}</p>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {shipments.map((shipment) => (
+                                            <div key={shipment.shipmentNumber} className="border border-slate-200 rounded-lg p-4 text-sm">
+                                                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                                                    <p className="font-semibold text-slate-900">
+                                                        Shipment {shipment.shipmentNumber}
+                                                        {shipment.product && ` - ${shipment.product}`}
+                                                    </p>
+                                                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                                                        {SHIPMENT_STATUS_LABELS[shipment.status] || shipment.status}
+                                                    </span>
+                                                </div>
+                                                <div className="grid gap-1 sm:grid-cols-2 text-slate-700">
+                                                    <p>{shipment.quantity} units in {shipment.numberOfBoxes} box(es)</p>
+                                                    <p>{shipment.courierPartner} - {shipment.trackingId}
+                                                        {shipment.trackingUrl && (
+                                                            <a
+                                                                href={shipment.trackingUrl}
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                className="inline-flex items-center gap-1 ml-2 text-blue-600 hover:underline"
+                                                            >
+                                                                Track <ExternalLink size={12} />
+                                                            </a>
+                                                        )}
+                                                    </p>
+                                                    <p>Dispatched {formatDate(shipment.dispatchedAt)}</p>
+                                                    {shipment.deliveredAt && <p>Delivered {formatDate(shipment.deliveredAt)}</p>}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TrackOrder;
@@ -16,8 +16,10 @@ import Reviews from './pages/Reviews';
 import Profile from './pages/Profile';
 import OrderDetails from './pages/OrderDetails';
 import MyOrders from './pages/MyOrders';
+import Cart from './pages/Cart';
 import DepartmentPortal from './pages/DepartmentPortal';
 import EmployeeDashboard from './pages/EmployeeDashboard';
+import TrackOrder from './pages/TrackOrder';
 
 // Shared routes configuration for both SSR and client
 export const routes = [
@@ -44,6 +46,8 @@ export const routes = [
       { path: 'signup', element: <SignUp />, errorElement: <ErrorBoundary /> },
       { path: 'profile', element: <Profile />, errorElement: <ErrorBoundary /> },
       { path: 'my-orders', element: <MyOrders />, errorElement: <ErrorBoundary /> },
+      { path: 'track-order', element: <TrackOrder />, errorElement: <ErrorBoundary /> },
+      { path: 'cart', element: <Cart />, errorElement: <ErrorBoundary /> },
       { path: 'orders/:orderId', element: <OrderDetails />, errorElement: <ErrorBoundary /> },
       { path: 'order/:orderId', element: <OrderDetails />, errorElement: <ErrorBoundary /> },
       { path: 'admin/dashboard', element: <AdminDashboard />, errorElement: <ErrorBoundary /> },
@@ -0,0 +1,47 @@
+import { getGstStateName } from './gst';
+
+// Customer change requests on an order (reviewed by an admin before production)
+export interface Amendment {
+  _id: string;
+  order?: { _id: string; orderNumber: string; status: string; totalPrice: number } | string;
+  lineId?: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  changes: {
+    quantity?: number | null;
+    selectedDynamicAttributes?: Array<{ attributeName: string; label: string }>;
+    address?: string | null;
+    pincode?: string | null;
+    deliveryState?: string | null;
+    mobileNumber?: string | null;
+    uploadedDesign?: {
+      frontImage?: { data?: string | null; filename?: string };
+      backImage?: { data?: string | null; filename?: string };
+    };
+  };
+  customerNotes?: string;
+  // difference > 0: customer pays more, < 0: refund due
+  pricing: { previousTotal: number; newTotal: number; difference: number };
+  rejectionReason?: string;
+  reviewedBy?: { _id: string; name: string } | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+}
+
+// What a change request asked for, one entry per change
+export const describeAmendmentChanges = (changes: Amendment['changes']): string[] => {
+  const descriptions: string[] = [];
+  if (changes.quantity) descriptions.push(`Quantity: ${changes.quantity.toLocaleString()}`);
+  if (changes.selectedDynamicAttributes) {
+    descriptions.push(
+      changes.selectedDynamicAttributes.map((attr) => `${attr.attributeName}: ${attr.label}`).join(', ') || 'Options cleared'
+    );
+  }
+  if (changes.address) descriptions.push(`Address: ${changes.address}`);
+  if (changes.pincode) descriptions.push(`Pincode: ${changes.pincode}`);
+  if (changes.deliveryState) descriptions.push(`State: ${getGstStateName(changes.deliveryState)}`);
+  if (changes.mobileNumber) descriptions.push(`Mobile: ${changes.mobileNumber}`);
+  if (changes.uploadedDesign?.frontImage) {
+    descriptions.push(`New design: ${changes.uploadedDesign.frontImage.filename || 'uploaded'}`);
+  }
+  return descriptions;
+};
@@ -0,0 +1,22 @@
+// Cancellation refunds are worked out on the server from the cancellation rules;
+// the customer sees the preview before confirming and the record afterwards.
+
+// GET /orders/:orderId/cancellation
+export interface CancellationPreview {
+  cancellable: boolean;
+  message?: string;
+  rule: { label: string; refundPercent: number } | null;
+  paidAmount: number;
+  refundAmount: number;
+  forfeitedAmount: number;
+}
+
+// Order.cancellation, set when the customer cancels
+export interface OrderCancellation {
+  rule: string;
+  refundPercent: number;
+  paidAmount: number;
+  refundAmount: number;
+  creditNoteNumber?: string | null;
+  cancelledAt: string;
+}
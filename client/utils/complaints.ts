@@ -0,0 +1,63 @@
+// Complaint reasons and resolutions come from the shared definitions so the
+// customer form, admin triage and reason report use the same codes.
+import {
+  COMPLAINT_REASON_LABELS as SHARED_COMPLAINT_REASON_LABELS,
+  COMPLAINT_RESOLUTION_LABELS as SHARED_COMPLAINT_RESOLUTION_LABELS,
+  MAX_COMPLAINT_PHOTOS as SHARED_MAX_COMPLAINT_PHOTOS,
+  COMPLAINT_PHOTO_TYPES as SHARED_COMPLAINT_PHOTO_TYPES,
+} from '../../shared/complaints.js';
+import { formatCurrency } from './pricing';
+
+export type ComplaintReason =
+  | 'misprint'
+  | 'colour_mismatch'
+  | 'cutting_error'
+  | 'print_quality'
+  | 'damaged_in_transit'
+  | 'wrong_quantity'
+  | 'other';
+
+export type ComplaintResolution = 'reprint' | 'partial_refund' | 'rejected';
+
+export const COMPLAINT_REASON_LABELS = SHARED_COMPLAINT_REASON_LABELS as Record<ComplaintReason, string>;
+export const COMPLAINT_RESOLUTION_LABELS = SHARED_COMPLAINT_RESOLUTION_LABELS as Record<ComplaintResolution, string>;
+export const MAX_COMPLAINT_PHOTOS = SHARED_MAX_COMPLAINT_PHOTOS as number;
+export const COMPLAINT_PHOTO_TYPES = SHARED_COMPLAINT_PHOTO_TYPES as string[];
+
+// Customer complaint about a delivered order
+export interface Complaint {
+  _id: string;
+  order?: { _id: string; orderNumber: string; status: string; totalPrice: number } | string;
+  user?: { _id: string; name: string; email: string } | string;
+  lineId?: string | null;
+  reason: ComplaintReason;
+  description: string;
+  affectedQuantity?: number | null;
+  // Data URLs (left out of the admin list)
+  photos: Array<{ _id: string; filename?: string; data?: string | null }>;
+  status: 'open' | 'resolved';
+  resolution?: ComplaintResolution | null;
+  resolutionNotes?: string;
+  reprintOrder?: { _id: string; orderNumber: string; status: string } | null;
+  reprintQuantity?: number | null;
+  refundAmount?: number | null;
+  creditNoteNumber?: string | null;
+  resolvedBy?: { _id: string; name: string } | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+}
+
+// What the customer is told about how their complaint was resolved
+export const describeComplaintOutcome = (
+  complaint: Pick<Complaint, 'status' | 'resolution' | 'reprintQuantity' | 'reprintOrder' | 'refundAmount' | 'creditNoteNumber'>
+): string => {
+  if (complaint.status === 'open') return 'We are looking into this';
+  switch (complaint.resolution) {
+    case 'reprint':
+      return `Reprint${complaint.reprintQuantity ? ` of ${complaint.reprintQuantity.toLocaleString()} units` : ''} as order ${complaint.reprintOrder?.orderNumber || ''}`.trim();
+    case 'partial_refund':
+      return `Refund of ${formatCurrency(complaint.refundAmount || 0)}${complaint.creditNoteNumber ? ` (credit note ${complaint.creditNoteNumber})` : ''}`;
+    default:
+      return 'Not accepted';
+  }
+};
@@ -0,0 +1,32 @@
+// Design files are streamed to the server's file store on their own; orders, cart lines and change requests
+// then refer to them as uploadedDesign.frontImage / backImage instead of carrying the image.
+import { API_BASE_URL_WITH_API as API_BASE_URL, getAuthHeaders } from '../lib/apiConfig';
+
+// File store reference returned by POST /files/designs
+export interface StoredDesignFile {
+  fileId: string;
+  storage: string;
+  contentType?: string;
+  filename?: string;
+  size?: number;
+}
+
+// Upload one design file (converted to CMYK by the server); needs a login
+export const uploadDesignFile = async (file: File): Promise<StoredDesignFile> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`${API_BASE_URL}/files/designs`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: formData,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.file) {
+    throw new Error(data.error || `Failed to upload ${file.name}`);
+  }
+  return data.file;
+};
+
+// Only the reference is sent with the order; the server looks the file up again
+export const toDesignReference = (file: StoredDesignFile) => ({ fileId: file.fileId, storage: file.storage });
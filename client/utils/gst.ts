@@ -0,0 +1,23 @@
+// States a delivery can go to, from the shared GST definitions, for PIN codes that don't decide the state on their own
+import {
+  GST_STATES as SHARED_GST_STATES,
+  pincodeNeedsDeliveryState as sharedPincodeNeedsDeliveryState,
+} from '../../shared/gst.js';
+
+export interface GstState {
+  code: string;
+  name: string;
+}
+
+// States and union territories by name
+export const GST_STATE_OPTIONS: GstState[] = Object.entries(SHARED_GST_STATES as Record<string, { name: string }>)
+  .map(([code, state]) => ({ code, name: state.name }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+// A full pincode shared between states - the customer picks the state of their shipping address
+export const pincodeNeedsDeliveryState = (pincode: string): boolean =>
+  sharedPincodeNeedsDeliveryState(pincode.trim()) as boolean;
+
+// Name of a GST state code, for showing a stored state
+export const getGstStateName = (code: string): string =>
+  GST_STATE_OPTIONS.find((state) => state.code === code)?.name || code;
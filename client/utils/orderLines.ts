@@ -0,0 +1,75 @@
+import { OrderCustomSize, OrderPriceList, OrderSubattribute, PricingMode } from './pricing';
+
+// One product of a multi-line (cart) order, as stored on Order.items
+export interface OrderLine {
+  _id: string;
+  product: {
+    _id: string;
+    name: string;
+    image?: string;
+    basePrice?: number;
+    gstPercentage?: number;
+  } | null;
+  quantity: number;
+  finish: string;
+  shape: string;
+  textureType?: string | null;
+  customSize?: OrderCustomSize | null;
+  selectedOptions?: Array<{
+    optionId?: string;
+    optionName: string;
+    priceAdd: number;
+    pricingMode?: PricingMode | string;
+  }>;
+  selectedDynamicAttributes?: Array<{
+    attributeTypeId?: string;
+    attributeName: string;
+    attributeValue?: any;
+    label: string;
+    subattribute?: OrderSubattribute | null;
+  }>;
+  priceList?: OrderPriceList | null;
+  // Total incl. GST after the line's share of the coupon (shipping is charged on the order)
+  lineTotal: number;
+  uploadedDesign?: {
+    frontImage?: { data: string | null; contentType?: string; filename?: string };
+    backImage?: { data: string | null; contentType?: string; filename?: string };
+  };
+  notes?: string;
+  departmentStatuses?: Array<{
+    department: { _id: string; name: string; sequence?: number } | string;
+    status: 'pending' | 'in_progress' | 'paused' | 'completed' | 'stopped';
+    startedAt?: string | null;
+    completedAt?: string | null;
+  }>;
+}
+
+export const isMultiLineOrder = (order: { items?: OrderLine[] | null }): boolean =>
+  Array.isArray(order.items) && order.items.length > 0;
+
+// Product name(s) for order lists, e.g. "Visiting Cards + 2 more"
+export const getOrderProductLabel = (order: {
+  items?: OrderLine[] | null;
+  product?: { name?: string } | null;
+}): string => {
+  if (!isMultiLineOrder(order)) return order.product?.name || 'Product';
+  const [first, ...rest] = order.items as OrderLine[];
+  const name = first.product?.name || 'Product';
+  return rest.length > 0 ? `${name} + ${rest.length} more` : name;
+};
+
+// Description of a line's selections, e.g. "Matte · Standard · Paper GSM: 350"
+export const describeOrderLine = (
+  line: Pick<OrderLine, 'finish' | 'shape' | 'textureType' | 'selectedOptions' | 'selectedDynamicAttributes'>
+): string =>
+  [
+    line.finish,
+    line.shape,
+    line.textureType,
+    ...(line.selectedDynamicAttributes || []).map((attr) =>
+      `${attr.attributeName}: ${attr.label}${attr.subattribute ? ` (${attr.subattribute.label})` : ''}`
+    ),
+    ...(line.selectedOptions || []).map((opt) => opt.optionName),
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,45 @@
+// Order status rules live in the shared state machine so the admin UI only
+// offers the changes the server will accept.
+import {
+  ORDER_STATUS_LABELS as SHARED_ORDER_STATUS_LABELS,
+  REASON_REQUIRED_STATUSES as SHARED_REASON_REQUIRED_STATUSES,
+  getNextOrderStatuses as getSharedNextOrderStatuses,
+} from '../../shared/orderStatus.js';
+
+export type OrderStatus =
+  | 'request'
+  | 'production_ready'
+  | 'approved'
+  | 'processing'
+  | 'completed'
+  | 'cancelled'
+  | 'rejected';
+
+export type OrderStatusRole = 'admin' | 'emp' | 'user';
+
+export interface OrderStatusHistoryEntry {
+  _id?: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor?: { _id: string; name?: string } | string | null;
+  actorRole?: OrderStatusRole | null;
+  reason?: string;
+  changedAt: string;
+}
+
+export const ORDER_STATUS_LABELS = SHARED_ORDER_STATUS_LABELS as Record<OrderStatus, string>;
+
+// Statuses a user with the given role can move an order to from its current status
+export const getNextOrderStatuses = (from: OrderStatus, role: OrderStatusRole): OrderStatus[] =>
+  getSharedNextOrderStatuses(from, role) as OrderStatus[];
+
+export const isReasonRequired = (status: OrderStatus): boolean =>
+  (SHARED_REASON_REQUIRED_STATUSES as string[]).includes(status);
+
+export const getStatusActorName = (entry: OrderStatusHistoryEntry): string => {
+  if (entry.actor && typeof entry.actor === 'object' && entry.actor.name) return entry.actor.name;
+  if (entry.actorRole === 'admin') return 'Admin';
+  if (entry.actorRole === 'emp') return 'Production';
+  if (entry.actorRole === 'user') return 'Customer';
+  return 'System';
+};
@@ -1,22 +1,239 @@
+// Price calculation lives in the shared pricing engine so the server
+// computes exactly the same numbers when quoting and creating orders.
+import {
+  calculateOrderBreakdown as calculateSharedBreakdown,
+  calculateCartBreakdown as calculateSharedCartBreakdown,
+  resolveSelectedOptions as resolveSharedOptions,
+  resolveDynamicAttributes as resolveSharedDynamicAttributes,
+  roundCurrency as roundSharedCurrency,
+  pricesMatch as sharedPricesMatch,
+  PRICING_MODES as SHARED_PRICING_MODES,
+  validateCustomSize as validateSharedCustomSize,
+} from '../../shared/pricing.js';
+
 // Format currency helper
 export const formatCurrency = (amount: number): string => {
   return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 };
 
+export type PricingMode = 'PER_UNIT' | 'PER_1000' | 'FLAT' | 'PERCENTAGE';
+
+export const PRICING_MODES = SHARED_PRICING_MODES as Record<PricingMode, PricingMode>;
+
+// Labels for the charge basis selector in admin forms
+export const PRICING_MODE_LABELS: Record<PricingMode, string> = {
+  PER_UNIT: 'Per unit',
+  PER_1000: 'Per 1000 units',
+  FLAT: 'Flat per order',
+  PERCENTAGE: '% of base price',
+};
+
 // Order breakdown calculation
+export interface OptionBreakdown {
+  name: string;
+  priceAdd: number;
+  cost: number;
+  isPerUnit: boolean;
+  pricingMode?: PricingMode;
+}
+
+// Short explanation of how a breakdown line was charged, e.g. "(500 × ₹2.00)"
+export const describeCharge = (opt: OptionBreakdown, quantity: number): string => {
+  switch (opt.pricingMode) {
+    case 'FLAT':
+      return '(flat per order)';
+    case 'PER_1000':
+      return `(${quantity} units @ ${formatCurrency(opt.priceAdd)}/1000)`;
+    case 'PERCENTAGE':
+      return `(${opt.priceAdd}% of base × ${quantity})`;
+    case 'PER_UNIT':
+      return `(${quantity} × ${formatCurrency(opt.priceAdd)})`;
+    default:
+      return opt.isPerUnit ? `(${quantity} × ${formatCurrency(opt.priceAdd)})` : '';
+  }
+};
+
+// GST split by place of supply (same state: CGST + SGST/UTGST, other state: IGST)
+export interface GstSplit {
+  sellerStateCode: string;
+  placeOfSupplyCode: string;
+  placeOfSupply: string;
+  isInterState: boolean;
+  stateTaxLabel: 'SGST' | 'UTGST' | string | null;
+  // Rates are null on cart orders whose lines are taxed at different GST rates
+  cgstRate: number | null;
+  cgstAmount: number;
+  sgstRate: number | null;
+  sgstAmount: number;
+  igstRate: number | null;
+  igstAmount: number;
+}
+
 export interface OrderBreakdown {
+  quantity: number;
+  basePrice: number;
+  adjustedBasePrice: number;
+  rangeWiseMultiplier: number;
   rawBaseTotal: number;
   discountedBaseTotal: number;
   discountPercentage: number;
-  optionBreakdowns: Array<{
-    name: string;
-    priceAdd: number;
-    cost: number;
-    isPerUnit: boolean;
-  }>;
+  discountMultiplier: number;
+  optionBreakdowns: OptionBreakdown[];
+  subtotalBeforeGst: number;
+  subtotalAfterDiscount: number;
   subtotal: number;
+  discountAmount: number;
+  priceListName: string | null;
+  customSize: OrderCustomSize | null;
+  couponCode: string | null;
+  couponDiscount: number;
+  subtotalAfterCoupon: number;
+  designCharge: number;
+  subtotalWithDesignCharge: number;
+  deliveryZoneName: string | null;
+  shippingWeightKg: number;
+  shippingCharge: number;
+  freeShippingApplied: boolean;
+  minOrderValue: number;
+  taxableAmount: number;
+  gstPercentage: number;
   gstAmount: number;
+  gstSplit: GstSplit | null;
   finalTotal: number;
+  perUnitPrice: number;
+}
+
+// Price hint shown next to a selectable option or attribute value, e.g. "+₹20.00 per 1000 units"
+export const formatChargeHint = (
+  priceAdd: number,
+  pricingMode: PricingMode | string | null | undefined,
+  basePrice: number
+): string | null => {
+  const amount = Number(priceAdd) || 0;
+  if (amount === 0) return null;
+  const sign = amount > 0 ? '+' : '-';
+  const abs = Math.abs(amount).toFixed(2);
+  switch (pricingMode) {
+    case 'FLAT':
+      return `${sign}₹${abs} per order`;
+    case 'PER_1000':
+      return `${sign}₹${abs} per 1000 units`;
+    case 'PERCENTAGE':
+      return `${sign}₹${Math.abs(((Number(basePrice) || 0) * amount) / 100).toFixed(2)}/unit`;
+    default:
+      return `${sign}₹${abs}/unit`;
+  }
+};
+
+// Coupon details needed to price an order (returned by POST /quotes, stored on the order)
+export interface CouponForCalculation {
+  code: string;
+  discountType: 'PERCENT' | 'FLAT';
+  discountValue: number;
+  maxDiscountAmount?: number | null;
+  minOrderValue?: number;
+  description?: string;
+}
+
+// Coupon snapshot stored on an order
+export interface OrderCoupon {
+  couponId?: string | null;
+  code: string | null;
+  discountType: 'PERCENT' | 'FLAT' | null;
+  discountValue: number | null;
+  maxDiscountAmount?: number | null;
+  discountAmount?: number;
+}
+
+// Re-price an order's coupon exactly as it was applied (the minimum order value was checked when ordering)
+export const orderCouponForCalculation = (coupon?: OrderCoupon | null): CouponForCalculation | null => {
+  if (!coupon || !coupon.code || !coupon.discountType) return null;
+  return {
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue || 0,
+    maxDiscountAmount: coupon.maxDiscountAmount ?? null,
+  };
+};
+
+// Contract price list overrides for one product (as returned by the server and stored on orders)
+export interface OrderPriceList {
+  priceListId?: string;
+  name: string;
+  basePrice?: number | null;
+  rangeWiseQuantities?: Array<{ min: number; max?: number | null; priceMultiplier: number }>;
+  attributeValuePrices?: Array<{
+    attributeTypeId: string;
+    attributeValue: string;
+    priceAdd: number;
+    pricingMode: PricingMode | string;
+  }>;
+}
+
+// Shipping rates of the delivery zone covering a pincode (as returned by the server and stored on orders)
+export interface OrderDeliveryZone {
+  zoneId?: string;
+  name: string;
+  flatRate: number;
+  ratePerKg: number;
+  freeShippingThreshold: number;
+  minOrderValue: number;
+}
+
+// Custom width x height settings of a product ("Custom" card shape, priced by area)
+export type CustomSizeUnit = 'INCH' | 'MM';
+
+export interface CustomSizeSettings {
+  enabled: boolean;
+  unit?: CustomSizeUnit;
+  minWidth?: number | null;
+  maxWidth?: number | null;
+  minHeight?: number | null;
+  maxHeight?: number | null;
+  areaRates?: Array<{ minQuantity: number; maxQuantity?: number | null; ratePerUnitArea: number }>;
+  wastageRules?: Array<{ minArea: number; maxArea?: number | null; wastagePercentage: number }>;
+}
+
+// Custom size an order was priced with (stored on Order.customSize)
+export interface OrderCustomSize {
+  width: number;
+  height: number;
+  unit: CustomSizeUnit | string;
+  area: number;
+  ratePerUnitArea: number;
+  pricePerPiece: number;
+  wastagePercentage: number;
+}
+
+export const CUSTOM_SIZE_UNIT_LABELS: Record<CustomSizeUnit, { length: string; area: string }> = {
+  INCH: { length: 'in', area: 'sq in' },
+  MM: { length: 'mm', area: 'mm²' },
+};
+
+// e.g. "3.5 × 2 in"
+export const formatCustomSize = (size: { width: number; height: number; unit?: CustomSizeUnit | string }): string => {
+  const unit = CUSTOM_SIZE_UNIT_LABELS[(size.unit as CustomSizeUnit) || 'INCH'] || CUSTOM_SIZE_UNIT_LABELS.INCH;
+  return `${size.width} × ${size.height} ${unit.length}`;
+};
+
+// Error message for a custom size outside the product's limits (null when it can be priced)
+export const validateCustomSize = (
+  settings: CustomSizeSettings | null | undefined,
+  customSize: { width: number | string; height: number | string },
+  quantity?: number
+): string | null => {
+  return validateSharedCustomSize(settings, customSize, quantity);
+};
+
+// Subattribute picked under an attribute value (stored on Order.selectedDynamicAttributes[].subattribute)
+export interface OrderSubattribute {
+  value: string;
+  label: string;
+  priceMultiplier?: number | null;
+  priceAdd?: number;
+  pricingMode?: PricingMode | string | null;
+  description?: string | null;
+  image?: string | null;
 }
 
 export interface OrderForCalculation {
@@ -24,7 +241,10 @@ export interface OrderForCalculation {
   product: {
     basePrice: number;
     gstPercentage?: number;
-    options?: Array<{ name: string; priceAdd: number }>;
+    additionalDesignCharge?: number;
+    shippingWeightPer1000?: number;
+    customSize?: CustomSizeSettings | null;
+    options?: Array<{ name: string; priceAdd: number; pricingMode?: PricingMode | string }>;
     filters?: {
       filterPricesEnabled?: boolean;
       printingOptionPrices?: Array<{ name: string; priceAdd: number }>;
@@ -48,209 +268,331 @@ export interface OrderForCalculation {
   };
   finish?: string;
   shape?: string;
+  textureType?: string;
   selectedOptions?: Array<{
     name?: string;
     optionName?: string;
     priceAdd: number;
+    pricingMode?: PricingMode | string;
   } | string>;
   selectedDynamicAttributes?: Array<{
+    attributeTypeId?: string;
+    attributeValue?: any;
     attributeName: string;
     label: string;
     priceMultiplier?: number;
     priceAdd?: number;
+    pricingMode?: PricingMode | string | null;
+    subattribute?: OrderSubattribute | null;
   }>;
+  coupon?: CouponForCalculation | null;
+  priceList?: OrderPriceList | null;
+  deliveryZone?: OrderDeliveryZone | null;
+  customSize?: { width: number; height: number } | null;
+  pincode?: string;
+  // State of the delivery address, for pincodes shared between states
+  deliveryState?: string | null;
+  sellerStateCode?: string | null;
 }
 
 export const calculateOrderBreakdown = (order: OrderForCalculation): OrderBreakdown => {
-  const originalBasePrice = order.product.basePrice || 0;
-  const quantity = order.quantity || 0;
-  const gstPercentage = order.product.gstPercentage || 18;
-
-  // Step 1: Apply range-wise price multiplier if applicable
-  let rangeWiseMultiplier = 1.0;
-  if (order.product.filters?.orderQuantity?.quantityType === "RANGE_WISE" && 
-      order.product.filters.orderQuantity.rangeWiseQuantities && 
-      order.product.filters.orderQuantity.rangeWiseQuantities.length > 0) {
-    const applicableRange = order.product.filters.orderQuantity.rangeWiseQuantities.find((range) => {
-      return quantity >= range.min && (range.max === null || range.max === undefined || quantity <= range.max);
-    });
-    if (applicableRange) {
-      rangeWiseMultiplier = applicableRange.priceMultiplier || 1.0;
-    }
+  return calculateSharedBreakdown(order) as OrderBreakdown;
+};
+
+// Pricing stored on an order when it was placed (inputs + breakdown)
+export interface PricingSnapshot {
+  capturedAt: string;
+  productPriceVersion: number | null;
+  inputs: OrderForCalculation;
+  breakdown: OrderBreakdown;
+}
+
+// Breakdown for an existing order: the snapshot taken when it was placed, or a re-calculation
+// from current product data for older orders that have no snapshot
+export const getOrderBreakdown = (
+  snapshot: PricingSnapshot | null | undefined,
+  fallback: OrderForCalculation
+): OrderBreakdown => {
+  if (snapshot?.breakdown) return snapshot.breakdown;
+  return calculateOrderBreakdown(fallback);
+};
+
+// Per-unit base price an order was charged (contract price included)
+export const getOrderBasePrice = (order: {
+  pricingSnapshot?: PricingSnapshot | CartPricingSnapshot | null;
+  product?: { basePrice?: number } | null;
+}): number => {
+  const breakdown = order.pricingSnapshot?.breakdown;
+  if (breakdown && 'basePrice' in breakdown) return breakdown.basePrice;
+  return order.product?.basePrice || 0;
+};
+
+// Tax lines to show under the subtotal, e.g. "CGST (9%)" + "SGST (9%)" or "IGST (18%)"
+// Falls back to a single GST line when the place of supply isn't known. The rate is left out
+// when a cart's lines are taxed at different rates.
+export const getGstLines = (
+  breakdown: Pick<OrderBreakdown | CartBreakdown, 'gstPercentage' | 'gstAmount' | 'gstSplit'>
+): Array<{ label: string; amount: number }> => {
+  const withRate = (label: string, rate: number | null) => (rate === null ? label : `${label} (${rate}%)`);
+  const split = breakdown.gstSplit;
+  if (!split) {
+    return [{ label: withRate('GST', breakdown.gstPercentage), amount: breakdown.gstAmount }];
   }
-  
-  // Apply range-wise multiplier to base price
-  const adjustedBasePrice = originalBasePrice * rangeWiseMultiplier;
-  
-  // Step 1: Base Price = quantity * adjusted base price
-  const rawBaseTotal = adjustedBasePrice * quantity;
-
-  // Step 2: Calculate all option prices and charges
-  const optionBreakdowns: Array<{
-    name: string;
-    priceAdd: number;
-    cost: number;
-    isPerUnit: boolean;
-  }> = [];
-
-  // Add selected product options (checkboxes)
-  if (order.selectedOptions && order.selectedOptions.length > 0) {
-    order.selectedOptions.forEach((opt) => {
-      if (typeof opt === 'string') return;
-      
-      const name = opt.name || opt.optionName || 'Option';
-      const priceAdd = opt.priceAdd || 0;
-      const isPerUnit = priceAdd < 10; // If price is less than 10, assume per unit
-      const cost = isPerUnit ? priceAdd * quantity : priceAdd;
-
-      optionBreakdowns.push({
-        name,
-        priceAdd,
-        cost,
-        isPerUnit,
-      });
-    });
+  if (split.isInterState) {
+    return [{ label: withRate('IGST', split.igstRate), amount: split.igstAmount }];
   }
+  return [
+    { label: withRate('CGST', split.cgstRate), amount: split.cgstAmount },
+    { label: withRate(split.stateTaxLabel || 'SGST', split.sgstRate), amount: split.sgstAmount },
+  ];
+};
 
-  // Add finish/printing option if applicable
-  if (order.finish && order.product.filters?.filterPricesEnabled) {
-    const printingOption = order.product.filters.printingOptionPrices?.find(
-      (p) => p.name === order.finish
-    );
-    if (printingOption && printingOption.priceAdd !== 0) {
-      const cost = (printingOption.priceAdd / 1000) * quantity;
-      optionBreakdowns.push({
-        name: `Printing: ${order.finish}`,
-        priceAdd: printingOption.priceAdd / 1000,
-        cost,
-        isPerUnit: true,
-      });
-    }
-  }
+// One line of a cart order: priced on its own, with its share of the coupon and its own GST
+export interface CartLineBreakdown {
+  breakdown: OrderBreakdown;
+  couponDiscount: number;
+  taxableAmount: number;
+  gstPercentage: number;
+  gstAmount: number;
+  lineTotal: number;
+}
 
-  // Add delivery speed if applicable
-  if (order.shape && order.product.filters?.filterPricesEnabled) {
-    const deliverySpeedOption = order.product.filters.deliverySpeedPrices?.find(
-      (p) => p.name === order.shape
-    );
-    if (deliverySpeedOption && deliverySpeedOption.priceAdd !== 0) {
-      const cost = (deliverySpeedOption.priceAdd / 1000) * quantity;
-      optionBreakdowns.push({
-        name: `Delivery: ${order.shape}`,
-        priceAdd: deliverySpeedOption.priceAdd / 1000,
-        cost,
-        isPerUnit: true,
-      });
-    }
-  }
+// Breakdown of a multi-line (cart) order - coupon, shipping and GST apply to the order as a whole
+export interface CartBreakdown {
+  lines: CartLineBreakdown[];
+  subtotal: number;
+  subtotalAfterDiscount: number;
+  discountAmount: number;
+  couponCode: string | null;
+  couponDiscount: number;
+  subtotalAfterCoupon: number;
+  designCharge: number;
+  subtotalWithDesignCharge: number;
+  deliveryZoneName: string | null;
+  shippingWeightKg: number;
+  shippingCharge: number;
+  freeShippingApplied: boolean;
+  minOrderValue: number;
+  shippingGstPercentage: number;
+  taxableAmount: number;
+  gstPercentage: number | null;
+  gstAmount: number;
+  gstSplit: GstSplit | null;
+  finalTotal: number;
+}
 
-  // Add dynamic attributes (both multipliers and priceAdd)
-  if (order.selectedDynamicAttributes && order.selectedDynamicAttributes.length > 0) {
-    order.selectedDynamicAttributes.forEach((attr) => {
-      if (attr.priceMultiplier && attr.priceMultiplier !== 1) {
-        // Calculate the price impact from multiplier as per-unit price
-        const multiplierImpact = attr.priceMultiplier - 1;
-        const pricePerUnit = originalBasePrice * multiplierImpact;
-        const cost = pricePerUnit * quantity;
-        
-        optionBreakdowns.push({
-          name: `${attr.attributeName}: ${attr.label}`,
-          priceAdd: pricePerUnit, // Show as per-unit price instead of multiplier
-          cost,
-          isPerUnit: true, // Mark as per-unit for consistent display
-        });
-      } else if (attr.priceAdd && attr.priceAdd > 0) {
-        // Handle priceAdd for dynamic attributes
-        const cost = attr.priceAdd * quantity;
-        optionBreakdowns.push({
-          name: `${attr.attributeName}: ${attr.label}`,
-          priceAdd: attr.priceAdd,
-          cost,
-          isPerUnit: true,
-        });
-      }
-    });
-  }
+export interface CartForCalculation {
+  lines: Array<Omit<OrderForCalculation, 'coupon' | 'deliveryZone' | 'pincode' | 'deliveryState' | 'sellerStateCode'> & {
+    couponEligible?: boolean;
+  }>;
+  coupon?: CouponForCalculation | null;
+  deliveryZone?: OrderDeliveryZone | null;
+  pincode?: string;
+  deliveryState?: string | null;
+  sellerStateCode?: string | null;
+}
+
+export const calculateCartBreakdown = (cart: CartForCalculation): CartBreakdown => {
+  return calculateSharedCartBreakdown(cart) as CartBreakdown;
+};
+
+// Pricing stored on a cart order when it was placed
+export interface CartPricingSnapshot {
+  capturedAt: string;
+  inputs: CartForCalculation;
+  breakdown: CartBreakdown;
+}
+
+export const roundCurrency = (amount: number): number => roundSharedCurrency(amount);
+
+export const pricesMatch = (a: number, b: number): boolean => sharedPricesMatch(a, b);
+
+export interface ResolvedOption {
+  optionId: string;
+  optionName: string;
+  name: string;
+  priceAdd: number;
+  pricingMode: PricingMode;
+  description: string | null;
+  image: string | null;
+}
+
+export interface ResolvedDynamicAttribute {
+  attributeTypeId: string;
+  attributeName: string;
+  attributeValue: any;
+  label: string;
+  priceMultiplier: number | null;
+  priceAdd: number;
+  pricingMode: PricingMode | null;
+  description: string | null;
+  image: string | null;
+  subattribute?: OrderSubattribute | null;
+}
+
+// Resolve selected option names/refs against the product's options (prices come from the product)
+export const resolveSelectedOptions = (
+  product: { options?: any[] },
+  selectedOptions: Array<string | { optionId?: string; optionName?: string; name?: string }>
+): { options: ResolvedOption[]; unknown: string[] } => {
+  return resolveSharedOptions(product, selectedOptions);
+};
+
+// Resolve selected dynamic attribute values ({ [attributeTypeId]: value } or array form) against the product
+export const resolveDynamicAttributes = (
+  product: { dynamicAttributes?: any[] },
+  selectedDynamicAttributes: Record<string, any> | any[]
+): ResolvedDynamicAttribute[] => {
+  return resolveSharedDynamicAttributes(product, selectedDynamicAttributes);
+};
+
+// Product as the pricing simulator needs it: the engine's product plus the orderable quantities
+// and populated dynamicAttributes (attributeType objects with their values)
+export type SimulatorProduct = OrderForCalculation['product'] & {
+  filters?: OrderForCalculation['product']['filters'] & {
+    orderQuantity?: {
+      min?: number;
+      max?: number;
+      multiples?: number;
+      stepWiseQuantities?: number[];
+    };
+  };
+  dynamicAttributes?: any[];
+};
+
+export interface SimulatorCombination {
+  label: string;
+  selectedDynamicAttributes: ResolvedDynamicAttribute[];
+}
+
+export interface SimulatorCell {
+  quantity: number;
+  total: number;
+  perUnit: number;
+  // Costs less than the previous (smaller) quantity of the same combination
+  priceDrop: boolean;
+}
+
+export interface SimulatorColumn {
+  combination: SimulatorCombination;
+  cells: SimulatorCell[];
+}
+
+const MAX_SIMULATOR_QUANTITIES = 24;
 
-  // Step 3: Calculate subtotal (base + all options/charges) BEFORE discount
-  const optionsTotal = optionBreakdowns.reduce((sum, opt) => sum + opt.cost, 0);
-  const subtotalBeforeDiscount = rawBaseTotal + optionsTotal;
-
-  // Step 4: Apply discount to subtotal (discount applied to subtotal before GST)
-  let discountPercentage = 0;
-  let discountMultiplier = 1.0;
-  let discountedBaseTotal = rawBaseTotal; // For backward compatibility
-
-  // Use product quantityDiscounts if available (matches order creation logic)
-  if (order.product.quantityDiscounts && Array.isArray(order.product.quantityDiscounts) && order.product.quantityDiscounts.length > 0) {
-    // Find the applicable discount tier for the selected quantity
-    const applicableDiscount = order.product.quantityDiscounts.find((discount) => {
-      const minQty = discount.minQuantity || 0;
-      const maxQty = discount.maxQuantity;
-      return quantity >= minQty && (maxQty === null || maxQty === undefined || quantity <= maxQty);
+// Quantities worth simulating: the orderable quantities, or around the discount and range
+// boundaries when there are too many of them
+export const getSimulatorQuantities = (product: SimulatorProduct): number[] => {
+  const orderQuantity = product.filters?.orderQuantity;
+  const ranges = orderQuantity?.rangeWiseQuantities || [];
+  const quantities = new Set<number>();
+  const boundaries = [
+    ...(product.quantityDiscounts || []).map((d) => d.minQuantity),
+    ...ranges.map((r) => r.min),
+  ].filter((b) => b > 0);
+
+  if (orderQuantity?.quantityType === 'STEP_WISE' && orderQuantity.stepWiseQuantities?.length) {
+    orderQuantity.stepWiseQuantities.forEach((q) => quantities.add(q));
+  } else if (orderQuantity?.quantityType === 'RANGE_WISE' && ranges.length > 0) {
+    ranges.forEach((r) => {
+      quantities.add(r.min);
+      if (r.max) quantities.add(r.max);
+    });
+    boundaries.forEach((b) => {
+      quantities.add(b);
+      quantities.add(b - 1);
     });
-    
-    if (applicableDiscount) {
-      // Use priceMultiplier if available, otherwise calculate from discountPercentage
-      if (applicableDiscount.priceMultiplier) {
-        discountMultiplier = applicableDiscount.priceMultiplier;
-      } else if (applicableDiscount.discountPercentage) {
-        discountMultiplier = (100 - applicableDiscount.discountPercentage) / 100;
-      }
-      discountPercentage = applicableDiscount.discountPercentage || 0;
-      discountedBaseTotal = rawBaseTotal * discountMultiplier;
-    }
   } else {
-    // Fallback to hardcoded discount logic (for backward compatibility)
-    if (quantity >= 10000) {
-      discountPercentage = 70;
-      discountMultiplier = 0.3; // Keep 30% of the price
-      discountedBaseTotal = rawBaseTotal * 0.3;
-    } else if (quantity >= 1000) {
-      discountPercentage = 50;
-      discountMultiplier = 0.5; // Keep 50% of the price
-      discountedBaseTotal = rawBaseTotal * 0.5;
-    } else if (quantity >= 500) {
-      discountPercentage = 10;
-      discountMultiplier = 0.9; // Keep 90% of the price
-      discountedBaseTotal = rawBaseTotal * 0.9;
+    const min = orderQuantity?.min || 1000;
+    const max = orderQuantity?.max || min * 10;
+    const step = orderQuantity?.multiples || 1000;
+    const count = Math.floor((max - min) / step) + 1;
+    if (count <= MAX_SIMULATOR_QUANTITIES) {
+      for (let q = min; q <= max; q += step) quantities.add(q);
+    } else {
+      // Evenly spaced orderable quantities, plus both sides of every boundary
+      const stride = Math.ceil(count / 10);
+      for (let i = 0; i < count; i += stride) quantities.add(min + i * step);
+      quantities.add(max);
+      boundaries
+        .filter((b) => b > min && b <= max)
+        .forEach((b) => {
+          const below = min + Math.floor((b - 1 - min) / step) * step;
+          quantities.add(below);
+          quantities.add(below + step);
+        });
     }
   }
 
-  // Apply discount to subtotal
-  const subtotalAfterDiscount = subtotalBeforeDiscount * discountMultiplier;
-  const discountAmount = subtotalBeforeDiscount - subtotalAfterDiscount;
-
-  // Step 5: Calculate GST on discounted subtotal
-  const gstAmount = (subtotalAfterDiscount * gstPercentage) / 100;
-
-  // Step 6: Calculate total before design charge
-  const totalBeforeDesignCharge = subtotalAfterDiscount + gstAmount;
+  return Array.from(quantities)
+    .filter((q) => q > 0)
+    .sort((a, b) => a - b);
+};
 
-  // Step 7: Final total (subtotal after discount + GST)
-  const finalTotal = subtotalAfterDiscount + gstAmount;
+// Combinations of the attribute values that change the price (one value per priced attribute)
+export const getPricedAttributeCombinations = (
+  product: SimulatorProduct,
+  limit = 30
+): { combinations: SimulatorCombination[]; truncated: boolean } => {
+  const pricedAttributes: ResolvedDynamicAttribute[][] = [];
+  (product.dynamicAttributes || []).forEach((productAttr) => {
+    const attrType = productAttr.attributeType;
+    if (productAttr.isEnabled === false || !attrType || typeof attrType !== 'object') return;
+    const values: any[] = productAttr.customValues?.length ? productAttr.customValues : attrType.attributeValues || [];
+    const resolved = values
+      .map((v) => resolveDynamicAttributes(product, [{ attributeTypeId: attrType._id, attributeValue: v.value }])[0])
+      .filter(Boolean);
+    const changesPrice = resolved.some(
+      (attr) => attr.priceAdd !== 0 || (attr.priceMultiplier !== null && attr.priceMultiplier !== 1)
+    );
+    if (changesPrice) pricedAttributes.push(resolved);
+  });
 
-  // For backward compatibility, calculate subtotal after discount
-  const subtotal = discountedBaseTotal + optionsTotal;
+  let combinations: ResolvedDynamicAttribute[][] = [[]];
+  let truncated = false;
+  for (const values of pricedAttributes) {
+    const next: ResolvedDynamicAttribute[][] = [];
+    for (const combination of combinations) {
+      for (const value of values) {
+        if (next.length >= limit) {
+          truncated = true;
+          break;
+        }
+        next.push([...combination, value]);
+      }
+    }
+    combinations = next;
+  }
 
   return {
-    rawBaseTotal,
-    discountedBaseTotal,
-    discountPercentage,
-    optionBreakdowns,
-    subtotal: subtotalAfterDiscount, // Use discounted subtotal
-    gstAmount,
-    finalTotal,
-    // New fields for the new calculation order
-    subtotalBeforeGst: subtotalBeforeDiscount,
-    subtotalAfterDiscount,
-    totalBeforeDiscount: totalBeforeDesignCharge,
-    discountAmount,
-  } as OrderBreakdown & {
-    subtotalBeforeGst: number;
-    subtotalAfterDiscount: number;
-    totalBeforeDiscount: number;
-    discountAmount: number;
+    combinations: combinations.map((attrs) => ({
+      label: attrs.length > 0 ? attrs.map((a) => `${a.attributeName}: ${a.label}`).join(' • ') : 'Base product',
+      selectedDynamicAttributes: attrs,
+    })),
+    truncated,
   };
 };
 
+// Customer price (GST included, no coupon or shipping) of every quantity for every combination.
+// Quantities must be in ascending order so price drops can be flagged.
+export const buildPricingMatrix = (
+  product: SimulatorProduct,
+  quantities: number[],
+  combinations: SimulatorCombination[]
+): SimulatorColumn[] => {
+  return combinations.map((combination) => {
+    let previousTotal: number | null = null;
+    const cells = quantities.map((quantity) => {
+      const breakdown = calculateOrderBreakdown({
+        product,
+        quantity,
+        selectedDynamicAttributes: combination.selectedDynamicAttributes,
+      });
+      const total = roundCurrency(breakdown.finalTotal);
+      const priceDrop = previousTotal !== null && total < previousTotal && !pricesMatch(total, previousTotal);
+      previousTotal = total;
+      return { quantity, total, perUnit: total / quantity, priceDrop };
+    });
+    return { combination, cells };
+  });
+};
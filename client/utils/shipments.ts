@@ -0,0 +1,34 @@
+// Consignments an order goes out in (Order.shipments)
+export type ShipmentStatus = 'dispatched' | 'in_transit' | 'out_for_delivery' | 'delivered';
+
+export interface Shipment {
+  _id: string;
+  // Line item of a cart order (null for single-product orders)
+  lineId: string | null;
+  quantity: number;
+  numberOfBoxes: number;
+  weightKg?: number | null;
+  courierPartner?: string | null;
+  trackingId?: string | null;
+  trackingUrl?: string | null;
+  status: ShipmentStatus;
+  dispatchedAt: string;
+  deliveredAt?: string | null;
+  notes?: string;
+}
+
+// Ordered, shipped and delivered units of one order line
+export interface ShipmentQuantity {
+  lineId: string | null;
+  productName: string | null;
+  quantity: number;
+  shipped: number;
+  delivered: number;
+}
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  dispatched: 'Dispatched',
+  in_transit: 'In Transit',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+};
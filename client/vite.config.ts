@@ -33,6 +33,10 @@ export default defineConfig({
   },
   server: {
     port: 3000,
+    fs: {
+      // Allow importing the shared pricing engine from ../shared
+      allow: ['.', '../shared'],
+    },
     proxy: {
       '/api': {
         // Proxy API requests to ngrok server
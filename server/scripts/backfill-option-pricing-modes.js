@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Product from '../src/models/productModal.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables from server directory
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+// Options saved before charge bases existed were priced per unit when priceAdd < 10, otherwise once per order.
+// This script writes that basis onto each option so prices stay the same but are now explicit.
+const backfillOptionPricingModes = async () => {
+    try {
+        // Connect to MongoDB
+        await mongoose.connect(process.env.MONGO_URI);
+        console.log('✅ Connected to MongoDB');
+
+        const products = await Product.find({
+            options: { $elemMatch: { pricingMode: { $exists: false } } }
+        });
+
+        console.log(`\n📦 Found ${products.length} products with options missing a charge basis`);
+
+        if (products.length === 0) {
+            console.log('✅ All product options already have a charge basis');
+            process.exit(0);
+        }
+
+        let updatedCount = 0;
+
+        for (const product of products) {
+            product.options.forEach((option) => {
+                if (option.pricingMode) return;
+                option.pricingMode = (option.priceAdd || 0) < 10 ? 'PER_UNIT' : 'FLAT';
+                console.log(`  ✏️  ${product.name} → ${option.name}: ${option.pricingMode}`);
+            });
+
+            await product.save();
+            updatedCount++;
+        }
+
+        console.log(`\n✅ Successfully updated ${updatedCount} products`);
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error backfilling option charge bases:', error);
+        process.exit(1);
+    }
+};
+
+backfillOptionPricingModes();
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Order from '../src/models/orderModal.js';
+import Cart from '../src/models/cartModal.js';
+import AmendmentRequest from '../src/models/amendmentRequestModal.js';
+import Design from '../src/models/uploadModal.js';
+import { saveFile } from '../src/utils/fileStore.js';
+import { getFileStoreConfig } from '../src/config/fileStore.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables from server directory
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+// Design images used to keep their bytes inside the documents (capped by MongoDB's 16MB document limit).
+// This script moves every such image to the file store (FILE_STORE) and leaves a file reference in its place.
+// It is safe to run again: only images that still have bytes on the document are moved.
+// Pass --dry-run to only count what would be moved.
+const dryRun = process.argv.includes('--dry-run');
+
+const SIDES = ['frontImage', 'backImage'];
+
+// Images on a document that still hold their bytes: { path, arrayFilters, image }
+const designImages = (design, basePath, arrayFilters = []) =>
+    SIDES.filter((side) => design?.[side]?.data)
+        .map((side) => ({ path: `${basePath}${side}`, arrayFilters, image: design[side] }));
+
+// Documents to migrate: the query finding them, the images of one and who owns it
+const TARGETS = [
+    {
+        name: 'orders',
+        model: Order,
+        paths: ['uploadedDesign', 'items.uploadedDesign'],
+        images: (order) => [
+            ...designImages(order.uploadedDesign, 'uploadedDesign.'),
+            ...(order.items || []).flatMap((line) =>
+                designImages(line.uploadedDesign, 'items.$[line].uploadedDesign.', [{ 'line._id': line._id }])
+            ),
+        ],
+        owner: (order) => order.user,
+    },
+    {
+        name: 'cart items',
+        model: Cart,
+        paths: ['items.uploadedDesign'],
+        images: (cart) => (cart.items || []).flatMap((item) =>
+            designImages(item.uploadedDesign, 'items.$[item].uploadedDesign.', [{ 'item._id': item._id }])
+        ),
+        owner: (cart) => cart.user,
+    },
+    {
+        name: 'change requests',
+        model: AmendmentRequest,
+        paths: ['changes.uploadedDesign'],
+        images: (amendment) => designImages(amendment.changes?.uploadedDesign, 'changes.uploadedDesign.'),
+        owner: (amendment) => amendment.user,
+    },
+    {
+        name: 'uploaded designs',
+        model: Design,
+        paths: [''],
+        images: (design) => designImages(design, ''),
+        owner: (design) => design.user,
+    },
+];
+
+const toBuffer = (data) => (Buffer.isBuffer(data) ? data : Buffer.from(data.buffer || data));
+
+const migrateTarget = async ({ name, model, paths, images, owner }) => {
+    const query = {
+        $or: paths.flatMap((basePath) =>
+            SIDES.map((side) => ({ [`${basePath ? `${basePath}.` : ''}${side}.data`]: { $exists: true, $ne: null } }))
+        ),
+    };
+    const total = await model.countDocuments(query);
+    console.log(`\n📦 Found ${total} ${name} with design images to move`);
+
+    let movedImages = 0;
+    let movedBytes = 0;
+    let failed = 0;
+
+    // One document at a time, so only its images are in memory
+    const cursor = model.find(query).lean().cursor();
+    for await (const doc of cursor) {
+        for (const { path: imagePath, arrayFilters, image } of images(doc)) {
+            const buffer = toBuffer(image.data);
+            if (dryRun) {
+                movedImages++;
+                movedBytes += buffer.length;
+                continue;
+            }
+            try {
+                const file = await saveFile(buffer, {
+                    filename: image.filename || `${imagePath.split('.').pop()}.jpg`,
+                    contentType: image.contentType || 'image/jpeg',
+                    owner: owner(doc),
+                });
+                await model.updateOne(
+                    { _id: doc._id },
+                    {
+                        $set: {
+                            [`${imagePath}.fileId`]: file.fileId,
+                            [`${imagePath}.storage`]: file.storage,
+                            [`${imagePath}.size`]: file.size,
+                        },
+                        $unset: { [`${imagePath}.data`]: '' },
+                    },
+                    // Moving the bytes isn't a change to the document
+                    { timestamps: false, ...(arrayFilters.length > 0 ? { arrayFilters } : {}) }
+                );
+                movedImages++;
+                movedBytes += buffer.length;
+            } catch (error) {
+                failed++;
+                console.error(`  ❌ ${name} ${doc._id} ${imagePath}:`, error.message);
+            }
+        }
+    }
+
+    const megabytes = (movedBytes / (1024 * 1024)).toFixed(1);
+    console.log(`  ${dryRun ? '🔍 Would move' : '✅ Moved'} ${movedImages} images (${megabytes} MB)${failed ? `, ${failed} failed` : ''}`);
+    return failed;
+};
+
+const migrateDesignFiles = async () => {
+    try {
+        // Connect to MongoDB
+        await mongoose.connect(process.env.MONGO_URI);
+        console.log('✅ Connected to MongoDB');
+        console.log(`🗄️  File store: ${getFileStoreConfig().driver}${dryRun ? ' (dry run)' : ''}`);
+
+        let failed = 0;
+        for (const target of TARGETS) {
+            failed += await migrateTarget(target);
+        }
+
+        if (failed > 0) {
+            console.log(`\n⚠️  ${failed} images could not be moved - run the script again to retry them`);
+            process.exit(1);
+        }
+        console.log('\n✅ Design images migrated');
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error migrating design images:', error);
+        process.exit(1);
+    }
+};
+
+migrateDesignFiles();
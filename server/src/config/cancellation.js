@@ -0,0 +1,59 @@
+import dotenv from "dotenv";
+import { ORDER_STATUSES } from "../../../shared/orderStatus.js";
+
+dotenv.config({ quiet: true });
+
+// Cancellation rules, checked in order - the first rule an order matches decides how much of what was paid is refunded.
+// A rule matches when every condition it sets holds:
+//   statuses      - the order is in one of these statuses
+//   designStarted - a designer has been assigned or a design has been shared with the customer
+//   departments   - any line has reached one of these departments (names, case-insensitive) ...
+//   progress      - ... and "started" or "completed" its work there (default "started")
+// A rule without conditions matches every order, so the last rule should be one.
+// Override with CANCELLATION_RULES (a JSON array of rules in this shape).
+const DEFAULT_RULES = [
+  { label: "Plates already made", departments: ["Plate Making", "CTP"], progress: "completed", refundPercent: 0 },
+  { label: "Design in progress", designStarted: true, refundPercent: 50 },
+  { label: "Design in progress", departments: ["Design", "Pre-Press"], progress: "started", refundPercent: 50 },
+  { label: "Before design", statuses: ["request", "production_ready", "approved"], refundPercent: 100 },
+  { label: "In production", refundPercent: 0 },
+];
+
+const DEPARTMENT_PROGRESS = ["started", "completed"];
+
+// Reason a rule can't be used, or null
+const validateRule = (rule) => {
+  if (!rule || typeof rule !== "object") return "is not an object";
+  if (!rule.label) return "has no label";
+  if (typeof rule.refundPercent !== "number" || rule.refundPercent < 0 || rule.refundPercent > 100) {
+    return "needs a refundPercent between 0 and 100";
+  }
+  if (rule.statuses && (!Array.isArray(rule.statuses) || rule.statuses.some((status) => !ORDER_STATUSES.includes(status)))) {
+    return `has statuses outside ${ORDER_STATUSES.join(", ")}`;
+  }
+  if (rule.departments && !Array.isArray(rule.departments)) return "needs departments as a list of names";
+  if (rule.progress && !DEPARTMENT_PROGRESS.includes(rule.progress)) return `needs progress ${DEPARTMENT_PROGRESS.join(" or ")}`;
+  return null;
+};
+
+const loadRules = () => {
+  if (!process.env.CANCELLATION_RULES) return DEFAULT_RULES;
+  try {
+    const rules = JSON.parse(process.env.CANCELLATION_RULES);
+    if (!Array.isArray(rules) || rules.length === 0) {
+      throw new Error("expected a non-empty JSON array");
+    }
+    rules.forEach((rule, index) => {
+      const problem = validateRule(rule);
+      if (problem) throw new Error(`rule ${index + 1} ${problem}`);
+    });
+    return rules;
+  } catch (error) {
+    console.warn(`CANCELLATION_RULES is invalid (${error.message}) - using the default cancellation rules`);
+    return DEFAULT_RULES;
+  }
+};
+
+const rules = loadRules();
+
+export const getCancellationRules = () => rules;
@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+import { fileURLToPath } from "url";
+import { dirname, join, resolve } from "path";
+
+dotenv.config({ quiet: true });
+
+// Where uploaded files (customer designs) are kept, chosen with FILE_STORE:
+//   gridfs - GridFS in the app's MongoDB database (default, nothing else to set up)
+//   local  - files on the server's disk under FILE_STORE_DIR (default server/uploads)
+export const FILE_STORE_DRIVERS = ["gridfs", "local"];
+
+const DEFAULT_DRIVER = "gridfs";
+const DEFAULT_DIRECTORY = join(dirname(fileURLToPath(import.meta.url)), "../../uploads");
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+
+let driver = DEFAULT_DRIVER;
+if (process.env.FILE_STORE) {
+  if (FILE_STORE_DRIVERS.includes(process.env.FILE_STORE)) {
+    driver = process.env.FILE_STORE;
+  } else {
+    console.warn(`FILE_STORE "${process.env.FILE_STORE}" is not one of ${FILE_STORE_DRIVERS.join(", ")} - using ${DEFAULT_DRIVER}`);
+  }
+}
+
+// Signed file links in API responses (for <img> tags, which can't send a token) stay valid this long
+let urlTtlSeconds = DEFAULT_URL_TTL_SECONDS;
+if (process.env.FILE_URL_TTL_SECONDS) {
+  const ttl = Number(process.env.FILE_URL_TTL_SECONDS);
+  if (Number.isInteger(ttl) && ttl > 0) {
+    urlTtlSeconds = ttl;
+  } else {
+    console.warn(`FILE_URL_TTL_SECONDS "${process.env.FILE_URL_TTL_SECONDS}" is not a positive whole number - using ${DEFAULT_URL_TTL_SECONDS}`);
+  }
+}
+
+export const getFileStoreConfig = () => ({
+  driver,
+  directory: resolve(process.env.FILE_STORE_DIR || DEFAULT_DIRECTORY),
+  bucketName: "files",
+  urlTtlSeconds,
+});
@@ -0,0 +1,61 @@
+import dotenv from "dotenv";
+import { getSellerState } from "./tax.js";
+
+dotenv.config({ quiet: true });
+
+// When an order's tax invoice is issued, chosen with INVOICE_TRIGGER:
+//   dispatch - when its first shipment is handed to the courier (default)
+//   payment  - when an admin records the order as fully paid
+//   manual   - only when an admin issues it from the order view
+// Admins can issue a due invoice from the order view whatever the trigger.
+export const INVOICE_TRIGGERS = ["dispatch", "payment", "manual"];
+
+const DEFAULT_TRIGGER = "dispatch";
+// HSN 4911 (other printed matter) for products without a code of their own
+const DEFAULT_HSN_CODE = "4911";
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const HSN_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+let trigger = DEFAULT_TRIGGER;
+if (process.env.INVOICE_TRIGGER) {
+  if (INVOICE_TRIGGERS.includes(process.env.INVOICE_TRIGGER)) {
+    trigger = process.env.INVOICE_TRIGGER;
+  } else {
+    console.warn(`INVOICE_TRIGGER "${process.env.INVOICE_TRIGGER}" is not one of ${INVOICE_TRIGGERS.join(", ")} - using ${DEFAULT_TRIGGER}`);
+  }
+}
+
+// Seller's GSTIN, printed on every invoice; without a valid one no invoice is issued
+let sellerGstin = null;
+if (process.env.SELLER_GSTIN) {
+  const gstin = process.env.SELLER_GSTIN.trim().toUpperCase();
+  const sellerState = getSellerState();
+  if (!GSTIN_PATTERN.test(gstin)) {
+    console.warn(`SELLER_GSTIN "${process.env.SELLER_GSTIN}" is not a valid GSTIN - invoices will not be issued`);
+  } else if (sellerState && gstin.slice(0, 2) !== sellerState.code) {
+    console.warn(`SELLER_GSTIN ${gstin} is not registered in SELLER_STATE ${sellerState.code} - invoices will not be issued`);
+  } else {
+    sellerGstin = gstin;
+  }
+}
+
+let defaultHsnCode = DEFAULT_HSN_CODE;
+if (process.env.DEFAULT_HSN_CODE) {
+  if (HSN_PATTERN.test(process.env.DEFAULT_HSN_CODE)) {
+    defaultHsnCode = process.env.DEFAULT_HSN_CODE;
+  } else {
+    console.warn(`DEFAULT_HSN_CODE "${process.env.DEFAULT_HSN_CODE}" is not a 4, 6 or 8 digit code - using ${DEFAULT_HSN_CODE}`);
+  }
+}
+
+export const getInvoiceConfig = () => ({
+  trigger,
+  seller: {
+    name: process.env.SELLER_NAME || "Prints24",
+    address: process.env.SELLER_ADDRESS || "",
+    gstin: sellerGstin,
+    state: getSellerState(),
+  },
+  defaultHsnCode,
+});
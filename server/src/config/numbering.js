@@ -0,0 +1,48 @@
+import dotenv from "dotenv";
+
+dotenv.config({ quiet: true });
+
+// Document number series - each is numbered from 1 again every financial year
+export const DOCUMENT_SERIES = {
+  ORDER: "order",
+  INVOICE: "invoice",
+  CREDIT_NOTE: "credit_note",
+};
+
+// Formats use {FY} (2026-27), {FYS} (2627) and {SEQ:n} (the counter padded to n digits)
+const DEFAULT_FORMATS = {
+  [DOCUMENT_SERIES.ORDER]: "P24/{FY}/{SEQ:6}",
+  [DOCUMENT_SERIES.INVOICE]: "P24/I{FYS}/{SEQ:6}",
+  [DOCUMENT_SERIES.CREDIT_NOTE]: "P24/C{FYS}/{SEQ:6}",
+};
+
+const ENV_FORMATS = {
+  [DOCUMENT_SERIES.ORDER]: process.env.ORDER_NUMBER_FORMAT,
+  [DOCUMENT_SERIES.INVOICE]: process.env.INVOICE_NUMBER_FORMAT,
+  [DOCUMENT_SERIES.CREDIT_NOTE]: process.env.CREDIT_NOTE_NUMBER_FORMAT,
+};
+
+// GST rules limit invoice and credit note numbers to 16 characters
+export const GST_MAX_LENGTH = 16;
+const GST_SERIES = [DOCUMENT_SERIES.INVOICE, DOCUMENT_SERIES.CREDIT_NOTE];
+
+const formats = {};
+for (const series of Object.values(DOCUMENT_SERIES)) {
+  const format = ENV_FORMATS[series];
+  if (format && !/\{SEQ(:\d+)?\}/.test(format)) {
+    console.warn(`Number format "${format}" for ${series} has no {SEQ} token - using the default format`);
+    formats[series] = DEFAULT_FORMATS[series];
+  } else {
+    formats[series] = format || DEFAULT_FORMATS[series];
+  }
+}
+
+export const getSeriesFormat = (series) => {
+  const format = formats[series];
+  if (!format) {
+    throw new Error(`Unknown document number series: ${series}`);
+  }
+  return format;
+};
+
+export const isGstSeries = (series) => GST_SERIES.includes(series);
@@ -0,0 +1,16 @@
+import dotenv from "dotenv";
+import { GST_STATES, normalizeStateCode } from "../../../shared/gst.js";
+
+dotenv.config({ quiet: true });
+
+// Seller's GST state (code like "07" or name like "Delhi"), decides CGST+SGST vs IGST
+const sellerStateCode = normalizeStateCode(process.env.SELLER_STATE);
+
+if (process.env.SELLER_STATE && !sellerStateCode) {
+  console.warn(`SELLER_STATE "${process.env.SELLER_STATE}" is not a valid GST state code or name - GST will not be split`);
+}
+
+export const getSellerState = () => {
+  if (!sellerStateCode) return null;
+  return { code: sellerStateCode, name: GST_STATES[sellerStateCode].name };
+};
@@ -1,6 +1,18 @@
 import Design from "../models/uploadModal.js";
 import { User } from "../models/User.js";
 import bcrypt from "bcrypt";
+import { designToImageUrls, deleteDesignFiles } from "../utils/designUploadHelper.js";
+
+// Image of an upload for the admin views; without its data, only whether there is any (hasData)
+const toUploadImage = (image, defaultFilename, withData) => {
+  if (!image) return null;
+  const details = {
+    filename: image.filename || defaultFilename,
+    size: image.size || 0,
+    contentType: image.contentType || "image/png",
+  };
+  return withData && image.data ? { data: image.data, ...details } : { ...details, hasData: true };
+};
 
 // Get all uploaded images/designs - Optimized for performance
 export const getAllUploads = async (req, res) => {
@@ -28,78 +40,10 @@ export const getAllUploads = async (req, res) => {
       .lean()
       .maxTimeMS(30000); // 30 second timeout
 
-    // Convert buffer data to base64 for frontend display (only if images were included)
+    // Links to the images for frontend display (only if images were included)
     const uploadsWithImages = uploads.map((upload) => {
-      let frontImageBase64 = null;
-      let backImageBase64 = null;
-
-      // Only convert images if they were included in the query
       if (includeImages) {
-        // Safely convert front image buffer to base64
-        if (upload.frontImage && upload.frontImage.data) {
-          try {
-            let buffer;
-            if (Buffer.isBuffer(upload.frontImage.data)) {
-              buffer = upload.frontImage.data;
-            } else if (typeof upload.frontImage.data === 'string') {
-              // If it's already a base64 string, use it directly
-              if (upload.frontImage.data.startsWith('data:')) {
-                frontImageBase64 = upload.frontImage.data;
-              } else {
-                buffer = Buffer.from(upload.frontImage.data, 'base64');
-              }
-            } else if (upload.frontImage.data instanceof Uint8Array) {
-              buffer = Buffer.from(upload.frontImage.data);
-            } else if (upload.frontImage.data && typeof upload.frontImage.data === 'object') {
-              // Handle Mongoose Buffer wrapper
-              buffer = Buffer.from(upload.frontImage.data);
-            } else {
-              // Skip if data is not in a valid format
-              frontImageBase64 = null;
-            }
-            
-            if (!frontImageBase64 && buffer && Buffer.isBuffer(buffer)) {
-              frontImageBase64 = `data:${upload.frontImage.contentType || "image/png"};base64,${buffer.toString("base64")}`;
-            }
-          } catch (err) {
-            console.error("Error converting front image to base64:", err);
-            console.error("Front image data type:", typeof upload.frontImage.data);
-            frontImageBase64 = null;
-          }
-        }
-
-        // Safely convert back image buffer to base64
-        if (upload.backImage && upload.backImage.data) {
-          try {
-            let buffer;
-            if (Buffer.isBuffer(upload.backImage.data)) {
-              buffer = upload.backImage.data;
-            } else if (typeof upload.backImage.data === 'string') {
-              // If it's already a base64 string, use it directly
-              if (upload.backImage.data.startsWith('data:')) {
-                backImageBase64 = upload.backImage.data;
-              } else {
-                buffer = Buffer.from(upload.backImage.data, 'base64');
-              }
-            } else if (upload.backImage.data instanceof Uint8Array) {
-              buffer = Buffer.from(upload.backImage.data);
-            } else if (upload.backImage.data && typeof upload.backImage.data === 'object') {
-              // Handle Mongoose Buffer wrapper
-              buffer = Buffer.from(upload.backImage.data);
-            } else {
-              // Skip if data is not in a valid format
-              backImageBase64 = null;
-            }
-            
-            if (!backImageBase64 && buffer && Buffer.isBuffer(buffer)) {
-              backImageBase64 = `data:${upload.backImage.contentType || "image/png"};base64,${buffer.toString("base64")}`;
-            }
-          } catch (err) {
-            console.error("Error converting back image to base64:", err);
-            console.error("Back image data type:", typeof upload.backImage.data);
-            backImageBase64 = null;
-          }
-        }
+        designToImageUrls(upload);
       }
 
       return {
@@ -110,38 +54,8 @@ export const getAllUploads = async (req, res) => {
         description: upload.description || "",
         safeArea: upload.safeArea || { top: 0, bottom: 0, left: 0, right: 0 },
         bleedArea: upload.bleedArea || { top: 0, bottom: 0, left: 0, right: 0 },
-        frontImage: includeImages && frontImageBase64 && upload.frontImage
-          ? {
-              data: frontImageBase64,
-              filename: upload.frontImage.filename || "front-image.jpg",
-              size: upload.frontImage.size || 0,
-              contentType: upload.frontImage.contentType || "image/png",
-            }
-          : upload.frontImage
-          ? {
-              // Return metadata only (no image data)
-              filename: upload.frontImage.filename || "front-image.jpg",
-              size: upload.frontImage.size || 0,
-              contentType: upload.frontImage.contentType || "image/png",
-              hasData: true, // Indicate that image data exists but wasn't loaded
-            }
-          : null,
-        backImage: includeImages && backImageBase64 && upload.backImage
-          ? {
-              data: backImageBase64,
-              filename: upload.backImage.filename || "back-image.jpg",
-              size: upload.backImage.size || 0,
-              contentType: upload.backImage.contentType || "image/png",
-            }
-          : upload.backImage
-          ? {
-              // Return metadata only (no image data)
-              filename: upload.backImage.filename || "back-image.jpg",
-              size: upload.backImage.size || 0,
-              contentType: upload.backImage.contentType || "image/png",
-              hasData: true, // Indicate that image data exists but wasn't loaded
-            }
-          : null,
+        frontImage: toUploadImage(upload.frontImage, "front-image.jpg", includeImages),
+        backImage: toUploadImage(upload.backImage, "back-image.jpg", includeImages),
         createdAt: upload.createdAt,
         updatedAt: upload.updatedAt,
       };
@@ -184,74 +98,7 @@ export const getUploadById = async (req, res) => {
       return res.status(404).json({ error: "Upload not found" });
     }
 
-    let frontImageBase64 = null;
-    let backImageBase64 = null;
-
-    // Safely convert front image buffer to base64
-    if (upload.frontImage && upload.frontImage.data) {
-      try {
-        let buffer;
-        if (Buffer.isBuffer(upload.frontImage.data)) {
-          buffer = upload.frontImage.data;
-        } else if (typeof upload.frontImage.data === 'string') {
-          // If it's already a base64 string, use it directly
-          if (upload.frontImage.data.startsWith('data:')) {
-            frontImageBase64 = upload.frontImage.data;
-          } else {
-            buffer = Buffer.from(upload.frontImage.data, 'base64');
-          }
-        } else if (upload.frontImage.data instanceof Uint8Array) {
-          buffer = Buffer.from(upload.frontImage.data);
-        } else if (upload.frontImage.data && typeof upload.frontImage.data === 'object') {
-          // Handle Mongoose Buffer wrapper
-          buffer = Buffer.from(upload.frontImage.data);
-        } else {
-          // Skip if data is not in a valid format
-          frontImageBase64 = null;
-        }
-        
-        if (!frontImageBase64 && buffer && Buffer.isBuffer(buffer)) {
-          frontImageBase64 = `data:${upload.frontImage.contentType || "image/png"};base64,${buffer.toString("base64")}`;
-        }
-      } catch (err) {
-        console.error("Error converting front image to base64:", err);
-        console.error("Front image data type:", typeof upload.frontImage.data);
-        frontImageBase64 = null;
-      }
-    }
-
-    // Safely convert back image buffer to base64
-    if (upload.backImage && upload.backImage.data) {
-      try {
-        let buffer;
-        if (Buffer.isBuffer(upload.backImage.data)) {
-          buffer = upload.backImage.data;
-        } else if (typeof upload.backImage.data === 'string') {
-          // If it's already a base64 string, use it directly
-          if (upload.backImage.data.startsWith('data:')) {
-            backImageBase64 = upload.backImage.data;
-          } else {
-            buffer = Buffer.from(upload.backImage.data, 'base64');
-          }
-        } else if (upload.backImage.data instanceof Uint8Array) {
-          buffer = Buffer.from(upload.backImage.data);
-        } else if (upload.backImage.data && typeof upload.backImage.data === 'object') {
-          // Handle Mongoose Buffer wrapper
-          buffer = Buffer.from(upload.backImage.data);
-        } else {
-          // Skip if data is not in a valid format
-          backImageBase64 = null;
-        }
-        
-        if (!backImageBase64 && buffer && Buffer.isBuffer(buffer)) {
-          backImageBase64 = `data:${upload.backImage.contentType || "image/png"};base64,${buffer.toString("base64")}`;
-        }
-      } catch (err) {
-        console.error("Error converting back image to base64:", err);
-        console.error("Back image data type:", typeof upload.backImage.data);
-        backImageBase64 = null;
-      }
-    }
+    designToImageUrls(upload);
 
     res.json({
       _id: upload._id,
@@ -261,22 +108,8 @@ export const getUploadById = async (req, res) => {
       description: upload.description || "",
       safeArea: upload.safeArea || { top: 0, bottom: 0, left: 0, right: 0 },
       bleedArea: upload.bleedArea || { top: 0, bottom: 0, left: 0, right: 0 },
-      frontImage: frontImageBase64 && upload.frontImage
-        ? {
-            data: frontImageBase64,
-            filename: upload.frontImage.filename || "front-image.jpg",
-            size: upload.frontImage.size || 0,
-            contentType: upload.frontImage.contentType || "image/png",
-          }
-        : null,
-      backImage: backImageBase64 && upload.backImage
-        ? {
-            data: backImageBase64,
-            filename: upload.backImage.filename || "back-image.jpg",
-            size: upload.backImage.size || 0,
-            contentType: upload.backImage.contentType || "image/png",
-          }
-        : null,
+      frontImage: upload.frontImage?.data ? toUploadImage(upload.frontImage, "front-image.jpg", true) : null,
+      backImage: upload.backImage?.data ? toUploadImage(upload.backImage, "back-image.jpg", true) : null,
       createdAt: upload.createdAt,
       updatedAt: upload.updatedAt,
     });
@@ -451,6 +284,7 @@ export const deleteUpload = async (req, res) => {
     }
 
     await Design.findByIdAndDelete(req.params.id);
+    await deleteDesignFiles(upload);
 
     return res.json({
       success: true,
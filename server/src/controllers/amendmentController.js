@@ -0,0 +1,278 @@
+import Order from "../models/orderModal.js";
+import AmendmentRequest from "../models/amendmentRequestModal.js";
+import {
+  resolveAmendmentChanges,
+  priceAmendment,
+  applyAmendment,
+  isOrderAmendable,
+  AMENDABLE_ORDER_STATUSES,
+  INVOICED_ORDER_MESSAGE,
+} from "../utils/amendmentHelper.js";
+import { processUploadedDesign, designToImageUrls } from "../utils/designUploadHelper.js";
+
+const isValidId = (id) => Boolean(id) && /^[0-9a-fA-F]{24}$/.test(id);
+
+// Amendment/pricing/design errors carry a statusCode; anything else is unexpected
+const sendKnownError = (res, err) => {
+  if (!err.statusCode) throw err;
+  return res.status(err.statusCode).json({ error: err.message, details: err.details, breakdown: err.breakdown });
+};
+
+const findOwnOrder = async (req, res) => {
+  const { orderId } = req.params;
+  if (!isValidId(orderId)) {
+    res.status(400).json({ error: "Invalid order ID format." });
+    return null;
+  }
+  const order = await Order.findOne({ _id: orderId, user: req.user.id });
+  if (!order) {
+    res.status(404).json({ error: "Order not found" });
+    return null;
+  }
+  return order;
+};
+
+// Amendment for the response, with the replacement design as data URLs
+const serializeAmendment = (amendment) => {
+  const amendmentObj = amendment.toObject ? amendment.toObject() : amendment;
+  designToImageUrls(amendmentObj.changes?.uploadedDesign);
+  return amendmentObj;
+};
+
+// Price the requested changes without saving them (shows the customer the difference first)
+export const previewAmendment = async (req, res) => {
+  try {
+    const order = await findOwnOrder(req, res);
+    if (!order) return;
+
+    let pricing;
+    try {
+      const { line, changes } = await resolveAmendmentChanges(order, req.body);
+      pricing = await priceAmendment(order, line, changes);
+    } catch (err) {
+      return sendKnownError(res, err);
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        previousTotal: pricing.previousTotal,
+        newTotal: pricing.newTotal,
+        difference: pricing.difference,
+        breakdown: pricing.breakdown,
+      },
+    });
+  } catch (err) {
+    console.log("PREVIEW AMENDMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Customer requests changes to an order that hasn't gone into production
+export const createAmendment = async (req, res) => {
+  try {
+    const order = await findOwnOrder(req, res);
+    if (!order) return;
+
+    const pending = await AmendmentRequest.exists({ order: order._id, status: "pending" });
+    if (pending) {
+      return res.status(409).json({ error: "A change request for this order is already waiting for review" });
+    }
+
+    let resolved;
+    let pricing;
+    try {
+      resolved = await resolveAmendmentChanges(order, req.body);
+      pricing = await priceAmendment(order, resolved.line, resolved.changes);
+      if (req.body.uploadedDesign?.frontImage?.data || req.body.uploadedDesign?.frontImage?.fileId) {
+        resolved.changes.uploadedDesign = await processUploadedDesign(req.body.uploadedDesign, { owner: order.user });
+      }
+    } catch (err) {
+      return sendKnownError(res, err);
+    }
+
+    const amendment = new AmendmentRequest({
+      order: order._id,
+      user: req.user.id,
+      lineId: resolved.line && resolved.line !== order ? resolved.line._id : null,
+      changes: resolved.changes,
+      previous: resolved.previous,
+      customerNotes: req.body.notes || "",
+      pricing,
+    });
+
+    try {
+      await amendment.save();
+    } catch (err) {
+      // Another request for the same order got in first
+      if (err.code === 11000) {
+        return res.status(409).json({ error: "A change request for this order is already waiting for review" });
+      }
+      throw err;
+    }
+
+    return res.status(201).json({
+      message: "Change request sent for review",
+      amendment: serializeAmendment(amendment),
+    });
+  } catch (err) {
+    console.log("CREATE AMENDMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Change requests of one order (the customer's own order, or any order for admins)
+export const getOrderAmendments = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const orderQuery = req.user.role === "admin" ? { _id: orderId } : { _id: orderId, user: req.user.id };
+    const order = await Order.findOne(orderQuery).select("status invoiceNumber");
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const amendments = await AmendmentRequest.find({ order: orderId })
+      .populate("reviewedBy", "name")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.json({
+      success: true,
+      data: {
+        canRequestChanges: isOrderAmendable(order) &&
+          !amendments.some((amendment) => amendment.status === "pending"),
+        amendments: amendments.map(serializeAmendment),
+      },
+    });
+  } catch (err) {
+    console.log("GET ORDER AMENDMENTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: change requests across orders (?status=pending|approved|rejected)
+export const getAllAmendments = async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    const amendments = await AmendmentRequest.find(filter)
+      .populate("order", "orderNumber status totalPrice")
+      .populate("user", "name email")
+      .populate("reviewedBy", "name")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.json({ success: true, data: amendments.map(serializeAmendment) });
+  } catch (err) {
+    console.log("GET AMENDMENTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+const findPendingAmendment = async (req, res) => {
+  const { amendmentId } = req.params;
+  if (!isValidId(amendmentId)) {
+    res.status(400).json({ error: "Invalid amendment ID format." });
+    return null;
+  }
+  const amendment = await AmendmentRequest.findById(amendmentId);
+  if (!amendment) {
+    res.status(404).json({ error: "Change request not found" });
+    return null;
+  }
+  if (amendment.status !== "pending") {
+    res.status(400).json({ error: `Change request has already been ${amendment.status}` });
+    return null;
+  }
+  return amendment;
+};
+
+// Admin: apply a change request to its order and record the payment adjustment
+export const approveAmendment = async (req, res) => {
+  try {
+    const amendment = await findPendingAmendment(req, res);
+    if (!amendment) return;
+
+    const order = await Order.findById(amendment.order);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (!AMENDABLE_ORDER_STATUSES.includes(order.status)) {
+      return res.status(400).json({ error: `Order can no longer be changed. Current status: ${order.status}` });
+    }
+    if (order.invoiceNumber) {
+      return res.status(400).json({ error: INVOICED_ORDER_MESSAGE });
+    }
+    // The difference was priced against the order as it was when the customer asked
+    if (order.totalPrice !== amendment.pricing.previousTotal) {
+      return res.status(409).json({ error: "The order has changed since this request was made. Please reject it and ask the customer to request again." });
+    }
+
+    try {
+      applyAmendment(order, amendment, req.user);
+    } catch (err) {
+      return sendKnownError(res, err);
+    }
+    // Not if an invoice was issued meanwhile (e.g. by a shipment)
+    order.$where = { invoiceNumber: null };
+    try {
+      await order.save();
+    } catch (err) {
+      if (err.name !== "DocumentNotFoundError") throw err;
+      return res.status(409).json({ error: INVOICED_ORDER_MESSAGE });
+    }
+
+    amendment.status = "approved";
+    amendment.reviewedBy = req.user._id;
+    amendment.reviewedAt = new Date();
+    await amendment.save();
+
+    return res.json({
+      message: "Change request approved and order updated",
+      amendment: serializeAmendment(amendment),
+      order: {
+        _id: order._id,
+        orderNumber: order.orderNumber,
+        totalPrice: order.totalPrice,
+        paymentStatus: order.paymentStatus,
+        paymentAdjustments: order.paymentAdjustments,
+      },
+    });
+  } catch (err) {
+    console.log("APPROVE AMENDMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: turn down a change request (the reason is shown to the customer)
+export const rejectAmendment = async (req, res) => {
+  try {
+    const reason = req.body.reason?.trim();
+    if (!reason) {
+      return res.status(400).json({ error: "A reason is required to reject a change request" });
+    }
+
+    const amendment = await findPendingAmendment(req, res);
+    if (!amendment) return;
+
+    amendment.status = "rejected";
+    amendment.rejectionReason = reason;
+    amendment.reviewedBy = req.user._id;
+    amendment.reviewedAt = new Date();
+    await amendment.save();
+
+    return res.json({
+      message: "Change request rejected",
+      amendment: serializeAmendment(amendment),
+    });
+  } catch (err) {
+    console.log("REJECT AMENDMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
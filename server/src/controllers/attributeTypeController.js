@@ -1,5 +1,7 @@
 import AttributeType from "../models/attributeTypeModal.js";
 import { handleMongoError } from "../utils/errorHandler.js";
+import { extractAttributeTypePricing, recordAttributeTypePriceChange } from "../utils/priceVersionHelper.js";
+import { isValidPricingMode } from "../../../shared/pricing.js";
 
 // Create a new attribute type
 export const createAttributeType = async (req, res) => {
@@ -55,6 +57,9 @@ export const createAttributeType = async (req, res) => {
           if (!av.value || !av.label) {
             return res.status(400).json({ error: "Each attribute value must have 'value' and 'label' fields" });
           }
+          if (av.pricingMode && !isValidPricingMode(av.pricingMode)) {
+            return res.status(400).json({ error: `Invalid charge basis for attribute value '${av.label}'` });
+          }
           // Validate subattributes if they exist
           if (av.subattributes && Array.isArray(av.subattributes)) {
             for (const subav of av.subattributes) {
@@ -271,6 +276,8 @@ export const updateAttributeType = async (req, res) => {
       return res.status(404).json({ error: "Attribute type not found" });
     }
 
+    const previousPricing = extractAttributeTypePricing(attributeType);
+
     // Parse attributeValues if it's a string
     let parsedAttributeValues = attributeType.attributeValues;
     if (attributeValues !== undefined) {
@@ -289,6 +296,9 @@ export const updateAttributeType = async (req, res) => {
           if (!av.value || !av.label) {
             return res.status(400).json({ error: "Each attribute value must have 'value' and 'label' fields" });
           }
+          if (av.pricingMode && !isValidPricingMode(av.pricingMode)) {
+            return res.status(400).json({ error: `Invalid charge basis for attribute value '${av.label}'` });
+          }
         }
         
         // Get the inputStyle to validate (use updated value if provided, otherwise existing)
@@ -344,7 +354,12 @@ export const updateAttributeType = async (req, res) => {
     if (applicableCategories !== undefined) attributeType.applicableCategories = parsedCategories;
     if (applicableSubCategories !== undefined) attributeType.applicableSubCategories = parsedSubCategories;
 
-    await attributeType.save();
+    // Saved together with the new price versions of the products using this attribute (now priced differently)
+    const mongoose = (await import("mongoose")).default;
+    await mongoose.connection.transaction(async (session) => {
+      await attributeType.save({ session });
+      await recordAttributeTypePriceChange(attributeType, previousPricing, req.user?._id, { session });
+    });
 
     const updatedAttributeType = await AttributeType.findById(id)
       .populate('applicableCategories', 'name')
@@ -0,0 +1,27 @@
+import AuditLog from "../models/auditLogModal.js";
+
+const isValidId = (id) => Boolean(id) && /^[0-9a-fA-F]{24}$/.test(id);
+
+const MAX_AUDIT_ENTRIES = 200;
+
+// Admin: writes to an order, newest first (?limit=, up to MAX_AUDIT_ENTRIES)
+export const getOrderAuditLog = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const limit = Math.min(parseInt(req.query.limit) || 50, MAX_AUDIT_ENTRIES);
+
+    const entries = await AuditLog.find({ entityType: "Order", entity: orderId })
+      .populate("actor", "name email role")
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return res.json({ success: true, data: entries });
+  } catch (err) {
+    console.log("GET AUDIT LOG ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
@@ -0,0 +1,306 @@
+import Cart from "../models/cartModal.js";
+import Order from "../models/orderModal.js";
+import {
+  buildOrderQuote,
+  buildCartQuote,
+  assertClientTotalMatches,
+  assertMinimumOrderValue,
+} from "../utils/orderPricingHelper.js";
+import { redeemCoupon, releaseCoupon } from "../utils/couponHelper.js";
+import { processUploadedDesign, designToImageUrls } from "../utils/designUploadHelper.js";
+
+// Pricing/design errors carry a statusCode; anything else is unexpected
+const sendKnownError = (res, err) => {
+  if (!err.statusCode) throw err;
+  return res.status(err.statusCode).json({
+    error: err.message,
+    details: err.details,
+    expectedTotal: err.expectedTotal,
+    breakdown: err.breakdown,
+  });
+};
+
+// Quote input for a stored cart item (selections are re-resolved at the current prices)
+const toQuoteItem = (item) => ({
+  productId: item.product?._id || item.product,
+  quantity: item.quantity,
+  finish: item.finish,
+  shape: item.shape,
+  textureType: item.textureType,
+  selectedOptions: item.selectedOptions,
+  selectedDynamicAttributes: item.selectedDynamicAttributes,
+  customSize: item.customSize,
+});
+
+const findCartForUser = (userId) =>
+  Cart.findOne({ user: userId }).populate("items.product", "name image basePrice gstPercentage");
+
+// Cart for the response, with design previews as data URLs
+const serializeCart = (cart) => {
+  const cartObj = cart ? cart.toObject() : { items: [] };
+  cartObj.items.forEach((item) => designToImageUrls(item.uploadedDesign));
+  return cartObj;
+};
+
+// Get the logged-in customer's cart; ?pincode (and optional ?couponCode, ?deliveryState) adds a quote for the whole cart
+export const getCart = async (req, res) => {
+  try {
+    const cart = await findCartForUser(req.user.id);
+    const { pincode, couponCode, deliveryState } = req.query;
+
+    let quote = null;
+    let quoteError = null;
+    if (cart && cart.items.length > 0 && pincode) {
+      try {
+        const cartQuote = await buildCartQuote({
+          items: cart.items.map((item) => toQuoteItem(item.toObject())),
+          couponCode,
+          pincode,
+          deliveryState,
+          userId: req.user.id,
+        });
+        quote = {
+          breakdown: cartQuote.breakdown,
+          totalPrice: cartQuote.totalPrice,
+          deliveryZone: cartQuote.deliveryZone,
+          coupon: cartQuote.orderCoupon,
+        };
+      } catch (err) {
+        if (!err.statusCode) throw err;
+        quoteError = err.message;
+      }
+    }
+
+    return res.json({
+      success: true,
+      data: serializeCart(cart),
+      quote,
+      quoteError,
+    });
+  } catch (err) {
+    console.log("GET CART ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Add a product configuration (with its design) to the cart
+export const addCartItem = async (req, res) => {
+  try {
+    const { productId, quantity, finish, shape, textureType, uploadedDesign, notes } = req.body;
+
+    if (!productId || !quantity || !finish || !shape) {
+      return res.status(400).json({ error: "Missing required fields: productId, quantity, finish, shape" });
+    }
+
+    // Price the configuration now so invalid selections are rejected before they reach checkout
+    let quote;
+    let processedDesign;
+    try {
+      quote = await buildOrderQuote({
+        productId,
+        quantity,
+        finish,
+        shape,
+        textureType,
+        selectedOptions: req.body.selectedOptions,
+        selectedDynamicAttributes: req.body.selectedDynamicAttributes,
+        customSize: req.body.customSize,
+        userId: req.user.id,
+      });
+      processedDesign = await processUploadedDesign(uploadedDesign, { owner: req.user.id });
+    } catch (err) {
+      return sendKnownError(res, err);
+    }
+
+    let cart = await Cart.findOne({ user: req.user.id });
+    if (!cart) {
+      cart = new Cart({ user: req.user.id, items: [] });
+    }
+    cart.items.push({
+      product: quote.product._id,
+      quantity: quote.quantity,
+      finish,
+      shape,
+      textureType: textureType || null,
+      customSize: quote.breakdown.customSize
+        ? { width: quote.breakdown.customSize.width, height: quote.breakdown.customSize.height }
+        : null,
+      selectedOptions: quote.selectedOptions,
+      selectedDynamicAttributes: quote.selectedDynamicAttributes,
+      uploadedDesign: processedDesign,
+      notes: notes || "",
+    });
+    await cart.save();
+    await cart.populate("items.product", "name image basePrice gstPercentage");
+
+    return res.status(201).json({
+      success: true,
+      message: "Added to cart",
+      data: serializeCart(cart),
+    });
+  } catch (err) {
+    console.log("ADD CART ITEM ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Change the quantity or notes of a cart item
+export const updateCartItem = async (req, res) => {
+  try {
+    const { itemId } = req.params;
+    const { quantity, notes } = req.body;
+
+    const cart = await findCartForUser(req.user.id);
+    const item = cart?.items.id(itemId);
+    if (!item) {
+      return res.status(404).json({ error: "Cart item not found" });
+    }
+
+    if (quantity !== undefined) {
+      // The new quantity must still be orderable (quantity limits, custom size minimums)
+      try {
+        await buildOrderQuote({ ...toQuoteItem(item.toObject()), quantity, userId: req.user.id });
+      } catch (err) {
+        return sendKnownError(res, err);
+      }
+      item.quantity = parseInt(quantity);
+    }
+    if (notes !== undefined) item.notes = notes || "";
+
+    await cart.save();
+
+    return res.json({
+      success: true,
+      message: "Cart updated",
+      data: serializeCart(cart),
+    });
+  } catch (err) {
+    console.log("UPDATE CART ITEM ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Remove an item from the cart
+export const removeCartItem = async (req, res) => {
+  try {
+    const { itemId } = req.params;
+
+    const cart = await findCartForUser(req.user.id);
+    const item = cart?.items.id(itemId);
+    if (!item) {
+      return res.status(404).json({ error: "Cart item not found" });
+    }
+
+    item.deleteOne();
+    await cart.save();
+
+    return res.json({
+      success: true,
+      message: "Removed from cart",
+      data: serializeCart(cart),
+    });
+  } catch (err) {
+    console.log("REMOVE CART ITEM ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Place one order for everything in the cart (shared payment, coupon and delivery)
+export const checkoutCart = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const { pincode, deliveryState, address, mobileNumber, couponCode, totalPrice } = req.body;
+
+    if (!pincode || !address || !mobileNumber) {
+      return res.status(400).json({ error: "Missing required fields: pincode, address, mobileNumber" });
+    }
+
+    const cart = await Cart.findOne({ user: userId });
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json({ error: "Your cart is empty" });
+    }
+
+    // Price the whole cart on the server - the client total is only used to detect a stale price
+    let quote;
+    try {
+      quote = await buildCartQuote({
+        items: cart.items.map((item) => toQuoteItem(item.toObject())),
+        couponCode,
+        pincode,
+        deliveryState,
+        userId,
+      });
+      assertClientTotalMatches(quote, totalPrice);
+      assertMinimumOrderValue(quote);
+    } catch (err) {
+      return sendKnownError(res, err);
+    }
+
+    // Department statuses are created per line when the admin approves the order
+    const order = new Order({
+      user: userId,
+      items: quote.lines.map((line, index) => {
+        const cartItem = cart.items[index];
+        return {
+          product: line.product._id,
+          quantity: line.quantity,
+          finish: cartItem.finish,
+          shape: cartItem.shape,
+          textureType: cartItem.textureType || null,
+          customSize: quote.breakdown.lines[index].breakdown.customSize,
+          selectedOptions: line.selectedOptions,
+          selectedDynamicAttributes: line.selectedDynamicAttributes,
+          priceList: line.priceList,
+          lineTotal: line.lineTotal,
+          uploadedDesign: cartItem.uploadedDesign,
+          notes: cartItem.notes || "",
+        };
+      }),
+      coupon: quote.orderCoupon,
+      deliveryZone: quote.deliveryZone,
+      shippingCharge: quote.breakdown.shippingCharge,
+      gstSplit: quote.breakdown.gstSplit,
+      pricingSnapshot: quote.pricingSnapshot,
+      totalPrice: quote.totalPrice,
+      pincode,
+      address,
+      mobileNumber,
+      status: "request",
+      // Payments are recorded by an admin, never taken from the customer's request
+      advancePaid: 0,
+      paymentStatus: "pending",
+      paymentGatewayInvoiceId: req.body.paymentGatewayInvoiceId || null,
+    });
+
+    if (quote.coupon) {
+      try {
+        await redeemCoupon(quote.coupon, userId);
+      } catch (err) {
+        return sendKnownError(res, err);
+      }
+    }
+
+    try {
+      await order.save();
+    } catch (err) {
+      if (quote.coupon) await releaseCoupon(quote.coupon._id, { userId });
+      throw err;
+    }
+
+    cart.items = [];
+    await cart.save();
+
+    await order.populate("items.product", "name image basePrice subcategory gstPercentage additionalDesignCharge");
+    await order.populate("user", "name email");
+    const orderObj = order.toObject();
+    orderObj.items.forEach((line) => designToImageUrls(line.uploadedDesign));
+
+    return res.status(201).json({
+      message: "Order created successfully",
+      order: orderObj,
+    });
+  } catch (err) {
+    console.log("CART CHECKOUT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
@@ -0,0 +1,277 @@
+import Order from "../models/orderModal.js";
+import Complaint from "../models/complaintModal.js";
+import {
+  canRaiseComplaint,
+  assertComplaintInput,
+  resolveComplaintWithReprint,
+  recordComplaintRefund,
+  getPaidAmount,
+  getComplaintReasonReport,
+} from "../utils/complaintHelper.js";
+import { deleteFile, getSignedFileUrl } from "../utils/fileStore.js";
+import { COMPLAINT_RESOLUTIONS, COMPLAINT_PHOTO_TYPES } from "../../../shared/complaints.js";
+
+const isValidId = (id) => Boolean(id) && /^[0-9a-fA-F]{24}$/.test(id);
+
+// Link to a photo (a signed file store URL, or a data URL for photos kept in the complaint)
+const getPhotoUrl = (photo) => {
+  if (photo.fileId) return getSignedFileUrl(photo);
+  // Only raster images are shown (an SVG data URL could carry script)
+  if (!photo.data || !COMPLAINT_PHOTO_TYPES.includes(photo.contentType || "image/jpeg")) return null;
+  return `data:${photo.contentType || "image/jpeg"};base64,${Buffer.from(photo.data.buffer || photo.data).toString("base64")}`;
+};
+
+// Complaint for the response, with links to the photos
+const serializeComplaint = (complaint) => {
+  const complaintObj = complaint.toObject ? complaint.toObject() : complaint;
+  complaintObj.photos = (complaintObj.photos || []).map((photo) => ({
+    _id: photo._id,
+    filename: photo.filename,
+    data: getPhotoUrl(photo),
+  }));
+  return complaintObj;
+};
+
+// Photos streamed into the file store for a complaint that wasn't created
+const deleteUploadedPhotos = async (files = []) => {
+  for (const file of files) {
+    await deleteFile(file.storedFile).catch((err) => {
+      console.warn(`Could not delete complaint photo ${file.storedFile.storage}/${file.storedFile.fileId}:`, err.message);
+    });
+  }
+};
+
+// Complaints of one of the customer's orders, and whether a new one can be raised
+export const getOrderComplaints = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const order = await Order.findOne({ _id: orderId, user: req.user.id })
+      .select("status deliveredAt courierStatus shipments.status")
+      .lean();
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const complaints = await Complaint.find({ order: orderId })
+      .populate("reprintOrder", "orderNumber status")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.json({
+      success: true,
+      data: {
+        canRaiseComplaint: canRaiseComplaint(order) && !complaints.some((complaint) => complaint.status === "open"),
+        complaints: complaints.map(serializeComplaint),
+      },
+    });
+  } catch (err) {
+    console.log("GET ORDER COMPLAINTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Customer reports a problem with a delivered order (multipart, with up to MAX_COMPLAINT_PHOTOS photos)
+export const createComplaint = async (req, res) => {
+  let created = false;
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const order = await Order.findOne({ _id: orderId, user: req.user.id });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const open = await Complaint.exists({ order: order._id, status: "open" });
+    if (open) {
+      return res.status(409).json({ error: "A complaint about this order is already being looked into" });
+    }
+
+    const { lineId, reason, description, affectedQuantity } = req.body;
+    let line;
+    try {
+      line = assertComplaintInput(order, { lineId, reason, description, affectedQuantity });
+    } catch (err) {
+      if (!err.statusCode) throw err;
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+
+    const complaint = await Complaint.create({
+      order: order._id,
+      user: req.user._id,
+      lineId: line && line !== order ? line._id : null,
+      reason,
+      description: description.trim(),
+      affectedQuantity: affectedQuantity ? parseInt(affectedQuantity) : null,
+      photos: (req.files || []).map((file) => file.storedFile),
+    });
+    created = true;
+
+    return res.status(201).json({
+      message: "Complaint submitted. We'll get back to you soon.",
+      data: serializeComplaint(complaint),
+    });
+  } catch (err) {
+    console.log("CREATE COMPLAINT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  } finally {
+    if (!created) await deleteUploadedPhotos(req.files);
+  }
+};
+
+// Admin: complaints to triage (photos are loaded with the single complaint)
+export const getAllComplaints = async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.reason) {
+      filter.reason = req.query.reason;
+    }
+
+    const complaints = await Complaint.find(filter)
+      .select("-photos.data")
+      .populate("order", "orderNumber status totalPrice")
+      .populate("user", "name email")
+      .populate("reprintOrder", "orderNumber status")
+      .populate("resolvedBy", "name")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return res.json({ success: true, data: complaints });
+  } catch (err) {
+    console.log("GET COMPLAINTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: one complaint with its photos and the order lines it can be about
+export const getComplaint = async (req, res) => {
+  try {
+    const { complaintId } = req.params;
+    if (!isValidId(complaintId)) {
+      return res.status(400).json({ error: "Invalid complaint ID format." });
+    }
+    const complaint = await Complaint.findById(complaintId)
+      .populate({
+        path: "order",
+        select: "orderNumber status totalPrice paymentStatus advancePaid paymentAdjustments product quantity items._id items.product items.quantity",
+        populate: { path: "product items.product", select: "name" },
+      })
+      .populate("user", "name email")
+      .populate("reprintOrder", "orderNumber status")
+      .populate("resolvedBy", "name")
+      .lean();
+    if (!complaint) {
+      return res.status(404).json({ error: "Complaint not found" });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...serializeComplaint(complaint),
+        refundableAmount: complaint.order ? getPaidAmount(complaint.order) : 0,
+      },
+    });
+  } catch (err) {
+    console.log("GET COMPLAINT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: resolve a complaint with a reprint, a partial refund or a rejection
+export const resolveComplaint = async (req, res) => {
+  try {
+    const { complaintId } = req.params;
+    if (!isValidId(complaintId)) {
+      return res.status(400).json({ error: "Invalid complaint ID format." });
+    }
+    const complaint = await Complaint.findById(complaintId);
+    if (!complaint) {
+      return res.status(404).json({ error: "Complaint not found" });
+    }
+    if (complaint.status !== "open") {
+      return res.status(400).json({ error: "Complaint has already been resolved" });
+    }
+
+    const { resolution, notes, quantity, amount } = req.body;
+    if (!COMPLAINT_RESOLUTIONS.includes(resolution)) {
+      return res.status(400).json({ error: `Invalid resolution. Allowed: ${COMPLAINT_RESOLUTIONS.join(", ")}` });
+    }
+    if (resolution === "rejected" && !notes?.trim()) {
+      return res.status(400).json({ error: "Please give the customer a reason for rejecting the complaint" });
+    }
+
+    const order = await Order.findById(complaint.order);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    let warning = null;
+    let resolved = complaint;
+    try {
+      if (resolution === "reprint") {
+        // Creates the reprint order and resolves the complaint in one transaction
+        ({ complaint: resolved, warning } = await resolveComplaintWithReprint(order, complaint, {
+          quantity,
+          notes,
+          actor: req.user,
+        }));
+      } else {
+        complaint.status = "resolved";
+        complaint.resolution = resolution;
+        complaint.resolutionNotes = notes?.trim() || "";
+        complaint.resolvedBy = req.user._id;
+        complaint.resolvedAt = new Date();
+        if (resolution === "partial_refund") {
+          // Saves the order and the complaint together with the credit note
+          await recordComplaintRefund(order, complaint, { amount, actor: req.user });
+        } else {
+          // Only if no other request resolved it meanwhile
+          complaint.$where = { status: "open" };
+          await complaint.save();
+        }
+      }
+    } catch (err) {
+      if (err.name === "DocumentNotFoundError") {
+        return res.status(409).json({ error: "Complaint has already been resolved" });
+      }
+      if (!err.statusCode) throw err;
+      return res.status(err.statusCode).json({ error: err.message });
+    } finally {
+      complaint.$where = undefined;
+    }
+    await resolved.populate("reprintOrder", "orderNumber status");
+
+    return res.json({
+      message: warning || "Complaint resolved",
+      warning,
+      data: serializeComplaint(resolved),
+    });
+  } catch (err) {
+    console.log("RESOLVE COMPLAINT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: complaints by reason and by product over a date range
+export const getComplaintReport = async (req, res) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from) : null;
+    const to = req.query.to ? new Date(`${req.query.to}T23:59:59.999`) : null;
+    if ((from && isNaN(from)) || (to && isNaN(to))) {
+      return res.status(400).json({ error: "Invalid date range" });
+    }
+
+    const report = await getComplaintReasonReport({ from, to });
+    return res.json({ success: true, data: report });
+  } catch (err) {
+    console.log("COMPLAINT REPORT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
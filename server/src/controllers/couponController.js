@@ -0,0 +1,184 @@
+import Coupon from "../models/couponModal.js";
+import { normalizeCouponCode } from "../utils/couponHelper.js";
+
+const parseOptionalNumber = (value) => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? NaN : parsed;
+};
+
+const parseOptionalDate = (value) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? NaN : date;
+};
+
+// Build coupon fields from the request body, returns { data } or { error }
+const buildCouponData = (body, existing = null) => {
+  const data = {};
+
+  if (body.code !== undefined) {
+    data.code = normalizeCouponCode(body.code);
+    if (!data.code) return { error: "Coupon code is required." };
+    if (!/^[A-Z0-9_-]+$/.test(data.code)) {
+      return { error: "Coupon code can only contain letters, numbers, '-' and '_'." };
+    }
+  }
+  if (body.description !== undefined) data.description = body.description || "";
+
+  if (body.discountType !== undefined) {
+    if (!["PERCENT", "FLAT"].includes(body.discountType)) {
+      return { error: "discountType must be PERCENT or FLAT." };
+    }
+    data.discountType = body.discountType;
+  }
+  if (body.discountValue !== undefined) {
+    data.discountValue = parseFloat(body.discountValue);
+    if (isNaN(data.discountValue) || data.discountValue <= 0) {
+      return { error: "Discount value must be a positive number." };
+    }
+  }
+  const discountType = data.discountType || existing?.discountType;
+  const discountValue = data.discountValue ?? existing?.discountValue;
+  if (discountType === "PERCENT" && discountValue > 100) {
+    return { error: "Percentage discount cannot be more than 100." };
+  }
+
+  for (const field of ["maxDiscountAmount", "usageLimit", "perUserLimit"]) {
+    if (body[field] === undefined) continue;
+    const value = parseOptionalNumber(body[field]);
+    if (Number.isNaN(value) || (value !== null && value < 0)) {
+      return { error: `${field} must be a non-negative number.` };
+    }
+    data[field] = value;
+  }
+  if (body.minOrderValue !== undefined) {
+    const value = parseOptionalNumber(body.minOrderValue);
+    if (Number.isNaN(value) || (value !== null && value < 0)) {
+      return { error: "minOrderValue must be a non-negative number." };
+    }
+    data.minOrderValue = value || 0;
+  }
+
+  for (const field of ["validFrom", "validUntil"]) {
+    if (body[field] === undefined) continue;
+    const value = parseOptionalDate(body[field]);
+    if (Number.isNaN(value)) return { error: `${field} is not a valid date.` };
+    data[field] = value;
+  }
+  const validFrom = data.validFrom !== undefined ? data.validFrom : existing?.validFrom;
+  const validUntil = data.validUntil !== undefined ? data.validUntil : existing?.validUntil;
+  if (validFrom && validUntil && validFrom > validUntil) {
+    return { error: "validUntil must be after validFrom." };
+  }
+
+  if (body.applicableCategories !== undefined) data.applicableCategories = body.applicableCategories || [];
+  if (body.applicableProducts !== undefined) data.applicableProducts = body.applicableProducts || [];
+  if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+
+  return { data };
+};
+
+// Create a new coupon
+export const createCoupon = async (req, res) => {
+  try {
+    if (!req.body.code || !req.body.discountType || req.body.discountValue === undefined) {
+      return res.status(400).json({ error: "Missing required fields: code, discountType, discountValue" });
+    }
+
+    const { data, error } = buildCouponData(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const existingCoupon = await Coupon.findOne({ code: data.code });
+    if (existingCoupon) {
+      return res.status(400).json({ error: "Coupon with this code already exists." });
+    }
+
+    const coupon = await Coupon.create(data);
+
+    return res.json({
+      success: true,
+      message: "Coupon created successfully",
+      data: coupon,
+    });
+  } catch (err) {
+    console.log("COUPON CREATE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Get all coupons
+export const getAllCoupons = async (req, res) => {
+  try {
+    const coupons = await Coupon.find()
+      .populate("applicableCategories", "_id name")
+      .populate("applicableProducts", "_id name")
+      .sort({ createdAt: -1 });
+
+    return res.json({
+      success: true,
+      data: coupons,
+    });
+  } catch (err) {
+    console.log("GET COUPONS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Update coupon
+export const updateCoupon = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+
+    const { data, error } = buildCouponData(req.body, coupon);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    if (data.code && data.code !== coupon.code) {
+      const existingCoupon = await Coupon.findOne({ code: data.code });
+      if (existingCoupon) {
+        return res.status(400).json({ error: "Coupon with this code already exists." });
+      }
+    }
+
+    Object.assign(coupon, data);
+    await coupon.save();
+
+    return res.json({
+      success: true,
+      message: "Coupon updated successfully",
+      data: coupon,
+    });
+  } catch (err) {
+    console.log("UPDATE COUPON ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Delete coupon (orders keep their coupon snapshot)
+export const deleteCoupon = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findByIdAndDelete(id);
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+
+    return res.json({
+      success: true,
+      message: "Coupon deleted successfully",
+    });
+  } catch (err) {
+    console.log("DELETE COUPON ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
@@ -0,0 +1,174 @@
+import DeliveryZone from "../models/deliveryZoneModal.js";
+import { findDeliveryZoneForPincode } from "../utils/deliveryZoneHelper.js";
+
+const parseAmount = (value) => {
+  if (value === undefined || value === null || value === "") return 0;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? NaN : parsed;
+};
+
+// Build delivery zone fields from the request body, returns { data } or { error }
+const buildDeliveryZoneData = (body, existing = null) => {
+  const data = {};
+
+  if (body.name !== undefined) {
+    data.name = String(body.name || "").trim();
+    if (!data.name) return { error: "Zone name is required." };
+  }
+  if (body.description !== undefined) data.description = body.description || "";
+  if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+
+  for (const field of ["flatRate", "ratePerKg", "freeShippingThreshold", "minOrderValue"]) {
+    if (body[field] === undefined) continue;
+    const value = parseAmount(body[field]);
+    if (isNaN(value) || value < 0) return { error: `${field} must be a non-negative number.` };
+    data[field] = value;
+  }
+
+  if (body.priority !== undefined) {
+    const priority = parseAmount(body.priority);
+    if (isNaN(priority)) return { error: "Priority must be a number." };
+    data.priority = priority;
+  }
+
+  if (body.pincodePrefixes !== undefined) {
+    const prefixes = Array.isArray(body.pincodePrefixes)
+      ? body.pincodePrefixes
+      : String(body.pincodePrefixes || "").split(",");
+    data.pincodePrefixes = [];
+    for (const raw of prefixes) {
+      const prefix = String(raw || "").trim();
+      if (!prefix) continue;
+      if (!/^\d{1,6}$/.test(prefix)) {
+        return { error: `Invalid pincode prefix "${prefix}". Use 1 to 6 digits.` };
+      }
+      data.pincodePrefixes.push(prefix);
+    }
+  }
+
+  if (body.pincodeRanges !== undefined) {
+    data.pincodeRanges = [];
+    for (const range of body.pincodeRanges || []) {
+      const from = parseInt(range.from);
+      const to = parseInt(range.to);
+      if (isNaN(from) || isNaN(to) || from < 100000 || to > 999999 || from > to) {
+        return { error: "Each pincode range needs a valid 6-digit from and to (from <= to)." };
+      }
+      data.pincodeRanges.push({ from, to });
+    }
+  }
+
+  const prefixes = data.pincodePrefixes !== undefined ? data.pincodePrefixes : existing?.pincodePrefixes || [];
+  const ranges = data.pincodeRanges !== undefined ? data.pincodeRanges : existing?.pincodeRanges || [];
+  if (prefixes.length === 0 && ranges.length === 0) {
+    return { error: "A zone needs at least one pincode prefix or range." };
+  }
+
+  return { data };
+};
+
+// Create a new delivery zone
+export const createDeliveryZone = async (req, res) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ error: "Missing required field: name" });
+    }
+
+    const { data, error } = buildDeliveryZoneData(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const zone = await DeliveryZone.create(data);
+
+    return res.json({
+      success: true,
+      message: "Delivery zone created successfully",
+      data: zone,
+    });
+  } catch (err) {
+    console.log("DELIVERY ZONE CREATE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Get all delivery zones
+export const getAllDeliveryZones = async (req, res) => {
+  try {
+    const zones = await DeliveryZone.find().sort({ priority: -1, createdAt: -1 });
+
+    return res.json({
+      success: true,
+      data: zones,
+    });
+  } catch (err) {
+    console.log("GET DELIVERY ZONES ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Update delivery zone
+export const updateDeliveryZone = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const zone = await DeliveryZone.findById(id);
+    if (!zone) {
+      return res.status(404).json({ error: "Delivery zone not found" });
+    }
+
+    const { data, error } = buildDeliveryZoneData(req.body, zone);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    Object.assign(zone, data);
+    await zone.save();
+
+    return res.json({
+      success: true,
+      message: "Delivery zone updated successfully",
+      data: zone,
+    });
+  } catch (err) {
+    console.log("UPDATE DELIVERY ZONE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Delete delivery zone (orders keep the shipping they were placed with)
+export const deleteDeliveryZone = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const zone = await DeliveryZone.findByIdAndDelete(id);
+    if (!zone) {
+      return res.status(404).json({ error: "Delivery zone not found" });
+    }
+
+    return res.json({
+      success: true,
+      message: "Delivery zone deleted successfully",
+    });
+  } catch (err) {
+    console.log("DELETE DELIVERY ZONE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Shipping rates for a delivery pincode (null when no zone covers it)
+export const getDeliveryZoneForPincode = async (req, res) => {
+  try {
+    const { pincode } = req.params;
+    if (!/^\d{6}$/.test(String(pincode || ""))) {
+      return res.status(400).json({ error: "Pincode must be 6 digits." });
+    }
+
+    const deliveryZone = await findDeliveryZoneForPincode(pincode);
+
+    return res.json({ deliveryZone });
+  } catch (err) {
+    console.log("GET DELIVERY ZONE FOR PINCODE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
@@ -1,12 +1,16 @@
 import Order from "../models/orderModal.js";
 import Department from "../models/departmentModal.js";
 import Product from "../models/productModal.js";
+import { designToImageUrls } from "../utils/designUploadHelper.js";
+import { findOrderLine, getProductDepartments, isLineProductionComplete } from "../utils/orderDepartmentHelper.js";
+import { transitionOrderStatus } from "../utils/orderStatusHelper.js";
 
 // Department action: Start, Pause, Stop, Resume, Complete
 export const departmentAction = async (req, res) => {
   try {
     const { orderId, departmentId } = req.params;
     const { action, notes } = req.body;
+    const lineId = req.body.lineId || req.query.lineId; // Line item of a cart order
     const operatorId = req.user?.id; // Get operator from authenticated user
 
     // Validate action
@@ -16,17 +20,28 @@ export const departmentAction = async (req, res) => {
     }
 
     // Find order with product populated
-    const order = await Order.findById(orderId).populate("product");
+    const order = await Order.findById(orderId).populate("product").populate("items.product");
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
 
-    // Check if order is approved (status must be "approved", "processing", or "completed")
-    if (order.status === "request") {
+    // Cart orders route each line separately; a single-product order is its own line
+    const line = findOrderLine(order, lineId);
+    if (!line) {
+      return res.status(400).json({
+        error: lineId ? "Order line not found" : "lineId is required for orders with more than one line",
+      });
+    }
+
+    // Check if order is in production (status must be "approved" or "processing")
+    if (order.status === "request" || order.status === "production_ready") {
       return res.status(400).json({ 
-        error: "Order must be approved by admin before starting production. Current status: request" 
+        error: `Order must be approved by admin before starting production. Current status: ${order.status}` 
       });
     }
+    if (order.status !== "approved" && order.status !== "processing") {
+      return res.status(400).json({ error: `Order is ${order.status} - production actions are not allowed` });
+    }
 
     // Find department
     const department = await Department.findById(departmentId);
@@ -54,7 +69,7 @@ export const departmentAction = async (req, res) => {
     }
 
     // Get product to find production sequence - handle both populated and unpopulated cases
-    const productId = order.product._id || order.product;
+    const productId = line.product._id || line.product;
     const product = await Product.findById(productId).populate("productionSequence");
     if (!product) {
       return res.status(404).json({ error: "Product not found" });
@@ -81,7 +96,7 @@ export const departmentAction = async (req, res) => {
     );
 
     // Initialize department status if not exists (MUST be done before validation)
-    let deptStatus = order.departmentStatuses?.find(
+    let deptStatus = line.departmentStatuses?.find(
       (ds) => ds.department.toString() === departmentId
     );
 
@@ -97,11 +112,11 @@ export const departmentAction = async (req, res) => {
         operator: null,
         notes: "",
       };
-      if (!order.departmentStatuses) {
-        order.departmentStatuses = [];
+      if (!line.departmentStatuses) {
+        line.departmentStatuses = [];
       }
-      order.departmentStatuses.push(deptStatus);
-      deptStatus = order.departmentStatuses[order.departmentStatuses.length - 1];
+      line.departmentStatuses.push(deptStatus);
+      deptStatus = line.departmentStatuses[line.departmentStatuses.length - 1];
     }
 
     // Validate: Can only start if department has received a request (status: "pending")
@@ -141,12 +156,9 @@ export const departmentAction = async (req, res) => {
         deptStatus.pausedAt = null;
         deptStatus.stoppedAt = null;
         // Update current department when department starts work
-        order.currentDepartment = departmentId;
-        order.currentDepartmentIndex = currentDeptIndex;
-        // Change order status to "processing" when first department starts
-        if (order.status === "approved") {
-          order.status = "processing";
-        }
+        line.currentDepartment = departmentId;
+        line.currentDepartmentIndex = currentDeptIndex;
+        // Order status changes to "processing" when first department starts (below)
         break;
       case "pause":
         deptStatus.status = "paused";
@@ -171,8 +183,8 @@ export const departmentAction = async (req, res) => {
     }
 
     // Add to production timeline
-    if (!order.productionTimeline) {
-      order.productionTimeline = [];
+    if (!line.productionTimeline) {
+      line.productionTimeline = [];
     }
     
     // Map action to timeline action format (must match enum in Order model: ["started", "paused", "resumed", "stopped", "completed"])
@@ -185,7 +197,7 @@ export const departmentAction = async (req, res) => {
     };
     const timelineAction = actionMap[action] || "started";
     
-    order.productionTimeline.push({
+    line.productionTimeline.push({
       department: departmentId,
       action: timelineAction,
       timestamp: now,
@@ -196,7 +208,7 @@ export const departmentAction = async (req, res) => {
     // Update overall order status based on department progress
     // Only check departments that are in the sequence for this product
     const sequenceDeptIds = new Set(departmentsInSequence.map(d => d._id.toString()));
-    const relevantDeptStatuses = (order.departmentStatuses || []).filter(
+    const relevantDeptStatuses = (line.departmentStatuses || []).filter(
       ds => {
         const deptId = typeof ds.department === 'object' ? ds.department._id?.toString() : ds.department?.toString();
         return sequenceDeptIds.has(deptId);
@@ -208,13 +220,40 @@ export const departmentAction = async (req, res) => {
     const anyInProgress = relevantDeptStatuses.some(ds => ds.status === "in_progress");
     const anyStopped = relevantDeptStatuses.some(ds => ds.status === "stopped");
 
+    // A cart order is only completed once every line has been through its whole sequence
+    const lineCompleted = allCompleted && relevantDeptStatuses.length === departmentsInSequence.length;
+    let otherLinesCompleted = true;
+    if (lineCompleted && line !== order) {
+      for (const otherLine of order.items) {
+        if (otherLine._id.equals(line._id)) continue;
+        const otherDepartments = await getProductDepartments(otherLine.product._id || otherLine.product);
+        if (!isLineProductionComplete(otherLine, otherDepartments)) {
+          otherLinesCompleted = false;
+          break;
+        }
+      }
+    }
+
+    let nextStatus = order.status;
     if (anyStopped) {
-      order.status = "processing"; // Keep as processing if stopped (may need reprint)
-    } else if (allCompleted && relevantDeptStatuses.length === departmentsInSequence.length) {
-      // All departments in sequence are completed
-      order.status = "completed";
+      nextStatus = "processing"; // Keep as processing if stopped (may need reprint)
+    } else if (lineCompleted && otherLinesCompleted) {
+      // All departments in sequence are completed (for every line)
+      nextStatus = "completed";
     } else if (anyInProgress || action === "start") {
-      order.status = "processing";
+      nextStatus = "processing";
+    }
+
+    try {
+      transitionOrderStatus(order, nextStatus, {
+        actor: req.user,
+        reason: `${department.name}: ${timelineAction}`,
+      });
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message });
+      }
+      throw err;
     }
 
     await order.save();
@@ -224,7 +263,7 @@ export const departmentAction = async (req, res) => {
       const nextDept = departmentsInSequence[currentDeptIndex + 1];
       if (nextDept) {
         // Check if next department status exists
-        let nextDeptStatus = order.departmentStatuses?.find(
+        let nextDeptStatus = line.departmentStatuses?.find(
           (ds) => ds.department.toString() === nextDept._id.toString()
         );
 
@@ -251,10 +290,10 @@ export const departmentAction = async (req, res) => {
               operator: null,
               notes: "",
             };
-            if (!order.departmentStatuses) {
-              order.departmentStatuses = [];
+            if (!line.departmentStatuses) {
+              line.departmentStatuses = [];
             }
-            order.departmentStatuses.push(nextDeptStatus);
+            line.departmentStatuses.push(nextDeptStatus);
           } else {
             // Update existing status to pending if it was stopped or doesn't have a status
             if (nextDeptStatus.status === "stopped" || !nextDeptStatus.status) {
@@ -266,23 +305,23 @@ export const departmentAction = async (req, res) => {
               nextDeptStatus.whenAssigned = nextNow;
             }
             // Update the status in the array
-            const deptStatusIndex = order.departmentStatuses.findIndex(
+            const deptStatusIndex = line.departmentStatuses.findIndex(
               (ds) => ds.department.toString() === nextDept._id.toString()
             );
             if (deptStatusIndex >= 0) {
-              order.departmentStatuses[deptStatusIndex] = nextDeptStatus;
+              line.departmentStatuses[deptStatusIndex] = nextDeptStatus;
             }
           }
 
           // Update current department to next department
-          order.currentDepartment = nextDept._id;
-          order.currentDepartmentIndex = nextDeptIndex;
+          line.currentDepartment = nextDept._id;
+          line.currentDepartmentIndex = nextDeptIndex;
 
           // Add to production timeline
-          if (!order.productionTimeline) {
-            order.productionTimeline = [];
+          if (!line.productionTimeline) {
+            line.productionTimeline = [];
           }
-          order.productionTimeline.push({
+          line.productionTimeline.push({
             department: nextDept._id,
             action: "requested",
             timestamp: nextNow,
@@ -290,7 +329,7 @@ export const departmentAction = async (req, res) => {
             notes: `Request sent after "${department.name}" completed`,
           });
 
-          order.status = "processing"; // Ensure order is in processing status
+          // Order is already "processing" - the first department started it
 
           // Save order again after sending request to next department
           await order.save();
@@ -323,15 +362,15 @@ export const departmentAction = async (req, res) => {
       path: "productionTimeline.department",
       select: "name",
     });
+    await order.populate([
+      { path: "items.departmentStatuses.department", select: "name sequence" },
+      { path: "items.departmentStatuses.operator", select: "name email" },
+    ]);
     
-    // Convert uploaded design buffers to base64 for frontend
+    // Links to the design files for frontend
     const orderObj = order.toObject();
-    if (order.uploadedDesign?.frontImage?.data) {
-      orderObj.uploadedDesign.frontImage.data = `data:${order.uploadedDesign.frontImage.contentType};base64,${order.uploadedDesign.frontImage.data.toString("base64")}`;
-    }
-    if (order.uploadedDesign?.backImage?.data) {
-      orderObj.uploadedDesign.backImage.data = `data:${order.uploadedDesign.backImage.contentType};base64,${order.uploadedDesign.backImage.data.toString("base64")}`;
-    }
+    designToImageUrls(orderObj.uploadedDesign);
+    orderObj.items.forEach((item) => designToImageUrls(item.uploadedDesign));
 
     return res.json({
       success: true,
@@ -378,31 +417,21 @@ export const getDepartmentOrders = async (req, res) => {
     }
 
     // Build query to find orders where this specific department has the requested status
-    // Use $elemMatch to match orders where departmentStatuses array contains an entry with this department
+    // Use $elemMatch to match orders (or cart order lines) whose departmentStatuses contain an entry with this department
+    const deptStatusMatch = status ? { department: departmentId, status: status } : { department: departmentId };
     let query = {
-      "departmentStatuses": {
-        $elemMatch: {
-          department: departmentId,
-        }
-      },
+      $or: [
+        { departmentStatuses: { $elemMatch: deptStatusMatch } },
+        { "items.departmentStatuses": { $elemMatch: deptStatusMatch } },
+      ],
       // Only show orders that are approved or processing (approved = sent to first dept, processing = work started)
       status: { $in: ["approved", "processing", "completed"] }
     };
 
-    if (status) {
-      query["departmentStatuses"] = {
-        $elemMatch: {
-          department: departmentId,
-          status: status,
-        }
-      };
-      query.status = { $in: ["approved", "processing", "completed"] };
-    }
-
     // Optimized query: use lean() and exclude heavy fields for faster loading
     // Note: selectedOptions and selectedDynamicAttributes are included by default (not excluded)
     const orders = await Order.find(query)
-      .select("-uploadedDesign -notes -adminNotes -designTimeline -productionTimeline -courierTimeline -productionDetails") // Exclude heavy fields, but keep selectedOptions and selectedDynamicAttributes
+      .select("-uploadedDesign -notes -adminNotes -designTimeline -productionTimeline -courierTimeline -productionDetails -items.uploadedDesign -items.productionTimeline") // Exclude heavy fields, but keep selectedOptions and selectedDynamicAttributes
       .populate("user", "name email")
       .populate({
         path: "product",
@@ -421,9 +450,43 @@ export const getDepartmentOrders = async (req, res) => {
         path: "departmentStatuses.operator",
         select: "name email",
       })
+      .populate({
+        path: "items.product",
+        select: "name image basePrice subcategory gstPercentage productionSequence",
+        populate: [
+          { path: "subcategory", select: "name image", populate: { path: "category", select: "name" } },
+          { path: "productionSequence", select: "name sequence _id" },
+        ]
+      })
+      .populate("items.currentDepartment", "name sequence")
+      .populate({
+        path: "items.departmentStatuses.department",
+        select: "name sequence",
+      })
+      .populate({
+        path: "items.departmentStatuses.operator",
+        select: "name email",
+      })
       .sort({ createdAt: -1 })
       .lean(); // Use lean() for faster queries
 
+    // Each line of a cart order is routed on its own, so it is listed as its own entry
+    // with the line's product, configuration and department statuses over the order fields
+    const orderEntries = orders.flatMap((order) => {
+      if (!order.items || order.items.length === 0) {
+        return [order];
+      }
+      return order.items.map((line, index) => ({
+        ...order,
+        ...line,
+        _id: order._id,
+        items: undefined,
+        lineId: line._id,
+        lineNumber: index + 1,
+        lineCount: order.items.length,
+      }));
+    });
+
     // Performance optimization: Batch collect all unique department IDs from all orders
     // to avoid N+1 query problem
     const allDeptIdsSet = new Set();
@@ -450,7 +513,7 @@ export const getDepartmentOrders = async (req, res) => {
     // Filter orders: only show if department is in sequence and all previous departments are completed
     const filteredOrders = [];
     
-    for (const order of orders) {
+    for (const order of orderEntries) {
       const deptStatus = order.departmentStatuses?.find(
         (ds) => {
           const deptId = typeof ds.department === 'object' ? ds.department._id?.toString() : ds.department?.toString();
@@ -578,21 +641,16 @@ export const getDepartmentOrders = async (req, res) => {
       filteredOrders.push(order);
     }
 
-    // Convert uploaded design buffers to base64 for frontend (only if needed)
-    // Performance: Only convert images when explicitly requested via query param
+    // Links to the design files for frontend (only if needed)
+    // Performance: Only include images when explicitly requested via query param
     const includeImages = req.query.includeImages === 'true';
     const ordersWithImages = filteredOrders.map((order) => {
-      const orderObj = order.toObject();
+      const orderObj = { ...order };
       
-      // Only convert images if explicitly requested (for detail views)
+      // Only include images if explicitly requested (for detail views)
       // For list views, exclude image data to reduce payload size
       if (includeImages) {
-        if (order.uploadedDesign?.frontImage?.data) {
-          orderObj.uploadedDesign.frontImage.data = `data:${order.uploadedDesign.frontImage.contentType};base64,${order.uploadedDesign.frontImage.data.toString("base64")}`;
-        }
-        if (order.uploadedDesign?.backImage?.data) {
-          orderObj.uploadedDesign.backImage.data = `data:${order.uploadedDesign.backImage.contentType};base64,${order.uploadedDesign.backImage.data.toString("base64")}`;
-        }
+        designToImageUrls(orderObj.uploadedDesign);
       } else {
         // Remove image data to reduce payload size for list views
         if (orderObj.uploadedDesign?.frontImage) {
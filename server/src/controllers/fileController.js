@@ -0,0 +1,49 @@
+import { pipeline } from "stream/promises";
+import { statFile, createFileReadStream } from "../utils/fileStore.js";
+
+// Raster image types safe to show in the browser; anything else is only ever downloaded
+const INLINE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// Design file streamed in by streamDesignFile; send its reference as uploadedDesign.frontImage/backImage
+export const uploadDesignFile = (req, res) => {
+  if (!req.file?.storedFile) {
+    return res.status(400).json({ error: "No design file provided (field \"file\")" });
+  }
+  res.status(201).json({ file: req.file.storedFile });
+};
+
+// Stream a stored file. Without a signed link, customers can only read their own files.
+export const downloadFile = async (req, res) => {
+  try {
+    const { storage, fileId } = req.params;
+    const file = await statFile({ storage, fileId }).catch(() => null);
+    if (!file) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const canReadAny = req.user?.role === "admin" || req.user?.role === "emp";
+    if (!req.signedFileAccess && !canReadAny && file.metadata?.owner !== req.user._id.toString()) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const contentType = file.contentType || "application/octet-stream";
+    const disposition = req.query.download === "true" || !INLINE_CONTENT_TYPES.includes(contentType) ? "attachment" : "inline";
+    res.set({
+      "Content-Type": contentType,
+      "X-Content-Type-Options": "nosniff",
+      "Content-Length": file.size,
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(file.filename || fileId)}`,
+      // Stored files never change
+      "Cache-Control": "private, max-age=86400, immutable",
+    });
+    await pipeline(createFileReadStream({ storage, fileId }), res);
+  } catch (error) {
+    // The download was cancelled
+    if (error.code === "ERR_STREAM_PREMATURE_CLOSE") return;
+    console.error("Download file error:", error);
+    if (res.headersSent) {
+      return res.destroy(error);
+    }
+    res.status(500).json({ error: "Failed to download file" });
+  }
+};
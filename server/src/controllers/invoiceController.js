@@ -0,0 +1,90 @@
+import { pipeline } from "stream/promises";
+import Order from "../models/orderModal.js";
+import { issueOrderInvoice, storeInvoicePdf } from "../utils/invoiceHelper.js";
+import { statFile, createFileReadStream } from "../utils/fileStore.js";
+
+const isValidId = (id) => Boolean(id) && /^[0-9a-fA-F]{24}$/.test(id);
+
+const serializeInvoice = (order) => ({
+  invoiceNumber: order.invoiceNumber,
+  invoiceGeneratedAt: order.invoiceGeneratedAt,
+  invoiceUrl: order.invoiceUrl,
+});
+
+// Download an order's invoice PDF (the customer's own order, or any order for admins and employees)
+export const downloadOrderInvoice = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const orderQuery = ["admin", "emp"].includes(req.user.role) ? { _id: orderId } : { _id: orderId, user: req.user.id };
+    const order = await Order.findOne(orderQuery);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (!order.invoiceNumber) {
+      return res.status(404).json({ error: "No invoice has been issued for this order yet" });
+    }
+    // The PDF is normally stored right after issuing; render it now if that failed
+    const invoiceFile = await storeInvoicePdf(order);
+    const file = await statFile(invoiceFile).catch(() => null);
+    if (!file) {
+      console.error(`Invoice file of ${order.invoiceNumber} is missing from the file store`);
+      return res.status(404).json({ error: "Invoice file not found" });
+    }
+
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Length": file.size,
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.filename || "invoice.pdf")}`,
+      // Issued invoices never change
+      "Cache-Control": "private, max-age=86400, immutable",
+    });
+    await pipeline(createFileReadStream(invoiceFile), res);
+  } catch (err) {
+    // The download was cancelled
+    if (err.code === "ERR_STREAM_PREMATURE_CLOSE") return;
+    console.log("DOWNLOAD INVOICE ERROR ===>", err);
+    if (res.headersSent) {
+      return res.destroy(err);
+    }
+    return res.status(500).json({ error: "Failed to download invoice" });
+  }
+};
+
+// Admin: issue an order's invoice now (whatever INVOICE_TRIGGER is)
+export const issueInvoice = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    // Issued meanwhile (e.g. by a shipment) - the admin gets that invoice instead
+    if (order.invoiceNumber) {
+      return res.json({
+        message: `Invoice ${order.invoiceNumber} was already issued`,
+        data: serializeInvoice(order),
+      });
+    }
+
+    try {
+      await issueOrderInvoice(order);
+    } catch (err) {
+      if (!err.statusCode) throw err;
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+
+    return res.status(201).json({
+      message: `Invoice ${order.invoiceNumber} issued`,
+      data: serializeInvoice(order),
+    });
+  } catch (err) {
+    console.log("ISSUE INVOICE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
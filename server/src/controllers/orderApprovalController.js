@@ -1,6 +1,8 @@
 import Order from '../models/orderModal.js';
 import Product from '../models/productModal.js';
 import Department from '../models/departmentModal.js';
+import { sendOrderLinesToFirstDepartments } from '../utils/orderDepartmentHelper.js';
+import { transitionOrderStatus } from '../utils/orderStatusHelper.js';
 
 /**
  * Admin endpoint to approve order and ensure it's properly assigned to departments
@@ -27,6 +29,56 @@ export const approveOrderForProduction = async (req, res) => {
             });
         }
 
+        // Cancelled/rejected orders can't be approved
+        try {
+            transitionOrderStatus(order, 'approved', { actor: req.user });
+        } catch (err) {
+            if (err.statusCode) {
+                return res.status(err.statusCode).json({ error: err.message, currentStatus: order.status });
+            }
+            throw err;
+        }
+
+        // Cart orders: every line goes to the first department of its own product's sequence
+        if (order.items.length > 0) {
+            try {
+                await sendOrderLinesToFirstDepartments(order, { operator: req.user?.id || null });
+            } catch (err) {
+                if (err.statusCode) {
+                    return res.status(err.statusCode).json({ error: err.message });
+                }
+                throw err;
+            }
+
+            if (deliveryDate) {
+                order.deliveryDate = new Date(deliveryDate);
+            }
+            if (adminNotes !== undefined) {
+                order.adminNotes = adminNotes;
+            }
+            await order.save();
+            await order.populate({ path: 'items.departmentStatuses.department', select: 'name sequence' });
+
+            return res.status(200).json({
+                success: true,
+                message: `Order approved and ${order.items.length} line(s) assigned to departments`,
+                order: {
+                    _id: order._id,
+                    orderNumber: order.orderNumber,
+                    status: order.status,
+                    items: order.items.map(line => ({
+                        _id: line._id,
+                        departmentStatuses: line.departmentStatuses.map(ds => ({
+                            department: ds.department?.name || 'Unknown',
+                            status: ds.status,
+                            whenAssigned: ds.whenAssigned
+                        }))
+                    })),
+                    willShowInEmployeeDashboard: true
+                }
+            });
+        }
+
         // Get product with production sequence
         const productId = order.product._id || order.product;
         const product = await Product.findById(productId).populate('productionSequence');
@@ -121,8 +173,7 @@ export const approveOrderForProduction = async (req, res) => {
         order.currentDepartment = firstDept._id;
         order.currentDepartmentIndex = 0;
 
-        // CRITICAL: Set status to 'approved' so it shows in employee dashboard
-        order.status = 'approved';
+        // Status is already 'approved' (set above) so it shows in employee dashboard
 
         // Update delivery date and notes if provided
         if (deliveryDate) {
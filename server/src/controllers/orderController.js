@@ -1,10 +1,25 @@
 import Order from "../models/orderModal.js";
-import Product from "../models/productModal.js";
-import Department from "../models/departmentModal.js";
 import { User } from "../models/User.js";
-import sharp from "sharp";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { buildOrderQuote, assertClientTotalMatches, assertMinimumOrderValue } from "../utils/orderPricingHelper.js";
+import { redeemCoupon, releaseCoupon } from "../utils/couponHelper.js";
+import { processUploadedDesign, designToImageUrls } from "../utils/designUploadHelper.js";
+import { applyAdminOrderUpdate, runBulkOrderOperation, BULK_ORDER_OPERATIONS, MAX_BULK_ORDERS } from "../utils/orderUpdateHelper.js";
+import { previewOrderCancellation, cancelOrderWithRefund } from "../utils/cancellationHelper.js";
+import {
+  buildAdminOrderFilter,
+  buildOrderCursorCondition,
+  encodeOrderCursor,
+  getAdminOrderFacets,
+} from "../utils/orderFilterHelper.js";
+import {
+  ORDER_EXPORT_FORMATS,
+  ORDER_EXPORT_EXCLUDED_FIELDS,
+  buildOrderExportRows,
+  createCsvOrderWriter,
+  createXlsxOrderWriter,
+} from "../utils/orderExportHelper.js";
 // Email service temporarily disabled - uncomment when email configuration is ready
 // import { sendAccountCreationEmail, sendOrderConfirmationEmail } from "../utils/emailService.js";
 
@@ -17,8 +32,10 @@ export const createOrder = async (req, res) => {
       quantity,
       finish,
       shape,
+      textureType,
       selectedOptions,
       totalPrice,
+      couponCode,
       pincode,
       address,
       mobileNumber,
@@ -27,242 +44,76 @@ export const createOrder = async (req, res) => {
     } = req.body;
 
     // Validate required fields
-    if (!productId || !quantity || !finish || !shape || !totalPrice || !pincode || !address || !mobileNumber) {
+    if (!productId || !quantity || !finish || !shape || !pincode || !address || !mobileNumber) {
       return res.status(400).json({
-        error: "Missing required fields: productId, quantity, finish, shape, totalPrice, pincode, address, mobileNumber",
+        error: "Missing required fields: productId, quantity, finish, shape, pincode, address, mobileNumber",
       });
     }
 
-    // Verify product exists
-    const product = await Product.findById(productId);
-    if (!product) {
-      return res.status(404).json({ error: "Product not found" });
+    // Price the order on the server - the client total is only used to detect a stale price
+    let quote;
+    try {
+      quote = await buildOrderQuote({
+        productId,
+        quantity,
+        finish,
+        shape,
+        textureType,
+        selectedOptions,
+        selectedDynamicAttributes: req.body.selectedDynamicAttributes,
+        couponCode,
+        pincode,
+        deliveryState: req.body.deliveryState,
+        customSize: req.body.customSize,
+        userId,
+      });
+      assertClientTotalMatches(quote, totalPrice);
+      assertMinimumOrderValue(quote);
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({
+          error: err.message,
+          expectedTotal: err.expectedTotal,
+          breakdown: err.breakdown,
+        });
+      }
+      throw err;
     }
 
-    // Process uploaded design - convert base64 to Buffer and convert to CMYK format
-    let processedDesign = null;
-    if (uploadedDesign) {
-      processedDesign = {};
-      
-      if (uploadedDesign.frontImage && uploadedDesign.frontImage.data) {
-        try {
-          // Handle both base64 string and data URL format
-          let base64Data = uploadedDesign.frontImage.data;
-          if (typeof base64Data !== 'string') {
-            return res.status(400).json({ error: "Front image data must be a string." });
-          }
-          if (base64Data.includes(',')) {
-            base64Data = base64Data.split(',')[1];
-          }
-          // Validate base64 string
-          if (!base64Data || base64Data.trim().length === 0) {
-            return res.status(400).json({ error: "Front image data is empty." });
-          }
-          
-          // Convert base64 to Buffer
-          const imageBuffer = Buffer.from(base64Data, "base64");
-          
-          // Convert image to CMYK format using sharp
-          const cmykBuffer = await sharp(imageBuffer)
-            .toColourspace("cmyk")
-            .jpeg({
-              quality: 90,
-              chromaSubsampling: '4:4:4'
-            })
-            .toBuffer();
-          
-          processedDesign.frontImage = {
-            data: cmykBuffer,
-            contentType: "image/jpeg", // CMYK images are stored as JPEG
-            filename: (uploadedDesign.frontImage.filename || "front-design.png").replace(/\.(png|gif|webp)$/i, ".jpg"),
-          };
-        } catch (err) {
-          console.error("Error processing front image:", err);
-          console.error("Error details:", err.message);
-          return res.status(400).json({ 
-            error: "Invalid front image data format or conversion failed.",
-            details: process.env.NODE_ENV === 'development' ? err.message : undefined
-          });
-        }
-      } else {
-        return res.status(400).json({ error: "Front image is required." });
+    // Process uploaded design - convert to CMYK and keep it in the file store
+    let processedDesign;
+    try {
+      processedDesign = await processUploadedDesign(uploadedDesign, { owner: userId });
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message, details: err.details });
       }
-      
-      if (uploadedDesign.backImage && uploadedDesign.backImage.data) {
-        try {
-          // Handle both base64 string and data URL format
-          let base64Data = uploadedDesign.backImage.data;
-          if (typeof base64Data !== 'string') {
-            console.warn("Back image data is not a string, skipping.");
-          } else {
-            if (base64Data.includes(',')) {
-              base64Data = base64Data.split(',')[1];
-            }
-            if (base64Data && base64Data.trim().length > 0) {
-              // Convert base64 to Buffer
-              const imageBuffer = Buffer.from(base64Data, "base64");
-              
-              // Convert image to CMYK format using sharp
-              const cmykBuffer = await sharp(imageBuffer)
-                .toColourspace("cmyk")
-                .jpeg({
-                  quality: 90,
-                  chromaSubsampling: '4:4:4'
-                })
-                .toBuffer();
-              
-              processedDesign.backImage = {
-                data: cmykBuffer,
-                contentType: "image/jpeg", // CMYK images are stored as JPEG
-                filename: (uploadedDesign.backImage.filename || "back-design.png").replace(/\.(png|gif|webp)$/i, ".jpg"),
-              };
-            }
-          }
-        } catch (err) {
-          console.error("Error processing back image:", err);
-          // Back image is optional, so we'll just log the error and continue
-          console.warn("Skipping back image due to error:", err.message);
-        }
-      }
-    } else {
-      return res.status(400).json({ error: "Uploaded design is required." });
+      throw err;
     }
 
-    // Generate unique order number
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 10000);
-    const orderNumber = `ORD-${timestamp}-${String(random).padStart(4, "0")}`;
-
     // DO NOT initialize department statuses at order creation
     // Department statuses will be created only after admin approval
     // Order status is "request" - waiting for admin approval
     let departmentStatuses = [];
 
-    // Process selected options - enhance with description and image from product
-    let enhancedSelectedOptions = [];
-    if (selectedOptions && Array.isArray(selectedOptions)) {
-      enhancedSelectedOptions = selectedOptions.map((opt) => {
-        // Find matching option in product to get full details
-        const productOption = product.options?.find(
-          (pOpt) => pOpt._id?.toString() === opt.optionId || pOpt.name === opt.optionName
-        );
-        return {
-          optionId: opt.optionId || null,
-          optionName: opt.optionName || opt.name || "Option",
-          priceAdd: opt.priceAdd || 0,
-          description: opt.description || productOption?.description || null,
-          image: opt.image || productOption?.image || null,
-        };
-      });
-    }
-
-    // Process selected dynamic attributes
-    let processedDynamicAttributes = [];
-    if (req.body.selectedDynamicAttributes && Array.isArray(req.body.selectedDynamicAttributes)) {
-      processedDynamicAttributes = req.body.selectedDynamicAttributes.map((attr) => ({
-        attributeTypeId: attr.attributeTypeId || attr.attributeType?._id || null,
-        attributeName: attr.attributeName || attr.attributeType?.attributeName || "Attribute",
-        attributeValue: attr.attributeValue !== undefined ? attr.attributeValue : null,
-        label: attr.label || attr.attributeValue?.toString() || null,
-        priceMultiplier: attr.priceMultiplier || null,
-        priceAdd: attr.priceAdd || 0,
-        description: attr.description || null,
-        image: attr.image || null,
-      }));
-    } else if (req.body.selectedDynamicAttributes && typeof req.body.selectedDynamicAttributes === 'object') {
-      // Handle case where it's an object with attributeTypeId as keys
-      // This is the format from the frontend where selectedDynamicAttributes is { [attributeTypeId]: value }
-      // We need to get the product to match attribute types and get full details
-      const productWithAttrs = await Product.findById(productId)
-        .populate({
-          path: "dynamicAttributes.attributeType",
-          model: "AttributeType",
-        })
-        .lean();
-
-      if (productWithAttrs && productWithAttrs.dynamicAttributes) {
-        Object.keys(req.body.selectedDynamicAttributes).forEach((attrTypeId) => {
-          const value = req.body.selectedDynamicAttributes[attrTypeId];
-          if (value !== null && value !== undefined && value !== "") {
-            // Find the attribute in product
-            const productAttr = productWithAttrs.dynamicAttributes.find(
-              (attr) => attr.attributeType?._id?.toString() === attrTypeId
-            );
-            
-            if (productAttr && productAttr.attributeType) {
-              const attrType = productAttr.attributeType;
-              const customValues = productAttr.customValues || [];
-              const defaultValues = attrType.attributeValues || [];
-              const allValues = customValues.length > 0 ? customValues : defaultValues;
-
-              // Find the selected value details
-              let selectedValueDetails = null;
-              if (Array.isArray(value)) {
-                // Multiple selection
-                selectedValueDetails = allValues.filter((av) => value.includes(av.value));
-              } else {
-                // Single selection
-                selectedValueDetails = allValues.find((av) => av.value === value || av.value === value.toString());
-              }
-
-              if (selectedValueDetails) {
-                if (Array.isArray(selectedValueDetails)) {
-                  // Multiple values selected
-                  const labels = selectedValueDetails.map((sv) => sv.label || sv.value).join(", ");
-                  const totalPriceMultiplier = selectedValueDetails.reduce((sum, sv) => sum + (sv.priceMultiplier || 0), 0);
-                  processedDynamicAttributes.push({
-                    attributeTypeId: attrTypeId,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: labels,
-                    priceMultiplier: totalPriceMultiplier || null,
-                    priceAdd: 0, // Will be calculated based on multiplier
-                    description: selectedValueDetails.map((sv) => sv.description).filter(Boolean).join("; ") || null,
-                    image: selectedValueDetails[0]?.image || null,
-                  });
-                } else {
-                  // Single value selected
-                  processedDynamicAttributes.push({
-                    attributeTypeId: attrTypeId,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: selectedValueDetails.label || value?.toString() || null,
-                    priceMultiplier: selectedValueDetails.priceMultiplier || null,
-                    priceAdd: 0,
-                    description: selectedValueDetails.description || null,
-                    image: selectedValueDetails.image || null,
-                  });
-                }
-              } else {
-                // Value not found in predefined values, store as-is (for text/number inputs)
-                processedDynamicAttributes.push({
-                  attributeTypeId: attrTypeId,
-                  attributeName: attrType.attributeName || "Attribute",
-                  attributeValue: value,
-                  label: value?.toString() || null,
-                  priceMultiplier: null,
-                  priceAdd: 0,
-                  description: null,
-                  image: null,
-                });
-              }
-            }
-          }
-        });
-      }
-    }
-
     // Create order
     const orderData = {
       user: userId,
-      orderNumber: orderNumber, // Set orderNumber explicitly
       product: productId,
       quantity: parseInt(quantity),
       finish,
       shape,
-      selectedOptions: enhancedSelectedOptions,
-      selectedDynamicAttributes: processedDynamicAttributes,
-      totalPrice: parseFloat(totalPrice),
+      textureType: textureType || null,
+      customSize: quote.breakdown.customSize,
+      selectedOptions: quote.selectedOptions,
+      selectedDynamicAttributes: quote.selectedDynamicAttributes,
+      coupon: quote.orderCoupon,
+      priceList: quote.priceList,
+      deliveryZone: quote.deliveryZone,
+      shippingCharge: quote.breakdown.shippingCharge,
+      gstSplit: quote.breakdown.gstSplit,
+      pricingSnapshot: quote.pricingSnapshot,
+      totalPrice: quote.totalPrice,
       pincode,
       address,
       mobileNumber,
@@ -270,9 +121,9 @@ export const createOrder = async (req, res) => {
       notes: notes || "",
       status: "request",
       departmentStatuses: departmentStatuses,
-      // Payment information - only set if provided (order created after payment)
-      advancePaid: req.body.advancePaid ? parseFloat(req.body.advancePaid) : 0,
-      paymentStatus: req.body.paymentStatus || "pending",
+      // Payments are recorded by an admin, never taken from the customer's request
+      advancePaid: 0,
+      paymentStatus: "pending",
       paymentGatewayInvoiceId: req.body.paymentGatewayInvoiceId || null,
       // Legacy product specifications (kept for backward compatibility)
       paperGSM: req.body.paperGSM || null,
@@ -283,7 +134,23 @@ export const createOrder = async (req, res) => {
 
     const order = new Order(orderData);
 
-    await order.save();
+    if (quote.coupon) {
+      try {
+        await redeemCoupon(quote.coupon, userId);
+      } catch (err) {
+        if (err.statusCode) {
+          return res.status(err.statusCode).json({ error: err.message });
+        }
+        throw err;
+      }
+    }
+
+    try {
+      await order.save();
+    } catch (err) {
+      if (quote.coupon) await releaseCoupon(quote.coupon._id, { userId });
+      throw err;
+    }
     await order.populate({
       path: "product",
       select: "name image basePrice subcategory options discount description instructions attributes minFileWidth maxFileWidth minFileHeight maxFileHeight filters gstPercentage additionalDesignCharge productionSequence",
@@ -354,16 +221,16 @@ export const createOrderWithAccount = async (req, res) => {
       quantity,
       finish,
       shape,
+      textureType,
       selectedOptions,
       selectedDynamicAttributes,
       totalPrice,
+      couponCode,
       pincode,
       address,
       uploadedDesign,
       notes,
       // Payment information
-      advancePaid,
-      paymentStatus,
       paymentGatewayInvoiceId,
       // Legacy fields
       paperGSM,
@@ -379,12 +246,41 @@ export const createOrderWithAccount = async (req, res) => {
       });
     }
 
-    if (!productId || !quantity || !finish || !shape || !totalPrice || !pincode || !address) {
+    if (!productId || !quantity || !finish || !shape || !pincode || !address) {
       return res.status(400).json({
-        error: "Missing required order fields: productId, quantity, finish, shape, totalPrice, pincode, address",
+        error: "Missing required order fields: productId, quantity, finish, shape, pincode, address",
       });
     }
 
+    // Price the order on the server before creating any account
+    let quote;
+    try {
+      quote = await buildOrderQuote({
+        productId,
+        quantity,
+        finish,
+        shape,
+        textureType,
+        selectedOptions,
+        selectedDynamicAttributes,
+        couponCode,
+        pincode,
+        deliveryState: req.body.deliveryState,
+        customSize: req.body.customSize,
+      });
+      assertClientTotalMatches(quote, totalPrice);
+      assertMinimumOrderValue(quote);
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({
+          error: err.message,
+          expectedTotal: err.expectedTotal,
+          breakdown: err.breakdown,
+        });
+      }
+      throw err;
+    }
+
     // Check if user already exists
     let user = await User.findOne({ email });
     let isNewUser = false;
@@ -410,206 +306,38 @@ export const createOrderWithAccount = async (req, res) => {
       // await sendAccountCreationEmail(email, name, tempPassword);
     }
 
-    // Verify product exists
-    const product = await Product.findById(productId);
-    if (!product) {
-      return res.status(404).json({ error: "Product not found" });
-    }
-
-    // Process uploaded design - convert base64 to Buffer and convert to CMYK format
-    let processedDesign = null;
-    if (uploadedDesign) {
-      processedDesign = {};
-      
-      if (uploadedDesign.frontImage && uploadedDesign.frontImage.data) {
-        try {
-          let base64Data = uploadedDesign.frontImage.data;
-          if (typeof base64Data !== 'string') {
-            return res.status(400).json({ error: "Front image data must be a string." });
-          }
-          if (base64Data.includes(',')) {
-            base64Data = base64Data.split(',')[1];
-          }
-          if (!base64Data || base64Data.trim().length === 0) {
-            return res.status(400).json({ error: "Front image data is empty." });
-          }
-          
-          const imageBuffer = Buffer.from(base64Data, "base64");
-          const cmykBuffer = await sharp(imageBuffer)
-            .toColourspace("cmyk")
-            .jpeg({
-              quality: 90,
-              chromaSubsampling: '4:4:4'
-            })
-            .toBuffer();
-          
-          processedDesign.frontImage = {
-            data: cmykBuffer,
-            contentType: "image/jpeg",
-            filename: (uploadedDesign.frontImage.filename || "front-design.png").replace(/\.(png|gif|webp)$/i, ".jpg"),
-          };
-        } catch (err) {
-          console.error("Error processing front image:", err);
-          return res.status(400).json({ 
-            error: "Invalid front image data format or conversion failed.",
-            details: process.env.NODE_ENV === 'development' ? err.message : undefined
-          });
-        }
-      } else {
-        return res.status(400).json({ error: "Front image is required." });
-      }
-      
-      if (uploadedDesign.backImage && uploadedDesign.backImage.data) {
-        try {
-          let base64Data = uploadedDesign.backImage.data;
-          if (typeof base64Data !== 'string') {
-            console.warn("Back image data is not a string, skipping.");
-          } else {
-            if (base64Data.includes(',')) {
-              base64Data = base64Data.split(',')[1];
-            }
-            if (base64Data && base64Data.trim().length > 0) {
-              const imageBuffer = Buffer.from(base64Data, "base64");
-              const cmykBuffer = await sharp(imageBuffer)
-                .toColourspace("cmyk")
-                .jpeg({
-                  quality: 90,
-                  chromaSubsampling: '4:4:4'
-                })
-                .toBuffer();
-              
-              processedDesign.backImage = {
-                data: cmykBuffer,
-                contentType: "image/jpeg",
-                filename: (uploadedDesign.backImage.filename || "back-design.png").replace(/\.(png|gif|webp)$/i, ".jpg"),
-              };
-            }
-          }
-        } catch (err) {
-          console.warn("Skipping back image due to error:", err.message);
-        }
+    // Process uploaded design - convert to CMYK and keep it in the file store
+    let processedDesign;
+    try {
+      processedDesign = await processUploadedDesign(uploadedDesign, { owner: user._id });
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message, details: err.details });
       }
-    } else {
-      return res.status(400).json({ error: "Uploaded design is required." });
+      throw err;
     }
 
-    // Generate unique order number
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 10000);
-    const orderNumber = `ORD-${timestamp}-${String(random).padStart(4, "0")}`;
-
     // DO NOT initialize department statuses at order creation
     let departmentStatuses = [];
 
-    // Process selected options - enhance with description and image from product
-    let enhancedSelectedOptions = [];
-    if (selectedOptions && Array.isArray(selectedOptions)) {
-      enhancedSelectedOptions = selectedOptions.map((opt) => {
-        const productOption = product.options?.find(
-          (pOpt) => pOpt._id?.toString() === opt.optionId || pOpt.name === opt.optionName
-        );
-        return {
-          optionId: opt.optionId || null,
-          optionName: opt.optionName || opt.name || "Option",
-          priceAdd: opt.priceAdd || 0,
-          description: opt.description || productOption?.description || null,
-          image: opt.image || productOption?.image || null,
-        };
-      });
-    }
-
-    // Process dynamic attributes
-    let processedDynamicAttributes = [];
-    if (selectedDynamicAttributes && Array.isArray(selectedDynamicAttributes)) {
-      // Get product with dynamic attributes
-      const productWithAttrs = await Product.findById(productId).populate({
-        path: "dynamicAttributes.attributeType",
-        model: "AttributeType",
-      });
-
-      if (productWithAttrs && productWithAttrs.dynamicAttributes) {
-        selectedDynamicAttributes.forEach((attr) => {
-          const attrTypeId = attr.attributeTypeId;
-          const value = attr.attributeValue;
-
-          // Find the attribute type in product
-          const productAttr = productWithAttrs.dynamicAttributes.find(
-            (pa) => {
-              const attrType = typeof pa.attributeType === 'object' ? pa.attributeType : null;
-              return attrType?._id?.toString() === attrTypeId;
-            }
-          );
-
-          if (productAttr) {
-            const attrType = typeof productAttr.attributeType === 'object' ? productAttr.attributeType : null;
-            if (attrType) {
-              const customValues = productAttr.customValues || [];
-              const defaultValues = attrType.attributeValues || [];
-              const allValues = customValues.length > 0 ? customValues : defaultValues;
-
-              // Find selected value details
-              let selectedValueDetails = null;
-              if (Array.isArray(value)) {
-                selectedValueDetails = allValues.filter((av) => value.includes(av.value));
-              } else {
-                selectedValueDetails = allValues.find((av) => av.value === value || av.value === value.toString());
-              }
-
-              if (selectedValueDetails) {
-                if (Array.isArray(selectedValueDetails)) {
-                  const labels = selectedValueDetails.map((sv) => sv.label || sv.value).join(", ");
-                  const totalPriceMultiplier = selectedValueDetails.reduce((sum, sv) => sum + (sv.priceMultiplier || 0), 0);
-                  processedDynamicAttributes.push({
-                    attributeTypeId: attrTypeId,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: labels,
-                    priceMultiplier: totalPriceMultiplier || undefined,
-                    priceAdd: 0,
-                    description: selectedValueDetails.map((sv) => sv.description).filter(Boolean).join("; ") || undefined,
-                    image: selectedValueDetails[0]?.image || undefined,
-                  });
-                } else {
-                  processedDynamicAttributes.push({
-                    attributeTypeId: attrTypeId,
-                    attributeName: attrType.attributeName || "Attribute",
-                    attributeValue: value,
-                    label: selectedValueDetails.label || value?.toString() || "",
-                    priceMultiplier: selectedValueDetails.priceMultiplier || undefined,
-                    priceAdd: 0,
-                    description: selectedValueDetails.description || undefined,
-                    image: selectedValueDetails.image || undefined,
-                  });
-                }
-              } else {
-                processedDynamicAttributes.push({
-                  attributeTypeId: attrTypeId,
-                  attributeName: attrType.attributeName || "Attribute",
-                  attributeValue: value,
-                  label: value?.toString() || null,
-                  priceMultiplier: null,
-                  priceAdd: 0,
-                  description: null,
-                  image: null,
-                });
-              }
-            }
-          }
-        });
-      }
-    }
-
     // Create order
     const orderData = {
       user: user._id,
-      orderNumber: orderNumber,
       product: productId,
       quantity: parseInt(quantity),
       finish,
       shape,
-      selectedOptions: enhancedSelectedOptions,
-      selectedDynamicAttributes: processedDynamicAttributes,
-      totalPrice: parseFloat(totalPrice),
+      textureType: textureType || null,
+      customSize: quote.breakdown.customSize,
+      selectedOptions: quote.selectedOptions,
+      selectedDynamicAttributes: quote.selectedDynamicAttributes,
+      coupon: quote.orderCoupon,
+      priceList: quote.priceList,
+      deliveryZone: quote.deliveryZone,
+      shippingCharge: quote.breakdown.shippingCharge,
+      gstSplit: quote.breakdown.gstSplit,
+      pricingSnapshot: quote.pricingSnapshot,
+      totalPrice: quote.totalPrice,
       pincode,
       address,
       mobileNumber,
@@ -617,8 +345,9 @@ export const createOrderWithAccount = async (req, res) => {
       notes: notes || "",
       status: "request",
       departmentStatuses: departmentStatuses,
-      advancePaid: advancePaid ? parseFloat(advancePaid) : 0,
-      paymentStatus: paymentStatus || "pending",
+      // Payments are recorded by an admin, never taken from the customer's request
+      advancePaid: 0,
+      paymentStatus: "pending",
       paymentGatewayInvoiceId: paymentGatewayInvoiceId || null,
       paperGSM: paperGSM || null,
       paperQuality: paperQuality || null,
@@ -627,7 +356,24 @@ export const createOrderWithAccount = async (req, res) => {
     };
 
     const order = new Order(orderData);
-    await order.save();
+
+    if (quote.coupon) {
+      try {
+        await redeemCoupon(quote.coupon, user._id);
+      } catch (err) {
+        if (err.statusCode) {
+          return res.status(err.statusCode).json({ error: err.message });
+        }
+        throw err;
+      }
+    }
+
+    try {
+      await order.save();
+    } catch (err) {
+      if (quote.coupon) await releaseCoupon(quote.coupon._id, { userId: user._id });
+      throw err;
+    }
     
     await order.populate({
       path: "product",
@@ -647,7 +393,7 @@ export const createOrderWithAccount = async (req, res) => {
     // await sendOrderConfirmationEmail(
     //   email,
     //   name,
-    //   orderNumber,
+    //   order.orderNumber,
     //   {
     //     productName: typeof order.product === 'object' ? order.product.name : 'N/A',
     //     quantity: order.quantity,
@@ -766,6 +512,20 @@ export const getSingleOrder = async (req, res) => {
         path: "productionTimeline.department",
         select: "name",
       })
+      .populate({
+        path: "items.product",
+        select: "name image basePrice subcategory gstPercentage additionalDesignCharge",
+        populate: { path: "subcategory", select: "name image" },
+      })
+      .populate({
+        path: "items.currentDepartment",
+        select: "name sequence",
+      })
+      .populate({
+        path: "items.departmentStatuses.department",
+        select: "name sequence",
+      })
+      .populate("statusHistory.actor", "name")
       .lean(); // Use lean() for faster queries - returns plain JavaScript objects
 
     if (!order) {
@@ -785,20 +545,10 @@ export const getSingleOrder = async (req, res) => {
       console.log('Order selectedDynamicAttributes:', JSON.stringify(order.selectedDynamicAttributes, null, 2));
     }
 
-    // Convert uploaded design buffers to base64 for frontend
+    // Links to the design files for the frontend
     // Since we're using lean(), order is already a plain object
-    if (order.uploadedDesign?.frontImage?.data) {
-      const buffer = Buffer.isBuffer(order.uploadedDesign.frontImage.data)
-        ? order.uploadedDesign.frontImage.data
-        : Buffer.from(order.uploadedDesign.frontImage.data);
-      order.uploadedDesign.frontImage.data = `data:${order.uploadedDesign.frontImage.contentType || 'image/png'};base64,${buffer.toString("base64")}`;
-    }
-    if (order.uploadedDesign?.backImage?.data) {
-      const buffer = Buffer.isBuffer(order.uploadedDesign.backImage.data)
-        ? order.uploadedDesign.backImage.data
-        : Buffer.from(order.uploadedDesign.backImage.data);
-      order.uploadedDesign.backImage.data = `data:${order.uploadedDesign.backImage.contentType || 'image/png'};base64,${buffer.toString("base64")}`;
-    }
+    designToImageUrls(order.uploadedDesign);
+    (order.items || []).forEach((line) => designToImageUrls(line.uploadedDesign));
 
     res.status(200).json(order);
   } catch (error) {
@@ -818,7 +568,7 @@ export const getMyOrders = async (req, res) => {
     // Limit fields to only what's needed for list display
     // Note: selectedOptions and selectedDynamicAttributes are included by default (not excluded)
     const orders = await Order.find({ user: userId })
-      .select("-uploadedDesign -notes -adminNotes -designTimeline -productionTimeline -courierTimeline -productionDetails -designOption -designerAssigned -designFileSentAt -customerResponse -fileUploadedAt -fileStatus -fileRejectionReason -productionStartedAt -movedToPackingAt -packedAt -packedBy -numberOfBoxes -movedToDispatchAt -handedOverToCourierAt -invoiceNumber -invoiceGeneratedAt -invoiceUrl -courierPartner -trackingId -dispatchedAt -courierStatus -deliveredAt -courierTrackingUrl") // Exclude all heavy/unused fields, but keep selectedOptions and selectedDynamicAttributes
+      .select("-uploadedDesign -notes -adminNotes -designTimeline -productionTimeline -courierTimeline -productionDetails -designOption -designerAssigned -designFileSentAt -customerResponse -fileUploadedAt -fileStatus -fileRejectionReason -productionStartedAt -movedToPackingAt -packedAt -packedBy -numberOfBoxes -movedToDispatchAt -handedOverToCourierAt -invoiceSnapshot -invoiceFile -courierPartner -trackingId -dispatchedAt -courierStatus -deliveredAt -courierTrackingUrl -items.uploadedDesign -items.productionTimeline") // Exclude all heavy/unused fields, but keep selectedOptions and selectedDynamicAttributes
       .populate({
         path: "product",
         select: "name image basePrice subcategory gstPercentage", // Minimal product fields
@@ -843,6 +593,11 @@ export const getMyOrders = async (req, res) => {
         path: "departmentStatuses.operator",
         select: "name email",
       })
+      .populate({
+        path: "items.product",
+        select: "name image basePrice subcategory gstPercentage",
+        populate: { path: "subcategory", select: "name image" },
+      })
       .sort({ createdAt: -1 })
       .limit(limit)
       .skip(skip)
@@ -856,10 +611,32 @@ export const getMyOrders = async (req, res) => {
   }
 };
 
-// Get all orders (Admin only)
+const DEFAULT_ORDERS_PAGE_SIZE = 50;
+const MAX_ORDERS_PAGE_SIZE = 200;
+
+// Get orders (Admin only), newest first, a page at a time
+// ?search=&from=&to=&status=&paymentStatus=&product=&department=&limit=&cursor=
+// The first page (no cursor) also carries the total and the facet counts for the filter chips.
 export const getAllOrders = async (req, res) => {
   try {
-    const orders = await Order.find()
+    const limit = Math.min(parseInt(req.query.limit) || DEFAULT_ORDERS_PAGE_SIZE, MAX_ORDERS_PAGE_SIZE);
+
+    let filter;
+    try {
+      filter = await buildAdminOrderFilter(req.query);
+      if (req.query.cursor) {
+        const cursorCondition = buildOrderCursorCondition(req.query.cursor);
+        filter = Object.keys(filter).length > 0 ? { $and: [filter, cursorCondition] } : cursorCondition;
+      }
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message });
+      }
+      throw err;
+    }
+
+    // One extra to know whether there is a next page; the first page also counts the matching orders per facet
+    const ordersQuery = Order.find(filter)
       .populate({
         path: "product",
         select: "name image basePrice subcategory options discount instructions attributes minFileWidth maxFileWidth minFileHeight maxFileHeight filters gstPercentage additionalDesignCharge productionSequence",
@@ -881,176 +658,141 @@ export const getAllOrders = async (req, res) => {
         path: "departmentStatuses.operator",
         select: "name email",
       })
-      .sort({ createdAt: -1 });
-
-    // Convert uploaded design buffers to base64 for frontend
-    const ordersWithImages = orders.map((order) => {
+      .populate({
+        path: "items.product",
+        select: "name image basePrice subcategory gstPercentage additionalDesignCharge productionSequence",
+        populate: { path: "subcategory", select: "name" },
+      })
+      .populate({
+        path: "items.departmentStatuses.department",
+        select: "name sequence",
+      })
+      .populate("statusHistory.actor", "name")
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+    const [orders, facets] = await Promise.all([
+      ordersQuery,
+      req.query.cursor ? null : getAdminOrderFacets(req.query),
+    ]);
+
+    const hasMore = orders.length > limit;
+    const page = hasMore ? orders.slice(0, limit) : orders;
+
+    // Links to the design files for the frontend
+    const ordersWithImages = page.map((order) => {
       const orderObj = order.toObject();
-      
-      if (order.uploadedDesign?.frontImage?.data) {
-        orderObj.uploadedDesign.frontImage.data = `data:${order.uploadedDesign.frontImage.contentType};base64,${order.uploadedDesign.frontImage.data.toString("base64")}`;
-      }
-      if (order.uploadedDesign?.backImage?.data) {
-        orderObj.uploadedDesign.backImage.data = `data:${order.uploadedDesign.backImage.contentType};base64,${order.uploadedDesign.backImage.data.toString("base64")}`;
-      }
+      designToImageUrls(orderObj.uploadedDesign);
+      orderObj.items.forEach((line) => designToImageUrls(line.uploadedDesign));
 
       return orderObj;
     });
 
-    res.status(200).json(ordersWithImages);
+    res.status(200).json({
+      orders: ordersWithImages,
+      nextCursor: hasMore ? encodeOrderCursor(page[page.length - 1]) : null,
+      total: facets?.total ?? null,
+      facets: facets ? { status: facets.status, paymentStatus: facets.paymentStatus, department: facets.department } : null,
+    });
   } catch (error) {
     console.error("Get all orders error:", error);
     res.status(500).json({ error: "Failed to fetch orders." });
   }
 };
 
-// Update order status (Admin only)
-export const updateOrderStatus = async (req, res) => {
-  try {
-    const { orderId } = req.params;
-    const { status, deliveryDate, adminNotes } = req.body;
+// Orders read from the database per batch while exporting
+const EXPORT_BATCH_SIZE = 500;
 
-    const order = await Order.findById(orderId);
-    if (!order) {
-      return res.status(404).json({ error: "Order not found" });
-    }
-
-    // Validate status
-    const validStatuses = ["request", "production_ready", "approved", "processing", "completed", "cancelled", "rejected"];
-    if (status && !validStatuses.includes(status)) {
-      return res.status(400).json({ error: "Invalid status" });
+// Export orders as CSV or XLSX (Admin only) - same filters as getAllOrders, plus ?format=csv|xlsx
+// Streams from a cursor so memory stays flat however many orders match.
+export const exportOrders = async (req, res) => {
+  let cursor;
+  try {
+    const format = (req.query.format || "csv").toLowerCase();
+    if (!ORDER_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Invalid format. Allowed: ${ORDER_EXPORT_FORMATS.join(", ")}` });
     }
 
-    // Check for special action: start_production
-    const { action } = req.body;
-    if (action === "start_production") {
-      if (order.status !== "production_ready") {
-        return res.status(400).json({ error: `Cannot start production. Order must be in "production_ready" status. Current status: ${order.status}` });
+    let filter;
+    try {
+      filter = await buildAdminOrderFilter(req.query);
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message });
       }
-      // Set status to approved and send to first department
-      order.status = "approved";
-      status = "approved"; // Set for the logic below
+      throw err;
     }
 
-    // Update order
-    const previousStatus = order.status;
-    if (status) order.status = status;
-    if (deliveryDate) order.deliveryDate = new Date(deliveryDate);
-    if (adminNotes !== undefined) order.adminNotes = adminNotes;
-
-    // If admin approves order (request -> approved) or starts production (production_ready -> approved), send to first department
-    if ((previousStatus === "request" && (status === "approved" || status === "processing")) || 
-        (previousStatus === "production_ready" && status === "approved") ||
-        action === "start_production") {
-      // Set status to "approved" (not "processing" yet - processing starts when first dept starts)
-      if (status === "processing") {
-        order.status = "approved";
-      } else if (action === "start_production") {
-        order.status = "approved";
-      }
-      // Get product to find production sequence - handle both populated and unpopulated cases
-      const productId = order.product._id || order.product;
-      const product = await Product.findById(productId).populate("productionSequence");
-      if (!product) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-
-      // Get departments in sequence order - optimized single query
-      let departmentsToUse = [];
-      if (product.productionSequence && product.productionSequence.length > 0) {
-        const deptIds = product.productionSequence.map(dept => typeof dept === 'object' ? dept._id : dept);
-        const departments = await Department.find({ 
-          _id: { $in: deptIds },
-          isEnabled: true 
-        });
-        // Create a map for O(1) lookup instead of O(n) find
-        const deptMap = new Map(departments.map(d => [d._id.toString(), d]));
-        departmentsToUse = deptIds
-          .map(id => {
-            const idStr = typeof id === 'object' ? id.toString() : id?.toString();
-            return idStr ? deptMap.get(idStr) : null;
-          })
-          .filter(d => d !== null && d !== undefined);
-      } else {
-        departmentsToUse = await Department.find({ isEnabled: true }).sort({ name: 1 });
-      }
-
-      // Send request to first department (status: "pending")
-      if (departmentsToUse.length > 0) {
-        const firstDept = departmentsToUse[0];
-        const now = new Date();
-        
-        // Initialize departmentStatuses array if it doesn't exist
-        if (!order.departmentStatuses) {
-          order.departmentStatuses = [];
-        }
+    cursor = Order.find(filter)
+      .select(ORDER_EXPORT_EXCLUDED_FIELDS)
+      .populate("user", "name email")
+      .populate("product", "name")
+      .populate("items.product", "name")
+      .populate("currentDepartment", "name")
+      .populate("items.currentDepartment", "name")
+      .sort({ createdAt: -1 })
+      .lean()
+      .cursor({ batchSize: EXPORT_BATCH_SIZE });
 
-        // Check if department status already exists
-        let deptStatusIndex = order.departmentStatuses.findIndex(
-          (ds) => {
-            const deptId = typeof ds.department === 'object' ? ds.department._id?.toString() : ds.department?.toString();
-            return deptId === firstDept._id.toString();
-          }
-        );
-
-        if (deptStatusIndex === -1) {
-          // Create new department status entry
-          order.departmentStatuses.push({
-            department: firstDept._id,
-            status: "pending", // Request sent, waiting for department to start
-            whenAssigned: now, // Timestamp when assigned to this department
-            startedAt: null,
-            pausedAt: null,
-            completedAt: null,
-            stoppedAt: null,
-            operator: null,
-            notes: "",
-          });
-          deptStatusIndex = order.departmentStatuses.length - 1;
-        } else {
-          // Update existing department status
-          const existingStatus = order.departmentStatuses[deptStatusIndex];
-          existingStatus.status = "pending";
-          if (!existingStatus.whenAssigned) {
-            existingStatus.whenAssigned = now;
-          }
-        }
+    // Stop reading when the admin cancels the download
+    let aborted = false;
+    res.on("close", () => {
+      aborted = !res.writableFinished;
+    });
 
-        // Mark the array as modified for Mongoose
-        order.markModified('departmentStatuses');
+    const fileName = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader(
+      "Content-Type",
+      format === "csv" ? "text/csv; charset=utf-8" : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+    const writer = format === "csv" ? createCsvOrderWriter(res) : createXlsxOrderWriter(res);
+    let batch = [];
+    for await (const order of cursor) {
+      if (aborted) break;
+      batch.push(...buildOrderExportRows(order));
+      if (batch.length >= EXPORT_BATCH_SIZE) {
+        await writer.addRows(batch);
+        batch = [];
+      }
+    }
+    if (aborted) return;
+    if (batch.length > 0) {
+      await writer.addRows(batch);
+    }
+    await writer.finish();
+  } catch (error) {
+    console.error("Export orders error:", error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: "Failed to export orders." });
+    }
+    // Part of the file is already sent - cut the download short rather than deliver a truncated file as complete
+    res.destroy(error);
+  } finally {
+    await cursor?.close();
+  }
+};
 
-        // Set current department to first department
-        order.currentDepartment = firstDept._id;
-        order.currentDepartmentIndex = 0;
+// Update order status (Admin only)
+export const updateOrderStatus = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    const { status, action, deliveryDate, adminNotes, reason, paymentStatus, advancePaid } = req.body;
 
-        // Add to production timeline
-        if (!order.productionTimeline) {
-          order.productionTimeline = [];
-        }
-        order.productionTimeline.push({
-          department: firstDept._id,
-          action: "requested",
-          timestamp: now,
-          operator: req.user.id,
-          notes: "Request sent to department by admin approval",
-        });
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
 
-        // Mark timeline as modified
-        order.markModified('productionTimeline');
+    try {
+      await applyAdminOrderUpdate(order, { status, action, deliveryDate, adminNotes, reason, paymentStatus, advancePaid }, req.user);
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message });
       }
+      throw err;
     }
 
-    // Mark nested arrays as modified for Mongoose to detect changes
-    if (order.departmentStatuses && order.departmentStatuses.length > 0) {
-      order.markModified('departmentStatuses');
-    }
-    if (order.productionTimeline && order.productionTimeline.length > 0) {
-      order.markModified('productionTimeline');
-    }
-    
-    // Save the order
-    await order.save();
-    
     await order.populate({
       path: "product",
       select: "name image basePrice subcategory options discount description instructions attributes minFileWidth maxFileWidth minFileHeight maxFileHeight filters gstPercentage additionalDesignCharge productionSequence",
@@ -1068,15 +810,16 @@ export const updateOrderStatus = async (req, res) => {
       path: "departmentStatuses.operator",
       select: "name email",
     });
+    await order.populate("statusHistory.actor", "name");
+    await order.populate([
+      { path: "items.product", select: "name image basePrice subcategory gstPercentage additionalDesignCharge productionSequence" },
+      { path: "items.departmentStatuses.department", select: "name sequence" },
+    ]);
 
-    // Convert uploaded design buffers to base64
+    // Links to the design files
     const orderObj = order.toObject();
-    if (order.uploadedDesign?.frontImage?.data) {
-      orderObj.uploadedDesign.frontImage.data = `data:${order.uploadedDesign.frontImage.contentType};base64,${order.uploadedDesign.frontImage.data.toString("base64")}`;
-    }
-    if (order.uploadedDesign?.backImage?.data) {
-      orderObj.uploadedDesign.backImage.data = `data:${order.uploadedDesign.backImage.contentType};base64,${order.uploadedDesign.backImage.data.toString("base64")}`;
-    }
+    designToImageUrls(orderObj.uploadedDesign);
+    orderObj.items.forEach((line) => designToImageUrls(line.uploadedDesign));
 
     res.status(200).json({
       message: "Order updated successfully",
@@ -1088,7 +831,71 @@ export const updateOrderStatus = async (req, res) => {
   }
 };
 
-// Cancel order (User)
+// Bulk update orders (Admin only) - each order goes through the same checks as a single update
+export const bulkUpdateOrders = async (req, res) => {
+  try {
+    const { orderIds, operation, status, reason, deliveryDate, departmentId } = req.body;
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0) {
+      return res.status(400).json({ error: "Select at least one order" });
+    }
+    if (orderIds.length > MAX_BULK_ORDERS) {
+      return res.status(400).json({ error: `Up to ${MAX_BULK_ORDERS} orders can be updated at once` });
+    }
+    if (!BULK_ORDER_OPERATIONS.includes(operation)) {
+      return res.status(400).json({ error: `Invalid operation. Allowed: ${BULK_ORDER_OPERATIONS.join(", ")}` });
+    }
+    if (operation === "status" && !status) {
+      return res.status(400).json({ error: "Status is required" });
+    }
+    if (operation === "delivery_date" && (!deliveryDate || isNaN(new Date(deliveryDate)))) {
+      return res.status(400).json({ error: "A valid delivery date is required" });
+    }
+    if (operation === "reassign_department" && !/^[0-9a-fA-F]{24}$/.test(departmentId || "")) {
+      return res.status(400).json({ error: "Department is required" });
+    }
+
+    const results = await runBulkOrderOperation(
+      [...new Set(orderIds.map(String))],
+      operation,
+      { status, reason, deliveryDate, departmentId },
+      req.user
+    );
+    const succeeded = results.filter((result) => result.success).length;
+
+    res.status(200).json({
+      message: `${succeeded} of ${results.length} orders updated`,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (error) {
+    console.error("Bulk update orders error:", error);
+    res.status(500).json({ error: "Failed to update orders." });
+  }
+};
+
+// Preview what cancelling would refund (User)
+export const getCancellationPreview = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!/^[0-9a-fA-F]{24}$/.test(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+
+    const order = await Order.findOne({ _id: orderId, user: req.user.id });
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    res.status(200).json({ success: true, data: await previewOrderCancellation(order, req.user) });
+  } catch (error) {
+    console.error("Cancellation preview error:", error);
+    res.status(500).json({ error: "Failed to work out the cancellation refund." });
+  }
+};
+
+// Cancel order (User) - refunds what the cancellation rules allow
 export const cancelOrder = async (req, res) => {
   try {
     const userId = req.user.id;
@@ -1099,19 +906,26 @@ export const cancelOrder = async (req, res) => {
       return res.status(404).json({ error: "Order not found" });
     }
 
-    // Only allow cancellation if order is in request or processing status
-    if (order.status === "completed" || order.status === "cancelled" || order.status === "rejected") {
-      return res.status(400).json({
-        error: `Cannot cancel order with status: ${order.status}`,
+    // Completed, cancelled and rejected orders can't be cancelled
+    let cancellation;
+    try {
+      cancellation = await cancelOrderWithRefund(order, {
+        actor: req.user,
+        reason: req.body?.reason,
       });
+    } catch (err) {
+      if (err.statusCode) {
+        return res.status(err.statusCode).json({ error: err.message });
+      }
+      throw err;
     }
 
-    order.status = "cancelled";
-    await order.save();
-
     res.status(200).json({
-      message: "Order cancelled successfully",
+      message: cancellation.refundAmount > 0
+        ? `Order cancelled. ₹${cancellation.refundAmount.toFixed(2)} will be refunded.`
+        : "Order cancelled successfully",
       order,
+      cancellation,
     });
   } catch (error) {
     console.error("Cancel order error:", error);
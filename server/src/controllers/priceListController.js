@@ -0,0 +1,226 @@
+import mongoose from "mongoose";
+import PriceList from "../models/priceListModal.js";
+import { isValidPricingMode } from "../../../shared/pricing.js";
+import { findPriceListForUser } from "../utils/priceListHelper.js";
+
+const parseOptionalNumber = (value) => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? NaN : parsed;
+};
+
+const parseOptionalDate = (value) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? NaN : date;
+};
+
+// Validate one product entry of a price list, returns { entry } or { error }
+const buildProductEntry = (item, index) => {
+  const row = `Product entry ${index + 1}`;
+  const productId = typeof item.product === "object" && item.product ? item.product._id : item.product;
+  if (!productId || !mongoose.Types.ObjectId.isValid(productId)) {
+    return { error: `${row}: a valid product is required.` };
+  }
+
+  const basePrice = parseOptionalNumber(item.basePrice);
+  if (Number.isNaN(basePrice) || (basePrice !== null && basePrice < 0)) {
+    return { error: `${row}: base price must be a non-negative number.` };
+  }
+
+  const rangeWiseQuantities = [];
+  for (const range of item.rangeWiseQuantities || []) {
+    const min = parseInt(range.min);
+    const max = parseOptionalNumber(range.max);
+    const priceMultiplier = parseFloat(range.priceMultiplier);
+    if (isNaN(min) || min < 0 || Number.isNaN(max) || (max !== null && max < min)) {
+      return { error: `${row}: each quantity range needs a valid min and max (max can be empty).` };
+    }
+    if (isNaN(priceMultiplier) || priceMultiplier <= 0) {
+      return { error: `${row}: price multiplier must be a positive number.` };
+    }
+    rangeWiseQuantities.push({ min, max, priceMultiplier });
+  }
+
+  const attributeValuePrices = [];
+  for (const override of item.attributeValuePrices || []) {
+    const attributeType = typeof override.attributeType === "object" && override.attributeType
+      ? override.attributeType._id
+      : override.attributeType;
+    if (!attributeType || !mongoose.Types.ObjectId.isValid(attributeType) || !override.attributeValue) {
+      return { error: `${row}: each attribute price needs an attribute and a value.` };
+    }
+    const priceAdd = parseFloat(override.priceAdd);
+    if (isNaN(priceAdd)) {
+      return { error: `${row}: attribute price must be a number.` };
+    }
+    const pricingMode = override.pricingMode || "PER_UNIT";
+    if (!isValidPricingMode(pricingMode)) {
+      return { error: `${row}: invalid charge basis "${pricingMode}".` };
+    }
+    attributeValuePrices.push({
+      attributeType,
+      attributeValue: String(override.attributeValue),
+      priceAdd,
+      pricingMode,
+    });
+  }
+
+  return { entry: { product: productId, basePrice, rangeWiseQuantities, attributeValuePrices } };
+};
+
+// Build price list fields from the request body, returns { data } or { error }
+const buildPriceListData = (body, existing = null) => {
+  const data = {};
+
+  if (body.name !== undefined) {
+    data.name = String(body.name || "").trim();
+    if (!data.name) return { error: "Price list name is required." };
+  }
+  if (body.description !== undefined) data.description = body.description || "";
+  if (body.users !== undefined) data.users = body.users || [];
+  if (body.isActive !== undefined) data.isActive = Boolean(body.isActive);
+
+  if (body.priority !== undefined) {
+    const priority = parseOptionalNumber(body.priority);
+    if (Number.isNaN(priority)) return { error: "Priority must be a number." };
+    data.priority = priority || 0;
+  }
+
+  for (const field of ["validFrom", "validUntil"]) {
+    if (body[field] === undefined) continue;
+    const value = parseOptionalDate(body[field]);
+    if (Number.isNaN(value)) return { error: `${field} is not a valid date.` };
+    data[field] = value;
+  }
+  const validFrom = data.validFrom !== undefined ? data.validFrom : existing?.validFrom;
+  const validUntil = data.validUntil !== undefined ? data.validUntil : existing?.validUntil;
+  if (validFrom && validUntil && validFrom > validUntil) {
+    return { error: "validUntil must be after validFrom." };
+  }
+
+  if (body.products !== undefined) {
+    data.products = [];
+    const seen = new Set();
+    for (const [index, item] of (body.products || []).entries()) {
+      const { entry, error } = buildProductEntry(item || {}, index);
+      if (error) return { error };
+      if (seen.has(entry.product.toString())) {
+        return { error: "A product can only appear once in a price list." };
+      }
+      seen.add(entry.product.toString());
+      data.products.push(entry);
+    }
+  }
+
+  return { data };
+};
+
+// Create a new price list
+export const createPriceList = async (req, res) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ error: "Missing required field: name" });
+    }
+
+    const { data, error } = buildPriceListData(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const priceList = await PriceList.create(data);
+
+    return res.json({
+      success: true,
+      message: "Price list created successfully",
+      data: priceList,
+    });
+  } catch (err) {
+    console.log("PRICE LIST CREATE ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Get all price lists
+export const getAllPriceLists = async (req, res) => {
+  try {
+    const priceLists = await PriceList.find()
+      .populate("users", "_id name email")
+      .populate("products.product", "_id name basePrice")
+      .sort({ priority: -1, createdAt: -1 });
+
+    return res.json({
+      success: true,
+      data: priceLists,
+    });
+  } catch (err) {
+    console.log("GET PRICE LISTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Update price list
+export const updatePriceList = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const priceList = await PriceList.findById(id);
+    if (!priceList) {
+      return res.status(404).json({ error: "Price list not found" });
+    }
+
+    const { data, error } = buildPriceListData(req.body, priceList);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    Object.assign(priceList, data);
+    await priceList.save();
+
+    return res.json({
+      success: true,
+      message: "Price list updated successfully",
+      data: priceList,
+    });
+  } catch (err) {
+    console.log("UPDATE PRICE LIST ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Delete price list (orders keep the prices they were placed at)
+export const deletePriceList = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const priceList = await PriceList.findByIdAndDelete(id);
+    if (!priceList) {
+      return res.status(404).json({ error: "Price list not found" });
+    }
+
+    return res.json({
+      success: true,
+      message: "Price list deleted successfully",
+    });
+  } catch (err) {
+    console.log("DELETE PRICE LIST ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Contract prices for the logged-in customer on one product (null when they have none)
+export const getMyPriceList = async (req, res) => {
+  try {
+    const { productId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({ error: "Invalid product ID format." });
+    }
+
+    const priceList = await findPriceListForUser(req.user._id, productId);
+
+    return res.json({ priceList });
+  } catch (err) {
+    console.log("GET MY PRICE LIST ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
@@ -1,9 +1,76 @@
+import mongoose from "mongoose";
 import Product from "../models/productModal.js";
 import Category from "../models/categoryModal.js";
 import SubCategory from "../models/subcategoryModal.js";
 import cloudinary from "../config/cloudinary.js";
 import streamifier from "streamifier";
 import { handleMongoError } from "../utils/errorHandler.js";
+import { isValidPricingMode, CUSTOM_SIZE_UNITS } from "../../../shared/pricing.js";
+import ProductPriceVersion from "../models/productPriceVersionModal.js";
+import { extractPricing, recordPriceVersion } from "../utils/priceVersionHelper.js";
+
+// Parse and validate custom size settings (JSON string or object), returns { customSize } or { error }
+const parseCustomSize = (value) => {
+  let raw;
+  try {
+    raw = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch (err) {
+    return { error: "Invalid JSON in customSize" };
+  }
+  if (!raw || !raw.enabled) {
+    return { customSize: { enabled: false, areaRates: [], wastageRules: [] } };
+  }
+
+  const unit = raw.unit === CUSTOM_SIZE_UNITS.MM ? CUSTOM_SIZE_UNITS.MM : CUSTOM_SIZE_UNITS.INCH;
+  const limits = {};
+  for (const field of ["minWidth", "maxWidth", "minHeight", "maxHeight"]) {
+    const parsed = raw[field] === undefined || raw[field] === null || raw[field] === "" ? null : parseFloat(raw[field]);
+    if (parsed !== null && (isNaN(parsed) || parsed <= 0)) {
+      return { error: `Custom size ${field} must be a positive number.` };
+    }
+    limits[field] = parsed;
+  }
+  if (limits.minWidth === null || limits.minHeight === null) {
+    return { error: "Custom size needs a minimum width and height." };
+  }
+  if ((limits.maxWidth !== null && limits.maxWidth < limits.minWidth) ||
+      (limits.maxHeight !== null && limits.maxHeight < limits.minHeight)) {
+    return { error: "Custom size maximum must not be below the minimum." };
+  }
+
+  const areaRates = [];
+  for (const tier of raw.areaRates || []) {
+    const minQuantity = parseInt(tier.minQuantity);
+    const maxQuantity = tier.maxQuantity === undefined || tier.maxQuantity === null || tier.maxQuantity === "" ? null : parseInt(tier.maxQuantity);
+    const ratePerUnitArea = parseFloat(tier.ratePerUnitArea);
+    if (isNaN(minQuantity) || minQuantity < 0 || (maxQuantity !== null && (isNaN(maxQuantity) || maxQuantity < minQuantity))) {
+      return { error: "Each custom size rate needs a valid quantity range (max can be empty)." };
+    }
+    if (isNaN(ratePerUnitArea) || ratePerUnitArea <= 0) {
+      return { error: "Custom size rate per square unit must be a positive number." };
+    }
+    areaRates.push({ minQuantity, maxQuantity, ratePerUnitArea });
+  }
+  if (areaRates.length === 0) {
+    return { error: "Custom size needs at least one area rate." };
+  }
+
+  const wastageRules = [];
+  for (const rule of raw.wastageRules || []) {
+    const minArea = parseFloat(rule.minArea) || 0;
+    const maxArea = rule.maxArea === undefined || rule.maxArea === null || rule.maxArea === "" ? null : parseFloat(rule.maxArea);
+    const wastagePercentage = parseFloat(rule.wastagePercentage);
+    if (minArea < 0 || (maxArea !== null && (isNaN(maxArea) || maxArea < minArea))) {
+      return { error: "Each wastage rule needs a valid area range (max can be empty)." };
+    }
+    if (isNaN(wastagePercentage) || wastagePercentage < 0) {
+      return { error: "Wastage percentage must be a non-negative number." };
+    }
+    wastageRules.push({ minArea, maxArea, wastagePercentage });
+  }
+
+  return { customSize: { enabled: true, unit, ...limits, areaRates, wastageRules } };
+};
 
 export const createProduct = async (req, res) => {
   try {
@@ -27,7 +94,10 @@ export const createProduct = async (req, res) => {
       blockCDRandJPG,
       additionalDesignCharge,
       gstPercentage,
+      hsnCode,
       showPriceIncludingGst,
+      shippingWeightPer1000,
+      customSize,
       instructions,
       productionSequence
     } = req.body;
@@ -90,6 +160,12 @@ export const createProduct = async (req, res) => {
         return res.status(400).json({ error: "Invalid JSON in options" });
       }
     }
+    const invalidOption = (parsedOptions || []).find(
+      (opt) => opt.pricingMode !== undefined && opt.pricingMode !== null && !isValidPricingMode(opt.pricingMode)
+    );
+    if (invalidOption) {
+      return res.status(400).json({ error: `Invalid charge basis for option "${invalidOption.name}"` });
+    }
 
     // Parse filters JSON
     let parsedFilters = null;
@@ -226,6 +302,16 @@ export const createProduct = async (req, res) => {
       }
     }
 
+    // Parse custom size (area pricing) settings
+    let parsedCustomSize = undefined;
+    if (customSize) {
+      const { customSize: settings, error } = parseCustomSize(customSize);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      parsedCustomSize = settings;
+    }
+
     // Parse file upload constraints
     const parsedMaxFileSizeMB = maxFileSizeMB ? parseFloat(maxFileSizeMB) : undefined;
     const parsedMinFileWidth = minFileWidth ? parseInt(minFileWidth) : undefined;
@@ -237,7 +323,12 @@ export const createProduct = async (req, res) => {
     // Parse additional charges and taxes
     const parsedAdditionalDesignCharge = additionalDesignCharge ? parseFloat(additionalDesignCharge) : 0;
     const parsedGstPercentage = gstPercentage ? parseFloat(gstPercentage) : 0;
+    const parsedHsnCode = hsnCode ? String(hsnCode).trim() : "";
+    if (parsedHsnCode && !/^(\d{4}|\d{6}|\d{8})$/.test(parsedHsnCode)) {
+      return res.status(400).json({ error: "HSN/SAC code must be 4, 6 or 8 digits." });
+    }
     const parsedShowPriceIncludingGst = showPriceIncludingGst === true || showPriceIncludingGst === 'true';
+    const parsedShippingWeightPer1000 = shippingWeightPer1000 ? parseFloat(shippingWeightPer1000) : 0;
 
     // Parse productionSequence JSON
     let parsedProductionSequence = [];
@@ -288,11 +379,17 @@ export const createProduct = async (req, res) => {
       blockCDRandJPG: parsedBlockCDRandJPG,
       additionalDesignCharge: parsedAdditionalDesignCharge,
       gstPercentage: parsedGstPercentage,
+      hsnCode: parsedHsnCode,
       showPriceIncludingGst: parsedShowPriceIncludingGst,
+      shippingWeightPer1000: parsedShippingWeightPer1000,
+      customSize: parsedCustomSize,
       instructions: instructions || "",
       productionSequence: parsedProductionSequence,
     });
 
+    // Start the product's price history
+    await recordPriceVersion(data, null, req.user?._id);
+
     // Populate category (and subcategory for backward compatibility) before returning
     const populatedProduct = await Product.findById(data._id)
       .populate({
@@ -726,7 +823,10 @@ export const updateProduct = async (req, res) => {
       blockCDRandJPG,
       additionalDesignCharge,
       gstPercentage,
+      hsnCode,
       showPriceIncludingGst,
+      shippingWeightPer1000,
+      customSize,
       instructions,
       productionSequence
     } = req.body;
@@ -751,6 +851,12 @@ export const updateProduct = async (req, res) => {
         return res.status(400).json({ error: "Invalid JSON in options" });
       }
     }
+    const invalidOption = (parsedOptions || []).find(
+      (opt) => opt.pricingMode !== undefined && opt.pricingMode !== null && !isValidPricingMode(opt.pricingMode)
+    );
+    if (invalidOption) {
+      return res.status(400).json({ error: `Invalid charge basis for option "${invalidOption.name}"` });
+    }
 
     // Parse filters JSON
     let parsedFilters = product.filters || null;
@@ -891,6 +997,16 @@ export const updateProduct = async (req, res) => {
       }
     }
 
+    // Parse custom size (area pricing) settings
+    let parsedCustomSize = product.customSize;
+    if (customSize !== undefined) {
+      const { customSize: settings, error } = parseCustomSize(customSize);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      parsedCustomSize = settings;
+    }
+
     // Parse file upload constraints
     const parsedMaxFileSizeMB = maxFileSizeMB !== undefined ? (maxFileSizeMB ? parseFloat(maxFileSizeMB) : undefined) : product.maxFileSizeMB;
     const parsedMinFileWidth = minFileWidth !== undefined ? (minFileWidth ? parseInt(minFileWidth) : undefined) : product.minFileWidth;
@@ -902,7 +1018,12 @@ export const updateProduct = async (req, res) => {
     // Parse additional charges and taxes
     const parsedAdditionalDesignCharge = additionalDesignCharge !== undefined ? (additionalDesignCharge ? parseFloat(additionalDesignCharge) : 0) : product.additionalDesignCharge;
     const parsedGstPercentage = gstPercentage !== undefined ? (gstPercentage ? parseFloat(gstPercentage) : 0) : product.gstPercentage;
+    const parsedHsnCode = hsnCode !== undefined ? String(hsnCode || "").trim() : (product.hsnCode || "");
+    if (parsedHsnCode && !/^(\d{4}|\d{6}|\d{8})$/.test(parsedHsnCode)) {
+      return res.status(400).json({ error: "HSN/SAC code must be 4, 6 or 8 digits." });
+    }
     const parsedShowPriceIncludingGst = showPriceIncludingGst !== undefined ? (showPriceIncludingGst === true || showPriceIncludingGst === 'true') : (product.showPriceIncludingGst || false);
+    const parsedShippingWeightPer1000 = shippingWeightPer1000 !== undefined ? (shippingWeightPer1000 ? parseFloat(shippingWeightPer1000) : 0) : (product.shippingWeightPer1000 || 0);
 
     // Parse productionSequence JSON
     let parsedProductionSequence = product.productionSequence || [];
@@ -984,59 +1105,76 @@ export const updateProduct = async (req, res) => {
       }
     }
     
-    const updatedProduct = await Product.findByIdAndUpdate(
-      productId,
+    const previousPricing = extractPricing(product);
+
+    // The update and its price version are written together; the version number is taken atomically
+    let updatedProduct;
+    let priceVersion;
+    await mongoose.connection.transaction(async (session) => {
+      updatedProduct = await Product.findByIdAndUpdate(
+        productId,
+        {
+          name: name !== undefined ? name : product.name,
+          basePrice: validatedBasePrice,
+          category: categoryUpdate,
+          subcategory: subcategoryUpdate,
+          description: description !== undefined ? description : product.description,
+          descriptionArray: parsedDescriptionArray,
+          // productType is deprecated - keep existing value for backward compatibility but don't update it
+          productType: product.productType,
+          image: imageUrl,
+          options: parsedOptions,
+          filters: parsedFilters,
+          dynamicAttributes: parsedDynamicAttributes,
+          quantityDiscounts: parsedQuantityDiscounts,
+          maxFileSizeMB: parsedMaxFileSizeMB,
+          minFileWidth: parsedMinFileWidth,
+          maxFileWidth: parsedMaxFileWidth,
+          minFileHeight: parsedMinFileHeight,
+          maxFileHeight: parsedMaxFileHeight,
+          blockCDRandJPG: parsedBlockCDRandJPG,
+          additionalDesignCharge: parsedAdditionalDesignCharge,
+          gstPercentage: parsedGstPercentage,
+          hsnCode: parsedHsnCode,
+          showPriceIncludingGst: parsedShowPriceIncludingGst,
+          shippingWeightPer1000: parsedShippingWeightPer1000,
+          customSize: parsedCustomSize,
+          instructions: instructions !== undefined ? instructions : product.instructions,
+          productionSequence: parsedProductionSequence,
+        },
+        { new: true, session }
+      );
+      // Keep the old prices as a version (orders already placed keep their own price snapshot)
+      priceVersion = await recordPriceVersion(updatedProduct, previousPricing, req.user?._id, { session });
+    });
+    if (priceVersion) {
+      updatedProduct.priceVersion = priceVersion.version;
+    }
+    await updatedProduct.populate([
       {
-        name: name !== undefined ? name : product.name,
-        basePrice: validatedBasePrice,
-        category: categoryUpdate,
-        subcategory: subcategoryUpdate,
-        description: description !== undefined ? description : product.description,
-        descriptionArray: parsedDescriptionArray,
-        // productType is deprecated - keep existing value for backward compatibility but don't update it
-        productType: product.productType,
-        image: imageUrl,
-        options: parsedOptions,
-        filters: parsedFilters,
-        dynamicAttributes: parsedDynamicAttributes,
-        quantityDiscounts: parsedQuantityDiscounts,
-        maxFileSizeMB: parsedMaxFileSizeMB,
-        minFileWidth: parsedMinFileWidth,
-        maxFileWidth: parsedMaxFileWidth,
-        minFileHeight: parsedMinFileHeight,
-        maxFileHeight: parsedMaxFileHeight,
-        blockCDRandJPG: parsedBlockCDRandJPG,
-        additionalDesignCharge: parsedAdditionalDesignCharge,
-        gstPercentage: parsedGstPercentage,
-        showPriceIncludingGst: parsedShowPriceIncludingGst,
-        instructions: instructions !== undefined ? instructions : product.instructions,
-        productionSequence: parsedProductionSequence,
-      },
-      { new: true }
-    )
-    .populate({
-      path: "category",
-      select: "_id name description image type parent slug",
-      populate: {
-        path: "parent",
-        select: "_id name type",
-        options: { recursive: true }
-      }
-    })
-    .populate({
-      path: "subcategory",
-      select: "_id name description image slug category",
-      populate: {
         path: "category",
-        model: "Category",
-        select: "_id name description type image"
-      }
-    })
-    .populate({
-      path: "dynamicAttributes.attributeType",
-      model: "AttributeType",
-      select: "_id attributeName inputStyle primaryEffectType isPricingAttribute attributeValues"
-    });
+        select: "_id name description image type parent slug",
+        populate: {
+          path: "parent",
+          select: "_id name type",
+          options: { recursive: true }
+        }
+      },
+      {
+        path: "subcategory",
+        select: "_id name description image slug category",
+        populate: {
+          path: "category",
+          model: "Category",
+          select: "_id name description type image"
+        }
+      },
+      {
+        path: "dynamicAttributes.attributeType",
+        model: "AttributeType",
+        select: "_id attributeName inputStyle primaryEffectType isPricingAttribute attributeValues"
+      },
+    ]);
 
     return res.json({
       success: true,
@@ -1052,6 +1190,26 @@ export const updateProduct = async (req, res) => {
   }
 };
 
+// GET price history of a product (newest first)
+export const getProductPriceVersions = async (req, res) => {
+  try {
+    const versions = await ProductPriceVersion.find({ product: req.params.id })
+      .populate("changedBy", "_id name email")
+      .sort({ version: -1 });
+
+    return res.json({
+      success: true,
+      data: versions,
+    });
+  } catch (err) {
+    if (err.name === 'CastError') {
+      return res.status(400).json({ error: "Invalid product ID" });
+    }
+    console.log("GET PRICE VERSIONS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
 // DELETE product
 export const deleteProduct = async (req, res) => {
   try {
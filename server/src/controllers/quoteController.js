@@ -0,0 +1,68 @@
+import { buildOrderQuote } from "../utils/orderPricingHelper.js";
+import { getSellerState } from "../config/tax.js";
+
+// Create a price quote for a product configuration (no order is created)
+export const createQuote = async (req, res) => {
+  try {
+    const {
+      productId,
+      quantity,
+      finish,
+      shape,
+      textureType,
+      selectedOptions,
+      selectedDynamicAttributes,
+      couponCode,
+      pincode,
+      deliveryState,
+      customSize,
+    } = req.body;
+
+    const quote = await buildOrderQuote({
+      productId,
+      quantity,
+      finish,
+      shape,
+      textureType,
+      selectedOptions,
+      selectedDynamicAttributes,
+      couponCode,
+      pincode,
+      deliveryState,
+      customSize,
+      userId: req.user?._id,
+    });
+
+    res.status(200).json({
+      productId: quote.product._id,
+      quantity: quote.quantity,
+      selectedOptions: quote.selectedOptions,
+      selectedDynamicAttributes: quote.selectedDynamicAttributes,
+      coupon: quote.coupon
+        ? {
+            code: quote.coupon.code,
+            description: quote.coupon.description,
+            discountType: quote.coupon.discountType,
+            discountValue: quote.coupon.discountValue,
+            maxDiscountAmount: quote.coupon.maxDiscountAmount,
+            minOrderValue: quote.coupon.minOrderValue,
+          }
+        : null,
+      priceList: quote.priceList,
+      deliveryZone: quote.deliveryZone,
+      breakdown: quote.breakdown,
+      totalPrice: quote.totalPrice,
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("Create quote error:", error);
+    res.status(500).json({ error: "Failed to calculate quote." });
+  }
+};
+
+// Seller state used for the GST split, so the client can show CGST/SGST or IGST before ordering
+export const getTaxSettings = async (req, res) => {
+  res.status(200).json({ sellerState: getSellerState() });
+};
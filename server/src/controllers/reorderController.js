@@ -0,0 +1,153 @@
+import Order from "../models/orderModal.js";
+import { assertClientTotalMatches, assertMinimumOrderValue } from "../utils/orderPricingHelper.js";
+import { buildReorderQuote } from "../utils/reorderHelper.js";
+import { designToImageUrls } from "../utils/designUploadHelper.js";
+
+const findOwnOrder = async (req, res) => {
+  const { orderId } = req.params;
+  if (!orderId || !/^[0-9a-fA-F]{24}$/.test(orderId)) {
+    res.status(400).json({ error: "Invalid order ID format." });
+    return null;
+  }
+  const order = await Order.findOne({ _id: orderId, user: req.user.id });
+  if (!order) {
+    res.status(404).json({ error: "Order not found" });
+    return null;
+  }
+  return order;
+};
+
+// Summary of the reorder lines for the customer (today's line totals for multi-line orders)
+const summarizeReorder = (order, { lines, quote }) =>
+  lines.map((line, index) => {
+    const source = order.items?.length > 0 ? order.items[index] : order;
+    return {
+      productName: source.product?.name || "Product",
+      quantity: line.quantity,
+      lineTotal: quote?.lines ? quote.lines[index].lineTotal : quote?.totalPrice ?? null,
+    };
+  });
+
+// Preview repeating a past order: conflicts with the current product setup, or today's price
+export const previewReorder = async (req, res) => {
+  try {
+    const order = await findOwnOrder(req, res);
+    if (!order) return;
+
+    await order.populate("product items.product", "name");
+    const orderObj = order.toObject();
+    const reorder = await buildReorderQuote(orderObj, {
+      pincode: req.query.pincode,
+      deliveryState: req.query.deliveryState,
+      userId: req.user.id,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        conflicts: reorder.conflicts,
+        lines: summarizeReorder(orderObj, reorder),
+        breakdown: reorder.quote?.breakdown || null,
+        totalPrice: reorder.quote?.totalPrice ?? null,
+        originalTotal: order.totalPrice,
+        pincode: req.query.pincode || order.pincode,
+      },
+    });
+  } catch (err) {
+    console.log("PREVIEW REORDER ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Place a new order with the same selections and design files, priced at today's rates
+export const createReorder = async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const order = await findOwnOrder(req, res);
+    if (!order) return;
+
+    const pincode = req.body.pincode || order.pincode;
+    const orderObj = order.toObject();
+    const reorder = await buildReorderQuote(orderObj, { pincode, deliveryState: req.body.deliveryState, userId });
+    if (reorder.conflicts.length > 0) {
+      return res.status(409).json({
+        error: "Some selections of this order are no longer available",
+        conflicts: reorder.conflicts,
+      });
+    }
+
+    const { quote, lines } = reorder;
+    try {
+      assertClientTotalMatches(quote, req.body.totalPrice);
+      assertMinimumOrderValue(quote);
+    } catch (err) {
+      if (!err.statusCode) throw err;
+      return res.status(err.statusCode).json({
+        error: err.message,
+        expectedTotal: err.expectedTotal,
+        breakdown: err.breakdown,
+      });
+    }
+
+    // Designs were converted to CMYK when the original order was placed, so the stored files are reused
+    const orderData = quote.lines
+      ? {
+          items: quote.lines.map((line, index) => ({
+            product: line.product._id,
+            quantity: line.quantity,
+            finish: lines[index].finish,
+            shape: lines[index].shape,
+            textureType: lines[index].textureType,
+            customSize: quote.breakdown.lines[index].breakdown.customSize,
+            selectedOptions: line.selectedOptions,
+            selectedDynamicAttributes: line.selectedDynamicAttributes,
+            priceList: line.priceList,
+            lineTotal: line.lineTotal,
+            uploadedDesign: lines[index].uploadedDesign,
+            notes: lines[index].notes,
+          })),
+        }
+      : {
+          product: quote.product._id,
+          quantity: quote.quantity,
+          finish: lines[0].finish,
+          shape: lines[0].shape,
+          textureType: lines[0].textureType,
+          customSize: quote.breakdown.customSize,
+          selectedOptions: quote.selectedOptions,
+          selectedDynamicAttributes: quote.selectedDynamicAttributes,
+          priceList: quote.priceList,
+          uploadedDesign: lines[0].uploadedDesign,
+          notes: lines[0].notes,
+        };
+
+    const newOrder = new Order({
+      ...orderData,
+      user: userId,
+      deliveryZone: quote.deliveryZone,
+      shippingCharge: quote.breakdown.shippingCharge,
+      gstSplit: quote.breakdown.gstSplit,
+      pricingSnapshot: quote.pricingSnapshot,
+      totalPrice: quote.totalPrice,
+      pincode,
+      address: req.body.address || order.address,
+      mobileNumber: req.body.mobileNumber || order.mobileNumber,
+      status: "request",
+      reorderedFrom: order._id,
+    });
+    await newOrder.save();
+
+    await newOrder.populate("product items.product", "name image basePrice subcategory gstPercentage additionalDesignCharge");
+    const newOrderObj = newOrder.toObject();
+    designToImageUrls(newOrderObj.uploadedDesign);
+    (newOrderObj.items || []).forEach((line) => designToImageUrls(line.uploadedDesign));
+
+    return res.status(201).json({
+      message: "Order created successfully",
+      order: newOrderObj,
+    });
+  } catch (err) {
+    console.log("CREATE REORDER ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
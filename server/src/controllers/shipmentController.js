@@ -0,0 +1,165 @@
+import Order from "../models/orderModal.js";
+import { assertShippable, syncShipmentSummary, getShipmentQuantities, SHIPMENT_STATUSES } from "../utils/shipmentHelper.js";
+import { issueInvoiceIfDue } from "../utils/invoiceHelper.js";
+
+const isValidId = (id) => Boolean(id) && /^[0-9a-fA-F]{24}$/.test(id);
+
+const optionalNumber = (value) => (value === undefined || value === null || value === "" ? null : parseFloat(value));
+
+// Dispatch and delivery times this far ahead of the server clock are let through (the admin's device clock may run fast)
+const DISPATCH_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Shipments and per-line quantities for the response
+const serializeShipments = (order) => ({
+  shipments: order.shipments,
+  quantities: getShipmentQuantities(order),
+  courierStatus: order.courierStatus,
+  deliveredAt: order.deliveredAt,
+});
+
+// Shipments of an order (the customer's own order, or any order for admins and employees)
+export const getOrderShipments = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const orderQuery = ["admin", "emp"].includes(req.user.role) ? { _id: orderId } : { _id: orderId, user: req.user.id };
+    const order = await Order.findOne(orderQuery)
+      .select("product quantity items._id items.product items.quantity shipments courierStatus deliveredAt")
+      .populate("product items.product", "name");
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    return res.json({ success: true, data: serializeShipments(order) });
+  } catch (err) {
+    console.log("GET SHIPMENTS ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: record a consignment handed to the courier
+export const createShipment = async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    if (!isValidId(orderId)) {
+      return res.status(400).json({ error: "Invalid order ID format." });
+    }
+    const order = await Order.findById(orderId).populate("product items.product", "name");
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const { lineId, quantity, numberOfBoxes, weightKg, courierPartner, trackingId, trackingUrl, dispatchedAt, notes } = req.body;
+    let line;
+    try {
+      line = assertShippable(order, { lineId, quantity });
+    } catch (err) {
+      if (!err.statusCode) throw err;
+      return res.status(err.statusCode).json({ error: err.message });
+    }
+
+    const dispatchTime = dispatchedAt ? new Date(dispatchedAt) : new Date();
+    if (isNaN(dispatchTime)) {
+      return res.status(400).json({ error: "Invalid dispatch date" });
+    }
+    if (dispatchTime.getTime() > Date.now() + DISPATCH_CLOCK_SKEW_MS) {
+      return res.status(400).json({ error: "Dispatch date can't be in the future" });
+    }
+    order.shipments.push({
+      lineId: line === order ? null : line._id,
+      quantity: parseInt(quantity),
+      numberOfBoxes: parseInt(numberOfBoxes) || 1,
+      weightKg: optionalNumber(weightKg),
+      courierPartner: courierPartner || null,
+      trackingId: trackingId || null,
+      trackingUrl: trackingUrl || null,
+      dispatchedAt: dispatchTime,
+      notes: notes || "",
+      createdBy: req.user._id,
+    });
+    order.courierTimeline.push({
+      status: "dispatched",
+      timestamp: dispatchTime,
+      notes: `Shipment ${order.shipments.length}: ${parseInt(quantity)} units${courierPartner ? ` via ${courierPartner}` : ""}`,
+    });
+    syncShipmentSummary(order);
+    await order.save();
+    // The first shipment issues the invoice when INVOICE_TRIGGER is "dispatch"
+    await issueInvoiceIfDue(order, "dispatch");
+
+    return res.status(201).json({
+      message: "Shipment recorded",
+      data: serializeShipments(order),
+    });
+  } catch (err) {
+    console.log("CREATE SHIPMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
+
+// Admin: update a consignment's courier details or delivery status
+export const updateShipment = async (req, res) => {
+  try {
+    const { orderId, shipmentId } = req.params;
+    if (!isValidId(orderId) || !isValidId(shipmentId)) {
+      return res.status(400).json({ error: "Invalid order or shipment ID format." });
+    }
+    const order = await Order.findById(orderId).populate("product items.product", "name");
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const shipment = order.shipments.id(shipmentId);
+    if (!shipment) {
+      return res.status(404).json({ error: "Shipment not found" });
+    }
+
+    const { status, deliveredAt, numberOfBoxes, weightKg, courierPartner, trackingId, trackingUrl, notes } = req.body;
+    if (status !== undefined && !SHIPMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status. Allowed: ${SHIPMENT_STATUSES.join(", ")}` });
+    }
+    const markDelivered = status === "delivered" && status !== shipment.status;
+    const deliveryTime = markDelivered && deliveredAt ? new Date(deliveredAt) : new Date();
+    if (markDelivered && deliveredAt) {
+      if (isNaN(deliveryTime)) {
+        return res.status(400).json({ error: "Invalid delivery date" });
+      }
+      if (deliveryTime.getTime() > Date.now() + DISPATCH_CLOCK_SKEW_MS) {
+        return res.status(400).json({ error: "Delivery date can't be in the future" });
+      }
+      if (shipment.dispatchedAt && deliveryTime < shipment.dispatchedAt) {
+        return res.status(400).json({ error: "Delivery date can't be before the shipment was dispatched" });
+      }
+    }
+
+    if (numberOfBoxes !== undefined) shipment.numberOfBoxes = parseInt(numberOfBoxes) || 1;
+    if (weightKg !== undefined) shipment.weightKg = optionalNumber(weightKg);
+    if (courierPartner !== undefined) shipment.courierPartner = courierPartner || null;
+    if (trackingId !== undefined) shipment.trackingId = trackingId || null;
+    if (trackingUrl !== undefined) shipment.trackingUrl = trackingUrl || null;
+    if (notes !== undefined) shipment.notes = notes;
+
+    if (status && status !== shipment.status) {
+      shipment.status = status;
+      shipment.deliveredAt = markDelivered ? deliveryTime : null;
+      const shipmentNumber = order.shipments.findIndex((s) => s._id.equals(shipment._id)) + 1;
+      order.courierTimeline.push({
+        status,
+        timestamp: shipment.deliveredAt || new Date(),
+        notes: `Shipment ${shipmentNumber}: ${shipment.quantity} units`,
+      });
+    }
+
+    syncShipmentSummary(order);
+    await order.save();
+
+    return res.json({
+      message: "Shipment updated",
+      data: serializeShipments(order),
+    });
+  } catch (err) {
+    console.log("UPDATE SHIPMENT ERROR ===>", err);
+    return res.status(500).json({ error: err.message });
+  }
+};
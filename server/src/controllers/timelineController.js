@@ -1,5 +1,8 @@
 import Order from '../models/orderModal.js';
 import Department from '../models/departmentModal.js';
+import { getOrderLines } from '../utils/orderDepartmentHelper.js';
+import { transitionOrderStatus } from '../utils/orderStatusHelper.js';
+import { getShipmentQuantities } from '../utils/shipmentHelper.js';
 
 /**
  * Format order into 5-stage timeline for customer view
@@ -124,14 +127,22 @@ const getProductionStage = (order) => {
         }
     };
 
+    // Cart orders go through production line by line; the stage covers every line
+    const lines = getOrderLines(order);
+    const isMultiLine = order.items && order.items.length > 0;
+    const departmentStatuses = lines.flatMap(line =>
+        (line.departmentStatuses || []).map(ds => ({ ...ds, product: isMultiLine ? line.product?.name : undefined }))
+    );
+
     // Check if production has started
-    if (!order.departmentStatuses || order.departmentStatuses.length === 0) {
+    if (departmentStatuses.length === 0) {
         return stage; // No departments assigned yet
     }
 
     // Map department statuses
-    stage.details.departments = order.departmentStatuses.map(ds => ({
+    stage.details.departments = departmentStatuses.map(ds => ({
         name: ds.department?.name || 'Unknown Department',
+        product: ds.product,
         status: ds.status || 'pending',
         operator: ds.operator?.name || 'Not assigned',
         whenAssigned: ds.whenAssigned,
@@ -141,20 +152,20 @@ const getProductionStage = (order) => {
     }));
 
     // Determine overall production status
-    const hasStarted = order.departmentStatuses.some(ds =>
+    const hasStarted = departmentStatuses.some(ds =>
         ds.status === 'in_progress' || ds.status === 'completed'
     );
-    const allCompleted = order.departmentStatuses.every(ds =>
+    const allCompleted = departmentStatuses.every(ds =>
         ds.status === 'completed'
     );
-    const anyInProgress = order.departmentStatuses.some(ds =>
+    const anyInProgress = departmentStatuses.some(ds =>
         ds.status === 'in_progress'
     );
 
     if (allCompleted) {
         stage.status = 'completed';
         // Find last completion timestamp
-        const completionTimes = order.departmentStatuses
+        const completionTimes = departmentStatuses
             .filter(ds => ds.completedAt)
             .map(ds => new Date(ds.completedAt));
         if (completionTimes.length > 0) {
@@ -163,7 +174,7 @@ const getProductionStage = (order) => {
     } else if (anyInProgress || hasStarted) {
         stage.status = 'in_progress';
         // Find first start timestamp
-        const startTimes = order.departmentStatuses
+        const startTimes = departmentStatuses
             .filter(ds => ds.startedAt)
             .map(ds => new Date(ds.startedAt));
         if (startTimes.length > 0) {
@@ -193,9 +204,15 @@ const getProductionStage = (order) => {
     }
 
     // Add production timeline if exists
-    if (order.productionTimeline && order.productionTimeline.length > 0) {
-        stage.details.timeline = order.productionTimeline.map(event => ({
+    const productionTimeline = lines
+        .flatMap(line =>
+            (line.productionTimeline || []).map(event => ({ ...event, product: isMultiLine ? line.product?.name : undefined }))
+        )
+        .sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+    if (productionTimeline.length > 0) {
+        stage.details.timeline = productionTimeline.map(event => ({
             department: event.department?.name || 'Unknown',
+            product: event.product,
             action: event.action,
             timestamp: event.timestamp,
             operator: event.operator?.name || 'System',
@@ -277,6 +294,30 @@ const getCourierStage = (order) => {
         stage.details.deliveredAt = order.deliveredAt;
     }
 
+    // Orders sent in several consignments show each one
+    if (order.shipments && order.shipments.length > 0) {
+        const lines = getOrderLines(order);
+        stage.details.shipments = order.shipments.map((shipment, index) => {
+            const line = shipment.lineId
+                ? lines.find(l => l._id?.toString() === shipment.lineId.toString())
+                : null;
+            return {
+                shipmentNumber: index + 1,
+                product: line?.product?.name,
+                quantity: shipment.quantity,
+                numberOfBoxes: shipment.numberOfBoxes,
+                weightKg: shipment.weightKg,
+                courierPartner: shipment.courierPartner || 'To be assigned',
+                trackingId: shipment.trackingId || 'Pending',
+                trackingUrl: shipment.trackingUrl,
+                status: shipment.status,
+                dispatchedAt: shipment.dispatchedAt,
+                deliveredAt: shipment.deliveredAt
+            };
+        });
+        stage.details.shipmentQuantities = getShipmentQuantities(order);
+    }
+
     // Add courier timeline if exists
     if (order.courierTimeline && order.courierTimeline.length > 0) {
         stage.details.timeline = order.courierTimeline.map(event => ({
@@ -312,6 +353,11 @@ export const getOrderTimeline = async (req, res) => {
             .populate('productionTimeline.department', 'name')
             .populate('productionTimeline.operator', 'name email')
             .populate('packedBy', 'name email')
+            .populate('items.product', 'name')
+            .populate('items.departmentStatuses.department', 'name')
+            .populate('items.departmentStatuses.operator', 'name email')
+            .populate('items.productionTimeline.department', 'name')
+            .populate('items.productionTimeline.operator', 'name email')
             .lean();
 
         if (!order) {
@@ -343,6 +389,89 @@ export const getOrderTimeline = async (req, res) => {
     }
 };
 
+// Last 10 digits, so "+91 98765 43210" and "9876543210" match
+const normalizeMobile = (mobile) => String(mobile || '').replace(/\D/g, '').slice(-10);
+
+/**
+ * Timeline for a guest: the stages and courier details without names, notes, amounts or invoice links
+ */
+export const formatGuestTimeline = (order) =>
+    formatOrderTimeline(order).map((stage) => {
+        const { details = {} } = stage;
+        let guestDetails = {};
+
+        if (stage.stageNumber === 1) {
+            guestDetails = { orderNumber: details.orderNumber, placedOn: details.placedOn };
+        } else if (stage.stageNumber === 2) {
+            guestDetails = {
+                designOption: details.designOption,
+                customerResponse: details.customerResponse,
+                fileStatus: details.fileStatus,
+            };
+        } else if (stage.stageNumber === 3) {
+            guestDetails = {
+                departments: (details.departments || []).map((department) => ({
+                    name: department.name,
+                    product: department.product,
+                    status: department.status,
+                    startedAt: department.startedAt,
+                    completedAt: department.completedAt,
+                })),
+            };
+        } else if (stage.stageNumber === 4) {
+            guestDetails = {
+                movedToPackingAt: details.movedToPackingAt,
+                packedAt: details.packedAt,
+                numberOfBoxes: details.numberOfBoxes,
+                handedOverToCourierAt: details.handedOverToCourierAt,
+            };
+        } else if (stage.stageNumber === 5) {
+            // Courier details are what the customer came for; only staff notes on courier events are left out
+            guestDetails = {
+                ...details,
+                timeline: details.timeline?.map(({ notes, ...event }) => event),
+            };
+        }
+
+        return { ...stage, details: guestDetails };
+    });
+
+/**
+ * Track an order without logging in (public, rate limited)
+ * The order number and the mobile number on the order must both match; a mismatch looks the same as a missing order.
+ */
+export const trackGuestOrder = async (req, res) => {
+    try {
+        const orderNumber = String(req.body?.orderNumber || '').trim();
+        const mobileNumber = normalizeMobile(req.body?.mobileNumber);
+
+        if (!orderNumber || mobileNumber.length < 10) {
+            return res.status(400).json({ error: 'Enter your order number and the 10-digit mobile number used on the order' });
+        }
+
+        const order = await Order.findOne({ orderNumber })
+            .select('-uploadedDesign -items.uploadedDesign -pricingSnapshot -statusHistory -paymentAdjustments')
+            .populate('departmentStatuses.department', 'name')
+            .populate('items.product', 'name')
+            .populate('items.departmentStatuses.department', 'name')
+            .lean();
+
+        if (!order || normalizeMobile(order.mobileNumber) !== mobileNumber) {
+            return res.status(404).json({ error: 'No order matches this order number and mobile number' });
+        }
+
+        res.status(200).json({
+            orderNumber: order.orderNumber,
+            status: order.status,
+            courierStatus: order.courierStatus || null,
+            timeline: formatGuestTimeline(order)
+        });
+    } catch (error) {
+        console.error('Track guest order error:', error);
+        res.status(500).json({ error: 'Failed to track order' });
+    }
+};
+
 /**
  * Get all orders for logged-in user (My Orders)
  */
@@ -570,7 +699,14 @@ export const completeDepartmentWork = async (req, res) => {
         if (allDepartmentsCompleted) {
             // Move to packing
             order.movedToPackingAt = new Date();
-            order.status = 'processing'; // Or 'ready_for_packing'
+            try {
+                transitionOrderStatus(order, 'processing', { actor: req.user }); // Or 'ready_for_packing'
+            } catch (err) {
+                if (err.statusCode) {
+                    return res.status(err.statusCode).json({ error: err.message });
+                }
+                throw err;
+            }
         } else {
             // Move to next department if exists
             const currentIndex = order.currentDepartmentIndex || 0;
@@ -1,6 +1,7 @@
 import Design from "../models/uploadModal.js";
 import {User} from "../models/User.js";
 import sharp from "sharp";
+import { saveFile } from "../utils/fileStore.js";
 
 export const uploadDesign = async (req, res) => {
   try {
@@ -88,25 +89,23 @@ export const uploadDesign = async (req, res) => {
         left: parseFloat(bleedLeft),
         right: parseFloat(bleedRight)
       },
-      frontImage: {
-        data: frontImageBuffer,
-        contentType: "image/jpeg",
+      frontImage: await saveFile(frontImageBuffer, {
         filename: frontImageFile.originalname,
-        size: frontImageBuffer.length
-      }
+        contentType: "image/jpeg",
+        owner: userId
+      })
     };
 
     // Add back image only if provided (OPTIONAL)
     if (backImageBuffer) {
-      designData.backImage = {
-        data: backImageBuffer,
-        contentType: "image/jpeg",
+      designData.backImage = await saveFile(backImageBuffer, {
         filename: backImageFile.originalname,
-        size: backImageBuffer.length
-      };
+        contentType: "image/jpeg",
+        owner: userId
+      });
     }
 
-    // Save to MongoDB
+    // Save to MongoDB (the images are in the file store)
     const design = await Design.create(designData);
 
     // Return success response
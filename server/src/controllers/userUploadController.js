@@ -1,4 +1,5 @@
 import Design from "../models/uploadModal.js";
+import { designToImageUrls, deleteDesignFiles } from "../utils/designUploadHelper.js";
 
 // Get user's own uploads
 export const getMyUploads = async (req, res) => {
@@ -7,17 +8,12 @@ export const getMyUploads = async (req, res) => {
 
     const uploads = await Design.find({ user: userId })
       .populate("user", "name email")
-      .sort({ createdAt: -1 });
+      .sort({ createdAt: -1 })
+      .lean();
 
-    // Convert buffer data to base64 for frontend display
+    // Links to the images for frontend display
     const uploadsWithImages = uploads.map((upload) => {
-      const frontImageBase64 = upload.frontImage?.data
-        ? `data:${upload.frontImage.contentType};base64,${upload.frontImage.data.toString("base64")}`
-        : null;
-
-      const backImageBase64 = upload.backImage?.data
-        ? `data:${upload.backImage.contentType};base64,${upload.backImage.data.toString("base64")}`
-        : null;
+      designToImageUrls(upload);
 
       return {
         _id: upload._id,
@@ -27,17 +23,17 @@ export const getMyUploads = async (req, res) => {
         description: upload.description,
         safeArea: upload.safeArea,
         bleedArea: upload.bleedArea,
-        frontImage: frontImageBase64
+        frontImage: upload.frontImage?.data
           ? {
-              data: frontImageBase64,
+              data: upload.frontImage.data,
               filename: upload.frontImage.filename,
               size: upload.frontImage.size,
               contentType: upload.frontImage.contentType,
             }
           : null,
-        backImage: backImageBase64
+        backImage: upload.backImage?.data
           ? {
-              data: backImageBase64,
+              data: upload.backImage.data,
               filename: upload.backImage.filename,
               size: upload.backImage.size,
               contentType: upload.backImage.contentType,
@@ -75,6 +71,7 @@ export const deleteMyUpload = async (req, res) => {
 
     // Delete the upload
     await Design.findByIdAndDelete(uploadId);
+    await deleteDesignFiles(upload);
 
     res.json({ success: true, message: "Upload deleted successfully" });
   } catch (err) {
@@ -0,0 +1,17 @@
+import { authMiddleware } from "./authMiddleware.js";
+import { verifyFileSignature } from "../utils/fileStore.js";
+
+// A signed link from an API response opens its file without a token (for <img> tags); anything else needs a login.
+export const fileAccessMiddleware = (req, res, next) => {
+  const { storage, fileId } = req.params;
+  const { expires, signature } = req.query;
+
+  if (signature === undefined) {
+    return authMiddleware(req, res, next);
+  }
+  if (!verifyFileSignature(storage, fileId, expires, signature)) {
+    return res.status(403).json({ error: "This file link is invalid or has expired" });
+  }
+  req.signedFileAccess = true;
+  next();
+};
@@ -0,0 +1,24 @@
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+
+// Guest order tracking needs no login, so lookups are limited to stop order and mobile numbers being guessed.
+
+// Every lookup from one client IP
+export const guestTrackingIpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 20,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  message: { error: "Too many tracking requests. Please try again in a few minutes." },
+});
+
+// Failed lookups of one order number from one IP, against guessing the mobile number of a known order.
+// A successful lookup doesn't count. Keyed on the IP too, so a stranger's wrong guesses don't lock the customer out.
+export const guestTrackingOrderLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  limit: 5,
+  skipSuccessfulRequests: true,
+  standardHeaders: "draft-8",
+  legacyHeaders: false,
+  keyGenerator: (req) => `order:${String(req.body?.orderNumber || "").trim().toUpperCase()}:${ipKeyGenerator(req.ip)}`,
+  message: { error: "Too many attempts for this order number. Please try again in an hour." },
+});
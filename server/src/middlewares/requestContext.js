@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// The request being handled, available to code that has no req (model hooks such as the audit log)
+const requestStorage = new AsyncLocalStorage();
+
+export const requestContextMiddleware = (req, res, next) => {
+  requestStorage.run({ req }, next);
+};
+
+// Who is making the current change and through which endpoint (null outside a request, e.g. scripts)
+export const getRequestContext = () => {
+  const req = requestStorage.getStore()?.req;
+  if (!req) return null;
+  return {
+    actor: req.user?._id || null,
+    actorRole: req.user?.role || null,
+    ip: req.ip || req.socket?.remoteAddress || null,
+    method: req.method,
+    endpoint: req.originalUrl.split("?")[0],
+  };
+};
@@ -1,12 +1,22 @@
 import multer from "multer";
+import sharp from "sharp";
+import { saveFile, deleteFile } from "../utils/fileStore.js";
+import { createCmykJpegConverter, toJpegFilename } from "../utils/designUploadHelper.js";
+import { MAX_COMPLAINT_PHOTOS, COMPLAINT_PHOTO_TYPES } from "../../../shared/complaints.js";
 
 const storage = multer.memoryStorage();
 
+const uploadError = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
 const fileFilter = (req, file, cb) => {
   if (file.mimetype.startsWith("image/")) {
     cb(null, true);
   } else {
-    cb(new Error("Only image files are allowed!"), false);
+    cb(uploadError("Only image files are allowed!"), false);
   }
 };
 
@@ -24,4 +34,110 @@ export const uploadDesignFiles = upload.fields([
   { name: "backImage", maxCount: 1 }
 ]);
 
+// Streams each design through CMYK conversion straight into the file store, so a file is never held in memory whole
+const designFileStorage = {
+  _handleFile(req, file, cb) {
+    const converter = createCmykJpegConverter();
+    file.stream.once("error", (error) => converter.destroy(error));
+    // A conversion error means the upload isn't a usable image (unlike a file store error)
+    let conversionFailed = false;
+    converter.once("error", () => {
+      conversionFailed = true;
+    });
+    saveFile(file.stream.pipe(converter), {
+      filename: toJpegFilename(file.originalname, "design.jpg"),
+      contentType: "image/jpeg",
+      owner: req.user._id,
+    }).then(
+      (storedFile) => cb(null, { storedFile, size: storedFile.size }),
+      (error) => cb(conversionFailed ? uploadError("The design file could not be read as an image") : error)
+    );
+  },
+  _removeFile(req, file, cb) {
+    if (!file.storedFile) return cb(null);
+    deleteFile(file.storedFile).then(() => cb(null), cb);
+  },
+};
+
+const designFileUpload = multer({
+  storage: designFileStorage,
+  fileFilter: fileFilter,
+  limits: {
+    fileSize: 100 * 1024 * 1024 // 100MB - print-ready designs outgrow the 10MB limit above
+  }
+}).single("file");
+
+// One design file in the "file" field; upload errors are answered as JSON
+export const streamDesignFile = (req, res, next) => {
+  designFileUpload(req, res, (err) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE" ? "The design file is larger than 100MB" : err.message;
+      return res.status(400).json({ error: message });
+    }
+    if (err.statusCode === 400) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("Design file upload error:", err);
+    return res.status(500).json({ error: "Failed to upload design file" });
+  });
+};
+
+// Raster photos only - SVG and anything else a browser could run as a page is refused
+const photoFilter = (req, file, cb) => {
+  if (COMPLAINT_PHOTO_TYPES.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(uploadError("Photos must be JPEG, PNG or WebP images"), false);
+  }
+};
+
+// Streams each complaint photo through a JPEG re-encode into the file store, so only decoded pixels are kept
+const photoFileStorage = {
+  _handleFile(req, file, cb) {
+    const converter = sharp().rotate().jpeg({ quality: 85 });
+    file.stream.once("error", (error) => converter.destroy(error));
+    let conversionFailed = false;
+    converter.once("error", () => {
+      conversionFailed = true;
+    });
+    saveFile(file.stream.pipe(converter), {
+      filename: toJpegFilename(file.originalname, "photo.jpg"),
+      contentType: "image/jpeg",
+      owner: req.user._id,
+    }).then(
+      (storedFile) => cb(null, { storedFile, size: storedFile.size }),
+      (error) => cb(conversionFailed ? uploadError(`${file.originalname} could not be read as an image`) : error)
+    );
+  },
+  _removeFile: designFileStorage._removeFile,
+};
+
+const complaintPhotoUpload = multer({
+  storage: photoFileStorage,
+  fileFilter: photoFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB
+  }
+}).array("photos", MAX_COMPLAINT_PHOTOS);
+
+// Up to MAX_COMPLAINT_PHOTOS photos in the "photos" field; upload errors are answered as JSON
+export const streamComplaintPhotos = (req, res, next) => {
+  complaintPhotoUpload(req, res, (err) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError) {
+      const messages = {
+        LIMIT_FILE_SIZE: "A photo is larger than 10MB",
+        LIMIT_UNEXPECTED_FILE: `You can attach up to ${MAX_COMPLAINT_PHOTOS} photos`,
+      };
+      return res.status(400).json({ error: messages[err.code] || err.message });
+    }
+    if (err.statusCode === 400) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("Complaint photo upload error:", err);
+    return res.status(500).json({ error: "Failed to upload photos" });
+  });
+};
+
 export default upload;
\ No newline at end of file
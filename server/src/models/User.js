@@ -10,4 +10,7 @@ const userSchema = new mongoose.Schema(
   { timestamps: true }
 );
 
+// For the customer search of the admin orders view
+userSchema.index({ name: 1 });
+
 export const User = mongoose.model("User", userSchema);
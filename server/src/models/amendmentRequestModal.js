@@ -0,0 +1,88 @@
+import mongoose from "mongoose";
+import { selectedDynamicAttributeDefinition, uploadedDesignDefinition } from "./orderModal.js";
+
+// Customer request to change an order before production starts (reviewed by an admin).
+// Only the fields the customer changed are set in changes; previous holds their values at request time.
+const AmendmentRequestSchema = new mongoose.Schema(
+  {
+    order: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Line item of a cart order the product changes apply to (null for single-product orders)
+    lineId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    changes: {
+      quantity: { type: Number, default: null },
+      selectedDynamicAttributes: {
+        type: [selectedDynamicAttributeDefinition],
+        default: undefined,
+      },
+      address: { type: String, default: null },
+      pincode: { type: String, default: null },
+      deliveryState: { type: String, default: null }, // GST state code chosen for a pincode shared between states
+      mobileNumber: { type: String, default: null },
+      uploadedDesign: {
+        type: uploadedDesignDefinition,
+        default: undefined,
+      },
+    },
+    previous: {
+      quantity: { type: Number, default: null },
+      selectedDynamicAttributes: {
+        type: [selectedDynamicAttributeDefinition],
+        default: undefined,
+      },
+      address: { type: String, default: null },
+      pincode: { type: String, default: null },
+      deliveryState: { type: String, default: null },
+      mobileNumber: { type: String, default: null },
+    },
+    customerNotes: {
+      type: String,
+      default: "",
+    },
+    // Order re-priced with the changes (at the prices the order was placed at)
+    pricing: {
+      previousTotal: { type: Number, required: true },
+      newTotal: { type: Number, required: true },
+      difference: { type: Number, required: true }, // > 0 customer pays more, < 0 refund due
+      breakdown: { type: mongoose.Schema.Types.Mixed, default: null },
+      pricingSnapshot: { type: mongoose.Schema.Types.Mixed, default: null },
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    rejectionReason: {
+      type: String,
+      default: "",
+    },
+  },
+  { timestamps: true }
+);
+
+// One pending request per order at a time
+AmendmentRequestSchema.index({ order: 1 }, { unique: true, partialFilterExpression: { status: "pending" } });
+AmendmentRequestSchema.index({ order: 1, createdAt: -1 });
+AmendmentRequestSchema.index({ status: 1, createdAt: -1 });
+
+export default mongoose.model("AmendmentRequest", AmendmentRequestSchema);
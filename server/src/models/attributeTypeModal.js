@@ -84,6 +84,11 @@ const AttributeTypeSchema = new mongoose.Schema(
         value: String, // The option value (e.g., "Red")
         label: String, // Display label (e.g., "Red")
         priceMultiplier: Number, // Price multiplier for this value (optional, only if isPricingAttribute is true)
+        priceAdd: Number, // Charge for this value, applied according to pricingMode
+        pricingMode: {
+          type: String,
+          enum: ["PER_UNIT", "PER_1000", "FLAT", "PERCENTAGE"],
+        },
         description: String, // Optional description for this value
         image: String, // Optional image URL for this value
         // Subattributes for this option (e.g., if option is "A", subattributes could be "A1", "A2", "A3")
@@ -91,6 +96,11 @@ const AttributeTypeSchema = new mongoose.Schema(
           value: String, // The subattribute value (e.g., "A1")
           label: String, // Display label (e.g., "A1")
           priceMultiplier: Number, // Price multiplier for this subattribute (optional)
+          priceAdd: Number, // Charge for this subattribute, applied according to pricingMode
+          pricingMode: {
+            type: String,
+            enum: ["PER_UNIT", "PER_1000", "FLAT", "PERCENTAGE"],
+          },
           description: String, // Optional description for this subattribute
           image: String, // Optional image URL for this subattribute
         }],
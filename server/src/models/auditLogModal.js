@@ -0,0 +1,58 @@
+import mongoose from "mongoose";
+
+// One write to an audited document: the fields it changed, who changed them and through which endpoint.
+// Written by the audit plugin (utils/auditPlugin.js); never edited afterwards.
+const AuditLogSchema = new mongoose.Schema(
+  {
+    entityType: {
+      type: String,
+      required: true,
+    },
+    entity: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ["create", "update"],
+      required: true,
+    },
+    // Dotted paths with their values before and after the write
+    changes: [
+      {
+        _id: false,
+        path: { type: String, required: true },
+        before: { type: mongoose.Schema.Types.Mixed, default: null },
+        after: { type: mongoose.Schema.Types.Mixed, default: null },
+      },
+    ],
+    // Null for changes made outside a request (scripts, migrations)
+    actor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    actorRole: {
+      type: String,
+      default: null,
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    method: {
+      type: String,
+      default: null,
+    },
+    endpoint: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ entityType: 1, entity: 1, createdAt: -1 });
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+
+export default mongoose.model("AuditLog", AuditLogSchema);
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import {
+  selectedOptionDefinition,
+  selectedDynamicAttributeDefinition,
+  uploadedDesignDefinition,
+} from "./orderModal.js";
+
+// A product configuration waiting in the cart, with its processed design files.
+// Selections are re-priced at the current prices whenever the cart is quoted or checked out.
+const CartItemSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    finish: {
+      type: String,
+      required: true,
+    },
+    shape: {
+      type: String,
+      required: true,
+    },
+    textureType: {
+      type: String,
+      default: null,
+    },
+    // Requested { width, height } for products that allow custom sizes (null = standard size)
+    customSize: {
+      type: {
+        width: Number,
+        height: Number,
+      },
+      default: null,
+    },
+    selectedOptions: [selectedOptionDefinition],
+    selectedDynamicAttributes: [selectedDynamicAttributeDefinition],
+    uploadedDesign: uploadedDesignDefinition,
+    notes: {
+      type: String,
+      default: "",
+    },
+  },
+  { timestamps: true }
+);
+
+// One persistent cart per customer
+const CartSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    items: [CartItemSchema],
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model("Cart", CartSchema);
@@ -0,0 +1,100 @@
+import mongoose from "mongoose";
+import { COMPLAINT_REASONS, COMPLAINT_RESOLUTIONS } from "../../../shared/complaints.js";
+
+// Customer complaint about a delivered order (print defect, damage, short supply).
+// An admin resolves it with a reprint (a linked zero-cost order), a partial refund or a rejection.
+const ComplaintSchema = new mongoose.Schema(
+  {
+    order: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Line item of a cart order the complaint is about (null for single-product orders or the whole order)
+    lineId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    reason: {
+      type: String,
+      enum: COMPLAINT_REASONS,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    // Units the customer reports as affected
+    affectedQuantity: {
+      type: Number,
+      default: null,
+    },
+    // Photos in the file store (complaints raised before it keep theirs in "data")
+    photos: [
+      {
+        fileId: String,
+        storage: String,
+        contentType: String,
+        filename: String,
+        size: Number,
+        data: Buffer,
+      },
+    ],
+    status: {
+      type: String,
+      enum: ["open", "resolved"],
+      default: "open",
+    },
+    resolution: {
+      type: String,
+      enum: [...COMPLAINT_RESOLUTIONS, null],
+      default: null,
+    },
+    resolutionNotes: {
+      type: String,
+      default: "",
+    },
+    // Reprint: the zero-cost order sent back through production
+    reprintOrder: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      default: null,
+    },
+    reprintQuantity: {
+      type: Number,
+      default: null,
+    },
+    // Partial refund: amount credited and the credit note raised for it
+    refundAmount: {
+      type: Number,
+      default: null,
+    },
+    creditNoteNumber: {
+      type: String,
+      default: null,
+    },
+    resolvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// One open complaint per order at a time
+ComplaintSchema.index({ order: 1 }, { unique: true, partialFilterExpression: { status: "open" } });
+ComplaintSchema.index({ order: 1, createdAt: -1 });
+ComplaintSchema.index({ status: 1, createdAt: -1 });
+ComplaintSchema.index({ reason: 1, createdAt: -1 }); // For the reason report
+
+export default mongoose.model("Complaint", ComplaintSchema);
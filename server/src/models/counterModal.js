@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+// Last number issued in a document series (orders, invoices, credit notes) for a financial year
+const CounterSchema = new mongoose.Schema(
+  {
+    series: {
+      type: String,
+      required: true,
+    },
+    financialYear: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  { timestamps: true }
+);
+
+CounterSchema.index({ series: 1, financialYear: 1 }, { unique: true });
+
+export default mongoose.model("Counter", CounterSchema);
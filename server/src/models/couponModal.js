@@ -0,0 +1,84 @@
+import mongoose from "mongoose";
+
+const CouponSchema = new mongoose.Schema(
+  {
+    // Code customers type in (stored uppercase, e.g. "DIWALI25")
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    // PERCENT: discountValue is a percentage, FLAT: discountValue is an amount in INR
+    discountType: {
+      type: String,
+      enum: ["PERCENT", "FLAT"],
+      required: true,
+    },
+    discountValue: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    // Cap for percentage coupons (null = no cap)
+    maxDiscountAmount: {
+      type: Number,
+      default: null,
+    },
+    // Minimum order value (after quantity discount, before GST) needed to use the coupon
+    minOrderValue: {
+      type: Number,
+      default: 0,
+    },
+    validFrom: {
+      type: Date,
+      default: null,
+    },
+    validUntil: {
+      type: Date,
+      default: null,
+    },
+    // Total redemptions allowed across all customers (null = unlimited)
+    usageLimit: {
+      type: Number,
+      default: null,
+    },
+    // Redemptions allowed per customer (null = unlimited)
+    perUserLimit: {
+      type: Number,
+      default: null,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+    },
+    // Restrict the coupon to these categories/products (empty = applies to everything)
+    applicableCategories: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Category",
+      },
+    ],
+    applicableProducts: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Product",
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { timestamps: true }
+);
+
+CouponSchema.index({ isActive: 1, validUntil: 1 });
+
+export default mongoose.model("Coupon", CouponSchema);
@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+
+// Live orders a customer has placed with a coupon that limits uses per customer (see couponHelper.redeemCoupon)
+const CouponRedemptionSchema = new mongoose.Schema(
+  {
+    coupon: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  { timestamps: true }
+);
+
+CouponRedemptionSchema.index({ coupon: 1, user: 1 }, { unique: true });
+
+export default mongoose.model("CouponRedemption", CouponRedemptionSchema);
@@ -0,0 +1,70 @@
+import mongoose from "mongoose";
+
+// Delivery zones - shipping charges and minimum order value by delivery pincode
+// A pincode belongs to a zone when it starts with one of its prefixes or falls in one of its ranges.
+const DeliveryZoneSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    // e.g. ["110", "1220"] - every pincode starting with these digits
+    pincodePrefixes: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    // Inclusive 6-digit pincode ranges, e.g. { from: 400001, to: 400104 }
+    pincodeRanges: [
+      {
+        from: { type: Number, required: true },
+        to: { type: Number, required: true },
+      },
+    ],
+    // Charged once per order
+    flatRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Charged per kg of shipment weight (rounded up to the next whole kg)
+    ratePerKg: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Shipping is free when the order value (before shipping and GST) reaches this amount (0 = never free)
+    freeShippingThreshold: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Orders below this value (before shipping and GST) can't be placed for this zone
+    minOrderValue: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Used when a pincode matches more than one active zone (higher wins)
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { timestamps: true }
+);
+
+DeliveryZoneSchema.index({ isActive: 1, priority: -1 });
+
+export default mongoose.model("DeliveryZone", DeliveryZoneSchema);
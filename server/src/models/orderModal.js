@@ -1,4 +1,288 @@
 import mongoose from "mongoose";
+import { nextDocumentNumber } from "../utils/documentNumberHelper.js";
+import { DOCUMENT_SERIES } from "../config/numbering.js";
+import { auditPlugin } from "../utils/auditPlugin.js";
+import { ORDER_STATUSES } from "../../../shared/orderStatus.js";
+
+// Custom width x height for the "Custom" card shape, with the area price it was charged at (null = standard size)
+const customSizeDefinition = {
+  type: {
+    width: Number,
+    height: Number,
+    unit: String, // "INCH" or "MM"
+    area: Number, // width x height of one piece
+    ratePerUnitArea: Number,
+    pricePerPiece: Number,
+    wastagePercentage: Number,
+  },
+  default: null,
+};
+
+const selectedOptionDefinition = {
+  optionId: String,
+  optionName: String,
+  priceAdd: Number,
+  pricingMode: String, // Charge basis at the time of ordering
+  description: String, // Option description
+  image: String, // Option image URL if available
+};
+
+// Selected dynamic attributes with complete information
+const selectedDynamicAttributeDefinition = {
+  attributeTypeId: String, // Reference to AttributeType
+  attributeName: String, // Name of the attribute (e.g., "Paper GSM", "Lamination Type")
+  attributeValue: mongoose.Schema.Types.Mixed, // Can be String, Number, Array, etc.
+  label: String, // Display label for the selected value
+  priceMultiplier: Number, // Price multiplier if applicable
+  priceAdd: Number, // Additional price if applicable
+  pricingMode: String, // Charge basis for priceAdd at the time of ordering
+  description: String, // Description of the selected value
+  image: String, // Image URL if available
+  // Subattribute picked under the selected value (e.g. "A1" under "A"), priced as its own line
+  subattribute: {
+    type: {
+      value: String,
+      label: String,
+      priceMultiplier: Number,
+      priceAdd: Number,
+      pricingMode: String,
+      description: String,
+      image: String,
+    },
+    default: null,
+  },
+};
+
+// Contract price list overrides used to price the order (null = catalog prices)
+const priceListDefinition = {
+  type: {
+    priceListId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "PriceList",
+    },
+    name: String,
+    basePrice: Number,
+    rangeWiseQuantities: [
+      {
+        min: Number,
+        max: Number,
+        priceMultiplier: Number,
+      },
+    ],
+    attributeValuePrices: [
+      {
+        attributeTypeId: String,
+        attributeValue: String,
+        priceAdd: Number,
+        pricingMode: String,
+      },
+    ],
+  },
+  default: null,
+};
+
+// A design image kept in the file store (utils/fileStore.js).
+// Images saved before the file store hold their bytes in "data" until scripts/migrate-design-files.js moves them out.
+const designImageDefinition = {
+  fileId: String,
+  storage: String,
+  contentType: String,
+  filename: String,
+  size: Number,
+  data: Buffer,
+};
+
+// Invoice fields are locked once a saved order has an invoice number (they can all be set while issuing it)
+function isInvoiceIssued() {
+  return Boolean(this.invoiceNumber) && !this.isModified("invoiceNumber");
+}
+
+function isInvoiceFileStored() {
+  return Boolean(this.invoiceFile?.fileId) && !this.isModified("invoiceFile");
+}
+
+const uploadedDesignDefinition = {
+  frontImage: designImageDefinition,
+  backImage: designImageDefinition,
+};
+
+// Department-level status tracking
+const departmentStatusDefinition = {
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Department",
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "in_progress", "paused", "completed", "stopped"],
+    default: "pending",
+  },
+  whenAssigned: {
+    type: Date,
+    default: null,
+  },
+  startedAt: {
+    type: Date,
+    default: null,
+  },
+  pausedAt: {
+    type: Date,
+    default: null,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+  stoppedAt: {
+    type: Date,
+    default: null,
+  },
+  operator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+  notes: {
+    type: String,
+    default: "",
+  },
+};
+
+const productionTimelineEntryDefinition = {
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Department",
+  },
+  action: {
+    type: String,
+    enum: ["requested", "started", "paused", "resumed", "stopped", "completed"],
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+  operator: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  notes: String,
+};
+
+// One product of a multi-line (cart) order, with its own design files and department routing.
+// Payment, invoice, coupon and delivery stay on the order.
+const OrderLineSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Product",
+    required: true,
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  finish: {
+    type: String,
+    required: true,
+  },
+  shape: {
+    type: String,
+    required: true,
+  },
+  textureType: {
+    type: String,
+    default: null,
+  },
+  customSize: customSizeDefinition,
+  selectedOptions: [selectedOptionDefinition],
+  selectedDynamicAttributes: [selectedDynamicAttributeDefinition],
+  priceList: priceListDefinition,
+  // Line total incl. GST after its share of the coupon (shipping is charged on the order)
+  lineTotal: {
+    type: Number,
+    required: true,
+  },
+  uploadedDesign: uploadedDesignDefinition,
+  notes: {
+    type: String,
+    default: "",
+  },
+  departmentStatuses: [departmentStatusDefinition],
+  currentDepartment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Department",
+    default: null,
+  },
+  currentDepartmentIndex: {
+    type: Number,
+    default: null,
+  },
+  productionTimeline: [productionTimelineEntryDefinition],
+});
+
+// One consignment of an order (bulk jobs can go out in several)
+const ShipmentSchema = new mongoose.Schema({
+  // Line item of a cart order the shipment carries (null for single-product orders)
+  lineId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null,
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  numberOfBoxes: {
+    type: Number,
+    default: 1,
+    min: 1,
+  },
+  weightKg: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  courierPartner: {
+    type: String,
+    default: null,
+  },
+  trackingId: {
+    type: String,
+    default: null,
+  },
+  trackingUrl: {
+    type: String,
+    default: null,
+  },
+  status: {
+    type: String,
+    enum: ["dispatched", "in_transit", "out_for_delivery", "delivered"],
+    default: "dispatched",
+  },
+  dispatchedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  deliveredAt: {
+    type: Date,
+    default: null,
+  },
+  notes: {
+    type: String,
+    default: "",
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+});
+
+// Single-product orders keep the product fields on the order itself; cart orders use items
+function isSingleProductOrder() {
+  return !this.items || this.items.length === 0;
+}
 
 const OrderSchema = new mongoose.Schema(
   {
@@ -15,52 +299,120 @@ const OrderSchema = new mongoose.Schema(
     product: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "Product",
-      required: true,
+      required: isSingleProductOrder,
     },
     quantity: {
       type: Number,
-      required: true,
+      required: isSingleProductOrder,
       min: 1,
     },
     finish: {
       type: String,
-      required: true,
+      required: isSingleProductOrder,
     },
     shape: {
       type: String,
-      required: true,
+      required: isSingleProductOrder,
     },
-    selectedOptions: [
-      {
-        optionId: String,
-        optionName: String,
-        priceAdd: Number,
-        description: String, // Option description
-        image: String, // Option image URL if available
+    // Selected texture type (priced through filters.textureTypePrices)
+    textureType: {
+      type: String,
+      default: null,
+    },
+    customSize: customSizeDefinition,
+    selectedOptions: [selectedOptionDefinition],
+    selectedDynamicAttributes: [selectedDynamicAttributeDefinition],
+    // Line items of a cart order (empty for single-product orders)
+    items: [OrderLineSchema],
+    // Coupon applied to this order (snapshot taken when the order was placed)
+    coupon: {
+      couponId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Coupon",
+        default: null,
       },
-    ],
-    // Selected dynamic attributes with complete information
-    selectedDynamicAttributes: [
-      {
-        attributeTypeId: String, // Reference to AttributeType
-        attributeName: String, // Name of the attribute (e.g., "Paper GSM", "Lamination Type")
-        attributeValue: mongoose.Schema.Types.Mixed, // Can be String, Number, Array, etc.
-        label: String, // Display label for the selected value
-        priceMultiplier: Number, // Price multiplier if applicable
-        priceAdd: Number, // Additional price if applicable
-        description: String, // Description of the selected value
-        image: String, // Image URL if available
+      code: { type: String, default: null },
+      discountType: { type: String, enum: ["PERCENT", "FLAT", null], default: null },
+      discountValue: { type: Number, default: null },
+      maxDiscountAmount: { type: Number, default: null },
+      discountAmount: { type: Number, default: 0 },
+    },
+    priceList: priceListDefinition,
+    // Delivery zone the shipping was charged for (null = no zone covered the pincode)
+    deliveryZone: {
+      type: {
+        zoneId: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "DeliveryZone",
+        },
+        name: String,
+        flatRate: Number,
+        ratePerKg: Number,
+        freeShippingThreshold: Number,
+        minOrderValue: Number,
       },
-    ],
+      default: null,
+    },
+    shippingCharge: {
+      type: Number,
+      default: 0,
+    },
+    // GST split by place of supply (null when the seller state isn't configured or the delivery state isn't known)
+    gstSplit: {
+      type: {
+        sellerStateCode: String,
+        placeOfSupplyCode: String,
+        placeOfSupply: String,
+        isInterState: Boolean,
+        stateTaxLabel: String, // "SGST" or "UTGST" for intra-state supplies
+        cgstRate: Number,
+        cgstAmount: Number,
+        sgstRate: Number,
+        sgstAmount: Number,
+        igstRate: Number,
+        igstAmount: Number,
+      },
+      default: null,
+    },
+    // Pricing inputs (product prices, selections, coupon, price list) and the breakdown at order time.
+    // Order views render from this instead of the product's current prices.
+    pricingSnapshot: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
     totalPrice: {
       type: Number,
       required: true,
     },
+    // Changed only through transitionOrderStatus (utils/orderStatusHelper.js)
     status: {
       type: String,
-      enum: ["request", "production_ready", "approved", "processing", "completed", "cancelled", "rejected"],
+      enum: ORDER_STATUSES,
       default: "request",
     },
+    statusHistory: [
+      {
+        fromStatus: String,
+        toStatus: String,
+        actor: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+          default: null,
+        },
+        actorRole: {
+          type: String,
+          default: null,
+        },
+        reason: {
+          type: String,
+          default: "",
+        },
+        changedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     // Track which department is currently working on this order
     currentDepartment: {
       type: mongoose.Schema.Types.ObjectId,
@@ -88,18 +440,7 @@ const OrderSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
-    uploadedDesign: {
-      frontImage: {
-        data: Buffer,
-        contentType: String,
-        filename: String,
-      },
-      backImage: {
-        data: Buffer,
-        contentType: String,
-        filename: String,
-      },
-    },
+    uploadedDesign: uploadedDesignDefinition,
     notes: {
       type: String,
       default: "",
@@ -108,72 +449,32 @@ const OrderSchema = new mongoose.Schema(
       type: String,
       default: "",
     },
+    // Past order this order repeats (one-click reorder)
+    reorderedFrom: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      default: null,
+    },
+    // Order this zero-cost order reprints, and the complaint that approved it
+    reprintOf: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Order",
+      default: null,
+    },
+    complaint: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Complaint",
+      default: null,
+    },
+    // Never gets a tax invoice (reprints: the original order's invoice covers the goods)
+    nonInvoiceable: {
+      type: Boolean,
+      default: false,
+    },
     // Department-level status tracking
-    departmentStatuses: [
-      {
-        department: {
-          type: mongoose.Schema.Types.ObjectId,
-          ref: "Department",
-          required: true,
-        },
-        status: {
-          type: String,
-          enum: ["pending", "in_progress", "paused", "completed", "stopped"],
-          default: "pending",
-        },
-        whenAssigned: {
-          type: Date,
-          default: null,
-        },
-        startedAt: {
-          type: Date,
-          default: null,
-        },
-        pausedAt: {
-          type: Date,
-          default: null,
-        },
-        completedAt: {
-          type: Date,
-          default: null,
-        },
-        stoppedAt: {
-          type: Date,
-          default: null,
-        },
-        operator: {
-          type: mongoose.Schema.Types.ObjectId,
-          ref: "User",
-          default: null,
-        },
-        notes: {
-          type: String,
-          default: "",
-        },
-      },
-    ],
+    departmentStatuses: [departmentStatusDefinition],
     // Production workflow timeline
-    productionTimeline: [
-      {
-        department: {
-          type: mongoose.Schema.Types.ObjectId,
-          ref: "Department",
-        },
-        action: {
-          type: String,
-          enum: ["requested", "started", "paused", "resumed", "stopped", "completed"],
-        },
-        timestamp: {
-          type: Date,
-          default: Date.now,
-        },
-        operator: {
-          type: mongoose.Schema.Types.ObjectId,
-          ref: "User",
-        },
-        notes: String,
-      },
-    ],
+    productionTimeline: [productionTimelineEntryDefinition],
     // Design & File Preparation fields
     designOption: {
       type: String,
@@ -266,20 +567,43 @@ const OrderSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
-    // Invoice
+    // Invoice - issued once by utils/invoiceHelper.js and never changed afterwards
     invoiceNumber: {
       type: String,
       default: null,
+      immutable: isInvoiceIssued,
     },
     invoiceGeneratedAt: {
       type: Date,
       default: null,
+      immutable: isInvoiceIssued,
     },
     invoiceUrl: {
       type: String,
       default: null,
+      immutable: isInvoiceIssued,
+    },
+    // Contents of the issued invoice (seller, buyer, lines, tax split), the PDF is rendered from them
+    invoiceSnapshot: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+      immutable: isInvoiceIssued,
+    },
+    // The rendered PDF in the file store (utils/fileStore.js), stored once after the invoice is issued
+    invoiceFile: {
+      type: {
+        fileId: String,
+        storage: String,
+        contentType: String,
+        filename: String,
+        size: Number,
+      },
+      default: null,
+      immutable: isInvoiceFileStored,
     },
     // Courier & Delivery
+    // Consignments sent so far; the single-consignment fields below are kept in step by syncShipmentSummary
+    shipments: [ShipmentSchema],
     courierPartner: {
       type: String,
       default: null,
@@ -330,6 +654,55 @@ const OrderSchema = new mongoose.Schema(
       type: String,
       default: null,
     },
+    // Changes to the amount due after the order was placed (> 0 to collect, < 0 to refund)
+    paymentAdjustments: [
+      {
+        amount: {
+          type: Number,
+          required: true,
+        },
+        reason: {
+          type: String,
+          default: "",
+        },
+        amendment: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "AmendmentRequest",
+          default: null,
+        },
+        complaint: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "Complaint",
+          default: null,
+        },
+        // Credit note issued for a refund (complaint or cancellation)
+        creditNoteNumber: {
+          type: String,
+          default: null,
+        },
+        createdBy: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+          default: null,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // Outcome of a customer cancellation under the cancellation rules (config/cancellation.js)
+    cancellation: {
+      type: {
+        rule: String,
+        refundPercent: Number,
+        paidAmount: Number,
+        refundAmount: Number,
+        creditNoteNumber: String,
+        cancelledAt: Date,
+      },
+      default: null,
+    },
     // Legacy product specifications (kept for backward compatibility)
     // These are now stored in selectedDynamicAttributes, but kept here for existing orders
     paperGSM: {
@@ -352,30 +725,37 @@ const OrderSchema = new mongoose.Schema(
 );
 
 // Add indexes for better query performance
-OrderSchema.index({ status: 1 }); // For filtering by status
+OrderSchema.index({ status: 1, createdAt: -1, _id: -1 }); // For filtering by status (admin orders view pages by createdAt, _id)
+OrderSchema.index({ paymentStatus: 1, createdAt: -1 }); // For the payment status filter
 OrderSchema.index({ user: 1 }); // For getMyOrders
 OrderSchema.index({ user: 1, createdAt: -1 }); // Compound index for getMyOrders with sorting - CRITICAL for performance
 OrderSchema.index({ "departmentStatuses.department": 1 }); // For getDepartmentOrders
-OrderSchema.index({ createdAt: -1 }); // For sorting by creation date
+OrderSchema.index({ createdAt: -1, _id: -1 }); // For sorting by creation date and cursor pagination
 OrderSchema.index({ status: 1, "departmentStatuses.department": 1 }); // Compound index for getDepartmentOrders
 OrderSchema.index({ currentDepartment: 1 }); // For tracking current department
+OrderSchema.index({ "items.departmentStatuses.department": 1 }); // For getDepartmentOrders on cart orders
+OrderSchema.index({ "coupon.couponId": 1, user: 1 }); // For per-user coupon usage limits
+OrderSchema.index({ product: 1 }); // For the product filter of the admin orders view
+OrderSchema.index({ "items.product": 1 }); // Same, for cart orders
+OrderSchema.index({ mobileNumber: 1 }); // For order search by mobile number
 
-// Generate unique order number before saving (always generate if not provided)
+// Take the next order number of the financial year before the first save (older orders keep their ORD-... numbers)
 OrderSchema.pre("save", async function (next) {
-  // Only generate if orderNumber is not already set
   if (!this.orderNumber || this.orderNumber.trim() === "") {
     try {
-      // Use a combination of timestamp and random number for uniqueness
-      const timestamp = Date.now();
-      const random = Math.floor(Math.random() * 10000);
-      this.orderNumber = `ORD-${timestamp}-${String(random).padStart(4, "0")}`;
+      this.orderNumber = await nextDocumentNumber(DOCUMENT_SERIES.ORDER, { session: this.$session() });
     } catch (error) {
-      // Fallback: use timestamp and random if anything fails
-      this.orderNumber = `ORD-${Date.now()}-${Math.floor(Math.random() * 10000).toString().padStart(4, "0")}`;
+      return next(error);
     }
   }
   next();
 });
 
+// Every save is recorded in the audit log with before/after values (registered last so the order number is set)
+OrderSchema.plugin(auditPlugin, { entityType: "Order" });
+
+// Shared with the cart, which holds the same product configurations before checkout
+export { selectedOptionDefinition, selectedDynamicAttributeDefinition, designImageDefinition, uploadedDesignDefinition };
+
 export default mongoose.model("Order", OrderSchema);
 
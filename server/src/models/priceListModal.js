@@ -0,0 +1,86 @@
+import mongoose from "mongoose";
+
+// Contract price lists - negotiated rates for B2B customers (agencies etc.)
+// Any field left empty on a product entry falls back to the catalog price.
+const PriceListSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    // Customers this list applies to (one user or a group of users)
+    users: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    // Used when a customer is on more than one active list for the same product (higher wins)
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    validFrom: {
+      type: Date,
+      default: null,
+    },
+    validUntil: {
+      type: Date,
+      default: null,
+    },
+    products: [
+      {
+        product: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "Product",
+          required: true,
+        },
+        // Replaces Product.basePrice (null = catalog base price)
+        basePrice: {
+          type: Number,
+          default: null,
+        },
+        // Replaces the product's range-wise price multipliers (empty = catalog ranges)
+        rangeWiseQuantities: [
+          {
+            min: { type: Number, required: true },
+            max: { type: Number, default: null },
+            priceMultiplier: { type: Number, required: true },
+          },
+        ],
+        // Replaces the charge for individual attribute values
+        attributeValuePrices: [
+          {
+            attributeType: {
+              type: mongoose.Schema.Types.ObjectId,
+              ref: "AttributeType",
+              required: true,
+            },
+            attributeValue: { type: String, required: true },
+            priceAdd: { type: Number, default: 0 },
+            pricingMode: {
+              type: String,
+              enum: ["PER_UNIT", "PER_1000", "FLAT", "PERCENTAGE"],
+              default: "PER_UNIT",
+            },
+          },
+        ],
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { timestamps: true }
+);
+
+PriceListSchema.index({ users: 1, isActive: 1 });
+
+export default mongoose.model("PriceList", PriceListSchema);
@@ -33,6 +33,11 @@ const ProductSchema = new mongoose.Schema(
       {
         name: String,
         priceAdd: Number,
+        // How priceAdd is charged: PER_UNIT, PER_1000, FLAT (once per order) or PERCENTAGE (of base price)
+        pricingMode: {
+          type: String,
+          enum: ["PER_UNIT", "PER_1000", "FLAT", "PERCENTAGE"],
+        },
         description: String,
         image: String, // Image URL for this option
       },
@@ -96,6 +101,11 @@ const ProductSchema = new mongoose.Schema(
             value: String,
             label: String,
             priceMultiplier: Number,
+            priceAdd: Number,
+            pricingMode: {
+              type: String,
+              enum: ["PER_UNIT", "PER_1000", "FLAT", "PERCENTAGE"],
+            },
             description: String,
             image: String,
           },
@@ -139,7 +149,34 @@ const ProductSchema = new mongoose.Schema(
     // Additional charges and taxes
     additionalDesignCharge: { type: Number, default: 0 }, // Fixed fee for design help
     gstPercentage: { type: Number, default: 0 }, // GST percentage (required for invoice calculation)
+    hsnCode: { type: String, trim: true, default: "" }, // HSN/SAC code printed on invoices (empty = DEFAULT_HSN_CODE)
     showPriceIncludingGst: { type: Boolean, default: false }, // If true, show prices including GST; if false, show excluding GST (industry standard)
+    shippingWeightPer1000: { type: Number, default: 0 }, // Shipment weight in kg per 1000 units (for weight-based shipping)
+
+    // Custom width x height (the "Custom" card shape), priced by area
+    customSize: {
+      enabled: { type: Boolean, default: false },
+      unit: { type: String, enum: ["INCH", "MM"], default: "INCH" }, // Dimensions in inches (rate per sq inch) or mm (rate per mm²)
+      minWidth: Number,
+      maxWidth: Number, // Empty = no limit
+      minHeight: Number,
+      maxHeight: Number, // Empty = no limit
+      // Rate per square unit for one piece, by order quantity
+      areaRates: [{
+        minQuantity: { type: Number, required: true },
+        maxQuantity: { type: Number, default: null }, // null means no upper limit
+        ratePerUnitArea: { type: Number, required: true },
+      }],
+      // Extra percentage of the area price for sizes that waste sheet space, by area of one piece
+      wastageRules: [{
+        minArea: { type: Number, default: 0 },
+        maxArea: { type: Number, default: null }, // null means no upper limit
+        wastagePercentage: { type: Number, default: 0 },
+      }],
+    },
+
+    // Current price version (history in ProductPriceVersion, bumped on every pricing change)
+    priceVersion: { type: Number, default: 1 },
 
     // Custom instructions for customers (must follow, otherwise company not responsible)
     instructions: { type: String }, // Custom instructions text that customers must follow
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+
+// One entry per product pricing change - the price history of a product
+// Only the fields the pricing engine reads are kept (see PRICING_FIELDS in utils/priceVersionHelper.js).
+const ProductPriceVersionSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Product",
+      required: true,
+    },
+    // 1, 2, 3... per product (matches Product.priceVersion for the current one)
+    version: {
+      type: Number,
+      required: true,
+    },
+    // Period these prices applied to new orders (effectiveTo = null for the current version)
+    effectiveFrom: {
+      type: Date,
+      required: true,
+    },
+    effectiveTo: {
+      type: Date,
+      default: null,
+    },
+    // basePrice, options, filters, dynamicAttributes, quantityDiscounts, additionalDesignCharge, gstPercentage, shippingWeightPer1000, customSize
+    pricing: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true,
+    },
+    // Pricing fields that differ from the previous version
+    changedFields: [String],
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+ProductPriceVersionSchema.index({ product: 1, version: -1 }, { unique: true });
+
+export default mongoose.model("ProductPriceVersion", ProductPriceVersionSchema);
@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { designImageDefinition } from "./orderModal.js";
 
 const designSchema = new mongoose.Schema(
   {
@@ -35,18 +36,11 @@ const designSchema = new mongoose.Schema(
     },
     // Front image (COMPULSORY)
     frontImage: {
-      data: { type: Buffer, required: true }, // Required
-      contentType: { type: String, required: true }, // Required
-      filename: String,
-      size: Number
+      type: designImageDefinition,
+      required: true,
     },
     // Back image (OPTIONAL)
-    backImage: {
-      data: Buffer,
-      contentType: String,
-      filename: String,
-      size: Number
-    }
+    backImage: designImageDefinition
   },
   { timestamps: true }
 );
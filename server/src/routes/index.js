@@ -2,7 +2,8 @@ import express from "express";
 import { adminAuth } from "../middlewares/roleMiddleware.js";
 import { authMiddleware } from "../middlewares/authMiddleware.js";
 import { optionalAuthMiddleware } from "../middlewares/optionalAuthMiddleware.js";
-import upload from "../middlewares/upload.js";
+import upload, { streamDesignFile, streamComplaintPhotos } from "../middlewares/upload.js";
+import { fileAccessMiddleware } from "../middlewares/fileAccessMiddleware.js";
 
 /* CATEGORY CONTROLLERS */
 import {
@@ -28,6 +29,7 @@ import {
   getProductsBySubcategory,
   updateProduct,
   deleteProduct,
+  getProductPriceVersions,
 } from "../controllers/productController.js";
 
 /* ADMIN CONTROLLERS */
@@ -51,6 +53,9 @@ import {
 /* IMAGE UPLOAD CONTROLLER */
 import { uploadImage } from "../controllers/imageUploadController.js";
 
+/* FILE CONTROLLERS */
+import { uploadDesignFile, downloadFile } from "../controllers/fileController.js";
+
 /* ORDER CONTROLLERS */
 import {
   createOrder,
@@ -58,10 +63,83 @@ import {
   getMyOrders,
   getSingleOrder,
   getAllOrders,
+  exportOrders,
   updateOrderStatus,
+  bulkUpdateOrders,
   cancelOrder,
+  getCancellationPreview,
 } from "../controllers/orderController.js";
 
+/* QUOTE CONTROLLERS */
+import { createQuote, getTaxSettings } from "../controllers/quoteController.js";
+
+/* COUPON CONTROLLERS */
+import {
+  createCoupon,
+  getAllCoupons,
+  updateCoupon,
+  deleteCoupon,
+} from "../controllers/couponController.js";
+
+/* PRICE LIST CONTROLLERS */
+import {
+  createPriceList,
+  getAllPriceLists,
+  updatePriceList,
+  deletePriceList,
+  getMyPriceList,
+} from "../controllers/priceListController.js";
+
+/* DELIVERY ZONE CONTROLLERS */
+import {
+  createDeliveryZone,
+  getAllDeliveryZones,
+  updateDeliveryZone,
+  deleteDeliveryZone,
+  getDeliveryZoneForPincode,
+} from "../controllers/deliveryZoneController.js";
+
+/* CART CONTROLLERS */
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  checkoutCart,
+} from "../controllers/cartController.js";
+
+/* REORDER CONTROLLERS */
+import { previewReorder, createReorder } from "../controllers/reorderController.js";
+
+/* AMENDMENT CONTROLLERS */
+import {
+  previewAmendment,
+  createAmendment,
+  getOrderAmendments,
+  getAllAmendments,
+  approveAmendment,
+  rejectAmendment,
+} from "../controllers/amendmentController.js";
+
+/* SHIPMENT CONTROLLERS */
+import { getOrderShipments, createShipment, updateShipment } from "../controllers/shipmentController.js";
+
+/* INVOICE CONTROLLERS */
+import { downloadOrderInvoice, issueInvoice } from "../controllers/invoiceController.js";
+
+/* COMPLAINT CONTROLLERS */
+import {
+  getOrderComplaints,
+  createComplaint,
+  getAllComplaints,
+  getComplaint,
+  resolveComplaint,
+  getComplaintReport,
+} from "../controllers/complaintController.js";
+
+/* AUDIT CONTROLLERS */
+import { getOrderAuditLog } from "../controllers/auditController.js";
+
 /* ORDER APPROVAL CONTROLLERS */
 import {
   approveOrderForProduction,
@@ -197,6 +275,7 @@ router.put(
   updateProduct
 );
 router.delete("/products/:id", authMiddleware, adminAuth, deleteProduct);
+router.get("/products/:id/price-versions", authMiddleware, adminAuth, getProductPriceVersions);
 
 /* =====================================
    ADMIN ROUTES
@@ -236,6 +315,65 @@ router.get("/reviews", getAllReviews);
 ===================================== */
 router.post("/upload-image", authMiddleware, upload.single("image"), uploadImage);
 
+/* =====================================
+   FILE STORE ROUTES (customer designs)
+===================================== */
+// Multipart "file", converted to CMYK while it streams in; returns the file reference to order with
+router.post("/files/designs", authMiddleware, streamDesignFile, uploadDesignFile);
+// Signed links from API responses need no token; otherwise admins, employees and the file's owner
+router.get("/files/:storage/:fileId", fileAccessMiddleware, downloadFile); // ?download=true to save instead of show
+
+/* =====================================
+   QUOTE ROUTES
+===================================== */
+
+// Server-authoritative price quote - authentication is optional
+router.post("/quotes", optionalAuthMiddleware, createQuote);
+router.get("/quotes/tax-settings", getTaxSettings);
+
+/* =====================================
+   COUPON ROUTES
+===================================== */
+
+// Customers apply a coupon through POST /quotes (couponCode); these are for admin management
+router.post("/coupons", authMiddleware, adminAuth, createCoupon);
+router.get("/coupons", authMiddleware, adminAuth, getAllCoupons);
+router.put("/coupons/:id", authMiddleware, adminAuth, updateCoupon);
+router.delete("/coupons/:id", authMiddleware, adminAuth, deleteCoupon);
+
+/* =====================================
+   PRICE LIST ROUTES
+===================================== */
+
+// Contract prices are applied automatically by POST /quotes and order creation for logged-in customers
+router.get("/price-lists/mine/:productId", authMiddleware, getMyPriceList);
+router.post("/price-lists", authMiddleware, adminAuth, createPriceList);
+router.get("/price-lists", authMiddleware, adminAuth, getAllPriceLists);
+router.put("/price-lists/:id", authMiddleware, adminAuth, updatePriceList);
+router.delete("/price-lists/:id", authMiddleware, adminAuth, deletePriceList);
+
+/* =====================================
+   DELIVERY ZONE ROUTES
+===================================== */
+
+// Shipping is applied automatically by POST /quotes and order creation from the delivery pincode
+router.get("/delivery-zones/pincode/:pincode", getDeliveryZoneForPincode);
+router.post("/delivery-zones", authMiddleware, adminAuth, createDeliveryZone);
+router.get("/delivery-zones", authMiddleware, adminAuth, getAllDeliveryZones);
+router.put("/delivery-zones/:id", authMiddleware, adminAuth, updateDeliveryZone);
+router.delete("/delivery-zones/:id", authMiddleware, adminAuth, deleteDeliveryZone);
+
+/* =====================================
+   CART ROUTES
+===================================== */
+
+// Checkout places one multi-line order for the whole cart
+router.get("/cart", authMiddleware, getCart);
+router.post("/cart/items", authMiddleware, addCartItem);
+router.put("/cart/items/:itemId", authMiddleware, updateCartItem);
+router.delete("/cart/items/:itemId", authMiddleware, removeCartItem);
+router.post("/cart/checkout", authMiddleware, checkoutCart);
+
 /* =====================================
    ORDER ROUTES
 ===================================== */
@@ -245,16 +383,50 @@ router.post("/orders", authMiddleware, createOrder);
 router.post("/orders/create-with-account", createOrderWithAccount); // No auth required - creates account if needed
 router.get("/orders/my-orders", authMiddleware, getMyOrders);
 router.get("/orders/:orderId", authMiddleware, getSingleOrder);
+router.get("/orders/:orderId/cancellation", authMiddleware, getCancellationPreview); // What cancelling now would refund
 router.put("/orders/:orderId/cancel", authMiddleware, cancelOrder);
+router.get("/orders/:orderId/reorder", authMiddleware, previewReorder); // ?pincode= to quote another delivery pincode
+router.post("/orders/:orderId/reorder", authMiddleware, createReorder);
+// Change requests before production (approved or rejected by an admin)
+router.post("/orders/:orderId/amendments/preview", authMiddleware, previewAmendment);
+router.post("/orders/:orderId/amendments", authMiddleware, createAmendment);
+router.get("/orders/:orderId/amendments", authMiddleware, getOrderAmendments);
+router.get("/orders/:orderId/shipments", authMiddleware, getOrderShipments);
+router.get("/orders/:orderId/invoice", authMiddleware, downloadOrderInvoice); // PDF of the issued invoice
+router.get("/orders/:orderId/complaints", authMiddleware, getOrderComplaints);
+router.post(
+  "/orders/:orderId/complaints",
+  authMiddleware,
+  streamComplaintPhotos,
+  createComplaint
+);
 
 // Admin order routes
 router.get("/admin/orders", authMiddleware, adminAuth, getAllOrders);
+router.get("/admin/orders/export", authMiddleware, adminAuth, exportOrders); // ?format=csv|xlsx, same filters as /admin/orders
+// Returns a result per order; one order failing doesn't stop the others
+router.post("/admin/orders/bulk", authMiddleware, adminAuth, bulkUpdateOrders);
 router.put(
   "/admin/orders/:orderId",
   authMiddleware,
   adminAuth,
   updateOrderStatus
 );
+router.get("/admin/amendments", authMiddleware, adminAuth, getAllAmendments); // ?status=pending
+router.put("/admin/amendments/:amendmentId/approve", authMiddleware, adminAuth, approveAmendment);
+router.put("/admin/amendments/:amendmentId/reject", authMiddleware, adminAuth, rejectAmendment);
+// An order is delivered once every unit has been delivered, across all its shipments
+router.post("/admin/orders/:orderId/shipments", authMiddleware, adminAuth, createShipment);
+router.put("/admin/orders/:orderId/shipments/:shipmentId", authMiddleware, adminAuth, updateShipment);
+// Invoices are issued at INVOICE_TRIGGER (dispatch or payment); admins can issue one at any time
+router.post("/admin/orders/:orderId/invoice", authMiddleware, adminAuth, issueInvoice);
+// Every save of an order is recorded with before/after values, actor, IP and endpoint
+router.get("/admin/orders/:orderId/audit", authMiddleware, adminAuth, getOrderAuditLog); // ?limit=50
+router.get("/admin/complaints", authMiddleware, adminAuth, getAllComplaints); // ?status=open&reason=misprint
+router.get("/admin/complaints/report", authMiddleware, adminAuth, getComplaintReport); // ?from=YYYY-MM-DD&to=YYYY-MM-DD
+router.get("/admin/complaints/:complaintId", authMiddleware, adminAuth, getComplaint);
+// Reprint spawns a linked zero-cost order through the product's department sequence
+router.put("/admin/complaints/:complaintId/resolve", authMiddleware, adminAuth, resolveComplaint);
 
 // New: Admin order approval route (ensures proper department assignment)
 router.post(
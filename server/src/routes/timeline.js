@@ -4,12 +4,17 @@ import {
     getMyOrders,
     getDepartmentOrders,
     startDepartmentWork,
-    completeDepartmentWork
+    completeDepartmentWork,
+    trackGuestOrder
 } from '../controllers/timelineController.js';
 import { authMiddleware } from '../middlewares/authMiddleware.js';
+import { guestTrackingIpLimiter, guestTrackingOrderLimiter } from '../middlewares/rateLimitMiddleware.js';
 
 const router = express.Router();
 
+// Guest tracking (no login) - { orderNumber, mobileNumber }
+router.post('/track', guestTrackingIpLimiter, guestTrackingOrderLimiter, trackGuestOrder);
+
 // Customer routes
 router.get('/my-orders', authMiddleware, getMyOrders);
 router.get('/:orderId/timeline', authMiddleware, getOrderTimeline);
@@ -10,6 +10,7 @@ import authRoutes from "./routes/authRoutes.js";
 import apiRoutes from "./routes/index.js";
 import uploadRoutes from "./routes/uploadRoutes.js";
 import timelineRoutes from "./routes/timeline.js";
+import { requestContextMiddleware } from "./middlewares/requestContext.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -57,8 +58,18 @@ process.on('warning', (warning) => {
 
 const app = express();
 
-// Trust proxy for reverse proxy setups
-app.set("trust proxy", true);
+// Reverse proxies in front of the app (TRUST_PROXY_HOPS, default 1), so req.ip is the client's address
+// and can't be faked with an X-Forwarded-For header of its own
+let trustProxyHops = 1;
+if (process.env.TRUST_PROXY_HOPS) {
+  const hops = Number(process.env.TRUST_PROXY_HOPS);
+  if (Number.isInteger(hops) && hops >= 0) {
+    trustProxyHops = hops;
+  } else {
+    console.warn(`TRUST_PROXY_HOPS "${process.env.TRUST_PROXY_HOPS}" is not a whole number - using 1`);
+  }
+}
+app.set("trust proxy", trustProxyHops);
 
 // CORS - Allow all origins for development
 app.use(
@@ -114,6 +125,9 @@ app.use(
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
+// Lets model hooks (the audit log) see who made a change and through which endpoint
+app.use(requestContextMiddleware);
+
 // API ROUTES (must come before SSR routes)
 app.use("/api/auth", authRoutes);
 app.use("/api", apiRoutes);
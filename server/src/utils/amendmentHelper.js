@@ -0,0 +1,253 @@
+// Order amendments
+// Customers can change an order until production starts. Changes are priced from the order's pricing
+// snapshot, so the difference only reflects what the customer changed, not later price changes.
+
+import Product from '../models/productModal.js';
+import { findOrderLine } from './orderDepartmentHelper.js';
+import { findDeliveryZoneForPincode } from './deliveryZoneHelper.js';
+import { assertMinimumOrderValue, resolveDeliveryState } from './orderPricingHelper.js';
+import {
+    calculateOrderBreakdown,
+    calculateCartBreakdown,
+    resolveDynamicAttributes,
+    findDynamicAttributeConflicts,
+    roundCurrency,
+} from '../../../shared/pricing.js';
+import { pincodeNeedsDeliveryState } from '../../../shared/gst.js';
+
+// Orders can be changed while they are still a request or in the design stage
+export const AMENDABLE_ORDER_STATUSES = ['request', 'production_ready'];
+
+const amendmentError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+// An issued tax invoice can't be changed, so an invoiced order can't be either
+export const INVOICED_ORDER_MESSAGE = 'This order has been invoiced and can no longer be changed. Please contact us to change it.';
+
+export const isOrderAmendable = (order) =>
+    AMENDABLE_ORDER_STATUSES.includes(order.status) && !order.invoiceNumber;
+
+const isCartOrder = (order) => order.items?.length > 0;
+
+const trimmedOrNull = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// A design with a front image, as uploaded (data or file reference) or as stored
+const hasFrontImage = (design) => Boolean(design?.frontImage?.data || design?.frontImage?.fileId);
+
+/**
+ * Validate a customer's requested changes against the order
+ * Only fields that differ from the order are kept. The design is checked for presence only;
+ * the caller converts it with processUploadedDesign.
+ *
+ * @param {Object} order - Order document
+ * @param {Object} input - lineId (cart orders), quantity, selectedDynamicAttributes, address, pincode,
+ *                         deliveryState (state of the shipping address, for pincodes shared between states), mobileNumber,
+ *                         uploadedDesign ({ frontImage: { data, filename } or { fileId, storage }, backImage? })
+ * @returns {Promise<Object>} { line, changes, previous }
+ * @throws Error with statusCode 400 when the order can't be changed or nothing valid was requested
+ */
+export const resolveAmendmentChanges = async (order, input) => {
+    if (!AMENDABLE_ORDER_STATUSES.includes(order.status)) {
+        throw amendmentError(`Orders can only be changed before production starts. Current status: ${order.status}`);
+    }
+    if (order.invoiceNumber) {
+        throw amendmentError(INVOICED_ORDER_MESSAGE);
+    }
+
+    const changes = {};
+    const previous = {};
+
+    const wantsLineChange = input.quantity !== undefined ||
+        input.selectedDynamicAttributes !== undefined ||
+        Boolean(input.uploadedDesign);
+    const line = findOrderLine(order, input.lineId);
+    if (wantsLineChange && !line) {
+        throw amendmentError(input.lineId ? 'Order line not found' : 'lineId is required for orders with more than one line');
+    }
+
+    if (input.quantity !== undefined && input.quantity !== null && input.quantity !== '') {
+        const quantity = parseInt(input.quantity);
+        if (!quantity || quantity <= 0) {
+            throw amendmentError('Quantity must be a positive number');
+        }
+        if (quantity !== line.quantity) {
+            changes.quantity = quantity;
+            previous.quantity = line.quantity;
+        }
+    }
+
+    if (input.selectedDynamicAttributes !== undefined) {
+        const product = await Product.findById(line.product?._id || line.product)
+            .populate({ path: 'dynamicAttributes.attributeType', model: 'AttributeType' })
+            .lean();
+        if (!product) {
+            throw amendmentError('This product is no longer available', 404);
+        }
+        const selectedDynamicAttributes = resolveDynamicAttributes(product, input.selectedDynamicAttributes);
+        const conflicts = findDynamicAttributeConflicts(product, selectedDynamicAttributes);
+        if (conflicts.length > 0) {
+            throw amendmentError(conflicts.map((conflict) => conflict.message).join('; '));
+        }
+        changes.selectedDynamicAttributes = selectedDynamicAttributes;
+        previous.selectedDynamicAttributes = line.selectedDynamicAttributes;
+    }
+
+    const address = trimmedOrNull(input.address);
+    if (address && address !== order.address) {
+        changes.address = address;
+        previous.address = order.address;
+    }
+    const pincode = trimmedOrNull(input.pincode);
+    if (pincode && pincode !== order.pincode) {
+        if (!/^\d{6}$/.test(pincode)) {
+            throw amendmentError('Pincode must be 6 digits');
+        }
+        changes.pincode = pincode;
+        previous.pincode = order.pincode;
+    }
+    // The state only counts for a pincode that can't be placed; a new pincode drops the state chosen for the old one
+    const previousDeliveryState = changes.pincode ? null : order.pricingSnapshot?.inputs?.deliveryState || null;
+    const deliveryState = resolveDeliveryState(input.deliveryState);
+    if (deliveryState && deliveryState !== previousDeliveryState && pincodeNeedsDeliveryState(changes.pincode || order.pincode)) {
+        changes.deliveryState = deliveryState;
+        previous.deliveryState = order.pricingSnapshot?.inputs?.deliveryState || null;
+    }
+    const mobileNumber = trimmedOrNull(input.mobileNumber);
+    if (mobileNumber && mobileNumber !== order.mobileNumber) {
+        changes.mobileNumber = mobileNumber;
+        previous.mobileNumber = order.mobileNumber;
+    }
+
+    const hasDesign = hasFrontImage(input.uploadedDesign);
+    if (Object.keys(changes).length === 0 && !hasDesign) {
+        throw amendmentError('No changes requested');
+    }
+
+    return { line, changes, previous };
+};
+
+// Order value the coupon's minimum applies to (the lines it discounts)
+const couponEligibleSubtotal = (inputs, breakdown) => breakdown.lines
+    ? breakdown.lines
+        .filter((_, i) => inputs.lines[i].couponEligible !== false)
+        .reduce((sum, line) => sum + line.breakdown.subtotalAfterDiscount, 0)
+    : breakdown.subtotalAfterDiscount;
+
+/**
+ * Re-price an order with the requested changes
+ *
+ * @param {Object} order - Order document
+ * @param {Object} line - Changed line (the order itself for single-product orders)
+ * @param {Object} changes - Result of resolveAmendmentChanges
+ * @returns {Promise<Object>} { previousTotal, newTotal, difference, breakdown, pricingSnapshot }
+ * @throws Error with statusCode 400 when the order has no pricing snapshot or the changed order isn't valid
+ */
+export const priceAmendment = async (order, line, changes) => {
+    const snapshot = order.pricingSnapshot;
+    if (!snapshot?.inputs) {
+        throw amendmentError('This order was placed before prices were recorded on orders and can\'t be re-priced online. Please contact us to change it.');
+    }
+
+    const lineChanges = {};
+    if (changes.quantity) lineChanges.quantity = changes.quantity;
+    if (changes.selectedDynamicAttributes) lineChanges.selectedDynamicAttributes = changes.selectedDynamicAttributes;
+
+    // A new pincode can move the order to another delivery zone and changes the GST split
+    const pincode = changes.pincode || snapshot.inputs.pincode;
+    const deliveryState = changes.deliveryState || (changes.pincode ? null : snapshot.inputs.deliveryState || null);
+    const deliveryZone = changes.pincode
+        ? await findDeliveryZoneForPincode(changes.pincode)
+        : snapshot.inputs.deliveryZone || null;
+
+    let inputs;
+    let breakdown;
+    if (isCartOrder(order)) {
+        inputs = {
+            ...snapshot.inputs,
+            pincode,
+            deliveryState,
+            deliveryZone,
+            lines: snapshot.inputs.lines.map((snapshotLine, i) =>
+                line && order.items[i]._id.equals(line._id) ? { ...snapshotLine, ...lineChanges } : snapshotLine
+            ),
+        };
+        breakdown = calculateCartBreakdown(inputs);
+    } else {
+        inputs = { ...snapshot.inputs, ...lineChanges, pincode, deliveryState, deliveryZone };
+        breakdown = calculateOrderBreakdown(inputs);
+    }
+
+    const coupon = inputs.coupon;
+    if (coupon && couponEligibleSubtotal(inputs, breakdown) < (coupon.minOrderValue || 0)) {
+        throw amendmentError(`A minimum order value of ₹${coupon.minOrderValue} is required to keep coupon ${coupon.code}`);
+    }
+    assertMinimumOrderValue({ deliveryZone, breakdown });
+
+    const newTotal = roundCurrency(breakdown.finalTotal);
+    return {
+        previousTotal: order.totalPrice,
+        newTotal,
+        difference: roundCurrency(newTotal - order.totalPrice),
+        breakdown,
+        pricingSnapshot: { ...snapshot, amendedAt: new Date(), inputs, breakdown },
+    };
+};
+
+/**
+ * Apply an approved amendment to its order (the caller saves the order)
+ * A price difference is recorded as a payment adjustment; a fully paid order that now costs more
+ * goes back to a partial payment.
+ *
+ * @param {Object} order - Order document
+ * @param {Object} amendment - AmendmentRequest document
+ * @param {Object} actor - Admin approving the amendment
+ */
+export const applyAmendment = (order, amendment, actor) => {
+    const { changes, pricing } = amendment;
+    const hasLineChanges = Boolean(changes.quantity || changes.selectedDynamicAttributes || hasFrontImage(changes.uploadedDesign));
+    const line = findOrderLine(order, amendment.lineId);
+    if (hasLineChanges && !line) {
+        throw amendmentError('Order line not found');
+    }
+
+    if (changes.quantity) line.quantity = changes.quantity;
+    if (changes.selectedDynamicAttributes) line.selectedDynamicAttributes = changes.selectedDynamicAttributes;
+    if (hasFrontImage(changes.uploadedDesign)) line.uploadedDesign = changes.uploadedDesign;
+    if (changes.address) order.address = changes.address;
+    if (changes.mobileNumber) order.mobileNumber = changes.mobileNumber;
+    if (changes.pincode) {
+        order.pincode = changes.pincode;
+        order.deliveryZone = pricing.pricingSnapshot.inputs.deliveryZone;
+    }
+
+    const { breakdown } = pricing;
+    order.pricingSnapshot = pricing.pricingSnapshot;
+    order.totalPrice = pricing.newTotal;
+    order.shippingCharge = breakdown.shippingCharge;
+    order.gstSplit = breakdown.gstSplit;
+    if (order.coupon?.couponId) {
+        order.coupon.discountAmount = roundCurrency(breakdown.couponDiscount);
+    }
+    if (isCartOrder(order)) {
+        order.items.forEach((item, i) => {
+            item.lineTotal = roundCurrency(breakdown.lines[i].lineTotal);
+        });
+        order.markModified('items');
+    }
+    order.markModified('pricingSnapshot');
+
+    if (pricing.difference !== 0) {
+        order.paymentAdjustments.push({
+            amount: pricing.difference,
+            reason: `Order amendment approved (${pricing.difference > 0 ? 'additional payment due' : 'refund due'})`,
+            amendment: amendment._id,
+            createdBy: actor?._id || null,
+        });
+        if (pricing.difference > 0 && order.paymentStatus === 'completed') {
+            order.paymentStatus = 'partial';
+        }
+    }
+};
@@ -0,0 +1,138 @@
+// Audit trail
+// Mongoose plugin that records every save of a document as an AuditLog entry with before/after values per changed path.
+
+import mongoose from 'mongoose';
+import AuditLog from '../models/auditLogModal.js';
+import { getRequestContext } from '../middlewares/requestContext.js';
+
+// Paths never worth recording
+const ALWAYS_IGNORED = ['__v', 'updatedAt'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isEmpty = (value) =>
+    value === undefined ||
+    value === null ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isPlainObject(value) && Object.keys(value).length === 0);
+
+// items.2.uploadedDesign -> items.uploadedDesign
+const normalizePath = (path) => path.replace(/\.\d+(?=\.|$)/g, '');
+
+/**
+ * Plain copy of a value for the audit log
+ * Populated documents become their id and binary data (design files) a size marker, so nothing large is copied.
+ *
+ * @param {*} value - Field value of a Mongoose document
+ * @returns {*} JSON-safe value
+ */
+const toAuditValue = (value) => {
+    if (value === undefined || value === null) return value;
+    if (Buffer.isBuffer(value)) return `[binary, ${value.length} bytes]`;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof mongoose.Types.ObjectId) return value.toString();
+    if (value instanceof mongoose.Document) {
+        return value.$isSubdocument ? toAuditValue(value._doc) : value._id?.toString() ?? null;
+    }
+    if (value instanceof Map) return toAuditValue(Object.fromEntries(value));
+    if (Array.isArray(value)) return value.map(toAuditValue);
+    if (typeof value === 'object') {
+        if (value._bsontype === 'Binary') return `[binary, ${value.length()} bytes]`;
+        return Object.fromEntries(
+            Object.entries(value)
+                .filter(([, fieldValue]) => fieldValue !== undefined)
+                .map(([key, fieldValue]) => [key, toAuditValue(fieldValue)])
+        );
+    }
+    return value;
+};
+
+// Top-level fields of a document as audit values (only the given roots when set)
+const takeSnapshot = (doc, roots) => {
+    const snapshot = {};
+    for (const key of Object.keys(doc._doc)) {
+        if (roots && !roots.has(key)) continue;
+        snapshot[key] = toAuditValue(doc._doc[key]);
+    }
+    return snapshot;
+};
+
+// Collect { path, before, after } for every leaf that differs
+const collectChanges = (before, after, path, ignored, changes) => {
+    if (path && ignored.has(normalizePath(path))) return;
+    if (isEmpty(before) && isEmpty(after)) return;
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            collectChanges(before[key], after[key], path ? `${path}.${key}` : key, ignored, changes);
+        }
+        return;
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+        for (let index = 0; index < Math.max(before.length, after.length); index++) {
+            collectChanges(before[index], after[index], `${path}.${index}`, ignored, changes);
+        }
+        return;
+    }
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ path, before: before ?? null, after: after ?? null });
+    }
+};
+
+/**
+ * Record every save of the schema's documents in the audit log
+ * The values a document was loaded with are kept in $locals so the next save can be diffed against them.
+ * Only document saves are covered - writes through Model.updateOne and the like bypass the log.
+ *
+ * @param {mongoose.Schema} schema
+ * @param {Object} options - entityType (e.g. 'Order'), ignore (paths to leave out, without array indexes)
+ */
+export const auditPlugin = (schema, { entityType, ignore = [] }) => {
+    const ignored = new Set([...ALWAYS_IGNORED, ...ignore]);
+
+    schema.post('init', function () {
+        this.$locals.auditSnapshot = takeSnapshot(this);
+    });
+
+    schema.pre('save', function (next) {
+        const isCreate = this.isNew;
+        const roots = isCreate ? null : new Set(this.modifiedPaths().map((path) => path.split('.')[0]));
+        if (!isCreate && (roots.size === 0 || !this.$locals.auditSnapshot)) {
+            this.$locals.auditPending = null;
+            return next();
+        }
+
+        const after = takeSnapshot(this, roots);
+        const before = {};
+        if (!isCreate) {
+            roots.forEach((root) => { before[root] = this.$locals.auditSnapshot[root]; });
+        }
+        const changes = [];
+        collectChanges(before, after, '', ignored, changes);
+        this.$locals.auditPending = { action: isCreate ? 'create' : 'update', changes, after };
+        next();
+    });
+
+    schema.post('save', async function () {
+        const pending = this.$locals.auditPending;
+        if (!pending) return;
+        this.$locals.auditPending = null;
+        this.$locals.auditSnapshot = { ...(this.$locals.auditSnapshot || {}), ...pending.after };
+        if (pending.action === 'update' && pending.changes.length === 0) return;
+
+        try {
+            // In the save's transaction (if any), so an aborted write leaves no entry
+            await AuditLog.create([{
+                entityType,
+                entity: this._id,
+                action: pending.action,
+                changes: pending.changes,
+                ...(getRequestContext() || {}),
+            }], { session: this.$session() });
+        } catch (err) {
+            // A missing audit entry must not fail the write it describes
+            console.error('AUDIT LOG ERROR ===>', err);
+        }
+    });
+};
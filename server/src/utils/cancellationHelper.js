@@ -0,0 +1,149 @@
+// Order cancellation
+// How much a customer gets back depends on how far the order got; the rules live in config/cancellation.js.
+
+import mongoose from 'mongoose';
+import Department from '../models/departmentModal.js';
+import { getCancellationRules } from '../config/cancellation.js';
+import { DOCUMENT_SERIES } from '../config/numbering.js';
+import { nextDocumentNumber } from './documentNumberHelper.js';
+import { getOrderLines } from './orderDepartmentHelper.js';
+import { transitionOrderStatus } from './orderStatusHelper.js';
+import { getPaidAmount } from './complaintHelper.js';
+import { releaseCoupon } from './couponHelper.js';
+import { canTransitionOrderStatus, ORDER_STATUS_LABELS } from '../../../shared/orderStatus.js';
+
+const cancellationError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+const toId = (value) => (value && typeof value === 'object' && value._id ? value._id : value)?.toString();
+
+// Department work that has begun (a reassigned department was "stopped" after starting)
+const hasStarted = (departmentStatus) => Boolean(departmentStatus.startedAt) || departmentStatus.status === 'completed';
+
+/**
+ * Progress of every department the order (or any of its lines) has been sent to, by lower-case department name
+ *
+ * @param {Object} order - Order document or lean object
+ * @returns {Promise<Map<string, { started: boolean, completed: boolean }>>}
+ */
+const getDepartmentProgress = async (order) => {
+    const departmentStatuses = getOrderLines(order).flatMap((line) => line.departmentStatuses || []);
+    const ids = Array.from(new Set(departmentStatuses.map((status) => toId(status.department)).filter(Boolean)));
+    const departments = ids.length > 0 ? await Department.find({ _id: { $in: ids } }).select('name').lean() : [];
+    const names = new Map(departments.map((department) => [department._id.toString(), department.name.toLowerCase()]));
+
+    const progress = new Map();
+    departmentStatuses.forEach((status) => {
+        const name = names.get(toId(status.department));
+        if (!name) return;
+        const entry = progress.get(name) || { started: false, completed: false };
+        entry.started = entry.started || hasStarted(status);
+        entry.completed = entry.completed || status.status === 'completed';
+        progress.set(name, entry);
+    });
+    return progress;
+};
+
+const ruleMatches = (rule, order, departmentProgress) => {
+    if (rule.statuses && !rule.statuses.includes(order.status)) return false;
+    if (rule.designStarted !== undefined) {
+        const designStarted = Boolean(order.designerAssigned || order.designFileSentAt);
+        if (designStarted !== rule.designStarted) return false;
+    }
+    if (rule.departments) {
+        const progress = rule.progress || 'started';
+        const reached = rule.departments.some((name) => departmentProgress.get(name.toLowerCase())?.[progress]);
+        if (!reached) return false;
+    }
+    return true;
+};
+
+/**
+ * The consequences of cancelling an order now, without changing it
+ *
+ * @param {Object} order - Order document
+ * @param {Object} actor - User cancelling (their role decides whether they may)
+ * @returns {Promise<Object>} { cancellable, message?, rule: { label, refundPercent }, paidAmount, refundAmount, forfeitedAmount }
+ */
+export const previewOrderCancellation = async (order, actor) => {
+    const paidAmount = getPaidAmount(order);
+    if (!canTransitionOrderStatus(order.status, 'cancelled', actor?.role)) {
+        return {
+            cancellable: false,
+            message: `An order that is ${ORDER_STATUS_LABELS[order.status] || order.status} can't be cancelled`,
+            rule: null,
+            paidAmount,
+            refundAmount: 0,
+            forfeitedAmount: 0,
+        };
+    }
+
+    const departmentProgress = await getDepartmentProgress(order);
+    const rule = getCancellationRules().find((candidate) => ruleMatches(candidate, order, departmentProgress));
+    // Orders no rule covers are refunded in full
+    const refundPercent = rule ? rule.refundPercent : 100;
+    const refundAmount = roundAmount((paidAmount * refundPercent) / 100);
+
+    return {
+        cancellable: true,
+        rule: { label: rule?.label || 'Not covered by a cancellation rule', refundPercent },
+        paidAmount,
+        refundAmount,
+        forfeitedAmount: roundAmount(paidAmount - refundAmount),
+    };
+};
+
+/**
+ * Cancel an order under the cancellation rules and save it
+ * A refund is recorded as a negative payment adjustment with a credit note number, and the coupon use is given back.
+ * The credit note number, the order and the coupon are written in one transaction, so a failed cancellation
+ * gives the number back and a cancelled order always has its coupon use released.
+ *
+ * @param {Object} order - Order document
+ * @param {Object} options - actor (User document), reason (optional)
+ * @returns {Promise<Object>} The order's cancellation record (rule, refundPercent, paidAmount, refundAmount, creditNoteNumber, cancelledAt)
+ * @throws Error with statusCode 400/403 when the order can't be cancelled
+ */
+export const cancelOrderWithRefund = async (order, { actor, reason }) => {
+    const preview = await previewOrderCancellation(order, actor);
+    if (!preview.cancellable) {
+        throw cancellationError(preview.message);
+    }
+    transitionOrderStatus(order, 'cancelled', { actor, reason: reason || 'Cancelled by customer' });
+
+    const cancelledAt = new Date();
+    const adjustmentCount = order.paymentAdjustments.length;
+    await mongoose.connection.transaction(async (session) => {
+        // A retried transaction starts over
+        order.paymentAdjustments.splice(adjustmentCount);
+        let creditNoteNumber = null;
+        if (preview.refundAmount > 0) {
+            creditNoteNumber = await nextDocumentNumber(DOCUMENT_SERIES.CREDIT_NOTE, { date: cancelledAt, session });
+            order.paymentAdjustments.push({
+                amount: -preview.refundAmount,
+                reason: `Cancellation refund (${preview.rule.label}, ${preview.rule.refundPercent}%), credit note ${creditNoteNumber}`,
+                creditNoteNumber,
+                createdBy: actor?._id || null,
+            });
+        }
+        order.cancellation = {
+            rule: preview.rule.label,
+            refundPercent: preview.rule.refundPercent,
+            paidAmount: preview.paidAmount,
+            refundAmount: preview.refundAmount,
+            creditNoteNumber,
+            cancelledAt,
+        };
+        await order.save({ session });
+
+        if (order.coupon?.couponId) {
+            await releaseCoupon(order.coupon.couponId, { userId: order.user, session });
+        }
+    });
+    return order.cancellation;
+};
@@ -0,0 +1,327 @@
+// Complaints (RMA)
+// A complaint about a delivered order is resolved with a zero-cost reprint order, a partial refund or a rejection.
+
+import mongoose from 'mongoose';
+import Order from '../models/orderModal.js';
+import Complaint from '../models/complaintModal.js';
+import { DOCUMENT_SERIES } from '../config/numbering.js';
+import { nextDocumentNumber } from './documentNumberHelper.js';
+import { findOrderLine, assignOrderToDepartments } from './orderDepartmentHelper.js';
+import { COMPLAINT_REASONS, COMPLAINT_REASON_LABELS } from '../../../shared/complaints.js';
+
+const complaintError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+/**
+ * Whether the customer can raise a complaint about an order (it has been completed and delivered, at least in part)
+ *
+ * @param {Object} order - Order document or lean object
+ * @returns {boolean}
+ */
+export const canRaiseComplaint = (order) =>
+    order.status === 'completed' &&
+    Boolean(
+        order.deliveredAt ||
+        order.courierStatus === 'delivered' ||
+        (order.shipments || []).some((shipment) => shipment.status === 'delivered')
+    );
+
+/**
+ * Check a new complaint against the order
+ *
+ * @param {Object} order - Order document
+ * @param {Object} input - lineId (cart orders, optional), reason, description, affectedQuantity
+ * @returns {Object} The order line the complaint is about, or null for the whole of a cart order
+ * @throws Error with statusCode 400 when the order isn't delivered or the input is invalid
+ */
+export const assertComplaintInput = (order, { lineId, reason, description, affectedQuantity }) => {
+    if (!canRaiseComplaint(order)) {
+        throw complaintError('Complaints can only be raised for delivered orders');
+    }
+    if (!COMPLAINT_REASONS.includes(reason)) {
+        throw complaintError(`Invalid reason. Allowed: ${COMPLAINT_REASONS.join(', ')}`);
+    }
+    if (!description?.trim()) {
+        throw complaintError('Please describe the problem');
+    }
+
+    const line = lineId ? findOrderLine(order, lineId) : order.items?.length > 0 ? null : order;
+    if (lineId && !line) {
+        throw complaintError('Order line not found');
+    }
+
+    if (affectedQuantity !== undefined && affectedQuantity !== null && affectedQuantity !== '') {
+        const quantity = parseInt(affectedQuantity);
+        const maxQuantity = line ? line.quantity : order.items.reduce((sum, item) => sum + item.quantity, 0);
+        if (!quantity || quantity <= 0 || quantity > maxQuantity) {
+            throw complaintError(`Affected quantity must be between 1 and ${maxQuantity}`);
+        }
+    }
+
+    return line;
+};
+
+// Product fields of a line copied onto the reprint order (the design files were converted when the order was placed)
+const copyLineForReprint = (line, quantity) => ({
+    product: line.product?._id || line.product,
+    quantity,
+    finish: line.finish,
+    shape: line.shape,
+    textureType: line.textureType || null,
+    customSize: line.customSize,
+    selectedOptions: line.selectedOptions,
+    selectedDynamicAttributes: line.selectedDynamicAttributes,
+    priceList: line.priceList || null,
+    uploadedDesign: line.uploadedDesign,
+    notes: line.notes || '',
+});
+
+/**
+ * Resolve a complaint with a zero-cost reprint order and send the reprint to the first department of its production
+ * sequence. A complaint about one line (or a single-product order) reprints that line; a complaint about the whole of
+ * a cart order reprints every line in full.
+ * The reprint order is created and the complaint moved out of "open" in one transaction, so a concurrent resolve
+ * can't create a second reprint and a failed complaint update leaves no orphaned order.
+ *
+ * @param {Object} order - The original order document
+ * @param {Object} complaint - Complaint document (still open in the database)
+ * @param {Object} options - quantity (units to reprint, defaults to the affected quantity), notes, actor (admin)
+ * @returns {Promise<{ complaint: Object, reprintOrder: Object, warning: string|null }>} The resolved complaint; warning
+ *   is set when the reprint couldn't be sent to production
+ * @throws Error with statusCode 400 for an invalid quantity, 409 when the complaint was resolved meanwhile
+ */
+export const resolveComplaintWithReprint = async (order, complaint, { quantity, notes, actor }) => {
+    const line = complaint.lineId ? findOrderLine(order, complaint.lineId) : order.items?.length > 0 ? null : order;
+    if (complaint.lineId && !line) {
+        throw complaintError('The order line of this complaint no longer exists');
+    }
+
+    let orderData;
+    let reprintQuantity = null;
+    if (line) {
+        reprintQuantity = parseInt(quantity) || complaint.affectedQuantity || line.quantity;
+        if (reprintQuantity <= 0 || reprintQuantity > line.quantity) {
+            throw complaintError(`Reprint quantity must be between 1 and ${line.quantity}`);
+        }
+        orderData = copyLineForReprint(line, reprintQuantity);
+    } else {
+        orderData = {
+            items: order.items.map((item) => ({ ...copyLineForReprint(item, item.quantity), lineTotal: 0 })),
+        };
+    }
+
+    let reprintOrder;
+    let resolved;
+    await mongoose.connection.transaction(async (session) => {
+        // Built afresh on every attempt, as a retried transaction starts over
+        reprintOrder = new Order({
+            ...orderData,
+            user: order.user,
+            totalPrice: 0,
+            shippingCharge: 0,
+            pricingSnapshot: null,
+            gstSplit: null,
+            paymentStatus: 'completed',
+            pincode: order.pincode,
+            address: order.address,
+            mobileNumber: order.mobileNumber,
+            deliveryZone: order.deliveryZone || null,
+            status: 'request',
+            reprintOf: order._id,
+            complaint: complaint._id,
+            nonInvoiceable: true,
+        });
+        await reprintOrder.save({ session });
+
+        // Only if no other request resolved it meanwhile
+        resolved = await Complaint.findOneAndUpdate(
+            { _id: complaint._id, status: 'open' },
+            {
+                $set: {
+                    status: 'resolved',
+                    resolution: 'reprint',
+                    resolutionNotes: notes?.trim() || '',
+                    resolvedBy: actor?._id || null,
+                    resolvedAt: new Date(),
+                    reprintOrder: reprintOrder._id,
+                    reprintQuantity,
+                },
+            },
+            { new: true, session }
+        );
+        if (!resolved) {
+            throw complaintError('Complaint has already been resolved', 409);
+        }
+    });
+
+    // Same route through the departments as an approved order
+    let warning = null;
+    try {
+        await assignOrderToDepartments(reprintOrder._id, actor);
+    } catch (err) {
+        warning = `Reprint order created but not sent to production: ${err.message}. Approve it from the orders list.`;
+    }
+
+    return { complaint: resolved, reprintOrder, warning };
+};
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+// Refunds are the adjustments a credit note was issued for (complaint refunds from before credit note numbers were
+// kept on adjustments are recognised by their complaint)
+const isRefundAdjustment = (adjustment) => Boolean(adjustment.creditNoteNumber || adjustment.complaint);
+
+/**
+ * What the customer has actually paid on an order, net of refunds already issued - the most that can still be
+ * refunded. A completed order has paid its total plus adjustments; a partly paid one its advance less refunds.
+ *
+ * @param {Object} order - Order document or lean object
+ * @returns {number}
+ */
+export const getPaidAmount = (order) => {
+    const adjustments = order.paymentAdjustments || [];
+    const due = Math.max(0, roundAmount(order.totalPrice + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)));
+    if (order.paymentStatus === 'completed') return due;
+    if (order.paymentStatus === 'partial') {
+        const refunded = adjustments.filter(isRefundAdjustment).reduce((sum, adjustment) => sum - adjustment.amount, 0);
+        return Math.max(0, roundAmount(Math.min((order.advancePaid || 0) - refunded, due)));
+    }
+    return 0;
+};
+
+/**
+ * Record a partial refund for a complaint: a negative payment adjustment and a credit note number
+ * The credit note number, the order and the complaint are saved in one transaction, so a failed write gives the
+ * number back. The caller sets the complaint's resolution first.
+ *
+ * @param {Object} order - Order document
+ * @param {Object} complaint - Complaint document (still open in the database)
+ * @param {Object} options - amount, actor (admin)
+ * @returns {Promise<{ amount: number, creditNoteNumber: string }>}
+ * @throws Error with statusCode 400 when the amount is not positive or more than can be refunded, 409 when the
+ *   complaint was resolved meanwhile
+ */
+export const recordComplaintRefund = async (order, complaint, { amount, actor }) => {
+    const refundAmount = Math.round(parseFloat(amount) * 100) / 100;
+    const refundable = getPaidAmount(order);
+    if (!refundAmount || refundAmount <= 0) {
+        throw complaintError('Refund amount must be a positive number');
+    }
+    if (refundable <= 0) {
+        throw complaintError('Nothing has been paid on this order that could be refunded');
+    }
+    if (refundAmount > refundable) {
+        throw complaintError(`Refund amount can't be more than the ₹${refundable.toFixed(2)} paid on this order`);
+    }
+
+    const refundedAt = new Date();
+    const adjustmentCount = order.paymentAdjustments.length;
+    try {
+        await mongoose.connection.transaction(async (session) => {
+            // A retried transaction starts over
+            order.paymentAdjustments.splice(adjustmentCount);
+            const creditNoteNumber = await nextDocumentNumber(DOCUMENT_SERIES.CREDIT_NOTE, { date: refundedAt, session });
+            order.paymentAdjustments.push({
+                amount: -refundAmount,
+                reason: `Partial refund for complaint (${COMPLAINT_REASON_LABELS[complaint.reason]}), credit note ${creditNoteNumber}`,
+                complaint: complaint._id,
+                creditNoteNumber,
+                createdBy: actor?._id || null,
+            });
+            await order.save({ session });
+
+            complaint.refundAmount = refundAmount;
+            complaint.creditNoteNumber = creditNoteNumber;
+            // Only if no other request resolved it meanwhile
+            complaint.$where = { status: 'open' };
+            await complaint.save({ session });
+        });
+    } catch (err) {
+        order.paymentAdjustments.splice(adjustmentCount);
+        if (err.name === 'DocumentNotFoundError') {
+            throw complaintError('Complaint has already been resolved', 409);
+        }
+        throw err;
+    } finally {
+        complaint.$where = undefined;
+    }
+
+    return { amount: refundAmount, creditNoteNumber: complaint.creditNoteNumber };
+};
+
+/**
+ * Complaints grouped by reason and by product, to spot recurring quality problems
+ *
+ * @param {Object} range - from, to (Date, optional)
+ * @returns {Promise<Object>} { total, byReason: [...], byProduct: [...] }
+ */
+export const getComplaintReasonReport = async ({ from, to } = {}) => {
+    const match = {};
+    if (from || to) {
+        match.createdAt = {};
+        if (from) match.createdAt.$gte = from;
+        if (to) match.createdAt.$lte = to;
+    }
+
+    const complaints = await Complaint.find(match)
+        .select('order lineId reason status resolution refundAmount reprintQuantity')
+        .populate({
+            path: 'order',
+            select: 'product items._id items.product',
+            populate: { path: 'product items.product', select: 'name' },
+        })
+        .lean();
+
+    const byReason = new Map(COMPLAINT_REASONS.map((reason) => [reason, {
+        reason,
+        label: COMPLAINT_REASON_LABELS[reason],
+        count: 0,
+        open: 0,
+        reprints: 0,
+        refunds: 0,
+        rejected: 0,
+        refundTotal: 0,
+        reprintUnits: 0,
+    }]));
+    const byProduct = new Map();
+
+    for (const complaint of complaints) {
+        const row = byReason.get(complaint.reason);
+        row.count += 1;
+        if (complaint.status === 'open') row.open += 1;
+        if (complaint.resolution === 'reprint') {
+            row.reprints += 1;
+            row.reprintUnits += complaint.reprintQuantity || 0;
+        }
+        if (complaint.resolution === 'partial_refund') {
+            row.refunds += 1;
+            row.refundTotal += complaint.refundAmount || 0;
+        }
+        if (complaint.resolution === 'rejected') row.rejected += 1;
+
+        // Products the complaint is about (every line for a complaint about the whole of a cart order)
+        const order = complaint.order;
+        if (!order) continue;
+        const lines = order.items?.length > 0
+            ? order.items.filter((item) => !complaint.lineId || item._id.toString() === complaint.lineId.toString())
+            : [order];
+        for (const line of lines) {
+            const productName = line.product?.name || 'Deleted product';
+            const productRow = byProduct.get(productName) || { productName, count: 0, reasons: {} };
+            productRow.count += 1;
+            productRow.reasons[complaint.reason] = (productRow.reasons[complaint.reason] || 0) + 1;
+            byProduct.set(productName, productRow);
+        }
+    }
+
+    return {
+        total: complaints.length,
+        byReason: [...byReason.values()]
+            .map((row) => ({ ...row, refundTotal: Math.round(row.refundTotal * 100) / 100 }))
+            .sort((a, b) => b.count - a.count),
+        byProduct: [...byProduct.values()].sort((a, b) => b.count - a.count),
+    };
+};
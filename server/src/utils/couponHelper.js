@@ -0,0 +1,211 @@
+// Coupon validation and redemption
+// Validation runs for every quote; redemption happens once, when the order is actually created.
+
+import mongoose from 'mongoose';
+import Coupon from '../models/couponModal.js';
+import CouponRedemption from '../models/couponRedemptionModal.js';
+import Category from '../models/categoryModal.js';
+import Order from '../models/orderModal.js';
+
+// Orders in these statuses don't count towards a coupon's usage
+export const RELEASED_ORDER_STATUSES = ['cancelled', 'rejected'];
+
+const couponError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+export const normalizeCouponCode = (code) => String(code || '').trim().toUpperCase();
+
+/**
+ * Category ids for a product's category and all of its parents
+ *
+ * @param {string|ObjectId} categoryId
+ * @returns {Promise<Array<string>>}
+ */
+const getCategoryLineage = async (categoryId) => {
+    const lineage = [];
+    let currentId = categoryId;
+    // Category depth is small; the guard only protects against a parent cycle
+    while (currentId && lineage.length < 20) {
+        const idStr = currentId.toString();
+        if (lineage.includes(idStr)) break;
+        lineage.push(idStr);
+        const category = await Category.findById(currentId).select('parent').lean();
+        currentId = category?.parent || null;
+    }
+    return lineage;
+};
+
+/**
+ * Number of live orders a user has placed with a coupon
+ */
+const countUserRedemptions = (couponId, userId) => {
+    return Order.countDocuments({
+        user: userId,
+        'coupon.couponId': couponId,
+        status: { $nin: RELEASED_ORDER_STATUSES },
+    });
+};
+
+/**
+ * Whether a coupon's product/category restrictions allow a product
+ *
+ * @param {Object} coupon - Coupon document
+ * @param {Object} product - Product with _id and category
+ * @returns {Promise<boolean>}
+ */
+export const couponAppliesToProduct = async (coupon, product) => {
+    const productIds = (coupon.applicableProducts || []).map((id) => id.toString());
+    const categoryIds = (coupon.applicableCategories || []).map((id) => id.toString());
+    if (productIds.length === 0 && categoryIds.length === 0) return true;
+
+    if (productIds.includes(product._id.toString())) return true;
+    if (categoryIds.length > 0 && product.category) {
+        const lineage = await getCategoryLineage(product.category._id || product.category);
+        return lineage.some((id) => categoryIds.includes(id));
+    }
+    return false;
+};
+
+/**
+ * Find a coupon by code and check it can be used for this product (and user, when known)
+ * The minimum order value is checked by the caller once the breakdown is known.
+ *
+ * @param {string} code - Coupon code as typed by the customer
+ * @param {Object} context - { product, userId }
+ * @returns {Promise<Object>} Lean coupon document
+ */
+export const findApplicableCoupon = async (code, { product, userId } = {}) => {
+    const normalizedCode = normalizeCouponCode(code);
+    if (!normalizedCode) {
+        throw couponError('Coupon code is required');
+    }
+
+    const coupon = await Coupon.findOne({ code: normalizedCode }).lean();
+    if (!coupon || !coupon.isActive) {
+        throw couponError('Invalid coupon code', 404);
+    }
+
+    const now = new Date();
+    if (coupon.validFrom && now < new Date(coupon.validFrom)) {
+        throw couponError('This coupon is not active yet');
+    }
+    if (coupon.validUntil && now > new Date(coupon.validUntil)) {
+        throw couponError('This coupon has expired');
+    }
+    if (coupon.usageLimit !== null && coupon.usageLimit !== undefined && coupon.usedCount >= coupon.usageLimit) {
+        throw couponError('This coupon has reached its usage limit');
+    }
+
+    if (product && !(await couponAppliesToProduct(coupon, product))) {
+        throw couponError('This coupon is not valid for the selected product');
+    }
+
+    if (userId && coupon.perUserLimit !== null && coupon.perUserLimit !== undefined) {
+        const used = await countUserRedemptions(coupon._id, userId);
+        if (used >= coupon.perUserLimit) {
+            throw couponError('You have already used this coupon the maximum number of times');
+        }
+    }
+
+    return coupon;
+};
+
+/**
+ * Reserve one of a customer's uses of a coupon with a per-user limit
+ * The customer's counter is created from their live orders the first time, then only moved by conditional
+ * updates, so two orders placed at once can't both take the last use.
+ *
+ * @param {Object} coupon - Coupon with a perUserLimit
+ * @param {string|ObjectId} userId
+ */
+const reserveUserRedemption = async (coupon, userId) => {
+    try {
+        await CouponRedemption.updateOne(
+            { coupon: coupon._id, user: userId },
+            { $setOnInsert: { count: await countUserRedemptions(coupon._id, userId) } },
+            { upsert: true }
+        );
+    } catch (err) {
+        // Created by another order of this customer at the same time
+        if (err.code !== 11000) throw err;
+    }
+
+    const reserved = await CouponRedemption.findOneAndUpdate(
+        { coupon: coupon._id, user: userId, count: { $lt: coupon.perUserLimit } },
+        { $inc: { count: 1 } }
+    );
+    if (!reserved) {
+        throw couponError('You have already used this coupon the maximum number of times');
+    }
+};
+
+/**
+ * Reserve one use of a coupon for an order
+ * Reserves the customer's use and increments usedCount atomically, so neither the per-user nor the global
+ * limit can be exceeded.
+ *
+ * @param {Object} coupon - Coupon returned by findApplicableCoupon
+ * @param {string|ObjectId} userId - Customer placing the order
+ */
+export const redeemCoupon = async (coupon, userId) => {
+    const limitedPerUser = coupon.perUserLimit !== null && coupon.perUserLimit !== undefined;
+    if (limitedPerUser) {
+        await reserveUserRedemption(coupon, userId);
+    }
+
+    const updated = await Coupon.findOneAndUpdate(
+        {
+            _id: coupon._id,
+            isActive: true,
+            $or: [
+                { usageLimit: null },
+                { $expr: { $lt: ['$usedCount', '$usageLimit'] } },
+            ],
+        },
+        { $inc: { usedCount: 1 } },
+        { new: true }
+    );
+    if (!updated) {
+        if (limitedPerUser) {
+            await CouponRedemption.updateOne({ coupon: coupon._id, user: userId, count: { $gt: 0 } }, { $inc: { count: -1 } });
+        }
+        throw couponError('This coupon has reached its usage limit', 409);
+    }
+};
+
+/**
+ * Give back a coupon use (order failed to save, or was cancelled/rejected)
+ *
+ * @param {string|ObjectId} couponId
+ * @param {Object} [options] - userId (customer whose use it was), session (to give it back in the transaction
+ *                             that cancels the order)
+ */
+export const releaseCoupon = async (couponId, { userId, session } = {}) => {
+    if (!couponId || !mongoose.Types.ObjectId.isValid(couponId)) return;
+    await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } }, { session });
+    if (userId) {
+        await CouponRedemption.updateOne(
+            { coupon: couponId, user: userId, count: { $gt: 0 } },
+            { $inc: { count: -1 } },
+            { session }
+        );
+    }
+};
+
+/**
+ * Coupon fields stored on the order (enough to re-render the discount line later)
+ *
+ * @param {Object} coupon - Coupon document
+ * @param {number} discountAmount - Discount given on this order
+ */
+export const toOrderCoupon = (coupon, discountAmount) => ({
+    couponId: coupon._id,
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue,
+    maxDiscountAmount: coupon.maxDiscountAmount ?? null,
+    discountAmount,
+});
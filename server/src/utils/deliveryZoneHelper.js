@@ -0,0 +1,54 @@
+// Delivery zone lookup
+// The shared pricing engine calculates the shipping charge; this only picks the zone for a pincode.
+
+import DeliveryZone from '../models/deliveryZoneModal.js';
+
+/**
+ * Whether a delivery zone covers a pincode
+ *
+ * @param {Object} zone - DeliveryZone document or lean object
+ * @param {string} pincode - 6-digit pincode
+ * @returns {boolean}
+ */
+export const zoneMatchesPincode = (zone, pincode) => {
+    const value = String(pincode || '').trim();
+    if (!/^\d{6}$/.test(value)) return false;
+
+    if ((zone.pincodePrefixes || []).some((prefix) => prefix && value.startsWith(prefix))) {
+        return true;
+    }
+    const numeric = parseInt(value, 10);
+    return (zone.pincodeRanges || []).some((range) => numeric >= range.from && numeric <= range.to);
+};
+
+/**
+ * Zone rates in the shape the pricing engine and Order.deliveryZone expect
+ *
+ * @param {Object} zone - DeliveryZone document
+ */
+export const toOrderDeliveryZone = (zone) => ({
+    zoneId: zone._id,
+    name: zone.name,
+    flatRate: zone.flatRate || 0,
+    ratePerKg: zone.ratePerKg || 0,
+    freeShippingThreshold: zone.freeShippingThreshold || 0,
+    minOrderValue: zone.minOrderValue || 0,
+});
+
+/**
+ * Find the delivery zone for a pincode
+ * When several active zones match, the highest priority (then most recently updated) wins.
+ *
+ * @param {string} pincode
+ * @returns {Promise<Object|null>} Zone rates (see toOrderDeliveryZone), or null when no zone covers the pincode
+ */
+export const findDeliveryZoneForPincode = async (pincode) => {
+    if (!pincode) return null;
+
+    const zones = await DeliveryZone.find({ isActive: true })
+        .sort({ priority: -1, updatedAt: -1 })
+        .lean();
+
+    const zone = zones.find((z) => zoneMatchesPincode(z, pincode));
+    return zone ? toOrderDeliveryZone(zone) : null;
+};
@@ -0,0 +1,162 @@
+// Customer design uploads
+// Designs arrive as base64 (or data URL) images, or as files already streamed to POST /files/designs,
+// and are kept in the file store as CMYK JPEGs ready for print.
+
+import sharp from 'sharp';
+import { saveFile, statFile, deleteFile, getSignedFileUrl } from './fileStore.js';
+
+const designError = (message, details) => {
+    const error = new Error(message);
+    error.statusCode = 400;
+    error.details = details;
+    return error;
+};
+
+const toCmyk = (image) =>
+    image
+        .toColourspace('cmyk')
+        .jpeg({
+            quality: 90,
+            chromaSubsampling: '4:4:4',
+        });
+
+/**
+ * Transform stream converting an image to a CMYK JPEG, for uploads converted while they stream in
+ *
+ * @returns {import('sharp').Sharp}
+ */
+export const createCmykJpegConverter = () => toCmyk(sharp());
+
+// Convert a base64 string or data URL to a CMYK JPEG buffer
+const toCmykJpeg = async (base64Data) => toCmyk(sharp(Buffer.from(base64Data, 'base64'))).toBuffer();
+
+const stripDataUrlPrefix = (data) => (data.includes(',') ? data.split(',')[1] : data);
+
+export const toJpegFilename = (filename, fallback) => (filename || fallback).replace(/\.(png|gif|webp)$/i, '.jpg');
+
+// File reference of a design the customer streamed to the file store earlier, if it is theirs
+const getUploadedDesignFile = async (image, owner, side) => {
+    const file = await statFile(image).catch(() => null);
+    if (!file || file.metadata?.owner !== owner?.toString()) {
+        throw designError(`The uploaded ${side} image was not found.`);
+    }
+    return {
+        fileId: String(image.fileId),
+        storage: image.storage,
+        contentType: file.contentType,
+        filename: file.filename,
+        size: file.size,
+    };
+};
+
+const saveDesignImage = (buffer, filename, owner) =>
+    saveFile(buffer, {
+        filename,
+        contentType: 'image/jpeg', // CMYK images are stored as JPEG
+        owner,
+    });
+
+/**
+ * Validate an uploaded design, convert it to CMYK and keep it in the file store
+ * The front image is required; a back image that can't be read is skipped.
+ *
+ * @param {Object} uploadedDesign - { frontImage, backImage? }, each { data, filename } or a file reference
+ *                                  ({ fileId, storage }) from POST /files/designs
+ * @param {Object} options - owner (id of the customer the design belongs to)
+ * @returns {Promise<Object>} { frontImage, backImage? } as file references, as stored on orders
+ * @throws Error with statusCode 400 when the design is missing or the front image can't be converted
+ */
+export const processUploadedDesign = async (uploadedDesign, { owner } = {}) => {
+    if (!uploadedDesign) {
+        throw designError('Uploaded design is required.');
+    }
+    const { frontImage, backImage } = uploadedDesign;
+    if (!frontImage || !(frontImage.data || frontImage.fileId)) {
+        throw designError('Front image is required.');
+    }
+
+    const processedDesign = {};
+
+    if (frontImage.fileId) {
+        processedDesign.frontImage = await getUploadedDesignFile(frontImage, owner, 'front');
+    } else {
+        if (typeof frontImage.data !== 'string') {
+            throw designError('Front image data must be a string.');
+        }
+        const frontData = stripDataUrlPrefix(frontImage.data);
+        if (!frontData || frontData.trim().length === 0) {
+            throw designError('Front image data is empty.');
+        }
+        let buffer;
+        try {
+            buffer = await toCmykJpeg(frontData);
+        } catch (err) {
+            console.error('Error processing front image:', err);
+            throw designError(
+                'Invalid front image data format or conversion failed.',
+                process.env.NODE_ENV === 'development' ? err.message : undefined
+            );
+        }
+        processedDesign.frontImage = await saveDesignImage(buffer, toJpegFilename(frontImage.filename, 'front-design.png'), owner);
+    }
+
+    if (backImage?.fileId) {
+        processedDesign.backImage = await getUploadedDesignFile(backImage, owner, 'back');
+    } else if (backImage?.data) {
+        let buffer = null;
+        try {
+            if (typeof backImage.data !== 'string') {
+                console.warn('Back image data is not a string, skipping.');
+            } else {
+                const backData = stripDataUrlPrefix(backImage.data);
+                if (backData && backData.trim().length > 0) {
+                    buffer = await toCmykJpeg(backData);
+                }
+            }
+        } catch (err) {
+            // Back image is optional, so log the error and continue
+            console.warn('Skipping back image due to error:', err.message);
+        }
+        if (buffer) {
+            processedDesign.backImage = await saveDesignImage(buffer, toJpegFilename(backImage.filename, 'back-design.png'), owner);
+        }
+    }
+
+    return processedDesign;
+};
+
+/**
+ * Give each design image of an API response something to show (in place): "data" becomes a signed link to the
+ * file store, or a data URL for an image whose bytes are still on the document
+ *
+ * @param {Object} uploadedDesign - Order, order line, cart item or Design images (lean/plain object)
+ */
+export const designToImageUrls = (uploadedDesign) => {
+    for (const side of ['frontImage', 'backImage']) {
+        const image = uploadedDesign?.[side];
+        if (image?.fileId) {
+            image.data = getSignedFileUrl(image);
+            continue;
+        }
+        if (!image?.data || typeof image.data === 'string') continue;
+        const buffer = Buffer.isBuffer(image.data) ? image.data : Buffer.from(image.data.buffer || image.data);
+        image.data = `data:${image.contentType || 'image/png'};base64,${buffer.toString('base64')}`;
+    }
+};
+
+/**
+ * Delete the stored files of a design that is being removed (a file that can't be deleted is only logged)
+ *
+ * @param {Object} uploadedDesign - Design document or uploadedDesign object
+ */
+export const deleteDesignFiles = async (uploadedDesign) => {
+    for (const side of ['frontImage', 'backImage']) {
+        const image = uploadedDesign?.[side];
+        if (!image?.fileId) continue;
+        try {
+            await deleteFile(image);
+        } catch (err) {
+            console.warn(`Could not delete design file ${image.storage}/${image.fileId}:`, err.message);
+        }
+    }
+};
@@ -0,0 +1,74 @@
+// Sequential document numbers (orders, invoices, credit notes)
+// Numbers come from an atomic counter per series and financial year, so they never collide.
+
+import Counter from '../models/counterModal.js';
+import { DOCUMENT_SERIES, GST_MAX_LENGTH, getSeriesFormat, isGstSeries } from '../config/numbering.js';
+
+// Indian financial years run April to March; the year boundary follows IST
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+/**
+ * Financial year a date falls in
+ *
+ * @param {Date} date
+ * @returns {string} e.g. "2026-27"
+ */
+export const getFinancialYear = (date = new Date()) => {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Render a number format
+ *
+ * @param {string} format - e.g. "P24/{FY}/{SEQ:6}"
+ * @param {string} financialYear - e.g. "2026-27"
+ * @param {number} value - Counter value
+ * @returns {string} e.g. "P24/2026-27/000123"
+ */
+export const formatDocumentNumber = (format, financialYear, value) =>
+    format
+        .replace(/\{FY\}/g, financialYear)
+        .replace(/\{FYS\}/g, financialYear.replace(/^\d{2}(\d{2})-(\d{2})$/, '$1$2'))
+        .replace(/\{SEQ(?::(\d+))?\}/g, (match, width) => String(value).padStart(parseInt(width || '1'), '0'));
+
+/**
+ * Take the next number of a series
+ * A number is used up once taken. For gapless series (invoices, credit notes) pass the session of the
+ * transaction that stores the number, so an aborted write also gives the number back.
+ *
+ * @param {string} series - One of DOCUMENT_SERIES
+ * @param {Object} options - date (decides the financial year, default now), session (optional)
+ * @returns {Promise<string>} Formatted document number
+ */
+export const nextDocumentNumber = async (series, { date = new Date(), session } = {}) => {
+    const format = getSeriesFormat(series);
+    const financialYear = getFinancialYear(date);
+    const increment = () =>
+        Counter.findOneAndUpdate(
+            { series, financialYear },
+            { $inc: { value: 1 } },
+            { upsert: true, new: true, setDefaultsOnInsert: true, session }
+        );
+
+    let counter;
+    try {
+        counter = await increment();
+    } catch (err) {
+        // Two first-of-the-year requests can both try to create the counter; the loser retries the update
+        if (err.code !== 11000) throw err;
+        counter = await increment();
+    }
+
+    return formatDocumentNumber(format, financialYear, counter.value);
+};
+
+// Catch GST-invalid formats at startup rather than on the first invoice
+for (const series of Object.values(DOCUMENT_SERIES)) {
+    if (!isGstSeries(series)) continue;
+    const sample = formatDocumentNumber(getSeriesFormat(series), getFinancialYear(), 999999);
+    if (sample.length > GST_MAX_LENGTH) {
+        console.warn(`${series} numbers like "${sample}" are longer than the ${GST_MAX_LENGTH} characters GST allows`);
+    }
+}
@@ -0,0 +1,204 @@
+// File store
+// Uploaded files live outside the documents that use them; a document keeps a small file reference instead:
+//   { fileId, storage, contentType, filename, size }
+// "storage" names the backend the file was saved to, so files stay readable after FILE_STORE changes.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import mongoose from 'mongoose';
+import { getFileStoreConfig } from '../config/fileStore.js';
+
+const fileStoreError = (message, statusCode = 500) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+const toStream = (source) => (Buffer.isBuffer(source) ? Readable.from([source]) : source);
+
+// Files as <id> with their details in <id>.json, under the configured directory
+const createLocalFileStore = (directory) => {
+    const isValidFileId = (fileId) => /^[0-9a-f-]{36}$/.test(fileId);
+    const filePath = (fileId) => path.join(directory, fileId);
+
+    return {
+        save: async (source, { filename, contentType, metadata }) => {
+            await fs.promises.mkdir(directory, { recursive: true });
+            const fileId = crypto.randomUUID();
+            const partPath = `${filePath(fileId)}.part`;
+            try {
+                await pipeline(toStream(source), fs.createWriteStream(partPath));
+                const { size } = await fs.promises.stat(partPath);
+                const details = { filename, contentType, size, metadata, createdAt: new Date() };
+                await fs.promises.writeFile(`${filePath(fileId)}.json`, JSON.stringify(details));
+                await fs.promises.rename(partPath, filePath(fileId));
+                return { fileId, size };
+            } catch (error) {
+                await fs.promises.rm(partPath, { force: true });
+                throw error;
+            }
+        },
+        stat: async (fileId) => {
+            if (!isValidFileId(fileId)) return null;
+            try {
+                return JSON.parse(await fs.promises.readFile(`${filePath(fileId)}.json`, 'utf8'));
+            } catch (error) {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        createReadStream: (fileId) => fs.createReadStream(filePath(fileId)),
+        remove: async (fileId) => {
+            if (!isValidFileId(fileId)) return;
+            await fs.promises.rm(filePath(fileId), { force: true });
+            await fs.promises.rm(`${filePath(fileId)}.json`, { force: true });
+        },
+    };
+};
+
+// Files in a GridFS bucket of the app's database (needs the mongoose connection to be open)
+const createGridFsFileStore = (bucketName) => {
+    let bucket = null;
+    const getBucket = () => {
+        if (!mongoose.connection.db) {
+            throw fileStoreError('The database is not connected, so GridFS files are unavailable');
+        }
+        bucket = bucket || new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName });
+        return bucket;
+    };
+    const toObjectId = (fileId) => (mongoose.isValidObjectId(fileId) ? new mongoose.Types.ObjectId(fileId) : null);
+
+    return {
+        save: async (source, { filename, contentType, metadata }) => {
+            const uploadStream = getBucket().openUploadStream(filename || 'file', {
+                metadata: { ...metadata, contentType },
+            });
+            try {
+                await pipeline(toStream(source), uploadStream);
+            } catch (error) {
+                await uploadStream.abort().catch(() => {});
+                throw error;
+            }
+            return { fileId: uploadStream.id.toString(), size: uploadStream.gridFSFile?.length ?? uploadStream.length };
+        },
+        stat: async (fileId) => {
+            const id = toObjectId(fileId);
+            if (!id) return null;
+            const [file] = await getBucket().find({ _id: id }).limit(1).toArray();
+            if (!file) return null;
+            const { contentType, ...metadata } = file.metadata || {};
+            return { filename: file.filename, contentType, size: file.length, metadata, createdAt: file.uploadDate };
+        },
+        createReadStream: (fileId) => getBucket().openDownloadStream(toObjectId(fileId)),
+        remove: async (fileId) => {
+            const id = toObjectId(fileId);
+            if (!id) return;
+            try {
+                await getBucket().delete(id);
+            } catch (error) {
+                // Already gone
+                if (!/FileNotFound|not found/i.test(error.message)) throw error;
+            }
+        },
+    };
+};
+
+const stores = new Map();
+
+/**
+ * A file store backend: save(source, { filename, contentType, metadata }), stat(fileId), createReadStream(fileId)
+ * and remove(fileId)
+ *
+ * @param {string} storage - "gridfs" or "local" (default: FILE_STORE)
+ * @returns {Object}
+ */
+export const getFileStore = (storage = getFileStoreConfig().driver) => {
+    if (!stores.has(storage)) {
+        const { directory, bucketName } = getFileStoreConfig();
+        if (storage === 'local') {
+            stores.set(storage, createLocalFileStore(directory));
+        } else if (storage === 'gridfs') {
+            stores.set(storage, createGridFsFileStore(bucketName));
+        } else {
+            throw fileStoreError(`Unknown file store: ${storage}`);
+        }
+    }
+    return stores.get(storage);
+};
+
+/**
+ * Save a file to the configured store
+ *
+ * @param {Buffer|Readable} source - File contents (a stream is written as it arrives)
+ * @param {Object} details - filename, contentType, owner (id of the user the file belongs to)
+ * @returns {Promise<Object>} File reference { fileId, storage, contentType, filename, size }
+ */
+export const saveFile = async (source, { filename, contentType, owner }) => {
+    const storage = getFileStoreConfig().driver;
+    const { fileId, size } = await getFileStore(storage).save(source, {
+        filename,
+        contentType,
+        metadata: { owner: owner ? owner.toString() : null },
+    });
+    return { fileId, storage, contentType, filename, size };
+};
+
+/**
+ * Details of a stored file
+ *
+ * @param {Object} file - File reference (fileId, storage)
+ * @returns {Promise<Object|null>} { filename, contentType, size, metadata: { owner } }, or null when it doesn't exist
+ */
+export const statFile = async ({ fileId, storage }) => getFileStore(storage).stat(String(fileId));
+
+/**
+ * Stream the contents of a stored file
+ *
+ * @param {Object} file - File reference (fileId, storage) of a file that exists (see statFile)
+ * @returns {Readable}
+ */
+export const createFileReadStream = ({ fileId, storage }) => getFileStore(storage).createReadStream(String(fileId));
+
+/**
+ * Delete a stored file (a missing file is ignored)
+ *
+ * @param {Object} file - File reference (fileId, storage)
+ */
+export const deleteFile = async ({ fileId, storage }) => getFileStore(storage).remove(String(fileId));
+
+const getSigningSecret = () => {
+    if (!process.env.JWT_SECRET) {
+        throw fileStoreError('JWT_SECRET is not set, so file links can\'t be signed');
+    }
+    return process.env.JWT_SECRET;
+};
+
+const signFile = (storage, fileId, expires) =>
+    crypto.createHmac('sha256', getSigningSecret()).update(`${storage}/${fileId}/${expires}`).digest('base64url');
+
+/**
+ * Time-limited link to a stored file, for API responses to users already allowed to see it
+ *
+ * @param {Object} file - File reference (fileId, storage)
+ * @returns {string} Path under the API, e.g. /api/files/gridfs/<id>?expires=...&signature=...
+ */
+export const getSignedFileUrl = ({ fileId, storage }) => {
+    const expires = Math.floor(Date.now() / 1000) + getFileStoreConfig().urlTtlSeconds;
+    const signature = signFile(storage, fileId, expires);
+    return `/api/files/${storage}/${fileId}?expires=${expires}&signature=${signature}`;
+};
+
+/**
+ * Whether a signed link (from getSignedFileUrl) is genuine and not expired
+ *
+ * @returns {boolean}
+ */
+export const verifyFileSignature = (storage, fileId, expires, signature) => {
+    if (!expires || !signature || Number(expires) < Date.now() / 1000) return false;
+    const expected = Buffer.from(signFile(storage, fileId, expires));
+    const given = Buffer.from(String(signature));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
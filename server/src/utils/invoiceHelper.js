@@ -0,0 +1,460 @@
+// GST tax invoices
+// An order's invoice is issued once (at the point INVOICE_TRIGGER picks, or by an admin): the number is taken in
+// the same transaction that records the invoice's contents on the order, and the order's invoice fields are locked
+// from then on. The PDF is rendered from those contents afterwards and kept in the file store, so later changes to
+// the order, product or seller never alter it, and a failed render never uses up a number.
+
+import mongoose from 'mongoose';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import Product from '../models/productModal.js';
+import { User } from '../models/User.js';
+import { getInvoiceConfig } from '../config/invoice.js';
+import { DOCUMENT_SERIES } from '../config/numbering.js';
+import { nextDocumentNumber } from './documentNumberHelper.js';
+import { getOrderLines } from './orderDepartmentHelper.js';
+import { getLinePricing } from './orderExportHelper.js';
+import { saveFile, deleteFile } from './fileStore.js';
+
+const invoiceError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+// Orders that never get an invoice
+const NOT_INVOICED_STATUSES = ['cancelled', 'rejected'];
+
+const roundAmount = (value) => Math.round((value || 0) * 100) / 100;
+
+const formatAmount = (value) =>
+    roundAmount(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date) =>
+    new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+const ONES = [
+    '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve',
+    'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitWords = (n) => (n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`);
+
+// Whole number in words with Indian grouping (thousand, lakh, crore)
+const numberToWords = (n) => {
+    if (n >= 10000000) {
+        return [`${numberToWords(Math.floor(n / 10000000))} Crore`, numberToWords(n % 10000000)].filter(Boolean).join(' ');
+    }
+    const parts = [];
+    const lakhs = Math.floor(n / 100000);
+    const thousands = Math.floor((n % 100000) / 1000);
+    const hundreds = Math.floor((n % 1000) / 100);
+    const rest = n % 100;
+    if (lakhs) parts.push(`${twoDigitWords(lakhs)} Lakh`);
+    if (thousands) parts.push(`${twoDigitWords(thousands)} Thousand`);
+    if (hundreds) parts.push(`${ONES[hundreds]} Hundred`);
+    if (rest) parts.push(twoDigitWords(rest));
+    return parts.join(' ');
+};
+
+/**
+ * Amount in words as printed on invoices
+ *
+ * @param {number} amount - e.g. 1234.5
+ * @returns {string} e.g. "Rupees One Thousand Two Hundred Thirty Four and Fifty Paise Only"
+ */
+export const amountInWords = (amount) => {
+    const totalPaise = Math.round(Math.abs(amount || 0) * 100);
+    const rupees = Math.floor(totalPaise / 100);
+    const paise = totalPaise % 100;
+    return `Rupees ${numberToWords(rupees) || 'Zero'}${paise ? ` and ${twoDigitWords(paise)} Paise` : ''} Only`;
+};
+
+// CGST + SGST/UTGST within the seller's state, IGST across states
+const splitTax = (gstAmount, isInterState) => {
+    if (isInterState) {
+        return { cgst: 0, sgst: 0, igst: roundAmount(gstAmount) };
+    }
+    const cgst = roundAmount(gstAmount / 2);
+    return { cgst, sgst: roundAmount(gstAmount - cgst), igst: 0 };
+};
+
+/**
+ * Everything printed on an order's invoice, worked out from the order's pricing snapshot and GST split
+ *
+ * @param {Object} order - Order document
+ * @param {Date} issuedAt - Invoice date
+ * @returns {Promise<Object>} Invoice contents (without the invoice number)
+ * @throws Error with statusCode 400 when the order can't be invoiced (no seller GSTIN, place of supply or pricing)
+ */
+const buildInvoice = async (order, issuedAt) => {
+    const { seller, defaultHsnCode } = getInvoiceConfig();
+    if (!seller.gstin) {
+        throw invoiceError('Invoices can\'t be issued until SELLER_GSTIN is set to the seller\'s GSTIN');
+    }
+    const gstSplit = order.gstSplit;
+    if (!gstSplit?.placeOfSupplyCode) {
+        throw invoiceError('The order has no place of supply (SELLER_STATE is missing, or the delivery state couldn\'t be worked out from its PIN code), so its GST can\'t be split');
+    }
+    const breakdown = order.pricingSnapshot?.breakdown;
+    const lines = getOrderLines(order);
+    const linePricing = getLinePricing(order);
+    if (!breakdown || linePricing.some((line) => line.taxableAmount === null || line.taxableAmount === undefined)) {
+        throw invoiceError('The order was placed before price breakdowns were kept, so it can\'t be invoiced');
+    }
+
+    const productIds = lines.map((line) => line.product?._id || line.product);
+    const [products, user] = await Promise.all([
+        Product.find({ _id: { $in: productIds } }).select('name hsnCode').lean(),
+        User.findById(order.user?._id || order.user).select('name email').lean(),
+    ]);
+    const productById = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const rows = lines.map((line, index) => {
+        const product = productById.get(String(productIds[index])) || {};
+        const pricing = linePricing[index];
+        return {
+            description: product.name || 'Product',
+            hsnCode: product.hsnCode || defaultHsnCode,
+            quantity: line.quantity,
+            taxableAmount: roundAmount(pricing.taxableAmount),
+            gstPercentage: pricing.gstPercentage || 0,
+            ...splitTax(pricing.gstAmount, gstSplit.isInterState),
+            total: roundAmount(pricing.total),
+        };
+    });
+
+    // Shipping is part of the supply, so it takes the HSN of the goods it is taxed with
+    const shippingCharge = breakdown.shippingCharge ?? order.shippingCharge ?? 0;
+    if (shippingCharge > 0) {
+        const shippingGstPercentage = breakdown.shippingGstPercentage ?? breakdown.gstPercentage ?? 0;
+        const shippingGstAmount = (shippingCharge * shippingGstPercentage) / 100;
+        const taxedWith = rows.find((row) => row.gstPercentage === shippingGstPercentage) || rows[0];
+        rows.push({
+            description: 'Shipping charges',
+            hsnCode: taxedWith.hsnCode,
+            quantity: 1,
+            taxableAmount: roundAmount(shippingCharge),
+            gstPercentage: shippingGstPercentage,
+            ...splitTax(shippingGstAmount, gstSplit.isInterState),
+            total: roundAmount(shippingCharge + shippingGstAmount),
+        });
+    }
+
+    const sum = (key) => roundAmount(rows.reduce((total, row) => total + row[key], 0));
+    const totals = {
+        taxableAmount: sum('taxableAmount'),
+        cgst: roundAmount(gstSplit.cgstAmount),
+        sgst: roundAmount(gstSplit.sgstAmount),
+        igst: roundAmount(gstSplit.igstAmount),
+        total: roundAmount(order.totalPrice),
+    };
+    // Line amounts are rounded one by one; the order total is what the customer was charged
+    totals.roundOff = roundAmount(totals.total - totals.taxableAmount - totals.cgst - totals.sgst - totals.igst);
+
+    return {
+        invoiceNumber: null,
+        invoiceDate: issuedAt,
+        orderNumber: order.orderNumber,
+        orderDate: order.createdAt,
+        seller,
+        buyer: {
+            name: user?.name || '',
+            email: user?.email || '',
+            mobileNumber: order.mobileNumber || '',
+            address: order.address || '',
+            pincode: order.pincode || '',
+        },
+        placeOfSupply: { code: gstSplit.placeOfSupplyCode, name: gstSplit.placeOfSupply },
+        isInterState: gstSplit.isInterState,
+        stateTaxLabel: gstSplit.stateTaxLabel || 'SGST',
+        rows,
+        totals,
+    };
+};
+
+// QR code contents, with the fields of a GST e-invoice QR (unsigned - the invoice has no IRN)
+const invoiceQrPayload = (invoice) =>
+    JSON.stringify({
+        SellerGstin: invoice.seller.gstin,
+        BuyerGstin: 'URP', // Unregistered person
+        DocNo: invoice.invoiceNumber,
+        DocTyp: 'INV',
+        DocDt: formatDate(invoice.invoiceDate),
+        TotInvVal: invoice.totals.total,
+        ItemCnt: invoice.rows.length,
+        MainHsnCode: invoice.rows[0]?.hsnCode,
+    });
+
+const PAGE_LEFT = 40;
+const PAGE_WIDTH = 515;
+
+const tableColumns = (invoice) => [
+    { key: 'index', header: '#', width: 18 },
+    { key: 'description', header: 'Description', width: 130 },
+    { key: 'hsnCode', header: 'HSN/SAC', width: 48 },
+    { key: 'quantity', header: 'Qty', width: 38, align: 'right' },
+    { key: 'taxableAmount', header: 'Taxable Value', width: 58, align: 'right' },
+    { key: 'gstPercentage', header: 'GST %', width: 32, align: 'right' },
+    { key: 'cgst', header: 'CGST', width: 46, align: 'right' },
+    { key: 'sgst', header: invoice.stateTaxLabel, width: 46, align: 'right' },
+    { key: 'igst', header: 'IGST', width: 46, align: 'right' },
+    { key: 'total', header: 'Total', width: 53, align: 'right' },
+];
+
+// One table row; starts a new page (with the header row again) when it doesn't fit
+const drawTableRow = (doc, columns, cells, y, { header = false } = {}) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    const height = Math.max(...columns.map((column, i) => doc.heightOfString(cells[i], { width: column.width - 6 }))) + 8;
+    if (!header && y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        y = drawTableRow(doc, columns, columns.map((column) => column.header), doc.page.margins.top, { header: true });
+        doc.font('Helvetica').fontSize(8);
+    }
+    if (header) {
+        doc.rect(PAGE_LEFT, y, PAGE_WIDTH, height).fill('#f1ede4');
+        doc.fillColor('#000000');
+    }
+    let x = PAGE_LEFT;
+    columns.forEach((column, i) => {
+        doc.text(cells[i], x + 3, y + 4, { width: column.width - 6, align: column.align || 'left' });
+        x += column.width;
+    });
+    doc.moveTo(PAGE_LEFT, y + height).lineTo(PAGE_LEFT + PAGE_WIDTH, y + height).strokeColor('#cccccc').stroke();
+    return y + height;
+};
+
+/**
+ * Render an invoice as an A4 PDF
+ *
+ * @param {Object} invoice - From buildInvoice
+ * @returns {Promise<Buffer>}
+ */
+const renderInvoicePdf = async (invoice) => {
+    const qrCode = await QRCode.toBuffer(invoiceQrPayload(invoice), { margin: 1, width: 240 });
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: 40,
+        info: { Title: `Tax Invoice ${invoice.invoiceNumber}`, Author: invoice.seller.name },
+    });
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    const finished = new Promise((resolve, reject) => {
+        doc.on('end', resolve);
+        doc.on('error', reject);
+    });
+
+    const { seller, buyer, totals } = invoice;
+
+    doc.font('Helvetica-Bold').fontSize(16).text('TAX INVOICE', PAGE_LEFT, 40, { width: PAGE_WIDTH, align: 'center' });
+
+    // Seller, with the QR code on the right
+    doc.image(qrCode, PAGE_LEFT + PAGE_WIDTH - 90, 70, { width: 90 });
+    doc.font('Helvetica-Bold').fontSize(12).text(seller.name, PAGE_LEFT, 72, { width: 320 });
+    doc.font('Helvetica').fontSize(9);
+    if (seller.address) doc.text(seller.address, { width: 320 });
+    doc.text(`GSTIN: ${seller.gstin}`, { width: 320 });
+    if (seller.state) doc.text(`State: ${seller.state.name} (${seller.state.code})`, { width: 320 });
+
+    // Invoice details and customer
+    const detailsTop = Math.max(doc.y, 165) + 10;
+    doc.font('Helvetica-Bold').fontSize(9).text('Invoice Details', PAGE_LEFT, detailsTop);
+    doc.font('Helvetica').text(`Invoice No: ${invoice.invoiceNumber}`);
+    doc.text(`Invoice Date: ${formatDate(invoice.invoiceDate)}`);
+    doc.text(`Order No: ${invoice.orderNumber}`);
+    doc.text(`Order Date: ${formatDate(invoice.orderDate)}`);
+    doc.text(`Place of Supply: ${invoice.placeOfSupply.name} (${invoice.placeOfSupply.code})`);
+    doc.text('Reverse Charge: No');
+    const detailsBottom = doc.y;
+
+    const buyerLeft = PAGE_LEFT + 280;
+    doc.font('Helvetica-Bold').text('Billed To', buyerLeft, detailsTop);
+    doc.font('Helvetica').text(buyer.name, buyerLeft, doc.y, { width: PAGE_WIDTH - 280 });
+    if (buyer.address) doc.text(`${buyer.address}${buyer.pincode ? ` - ${buyer.pincode}` : ''}`, { width: PAGE_WIDTH - 280 });
+    if (buyer.mobileNumber) doc.text(`Mobile: ${buyer.mobileNumber}`, { width: PAGE_WIDTH - 280 });
+    if (buyer.email) doc.text(`Email: ${buyer.email}`, { width: PAGE_WIDTH - 280 });
+    doc.text('GSTIN: Unregistered', { width: PAGE_WIDTH - 280 });
+
+    // Lines
+    const columns = tableColumns(invoice);
+    let y = Math.max(detailsBottom, doc.y) + 15;
+    y = drawTableRow(doc, columns, columns.map((column) => column.header), y, { header: true });
+    invoice.rows.forEach((row, index) => {
+        y = drawTableRow(doc, columns, [
+            String(index + 1),
+            row.description,
+            row.hsnCode,
+            String(row.quantity),
+            formatAmount(row.taxableAmount),
+            `${row.gstPercentage}%`,
+            formatAmount(row.cgst),
+            formatAmount(row.sgst),
+            formatAmount(row.igst),
+            formatAmount(row.total),
+        ], y);
+    });
+
+    // Totals
+    const totalLines = [
+        ['Taxable Value', totals.taxableAmount],
+        ...(invoice.isInterState
+            ? [['IGST', totals.igst]]
+            : [['CGST', totals.cgst], [invoice.stateTaxLabel, totals.sgst]]),
+        ...(totals.roundOff ? [['Round Off', totals.roundOff]] : []),
+    ];
+    if (y + 40 + totalLines.length * 14 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        y = doc.page.margins.top;
+    }
+    y += 10;
+    doc.font('Helvetica').fontSize(9);
+    for (const [label, amount] of totalLines) {
+        doc.text(label, PAGE_LEFT + 300, y, { width: 110 });
+        doc.text(formatAmount(amount), PAGE_LEFT + 410, y, { width: 105, align: 'right' });
+        y += 14;
+    }
+    doc.font('Helvetica-Bold').fontSize(10);
+    doc.text('Invoice Total (INR)', PAGE_LEFT + 300, y + 2, { width: 110 });
+    doc.text(formatAmount(totals.total), PAGE_LEFT + 410, y + 2, { width: 105, align: 'right' });
+    y += 22;
+
+    doc.font('Helvetica-Bold').fontSize(9).text('Amount in words:', PAGE_LEFT, y);
+    doc.font('Helvetica').text(amountInWords(totals.total), PAGE_LEFT, doc.y, { width: PAGE_WIDTH });
+
+    doc.moveDown(3);
+    doc.font('Helvetica-Bold').text(`For ${seller.name}`, PAGE_LEFT, doc.y, { width: PAGE_WIDTH, align: 'right' });
+    doc.font('Helvetica').text('Authorised Signatory', { width: PAGE_WIDTH, align: 'right' });
+    doc.moveDown(2);
+    doc.fontSize(8).fillColor('#666666').text('This is a computer-generated invoice and does not need a signature.', PAGE_LEFT, doc.y, {
+        width: PAGE_WIDTH,
+        align: 'center',
+    });
+
+    doc.end();
+    await finished;
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Path customers and admins download an order's invoice from (needs their login)
+ *
+ * @param {Object} order - Order (document or lean)
+ * @returns {string}
+ */
+export const getInvoicePath = (order) => `/api/orders/${order._id}/invoice`;
+
+const invoiceFilename = (invoiceNumber) => `invoice-${invoiceNumber.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+
+/**
+ * Render an issued invoice's PDF into the file store, unless it is there already
+ * Used right after issuing, and again on download when that render failed.
+ *
+ * @param {Object} order - Order document with an issued invoice
+ * @returns {Promise<Object>} File reference of the PDF
+ * @throws Error with statusCode 404 when the order has no issued invoice
+ */
+export const storeInvoicePdf = async (order) => {
+    if (order.invoiceFile?.fileId) return order.invoiceFile;
+    if (!order.invoiceSnapshot) {
+        throw invoiceError('No invoice has been issued for this order yet', 404);
+    }
+
+    const pdf = await renderInvoicePdf(order.invoiceSnapshot);
+    const file = await saveFile(pdf, {
+        filename: invoiceFilename(order.invoiceNumber),
+        contentType: 'application/pdf',
+        owner: order.user?._id || order.user,
+    });
+    order.invoiceFile = file;
+    // Only if no other request stored it meanwhile
+    order.$where = { invoiceFile: null };
+    try {
+        await order.save();
+        return file;
+    } catch (err) {
+        await deleteFile(file).catch(() => {});
+        order.invoiceFile = null;
+        if (err.name !== 'DocumentNotFoundError') throw err;
+        const current = await order.constructor.findById(order._id).select('invoiceFile').lean();
+        return current.invoiceFile;
+    } finally {
+        order.$where = undefined;
+    }
+};
+
+/**
+ * Issue an order's tax invoice and save the order
+ * The invoice number is taken in one transaction with the order update, so a failed write gives it back and the
+ * series stays gapless. The PDF is rendered after the commit; if that fails it is rendered on the first download.
+ * An order that already has an invoice keeps it.
+ *
+ * @param {Object} order - Order document
+ * @returns {Promise<boolean>} false when the order already had an invoice
+ * @throws Error with statusCode 400 when the order can't be invoiced, 409 when another request issued it meanwhile
+ */
+export const issueOrderInvoice = async (order) => {
+    if (order.invoiceNumber) return false;
+    if (order.nonInvoiceable) {
+        throw invoiceError('This order is not invoiced (reprints are covered by the invoice of the original order)');
+    }
+    if (NOT_INVOICED_STATUSES.includes(order.status)) {
+        throw invoiceError(`A ${order.status} order can't be invoiced`);
+    }
+
+    const issuedAt = new Date();
+    // Everything that could stop the invoice is checked before a number is taken
+    const invoice = await buildInvoice(order, issuedAt);
+    try {
+        await mongoose.connection.transaction(async (session) => {
+            invoice.invoiceNumber = await nextDocumentNumber(DOCUMENT_SERIES.INVOICE, { date: issuedAt, session });
+            order.invoiceNumber = invoice.invoiceNumber;
+            order.invoiceGeneratedAt = issuedAt;
+            order.invoiceUrl = getInvoicePath(order);
+            order.invoiceSnapshot = invoice;
+            // Only if no other request issued one meanwhile
+            order.$where = { invoiceNumber: null };
+            await order.save({ session });
+        });
+    } catch (err) {
+        order.invoiceNumber = null;
+        order.invoiceGeneratedAt = null;
+        order.invoiceUrl = null;
+        order.invoiceSnapshot = null;
+        if (err.name === 'DocumentNotFoundError') {
+            throw invoiceError('An invoice was issued for this order at the same time', 409);
+        }
+        throw err;
+    } finally {
+        order.$where = undefined;
+    }
+
+    try {
+        await storeInvoicePdf(order);
+    } catch (err) {
+        console.error(`Could not store the PDF of invoice ${order.invoiceNumber}:`, err.message);
+    }
+    return true;
+};
+
+/**
+ * Issue an order's invoice if INVOICE_TRIGGER says this event is the moment (the order is already saved)
+ * A failure is logged rather than thrown, so it never undoes the event; an admin can issue the invoice later.
+ *
+ * @param {Object} order - Order document
+ * @param {string} event - "dispatch" (a shipment was recorded) or "payment" (payment details were recorded)
+ * @returns {Promise<boolean>} Whether an invoice was issued
+ */
+export const issueInvoiceIfDue = async (order, event) => {
+    if (getInvoiceConfig().trigger !== event || order.invoiceNumber) return false;
+    // Zero-cost reprints are covered by the original order's invoice
+    if (order.nonInvoiceable) return false;
+    if (event === 'payment' && order.paymentStatus !== 'completed') return false;
+    if (event === 'dispatch' && order.shipments.length === 0) return false;
+    try {
+        return await issueOrderInvoice(order);
+    } catch (err) {
+        console.error(`Could not issue the invoice of order ${order.orderNumber}:`, err.message);
+        return false;
+    }
+};
@@ -4,21 +4,332 @@
 import Order from '../models/orderModal.js';
 import Product from '../models/productModal.js';
 import Department from '../models/departmentModal.js';
+import { transitionOrderStatus } from './orderStatusHelper.js';
+
+/**
+ * Production lines of an order
+ * Cart orders route each line item separately; a single-product order is its own line.
+ *
+ * @param {Object} order - Order document or lean object
+ * @returns {Array<Object>} order.items, or [order]
+ */
+export const getOrderLines = (order) => (order.items && order.items.length > 0 ? order.items : [order]);
+
+/**
+ * Find the line a department action targets
+ *
+ * @param {Object} order - Order document
+ * @param {string} [lineId] - Line item id (required for cart orders with more than one line)
+ * @returns {Object|null} The line item, the order itself for single-product orders, or null
+ */
+export const findOrderLine = (order, lineId) => {
+    if (!order.items || order.items.length === 0) return order;
+    if (lineId) return order.items.id(lineId) || null;
+    return order.items.length === 1 ? order.items[0] : null;
+};
+
+/**
+ * Enabled departments a product goes through, in production sequence order
+ * Products without a sequence go through all enabled departments.
+ *
+ * @param {string} productId
+ * @returns {Promise<Array<Object>>} Department documents
+ */
+export const getProductDepartments = async (productId) => {
+    const product = await Product.findById(productId).select('productionSequence');
+    if (!product) {
+        throw new Error('Product not found');
+    }
+
+    if (!product.productionSequence || product.productionSequence.length === 0) {
+        return Department.find({ isEnabled: true }).sort({ name: 1 });
+    }
+
+    const departments = await Department.find({
+        _id: { $in: product.productionSequence },
+        isEnabled: true
+    });
+    const deptMap = new Map(departments.map(d => [d._id.toString(), d]));
+    return product.productionSequence
+        .map(id => deptMap.get(id.toString()))
+        .filter(d => d !== undefined);
+};
+
+/**
+ * Whether every department in a line's sequence has completed it
+ *
+ * @param {Object} line - Order line (or single-product order)
+ * @param {Array<Object>} departmentsInSequence - See getProductDepartments
+ * @returns {boolean}
+ */
+export const isLineProductionComplete = (line, departmentsInSequence) => {
+    if (departmentsInSequence.length === 0) return false;
+    return departmentsInSequence.every((dept) => (line.departmentStatuses || []).some((ds) => {
+        const deptId = typeof ds.department === 'object' ? ds.department._id?.toString() : ds.department?.toString();
+        return deptId === dept._id.toString() && ds.status === 'completed';
+    }));
+};
+
+/**
+ * Send every line of a cart order to the first department of its product's sequence
+ * Does not save the order.
+ *
+ * @param {Object} order - Order document with items
+ * @param {Object} [options] - operator (user id recorded on the timeline), notes
+ * @throws Error with statusCode 400 when a line's product has no enabled department
+ */
+export const sendOrderLinesToFirstDepartments = async (order, { operator = null, notes } = {}) => {
+    const now = new Date();
+
+    for (const line of order.items) {
+        const departments = await getProductDepartments(line.product._id || line.product);
+        if (departments.length === 0) {
+            const error = new Error('No departments available for a product in this order');
+            error.statusCode = 400;
+            throw error;
+        }
+        const firstDept = departments[0];
+
+        const existingStatus = line.departmentStatuses.find(
+            (ds) => ds.department.toString() === firstDept._id.toString()
+        );
+        if (existingStatus) {
+            existingStatus.status = 'pending';
+            if (!existingStatus.whenAssigned) {
+                existingStatus.whenAssigned = now;
+            }
+        } else {
+            line.departmentStatuses.push({
+                department: firstDept._id,
+                status: 'pending',
+                whenAssigned: now,
+            });
+        }
+
+        line.currentDepartment = firstDept._id;
+        line.currentDepartmentIndex = 0;
+        line.productionTimeline.push({
+            department: firstDept._id,
+            action: 'requested',
+            timestamp: now,
+            operator,
+            notes: notes || `Order line assigned to ${firstDept.name}`,
+        });
+    }
+
+    order.markModified('items');
+};
+
+/**
+ * Send a single-product order to the first department of its product's sequence
+ * Products without a sequence go to the first enabled department; nothing is assigned when there is none.
+ * Does not save the order.
+ *
+ * @param {Object} order - Single-product order document
+ * @param {Object} [options] - operator (user id recorded on the timeline), notes
+ * @throws Error with statusCode 404 when the product no longer exists
+ */
+export const sendOrderToFirstDepartment = async (order, { operator = null, notes } = {}) => {
+    // Get product to find production sequence - handle both populated and unpopulated cases
+    const productId = order.product._id || order.product;
+    const product = await Product.findById(productId).populate('productionSequence');
+    if (!product) {
+        const error = new Error('Product not found');
+        error.statusCode = 404;
+        throw error;
+    }
+
+    // Get departments in sequence order - optimized single query
+    let departmentsToUse = [];
+    if (product.productionSequence && product.productionSequence.length > 0) {
+        const deptIds = product.productionSequence.map(dept => typeof dept === 'object' ? dept._id : dept);
+        const departments = await Department.find({
+            _id: { $in: deptIds },
+            isEnabled: true
+        });
+        // Create a map for O(1) lookup instead of O(n) find
+        const deptMap = new Map(departments.map(d => [d._id.toString(), d]));
+        departmentsToUse = deptIds
+            .map(id => {
+                const idStr = typeof id === 'object' ? id.toString() : id?.toString();
+                return idStr ? deptMap.get(idStr) : null;
+            })
+            .filter(d => d !== null && d !== undefined);
+    } else {
+        departmentsToUse = await Department.find({ isEnabled: true }).sort({ name: 1 });
+    }
+
+    // Send request to first department (status: "pending")
+    if (departmentsToUse.length === 0) return;
+    const firstDept = departmentsToUse[0];
+    const now = new Date();
+
+    // Initialize departmentStatuses array if it doesn't exist
+    if (!order.departmentStatuses) {
+        order.departmentStatuses = [];
+    }
+
+    // Check if department status already exists
+    const existingStatus = order.departmentStatuses.find(
+        (ds) => {
+            const deptId = typeof ds.department === 'object' ? ds.department._id?.toString() : ds.department?.toString();
+            return deptId === firstDept._id.toString();
+        }
+    );
+
+    if (!existingStatus) {
+        // Create new department status entry
+        order.departmentStatuses.push({
+            department: firstDept._id,
+            status: 'pending', // Request sent, waiting for department to start
+            whenAssigned: now, // Timestamp when assigned to this department
+            startedAt: null,
+            pausedAt: null,
+            completedAt: null,
+            stoppedAt: null,
+            operator: null,
+            notes: '',
+        });
+    } else {
+        // Update existing department status
+        existingStatus.status = 'pending';
+        if (!existingStatus.whenAssigned) {
+            existingStatus.whenAssigned = now;
+        }
+    }
+
+    // Set current department to first department
+    order.currentDepartment = firstDept._id;
+    order.currentDepartmentIndex = 0;
+
+    // Add to production timeline
+    if (!order.productionTimeline) {
+        order.productionTimeline = [];
+    }
+    order.productionTimeline.push({
+        department: firstDept._id,
+        action: 'requested',
+        timestamp: now,
+        operator,
+        notes: notes || `Order assigned to ${firstDept.name}`,
+    });
+
+    order.markModified('departmentStatuses');
+    order.markModified('productionTimeline');
+};
+
+/**
+ * Move an order in production to another department of its sequence (rework or skipping ahead)
+ * The department the order was at is stopped unless it had finished. On cart orders only the lines whose
+ * product goes through the department are moved. Does not save the order.
+ *
+ * @param {Object} order - Order document in "approved" or "processing" status
+ * @param {string} departmentId
+ * @param {Object} [options] - operator (user id recorded on the timeline)
+ * @returns {Promise<Object>} The department
+ * @throws Error with statusCode 400 when the order isn't in production or no line goes through the department
+ */
+export const reassignOrderDepartment = async (order, departmentId, { operator = null } = {}) => {
+    const reassignError = (message, statusCode = 400) => {
+        const error = new Error(message);
+        error.statusCode = statusCode;
+        return error;
+    };
+
+    if (!['approved', 'processing'].includes(order.status)) {
+        throw reassignError(`Only orders in production can be moved to another department. Current status: ${order.status}`);
+    }
+    const department = await Department.findById(departmentId);
+    if (!department) {
+        throw reassignError('Department not found', 404);
+    }
+    if (!department.isEnabled) {
+        throw reassignError(`Department ${department.name} is disabled`);
+    }
+
+    const now = new Date();
+    let movedLines = 0;
+    for (const line of getOrderLines(order)) {
+        const departments = await getProductDepartments(line.product._id || line.product);
+        const index = departments.findIndex((dept) => dept._id.toString() === department._id.toString());
+        if (index === -1) continue;
+
+        const findStatus = (deptId) => line.departmentStatuses.find((ds) => ds.department.toString() === deptId.toString());
+
+        // Stop the department the line was at, unless it finished
+        if (line.currentDepartment && line.currentDepartment.toString() !== department._id.toString()) {
+            const currentStatus = findStatus(line.currentDepartment);
+            if (currentStatus && currentStatus.status !== 'completed') {
+                currentStatus.status = 'stopped';
+                currentStatus.stoppedAt = now;
+            }
+        }
+
+        const targetStatus = findStatus(department._id);
+        if (targetStatus) {
+            targetStatus.status = 'pending';
+            targetStatus.whenAssigned = now;
+            targetStatus.startedAt = null;
+            targetStatus.pausedAt = null;
+            targetStatus.completedAt = null;
+            targetStatus.stoppedAt = null;
+        } else {
+            line.departmentStatuses.push({
+                department: department._id,
+                status: 'pending',
+                whenAssigned: now,
+            });
+        }
+
+        line.currentDepartment = department._id;
+        line.currentDepartmentIndex = index;
+        line.productionTimeline.push({
+            department: department._id,
+            action: 'requested',
+            timestamp: now,
+            operator,
+            notes: `Reassigned to ${department.name} by admin`,
+        });
+        movedLines += 1;
+    }
+
+    if (movedLines === 0) {
+        throw reassignError(`${department.name} is not in the production sequence of this order`);
+    }
+
+    if (order.items && order.items.length > 0) {
+        order.markModified('items');
+    } else {
+        order.markModified('departmentStatuses');
+        order.markModified('productionTimeline');
+    }
+    return department;
+};
 
 /**
  * Assign order to first department in production sequence
  * This ensures the order appears in employee dashboard
  * 
  * @param {string} orderId - The order ID
+ * @param {Object} actor - Admin approving the order (recorded in the status history)
  * @returns {Promise<Object>} Updated order
  */
-export const assignOrderToDepartments = async (orderId) => {
+export const assignOrderToDepartments = async (orderId, actor) => {
     try {
         const order = await Order.findById(orderId);
         if (!order) {
             throw new Error('Order not found');
         }
 
+        if (order.items && order.items.length > 0) {
+            await sendOrderLinesToFirstDepartments(order);
+            if (order.status === 'request' || order.status === 'production_ready') {
+                transitionOrderStatus(order, 'approved', { actor });
+            }
+            await order.save();
+            return order;
+        }
+
         // Get product with production sequence
         const productId = order.product._id || order.product;
         const product = await Product.findById(productId).populate('productionSequence');
@@ -100,7 +411,7 @@ export const assignOrderToDepartments = async (orderId) => {
 
         // Ensure order status is 'approved' so it shows in employee dashboard
         if (order.status === 'request' || order.status === 'production_ready') {
-            order.status = 'approved';
+            transitionOrderStatus(order, 'approved', { actor });
         }
 
         // Mark as modified for Mongoose
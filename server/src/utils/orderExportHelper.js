@@ -0,0 +1,225 @@
+// Order export
+// Spreadsheet rows for accounts: one row per order line with its pricing, the order's GST, customer and dispatch details.
+
+import ExcelJS from 'exceljs';
+import { getOrderLines } from './orderDepartmentHelper.js';
+import { getShipmentQuantities } from './shipmentHelper.js';
+
+export const ORDER_EXPORT_FORMATS = ['csv', 'xlsx'];
+
+// Large fields an export never reads (design files, full pricing inputs, production and status logs)
+export const ORDER_EXPORT_EXCLUDED_FIELDS = [
+    '-uploadedDesign',
+    '-items.uploadedDesign',
+    '-pricingSnapshot.inputs',
+    '-statusHistory',
+    '-courierTimeline',
+    '-productionTimeline',
+    '-departmentStatuses',
+    '-items.productionTimeline',
+    '-items.departmentStatuses',
+].join(' ');
+
+/**
+ * Export columns in sheet order
+ * Order-level amounts repeat on every line of a cart order; sum them per order number, not per row.
+ */
+export const ORDER_EXPORT_COLUMNS = [
+    { key: 'orderNumber', header: 'Order Number', width: 18 },
+    { key: 'orderDate', header: 'Order Date', width: 20 },
+    { key: 'status', header: 'Status', width: 16 },
+    { key: 'paymentStatus', header: 'Payment Status', width: 14 },
+    { key: 'customerName', header: 'Customer Name', width: 22 },
+    { key: 'customerEmail', header: 'Customer Email', width: 28 },
+    { key: 'mobileNumber', header: 'Mobile', width: 14 },
+    { key: 'address', header: 'Address', width: 40 },
+    { key: 'pincode', header: 'Pincode', width: 10 },
+    { key: 'placeOfSupply', header: 'Place of Supply', width: 18 },
+    { key: 'lineNumber', header: 'Line', width: 6 },
+    { key: 'product', header: 'Product', width: 28 },
+    { key: 'quantity', header: 'Quantity', width: 10 },
+    { key: 'lineTaxableAmount', header: 'Line Taxable Amount', width: 16 },
+    { key: 'lineGstPercentage', header: 'Line GST %', width: 10 },
+    { key: 'lineGstAmount', header: 'Line GST', width: 12 },
+    { key: 'lineTotal', header: 'Line Total', width: 12 },
+    { key: 'couponCode', header: 'Coupon', width: 12 },
+    { key: 'couponDiscount', header: 'Coupon Discount', width: 14 },
+    { key: 'shippingCharge', header: 'Shipping Charge', width: 14 },
+    { key: 'cgstAmount', header: 'CGST', width: 12 },
+    { key: 'sgstAmount', header: 'SGST/UTGST', width: 12 },
+    { key: 'igstAmount', header: 'IGST', width: 12 },
+    { key: 'orderGstAmount', header: 'Order GST', width: 12 },
+    { key: 'orderTotal', header: 'Order Total', width: 12 },
+    { key: 'advancePaid', header: 'Advance Paid', width: 12 },
+    { key: 'invoiceNumber', header: 'Invoice Number', width: 18 },
+    { key: 'deliveryDate', header: 'Delivery Date', width: 14 },
+    { key: 'currentDepartment', header: 'Current Department', width: 18 },
+    { key: 'shippedQuantity', header: 'Shipped Qty', width: 11 },
+    { key: 'deliveredQuantity', header: 'Delivered Qty', width: 12 },
+    { key: 'courierPartner', header: 'Courier', width: 16 },
+    { key: 'trackingIds', header: 'Tracking IDs', width: 24 },
+    { key: 'dispatchedAt', header: 'Dispatched At', width: 20 },
+    { key: 'deliveredAt', header: 'Delivered At', width: 20 },
+];
+
+const roundAmount = (value) => (typeof value === 'number' && isFinite(value) ? Math.round(value * 100) / 100 : null);
+
+/**
+ * Taxable amount, GST and total of each line of an order, from its pricing snapshot
+ *
+ * @param {Object} order - Order (document or lean)
+ * @returns {Array<Object>} { taxableAmount, gstPercentage, gstAmount, total } per line of getOrderLines(order)
+ *                          (nulls for orders placed before pricing snapshots)
+ */
+export const getLinePricing = (order) => {
+    const breakdown = order.pricingSnapshot?.breakdown;
+    if (!breakdown) {
+        return getOrderLines(order).map((line) => ({
+            taxableAmount: null,
+            gstPercentage: null,
+            gstAmount: null,
+            total: line === order ? order.totalPrice : line.lineTotal ?? null,
+        }));
+    }
+    if (Array.isArray(breakdown.lines)) {
+        return breakdown.lines.map((line) => ({
+            taxableAmount: line.taxableAmount,
+            gstPercentage: line.gstPercentage,
+            gstAmount: line.gstAmount,
+            total: line.lineTotal,
+        }));
+    }
+    // Single-product order: the line is everything except shipping (and the GST on it)
+    const gstAmount = (breakdown.subtotalWithDesignCharge * (breakdown.gstPercentage || 0)) / 100;
+    return [{
+        taxableAmount: breakdown.subtotalWithDesignCharge,
+        gstPercentage: breakdown.gstPercentage,
+        gstAmount,
+        total: breakdown.subtotalWithDesignCharge + gstAmount,
+    }];
+};
+
+/**
+ * Export rows of one order, one per line
+ *
+ * @param {Object} order - Lean order with user, product, items.product and currentDepartment populated
+ * @returns {Array<Object>} Rows keyed by ORDER_EXPORT_COLUMNS keys
+ */
+export const buildOrderExportRows = (order) => {
+    const lines = getOrderLines(order);
+    const linePricing = getLinePricing(order);
+    const shipmentQuantities = getShipmentQuantities(order);
+    const shipments = order.shipments || [];
+    const gstSplit = order.gstSplit || null;
+    const breakdown = order.pricingSnapshot?.breakdown;
+
+    const trackingIds = shipments.length > 0
+        ? shipments.map((shipment) => shipment.trackingId).filter(Boolean).join(' | ')
+        : order.trackingId || '';
+    const courierPartners = shipments.length > 0
+        ? Array.from(new Set(shipments.map((shipment) => shipment.courierPartner).filter(Boolean))).join(' | ')
+        : order.courierPartner || '';
+
+    return lines.map((line, index) => ({
+        orderNumber: order.orderNumber,
+        orderDate: order.createdAt,
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        customerName: order.user?.name || '',
+        customerEmail: order.user?.email || '',
+        mobileNumber: order.mobileNumber || '',
+        address: order.address || '',
+        pincode: order.pincode || '',
+        placeOfSupply: gstSplit?.placeOfSupply || '',
+        lineNumber: index + 1,
+        product: line.product?.name || '',
+        quantity: line.quantity,
+        lineTaxableAmount: roundAmount(linePricing[index]?.taxableAmount),
+        lineGstPercentage: linePricing[index]?.gstPercentage ?? null,
+        lineGstAmount: roundAmount(linePricing[index]?.gstAmount),
+        lineTotal: roundAmount(linePricing[index]?.total),
+        couponCode: order.coupon?.code || '',
+        couponDiscount: roundAmount(order.coupon?.discountAmount ?? breakdown?.couponDiscount),
+        shippingCharge: roundAmount(order.shippingCharge),
+        cgstAmount: roundAmount(gstSplit?.cgstAmount),
+        sgstAmount: roundAmount(gstSplit?.sgstAmount),
+        igstAmount: roundAmount(gstSplit?.igstAmount),
+        orderGstAmount: roundAmount(breakdown?.gstAmount),
+        orderTotal: roundAmount(order.totalPrice),
+        advancePaid: roundAmount(order.advancePaid),
+        invoiceNumber: order.invoiceNumber || '',
+        deliveryDate: order.deliveryDate || null,
+        currentDepartment: (line === order ? order.currentDepartment : line.currentDepartment)?.name || '',
+        shippedQuantity: shipmentQuantities[index]?.shipped ?? 0,
+        deliveredQuantity: shipmentQuantities[index]?.delivered ?? 0,
+        courierPartner: courierPartners,
+        trackingIds,
+        dispatchedAt: order.dispatchedAt || null,
+        deliveredAt: order.deliveredAt || null,
+    }));
+};
+
+// A CSV field; text starting with a formula character is prefixed so spreadsheets don't evaluate it
+const toCsvField = (value) => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value !== 'string') return String(value);
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values) => `${values.map(toCsvField).join(',')}\r\n`;
+
+// Resolves once the response can take more data, or is closed (download cancelled)
+const waitForDrain = (res) =>
+    new Promise((resolve) => {
+        const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+    });
+
+/**
+ * Streams rows as CSV, waiting for the response to drain so only the current batch is held in memory
+ */
+export const createCsvOrderWriter = (res) => {
+    // BOM so Excel reads the file as UTF-8
+    res.write('\uFEFF' + toCsvLine(ORDER_EXPORT_COLUMNS.map((column) => column.header)));
+
+    return {
+        addRows: async (rows) => {
+            const chunk = rows.map((row) => toCsvLine(ORDER_EXPORT_COLUMNS.map((column) => row[column.key]))).join('');
+            if (!res.write(chunk)) {
+                await waitForDrain(res);
+            }
+        },
+        finish: async () => {
+            res.end();
+        },
+    };
+};
+
+/**
+ * Streams rows as an XLSX workbook; each row is committed (written out) as soon as it is added
+ */
+export const createXlsxOrderWriter = (res) => {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+    const sheet = workbook.addWorksheet('Orders');
+    sheet.columns = ORDER_EXPORT_COLUMNS;
+
+    return {
+        addRows: async (rows) => {
+            rows.forEach((row) => sheet.addRow(row).commit());
+            if (res.writableNeedDrain) {
+                await waitForDrain(res);
+            }
+        },
+        finish: async () => {
+            sheet.commit();
+            await workbook.commit();
+        },
+    };
+};
@@ -0,0 +1,229 @@
+// Admin order filters
+// The orders view and the order export read the same query parameters, so an export holds exactly the orders on screen.
+// The view pages through the results with a cursor and shows facet counts for its filter chips.
+
+import mongoose from 'mongoose';
+import Order from '../models/orderModal.js';
+import { User } from '../models/User.js';
+import { ORDER_STATUSES } from '../../../shared/orderStatus.js';
+
+export const PAYMENT_STATUSES = ['pending', 'partial', 'completed'];
+
+// Customers a search can match before it has to be narrowed down
+const MAX_SEARCH_CUSTOMERS = 1000;
+
+const filterError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+const isValidId = (id) => /^[0-9a-fA-F]{24}$/.test(id);
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "a,b" or ["a", "b"] -> ["a", "b"]
+const toList = (value) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+
+const parseDate = (value, name) => {
+    const date = new Date(value);
+    if (isNaN(date)) {
+        throw filterError(`Invalid ${name} date`);
+    }
+    return date;
+};
+
+// Anchored, case-sensitive prefix match, which the order number and mobile number indexes can serve
+const startsWith = (text) => new RegExp(`^${escapeRegex(text)}`);
+
+// Start of an order number or mobile number, or the name/email of the customer
+const buildSearchCondition = async (search) => {
+    const text = String(search).trim();
+    const pattern = new RegExp(escapeRegex(text), 'i');
+    // Order numbers are upper case in the default formats, so "p24/" finds them too
+    const orderNumberPrefixes = Array.from(new Set([text, text.toUpperCase()]));
+    const conditions = [{ orderNumber: { $in: orderNumberPrefixes.map(startsWith) } }];
+
+    const digits = text.replace(/\D/g, '');
+    if (digits.length >= 3) {
+        conditions.push({ mobileNumber: startsWith(digits) });
+    }
+
+    const customers = await User.find({ $or: [{ name: pattern }, { email: pattern }] })
+        .select('_id')
+        .limit(MAX_SEARCH_CUSTOMERS)
+        .lean();
+    if (customers.length > 0) {
+        conditions.push({ user: { $in: customers.map((customer) => customer._id) } });
+    }
+
+    return { $or: conditions };
+};
+
+/**
+ * One condition per filter in the query, keyed by filter name, so facets can leave their own filter out
+ * A date-only "to" covers that whole day.
+ *
+ * @param {Object} query - search, from, to (order date), status and paymentStatus (comma-separated), product, department
+ * @returns {Promise<Object>} { [filterName]: Mongo condition }
+ * @throws Error with statusCode 400 for an invalid value
+ */
+const buildFilterConditions = async ({ search, from, to, status, paymentStatus, product, department } = {}) => {
+    const conditions = {};
+
+    if (from || to) {
+        const createdAt = {};
+        if (from) createdAt.$gte = parseDate(from, '"from"');
+        if (to) {
+            const toDate = parseDate(to, '"to"');
+            if (/^\d{4}-\d{2}-\d{2}$/.test(String(to))) {
+                toDate.setUTCHours(23, 59, 59, 999);
+            }
+            createdAt.$lte = toDate;
+        }
+        conditions.createdAt = { createdAt };
+    }
+
+    if (status) {
+        const statuses = toList(status);
+        const invalid = statuses.filter((value) => !ORDER_STATUSES.includes(value));
+        if (invalid.length > 0) {
+            throw filterError(`Invalid status: ${invalid.join(', ')}`);
+        }
+        conditions.status = { status: { $in: statuses } };
+    }
+
+    if (paymentStatus) {
+        const paymentStatuses = toList(paymentStatus);
+        const invalid = paymentStatuses.filter((value) => !PAYMENT_STATUSES.includes(value));
+        if (invalid.length > 0) {
+            throw filterError(`Invalid payment status: ${invalid.join(', ')}`);
+        }
+        conditions.paymentStatus = { paymentStatus: { $in: paymentStatuses } };
+    }
+
+    // Single-product orders carry the product on the order, cart orders on their lines
+    if (product) {
+        if (!isValidId(product)) {
+            throw filterError('Invalid product ID format.');
+        }
+        const productId = new mongoose.Types.ObjectId(product);
+        conditions.product = { $or: [{ product: productId }, { 'items.product': productId }] };
+    }
+
+    // Orders the department has worked on or been sent
+    if (department) {
+        if (!isValidId(department)) {
+            throw filterError('Invalid department ID format.');
+        }
+        const departmentId = new mongoose.Types.ObjectId(department);
+        conditions.department = {
+            $or: [
+                { 'departmentStatuses.department': departmentId },
+                { 'items.departmentStatuses.department': departmentId },
+            ],
+        };
+    }
+
+    if (search && String(search).trim()) {
+        conditions.search = await buildSearchCondition(search);
+    }
+
+    return conditions;
+};
+
+// All conditions but the omitted one as a single filter
+const combineConditions = (conditions, omit = null) => {
+    const list = Object.entries(conditions)
+        .filter(([name]) => name !== omit)
+        .map(([, condition]) => condition);
+    if (list.length === 0) return {};
+    return list.length === 1 ? list[0] : { $and: list };
+};
+
+/**
+ * Mongo filter for the admin orders view from its query parameters
+ *
+ * @param {Object} query - See buildFilterConditions
+ * @returns {Promise<Object>} Filter for Order.find
+ * @throws Error with statusCode 400 for an invalid value
+ */
+export const buildAdminOrderFilter = async (query) => combineConditions(await buildFilterConditions(query));
+
+// Opaque cursor of the last order on a page (orders are sorted newest first, ties by _id)
+export const encodeOrderCursor = (order) =>
+    Buffer.from(`${order.createdAt.toISOString()}_${order._id}`).toString('base64url');
+
+/**
+ * Condition for the orders after a cursor
+ *
+ * @param {string} cursor - From encodeOrderCursor
+ * @returns {Object} Mongo condition
+ * @throws Error with statusCode 400 for a malformed cursor
+ */
+export const buildOrderCursorCondition = (cursor) => {
+    const [createdAtText, id] = Buffer.from(String(cursor), 'base64url').toString().split('_');
+    const createdAt = new Date(createdAtText);
+    if (isNaN(createdAt) || !isValidId(id || '')) {
+        throw filterError('Invalid cursor');
+    }
+    const orderId = new mongoose.Types.ObjectId(id);
+    return { $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: orderId } }] };
+};
+
+const countBy = (rows) => Object.fromEntries(rows.filter((row) => row._id).map((row) => [row._id.toString(), row.count]));
+
+/**
+ * Order counts for the filter chips, each facet counted with every other filter applied (but not its own)
+ *
+ * @param {Object} query - See buildFilterConditions
+ * @returns {Promise<{ total: number, status: Object, paymentStatus: Object, department: Object }>}
+ *          Counts keyed by status, payment status and department id
+ */
+export const getAdminOrderFacets = async (query) => {
+    const conditions = await buildFilterConditions(query);
+
+    const [total, statusCounts, paymentStatusCounts, departmentCounts] = await Promise.all([
+        Order.countDocuments(combineConditions(conditions)),
+        Order.aggregate([
+            { $match: combineConditions(conditions, 'status') },
+            { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]),
+        Order.aggregate([
+            { $match: combineConditions(conditions, 'paymentStatus') },
+            { $group: { _id: '$paymentStatus', count: { $sum: 1 } } },
+        ]),
+        // An order counts once per department it (or any of its lines) has been sent to
+        Order.aggregate([
+            { $match: combineConditions(conditions, 'department') },
+            {
+                $project: {
+                    departments: {
+                        $setUnion: [
+                            { $ifNull: ['$departmentStatuses.department', []] },
+                            {
+                                $reduce: {
+                                    input: { $ifNull: ['$items', []] },
+                                    initialValue: [],
+                                    in: { $setUnion: ['$$value', { $ifNull: ['$$this.departmentStatuses.department', []] }] },
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+            { $unwind: '$departments' },
+            { $group: { _id: '$departments', count: { $sum: 1 } } },
+        ]),
+    ]);
+
+    return {
+        total,
+        status: countBy(statusCounts),
+        paymentStatus: countBy(paymentStatusCounts),
+        department: countBy(departmentCounts),
+    };
+};
@@ -0,0 +1,333 @@
+// Server-side pricing for quotes and orders
+// Uses the shared pricing engine so server totals always match what the client shows.
+
+import Product from '../models/productModal.js';
+import { findApplicableCoupon, couponAppliesToProduct, toOrderCoupon } from './couponHelper.js';
+import { findPriceListForUser } from './priceListHelper.js';
+import { findDeliveryZoneForPincode } from './deliveryZoneHelper.js';
+import { getSellerState } from '../config/tax.js';
+import {
+    calculateOrderBreakdown,
+    calculateCartBreakdown,
+    resolveSelectedOptions,
+    resolveDynamicAttributes,
+    roundCurrency,
+    pricesMatch,
+    validateCustomSize,
+} from '../../../shared/pricing.js';
+import { normalizeStateCode } from '../../../shared/gst.js';
+
+const pricingError = (message, statusCode = 400, extra = {}) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    Object.assign(error, extra);
+    return error;
+};
+
+/**
+ * Build an authoritative quote for a product configuration
+ *
+ * @param {Object} input - productId, quantity, finish, shape, textureType, selectedOptions, selectedDynamicAttributes,
+ *                         couponCode and userId (optional, for the per-user coupon limit and contract price list),
+ *                         pincode (optional, needed for the CGST/SGST/IGST split and the delivery zone's shipping),
+ *                         deliveryState (optional state of the shipping address, used when the pincode can't be placed),
+ *                         customSize (optional { width, height } for products that allow custom sizes)
+ * @returns {Promise<Object>} { product, selectedOptions, selectedDynamicAttributes, priceList, deliveryZone, coupon, orderCoupon,
+ *                             breakdown, pricingSnapshot, totalPrice }
+ */
+export const buildOrderQuote = async (input) => {
+    const { pincode } = input;
+    const deliveryState = resolveDeliveryState(input.deliveryState);
+    const line = await resolveQuoteLine(input);
+    const { product, quantity, selectedOptions, selectedDynamicAttributes, priceList } = line;
+
+    // Shipping and minimum order value come from the zone covering the delivery pincode
+    const deliveryZone = await findDeliveryZoneForPincode(pincode);
+
+    const coupon = input.couponCode
+        ? await findApplicableCoupon(input.couponCode, { product, userId: input.userId })
+        : null;
+
+    const pricingInputs = {
+        ...line.pricingInputs,
+        coupon,
+        deliveryZone,
+        pincode,
+        deliveryState,
+        sellerStateCode: getSellerState()?.code,
+    };
+    const breakdown = calculateOrderBreakdown({ ...pricingInputs, product });
+
+    if (coupon && breakdown.subtotalAfterDiscount < (coupon.minOrderValue || 0)) {
+        throw pricingError(`A minimum order value of ₹${coupon.minOrderValue} is required to use coupon ${coupon.code}`);
+    }
+
+    return {
+        product,
+        quantity,
+        selectedOptions,
+        selectedDynamicAttributes,
+        priceList,
+        deliveryZone,
+        coupon,
+        orderCoupon: coupon ? toOrderCoupon(coupon, breakdown.couponDiscount) : null,
+        breakdown,
+        pricingSnapshot: buildPricingSnapshot(product, pricingInputs, breakdown),
+        totalPrice: roundCurrency(breakdown.finalTotal),
+    };
+};
+
+/**
+ * Validate the state a customer chose for their shipping address
+ * It only decides the place of supply for pincodes the PIN table can't place; without one such an order is still
+ * priced, just with no GST split.
+ *
+ * @param {string} [deliveryState] - GST state code or name
+ * @returns {string|null} Two-digit GST state code
+ */
+export const resolveDeliveryState = (deliveryState) => {
+    if (deliveryState === undefined || deliveryState === null || deliveryState === '') return null;
+    const code = normalizeStateCode(deliveryState);
+    if (!code) {
+        throw pricingError(`Unknown delivery state: ${deliveryState}`);
+    }
+    return code;
+};
+
+/**
+ * Resolve one product configuration against the product (prices always come from the database)
+ *
+ * @param {Object} input - productId, quantity, finish, shape, textureType, selectedOptions, selectedDynamicAttributes,
+ *                         customSize and userId (see buildOrderQuote)
+ * @returns {Promise<Object>} { product, quantity, selectedOptions, selectedDynamicAttributes, priceList, pricingInputs }
+ *                            pricingInputs are the calculateOrderBreakdown inputs for the line (without the product)
+ */
+const resolveQuoteLine = async (input) => {
+    const { productId, finish, shape, textureType } = input;
+    const quantity = parseInt(input.quantity);
+
+    if (!productId) {
+        throw pricingError('productId is required');
+    }
+    if (!/^[0-9a-fA-F]{24}$/.test(String(productId))) {
+        throw pricingError('Invalid product ID format.');
+    }
+    if (!quantity || quantity <= 0) {
+        throw pricingError('Quantity must be a positive number');
+    }
+
+    const product = await Product.findById(productId)
+        .populate({
+            path: 'dynamicAttributes.attributeType',
+            model: 'AttributeType',
+        })
+        .lean();
+
+    if (!product) {
+        throw pricingError('Product not found', 404);
+    }
+
+    const { options: selectedOptions, unknown } = resolveSelectedOptions(product, input.selectedOptions);
+    if (unknown.length > 0) {
+        throw pricingError(`Unknown product option(s): ${unknown.join(', ')}`);
+    }
+
+    const selectedDynamicAttributes = resolveDynamicAttributes(product, input.selectedDynamicAttributes);
+
+    let customSize = null;
+    if (input.customSize) {
+        const sizeError = validateCustomSize(product.customSize, input.customSize, quantity);
+        if (sizeError) {
+            throw pricingError(sizeError);
+        }
+        customSize = { width: parseFloat(input.customSize.width), height: parseFloat(input.customSize.height) };
+    }
+
+    // Logged-in customers on a contract get their negotiated prices automatically
+    const priceList = await findPriceListForUser(input.userId, product._id);
+
+    return {
+        product,
+        quantity,
+        selectedOptions,
+        selectedDynamicAttributes,
+        priceList,
+        pricingInputs: {
+            quantity,
+            finish,
+            shape,
+            textureType,
+            selectedOptions,
+            selectedDynamicAttributes,
+            priceList,
+            customSize,
+        },
+    };
+};
+
+/**
+ * Build an authoritative quote for a multi-line (cart) order
+ * The coupon must apply to at least one line and only discounts the lines it applies to.
+ *
+ * @param {Object} input - items (each a buildOrderQuote product configuration), couponCode, pincode, deliveryState, userId
+ * @returns {Promise<Object>} { lines, deliveryZone, coupon, orderCoupon, breakdown, pricingSnapshot, totalPrice }
+ *                            Each line: { product, quantity, selectedOptions, selectedDynamicAttributes, priceList,
+ *                            pricingInputs, couponEligible, lineTotal }
+ */
+export const buildCartQuote = async (input) => {
+    const { pincode, userId } = input;
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+        throw pricingError('Your cart is empty');
+    }
+    const deliveryState = resolveDeliveryState(input.deliveryState);
+
+    const lines = [];
+    for (const item of input.items) {
+        lines.push(await resolveQuoteLine({ ...item, userId }));
+    }
+
+    const deliveryZone = await findDeliveryZoneForPincode(pincode);
+
+    let coupon = null;
+    if (input.couponCode) {
+        coupon = await findApplicableCoupon(input.couponCode, { userId });
+        for (const line of lines) {
+            line.couponEligible = await couponAppliesToProduct(coupon, line.product);
+        }
+        if (!lines.some((line) => line.couponEligible)) {
+            throw pricingError('This coupon is not valid for the products in your cart');
+        }
+    }
+
+    const cartInputs = {
+        coupon,
+        deliveryZone,
+        pincode,
+        deliveryState,
+        sellerStateCode: getSellerState()?.code,
+    };
+    const breakdown = calculateCartBreakdown({
+        ...cartInputs,
+        lines: lines.map((line) => ({
+            ...line.pricingInputs,
+            product: line.product,
+            couponEligible: line.couponEligible !== false,
+        })),
+    });
+
+    const eligibleSubtotal = breakdown.lines
+        .filter((_, i) => lines[i].couponEligible !== false)
+        .reduce((sum, line) => sum + line.breakdown.subtotalAfterDiscount, 0);
+    if (coupon && eligibleSubtotal < (coupon.minOrderValue || 0)) {
+        throw pricingError(`A minimum order value of ₹${coupon.minOrderValue} is required to use coupon ${coupon.code}`);
+    }
+
+    breakdown.lines.forEach((lineBreakdown, i) => {
+        lines[i].lineTotal = roundCurrency(lineBreakdown.lineTotal);
+    });
+
+    return {
+        lines,
+        deliveryZone,
+        coupon,
+        orderCoupon: coupon ? toOrderCoupon(coupon, breakdown.couponDiscount) : null,
+        breakdown,
+        pricingSnapshot: buildCartPricingSnapshot(lines, cartInputs, breakdown),
+        totalPrice: roundCurrency(breakdown.finalTotal),
+    };
+};
+
+/**
+ * Everything an order was priced with, stored on the order so it can be shown (and re-calculated)
+ * exactly as the customer saw it, whatever happens to the product's prices later.
+ * inputs + inputs.product is a complete argument for calculateOrderBreakdown.
+ */
+const buildPricingSnapshot = (product, pricingInputs, breakdown) => ({
+    capturedAt: new Date(),
+    productPriceVersion: product.priceVersion ?? null,
+    inputs: {
+        ...pricingInputs,
+        product: toSnapshotProduct(product),
+        coupon: toSnapshotCoupon(pricingInputs.coupon),
+    },
+    breakdown,
+});
+
+/**
+ * Pricing snapshot of a multi-line order
+ * inputs is a complete argument for calculateCartBreakdown; each line records its product's price version.
+ */
+const buildCartPricingSnapshot = (lines, cartInputs, breakdown) => ({
+    capturedAt: new Date(),
+    inputs: {
+        ...cartInputs,
+        coupon: toSnapshotCoupon(cartInputs.coupon),
+        lines: lines.map((line) => ({
+            ...line.pricingInputs,
+            product: toSnapshotProduct(line.product),
+            productPriceVersion: line.product.priceVersion ?? null,
+            couponEligible: line.couponEligible !== false,
+        })),
+    },
+    breakdown,
+});
+
+// Product prices the engine needs to re-calculate an order
+const toSnapshotProduct = (product) => ({
+    _id: product._id,
+    name: product.name,
+    basePrice: product.basePrice,
+    filters: product.filters || null,
+    quantityDiscounts: product.quantityDiscounts || [],
+    additionalDesignCharge: product.additionalDesignCharge,
+    gstPercentage: product.gstPercentage,
+    shippingWeightPer1000: product.shippingWeightPer1000 || 0,
+    customSize: product.customSize || null,
+});
+
+const toSnapshotCoupon = (coupon) => coupon
+    ? {
+        code: coupon.code,
+        discountType: coupon.discountType,
+        discountValue: coupon.discountValue,
+        maxDiscountAmount: coupon.maxDiscountAmount ?? null,
+        minOrderValue: coupon.minOrderValue || 0,
+    }
+    : null;
+
+/**
+ * Reject a client-sent total that doesn't match the server quote
+ * The client total is optional - when omitted the server price is used as-is.
+ *
+ * @param {Object} quote - Result of buildOrderQuote or buildCartQuote
+ * @param {number|string|undefined} clientTotal - totalPrice sent by the client
+ */
+export const assertClientTotalMatches = (quote, clientTotal) => {
+    if (clientTotal === undefined || clientTotal === null || clientTotal === '') {
+        return;
+    }
+    if (!pricesMatch(parseFloat(clientTotal), quote.totalPrice)) {
+        throw pricingError(
+            'Price mismatch. The order total has changed, please review the updated price and try again.',
+            409,
+            { expectedTotal: quote.totalPrice, breakdown: quote.breakdown }
+        );
+    }
+};
+
+/**
+ * Reject an order below the delivery zone's minimum order value
+ * Quotes are still returned below the minimum so the customer can see how much more is needed.
+ *
+ * @param {Object} quote - Result of buildOrderQuote or buildCartQuote
+ */
+export const assertMinimumOrderValue = (quote) => {
+    const minOrderValue = quote.deliveryZone?.minOrderValue || 0;
+    if (minOrderValue > 0 && quote.breakdown.subtotalWithDesignCharge < minOrderValue) {
+        throw pricingError(
+            `A minimum order value of ₹${minOrderValue} is required for delivery to ${quote.deliveryZone.name}`,
+            400,
+            { breakdown: quote.breakdown }
+        );
+    }
+};
@@ -0,0 +1,56 @@
+// Order status changes
+// Every change goes through the shared state machine and is recorded in the order's status history.
+
+import {
+    ORDER_STATUSES,
+    REASON_REQUIRED_STATUSES,
+    ORDER_STATUS_LABELS,
+    isTransitionDefined,
+    canTransitionOrderStatus,
+} from '../../../shared/orderStatus.js';
+
+const statusError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+/**
+ * Move an order to a new status (the caller saves the order)
+ *
+ * @param {Object} order - Order document
+ * @param {string} toStatus - One of ORDER_STATUSES
+ * @param {Object} options - actor (User document or { _id, role }), reason (optional)
+ * @returns {boolean} false when the order already has the status
+ * @throws Error with statusCode 400 for an illegal change or missing reason, 403 when the actor's role may not make it
+ */
+export const transitionOrderStatus = (order, toStatus, { actor, reason } = {}) => {
+    const fromStatus = order.status;
+    if (fromStatus === toStatus) return false;
+
+    if (!ORDER_STATUSES.includes(toStatus)) {
+        throw statusError('Invalid status');
+    }
+    if (!isTransitionDefined(fromStatus, toStatus)) {
+        throw statusError(
+            `Cannot change order status from "${ORDER_STATUS_LABELS[fromStatus] || fromStatus}" to "${ORDER_STATUS_LABELS[toStatus]}"`
+        );
+    }
+    if (!canTransitionOrderStatus(fromStatus, toStatus, actor?.role)) {
+        throw statusError(`You are not allowed to change this order to "${ORDER_STATUS_LABELS[toStatus]}"`, 403);
+    }
+    if (REASON_REQUIRED_STATUSES.includes(toStatus) && !reason?.trim()) {
+        throw statusError(`A reason is required to change an order to "${ORDER_STATUS_LABELS[toStatus]}"`);
+    }
+
+    order.status = toStatus;
+    order.statusHistory.push({
+        fromStatus,
+        toStatus,
+        actor: actor?._id || null,
+        actorRole: actor?.role || null,
+        reason: reason?.trim() || '',
+        changedAt: new Date(),
+    });
+    return true;
+};
@@ -0,0 +1,164 @@
+// Admin order updates
+// The single-order update and the bulk operations of the orders tab share these, so both validate the same way.
+
+import Order from '../models/orderModal.js';
+import { transitionOrderStatus } from './orderStatusHelper.js';
+import {
+    sendOrderLinesToFirstDepartments,
+    sendOrderToFirstDepartment,
+    reassignOrderDepartment,
+} from './orderDepartmentHelper.js';
+import { releaseCoupon, RELEASED_ORDER_STATUSES } from './couponHelper.js';
+import { PAYMENT_STATUSES } from './orderFilterHelper.js';
+import { issueInvoiceIfDue } from './invoiceHelper.js';
+import { cancelOrderWithRefund } from './cancellationHelper.js';
+
+// Orders one bulk request can change
+export const MAX_BULK_ORDERS = 100;
+
+export const BULK_ORDER_OPERATIONS = ['approve', 'status', 'reassign_department', 'delivery_date', 'cancel'];
+
+const updateError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+/**
+ * Change an order's status, delivery date, admin notes or recorded payment and save it
+ * An order that becomes "approved" is sent to the first department of its sequence (it stays "approved" until
+ * the first department starts). A cancellation goes through cancelOrderWithRefund, so it gets the refund and credit
+ * note of a customer cancellation; a cancelled or rejected order gives its coupon use back. An order the admin
+ * records as fully paid is invoiced when INVOICE_TRIGGER is "payment" - this is the only place payments are
+ * recorded, customers can't mark their own orders as paid.
+ *
+ * @param {Object} order - Order document
+ * @param {Object} input - status, action ('start_production'), deliveryDate, adminNotes, reason, paymentStatus, advancePaid
+ * @param {Object} actor - Admin making the change (User document)
+ * @returns {Promise<string>} The status the order had before
+ * @throws Error with statusCode 400/403/404 for a change that isn't allowed
+ */
+export const applyAdminOrderUpdate = async (order, { status, action, deliveryDate, adminNotes, reason, paymentStatus, advancePaid }, actor) => {
+    // Special action: start_production (production_ready -> approved)
+    if (action === 'start_production') {
+        if (order.status !== 'production_ready') {
+            throw updateError(`Cannot start production. Order must be in "production_ready" status. Current status: ${order.status}`);
+        }
+        status = 'approved';
+    }
+    if (deliveryDate && isNaN(new Date(deliveryDate))) {
+        throw updateError('Invalid delivery date');
+    }
+    if (paymentStatus !== undefined && !PAYMENT_STATUSES.includes(paymentStatus)) {
+        throw updateError(`Invalid payment status. Allowed: ${PAYMENT_STATUSES.join(', ')}`);
+    }
+    const paidAmount = advancePaid === undefined || advancePaid === '' ? undefined : Number(advancePaid);
+    if (paidAmount !== undefined && !(Number.isFinite(paidAmount) && paidAmount >= 0)) {
+        throw updateError('Amount paid must be a number of 0 or more');
+    }
+
+    // The state machine decides whether the admin may make this change
+    const previousStatus = order.status;
+    const previousPaymentStatus = order.paymentStatus;
+    const cancelling = status === 'cancelled';
+    if (status && !cancelling) {
+        transitionOrderStatus(order, status, { actor, reason });
+    }
+    if (deliveryDate) order.deliveryDate = new Date(deliveryDate);
+    if (adminNotes !== undefined) order.adminNotes = adminNotes;
+    if (paymentStatus !== undefined) order.paymentStatus = paymentStatus;
+    if (paidAmount !== undefined) order.advancePaid = paidAmount;
+
+    // If admin approves order (request -> approved) or starts production (production_ready -> approved), send to first department
+    if (previousStatus !== 'approved' && order.status === 'approved') {
+        const dispatch = { operator: actor?._id || null, notes: 'Request sent to department by admin approval' };
+        if (order.items.length > 0) {
+            // Cart order: every line goes to the first department of its own product's sequence
+            await sendOrderLinesToFirstDepartments(order, dispatch);
+        } else {
+            await sendOrderToFirstDepartment(order, dispatch);
+        }
+    }
+
+    if (cancelling) {
+        // Refunds under the cancellation rules and releases the coupon in one transaction with the save
+        await cancelOrderWithRefund(order, { actor, reason: reason || 'Cancelled by admin' });
+    } else {
+        await order.save();
+    }
+
+    // A rejected order gives its coupon use back (cancelOrderWithRefund already released it for a cancellation)
+    if (!cancelling &&
+        order.coupon?.couponId &&
+        RELEASED_ORDER_STATUSES.includes(order.status) &&
+        !RELEASED_ORDER_STATUSES.includes(previousStatus)) {
+        await releaseCoupon(order.coupon.couponId, { userId: order.user });
+    }
+
+    if (previousPaymentStatus !== 'completed' && order.paymentStatus === 'completed') {
+        await issueInvoiceIfDue(order, 'payment');
+    }
+
+    return previousStatus;
+};
+
+// One order of a bulk operation
+const applyBulkOperation = async (order, operation, input, actor) => {
+    switch (operation) {
+        case 'approve':
+            return applyAdminOrderUpdate(order, { status: 'approved' }, actor);
+        case 'status':
+            return applyAdminOrderUpdate(order, { status: input.status, reason: input.reason }, actor);
+        case 'delivery_date':
+            return applyAdminOrderUpdate(order, { deliveryDate: input.deliveryDate }, actor);
+        case 'cancel':
+            return applyAdminOrderUpdate(order, { status: 'cancelled', reason: input.reason || 'Cancelled by admin' }, actor);
+        case 'reassign_department':
+            await reassignOrderDepartment(order, input.departmentId, { operator: actor?._id || null });
+            await order.save();
+            return order.status;
+        default:
+            throw updateError(`Invalid operation. Allowed: ${BULK_ORDER_OPERATIONS.join(', ')}`);
+    }
+};
+
+/**
+ * Run one operation on many orders, each validated and saved on its own
+ * One order failing doesn't stop the others.
+ *
+ * @param {Array<string>} orderIds
+ * @param {string} operation - One of BULK_ORDER_OPERATIONS
+ * @param {Object} input - status, reason, deliveryDate or departmentId, as the operation needs
+ * @param {Object} actor - Admin making the change (User document)
+ * @returns {Promise<Array<{ orderId: string, orderNumber: string|null, success: boolean, previousStatus?: string, status?: string, error?: string }>>}
+ */
+export const runBulkOrderOperation = async (orderIds, operation, input, actor) => {
+    const results = [];
+
+    // One at a time: approvals and reassignments read the product sequences and departments for each order
+    for (const orderId of orderIds) {
+        const result = { orderId, orderNumber: null, success: false };
+        try {
+            if (!/^[0-9a-fA-F]{24}$/.test(orderId)) {
+                throw updateError('Invalid order ID format.');
+            }
+            const order = await Order.findById(orderId);
+            if (!order) {
+                throw updateError('Order not found', 404);
+            }
+            result.orderNumber = order.orderNumber;
+
+            result.previousStatus = await applyBulkOperation(order, operation, input, actor);
+            result.status = order.status;
+            result.success = true;
+        } catch (err) {
+            if (!err.statusCode) {
+                console.log('BULK ORDER UPDATE ERROR ===>', orderId, err);
+            }
+            result.error = err.statusCode ? err.message : 'Failed to update order';
+        }
+        results.push(result);
+    }
+
+    return results;
+};
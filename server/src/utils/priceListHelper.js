@@ -0,0 +1,57 @@
+// Contract price list lookup
+// The shared pricing engine applies the overrides; this only picks the list for a customer and product.
+
+import PriceList from '../models/priceListModal.js';
+
+/**
+ * Price list overrides in the shape the pricing engine and Order.priceList expect
+ *
+ * @param {Object} priceList - PriceList document
+ * @param {Object} entry - The list's entry for one product
+ */
+export const toOrderPriceList = (priceList, entry) => ({
+    priceListId: priceList._id,
+    name: priceList.name,
+    basePrice: entry.basePrice ?? null,
+    rangeWiseQuantities: (entry.rangeWiseQuantities || []).map((range) => ({
+        min: range.min,
+        max: range.max ?? null,
+        priceMultiplier: range.priceMultiplier,
+    })),
+    attributeValuePrices: (entry.attributeValuePrices || []).map((override) => ({
+        attributeTypeId: override.attributeType.toString(),
+        attributeValue: override.attributeValue,
+        priceAdd: override.priceAdd,
+        pricingMode: override.pricingMode,
+    })),
+});
+
+/**
+ * Find the contract price list that applies to a customer for a product
+ * When several active lists match, the highest priority (then most recently updated) wins.
+ *
+ * @param {string|ObjectId} userId
+ * @param {string|ObjectId} productId
+ * @returns {Promise<Object|null>} Price list overrides (see toOrderPriceList), or null
+ */
+export const findPriceListForUser = async (userId, productId) => {
+    if (!userId || !productId) return null;
+
+    const now = new Date();
+    const priceList = await PriceList.findOne({
+        users: userId,
+        isActive: true,
+        'products.product': productId,
+        $and: [
+            { $or: [{ validFrom: null }, { validFrom: { $lte: now } }] },
+            { $or: [{ validUntil: null }, { validUntil: { $gte: now } }] },
+        ],
+    })
+        .sort({ priority: -1, updatedAt: -1 })
+        .lean();
+
+    if (!priceList) return null;
+
+    const entry = priceList.products.find((p) => p.product.toString() === productId.toString());
+    return entry ? toOrderPriceList(priceList, entry) : null;
+};
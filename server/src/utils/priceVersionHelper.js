@@ -0,0 +1,165 @@
+// Product price history
+// Every change to a product's pricing fields, or to the prices of an attribute type it uses, closes the current
+// version and starts a new one.
+
+import Product from '../models/productModal.js';
+import ProductPriceVersion from '../models/productPriceVersionModal.js';
+
+// Product fields that affect the price of an order
+export const PRICING_FIELDS = [
+    'basePrice',
+    'options',
+    'filters',
+    'dynamicAttributes',
+    'quantityDiscounts',
+    'additionalDesignCharge',
+    'gstPercentage',
+    'shippingWeightPer1000',
+    'customSize',
+];
+
+/**
+ * Plain copy of a product's pricing fields
+ * Subdocument ids are dropped and populated attribute types reduced to their id, so two copies
+ * of the same prices compare equal whether or not the product was populated.
+ *
+ * @param {Object} product - Product document or lean object
+ * @returns {Object}
+ */
+export const extractPricing = (product) => {
+    const source = typeof product.toObject === 'function' ? product.toObject() : product;
+    const pricing = {};
+    PRICING_FIELDS.forEach((field) => {
+        let value = source[field];
+        if (field === 'dynamicAttributes' && Array.isArray(value)) {
+            value = value.map((attr) => ({
+                ...attr,
+                attributeType: attr.attributeType?._id || attr.attributeType,
+            }));
+        }
+        pricing[field] = value === undefined
+            ? null
+            : JSON.parse(JSON.stringify(value, (key, v) => (key === '_id' ? undefined : v)));
+    });
+    return pricing;
+};
+
+/**
+ * Close a product's current price version and start the next one
+ * The version number is taken by incrementing Product.priceVersion, so two changes at once can't get the same
+ * number. A product that has no history yet also gets the prices it had before as the version before it.
+ *
+ * @param {Object} product - Product after the change
+ * @param {Object|null} previousPricing - extractPricing() of the product before the change (null for a new product)
+ * @param {Array<string>} changedFields - What changed
+ * @param {string|ObjectId} changedBy - Admin making the change
+ * @param {ClientSession} [session] - Transaction the change to the product is written in
+ * @returns {Promise<Object>} New version
+ */
+const startPriceVersion = async (product, previousPricing, changedFields, changedBy, session) => {
+    const now = new Date();
+    // A new product starts at the version it was created with
+    let nextVersion = product.priceVersion || 1;
+    if (previousPricing) {
+        const allocated = await Product.findOneAndUpdate(
+            { _id: product._id },
+            { $inc: { priceVersion: 1 } },
+            { new: true, projection: { priceVersion: 1 }, session }
+        );
+        nextVersion = allocated.priceVersion;
+
+        const closed = await ProductPriceVersion.updateMany(
+            { product: product._id, effectiveTo: null, version: { $lt: nextVersion } },
+            { effectiveTo: now },
+            { session }
+        );
+        if (closed.matchedCount === 0 && !(await ProductPriceVersion.exists({ product: product._id }).session(session || null))) {
+            // Product created before price history existed - keep the prices it had until now
+            await ProductPriceVersion.create([{
+                product: product._id,
+                version: nextVersion - 1,
+                effectiveFrom: product.createdAt || now,
+                effectiveTo: now,
+                pricing: previousPricing,
+            }], { session });
+        }
+    }
+
+    const [version] = await ProductPriceVersion.create([{
+        product: product._id,
+        version: nextVersion,
+        effectiveFrom: now,
+        pricing: extractPricing(product),
+        changedFields,
+        changedBy,
+    }], { session });
+
+    return version;
+};
+
+/**
+ * Record a new price version when a product's pricing changed
+ * The first change of a product that has no history also stores the prices it had before.
+ *
+ * @param {Object} product - Product after the change
+ * @param {Object|null} previousPricing - extractPricing() of the product before the change (null for a new product)
+ * @param {string|ObjectId} changedBy - Admin making the change
+ * @param {Object} [options] - session: transaction the product change is written in
+ * @returns {Promise<Object|null>} New version, or null when no pricing field changed
+ */
+export const recordPriceVersion = async (product, previousPricing, changedBy = null, { session } = {}) => {
+    const pricing = extractPricing(product);
+    const changedFields = previousPricing
+        ? PRICING_FIELDS.filter((field) => JSON.stringify(pricing[field]) !== JSON.stringify(previousPricing[field]))
+        : [];
+    if (previousPricing && changedFields.length === 0) {
+        return null;
+    }
+
+    return startPriceVersion(product, previousPricing, changedFields, changedBy, session);
+};
+
+/**
+ * Plain copy of the fields of an attribute type that affect the price of the products using it
+ *
+ * @param {Object} attributeType - AttributeType document or lean object
+ * @returns {Object}
+ */
+export const extractAttributeTypePricing = (attributeType) => {
+    const priceOf = (value) => ({
+        value: value.value,
+        priceMultiplier: value.priceMultiplier ?? null,
+        priceAdd: value.priceAdd ?? null,
+        pricingMode: value.pricingMode || null,
+    });
+    return {
+        isPricingAttribute: Boolean(attributeType.isPricingAttribute),
+        attributeValues: (attributeType.attributeValues || []).map((value) => ({
+            ...priceOf(value),
+            subattributes: (value.subattributes || []).map(priceOf),
+        })),
+    };
+};
+
+/**
+ * Record a new price version of every product using an attribute type whose prices changed
+ * The products' own fields are unchanged, so their versions list "dynamicAttributes" as the changed field.
+ *
+ * @param {Object} attributeType - AttributeType after the change
+ * @param {Object} previousPricing - extractAttributeTypePricing() of the attribute type before the change
+ * @param {string|ObjectId} changedBy - Admin making the change
+ * @param {Object} [options] - session: transaction the attribute type change is written in
+ * @returns {Promise<number>} Number of products that got a new version
+ */
+export const recordAttributeTypePriceChange = async (attributeType, previousPricing, changedBy = null, { session } = {}) => {
+    if (JSON.stringify(extractAttributeTypePricing(attributeType)) === JSON.stringify(previousPricing)) {
+        return 0;
+    }
+
+    const products = await Product.find({ 'dynamicAttributes.attributeType': attributeType._id }).session(session || null);
+    // One at a time: a transaction runs one operation at a time
+    for (const product of products) {
+        await startPriceVersion(product, extractPricing(product), ['dynamicAttributes'], changedBy, session);
+    }
+    return products.length;
+};
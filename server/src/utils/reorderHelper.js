@@ -0,0 +1,107 @@
+// Repeat orders
+// A reorder repeats a past order's selections and design files, priced at today's rates.
+
+import Product from '../models/productModal.js';
+import { buildOrderQuote, buildCartQuote } from './orderPricingHelper.js';
+import { resolveSelectedOptions, findDynamicAttributeConflicts } from '../../../shared/pricing.js';
+
+/**
+ * Lines of a past order as product configurations (a single-product order has one line)
+ *
+ * @param {Object} order - Order as a plain object (toObject); the new order refers to the same design files
+ * @returns {Array<Object>} buildOrderQuote inputs plus uploadedDesign and notes
+ */
+export const getReorderLines = (order) => {
+    const lines = order.items?.length > 0 ? order.items : [order];
+    return lines.map((line) => ({
+        productId: line.product?._id || line.product,
+        quantity: line.quantity,
+        finish: line.finish,
+        shape: line.shape,
+        textureType: line.textureType || null,
+        selectedOptions: line.selectedOptions || [],
+        selectedDynamicAttributes: line.selectedDynamicAttributes || [],
+        customSize: line.customSize ? { width: line.customSize.width, height: line.customSize.height } : null,
+        uploadedDesign: line.uploadedDesign,
+        notes: line.notes || '',
+    }));
+};
+
+// Filter value (finish, delivery speed, texture) that the product no longer lists
+const isUnlistedFilterValue = (values, value) =>
+    Boolean(value) && Array.isArray(values) && values.length > 0 && !values.includes(value);
+
+/**
+ * Find selections of a past order that the products no longer offer
+ *
+ * @param {Array<Object>} lines - Result of getReorderLines
+ * @returns {Promise<Array<{ line: number, productName: string|null, message: string }>>}
+ */
+export const findReorderConflicts = async (lines) => {
+    const conflicts = [];
+
+    for (const [index, line] of lines.entries()) {
+        const product = line.productId
+            ? await Product.findById(line.productId)
+                .populate({ path: 'dynamicAttributes.attributeType', model: 'AttributeType' })
+                .lean()
+            : null;
+        if (!product) {
+            conflicts.push({ line: index, productName: null, message: 'This product is no longer available' });
+            continue;
+        }
+
+        const addConflict = (message) => conflicts.push({ line: index, productName: product.name, message });
+        const filters = product.filters || {};
+
+        if (isUnlistedFilterValue(filters.printingOption, line.finish)) {
+            addConflict(`Printing option "${line.finish}" is no longer available`);
+        }
+        if (isUnlistedFilterValue(filters.deliverySpeed, line.shape)) {
+            addConflict(`Delivery speed "${line.shape}" is no longer available`);
+        }
+        if (isUnlistedFilterValue(filters.textureType, line.textureType)) {
+            addConflict(`Texture "${line.textureType}" is no longer available`);
+        }
+
+        const { unknown } = resolveSelectedOptions(product, line.selectedOptions);
+        unknown.forEach((name) => addConflict(`Option "${name}" is no longer available`));
+
+        findDynamicAttributeConflicts(product, line.selectedDynamicAttributes)
+            .forEach((conflict) => addConflict(conflict.message));
+    }
+
+    return conflicts;
+};
+
+/**
+ * Check a past order for conflicts and price it at today's rates
+ * Coupons are not carried over. Quote errors (quantity or size limits that changed, an
+ * undeliverable pincode) are returned as conflicts too.
+ *
+ * @param {Object} order - Order as a plain object
+ * @param {Object} options - pincode (defaults to the original delivery pincode), deliveryState (defaults to the state
+ *                            chosen for the original pincode), userId
+ * @returns {Promise<Object>} { lines, conflicts, quote } - quote is a buildOrderQuote (single product)
+ *                            or buildCartQuote (multi-line) result, null when there are conflicts
+ */
+export const buildReorderQuote = async (order, { pincode, deliveryState, userId }) => {
+    const lines = getReorderLines(order);
+    const conflicts = await findReorderConflicts(lines);
+    if (conflicts.length > 0) {
+        return { lines, conflicts, quote: null };
+    }
+
+    const deliveryPincode = pincode || order.pincode;
+    const state = deliveryState ||
+        (deliveryPincode === order.pincode ? order.pricingSnapshot?.inputs?.deliveryState : null);
+    try {
+        const quote = order.items?.length > 0
+            ? await buildCartQuote({ items: lines, pincode: deliveryPincode, deliveryState: state, userId })
+            : await buildOrderQuote({ ...lines[0], pincode: deliveryPincode, deliveryState: state, userId });
+        return { lines, conflicts, quote };
+    } catch (err) {
+        if (!err.statusCode) throw err;
+        return { lines, conflicts: [{ line: null, productName: null, message: err.message }], quote: null };
+    }
+};
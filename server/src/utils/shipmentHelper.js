@@ -0,0 +1,106 @@
+// Order shipments
+// An order can go out in several consignments; it is delivered once every unit ordered has been delivered.
+
+import { getOrderLines, findOrderLine } from './orderDepartmentHelper.js';
+
+// Orders can be shipped (in part) once production has started
+export const SHIPPABLE_ORDER_STATUSES = ['processing', 'completed'];
+
+export const SHIPMENT_STATUSES = ['dispatched', 'in_transit', 'out_for_delivery', 'delivered'];
+
+const shipmentError = (message, statusCode = 400) => {
+    const error = new Error(message);
+    error.statusCode = statusCode;
+    return error;
+};
+
+const sameLine = (shipment, line, order) =>
+    line === order ? !shipment.lineId : Boolean(shipment.lineId) && shipment.lineId.toString() === line._id.toString();
+
+/**
+ * Ordered, shipped and delivered quantities per line
+ *
+ * @param {Object} order - Order document or lean object
+ * @returns {Array<{ lineId: string|null, productName: string|null, quantity: number, shipped: number, delivered: number }>}
+ */
+export const getShipmentQuantities = (order) => {
+    const shipments = order.shipments || [];
+    return getOrderLines(order).map((line) => {
+        const lineShipments = shipments.filter((shipment) => sameLine(shipment, line, order));
+        return {
+            lineId: line === order ? null : line._id.toString(),
+            productName: line.product?.name || null,
+            quantity: line.quantity,
+            shipped: lineShipments.reduce((sum, shipment) => sum + shipment.quantity, 0),
+            delivered: lineShipments
+                .filter((shipment) => shipment.status === 'delivered')
+                .reduce((sum, shipment) => sum + shipment.quantity, 0),
+        };
+    });
+};
+
+/**
+ * Check a new consignment against what is left to ship
+ *
+ * @param {Object} order - Order document
+ * @param {Object} input - lineId (cart orders), quantity
+ * @returns {Object} The order line the shipment is for
+ * @throws Error with statusCode 400 when the order can't be shipped or the quantity is more than is left
+ */
+export const assertShippable = (order, { lineId, quantity }) => {
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+        throw shipmentError(`Order can't be shipped yet. Current status: ${order.status}`);
+    }
+
+    const line = findOrderLine(order, lineId);
+    if (!line) {
+        throw shipmentError(lineId ? 'Order line not found' : 'lineId is required for orders with more than one line');
+    }
+
+    const shipmentQuantity = parseInt(quantity);
+    if (!shipmentQuantity || shipmentQuantity <= 0) {
+        throw shipmentError('Quantity must be a positive number');
+    }
+    const shipped = (order.shipments || [])
+        .filter((shipment) => sameLine(shipment, line, order))
+        .reduce((sum, shipment) => sum + shipment.quantity, 0);
+    const remaining = line.quantity - shipped;
+    if (shipmentQuantity > remaining) {
+        throw shipmentError(`Only ${remaining} of ${line.quantity} units are left to ship`);
+    }
+
+    return line;
+};
+
+/**
+ * Update the order's single-consignment fields from its shipments (the caller saves the order)
+ * The order is only marked delivered when every unit of every line has been delivered.
+ *
+ * @param {Object} order - Order document
+ */
+export const syncShipmentSummary = (order) => {
+    const shipments = [...(order.shipments || [])].sort((a, b) => new Date(a.dispatchedAt) - new Date(b.dispatchedAt));
+    if (shipments.length === 0) return;
+
+    const latest = shipments[shipments.length - 1];
+    order.numberOfBoxes = shipments.reduce((sum, shipment) => sum + (shipment.numberOfBoxes || 0), 0);
+    order.dispatchedAt = shipments[0].dispatchedAt;
+    order.handedOverToCourierAt = order.handedOverToCourierAt || shipments[0].dispatchedAt;
+    order.courierPartner = latest.courierPartner;
+    order.trackingId = latest.trackingId;
+    order.courierTrackingUrl = latest.trackingUrl;
+
+    const allDelivered = getShipmentQuantities(order).every((line) => line.delivered >= line.quantity);
+    if (allDelivered) {
+        order.courierStatus = 'delivered';
+        order.deliveredAt = shipments.reduce(
+            (last, shipment) => (shipment.deliveredAt && shipment.deliveredAt > last ? shipment.deliveredAt : last),
+            shipments[0].deliveredAt
+        );
+    } else {
+        order.courierStatus = shipments.some((shipment) => shipment.status === 'out_for_delivery')
+            ? 'out_for_delivery'
+            : 'in_transit';
+        order.deliveredAt = null;
+    }
+};
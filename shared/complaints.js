@@ -0,0 +1,30 @@
+// Complaint (RMA) reasons and resolutions
+// Shared so the customer form, the admin triage view and the reason report use the same codes.
+// Keep this file dependency-free plain JavaScript so both client and server can import it.
+
+export const COMPLAINT_REASON_LABELS = {
+  misprint: "Misprint / wrong design",
+  colour_mismatch: "Colour mismatch",
+  cutting_error: "Cutting or trimming error",
+  print_quality: "Smudged or faded print",
+  damaged_in_transit: "Damaged in transit",
+  wrong_quantity: "Wrong quantity",
+  other: "Other",
+};
+
+export const COMPLAINT_REASONS = Object.keys(COMPLAINT_REASON_LABELS);
+
+// How an admin resolves a complaint
+export const COMPLAINT_RESOLUTION_LABELS = {
+  reprint: "Reprint",
+  partial_refund: "Partial refund",
+  rejected: "Rejected",
+};
+
+export const COMPLAINT_RESOLUTIONS = Object.keys(COMPLAINT_RESOLUTION_LABELS);
+
+// Photos a customer can attach to one complaint
+export const MAX_COMPLAINT_PHOTOS = 5;
+
+// Photo formats a complaint accepts (raster images only; they are re-encoded as JPEG when stored)
+export const COMPLAINT_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
@@ -0,0 +1,246 @@
+// GST place-of-supply helpers
+// Deliveries inside the seller's state are taxed CGST + SGST (or UTGST), deliveries to other states IGST.
+// Keep this file dependency-free plain JavaScript so both client and server can import it.
+
+/**
+ * GST state codes (as used in GSTINs)
+ * ut: Union territory without its own legislature - intra-UT supplies use UTGST instead of SGST
+ */
+export const GST_STATES = {
+  "01": { name: "Jammu and Kashmir" },
+  "02": { name: "Himachal Pradesh" },
+  "03": { name: "Punjab" },
+  "04": { name: "Chandigarh", ut: true },
+  "05": { name: "Uttarakhand" },
+  "06": { name: "Haryana" },
+  "07": { name: "Delhi" },
+  "08": { name: "Rajasthan" },
+  "09": { name: "Uttar Pradesh" },
+  "10": { name: "Bihar" },
+  "11": { name: "Sikkim" },
+  "12": { name: "Arunachal Pradesh" },
+  "13": { name: "Nagaland" },
+  "14": { name: "Manipur" },
+  "15": { name: "Mizoram" },
+  "16": { name: "Tripura" },
+  "17": { name: "Meghalaya" },
+  "18": { name: "Assam" },
+  "19": { name: "West Bengal" },
+  "20": { name: "Jharkhand" },
+  "21": { name: "Odisha" },
+  "22": { name: "Chhattisgarh" },
+  "23": { name: "Madhya Pradesh" },
+  "24": { name: "Gujarat" },
+  "26": { name: "Dadra and Nagar Haveli and Daman and Diu", ut: true },
+  "27": { name: "Maharashtra" },
+  "29": { name: "Karnataka" },
+  "30": { name: "Goa" },
+  "31": { name: "Lakshadweep", ut: true },
+  "32": { name: "Kerala" },
+  "33": { name: "Tamil Nadu" },
+  "34": { name: "Puducherry" },
+  "35": { name: "Andaman and Nicobar Islands", ut: true },
+  "36": { name: "Telangana" },
+  "37": { name: "Andhra Pradesh" },
+  "38": { name: "Ladakh", ut: true },
+};
+
+// PIN code prefix ranges -> GST state code, based on India Post postal circles.
+// Longer prefixes are exceptions inside a broader range and win over shorter ones.
+const PINCODE_STATE_RANGES = [
+  ["110", "110", "07"],
+  ["121", "136", "06"],
+  ["140", "159", "03"],
+  ["160001", "160036", "04"],
+  ["160055", "160055", "03"],
+  ["160059", "160059", "03"],
+  ["160062", "160062", "03"],
+  ["160071", "160071", "03"],
+  ["171", "177", "02"],
+  ["180", "193", "01"],
+  ["194", "194", "38"],
+  ["201", "245", "09"],
+  ["244712", "244713", "05"],
+  ["244715", "244715", "05"],
+  ["246", "246", "05"],
+  ["247001", "247001", "09"],
+  ["247667", "247667", "05"],
+  ["248", "249", "05"],
+  ["250", "261", "09"],
+  ["262001", "262001", "09"],
+  ["262308", "262308", "05"],
+  ["262401", "262401", "05"],
+  ["262405", "262405", "05"],
+  ["262701", "262701", "09"],
+  ["263", "263", "05"],
+  ["264", "285", "09"],
+  ["301", "345", "08"],
+  ["360", "396", "24"],
+  ["362520", "362520", "26"],
+  ["362560", "362560", "24"],
+  ["396191", "396191", "24"],
+  ["396195", "396195", "24"],
+  ["396210", "396210", "26"],
+  ["396220", "396220", "26"],
+  ["396230", "396230", "26"],
+  ["396240", "396240", "26"],
+  ["400", "402", "27"],
+  ["403", "403", "30"],
+  ["404", "445", "27"],
+  ["450", "488", "23"],
+  ["490", "497", "22"],
+  ["500", "509", "36"],
+  ["515", "535", "37"],
+  ["533464", "533464", "34"],
+  ["560", "591", "29"],
+  ["600", "643", "33"],
+  ["605001", "605014", "34"],
+  ["607402", "607402", "34"],
+  ["609602", "609609", "34"],
+  ["670", "695", "32"],
+  ["673310", "673310", "34"],
+  ["68255", "68255", "31"],
+  ["700", "736", "19"],
+  ["737", "737", "11"],
+  ["738", "743", "19"],
+  ["744", "744", "35"],
+  ["751", "770", "21"],
+  ["781", "788", "18"],
+  ["790", "792", "12"],
+  ["793", "794", "17"],
+  ["795", "795", "14"],
+  ["796", "796", "15"],
+  ["797", "798", "13"],
+  ["799", "799", "16"],
+  ["800", "813", "10"],
+  ["814", "816", "20"],
+  ["817", "821", "10"],
+  ["822", "822", "20"],
+  ["823", "824", "10"],
+  ["825", "835", "20"],
+  ["836", "855", "10"],
+];
+
+// Prefixes whose PIN codes are split between states or union territories. A PIN code here is only resolved by an
+// exact entry above - any other is treated as unknown rather than guessed from the surrounding range.
+const SHARED_PINCODE_PREFIXES = ["160", "2447", "247", "262", "3625", "3961", "3962", "53346", "605", "6074", "6096", "67331"];
+
+const roundCurrency = (amount) => Math.round((Number(amount) || 0) * 100) / 100;
+
+/**
+ * Normalise a state given as a GST state code ("07", "7") or name ("Delhi")
+ *
+ * @param {string|number} state
+ * @returns {string|null} Two-digit GST state code
+ */
+export const normalizeStateCode = (state) => {
+  if (state === null || state === undefined || state === "") return null;
+  const value = String(state).trim();
+  if (/^\d{1,2}$/.test(value)) {
+    const code = value.padStart(2, "0");
+    return GST_STATES[code] ? code : null;
+  }
+  const lower = value.toLowerCase();
+  const match = Object.keys(GST_STATES).find((code) => GST_STATES[code].name.toLowerCase() === lower);
+  return match || null;
+};
+
+/**
+ * Work out the destination state from a 6-digit PIN code
+ * PIN codes the table can't place with certainty give null, so no GST split is guessed for them.
+ *
+ * @param {string} pincode
+ * @returns {{ code: string, name: string } | null}
+ */
+export const getStateFromPincode = (pincode) => {
+  const pin = String(pincode || "").trim();
+  if (!/^[1-9]\d{5}$/.test(pin)) return null;
+
+  let best = null;
+  PINCODE_STATE_RANGES.forEach(([from, to, code]) => {
+    const prefix = pin.slice(0, from.length);
+    if (prefix >= from && prefix <= to && (!best || from.length > best.length)) {
+      best = { length: from.length, code };
+    }
+  });
+  if (best && best.length < 6 && SHARED_PINCODE_PREFIXES.some((prefix) => pin.startsWith(prefix))) {
+    return null;
+  }
+
+  return best ? { code: best.code, name: GST_STATES[best.code].name } : null;
+};
+
+/**
+ * Whether the customer has to say which state a PIN code delivers to (a valid PIN code the table can't place)
+ *
+ * @param {string} pincode
+ * @returns {boolean}
+ */
+export const pincodeNeedsDeliveryState = (pincode) => {
+  const pin = String(pincode || "").trim();
+  return /^[1-9]\d{5}$/.test(pin) && !getStateFromPincode(pin);
+};
+
+/**
+ * Work out the destination state of a delivery
+ * The PIN code decides when it can be placed with certainty; otherwise the state from the customer's shipping
+ * address is used.
+ *
+ * @param {string} pincode - Delivery PIN code
+ * @param {string} [deliveryState] - State the customer chose for the shipping address (code or name)
+ * @returns {{ code: string, name: string } | null}
+ */
+export const getDeliveryState = (pincode, deliveryState) => {
+  const fromPincode = getStateFromPincode(pincode);
+  if (fromPincode) return fromPincode;
+  const code = normalizeStateCode(deliveryState);
+  return code ? { code, name: GST_STATES[code].name } : null;
+};
+
+/**
+ * Split a GST amount into CGST + SGST/UTGST (same state) or IGST (different state)
+ *
+ * @param {number} gstAmount - Total GST
+ * @param {number} gstPercentage - Total GST rate
+ * @param {string} sellerStateCode - Seller's GST state code
+ * @param {string} pincode - Delivery PIN code
+ * @param {string} [deliveryState] - Customer's chosen state, for PIN codes that can't be placed (see getDeliveryState)
+ * @returns {Object|null} Split, or null when either state can't be determined
+ */
+export const calculateGstSplit = (gstAmount, gstPercentage, sellerStateCode, pincode, deliveryState) => {
+  const sellerCode = normalizeStateCode(sellerStateCode);
+  const destination = getDeliveryState(pincode, deliveryState);
+  if (!sellerCode || !destination) return null;
+
+  const isInterState = sellerCode !== destination.code;
+  if (isInterState) {
+    return {
+      sellerStateCode: sellerCode,
+      placeOfSupplyCode: destination.code,
+      placeOfSupply: destination.name,
+      isInterState: true,
+      stateTaxLabel: null,
+      cgstRate: 0,
+      cgstAmount: 0,
+      sgstRate: 0,
+      sgstAmount: 0,
+      igstRate: gstPercentage,
+      igstAmount: roundCurrency(gstAmount),
+    };
+  }
+
+  const cgstAmount = roundCurrency(gstAmount / 2);
+  return {
+    sellerStateCode: sellerCode,
+    placeOfSupplyCode: destination.code,
+    placeOfSupply: destination.name,
+    isInterState: false,
+    stateTaxLabel: GST_STATES[sellerCode].ut ? "UTGST" : "SGST",
+    cgstRate: gstPercentage / 2,
+    cgstAmount,
+    sgstRate: gstPercentage / 2,
+    sgstAmount: roundCurrency(gstAmount - cgstAmount),
+    igstRate: 0,
+    igstAmount: 0,
+  };
+};
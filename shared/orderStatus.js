@@ -0,0 +1,62 @@
+// Order status state machine
+// The single definition of which status changes are allowed and who may make them.
+// Keep this file dependency-free plain JavaScript so both client and server can import it.
+
+export const ORDER_STATUSES = [
+  "request",
+  "production_ready",
+  "approved",
+  "processing",
+  "completed",
+  "cancelled",
+  "rejected",
+];
+
+// User roles (User.role) allowed to make each change: from -> to -> roles
+// "emp" changes come from department actions (first department started, last department completed).
+export const ORDER_STATUS_TRANSITIONS = {
+  request: {
+    production_ready: ["admin"],
+    approved: ["admin"],
+    rejected: ["admin"],
+    cancelled: ["admin", "user"],
+  },
+  production_ready: {
+    approved: ["admin"],
+    rejected: ["admin"],
+    cancelled: ["admin", "user"],
+  },
+  approved: {
+    processing: ["admin", "emp"],
+    cancelled: ["admin", "user"],
+  },
+  processing: {
+    completed: ["admin", "emp"],
+    cancelled: ["admin", "user"],
+  },
+  completed: {},
+  cancelled: {},
+  rejected: {},
+};
+
+// Changes the customer must be given a reason for
+export const REASON_REQUIRED_STATUSES = ["rejected"];
+
+export const ORDER_STATUS_LABELS = {
+  request: "Request",
+  production_ready: "Production Ready",
+  approved: "Approved",
+  processing: "Processing",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  rejected: "Rejected",
+};
+
+export const isTransitionDefined = (from, to) => Boolean(ORDER_STATUS_TRANSITIONS[from]?.[to]);
+
+export const canTransitionOrderStatus = (from, to, role) =>
+  (ORDER_STATUS_TRANSITIONS[from]?.[to] || []).includes(role);
+
+// Statuses a user with the given role can move an order to from its current status
+export const getNextOrderStatuses = (from, role) =>
+  Object.keys(ORDER_STATUS_TRANSITIONS[from] || {}).filter((to) => canTransitionOrderStatus(from, to, role));
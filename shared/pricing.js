@@ -0,0 +1,803 @@
+// Shared pricing engine
+// Used by the client (product page, order views) and by the server (quotes, order creation)
+// so that the price a customer sees is exactly the price the server charges.
+// Keep this file dependency-free plain JavaScript so both sides can import it.
+
+import { calculateGstSplit } from "./gst.js";
+
+// Round a currency amount to 2 decimal places
+export const roundCurrency = (amount) => {
+  return Math.round((Number(amount) || 0) * 100) / 100;
+};
+
+// Two totals are considered equal when they match to the paisa
+export const pricesMatch = (a, b) => {
+  return Math.abs(roundCurrency(a) - roundCurrency(b)) < 0.01;
+};
+
+const toNumber = (value) => {
+  if (typeof value === "number") return value;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+// Find the filter price entry (priced per 1000 units) for the selected filter value
+const findFilterPrice = (prices, name) => {
+  if (!name || !Array.isArray(prices)) return null;
+  const priceData = prices.find((p) => p.name === name);
+  if (!priceData || toNumber(priceData.priceAdd) === 0) return null;
+  return toNumber(priceData.priceAdd);
+};
+
+/**
+ * How an option or attribute value charge is applied
+ * PER_UNIT   - priceAdd is charged for every unit
+ * PER_1000   - priceAdd is charged per 1000 units (pro-rated)
+ * FLAT       - priceAdd is charged once per order
+ * PERCENTAGE - priceAdd is a percentage of the base price, charged per unit
+ */
+export const PRICING_MODES = {
+  PER_UNIT: "PER_UNIT",
+  PER_1000: "PER_1000",
+  FLAT: "FLAT",
+  PERCENTAGE: "PERCENTAGE",
+};
+
+export const isValidPricingMode = (mode) => Object.values(PRICING_MODES).includes(mode);
+
+// Options saved before charge bases existed: small amounts were treated as per unit, larger ones as flat
+const legacyOptionPricingMode = (priceAdd) => (priceAdd < 10 ? PRICING_MODES.PER_UNIT : PRICING_MODES.FLAT);
+
+/**
+ * Cost of a single charge for the given quantity
+ *
+ * @param {string} pricingMode - One of PRICING_MODES
+ * @param {number} priceAdd - Amount as declared on the option/attribute value
+ * @param {number} quantity
+ * @param {number} basePrice - Original product base price (used by PERCENTAGE)
+ * @returns {{ cost: number, perUnit: number }}
+ */
+export const calculateCharge = (pricingMode, priceAdd, quantity, basePrice) => {
+  const amount = toNumber(priceAdd);
+  let perUnit;
+  switch (pricingMode) {
+    case PRICING_MODES.FLAT:
+      return { cost: amount, perUnit: quantity > 0 ? amount / quantity : 0 };
+    case PRICING_MODES.PER_1000:
+      perUnit = amount / 1000;
+      break;
+    case PRICING_MODES.PERCENTAGE:
+      perUnit = (toNumber(basePrice) * amount) / 100;
+      break;
+    default:
+      perUnit = amount;
+  }
+  return { cost: perUnit * quantity, perUnit };
+};
+
+const idToString = (id) => (id === null || id === undefined ? "" : id.toString());
+
+/**
+ * Resolve the customer's selected product options against the product definition
+ * Prices always come from the product, never from the request.
+ *
+ * @param {Object} product - Product with options[]
+ * @param {Array} selectedOptions - option names, or { optionId, optionName, name }
+ * @returns {{ options: Array, unknown: Array<string> }}
+ */
+export const resolveSelectedOptions = (product, selectedOptions) => {
+  const options = [];
+  const unknown = [];
+  if (!Array.isArray(selectedOptions)) return { options, unknown };
+
+  selectedOptions.forEach((opt) => {
+    const ref = typeof opt === "string" ? { optionName: opt } : opt || {};
+    const name = ref.optionName || ref.name || ref.optionId;
+    const productOption = (product.options || []).find(
+      (pOpt) => (ref.optionId && idToString(pOpt._id) === ref.optionId) || pOpt.name === name
+    );
+    if (!productOption) {
+      unknown.push(name || "Option");
+      return;
+    }
+    options.push({
+      optionId: idToString(productOption._id) || ref.optionId || productOption.name,
+      optionName: productOption.name,
+      name: productOption.name,
+      priceAdd: toNumber(productOption.priceAdd),
+      pricingMode: productOption.pricingMode || legacyOptionPricingMode(toNumber(productOption.priceAdd)),
+      description: productOption.description || null,
+      image: productOption.image || null,
+    });
+  });
+
+  return { options, unknown };
+};
+
+// Values available for a product attribute (product-specific custom values override the defaults)
+const getAttributeValues = (productAttr) => {
+  const attrType = productAttr.attributeType || {};
+  const customValues = productAttr.customValues || [];
+  return customValues.length > 0 ? customValues : attrType.attributeValues || [];
+};
+
+// Subattribute picked under a selected attribute value, in the Order.selectedDynamicAttributes[].subattribute shape
+const resolveSubattribute = (selectedValue, subValue) => {
+  if (subValue === null || subValue === undefined || subValue === "") return null;
+  const sub = (selectedValue.subattributes || []).find(
+    (sv) => sv && (sv.value === subValue || sv.value === String(subValue))
+  );
+  if (!sub) return null;
+  return {
+    value: sub.value,
+    label: sub.label || sub.value,
+    priceMultiplier: sub.priceMultiplier || null,
+    priceAdd: toNumber(sub.priceAdd),
+    pricingMode: sub.pricingMode || null,
+    description: sub.description || null,
+    image: sub.image || null,
+  };
+};
+
+/**
+ * Resolve selected dynamic attributes against the product's attribute definitions
+ * Accepts either an array of { attributeTypeId, attributeValue, subattribute } or an object keyed by attributeTypeId
+ * (subattributes under "<attributeTypeId>_sub").
+ * The product must have dynamicAttributes.attributeType populated.
+ *
+ * @param {Object} product - Product with populated dynamicAttributes
+ * @param {Array|Object} selectedDynamicAttributes
+ * @returns {Array} Resolved attributes in the Order.selectedDynamicAttributes shape
+ */
+export const resolveDynamicAttributes = (product, selectedDynamicAttributes) => {
+  if (!selectedDynamicAttributes) return [];
+
+  const selections = Array.isArray(selectedDynamicAttributes)
+    ? selectedDynamicAttributes.map((attr) => ({
+        attributeTypeId: idToString(attr.attributeTypeId || attr.attributeType?._id),
+        value: attr.attributeValue,
+        subValue: attr.subattribute?.value ?? attr.subattributeValue,
+      }))
+    : Object.keys(selectedDynamicAttributes)
+        .filter((key) => !key.endsWith("_sub"))
+        .map((key) => ({
+          attributeTypeId: key,
+          value: selectedDynamicAttributes[key],
+          subValue: selectedDynamicAttributes[`${key}_sub`],
+        }));
+
+  const resolved = [];
+  selections.forEach(({ attributeTypeId, value, subValue }) => {
+    if (value === null || value === undefined || value === "") return;
+    if (Array.isArray(value) && value.length === 0) return;
+
+    const productAttr = (product.dynamicAttributes || []).find(
+      (attr) => attr.attributeType && typeof attr.attributeType === "object" &&
+        idToString(attr.attributeType._id) === attributeTypeId
+    );
+    if (!productAttr || productAttr.isEnabled === false) return;
+
+    const attrType = productAttr.attributeType;
+    const allValues = getAttributeValues(productAttr);
+    const attributeName = attrType.attributeName || "Attribute";
+
+    if (Array.isArray(value)) {
+      // Multiple selection - one entry per value so each keeps its own charge basis
+      const selectedValues = allValues.filter((av) => value.includes(av.value));
+      selectedValues.forEach((sv) => {
+        resolved.push({
+          attributeTypeId,
+          attributeName,
+          attributeValue: sv.value,
+          label: sv.label || sv.value,
+          priceMultiplier: sv.priceMultiplier || null,
+          priceAdd: toNumber(sv.priceAdd),
+          pricingMode: sv.pricingMode || null,
+          description: sv.description || null,
+          image: sv.image || null,
+          subattribute: null,
+        });
+      });
+      return;
+    }
+
+    const selectedValue = allValues.find((av) => av.value === value || av.value === String(value));
+    if (selectedValue) {
+      resolved.push({
+        attributeTypeId,
+        attributeName,
+        attributeValue: value,
+        label: selectedValue.label || String(value),
+        priceMultiplier: selectedValue.priceMultiplier || null,
+        priceAdd: toNumber(selectedValue.priceAdd),
+        pricingMode: selectedValue.pricingMode || null,
+        description: selectedValue.description || null,
+        image: selectedValue.image || null,
+        subattribute: resolveSubattribute(selectedValue, subValue),
+      });
+    } else {
+      // Value not in the predefined list (text/number/file inputs) - informational only
+      resolved.push({
+        attributeTypeId,
+        attributeName,
+        attributeValue: typeof value === "object" && value.name ? value.name : value,
+        label: typeof value === "object" && value.name ? value.name : String(value),
+        priceMultiplier: null,
+        priceAdd: 0,
+        pricingMode: null,
+        description: null,
+        image: null,
+        subattribute: null,
+      });
+    }
+  });
+
+  return resolved;
+};
+
+/**
+ * Find stored attribute selections the product no longer offers (used when repeating a past order)
+ * Free text/number values are only checked for the attribute still being offered.
+ *
+ * @param {Object} product - Product with populated dynamicAttributes
+ * @param {Array} selectedDynamicAttributes - Order.selectedDynamicAttributes (one entry per selected value)
+ * @returns {Array<{ attributeName: string, message: string }>}
+ */
+export const findDynamicAttributeConflicts = (product, selectedDynamicAttributes) => {
+  const conflicts = [];
+  const selected = Array.isArray(selectedDynamicAttributes) ? selectedDynamicAttributes : [];
+
+  selected.forEach((attr) => {
+    const attributeTypeId = idToString(attr.attributeTypeId || attr.attributeType?._id);
+    const attributeName = attr.attributeName || "Attribute";
+    const productAttr = (product.dynamicAttributes || []).find(
+      (pAttr) => pAttr.attributeType && typeof pAttr.attributeType === "object" &&
+        idToString(pAttr.attributeType._id) === attributeTypeId
+    );
+    if (!productAttr || productAttr.isEnabled === false) {
+      conflicts.push({ attributeName, message: `${attributeName} is no longer offered for this product` });
+      return;
+    }
+
+    const allValues = getAttributeValues(productAttr);
+    if (allValues.length === 0) return;
+
+    const selectedValue = allValues.find(
+      (av) => av.value === attr.attributeValue || av.value === String(attr.attributeValue)
+    );
+    if (!selectedValue) {
+      conflicts.push({ attributeName, message: `${attributeName}: "${attr.label || attr.attributeValue}" is no longer available` });
+      return;
+    }
+
+    if (attr.subattribute?.value && !resolveSubattribute(selectedValue, attr.subattribute.value)) {
+      conflicts.push({
+        attributeName,
+        message: `${attributeName}: "${attr.subattribute.label || attr.subattribute.value}" is no longer available`,
+      });
+    }
+  });
+
+  // Attributes made required since the order was placed
+  (product.dynamicAttributes || []).forEach((pAttr) => {
+    if (!pAttr.isRequired || pAttr.isEnabled === false) return;
+    if (!pAttr.attributeType || typeof pAttr.attributeType !== "object") return;
+    const attributeTypeId = idToString(pAttr.attributeType._id);
+    if (selected.some((attr) => idToString(attr.attributeTypeId || attr.attributeType?._id) === attributeTypeId)) return;
+    const attributeName = pAttr.attributeType.attributeName || "Attribute";
+    conflicts.push({ attributeName, message: `${attributeName} is now required` });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Replace a selected attribute value's charge with the contract price, when the price list has one
+ *
+ * @param {Object} attr - Entry from resolveDynamicAttributes / Order.selectedDynamicAttributes
+ * @param {Object|null} priceList - { attributeValuePrices: [{ attributeTypeId, attributeValue, priceAdd, pricingMode }] }
+ */
+const applyContractAttributePrice = (attr, priceList) => {
+  if (!priceList || !Array.isArray(priceList.attributeValuePrices)) return attr;
+  const override = priceList.attributeValuePrices.find(
+    (o) => idToString(o.attributeTypeId) === idToString(attr.attributeTypeId) &&
+      String(o.attributeValue) === String(attr.attributeValue)
+  );
+  if (!override || !isValidPricingMode(override.pricingMode)) return attr;
+  return { ...attr, priceAdd: toNumber(override.priceAdd), pricingMode: override.pricingMode, priceMultiplier: null };
+};
+
+/**
+ * Charge line for a selected attribute value or subattribute
+ * Values with a declared charge basis use it; older values fall back to a multiplier on the original base price.
+ *
+ * @returns {Object|null} Option breakdown entry, or null when the value is free
+ */
+const calculateAttributeCharge = (name, value, quantity, basePrice) => {
+  const priceMultiplier = toNumber(value.priceMultiplier);
+  const priceAdd = toNumber(value.priceAdd);
+  if (isValidPricingMode(value.pricingMode) && priceAdd !== 0) {
+    const { cost } = calculateCharge(value.pricingMode, priceAdd, quantity, basePrice);
+    return {
+      name,
+      priceAdd,
+      cost,
+      isPerUnit: value.pricingMode !== PRICING_MODES.FLAT,
+      pricingMode: value.pricingMode,
+    };
+  }
+  if (priceMultiplier && priceMultiplier !== 1) {
+    const pricePerUnit = basePrice * (priceMultiplier - 1);
+    return {
+      name,
+      priceAdd: pricePerUnit,
+      cost: pricePerUnit * quantity,
+      isPerUnit: true,
+      pricingMode: PRICING_MODES.PER_UNIT,
+    };
+  }
+  if (priceAdd > 0) {
+    return {
+      name,
+      priceAdd,
+      cost: priceAdd * quantity,
+      isPerUnit: true,
+      pricingMode: PRICING_MODES.PER_UNIT,
+    };
+  }
+  return null;
+};
+
+/**
+ * Discount a coupon gives on an amount
+ * Returns 0 when the amount is below the coupon's minimum order value.
+ *
+ * @param {Object} coupon - { discountType: "PERCENT" | "FLAT", discountValue, maxDiscountAmount, minOrderValue }
+ * @param {number} amount - Order value the coupon applies to
+ * @returns {number}
+ */
+export const calculateCouponDiscount = (coupon, amount) => {
+  if (!coupon || amount <= 0) return 0;
+  if (amount < toNumber(coupon.minOrderValue)) return 0;
+
+  let discount = 0;
+  if (coupon.discountType === "PERCENT") {
+    discount = (amount * toNumber(coupon.discountValue)) / 100;
+    const cap = coupon.maxDiscountAmount === null || coupon.maxDiscountAmount === undefined ? null : toNumber(coupon.maxDiscountAmount);
+    if (cap !== null && cap > 0) discount = Math.min(discount, cap);
+  } else if (coupon.discountType === "FLAT") {
+    discount = toNumber(coupon.discountValue);
+  }
+  return Math.min(roundCurrency(discount), amount);
+};
+
+// Units a custom size can be entered and priced in (rates are per square unit)
+export const CUSTOM_SIZE_UNITS = {
+  INCH: "INCH",
+  MM: "MM",
+};
+
+const findTier = (tiers, value, minKey, maxKey) => {
+  if (!Array.isArray(tiers)) return null;
+  return (
+    tiers.find((tier) => {
+      const min = toNumber(tier[minKey]);
+      const max = tier[maxKey];
+      return value >= min && (max === null || max === undefined || max === "" || value <= toNumber(max));
+    }) || null
+  );
+};
+
+/**
+ * Check a custom width x height against the product's custom size settings
+ *
+ * @param {Object} settings - Product.customSize { enabled, unit, minWidth, maxWidth, minHeight, maxHeight, areaRates }
+ * @param {Object} customSize - { width, height } in settings.unit
+ * @param {number} quantity - Needed to find the area rate tier (optional)
+ * @returns {string|null} Error message, or null when the size can be priced
+ */
+export const validateCustomSize = (settings, customSize, quantity) => {
+  if (!settings || !settings.enabled) return "This product does not allow custom sizes.";
+  const width = toNumber(customSize?.width);
+  const height = toNumber(customSize?.height);
+  const unit = settings.unit === CUSTOM_SIZE_UNITS.MM ? "mm" : "in";
+  if (width <= 0 || height <= 0) return "Enter a width and height for the custom size.";
+
+  const minWidth = toNumber(settings.minWidth);
+  const minHeight = toNumber(settings.minHeight);
+  const maxWidth = settings.maxWidth ? toNumber(settings.maxWidth) : null;
+  const maxHeight = settings.maxHeight ? toNumber(settings.maxHeight) : null;
+  if (width < minWidth || (maxWidth !== null && width > maxWidth)) {
+    return `Width must be between ${minWidth} and ${maxWidth ?? "any"} ${unit}.`;
+  }
+  if (height < minHeight || (maxHeight !== null && height > maxHeight)) {
+    return `Height must be between ${minHeight} and ${maxHeight ?? "any"} ${unit}.`;
+  }
+  if (quantity !== undefined && !findTier(settings.areaRates, toNumber(quantity), "minQuantity", "maxQuantity")) {
+    return `Custom sizes are not available for a quantity of ${quantity}.`;
+  }
+  return null;
+};
+
+/**
+ * Per-unit price of a custom size
+ * Price per piece = width x height x the area rate of the quantity tier; the wastage rule matching the
+ * area adds a percentage on top (charged as its own line).
+ *
+ * @param {Object} settings - Product.customSize
+ * @param {Object} customSize - { width, height }
+ * @param {number} quantity
+ * @returns {Object|null} { width, height, unit, area, ratePerUnitArea, pricePerPiece, wastagePercentage },
+ *                        or null when the size can't be priced (see validateCustomSize)
+ */
+export const calculateCustomSizePrice = (settings, customSize, quantity) => {
+  if (!customSize || validateCustomSize(settings, customSize, quantity)) return null;
+
+  const width = toNumber(customSize.width);
+  const height = toNumber(customSize.height);
+  const area = width * height;
+  const tier = findTier(settings.areaRates, toNumber(quantity), "minQuantity", "maxQuantity");
+  const ratePerUnitArea = toNumber(tier?.ratePerUnitArea);
+  const wastageRule = findTier(settings.wastageRules, area, "minArea", "maxArea");
+
+  return {
+    width,
+    height,
+    unit: settings.unit === CUSTOM_SIZE_UNITS.MM ? CUSTOM_SIZE_UNITS.MM : CUSTOM_SIZE_UNITS.INCH,
+    area,
+    ratePerUnitArea,
+    pricePerPiece: area * ratePerUnitArea,
+    wastagePercentage: toNumber(wastageRule?.wastagePercentage),
+  };
+};
+
+/**
+ * Shipping charge for a delivery zone
+ * Flat rate per order plus a rate per kg (shipment weight rounded up to the next whole kg).
+ * Free when the order value reaches the zone's free-shipping threshold.
+ *
+ * @param {Object|null} deliveryZone - { name, flatRate, ratePerKg, freeShippingThreshold, minOrderValue }
+ * @param {number} orderValue - Order value before shipping and GST
+ * @param {number} weightKg - Shipment weight
+ * @returns {{ shippingCharge: number, freeShippingApplied: boolean }}
+ */
+export const calculateShippingCharge = (deliveryZone, orderValue, weightKg) => {
+  if (!deliveryZone) return { shippingCharge: 0, freeShippingApplied: false };
+
+  const threshold = toNumber(deliveryZone.freeShippingThreshold);
+  if (threshold > 0 && orderValue >= threshold) {
+    return { shippingCharge: 0, freeShippingApplied: true };
+  }
+
+  const chargeableKg = weightKg > 0 ? Math.ceil(weightKg) : 0;
+  const shippingCharge = toNumber(deliveryZone.flatRate) + toNumber(deliveryZone.ratePerKg) * chargeableKg;
+  return { shippingCharge: roundCurrency(shippingCharge), freeShippingApplied: false };
+};
+
+/**
+ * Calculate the full price breakdown for an order or a quote
+ *
+ * Calculation order:
+ * 1. Base Price = quantity * base price (after range-wise multiplier; contract price list prices win over the catalog;
+ *    a custom size is priced by area instead)
+ * 2. Add options/attributes/filter charges
+ * 3. Subtotal before discount
+ * 4. Apply quantity discount to subtotal
+ * 5. Apply coupon discount (if any)
+ * 6. Add design charge
+ * 7. Add shipping for the delivery zone (if any)
+ * 8. Add GST (on discounted subtotal + design charge + shipping), split into CGST/SGST or IGST
+ * 9. Final total
+ *
+ * @param {Object} order - quantity, product, finish, shape, textureType, selectedOptions, selectedDynamicAttributes, coupon,
+ *                         pincode, sellerStateCode and deliveryState (for the GST split; deliveryState only counts
+ *                         when the pincode can't be placed),
+ *                         deliveryZone (optional shipping rates: { name, flatRate, ratePerKg, freeShippingThreshold, minOrderValue }),
+ *                         customSize (optional { width, height } priced with product.customSize),
+ *                         priceList (optional contract overrides: { name, basePrice, rangeWiseQuantities, attributeValuePrices })
+ * @returns {Object} OrderBreakdown
+ */
+export const calculateOrderBreakdown = (order) => {
+  const product = order.product || {};
+  const filters = product.filters || {};
+  const priceList = order.priceList || null;
+  const hasContractBasePrice = priceList && priceList.basePrice !== null && priceList.basePrice !== undefined;
+  const quantity = toNumber(order.quantity);
+  // A custom width x height is priced by area and replaces the product's (and contract) base price
+  const customSize = order.customSize ? calculateCustomSizePrice(product.customSize, order.customSize, quantity) : null;
+  const originalBasePrice = customSize
+    ? customSize.pricePerPiece
+    : toNumber(hasContractBasePrice ? priceList.basePrice : product.basePrice);
+  const gstPercentage =
+    product.gstPercentage === undefined || product.gstPercentage === null ? 18 : toNumber(product.gstPercentage);
+  const designCharge = toNumber(product.additionalDesignCharge);
+
+  // Step 1: Apply range-wise price multiplier if applicable (contract ranges replace the product's ranges)
+  let rangeWiseMultiplier = 1.0;
+  const orderQuantity = filters.orderQuantity;
+  let rangeWiseQuantities = null;
+  if (Array.isArray(priceList?.rangeWiseQuantities) && priceList.rangeWiseQuantities.length > 0) {
+    rangeWiseQuantities = priceList.rangeWiseQuantities;
+  } else if (orderQuantity?.quantityType === "RANGE_WISE" &&
+      Array.isArray(orderQuantity.rangeWiseQuantities) &&
+      orderQuantity.rangeWiseQuantities.length > 0) {
+    rangeWiseQuantities = orderQuantity.rangeWiseQuantities;
+  }
+  if (rangeWiseQuantities && !customSize) {
+    const applicableRange = rangeWiseQuantities.find((range) => {
+      return quantity >= range.min && (range.max === null || range.max === undefined || quantity <= range.max);
+    });
+    if (applicableRange) {
+      rangeWiseMultiplier = applicableRange.priceMultiplier || 1.0;
+    }
+  }
+
+  const adjustedBasePrice = originalBasePrice * rangeWiseMultiplier;
+  const rawBaseTotal = adjustedBasePrice * quantity;
+
+  // Step 2: Calculate all option prices and charges
+  const optionBreakdowns = [];
+
+  // Wastage for the custom size (a percentage of the area price)
+  if (customSize && customSize.wastagePercentage > 0) {
+    const { cost } = calculateCharge(PRICING_MODES.PERCENTAGE, customSize.wastagePercentage, quantity, originalBasePrice);
+    optionBreakdowns.push({
+      name: `Wastage (${customSize.wastagePercentage}%)`,
+      priceAdd: customSize.wastagePercentage,
+      cost,
+      isPerUnit: true,
+      pricingMode: PRICING_MODES.PERCENTAGE,
+    });
+  }
+
+  // Selected product options (checkboxes)
+  if (Array.isArray(order.selectedOptions)) {
+    order.selectedOptions.forEach((opt) => {
+      if (!opt || typeof opt === "string") return;
+
+      const name = opt.name || opt.optionName || "Option";
+      const priceAdd = toNumber(opt.priceAdd);
+      const pricingMode = isValidPricingMode(opt.pricingMode) ? opt.pricingMode : legacyOptionPricingMode(priceAdd);
+      const { cost } = calculateCharge(pricingMode, priceAdd, quantity, originalBasePrice);
+
+      optionBreakdowns.push({ name, priceAdd, cost, isPerUnit: pricingMode !== PRICING_MODES.FLAT, pricingMode });
+    });
+  }
+
+  // Filter prices (printing option, delivery speed, texture) are priced per 1000 units
+  if (filters.filterPricesEnabled) {
+    const filterCharges = [
+      { label: "Printing", selected: order.finish, prices: filters.printingOptionPrices },
+      { label: "Delivery", selected: order.shape, prices: filters.deliverySpeedPrices },
+      { label: "Texture", selected: order.textureType, prices: filters.textureTypePrices },
+    ];
+    filterCharges.forEach(({ label, selected, prices }) => {
+      const pricePer1000 = findFilterPrice(prices, selected);
+      if (pricePer1000 === null) return;
+      const { cost } = calculateCharge(PRICING_MODES.PER_1000, pricePer1000, quantity, originalBasePrice);
+      optionBreakdowns.push({
+        name: `${label}: ${selected}`,
+        priceAdd: pricePer1000,
+        cost,
+        isPerUnit: true,
+        pricingMode: PRICING_MODES.PER_1000,
+      });
+    });
+  }
+
+  // Dynamic attributes (and the subattribute picked under a value, charged as its own line)
+  if (Array.isArray(order.selectedDynamicAttributes)) {
+    order.selectedDynamicAttributes.forEach((selectedAttr) => {
+      const attr = applyContractAttributePrice(selectedAttr, priceList);
+      const name = `${attr.attributeName}: ${attr.label}`;
+      const charge = calculateAttributeCharge(name, attr, quantity, originalBasePrice);
+      if (charge) optionBreakdowns.push(charge);
+
+      if (attr.subattribute) {
+        const subCharge = calculateAttributeCharge(
+          `${name} - ${attr.subattribute.label}`,
+          attr.subattribute,
+          quantity,
+          originalBasePrice
+        );
+        if (subCharge) optionBreakdowns.push(subCharge);
+      }
+    });
+  }
+
+  // Step 3: Subtotal before discount
+  const optionsTotal = optionBreakdowns.reduce((sum, opt) => sum + opt.cost, 0);
+  const subtotalBeforeDiscount = rawBaseTotal + optionsTotal;
+
+  // Step 4: Apply quantity discount to the subtotal
+  let discountPercentage = 0;
+  let discountMultiplier = 1.0;
+
+  if (Array.isArray(product.quantityDiscounts) && product.quantityDiscounts.length > 0) {
+    const applicableDiscount = product.quantityDiscounts.find((discount) => {
+      const minQty = discount.minQuantity || 0;
+      const maxQty = discount.maxQuantity;
+      return quantity >= minQty && (maxQty === null || maxQty === undefined || quantity <= maxQty);
+    });
+
+    if (applicableDiscount) {
+      // Use priceMultiplier if available, otherwise calculate from discountPercentage
+      if (applicableDiscount.priceMultiplier) {
+        discountMultiplier = applicableDiscount.priceMultiplier;
+      } else if (applicableDiscount.discountPercentage) {
+        discountMultiplier = (100 - applicableDiscount.discountPercentage) / 100;
+      }
+      discountPercentage = applicableDiscount.discountPercentage || 0;
+    }
+  } else {
+    // Fallback to hardcoded discount logic (for backward compatibility)
+    if (quantity >= 10000) {
+      discountPercentage = 70;
+      discountMultiplier = 0.3;
+    } else if (quantity >= 1000) {
+      discountPercentage = 50;
+      discountMultiplier = 0.5;
+    } else if (quantity >= 500) {
+      discountPercentage = 10;
+      discountMultiplier = 0.9;
+    }
+  }
+
+  const discountedBaseTotal = rawBaseTotal * discountMultiplier;
+  const subtotalAfterDiscount = subtotalBeforeDiscount * discountMultiplier;
+  const discountAmount = subtotalBeforeDiscount - subtotalAfterDiscount;
+
+  // Step 5: Coupon discount on the discounted subtotal
+  const couponDiscount = calculateCouponDiscount(order.coupon, subtotalAfterDiscount);
+  const subtotalAfterCoupon = subtotalAfterDiscount - couponDiscount;
+
+  // Step 6: Design charge
+  const subtotalWithDesignCharge = subtotalAfterCoupon + designCharge;
+
+  // Step 7: Shipping for the delivery zone (product weight is given per 1000 units)
+  const deliveryZone = order.deliveryZone || null;
+  const shippingWeightKg = (toNumber(product.shippingWeightPer1000) * quantity) / 1000;
+  const { shippingCharge, freeShippingApplied } = calculateShippingCharge(
+    deliveryZone,
+    subtotalWithDesignCharge,
+    shippingWeightKg
+  );
+  const taxableAmount = subtotalWithDesignCharge + shippingCharge;
+
+  // Step 8: GST on discounted subtotal + design charge + shipping (shipping is taxed with the goods it delivers)
+  const gstAmount = (taxableAmount * gstPercentage) / 100;
+  const gstSplit = calculateGstSplit(gstAmount, gstPercentage, order.sellerStateCode, order.pincode, order.deliveryState);
+
+  // Step 9: Final total
+  const finalTotal = taxableAmount + gstAmount;
+
+  return {
+    quantity,
+    basePrice: originalBasePrice,
+    adjustedBasePrice,
+    rangeWiseMultiplier,
+    rawBaseTotal,
+    discountedBaseTotal,
+    discountPercentage,
+    discountMultiplier,
+    optionBreakdowns,
+    subtotalBeforeGst: subtotalBeforeDiscount,
+    subtotalAfterDiscount,
+    subtotal: subtotalAfterDiscount,
+    discountAmount,
+    priceListName: customSize ? null : priceList?.name || null,
+    customSize,
+    couponCode: order.coupon?.code || null,
+    couponDiscount,
+    subtotalAfterCoupon,
+    designCharge,
+    subtotalWithDesignCharge,
+    deliveryZoneName: deliveryZone?.name || null,
+    shippingWeightKg,
+    shippingCharge,
+    freeShippingApplied,
+    minOrderValue: toNumber(deliveryZone?.minOrderValue),
+    taxableAmount,
+    gstPercentage,
+    gstAmount,
+    gstSplit,
+    finalTotal,
+    perUnitPrice: quantity > 0 ? subtotalWithDesignCharge / quantity : adjustedBasePrice,
+  };
+};
+
+/**
+ * Calculate the price breakdown of a multi-line (cart) order
+ * Each line is priced on its own (base price, charges, quantity discount, design charge); the coupon,
+ * shipping and GST apply to the order as a whole. The coupon discount is shared between the lines it
+ * applies to in proportion to their value, so each line's GST is charged on what is actually paid for it.
+ * Shipping is taxed at the highest GST rate among the lines.
+ *
+ * @param {Object} cart - lines (calculateOrderBreakdown inputs without coupon or delivery zone;
+ *                        couponEligible: false on lines the coupon doesn't apply to), coupon, deliveryZone,
+ *                        pincode, sellerStateCode and deliveryState
+ * @returns {Object} CartBreakdown - the order-level OrderBreakdown fields plus one entry per line
+ *                   ({ breakdown, couponDiscount, taxableAmount, gstPercentage, gstAmount, lineTotal })
+ */
+export const calculateCartBreakdown = (cart) => {
+  const lines = cart.lines || [];
+  const lineBreakdowns = lines.map((line) =>
+    calculateOrderBreakdown({ ...line, coupon: null, deliveryZone: null, pincode: null, sellerStateCode: null, deliveryState: null })
+  );
+  const total = (values) => values.reduce((sum, value) => sum + value, 0);
+
+  // Quantity discounts are already applied per line
+  const subtotal = total(lineBreakdowns.map((b) => b.subtotalAfterDiscount));
+  const discountAmount = total(lineBreakdowns.map((b) => b.discountAmount));
+  const designCharge = total(lineBreakdowns.map((b) => b.designCharge));
+
+  // Coupon on the lines it applies to
+  const eligibleSubtotal = total(
+    lineBreakdowns.map((b, i) => (lines[i].couponEligible === false ? 0 : b.subtotalAfterDiscount))
+  );
+  const couponDiscount = calculateCouponDiscount(cart.coupon, eligibleSubtotal);
+  const subtotalAfterCoupon = subtotal - couponDiscount;
+  const subtotalWithDesignCharge = subtotalAfterCoupon + designCharge;
+
+  // One shipment for the whole order
+  const deliveryZone = cart.deliveryZone || null;
+  const shippingWeightKg = total(lineBreakdowns.map((b) => b.shippingWeightKg));
+  const { shippingCharge, freeShippingApplied } = calculateShippingCharge(
+    deliveryZone,
+    subtotalWithDesignCharge,
+    shippingWeightKg
+  );
+
+  const lineEntries = lineBreakdowns.map((breakdown, i) => {
+    const lineCouponDiscount = lines[i].couponEligible === false || eligibleSubtotal <= 0
+      ? 0
+      : (couponDiscount * breakdown.subtotalAfterDiscount) / eligibleSubtotal;
+    const taxableAmount = breakdown.subtotalWithDesignCharge - lineCouponDiscount;
+    const gstAmount = (taxableAmount * breakdown.gstPercentage) / 100;
+    return {
+      breakdown,
+      couponDiscount: lineCouponDiscount,
+      taxableAmount,
+      gstPercentage: breakdown.gstPercentage,
+      gstAmount,
+      lineTotal: taxableAmount + gstAmount,
+    };
+  });
+
+  const gstRates = Array.from(new Set(lineEntries.map((line) => line.gstPercentage)));
+  const shippingGstPercentage = gstRates.length > 0 ? Math.max(...gstRates) : 0;
+  const shippingGstAmount = (shippingCharge * shippingGstPercentage) / 100;
+  const gstAmount = total(lineEntries.map((line) => line.gstAmount)) + shippingGstAmount;
+  // null when the lines are taxed at different rates (the split then carries amounts only)
+  const gstPercentage = gstRates.length === 1 ? gstRates[0] : null;
+  const split = calculateGstSplit(gstAmount, gstPercentage, cart.sellerStateCode, cart.pincode, cart.deliveryState);
+  const gstSplit = split && gstPercentage === null
+    ? { ...split, cgstRate: null, sgstRate: null, igstRate: null }
+    : split;
+
+  const taxableAmount = subtotalWithDesignCharge + shippingCharge;
+  const finalTotal = taxableAmount + gstAmount;
+
+  return {
+    lines: lineEntries,
+    subtotal,
+    subtotalAfterDiscount: subtotal,
+    discountAmount,
+    couponCode: cart.coupon?.code || null,
+    couponDiscount,
+    subtotalAfterCoupon,
+    designCharge,
+    subtotalWithDesignCharge,
+    deliveryZoneName: deliveryZone?.name || null,
+    shippingWeightKg,
+    shippingCharge,
+    freeShippingApplied,
+    minOrderValue: toNumber(deliveryZone?.minOrderValue),
+    shippingGstPercentage,
+    taxableAmount,
+    gstPercentage,
+    gstAmount,
+    gstSplit,
+    finalTotal,
+  };
+};